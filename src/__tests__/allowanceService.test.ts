@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { DateTime } from "luxon";
+import type { AuthContext } from "../context/auth";
+import type { SqlRecord } from "../interface/event/Event";
+import {
+  allowanceLines,
+  applyAllowances,
+  chargeableDebit,
+  releaseAllowances,
+  resolveAllowances,
+} from "../services/allowanceService";
+import {
+  createAllowance,
+  findAllowanceUsage,
+  type Allowance,
+} from "../storage/db/postgres/helpers/allowances";
+import {
+  ensureUserExists,
+  updateUserBilledTimestamp,
+} from "../storage/db/postgres/helpers/users";
+import { allowanceCache } from "../utils/allowanceCache";
+import { insertKey } from "./fixtures/apiKey";
+import { basicUsageRecord } from "./fixtures/events";
+import { clearDatabase } from "./db";
+
+const userId = "5f0e4c1a-3b7d-4e8f-9a21-6c4d2b1e0f37";
+const enterpriseBook = "7a1b2c3d-4e5f-4607-8192-a3b4c5d6e7f8";
+
+function allowance(overrides: Partial<Allowance>): Allowance {
+  return {
+    id: crypto.randomUUID(),
+    priceBookId: null,
+    eventKind: null,
+    tag: null,
+    quantity: 10000,
+    createdAt: "2026-01-01 00:00:00+00",
+    updatedAt: "2026-01-01 00:00:00+00",
+    ...overrides,
+  };
+}
+
+describe("resolveAllowances", () => {
+  const globalCalls = allowance({ eventKind: "BASIC_USAGE" });
+  const globalSearch = allowance({ tag: "SEARCH", quantity: 100 });
+  const bookCalls = allowance({
+    eventKind: "BASIC_USAGE",
+    priceBookId: enterpriseBook,
+    quantity: 50000,
+  });
+  const all = [globalCalls, globalSearch, bookCalls];
+
+  it("applies only global allowances on default pricing", () => {
+    expect(resolveAllowances(all, null)).toEqual([globalCalls, globalSearch]);
+  });
+
+  it("lets a price book replace the global allowance on the same target", () => {
+    expect(resolveAllowances(all, enterpriseBook)).toEqual([
+      globalSearch,
+      bookCalls,
+    ]);
+  });
+});
+
+describe("allowanceLines", () => {
+  it("counts a priced basic usage event as one unit", () => {
+    expect(
+      allowanceLines({
+        type: "BASIC_USAGE",
+        reported_timestamp: DateTime.utc(),
+        data: { basicUsageType: "RAW", debitAmount: 5, tag: "SEARCH" },
+        userId,
+        eventId: "b2c3d4e5-f607-4819-8a2b-3c4d5e6f7a8b",
+        idempotencyKey: "allowance-basic",
+      })
+    ).toEqual([{ component: null, units: 1, debit: 5, tag: "SEARCH" }]);
+  });
+
+  it("counts tokens of each priced AI component", () => {
+    expect(
+      allowanceLines({
+        type: "AI_TOKEN_USAGE",
+        reported_timestamp: DateTime.utc(),
+        data: {
+          model: "gpt-4o",
+          provider: "openai",
+          inputTokens: 1200,
+          inputCacheTokens: 300,
+          outputTokens: 400,
+          outputCacheTokens: 0,
+          inputDebitAmount: 0.6,
+          inputCacheDebitAmount: 0,
+          outputDebitAmount: 0.8,
+          outputCacheDebitAmount: 0,
+          tags: { output: "GPT4O_OUTPUT" },
+        },
+        userId,
+        eventId: "c3d4e5f6-0718-492a-9b3c-4d5e6f7a8b9c",
+        idempotencyKey: "allowance-ai",
+      })
+    ).toEqual([
+      { component: "input", units: 1200, debit: 0.6, tag: null },
+      { component: "output", units: 400, debit: 0.8, tag: "GPT4O_OUTPUT" },
+    ]);
+  });
+
+  it("leaves free events out", () => {
+    expect(
+      allowanceLines({
+        type: "BASIC_USAGE",
+        reported_timestamp: DateTime.utc(),
+        data: { basicUsageType: "RAW", debitAmount: 0 },
+        userId,
+        eventId: "d4e5f607-1829-4a3b-8c4d-5e6f7a8b9c0d",
+        idempotencyKey: "allowance-free",
+      })
+    ).toEqual([]);
+  });
+});
+
+describe("chargeableDebit", () => {
+  const line = {
+    component: "input" as const,
+    units: 1000,
+    debit: 0.5,
+    tag: null,
+  };
+
+  it("charges nothing for fully covered lines", () => {
+    expect(chargeableDebit(line, 1000)).toBe(0);
+  });
+
+  it("charges the uncovered share of a partly covered line", () => {
+    expect(chargeableDebit(line, 250)).toBe(0.375);
+  });
+
+  it("charges the full debit when nothing is covered", () => {
+    expect(chargeableDebit(line, 0)).toBe(0.5);
+  });
+});
+
+describe("applyAllowances", () => {
+  const periodStart = "2026-02-01T00:00:00.000Z";
+  let auth: AuthContext;
+  let allowanceId: string;
+
+  async function billedUser(): Promise<string> {
+    const user = crypto.randomUUID();
+    await ensureUserExists(user);
+    await updateUserBilledTimestamp(user, periodStart);
+    return user;
+  }
+
+  async function consumedBy(user: string): Promise<number | undefined> {
+    const usage = await findAllowanceUsage(user, "test", periodStart);
+    return usage.get(allowanceId);
+  }
+
+  beforeAll(async () => {
+    const apiKeyId = await insertKey(
+      `scrn_test_${crypto.randomUUID().replace(/-/g, "").slice(0, 32)}`,
+      "test"
+    );
+    auth = { apiKeyId, role: "test", mode: "test" };
+    allowanceId = (await createAllowance(
+      { eventKind: "BASIC_USAGE" },
+      1,
+      null
+    ))!.id;
+  });
+
+  afterAll(async () => {
+    await clearDatabase();
+    allowanceCache.clear();
+  });
+
+  it("covers a retried event again without consuming again", async () => {
+    const user = await billedUser();
+    const event = basicUsageRecord({ userId: user, debitAmount: 5 });
+
+    const first = await applyAllowances(event, auth);
+    const retry = await applyAllowances(event, auth);
+
+    expect(first.record.data).toMatchObject({ debitAmount: 0 });
+    expect(retry.record.data).toMatchObject({ debitAmount: 0 });
+    expect(retry.consumption).toBeNull();
+    expect(await consumedBy(user)).toBe(1);
+  });
+
+  it("consumes afresh for an event whose storing failed", async () => {
+    const user = await billedUser();
+    const event = basicUsageRecord({ userId: user, debitAmount: 5 });
+
+    const first = await applyAllowances(event, auth);
+    await releaseAllowances(first.consumption!);
+    const retry = await applyAllowances(event, auth);
+
+    expect(retry.record.data).toMatchObject({ debitAmount: 0 });
+    expect(retry.consumption).not.toBeNull();
+    expect(await consumedBy(user)).toBe(1);
+  });
+
+  it("draws late events on the allowance of the period they are billed in", async () => {
+    const user = await billedUser();
+    const late: SqlRecord = {
+      ...basicUsageRecord({
+        userId: user,
+        debitAmount: 5,
+        reportedAt: DateTime.fromISO(periodStart).minus({ days: 1 }),
+      }),
+      late_policy: "next_period",
+    };
+
+    const { record } = await applyAllowances(late, auth);
+
+    expect(record.data).toMatchObject({ debitAmount: 0 });
+    expect(await consumedBy(user)).toBe(1);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { DateTime } from "luxon";
+import {
+  billingCycleConfigError,
+  billingRunDueSince,
+} from "../services/billingCycleService";
+import type { BillingCycleConfig } from "../config/identifiers";
+
+const apiKeyId = "9c8b7a6d-5e4f-4321-8a9b-0c1d2e3f4a5b";
+
+function config(overrides: Partial<BillingCycleConfig>): BillingCycleConfig {
+  return {
+    cadence: "monthly",
+    anchor: 1,
+    threshold: 0,
+    apiKeyId,
+    ...overrides,
+  };
+}
+
+describe("billingRunDueSince", () => {
+  it("is due from this month's anchor day once it has passed", () => {
+    const now = DateTime.utc(2026, 3, 20, 9);
+    expect(billingRunDueSince(config({ anchor: 15 }), now)?.toISO()).toBe(
+      "2026-03-15T00:00:00.000Z"
+    );
+  });
+
+  it("falls back to last month's anchor day before it comes round", () => {
+    const now = DateTime.utc(2026, 3, 10, 9);
+    expect(billingRunDueSince(config({ anchor: 15 }), now)?.toISO()).toBe(
+      "2026-02-15T00:00:00.000Z"
+    );
+  });
+
+  it("clamps the anchor day to the end of short months", () => {
+    const now = DateTime.utc(2026, 3, 10, 9);
+    expect(billingRunDueSince(config({ anchor: 31 }), now)?.toISO()).toBe(
+      "2026-02-28T00:00:00.000Z"
+    );
+  });
+
+  it("is due from the latest anchor weekday on weekly cycles", () => {
+    // A Thursday; anchor 1 is Monday
+    const now = DateTime.utc(2026, 3, 19, 9);
+    expect(
+      billingRunDueSince(config({ cadence: "weekly", anchor: 1 }), now)?.toISO()
+    ).toBe("2026-03-16T00:00:00.000Z");
+  });
+
+  it("is due hourly on threshold cycles", () => {
+    const now = DateTime.utc(2026, 3, 19, 9);
+    expect(
+      billingRunDueSince(
+        config({ cadence: "threshold", threshold: 5000 }),
+        now
+      )?.toISO()
+    ).toBe("2026-03-19T08:00:00.000Z");
+  });
+
+  it("is never due when the scheduler is off", () => {
+    expect(billingRunDueSince(config({ cadence: "off" }), DateTime.utc())).toBe(
+      null
+    );
+  });
+});
+
+describe("billingCycleConfigError", () => {
+  it("accepts a complete config", () => {
+    expect(billingCycleConfigError(config({ anchor: 28 }))).toBe(null);
+  });
+
+  it("requires an API key to bill under", () => {
+    expect(billingCycleConfigError(config({ apiKeyId: null }))).toContain(
+      "BILLING_CYCLE_API_KEY_ID"
+    );
+  });
+
+  it("rejects weekdays past Sunday", () => {
+    expect(
+      billingCycleConfigError(config({ cadence: "weekly", anchor: 8 }))
+    ).toContain("from 1 to 7");
+  });
+
+  it("requires a threshold on threshold cycles", () => {
+    expect(billingCycleConfigError(config({ cadence: "threshold" }))).toContain(
+      "BILLING_CYCLE_THRESHOLD"
+    );
+  });
+});
@@ -0,0 +1,291 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { DateTime } from "luxon";
+import { eq } from "drizzle-orm";
+import { status as Status } from "@grpc/grpc-js";
+import { PaymentServiceClient } from "../gen/payment/v1/payment";
+import type { AuthContext } from "../context/auth";
+import {
+  createUsageCheckout,
+  summarizeChargeLines,
+} from "../services/checkoutService";
+import { findCheckoutDiscount } from "../services/couponService";
+import { createProviderCheckout } from "../routes/gRPC/payment/paymentProvider";
+import type { InvoiceLineTotal } from "../interface/storage/Storage";
+import { getPostgresDB } from "../storage/db/postgres/db";
+import {
+  couponsTable,
+  invoicesTable,
+  sessionsTable,
+  userCouponsTable,
+  usersTable,
+} from "../storage/db/postgres/schema";
+import {
+  attachCoupon,
+  createCoupon,
+  type NewCoupon,
+} from "../storage/db/postgres/helpers/coupons";
+import {
+  ensureUserExists,
+  updateUserBilledTimestamp,
+} from "../storage/db/postgres/helpers/users";
+import { createTestApiKey } from "./fixtures/apiKey";
+import {
+  createCheckoutLink,
+  GRPC_ADDRESS,
+  grpcInsecureCredentials,
+  grpcMetadata,
+} from "./fixtures/grpc";
+import { clearDatabase } from "./db";
+
+vi.mock("../routes/gRPC/payment/paymentProvider", () => ({
+  getPaymentProviderConfig: vi.fn(async () => ({
+    productId: "prod_test",
+    returnUrl: "https://example.com/billing",
+    currency: "usd",
+  })),
+  createProviderCheckout: vi.fn(async () => ({
+    sessionId: `cks_${crypto.randomUUID()}`,
+    checkoutUrl: "https://pay.example.com/checkout",
+  })),
+}));
+
+vi.mock("../services/couponService", async (importOriginal) => {
+  const original =
+    await importOriginal<typeof import("../services/couponService")>();
+  return {
+    ...original,
+    findCheckoutDiscount: vi.fn(original.findCheckoutDiscount),
+  };
+});
+
+function line(overrides: Partial<InvoiceLineTotal>): InvoiceLineTotal {
+  return {
+    eventKind: "BASIC_USAGE",
+    basicUsageType: "RAW",
+    model: null,
+    component: null,
+    tag: null,
+    quantity: 1,
+    amount: 0,
+    adjustment: false,
+    ...overrides,
+  };
+}
+
+function aiLine(overrides: Partial<InvoiceLineTotal>): InvoiceLineTotal {
+  return line({
+    eventKind: "AI_TOKEN_USAGE",
+    basicUsageType: null,
+    component: "input",
+    ...overrides,
+  });
+}
+
+describe("summarizeChargeLines", () => {
+  it("sums lines sharing an event kind, model and basic usage type", () => {
+    expect(
+      summarizeChargeLines([
+        aiLine({
+          model: "gpt-4o",
+          tag: "GPT_INPUT",
+          quantity: 1000,
+          amount: 2.5,
+        }),
+        aiLine({
+          model: "gpt-4o",
+          component: "output",
+          tag: "GPT_OUTPUT",
+          quantity: 200,
+          amount: 0.25,
+        }),
+        line({ tag: "API_CALL", quantity: 3, amount: 30 }),
+        line({ tag: "EXPORT", quantity: 1, amount: 5, adjustment: true }),
+      ])
+    ).toEqual([
+      {
+        eventKind: "AI_TOKEN_USAGE",
+        model: "gpt-4o",
+        basicUsageType: null,
+        planId: null,
+        planName: null,
+        quantity: 1200,
+        amount: 2.75,
+      },
+      {
+        eventKind: "BASIC_USAGE",
+        model: null,
+        basicUsageType: "RAW",
+        planId: null,
+        planName: null,
+        quantity: 4,
+        amount: 35,
+      },
+    ]);
+  });
+
+  it("keeps models and basic usage types apart", () => {
+    const lines = summarizeChargeLines([
+      aiLine({ model: "gpt-4o", quantity: 10, amount: 1 }),
+      aiLine({ model: "claude-sonnet", quantity: 10, amount: 2 }),
+      line({ basicUsageType: "MIDDLEWARE_CALL", amount: 3 }),
+    ]);
+    expect(lines.map((line) => line.amount)).toEqual([1, 2, 3]);
+  });
+});
+
+describe("createUsageCheckout", () => {
+  const periodStart = "2026-01-01T00:00:00.000Z";
+  let auth: AuthContext;
+  let rawKey: string;
+  let client: PaymentServiceClient;
+
+  async function couponedUser(coupon: Partial<NewCoupon>): Promise<string> {
+    const userId = crypto.randomUUID();
+    await ensureUserExists(userId);
+    await updateUserBilledTimestamp(userId, periodStart);
+    const created = await createCoupon({
+      code: `CHECKOUT-${crypto.randomUUID()}`,
+      kind: "percent",
+      value: 20,
+      maxRedemptions: null,
+      expiresAt: null,
+      ...coupon,
+    });
+    await attachCoupon(userId, "test", created!.code);
+    return userId;
+  }
+
+  async function userCoupon(userId: string) {
+    const [row] = await getPostgresDB()
+      .select({
+        checkoutsRemaining: userCouponsTable.checkoutsRemaining,
+        redeemedAt: userCouponsTable.redeemedAt,
+        redemptions: couponsTable.redemptions,
+      })
+      .from(userCouponsTable)
+      .innerJoin(couponsTable, eq(couponsTable.id, userCouponsTable.couponId))
+      .where(eq(userCouponsTable.userId, userId));
+    return row;
+  }
+
+  async function sessionsOf(userId: string) {
+    return getPostgresDB()
+      .select({ processed: sessionsTable.processed })
+      .from(sessionsTable)
+      .where(eq(sessionsTable.userId, userId));
+  }
+
+  beforeAll(async () => {
+    const key = await createTestApiKey();
+    rawKey = key.rawKey;
+    auth = { apiKeyId: key.id, role: "test", mode: "test" };
+    client = new PaymentServiceClient(GRPC_ADDRESS, grpcInsecureCredentials);
+  });
+
+  afterAll(async () => {
+    await clearDatabase();
+    client.close();
+  });
+
+  it("settles a checkout its coupon makes free without the provider", async () => {
+    const userId = await couponedUser({ value: 100 });
+    const billedUpto = DateTime.utc().startOf("second");
+    vi.mocked(createProviderCheckout).mockClear();
+
+    const checkout = await createUsageCheckout(
+      userId,
+      { amount: 500, billedUpto, prepaid: false },
+      auth,
+      "test"
+    );
+
+    expect(createProviderCheckout).not.toHaveBeenCalled();
+    expect(checkout.discount).toBe(500);
+    const db = getPostgresDB();
+    const [session] = await db
+      .select({ processed: sessionsTable.processed })
+      .from(sessionsTable)
+      .where(eq(sessionsTable.proxy_link_id, checkout.sessionId!));
+    const [invoice] = await db
+      .select({ status: invoicesTable.status, total: invoicesTable.total })
+      .from(invoicesTable)
+      .where(eq(invoicesTable.id, checkout.invoiceId!));
+    const [user] = await db
+      .select({ lastBilled: usersTable.last_billed_timestamp })
+      .from(usersTable)
+      .where(eq(usersTable.id, userId));
+    expect(session?.processed).toBe("succeeded");
+    expect(invoice).toMatchObject({ status: "paid", total: 0 });
+    expect(
+      DateTime.fromSQL(user!.lastBilled!, { zone: "utc" }).toMillis()
+    ).toBe(billedUpto.toMillis());
+  });
+
+  it("opens no provider checkout when the coupon cannot be used", async () => {
+    const userId = await couponedUser({});
+    vi.mocked(createProviderCheckout).mockClear();
+    // Another checkout uses the coupon up once the discount is worked out
+    vi.mocked(findCheckoutDiscount).mockImplementationOnce(async (...args) => {
+      const { findCheckoutDiscount: original } = await vi.importActual<
+        typeof import("../services/couponService")
+      >("../services/couponService");
+      const discount = await original(...args);
+      await getPostgresDB()
+        .update(userCouponsTable)
+        .set({ checkoutsRemaining: 0 })
+        .where(eq(userCouponsTable.userId, userId));
+      return discount;
+    });
+
+    await expect(
+      createUsageCheckout(
+        userId,
+        { amount: 500, billedUpto: DateTime.utc(), prepaid: false },
+        auth,
+        "test"
+      )
+    ).rejects.toThrow();
+    expect(createProviderCheckout).not.toHaveBeenCalled();
+  });
+
+  it("gives the coupon back when the provider checkout fails", async () => {
+    const userId = await couponedUser({});
+    const before = await userCoupon(userId);
+    vi.mocked(createProviderCheckout).mockRejectedValueOnce(
+      new Error("provider unavailable")
+    );
+
+    await expect(
+      createUsageCheckout(
+        userId,
+        { amount: 500, billedUpto: DateTime.utc(), prepaid: false },
+        auth,
+        "test"
+      )
+    ).rejects.toThrow("provider unavailable");
+
+    expect(await userCoupon(userId)).toEqual(before);
+    expect(await sessionsOf(userId)).toEqual([]);
+  });
+
+  it("refuses a checkout link for a user with no unbilled usage", async () => {
+    const userId = crypto.randomUUID();
+    await ensureUserExists(userId);
+    await updateUserBilledTimestamp(userId, periodStart);
+    vi.mocked(createProviderCheckout).mockClear();
+
+    await expect(
+      createCheckoutLink(client, { userId }, grpcMetadata(`Bearer ${rawKey}`))
+    ).rejects.toMatchObject({ code: Status.FAILED_PRECONDITION });
+
+    expect(createProviderCheckout).not.toHaveBeenCalled();
+    expect(await sessionsOf(userId)).toEqual([]);
+    const [user] = await getPostgresDB()
+      .select({ lastBilled: usersTable.last_billed_timestamp })
+      .from(usersTable)
+      .where(eq(usersTable.id, userId));
+    expect(DateTime.fromSQL(user!.lastBilled!, { zone: "utc" }).toISO()).toBe(
+      periodStart
+    );
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { DateTime } from "luxon";
+import { couponDiscount, isCouponRedeemable } from "../services/couponService";
+import type { Coupon } from "../storage/db/postgres/helpers/coupons";
+
+const baseCoupon: Coupon = {
+  id: "4b3c2d1e-0f9a-4b8c-9d7e-6f5a4b3c2d1e",
+  code: "LAUNCH",
+  kind: "percent",
+  value: 25,
+  maxRedemptions: null,
+  redemptions: 0,
+  expiresAt: null,
+  createdAt: "2026-01-01 00:00:00+00",
+};
+
+const now = DateTime.fromISO("2026-03-01T00:00:00Z", { zone: "utc" });
+
+describe("couponDiscount", () => {
+  it("takes a percentage off, rounded to whole cents", () => {
+    expect(couponDiscount(baseCoupon, 1999)).toBe(500);
+  });
+
+  it("takes a fixed amount off, never more than the price", () => {
+    const coupon = { kind: "amount" as const, value: 1500 };
+    expect(couponDiscount(coupon, 4000)).toBe(1500);
+    expect(couponDiscount(coupon, 900)).toBe(900);
+  });
+
+  it("takes the whole price off during free periods", () => {
+    expect(couponDiscount({ kind: "free_periods", value: 2 }, 4321)).toBe(4321);
+  });
+});
+
+describe("isCouponRedeemable", () => {
+  it("accepts coupons without expiry or redemption limit", () => {
+    expect(isCouponRedeemable(baseCoupon, now)).toBe(true);
+  });
+
+  it("rejects coupons past their expiry", () => {
+    expect(
+      isCouponRedeemable(
+        { ...baseCoupon, expiresAt: "2026-02-28 23:59:59+00" },
+        now
+      )
+    ).toBe(false);
+    expect(
+      isCouponRedeemable(
+        { ...baseCoupon, expiresAt: "2026-03-01 00:00:01+00" },
+        now
+      )
+    ).toBe(true);
+  });
+
+  it("rejects coupons that ran out of redemptions", () => {
+    expect(
+      isCouponRedeemable(
+        { ...baseCoupon, maxRedemptions: 3, redemptions: 3 },
+        now
+      )
+    ).toBe(false);
+    expect(
+      isCouponRedeemable(
+        { ...baseCoupon, maxRedemptions: 3, redemptions: 2 },
+        now
+      )
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,284 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { DateTime } from "luxon";
+import { and, eq, isNull } from "drizzle-orm";
+import { getPostgresDB } from "../storage/db/postgres/db";
+import { userCouponsTable } from "../storage/db/postgres/schema";
+import {
+  attachCoupon,
+  createCoupon,
+  deleteCoupon,
+  findActiveUserCoupon,
+  findCoupon,
+  useUserCoupon,
+  type ActiveUserCoupon,
+  type Coupon,
+  type NewCoupon,
+} from "../storage/db/postgres/helpers/coupons";
+import { insertKey } from "./fixtures/apiKey";
+import { apiRequest } from "./fixtures/http";
+import { clearDatabase } from "./db";
+
+async function seedCoupon(overrides: Partial<NewCoupon> = {}): Promise<Coupon> {
+  const coupon = await createCoupon({
+    code: `SAVE-${crypto.randomUUID()}`,
+    kind: "percent",
+    value: 20,
+    maxRedemptions: null,
+    expiresAt: null,
+    ...overrides,
+  });
+  return coupon!;
+}
+
+async function attachedCoupon(
+  coupon: Coupon,
+  userId: string = crypto.randomUUID()
+): Promise<ActiveUserCoupon> {
+  await attachCoupon(userId, "test", coupon.code);
+  return (await findActiveUserCoupon(userId, "test"))!;
+}
+
+// Uses a coupon in a checkout transaction of its own, which rolls back if
+// the coupon can no longer be used
+async function useInCheckout(userCoupon: ActiveUserCoupon) {
+  return getPostgresDB()
+    .transaction(async (txn) => {
+      const used = await useUserCoupon(userCoupon, txn);
+      if (!used) {
+        txn.rollback();
+      }
+      return used;
+    })
+    .catch(() => null);
+}
+
+describe("coupons", () => {
+  let rawKey: string;
+
+  beforeAll(async () => {
+    rawKey = `scrn_test_${crypto.randomUUID().replace(/-/g, "").slice(0, 32)}`;
+    await insertKey(rawKey, "test");
+  });
+
+  afterAll(async () => {
+    await clearDatabase();
+  });
+
+  describe("routes", () => {
+    it("creates, fetches, lists and deletes a coupon", async () => {
+      const code = `WELCOME-${crypto.randomUUID()}`;
+
+      const created = await apiRequest("POST", "/api/v1/coupons", rawKey, {
+        code,
+        kind: "amount",
+        value: 500,
+        maxRedemptions: 10,
+      });
+      expect(created.status).toBe(200);
+      expect(created.body.coupon).toMatchObject({
+        code,
+        kind: "amount",
+        value: 500,
+        maxRedemptions: 10,
+        redemptions: 0,
+        expiresAt: null,
+      });
+      const id = created.body.coupon.id;
+
+      const fetched = await apiRequest("GET", `/api/v1/coupons/${id}`, rawKey);
+      expect(fetched.status).toBe(200);
+      expect(fetched.body.coupon.code).toBe(code);
+      expect(
+        (await apiRequest("GET", "/api/v1/coupons", rawKey)).body.coupons
+      ).toContainEqual(expect.objectContaining({ id }));
+
+      const deleted = await apiRequest(
+        "DELETE",
+        `/api/v1/coupons/${id}`,
+        rawKey
+      );
+      expect(deleted.status).toBe(200);
+      expect(
+        (await apiRequest("GET", `/api/v1/coupons/${id}`, rawKey)).status
+      ).toBe(404);
+    });
+
+    it("keeps coupon codes unique", async () => {
+      const coupon = await seedCoupon();
+
+      const duplicate = await apiRequest("POST", "/api/v1/coupons", rawKey, {
+        code: coupon.code,
+        kind: "amount",
+        value: 100,
+      });
+
+      expect(duplicate.status).toBe(409);
+    });
+
+    it("rejects invalid coupons", async () => {
+      const overHundred = await apiRequest("POST", "/api/v1/coupons", rawKey, {
+        code: "TOO-MUCH",
+        kind: "percent",
+        value: 150,
+      });
+      const badCode = await apiRequest("POST", "/api/v1/coupons", rawKey, {
+        code: "no spaces",
+        kind: "amount",
+        value: 100,
+      });
+      const badExpiry = await apiRequest("POST", "/api/v1/coupons", rawKey, {
+        code: "LATER",
+        kind: "amount",
+        value: 100,
+        expiresAt: "tomorrow",
+      });
+
+      expect(overHundred.status).toBe(400);
+      expect(badCode.status).toBe(400);
+      expect(badExpiry.status).toBe(400);
+    });
+
+    it("attaches a coupon to a user and detaches it", async () => {
+      const coupon = await seedCoupon({ kind: "free_periods", value: 3 });
+      const userId = crypto.randomUUID();
+      const path = `/api/v1/users/${userId}/coupon`;
+
+      const attached = await apiRequest("PUT", path, rawKey, {
+        code: coupon.code,
+        mode: "test",
+      });
+      expect(attached.status).toBe(200);
+      expect(attached.body.userCoupon).toMatchObject({
+        userId,
+        couponId: coupon.id,
+        mode: "test",
+        checkoutsRemaining: 3,
+        redeemedAt: null,
+      });
+
+      const current = await apiRequest("GET", `${path}?mode=test`, rawKey);
+      expect(current.body.userCoupon).toMatchObject({
+        couponId: coupon.id,
+        coupon: expect.objectContaining({ code: coupon.code }),
+      });
+      expect(
+        (await apiRequest("GET", path, rawKey)).body.userCoupon
+      ).toBeNull();
+
+      const detached = await apiRequest("DELETE", `${path}?mode=test`, rawKey);
+      expect(detached.status).toBe(200);
+      expect(await findActiveUserCoupon(userId, "test")).toBeNull();
+      expect(
+        (await apiRequest("DELETE", `${path}?mode=test`, rawKey)).status
+      ).toBe(404);
+    });
+
+    it("refuses coupons that are unknown, expired or used up", async () => {
+      const expired = await seedCoupon({
+        expiresAt: DateTime.utc().minus({ days: 1 }).toISO(),
+      });
+      const usedUp = await seedCoupon({ maxRedemptions: 1 });
+      await useInCheckout(await attachedCoupon(usedUp));
+      const path = `/api/v1/users/${crypto.randomUUID()}/coupon`;
+
+      const unknown = await apiRequest("PUT", path, rawKey, {
+        code: "NO-SUCH-COUPON",
+      });
+      const late = await apiRequest("PUT", path, rawKey, {
+        code: expired.code,
+      });
+      const exhausted = await apiRequest("PUT", path, rawKey, {
+        code: usedUp.code,
+      });
+
+      expect(unknown.status).toBe(404);
+      expect(late.status).toBe(409);
+      expect(exhausted.status).toBe(409);
+    });
+
+    it("requires an API key", async () => {
+      expect((await apiRequest("GET", "/api/v1/coupons", null)).status).toBe(
+        401
+      );
+    });
+  });
+
+  describe("redemption", () => {
+    it("redeems a coupon on its first checkout only", async () => {
+      const coupon = await seedCoupon({ kind: "free_periods", value: 2 });
+      const userId = crypto.randomUUID();
+
+      const first = await useInCheckout(await attachedCoupon(coupon, userId));
+      const second = await useInCheckout(
+        (await findActiveUserCoupon(userId, "test"))!
+      );
+
+      expect(first).toEqual({ redeemed: true });
+      expect(second).toEqual({ redeemed: false });
+      expect(await findActiveUserCoupon(userId, "test")).toBeNull();
+      expect((await findCoupon(coupon.id))?.redemptions).toBe(1);
+    });
+
+    it("redeems the last redemption for one user of many racing", async () => {
+      const coupon = await seedCoupon({ maxRedemptions: 1 });
+      const userCoupons = await Promise.all(
+        Array.from({ length: 5 }, () => attachedCoupon(coupon))
+      );
+
+      const used = await Promise.all(userCoupons.map(useInCheckout));
+
+      expect(used.filter(Boolean)).toEqual([{ redeemed: true }]);
+      expect((await findCoupon(coupon.id))?.redemptions).toBe(1);
+    });
+
+    it("counts one redemption when a user's checkouts race", async () => {
+      const coupon = await seedCoupon({ kind: "free_periods", value: 3 });
+      const userCoupon = await attachedCoupon(coupon);
+
+      const used = await Promise.all([
+        useInCheckout(userCoupon),
+        useInCheckout(userCoupon),
+      ]);
+
+      expect(used.filter((use) => use?.redeemed)).toHaveLength(1);
+      expect((await findCoupon(coupon.id))?.redemptions).toBe(1);
+    });
+
+    it("keeps one coupon on a user when attached concurrently", async () => {
+      const [first, second] = await Promise.all([seedCoupon(), seedCoupon()]);
+      const userId = crypto.randomUUID();
+
+      const results = await Promise.all([
+        attachCoupon(userId, "test", first.code),
+        attachCoupon(userId, "test", second.code),
+        attachCoupon(userId, "test", first.code),
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual([
+        "attached",
+        "attached",
+        "attached",
+      ]);
+      const active = await getPostgresDB()
+        .select({ id: userCouponsTable.id })
+        .from(userCouponsTable)
+        .where(
+          and(
+            eq(userCouponsTable.userId, userId),
+            isNull(userCouponsTable.endedAt)
+          )
+        );
+      expect(active).toHaveLength(1);
+    });
+
+    it("stops a deleted coupon from being used", async () => {
+      const coupon = await seedCoupon();
+      const userCoupon = await attachedCoupon(coupon);
+
+      await deleteCoupon(coupon.id);
+
+      expect(await useInCheckout(userCoupon)).toBeNull();
+      expect(await findActiveUserCoupon(userCoupon.userId, "test")).toBeNull();
+    });
+  });
+});
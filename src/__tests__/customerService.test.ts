@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { providerCustomer } from "../services/customerService";
+import type { Customer } from "../storage/db/postgres/helpers/customers";
+
+const baseCustomer: Customer = {
+  id: "5f0e4c1a-3b7d-4e8f-9a21-6c4d2b1e0f37",
+  email: "ada@example.com",
+  name: "Ada Lovelace",
+  externalReference: "acct_1842",
+  metadata: { plan: "team" },
+  mode: "production",
+  paymentProviderCustomerId: null,
+  createdAt: "2026-01-01 00:00:00+00",
+  updatedAt: "2026-01-01 00:00:00+00",
+};
+
+describe("providerCustomer", () => {
+  it("maps a profile to the provider's customer", () => {
+    expect(providerCustomer(baseCustomer)).toEqual({
+      userId: baseCustomer.id,
+      providerCustomerId: null,
+      email: "ada@example.com",
+      name: "Ada Lovelace",
+      metadata: { plan: "team" },
+    });
+  });
+
+  it("keeps the provider's id once the customer is synced", () => {
+    expect(
+      providerCustomer({ ...baseCustomer, paymentProviderCustomerId: "cus_1" })
+        ?.providerCustomerId
+    ).toBe("cus_1");
+  });
+
+  it("skips customers without an email", () => {
+    expect(providerCustomer({ ...baseCustomer, email: null })).toBeNull();
+  });
+});
@@ -0,0 +1,316 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { getPostgresDB } from "../storage/db/postgres/db";
+import { usersTable } from "../storage/db/postgres/schema";
+import {
+  createCustomer,
+  findCustomer,
+  updateCustomer,
+  type CreateCustomerResult,
+  type NewCustomer,
+  type UpdateCustomerResult,
+} from "../storage/db/postgres/helpers/customers";
+import { ensureUserExists } from "../storage/db/postgres/helpers/users";
+import { insertKey } from "./fixtures/apiKey";
+import { apiRequest } from "./fixtures/http";
+import { clearDatabase } from "./db";
+
+function newCustomer(overrides: Partial<NewCustomer> = {}): NewCustomer {
+  return {
+    id: crypto.randomUUID(),
+    email: null,
+    name: null,
+    externalReference: null,
+    metadata: null,
+    mode: "test",
+    ...overrides,
+  };
+}
+
+describe("customers", () => {
+  let rawKey: string;
+
+  beforeAll(async () => {
+    rawKey = `scrn_test_${crypto.randomUUID().replace(/-/g, "").slice(0, 32)}`;
+    await insertKey(rawKey, "test");
+  });
+
+  afterAll(async () => {
+    await clearDatabase();
+  });
+
+  describe("routes", () => {
+    it("creates, fetches, updates and deletes a customer", async () => {
+      const id = crypto.randomUUID();
+
+      const created = await apiRequest("POST", "/api/v1/customers", rawKey, {
+        id,
+        name: "Ada Lovelace",
+        externalReference: `acct_${id}`,
+        metadata: { plan: "enterprise" },
+        mode: "test",
+      });
+      expect(created.status).toBe(200);
+      expect(created.body.customer).toMatchObject({
+        id,
+        email: null,
+        name: "Ada Lovelace",
+        externalReference: `acct_${id}`,
+        metadata: { plan: "enterprise" },
+        mode: "test",
+        paymentProviderCustomerId: null,
+      });
+
+      const fetched = await apiRequest(
+        "GET",
+        `/api/v1/customers/${id}`,
+        rawKey
+      );
+      expect(fetched.status).toBe(200);
+      expect(fetched.body.customer.name).toBe("Ada Lovelace");
+
+      const updated = await apiRequest(
+        "PUT",
+        `/api/v1/customers/${id}`,
+        rawKey,
+        { name: "Ada King", metadata: null }
+      );
+      expect(updated.status).toBe(200);
+      expect(updated.body.customer).toMatchObject({
+        name: "Ada King",
+        externalReference: `acct_${id}`,
+        metadata: null,
+      });
+
+      const deleted = await apiRequest(
+        "DELETE",
+        `/api/v1/customers/${id}`,
+        rawKey
+      );
+      expect(deleted.status).toBe(200);
+      expect(
+        (await apiRequest("GET", `/api/v1/customers/${id}`, rawKey)).status
+      ).toBe(404);
+      expect(
+        (await apiRequest("DELETE", `/api/v1/customers/${id}`, rawKey)).status
+      ).toBe(404);
+    });
+
+    it("registers a deleted customer again under the same id", async () => {
+      const customer = newCustomer({ name: "Before" });
+      await createCustomer(customer);
+      await apiRequest("DELETE", `/api/v1/customers/${customer.id}`, rawKey);
+
+      const again = await apiRequest("POST", "/api/v1/customers", rawKey, {
+        id: customer.id,
+        name: "After",
+      });
+
+      expect(again.status).toBe(200);
+      expect(again.body.customer).toMatchObject({
+        id: customer.id,
+        name: "After",
+        mode: "production",
+      });
+    });
+
+    it("treats users known from their events as customers", async () => {
+      const id = crypto.randomUUID();
+      await ensureUserExists(id);
+
+      const fetched = await apiRequest(
+        "GET",
+        `/api/v1/customers/${id}`,
+        rawKey
+      );
+      const created = await apiRequest("POST", "/api/v1/customers", rawKey, {
+        id,
+      });
+      const updated = await apiRequest(
+        "PUT",
+        `/api/v1/customers/${id}`,
+        rawKey,
+        { name: "From events" }
+      );
+
+      expect(fetched.status).toBe(200);
+      expect(fetched.body.customer).toMatchObject({ id, name: null });
+      expect(created.status).toBe(409);
+      expect(updated.status).toBe(200);
+    });
+
+    it("keeps external references unique among customers", async () => {
+      const reference = `acct_${crypto.randomUUID()}`;
+      const holder = newCustomer({ externalReference: reference });
+      const other = newCustomer();
+      await createCustomer(holder);
+      await createCustomer(other);
+
+      const create = await apiRequest("POST", "/api/v1/customers", rawKey, {
+        id: crypto.randomUUID(),
+        externalReference: reference,
+      });
+      const update = await apiRequest(
+        "PUT",
+        `/api/v1/customers/${other.id}`,
+        rawKey,
+        { externalReference: reference }
+      );
+      expect(create.status).toBe(409);
+      expect(update.status).toBe(409);
+
+      await apiRequest("DELETE", `/api/v1/customers/${holder.id}`, rawKey);
+      const reused = await apiRequest(
+        "PUT",
+        `/api/v1/customers/${other.id}`,
+        rawKey,
+        { externalReference: reference }
+      );
+      expect(reused.status).toBe(200);
+    });
+
+    it("lists customers without deleted ones", async () => {
+      const kept = newCustomer();
+      const removed = newCustomer();
+      await createCustomer(kept);
+      await createCustomer(removed);
+      await apiRequest("DELETE", `/api/v1/customers/${removed.id}`, rawKey);
+
+      const res = await apiRequest(
+        "GET",
+        "/api/v1/customers?limit=100",
+        rawKey
+      );
+
+      expect(res.status).toBe(200);
+      const ids = res.body.customers.map((c: { id: string }) => c.id);
+      expect(ids).toContain(kept.id);
+      expect(ids).not.toContain(removed.id);
+    });
+
+    it("searches customers ignoring case", async () => {
+      const tag = crypto.randomUUID().slice(0, 8);
+      const byName = newCustomer({ name: `Grace ${tag} Hopper` });
+      const byReference = newCustomer({
+        externalReference: `ACCT-${tag.toUpperCase()}`,
+      });
+      await createCustomer(byName);
+      await createCustomer(byReference);
+
+      const res = await apiRequest(
+        "GET",
+        `/api/v1/customers/search?q=${tag.toUpperCase()}`,
+        rawKey
+      );
+
+      expect(res.status).toBe(200);
+      expect(
+        res.body.customers.map((c: { id: string }) => c.id).sort()
+      ).toEqual([byName.id, byReference.id].sort());
+    });
+
+    it("matches wildcards in a search literally", async () => {
+      await createCustomer(newCustomer({ name: "Percent % Customer" }));
+
+      const res = await apiRequest(
+        "GET",
+        `/api/v1/customers/search?q=${encodeURIComponent("%_%")}`,
+        rawKey
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.body.customers).toEqual([]);
+    });
+
+    it("rejects invalid profiles and empty updates", async () => {
+      const badEmail = await apiRequest("POST", "/api/v1/customers", rawKey, {
+        id: crypto.randomUUID(),
+        email: "not-an-email",
+      });
+      const bigMetadata = await apiRequest(
+        "POST",
+        "/api/v1/customers",
+        rawKey,
+        {
+          id: crypto.randomUUID(),
+          metadata: Object.fromEntries(
+            Array.from({ length: 51 }, (_, i) => [`key${i}`, "value"])
+          ),
+        }
+      );
+      const empty = await apiRequest(
+        "PUT",
+        `/api/v1/customers/${crypto.randomUUID()}`,
+        rawKey,
+        {}
+      );
+      const noQuery = await apiRequest(
+        "GET",
+        "/api/v1/customers/search?q=%20",
+        rawKey
+      );
+
+      expect(badEmail.status).toBe(400);
+      expect(bigMetadata.status).toBe(400);
+      expect(empty.status).toBe(400);
+      expect(noQuery.status).toBe(400);
+    });
+
+    it("answers 404 for an unknown customer", async () => {
+      const id = crypto.randomUUID();
+      expect(
+        (await apiRequest("GET", `/api/v1/customers/${id}`, rawKey)).status
+      ).toBe(404);
+      expect(
+        (
+          await apiRequest("PUT", `/api/v1/customers/${id}`, rawKey, {
+            name: "Nobody",
+          })
+        ).status
+      ).toBe(404);
+      expect(await findCustomer(id)).toBeNull();
+    });
+
+    it("requires an API key", async () => {
+      expect((await apiRequest("GET", "/api/v1/customers", null)).status).toBe(
+        401
+      );
+    });
+  });
+
+  describe("concurrent writes", () => {
+    it("refuses a reference claimed while the customer was created", async () => {
+      const reference = `acct_${crypto.randomUUID()}`;
+      let racing!: Promise<CreateCustomerResult>;
+
+      // The competing customer is created while the claim is uncommitted
+      await getPostgresDB().transaction(async (txn) => {
+        await txn.insert(usersTable).values({
+          id: crypto.randomUUID(),
+          externalReference: reference,
+        });
+        racing = createCustomer(newCustomer({ externalReference: reference }));
+        await new Promise((resolve) => setTimeout(resolve, 200));
+      });
+
+      expect(await racing).toEqual({ status: "reference_taken" });
+    });
+
+    it("refuses a reference claimed while the customer was updated", async () => {
+      const reference = `acct_${crypto.randomUUID()}`;
+      const customer = newCustomer();
+      await createCustomer(customer);
+      let racing!: Promise<UpdateCustomerResult>;
+
+      await getPostgresDB().transaction(async (txn) => {
+        await txn.insert(usersTable).values({
+          id: crypto.randomUUID(),
+          externalReference: reference,
+        });
+        racing = updateCustomer(customer.id, { externalReference: reference });
+        await new Promise((resolve) => setTimeout(resolve, 200));
+      });
+
+      expect(await racing).toEqual({ status: "reference_taken" });
+    });
+  });
+});
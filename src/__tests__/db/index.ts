@@ -20,6 +20,11 @@ export const testDB: Promise<TestDBAdapter> = resolveAdapter();
 export async function clearDatabase() {
   Cache.getStore("api-keys").clear();
   Cache.getStore("webhook-endpoints").clear();
+  Cache.getStore("rate-cards").clear();
+  Cache.getStore("price-books").clear();
+  Cache.getStore("user-price-books").clear();
+  Cache.getStore("user-wallets").clear();
+  Cache.getStore("allowances").clear();
   const db = getPostgresDB();
   await db.execute(sql`
     TRUNCATE TABLE
@@ -31,7 +36,28 @@ export async function clearDatabase() {
       users,
       tags,
       metadata,
-      expressions
+      expressions,
+      rate_cards,
+      price_books,
+      price_book_tags,
+      price_book_expressions,
+      credit_ledger,
+      spending_limits,
+      allowances,
+      allowance_usage,
+      allowance_consumptions,
+      invoices,
+      invoice_line_items,
+      invoice_fee_items,
+      usage_thresholds,
+      usage_threshold_crossings,
+      usage_period_totals,
+      late_events,
+      event_settlements,
+      plans,
+      plan_assignments,
+      coupons,
+      user_coupons
     RESTART IDENTITY CASCADE
   `);
 
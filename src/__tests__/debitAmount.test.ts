@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { roundToMinorUnits, toDebitAmount } from "../utils/debitAmount";
+
+describe("toDebitAmount", () => {
+  it("keeps sub-cent amounts without float noise", () => {
+    expect(toDebitAmount(1000 * 0.00025)).toBe(0.25);
+    expect(toDebitAmount(0.1 + 0.2)).toBe(0.3);
+  });
+});
+
+describe("roundToMinorUnits", () => {
+  it("floors and ceils fractional cents", () => {
+    expect(roundToMinorUnits(12.0001, "floor")).toBe(12);
+    expect(roundToMinorUnits(12.0001, "ceil")).toBe(13);
+    expect(roundToMinorUnits(12, "ceil")).toBe(12);
+  });
+
+  it("rounds halves up or to even", () => {
+    expect(roundToMinorUnits(12.5, "half_up")).toBe(13);
+    expect(roundToMinorUnits(12.49, "half_up")).toBe(12);
+    expect(roundToMinorUnits(12.5, "half_even")).toBe(12);
+    expect(roundToMinorUnits(13.5, "half_even")).toBe(14);
+    expect(roundToMinorUnits(12.51, "half_even")).toBe(13);
+  });
+
+  it("rounds sums of many per-token debits", () => {
+    const total = Array.from({ length: 3 }, () => 0.1).reduce(
+      (sum, amount) => sum + amount,
+      0
+    );
+    expect(roundToMinorUnits(total * 10, "ceil")).toBe(3);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildDependencyIndex,
+  findDependencies,
+  findDependents,
+  type ExpressionSource,
+} from "../utils/dependencyGraph";
+
+function stored(key: string, expr: string, version = 1): ExpressionSource {
+  return { key, expr, version, priceBook: null };
+}
+
+function override(
+  priceBook: string,
+  key: string,
+  expr: string
+): ExpressionSource {
+  return { key, expr, version: null, priceBook };
+}
+
+describe("findDependents", () => {
+  const index = buildDependencyIndex(
+    [
+      stored("BASE", "mul(tag(CALL_RATE),2)"),
+      stored("TOTAL", "add(expr(BASE),tag(FEE))"),
+      stored("TOTAL", "add(expr(BASE),5)", 2),
+      stored("FLAT", "100"),
+      override("ENTERPRISE", "BASE", "tag(DISCOUNT_RATE)"),
+    ],
+    [{ priceBook: "STARTUP", key: "CALL_RATE" }]
+  );
+
+  it("follows expr() references transitively", () => {
+    expect(findDependents(index, { kind: "tag", key: "CALL_RATE" })).toEqual([
+      { key: "BASE", version: 1, priceBook: null },
+      { key: "TOTAL", version: 1, priceBook: null },
+      { key: "TOTAL", version: 2, priceBook: null },
+    ]);
+  });
+
+  it("includes price book overrides and what reaches them in that book", () => {
+    expect(
+      findDependents(index, { kind: "tag", key: "DISCOUNT_RATE" })
+    ).toEqual([
+      { key: "TOTAL", version: 1, priceBook: null },
+      { key: "TOTAL", version: 2, priceBook: null },
+      { key: "BASE", version: null, priceBook: "ENTERPRISE" },
+    ]);
+  });
+
+  it("skips price books that override the target", () => {
+    const startupOnly = buildDependencyIndex(
+      [override("STARTUP", "BASE", "tag(CALL_RATE)")],
+      [{ priceBook: "STARTUP", key: "CALL_RATE" }]
+    );
+    expect(
+      findDependents(startupOnly, { kind: "tag", key: "CALL_RATE" })
+    ).toEqual([]);
+  });
+
+  it("finds dependents of an expression but not the expression itself", () => {
+    expect(findDependents(index, { kind: "expr", key: "BASE" })).toEqual([
+      { key: "TOTAL", version: 1, priceBook: null },
+      { key: "TOTAL", version: 2, priceBook: null },
+    ]);
+  });
+
+  it("sets aside stored expressions that no longer compile", () => {
+    const withBroken = buildDependencyIndex([
+      stored("BASE", "mul(tag(CALL_RATE),2)"),
+      stored("BROKEN", "add(tag(CALL_RATE)"),
+      override("ENTERPRISE", "LEGACY", "pow(tag(CALL_RATE),2)"),
+    ]);
+
+    expect(
+      findDependents(withBroken, { kind: "tag", key: "CALL_RATE" })
+    ).toEqual([{ key: "BASE", version: 1, priceBook: null }]);
+    expect(withBroken.invalid).toEqual([
+      {
+        key: "BROKEN",
+        version: 1,
+        priceBook: null,
+        error: expect.stringContaining("unmatched opening parenthesis"),
+      },
+      {
+        key: "LEGACY",
+        version: null,
+        priceBook: "ENTERPRISE",
+        error: expect.stringContaining("Unknown function"),
+      },
+    ]);
+  });
+
+  it("returns nothing for unused keys", () => {
+    expect(findDependents(index, { kind: "expr", key: "FLAT" })).toEqual([]);
+    expect(findDependents(index, { kind: "tag", key: "UNUSED" })).toEqual([]);
+  });
+});
+
+describe("findDependencies", () => {
+  const index = buildDependencyIndex([
+    stored("BASE", "mul(tag(CALL_RATE),2)"),
+    stored("TOTAL", "add(expr(BASE),tag(FEE))"),
+    override("ENTERPRISE", "BASE", "tag(DISCOUNT_RATE)"),
+  ]);
+
+  it("separates direct and transitive references", () => {
+    expect(findDependencies(index, "TOTAL")).toEqual({
+      direct: { tags: ["FEE"], expressions: ["BASE"] },
+      all: { tags: ["CALL_RATE", "FEE"], expressions: ["BASE"] },
+    });
+  });
+
+  it("resolves references through a price book's overrides", () => {
+    expect(findDependencies(index, "TOTAL", "ENTERPRISE")?.all).toEqual({
+      tags: ["DISCOUNT_RATE", "FEE"],
+      expressions: ["BASE"],
+    });
+  });
+
+  it("returns null for an unknown expression", () => {
+    expect(findDependencies(index, "MISSING")).toBeNull();
+  });
+});
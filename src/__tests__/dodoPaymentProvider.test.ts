@@ -0,0 +1,277 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import DodoPayments from "dodopayments";
+import { DodoPaymentProvider } from "../payment/adapter/dodo/DodoPaymentProvider";
+import { PaymentError } from "../errors/payment";
+import { createWebhookSecret, dodoEvent, signedWebhook } from "./fixtures/dodo";
+
+const webhookSecret = createWebhookSecret();
+const config = { productId: "prod_test", returnUrl: null, currency: "usd" };
+const params = {
+  customPrice: 1250,
+  userId: "5f0e4c1a-3b7d-4e8f-9a21-6c4d2b1e0f37",
+  apiKeyId: "9c8b7a6d-5e4f-4321-8a9b-0c1d2e3f4a5b",
+};
+
+// A provider verifying webhooks with the test secret
+function verifyingProvider(): DodoPaymentProvider {
+  const provider = new DodoPaymentProvider();
+  vi.spyOn(provider, "getClient").mockResolvedValue(
+    new DodoPayments({
+      bearerToken: "test_dodo_key",
+      environment: "test_mode",
+      webhookKey: webhookSecret,
+    })
+  );
+  return provider;
+}
+
+// A provider whose client is replaced by `client`
+function providerWith(client: Record<string, unknown>): DodoPaymentProvider {
+  const provider = new DodoPaymentProvider();
+  vi.spyOn(provider, "getClient").mockResolvedValue(
+    client as unknown as DodoPayments
+  );
+  vi.spyOn(provider, "getCheckoutConfig").mockResolvedValue(config);
+  return provider;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("DodoPaymentProvider", () => {
+  describe("createCheckout", () => {
+    it("charges the custom price and tags the checkout with its user", async () => {
+      const create = vi.fn().mockResolvedValue({
+        session_id: "cks_1",
+        checkout_url: "https://checkout.dodopayments.com/cks_1",
+      });
+      const provider = providerWith({ checkoutSessions: { create } });
+
+      const checkout = await provider.createCheckout(
+        { ...config, returnUrl: "https://example.com/done" },
+        {
+          ...params,
+          customer: {
+            providerCustomerId: null,
+            email: "ada@example.com",
+            name: "Ada",
+          },
+        },
+        "test"
+      );
+
+      expect(checkout).toEqual({
+        sessionId: "cks_1",
+        checkoutUrl: "https://checkout.dodopayments.com/cks_1",
+      });
+      expect(create).toHaveBeenCalledWith({
+        product_cart: [{ product_id: "prod_test", quantity: 1, amount: 1250 }],
+        metadata: { user_id: params.userId, api_key_id: params.apiKeyId },
+        customer: { email: "ada@example.com", name: "Ada" },
+        return_url: "https://example.com/done",
+        billing_currency: "USD",
+      });
+    });
+
+    it("attaches the checkout to a synced customer", async () => {
+      const create = vi.fn().mockResolvedValue({
+        session_id: "cks_2",
+        checkout_url: "https://checkout.dodopayments.com/cks_2",
+      });
+      const provider = providerWith({ checkoutSessions: { create } });
+
+      await provider.createCheckout(
+        config,
+        {
+          ...params,
+          customer: {
+            providerCustomerId: "cus_1",
+            email: "ada@example.com",
+            name: null,
+          },
+        },
+        "test"
+      );
+
+      expect(create.mock.calls[0]![0]).toMatchObject({
+        customer: { customer_id: "cus_1" },
+      });
+      expect(create.mock.calls[0]![0]).not.toHaveProperty("return_url");
+    });
+
+    it("rejects a session without a checkout URL", async () => {
+      const provider = providerWith({
+        checkoutSessions: {
+          create: vi.fn().mockResolvedValue({ session_id: "cks_3" }),
+        },
+      });
+
+      await expect(
+        provider.createCheckout(config, params, "test")
+      ).rejects.toMatchObject({ type: "INVALID_CHECKOUT_RESPONSE" });
+    });
+  });
+
+  describe("unwrapWebhook", () => {
+    it("translates a verified payment webhook", async () => {
+      const provider = verifyingProvider();
+      const payload = dodoEvent("payment.succeeded", {
+        payment_id: "pay_1",
+        checkout_session_id: "cks_1",
+        total_amount: 1250,
+      });
+
+      expect(
+        await provider.unwrapWebhook(
+          signedWebhook(payload, webhookSecret),
+          "test"
+        )
+      ).toEqual({
+        type: "payment.succeeded",
+        paymentId: "pay_1",
+        checkoutSessionId: "cks_1",
+        amount: 1250,
+        raw: payload,
+      });
+    });
+
+    it("translates refund and dispute webhooks", async () => {
+      const provider = verifyingProvider();
+
+      const refund = await provider.unwrapWebhook(
+        signedWebhook(
+          dodoEvent("refund.succeeded", {
+            payment_id: "pay_1",
+            refund_id: "ref_1",
+            amount: 500,
+            is_partial: true,
+          }),
+          webhookSecret
+        ),
+        "test"
+      );
+      const dispute = await provider.unwrapWebhook(
+        signedWebhook(
+          dodoEvent("dispute.lost", {
+            payment_id: "pay_1",
+            dispute_id: "dsp_1",
+            amount: "750",
+          }),
+          webhookSecret
+        ),
+        "test"
+      );
+      const unpriced = await provider.unwrapWebhook(
+        signedWebhook(
+          dodoEvent("dispute.opened", {
+            payment_id: "pay_1",
+            dispute_id: "dsp_2",
+            amount: "unknown",
+          }),
+          webhookSecret
+        ),
+        "test"
+      );
+
+      expect(refund).toMatchObject({
+        type: "refund.succeeded",
+        paymentId: "pay_1",
+        refundId: "ref_1",
+        amount: 500,
+        partial: true,
+      });
+      expect(dispute).toMatchObject({
+        type: "dispute.lost",
+        paymentId: "pay_1",
+        disputeId: "dsp_1",
+        amount: 750,
+      });
+      expect(unpriced).toMatchObject({ type: "dispute.opened", amount: null });
+    });
+
+    it("ignores event types it does not process", async () => {
+      const provider = verifyingProvider();
+
+      expect(
+        await provider.unwrapWebhook(
+          signedWebhook(
+            dodoEvent("subscription.active", { id: "sub_1" }),
+            webhookSecret
+          ),
+          "test"
+        )
+      ).toEqual({ type: "ignored", providerType: "subscription.active" });
+    });
+
+    it("refuses webhooks with an invalid or missing signature", async () => {
+      const provider = verifyingProvider();
+      const payload = dodoEvent("payment.succeeded", {
+        payment_id: "pay_1",
+        checkout_session_id: "cks_1",
+        total_amount: 1250,
+      });
+      const otherSecret = createWebhookSecret();
+      const tampered = signedWebhook(payload, webhookSecret);
+      tampered.rawBody = tampered.rawBody.replace("1250", "1");
+
+      expect(
+        await provider.unwrapWebhook(
+          signedWebhook(payload, otherSecret),
+          "test"
+        )
+      ).toBeNull();
+      expect(await provider.unwrapWebhook(tampered, "test")).toBeNull();
+      expect(
+        await provider.unwrapWebhook(
+          { rawBody: JSON.stringify(payload), headers: {} },
+          "test"
+        )
+      ).toBeNull();
+    });
+
+    it("rejects a verified payload without data", async () => {
+      const provider = verifyingProvider();
+
+      await expect(
+        provider.unwrapWebhook(
+          signedWebhook({ type: "payment.succeeded" }, webhookSecret),
+          "test"
+        )
+      ).rejects.toBeInstanceOf(PaymentError);
+    });
+  });
+
+  describe("refund", () => {
+    it("refunds a payment in full", async () => {
+      const create = vi.fn().mockResolvedValue({ refund_id: "ref_1" });
+      const provider = providerWith({ refunds: { create } });
+
+      expect(await provider.refund("pay_1", null, "test")).toBe("ref_1");
+      expect(create).toHaveBeenCalledWith({ payment_id: "pay_1" });
+    });
+
+    it("refunds part of a payment against its product", async () => {
+      const create = vi.fn().mockResolvedValue({ refund_id: "ref_2" });
+      const provider = providerWith({ refunds: { create } });
+
+      expect(await provider.refund("pay_1", 400, "test")).toBe("ref_2");
+      expect(create).toHaveBeenCalledWith({
+        payment_id: "pay_1",
+        items: [{ item_id: "prod_test", amount: 400 }],
+      });
+    });
+
+    it("reports a refund Dodo refuses", async () => {
+      const provider = providerWith({
+        refunds: {
+          create: vi.fn().mockRejectedValue(new Error("already refunded")),
+        },
+      });
+
+      await expect(
+        provider.refund("pay_1", null, "test")
+      ).rejects.toMatchObject({ type: "PROVIDER_REQUEST_FAILED" });
+    });
+  });
+});
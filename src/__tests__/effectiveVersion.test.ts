@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import { DateTime } from "luxon";
+import {
+  findEffectiveVersion,
+  planRename,
+  planRetirement,
+  planScheduledVersion,
+  toEffectiveRange,
+  type VersionRow,
+} from "../utils/effectiveVersion";
+
+const t = (iso: string) => DateTime.fromISO(iso, { zone: "utc" });
+
+function row(
+  id: string,
+  version: number,
+  from: string,
+  to: string | null
+): VersionRow {
+  return {
+    id,
+    version,
+    effectiveFrom: t(from),
+    effectiveTo: to ? t(to) : null,
+  };
+}
+
+describe("findEffectiveVersion", () => {
+  const versions = [
+    row("a", 1, "2026-01-01T00:00:00Z", "2026-02-01T00:00:00Z"),
+    row("b", 2, "2026-02-01T00:00:00Z", null),
+  ];
+
+  it("picks the version whose range contains the instant", () => {
+    expect(findEffectiveVersion(versions, t("2026-01-15T00:00:00Z"))?.id).toBe(
+      "a"
+    );
+    expect(findEffectiveVersion(versions, t("2026-03-01T00:00:00Z"))?.id).toBe(
+      "b"
+    );
+  });
+
+  it("treats effectiveFrom as inclusive and effectiveTo as exclusive", () => {
+    expect(findEffectiveVersion(versions, t("2026-02-01T00:00:00Z"))?.id).toBe(
+      "b"
+    );
+  });
+
+  it("returns undefined before the first version", () => {
+    expect(
+      findEffectiveVersion(versions, t("2025-12-31T00:00:00Z"))
+    ).toBeUndefined();
+  });
+});
+
+describe("planScheduledVersion", () => {
+  it("closes the open version when scheduling after it", () => {
+    const plan = planScheduledVersion(
+      [row("a", 1, "2026-01-01T00:00:00Z", null)],
+      1,
+      t("2026-03-01T00:00:00Z")
+    );
+
+    expect(plan.version).toBe(2);
+    expect(plan.close?.id).toBe("a");
+    expect(plan.close?.effectiveTo.toISO()).toBe("2026-03-01T00:00:00.000Z");
+    expect(plan.effectiveTo).toBeNull();
+    expect(plan.supersede).toEqual([]);
+  });
+
+  it("runs until an already-scheduled version", () => {
+    const plan = planScheduledVersion(
+      [
+        row("a", 1, "2026-01-01T00:00:00Z", "2026-06-01T00:00:00Z"),
+        row("b", 2, "2026-06-01T00:00:00Z", null),
+      ],
+      2,
+      t("2026-03-01T00:00:00Z")
+    );
+
+    expect(plan.close?.id).toBe("a");
+    expect(plan.effectiveTo?.toISO()).toBe("2026-06-01T00:00:00.000Z");
+  });
+
+  it("supersedes a version starting at the same instant", () => {
+    const plan = planScheduledVersion(
+      [
+        row("a", 1, "2026-01-01T00:00:00Z", "2026-06-01T00:00:00Z"),
+        row("b", 2, "2026-06-01T00:00:00Z", null),
+      ],
+      3,
+      t("2026-06-01T00:00:00Z")
+    );
+
+    expect(plan.version).toBe(4);
+    expect(plan.supersede).toEqual(["b"]);
+    expect(plan.close).toBeNull();
+    expect(plan.effectiveTo).toBeNull();
+  });
+});
+
+describe("planRetirement", () => {
+  it("closes the version in force and cancels scheduled ones", () => {
+    const plan = planRetirement(
+      [
+        row("a", 1, "2026-01-01T00:00:00Z", "2026-06-01T00:00:00Z"),
+        row("b", 2, "2026-06-01T00:00:00Z", null),
+      ],
+      t("2026-03-01T00:00:00Z")
+    );
+
+    expect(plan.close?.id).toBe("a");
+    expect(plan.cancel).toEqual(["b"]);
+  });
+});
+
+describe("planRename", () => {
+  it("carries current and scheduled versions over to the new key", () => {
+    const plan = planRename(
+      [
+        row("old", 1, "2025-01-01T00:00:00Z", "2026-01-01T00:00:00Z"),
+        row("b", 3, "2026-06-01T00:00:00Z", null),
+        row("a", 2, "2026-01-01T00:00:00Z", "2026-06-01T00:00:00Z"),
+      ],
+      4,
+      t("2026-03-01T00:00:00Z")
+    );
+
+    expect(
+      plan.copy.map((copy) => [
+        copy.source.id,
+        copy.version,
+        copy.effectiveFrom.toISO(),
+        copy.effectiveTo?.toISO() ?? null,
+      ])
+    ).toEqual([
+      ["a", 5, "2026-03-01T00:00:00.000Z", "2026-06-01T00:00:00.000Z"],
+      ["b", 6, "2026-06-01T00:00:00.000Z", null],
+    ]);
+    expect(plan.retire.close?.id).toBe("a");
+    expect(plan.retire.cancel).toEqual(["b"]);
+  });
+});
+
+describe("toEffectiveRange", () => {
+  it("parses Postgres timestamptz strings as UTC", () => {
+    const range = toEffectiveRange({
+      effectiveFrom: "2026-01-01 05:30:00+05:30",
+      effectiveTo: null,
+    });
+
+    expect(range.effectiveFrom.toISO()).toBe("2026-01-01T00:00:00.000Z");
+    expect(range.effectiveTo).toBeNull();
+  });
+});
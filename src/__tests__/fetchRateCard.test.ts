@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { matchRateCard } from "../utils/fetchRateCard";
+import type { RateCard } from "../storage/db/postgres/helpers/rateCards";
+
+function card(model: string, inputRate: number): RateCard {
+  return {
+    id: model,
+    provider: "openai",
+    model,
+    inputRate,
+    inputCacheRate: 0,
+    outputRate: 0,
+    outputCacheRate: 0,
+  };
+}
+
+describe("matchRateCard", () => {
+  const cards = [card("gpt-4*", 1), card("gpt-4o*", 2), card("gpt-4o-mini", 3)];
+
+  it("prefers an exact model name", () => {
+    expect(matchRateCard(cards, "gpt-4o-mini")?.inputRate).toBe(3);
+  });
+
+  it("falls back to the longest matching prefix", () => {
+    expect(matchRateCard(cards, "gpt-4o-2024-08-06")?.inputRate).toBe(2);
+    expect(matchRateCard(cards, "gpt-4-turbo")?.inputRate).toBe(1);
+  });
+
+  it("returns undefined when nothing matches", () => {
+    expect(matchRateCard(cards, "claude-3-opus")).toBeUndefined();
+  });
+});
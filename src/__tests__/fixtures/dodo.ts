@@ -0,0 +1,40 @@
+import { createHmac, randomBytes } from "node:crypto";
+import type { WebhookRequest } from "../../interface/payment/PaymentProvider";
+
+export function createWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64")}`;
+}
+
+// Signs a payload the way Dodo does, following Standard Webhooks
+export function signedWebhook(
+  payload: Record<string, unknown>,
+  secret: string
+): WebhookRequest & { headers: Record<string, string> } {
+  const rawBody = JSON.stringify(payload);
+  const id = `msg_${crypto.randomUUID()}`;
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature = createHmac(
+    "sha256",
+    Buffer.from(secret.slice("whsec_".length), "base64")
+  )
+    .update(`${id}.${timestamp}.${rawBody}`)
+    .digest("base64");
+
+  return {
+    rawBody,
+    headers: {
+      "webhook-id": id,
+      "webhook-timestamp": timestamp,
+      "webhook-signature": `v1,${signature}`,
+    },
+  };
+}
+
+export function dodoEvent(type: string, data: Record<string, unknown>) {
+  return {
+    business_id: "bus_test",
+    timestamp: new Date().toISOString(),
+    type,
+    data,
+  };
+}
@@ -0,0 +1,39 @@
+import { DateTime } from "luxon";
+import { BasicUsage } from "../../events/BasicUsage";
+import type { SqlRecordOf } from "../../interface/event/Event";
+
+export interface BasicUsageOptions {
+  userId?: string;
+  // Cents
+  debitAmount?: number;
+  // An ISO timestamp or instant; defaults to now
+  reportedAt?: string | DateTime;
+}
+
+/**
+ * A raw basic usage event with fresh event and idempotency keys.
+ */
+export function basicUsageEvent({
+  userId = crypto.randomUUID(),
+  debitAmount = 100,
+  reportedAt = DateTime.utc(),
+}: BasicUsageOptions = {}): BasicUsage {
+  return new BasicUsage(
+    userId,
+    typeof reportedAt === "string"
+      ? DateTime.fromISO(reportedAt, { zone: "utc" })
+      : reportedAt,
+    { basicUsageType: "RAW", debitAmount },
+    crypto.randomUUID(),
+    crypto.randomUUID()
+  );
+}
+
+/**
+ * The record a basic usage event is stored as.
+ */
+export function basicUsageRecord(
+  options: BasicUsageOptions = {}
+): SqlRecordOf<"BASIC_USAGE"> {
+  return basicUsageEvent(options).serialize().SQL;
+}
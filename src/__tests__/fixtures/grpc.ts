@@ -9,6 +9,11 @@ import type {
   CreateAPIKeyRequest,
   CreateAPIKeyResponse,
 } from "../../gen/auth/v1/auth";
+import type {
+  PaymentServiceClient,
+  CreateCheckoutLinkRequest,
+  CreateCheckoutLinkResponse,
+} from "../../gen/payment/v1/payment";
 
 export const GRPC_ADDRESS = "localhost:18069";
 
@@ -47,3 +52,17 @@ export function registerEvent(
     });
   });
 }
+
+export function createCheckoutLink(
+  client: PaymentServiceClient,
+  request: CreateCheckoutLinkRequest,
+  metadata: grpc.Metadata
+): Promise<CreateCheckoutLinkResponse> {
+  return new Promise((resolve, reject) => {
+    client.createCheckoutLink(request, metadata, (error, res) => {
+      if (error) reject(error);
+      else if (!res) reject(new Error("empty response"));
+      else resolve(res);
+    });
+  });
+}
@@ -0,0 +1,29 @@
+export const HTTP_ADDRESS = "http://localhost:18070";
+
+export interface ApiResponse<T> {
+  status: number;
+  body: T;
+}
+
+export async function apiRequest<T = any>(
+  method: "GET" | "POST" | "PATCH" | "PUT" | "DELETE",
+  path: string,
+  rawKey: string | null,
+  body?: unknown
+): Promise<ApiResponse<T>> {
+  const headers: Record<string, string> = {};
+  if (rawKey) {
+    headers.authorization = `Bearer ${rawKey}`;
+  }
+  if (body !== undefined) {
+    headers["content-type"] = "application/json";
+  }
+
+  const response = await fetch(`${HTTP_ADDRESS}${path}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  return { status: response.status, body: text ? JSON.parse(text) : null };
+}
@@ -0,0 +1,185 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeInvoiceLine,
+  formatMinorUnits,
+  renderInvoiceHtml,
+  type InvoiceDocument,
+} from "../utils/invoiceDocument";
+import { renderInvoicePdf } from "../utils/invoicePdf";
+import type { InvoiceLineItem } from "../storage/db/postgres/helpers/invoices";
+
+function line(overrides: Partial<InvoiceLineItem>): InvoiceLineItem {
+  return {
+    id: crypto.randomUUID(),
+    eventKind: "BASIC_USAGE",
+    basicUsageType: "RAW",
+    model: null,
+    component: null,
+    tag: null,
+    quantity: 1,
+    amount: 0,
+    adjustment: false,
+    ...overrides,
+  };
+}
+
+function invoiceDocument(
+  overrides: Partial<InvoiceDocument["template"]> = {}
+): InvoiceDocument {
+  return {
+    invoice: {
+      id: "3f2e1d0c-9b8a-4765-8432-10fedcba9876",
+      userId: "5f0e4c1a-3b7d-4e8f-9a21-6c4d2b1e0f37",
+      apiKeyId: "9c8b7a6d-5e4f-4321-8a9b-0c1d2e3f4a5b",
+      mode: "production",
+      proxyId: "0a1b2c3d-4e5f-4607-8192-a3b4c5d6e7f8",
+      paymentEventId: null,
+      status: "open",
+      periodStart: "2026-02-01 00:00:00+00",
+      periodEnd: "2026-03-01T00:00:00.000Z",
+      subtotal: 1234.5,
+      total: 1234,
+      discount: 0,
+      currency: "usd",
+      createdAt: "2026-03-01 00:00:05+00",
+      paidAt: null,
+      lineItems: [
+        line({ tag: "SEARCH", quantity: 1200, amount: 600 }),
+        line({
+          eventKind: "AI_TOKEN_USAGE",
+          basicUsageType: null,
+          model: "gpt-4o",
+          component: "output",
+          quantity: 40000,
+          amount: 634.5,
+        }),
+      ],
+      feeItems: [],
+    },
+    paymentStatus: "pending",
+    template: {
+      logoUrl: null,
+      businessAddress: null,
+      footer: null,
+      ...overrides,
+    },
+  };
+}
+
+describe("describeInvoiceLine", () => {
+  it("names AI token lines by model and component", () => {
+    expect(
+      describeInvoiceLine(
+        line({
+          eventKind: "AI_TOKEN_USAGE",
+          basicUsageType: null,
+          model: "gpt-4o",
+          component: "inputCache",
+          tag: "GPT4O_CACHED",
+        })
+      )
+    ).toBe("gpt-4o cached input tokens (GPT4O_CACHED)");
+  });
+
+  it("names basic usage lines by type", () => {
+    expect(
+      describeInvoiceLine(line({ basicUsageType: "MIDDLEWARE_CALL" }))
+    ).toBe("Middleware calls");
+  });
+
+  it("marks late usage adjustments", () => {
+    expect(
+      describeInvoiceLine(line({ tag: "API_CALL", adjustment: true }))
+    ).toBe("Late usage adjustment: Usage events (API_CALL)");
+  });
+});
+
+describe("formatMinorUnits", () => {
+  it("formats cents in the invoice currency", () => {
+    expect(formatMinorUnits(123456, "usd")).toBe("$1,234.56");
+  });
+
+  it("falls back to the code for unknown currencies", () => {
+    expect(formatMinorUnits(500, "not-a-currency")).toBe("5.00 NOT-A-CURRENCY");
+  });
+});
+
+describe("renderInvoiceHtml", () => {
+  it("lists line items, the period and the payment status", () => {
+    const html = renderInvoiceHtml(invoiceDocument());
+    expect(html).toContain("Usage events (SEARCH)");
+    expect(html).toContain("gpt-4o output tokens");
+    expect(html).toContain("1 Feb 2026 – 1 Mar 2026");
+    expect(html).toContain("Awaiting payment");
+    expect(html).toContain("$12.34");
+  });
+
+  it("lists plan fees after usage, with prorated intervals", () => {
+    const doc = invoiceDocument();
+    doc.invoice.feeItems = [
+      {
+        id: "6b5a4c3d-2e1f-4a0b-9c8d-7e6f5a4b3c2d",
+        planId: "1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f",
+        planName: "Pro",
+        intervals: 1.5,
+        amount: 3000,
+      },
+    ];
+    const html = renderInvoiceHtml(doc);
+    expect(html).toContain("Pro plan");
+    expect(html).toContain("1.5");
+    expect(html.indexOf("Pro plan")).toBeGreaterThan(
+      html.indexOf("gpt-4o output tokens")
+    );
+  });
+
+  it("shows the rounding between the line items and the charged total", () => {
+    expect(renderInvoiceHtml(invoiceDocument())).toContain("Rounding");
+  });
+
+  it("shows a coupon discount apart from the rounding", () => {
+    const doc = invoiceDocument();
+    doc.invoice.total = 1000;
+    doc.invoice.discount = 234;
+    const html = renderInvoiceHtml(doc);
+
+    expect(html).toContain("Discount");
+    expect(html).toContain("-$2.34");
+    expect(html).toContain("Rounding");
+  });
+
+  it("escapes template fields", () => {
+    const html = renderInvoiceHtml(
+      invoiceDocument({ businessAddress: "Acme <Labs>\nBerlin" })
+    );
+    expect(html).toContain("Acme &lt;Labs&gt;<br>Berlin");
+  });
+});
+
+describe("renderInvoicePdf", () => {
+  it("writes a PDF whose cross-reference table points at its objects", () => {
+    const pdf = renderInvoicePdf(invoiceDocument({ footer: "Thank you" }));
+    const text = pdf.toString("latin1");
+
+    expect(text.startsWith("%PDF-1.4")).toBe(true);
+    expect(text).toContain("(gpt-4o output tokens) Tj");
+
+    const xrefAt = Number(text.match(/startxref\n(\d+)/)?.[1]);
+    expect(text.slice(xrefAt, xrefAt + 4)).toBe("xref");
+    const offsets = [...text.matchAll(/^(\d{10}) 00000 n $/gm)].map((m) =>
+      Number(m[1])
+    );
+    offsets.forEach((offset, i) => {
+      expect(text.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  it("spreads long invoices over several pages", () => {
+    const doc = invoiceDocument();
+    doc.invoice.lineItems = Array.from({ length: 80 }, (_, i) =>
+      line({ tag: `TAG_${i}`, amount: 1 })
+    );
+    const text = renderInvoicePdf(doc).toString("latin1");
+    expect(Number(text.match(/\/Count (\d+)/)?.[1])).toBeGreaterThan(1);
+  });
+});
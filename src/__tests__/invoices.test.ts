@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { DateTime } from "luxon";
+import { getPostgresDB } from "../storage/db/postgres/db";
+import {
+  createInvoice,
+  findInvoice,
+  listInvoices,
+  markInvoicePaid,
+  voidInvoice,
+  type NewInvoice,
+} from "../storage/db/postgres/helpers/invoices";
+import { handleAddSession } from "../storage/db/postgres/helpers/sessions";
+import { ensureUserExists } from "../storage/db/postgres/helpers/users";
+import { handleAddPayment } from "../storage/db/postgres/helpers/payments";
+import { createPlan } from "../storage/db/postgres/helpers/plans";
+import { createTestApiKey } from "./fixtures/apiKey";
+import { apiRequest, HTTP_ADDRESS } from "./fixtures/http";
+import { clearDatabase } from "./db";
+
+describe("invoices", () => {
+  let rawKey: string;
+  let apiKeyId: string;
+  let planId: string;
+
+  // An invoice for a fresh user's usage checkout
+  async function seedInvoice(
+    overrides: Partial<NewInvoice> = {}
+  ): Promise<{ id: string; userId: string; proxyId: string }> {
+    const userId = overrides.userId ?? crypto.randomUUID();
+    await ensureUserExists(userId);
+    const { id: proxyId } = await handleAddSession(
+      userId,
+      `cks_${crypto.randomUUID()}`,
+      DateTime.fromISO("2026-02-01T00:00:00Z", { zone: "utc" }),
+      apiKeyId,
+      "test",
+      "https://example.com/checkout"
+    );
+
+    const { id } = await getPostgresDB().transaction((txn) =>
+      createInvoice(
+        {
+          userId,
+          apiKeyId,
+          mode: "test",
+          proxyId,
+          periodStart: "2026-01-01T00:00:00Z",
+          periodEnd: "2026-02-01T00:00:00Z",
+          total: 2250,
+          discount: 0,
+          currency: "usd",
+          lineItems: [
+            {
+              eventKind: "BASIC_USAGE",
+              basicUsageType: "RAW",
+              model: null,
+              component: null,
+              tag: null,
+              quantity: 3,
+              amount: 249.5,
+              adjustment: false,
+            },
+          ],
+          feeItems: [
+            {
+              planId,
+              planName: "Pro",
+              intervals: 1,
+              amount: 2000,
+            },
+          ],
+          ...overrides,
+        },
+        txn
+      )
+    );
+    return { id, userId, proxyId };
+  }
+
+  beforeAll(async () => {
+    const key = await createTestApiKey();
+    rawKey = key.rawKey;
+    apiKeyId = key.id;
+
+    const plan = await createPlan({
+      name: "Pro",
+      amount: 2000,
+      interval: "month",
+      intervalCount: 1,
+    });
+    planId = plan!.id;
+  });
+
+  afterAll(async () => {
+    await clearDatabase();
+  });
+
+  describe("helpers", () => {
+    it("creates an invoice with its items and subtotal", async () => {
+      const { id, userId } = await seedInvoice();
+
+      const invoice = await findInvoice(id);
+
+      expect(invoice).toMatchObject({
+        userId,
+        status: "open",
+        subtotal: 2249.5,
+        total: 2250,
+        paymentEventId: null,
+      });
+      expect(invoice?.lineItems).toEqual([
+        expect.objectContaining({ quantity: 3, amount: 249.5 }),
+      ]);
+      expect(invoice?.feeItems).toEqual([
+        expect.objectContaining({ planName: "Pro", intervals: 1 }),
+      ]);
+    });
+
+    it("finds nothing for an unknown id", async () => {
+      expect(await findInvoice(crypto.randomUUID())).toBeNull();
+    });
+
+    it("lists invoices by user and status", async () => {
+      const paid = await seedInvoice();
+      const voided = await seedInvoice({ userId: paid.userId });
+
+      await getPostgresDB().transaction(async (txn) => {
+        const { id: paymentId } = await handleAddPayment(
+          paid.userId,
+          2250,
+          apiKeyId,
+          "test",
+          paid.proxyId,
+          `pay_${crypto.randomUUID()}`,
+          txn
+        );
+        await markInvoicePaid(paid.proxyId, paymentId, txn);
+        await voidInvoice(voided.proxyId, txn);
+      });
+
+      const all = await listInvoices({ userId: paid.userId }, 10, 0);
+      expect(all.map((invoice) => invoice.id).sort()).toEqual(
+        [paid.id, voided.id].sort()
+      );
+
+      const [onlyPaid, ...rest] = await listInvoices(
+        { userId: paid.userId, status: "paid" },
+        10,
+        0
+      );
+      expect(rest).toEqual([]);
+      expect(onlyPaid).toMatchObject({
+        id: paid.id,
+        status: "paid",
+        paymentEventId: expect.any(String),
+      });
+    });
+  });
+
+  describe("routes", () => {
+    it("lists a user's invoices", async () => {
+      const { id, userId } = await seedInvoice();
+
+      const res = await apiRequest(
+        "GET",
+        `/api/v1/invoices?userId=${userId}`,
+        rawKey
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.body.invoices).toEqual([
+        expect.objectContaining({ id, userId, status: "open" }),
+      ]);
+    });
+
+    it("fetches an invoice with its items", async () => {
+      const { id } = await seedInvoice();
+
+      const res = await apiRequest("GET", `/api/v1/invoices/${id}`, rawKey);
+
+      expect(res.status).toBe(200);
+      expect(res.body.invoice).toMatchObject({ id, total: 2250 });
+      expect(res.body.invoice.lineItems).toHaveLength(1);
+      expect(res.body.invoice.feeItems).toHaveLength(1);
+    });
+
+    it("renders an invoice as HTML and PDF", async () => {
+      const { id } = await seedInvoice();
+      const headers = { authorization: `Bearer ${rawKey}` };
+
+      const html = await fetch(
+        `${HTTP_ADDRESS}/api/v1/invoices/${id}/document`,
+        { headers }
+      );
+      expect(html.status).toBe(200);
+      expect(await html.text()).toContain("Pro plan");
+
+      const pdf = await fetch(
+        `${HTTP_ADDRESS}/api/v1/invoices/${id}/document?format=pdf`,
+        { headers }
+      );
+      expect(pdf.headers.get("content-type")).toBe("application/pdf");
+      expect(
+        Buffer.from(await pdf.arrayBuffer())
+          .subarray(0, 5)
+          .toString()
+      ).toBe("%PDF-");
+    });
+
+    it("answers 404 for an unknown invoice", async () => {
+      const res = await apiRequest(
+        "GET",
+        `/api/v1/invoices/${crypto.randomUUID()}`,
+        rawKey
+      );
+      expect(res.status).toBe(404);
+    });
+
+    it("rejects malformed ids and filters", async () => {
+      expect(
+        (await apiRequest("GET", "/api/v1/invoices/not-an-id", rawKey)).status
+      ).toBe(400);
+      expect(
+        (await apiRequest("GET", "/api/v1/invoices?status=draft", rawKey))
+          .status
+      ).toBe(400);
+    });
+
+    it("requires an API key", async () => {
+      expect((await apiRequest("GET", "/api/v1/invoices", null)).status).toBe(
+        401
+      );
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { DateTime } from "luxon";
+import { status } from "@grpc/grpc-js";
+import {
+  BasicUsageType,
+  EventType,
+  RegisterEventRequest,
+} from "../gen/event/v1/event";
+import type { AuthContext } from "../context/auth";
+import type { LateEventPolicy } from "../config/identifiers";
+import type { SqlRecord } from "../interface/event/Event";
+import {
+  ensureUserExists,
+  updateUserBilledTimestamp,
+} from "../storage/db/postgres/helpers/users";
+import { listLateEvents } from "../storage/db/postgres/helpers/lateEvents";
+import { handlePeriodTokenUsage } from "../storage/adapter/postgres/handlers/periodTokenUsage";
+import { insertKey } from "./fixtures/apiKey";
+import { basicUsageRecord } from "./fixtures/events";
+import { clearDatabase } from "./db";
+
+const isClickHouse = process.env.STORAGE_ADAPTER === "clickhouse";
+
+const lastBilled = "2026-02-01T00:00:00.000Z";
+
+// LATE_EVENT_POLICY is read on import, so each policy gets a fresh import
+async function importWithPolicy(policy: LateEventPolicy) {
+  vi.stubEnv("LATE_EVENT_POLICY", policy);
+  vi.resetModules();
+  const { getPostgresDB } = await import("../storage/db/postgres/db");
+  getPostgresDB(process.env.DATABASE_URL);
+  const modules = {
+    ...(await import("../services/lateEventService")),
+    ...(await import("../utils/eventHelpers")),
+    ...(await import("../routes/gRPC/events/registerEvent")),
+  };
+  vi.unstubAllEnvs();
+  return modules;
+}
+
+describe("late event policies", () => {
+  let auth: AuthContext;
+
+  async function billedUser(): Promise<string> {
+    const userId = crypto.randomUUID();
+    await ensureUserExists(userId);
+    await updateUserBilledTimestamp(userId, lastBilled);
+    return userId;
+  }
+
+  beforeAll(async () => {
+    const apiKeyId = await insertKey(
+      `scrn_test_${crypto.randomUUID().replace(/-/g, "").slice(0, 32)}`,
+      "test"
+    );
+    auth = { apiKeyId, role: "test", mode: "test" };
+  });
+
+  afterAll(async () => {
+    await clearDatabase();
+  });
+
+  describe("reject", () => {
+    let modules: Awaited<ReturnType<typeof importWithPolicy>>;
+
+    beforeAll(async () => {
+      modules = await importWithPolicy("reject");
+    });
+
+    it("refuses a late event and reports it", async () => {
+      const userId = await billedUser();
+      const record = basicUsageRecord({
+        userId,
+        reportedAt: "2026-01-15T00:00:00Z",
+      });
+
+      await expect(
+        modules.applyLateEventPolicy(record, auth)
+      ).rejects.toMatchObject({
+        type: "LATE_EVENT",
+        code: status.FAILED_PRECONDITION,
+      });
+
+      const [reported] = await listLateEvents({ userId }, 10, 0);
+      expect(reported).toMatchObject({
+        idempotencyKey: record.idempotencyKey,
+        policy: "reject",
+      });
+    });
+
+    it("reports late events of each kind that share a key", async () => {
+      const userId = await billedUser();
+      const basic = basicUsageRecord({
+        userId,
+        reportedAt: "2026-01-15T00:00:00Z",
+      });
+      const aiToken: SqlRecord = {
+        type: "AI_TOKEN_USAGE",
+        reported_timestamp: basic.reported_timestamp,
+        data: {
+          model: "gpt-4o",
+          provider: "openai",
+          inputTokens: 10,
+          inputCacheTokens: 0,
+          outputTokens: 10,
+          outputCacheTokens: 0,
+          inputDebitAmount: 1,
+          inputCacheDebitAmount: 0,
+          outputDebitAmount: 1,
+          outputCacheDebitAmount: 0,
+        },
+        userId,
+        eventId: crypto.randomUUID(),
+        idempotencyKey: basic.idempotencyKey,
+      };
+
+      for (const record of [basic, aiToken]) {
+        await expect(
+          modules.applyLateEventPolicy(record, auth)
+        ).rejects.toMatchObject({ type: "LATE_EVENT" });
+      }
+
+      const reported = await listLateEvents({ userId }, 10, 0);
+      expect(reported.map((event) => event.eventKind).sort()).toEqual([
+        "AI_TOKEN_USAGE",
+        "BASIC_USAGE",
+      ]);
+    });
+
+    it("lets events after the billed period through", async () => {
+      const userId = await billedUser();
+      const record = basicUsageRecord({
+        userId,
+        reportedAt: "2026-02-15T00:00:00Z",
+      });
+
+      expect(await modules.applyLateEventPolicy(record, auth)).toEqual({
+        record,
+        periodStart: null,
+      });
+    });
+
+    it("answers RegisterEvent with FAILED_PRECONDITION", async () => {
+      const userId = await billedUser();
+      const callback = vi.fn();
+
+      await modules.registerEvent(
+        {
+          request: RegisterEventRequest.fromPartial({
+            type: EventType.BASIC_USAGE,
+            userId,
+            reportedTimestamp: Math.floor(
+              DateTime.fromISO("2026-01-15T00:00:00Z").toSeconds()
+            ),
+            eventId: crypto.randomUUID(),
+            idempotencyKey: crypto.randomUUID(),
+            basicUsage: { basicUsageType: BasicUsageType.RAW, amount: 100 },
+          }),
+          [Symbol.for("apiKeyContextKey")]: auth,
+        } as never,
+        callback
+      );
+
+      expect(callback).toHaveBeenCalledWith(
+        expect.objectContaining({ code: status.FAILED_PRECONDITION })
+      );
+    });
+  });
+
+  describe("next_period", () => {
+    let modules: Awaited<ReturnType<typeof importWithPolicy>>;
+
+    beforeAll(async () => {
+      modules = await importWithPolicy("next_period");
+    });
+
+    it("marks a late event to be billed with the current period", async () => {
+      const userId = await billedUser();
+      const record = basicUsageRecord({
+        userId,
+        reportedAt: "2026-01-15T00:00:00Z",
+      });
+
+      const late = await modules.applyLateEventPolicy(record, auth);
+
+      expect(late.record.late_policy).toBe("next_period");
+      expect(DateTime.fromSQL(late.periodStart!, { zone: "utc" }).toISO()).toBe(
+        lastBilled
+      );
+    });
+
+    it("leaves events on time unmarked", async () => {
+      const userId = await billedUser();
+      const record = basicUsageRecord({
+        userId,
+        reportedAt: "2026-02-15T00:00:00Z",
+      });
+
+      expect(await modules.applyLateEventPolicy(record, auth)).toEqual({
+        record,
+        periodStart: null,
+      });
+    });
+
+    it.skipIf(isClickHouse)(
+      "counts late tokens in the period they arrive in",
+      async () => {
+        const userId = await billedUser();
+        const event = modules.createEventInstance({
+          type: "AI_TOKEN_USAGE",
+          userId,
+          reportedTimestamp: DateTime.fromISO("2026-01-15T00:00:00Z", {
+            zone: "utc",
+          }),
+          eventId: crypto.randomUUID(),
+          idempotencyKey: crypto.randomUUID(),
+          aiTokenUsage: {
+            model: "gpt-4o",
+            provider: "openai",
+            inputTokens: 120,
+            inputCacheTokens: 0,
+            outputTokens: 30,
+            outputCacheTokens: 0,
+            inputDebitAmount: 1,
+            inputCacheDebitAmount: 0,
+            outputDebitAmount: 2,
+            outputCacheDebitAmount: 0,
+          },
+        });
+
+        await modules.storeEvent(event, auth);
+
+        expect(await handlePeriodTokenUsage(userId, "test")).toMatchObject({
+          inputTokens: 120,
+          outputTokens: 30,
+        });
+      }
+    );
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { LocalPaymentProvider } from "../payment/adapter/local/LocalPaymentProvider";
+import type { WebhookRequest } from "../interface/payment/PaymentProvider";
+
+const config = { productId: "local", returnUrl: null, currency: "usd" };
+const params = {
+  customPrice: 1250,
+  userId: "5f0e4c1a-3b7d-4e8f-9a21-6c4d2b1e0f37",
+  apiKeyId: "9c8b7a6d-5e4f-4321-8a9b-0c1d2e3f4a5b",
+};
+
+// Captures the webhooks the provider delivers instead of sending them
+function captureWebhooks(): WebhookRequest[] {
+  const delivered: WebhookRequest[] = [];
+  vi.spyOn(globalThis, "fetch").mockImplementation(async (_url, init) => {
+    delivered.push({
+      rawBody: String(init?.body),
+      headers: init?.headers as Record<string, string>,
+    });
+    return new Response(null, { status: 200 });
+  });
+  return delivered;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe("LocalPaymentProvider", () => {
+  it("serves its checkouts from Scrawn itself", async () => {
+    const provider = new LocalPaymentProvider();
+    const checkout = await provider.createCheckout(config, params, "test");
+
+    expect(checkout.checkoutUrl).toBe(
+      `${process.env.APP_URL}/payment/local/checkout/${checkout.sessionId}`
+    );
+    expect(provider.getCheckout(checkout.sessionId)).toMatchObject({
+      amount: 1250,
+      mode: "test",
+      outcome: null,
+    });
+  });
+
+  it("delivers a signed payment webhook it can verify", async () => {
+    const provider = new LocalPaymentProvider();
+    const delivered = captureWebhooks();
+    const { sessionId } = await provider.createCheckout(config, params, "test");
+
+    expect(await provider.completeCheckout(sessionId, "succeeded")).toBe(200);
+
+    const [webhook] = delivered;
+    expect(webhook).toBeDefined();
+    const event = await provider.unwrapWebhook(webhook!, "test");
+    expect(event).toMatchObject({
+      type: "payment.succeeded",
+      checkoutSessionId: sessionId,
+      amount: 1250,
+    });
+  });
+
+  it("rejects webhooks whose body was altered", async () => {
+    const provider = new LocalPaymentProvider();
+    const delivered = captureWebhooks();
+    const { sessionId } = await provider.createCheckout(config, params, "test");
+    await provider.completeCheckout(sessionId, "failed");
+
+    const [webhook] = delivered;
+    const tampered = {
+      ...webhook!,
+      rawBody: webhook!.rawBody.replace("payment.failed", "payment.succeeded"),
+    };
+    expect(await provider.unwrapWebhook(tampered, "test")).toBeNull();
+  });
+
+  it("settles a checkout only once", async () => {
+    const provider = new LocalPaymentProvider();
+    captureWebhooks();
+    const { sessionId } = await provider.createCheckout(config, params, "test");
+    await provider.completeCheckout(sessionId, "succeeded");
+
+    await expect(
+      provider.completeCheckout(sessionId, "failed")
+    ).rejects.toThrow("No pending local checkout");
+  });
+
+  it("refuses to process webhooks in production", async () => {
+    const provider = new LocalPaymentProvider();
+    const delivered = captureWebhooks();
+    const { sessionId } = await provider.createCheckout(config, params, "test");
+    await provider.completeCheckout(sessionId, "succeeded");
+
+    vi.stubEnv("NODE_ENV", "production");
+    await expect(provider.unwrapWebhook(delivered[0]!, "test")).rejects.toThrow(
+      "not available in production"
+    );
+  });
+
+  it("has no webhook route in production", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+    const response = await fetch(
+      `http://localhost:18070/webhooks/payment/local?mode=test`,
+      {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ type: "payment.succeeded", data: {} }),
+      }
+    );
+    expect(response.status).toBe(404);
+  });
+
+  it("refunds a payment in parts until it is fully refunded", async () => {
+    const provider = new LocalPaymentProvider();
+    const delivered = captureWebhooks();
+    const { sessionId } = await provider.createCheckout(config, params, "test");
+    await provider.completeCheckout(sessionId, "succeeded");
+    const payment = await provider.unwrapWebhook(delivered[0]!, "test");
+    if (payment?.type !== "payment.succeeded") {
+      throw new Error("expected a payment webhook");
+    }
+
+    await provider.refund(payment.paymentId, 1000, "test");
+    await provider.refund(payment.paymentId, null, "test");
+
+    const refunds = await Promise.all(
+      delivered
+        .slice(1)
+        .map((webhook) => provider.unwrapWebhook(webhook, "test"))
+    );
+    expect(refunds).toMatchObject([
+      { type: "refund.succeeded", amount: 1000, partial: true },
+      { type: "refund.succeeded", amount: 250, partial: false },
+    ]);
+  });
+
+  it("keeps a customer under one id and attaches checkouts to it", async () => {
+    const provider = new LocalPaymentProvider();
+    const customer = {
+      userId: params.userId,
+      providerCustomerId: null,
+      email: "ada@example.com",
+      name: "Ada",
+      metadata: {},
+    };
+
+    const customerId = await provider.syncCustomer(customer, "test");
+    expect(
+      await provider.syncCustomer(
+        { ...customer, providerCustomerId: customerId, name: "Ada L." },
+        "test"
+      )
+    ).toBe(customerId);
+    expect(provider.getCustomer(customerId)?.name).toBe("Ada L.");
+
+    const { sessionId } = await provider.createCheckout(
+      config,
+      {
+        ...params,
+        customer: {
+          providerCustomerId: customerId,
+          email: "ada@example.com",
+          name: "Ada L.",
+        },
+      },
+      "test"
+    );
+    expect(provider.getCheckout(sessionId)).toMatchObject({
+      customerId,
+      email: "ada@example.com",
+    });
+  });
+});
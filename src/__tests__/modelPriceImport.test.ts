@@ -0,0 +1,190 @@
+import { describe, it, expect, afterAll } from "vitest";
+import {
+  dollarsToCents,
+  modelTagKey,
+  pendingRateCardWrites,
+  pendingTagWrites,
+  planRateCardImport,
+} from "../utils/modelPriceImport";
+import {
+  applyRateCardImport,
+  type RateCard,
+} from "../storage/db/postgres/helpers/rateCards";
+import {
+  createTag,
+  findTagVersions,
+} from "../storage/db/postgres/helpers/tags";
+import { clearDatabase } from "./db";
+
+const document = {
+  sample_spec: {
+    litellm_provider: "one of https://docs.litellm.ai/docs/providers",
+    input_cost_per_token: 0,
+  },
+  "gpt-4o": {
+    litellm_provider: "openai",
+    mode: "chat",
+    input_cost_per_token: 2.5e-6,
+    output_cost_per_token: 1e-5,
+    cache_read_input_token_cost: 1.25e-6,
+  },
+  "gpt-4o-mini": {
+    litellm_provider: "openai",
+    input_cost_per_token: 1.5e-7,
+    output_cost_per_token: 6e-7,
+  },
+  "dall-e-3": {
+    litellm_provider: "openai",
+    mode: "image_generation",
+  },
+  "claude-3-haiku": {
+    litellm_provider: "anthropic",
+    input_cost_per_token: 2.5e-7,
+    output_cost_per_token: 1.25e-6,
+  },
+};
+
+const existing: RateCard[] = [
+  {
+    id: "1",
+    provider: "openai",
+    model: "gpt-4o",
+    inputRate: 0.00025,
+    inputCacheRate: 0.000125,
+    outputRate: 0.001,
+    outputCacheRate: 0.0005,
+  },
+  {
+    id: "2",
+    provider: "openai",
+    model: "gpt-4o-mini",
+    inputRate: 0.00001,
+    inputCacheRate: 0,
+    outputRate: 0.00006,
+    outputCacheRate: 0,
+  },
+];
+
+describe("dollarsToCents", () => {
+  it("converts per-token dollars to cents without float noise", () => {
+    expect(dollarsToCents(2.5e-6)).toBe(0.00025);
+    expect(dollarsToCents(1.5e-7)).toBe(0.000015);
+  });
+});
+
+describe("planRateCardImport", () => {
+  it("diffs the document against existing rate cards", () => {
+    const plan = planRateCardImport(document, existing);
+
+    expect(plan.summary).toEqual({
+      create: 1,
+      update: 1,
+      unchanged: 1,
+      skipped: 1,
+    });
+    expect(plan.skipped).toEqual([
+      { model: "dall-e-3", reason: "No per-token pricing" },
+    ]);
+
+    const mini = plan.changes.find((change) => change.model === "gpt-4o-mini");
+    expect(mini?.action).toBe("update");
+    expect(mini?.after.inputRate).toBe(0.000015);
+  });
+
+  it("keeps the existing output cache rate", () => {
+    const plan = planRateCardImport(document, existing);
+    const gpt4o = plan.changes.find((change) => change.model === "gpt-4o");
+
+    expect(gpt4o?.action).toBe("unchanged");
+    expect(gpt4o?.after.outputCacheRate).toBe(0.0005);
+  });
+
+  it("limits the import to the given providers", () => {
+    const plan = planRateCardImport(document, existing, ["anthropic"]);
+
+    expect(plan.changes.map((change) => change.model)).toEqual([
+      "claude-3-haiku",
+    ]);
+  });
+
+  it("rejects negative prices", () => {
+    const plan = planRateCardImport(
+      { bad: { litellm_provider: "openai", input_cost_per_token: -1 } },
+      []
+    );
+
+    expect(plan.skipped).toEqual([
+      { model: "bad", reason: "Prices must be non-negative numbers" },
+    ]);
+  });
+
+  it("only writes cards that change", () => {
+    const writes = pendingRateCardWrites(
+      planRateCardImport(document, existing)
+    );
+
+    expect(writes.map((write) => write.model).sort()).toEqual([
+      "claude-3-haiku",
+      "gpt-4o-mini",
+    ]);
+  });
+});
+
+describe("tag import", () => {
+  afterAll(async () => {
+    await clearDatabase();
+  });
+
+  it("names tags after the model and price", () => {
+    expect(modelTagKey("gpt-4o-mini", "INPUT")).toBe("GPT_4O_MINI_INPUT");
+    expect(modelTagKey("openai/gpt-4o", "INPUT_CACHE")).toBe(
+      "OPENAI_GPT_4O_INPUT_CACHE"
+    );
+    expect(modelTagKey("3.5-turbo", "OUTPUT")).toBe("_3_5_TURBO_OUTPUT");
+  });
+
+  it("plans a tag per price, leaving existing keys alone", () => {
+    const plan = planRateCardImport(
+      document,
+      existing,
+      ["openai"],
+      ["GPT_4O_INPUT"]
+    );
+
+    expect(plan.tagSummary).toEqual({ create: 4, exists: 1 });
+    expect(pendingTagWrites(plan)).toEqual([
+      { key: "GPT_4O_INPUT_CACHE", amount: 0.000125 },
+      { key: "GPT_4O_OUTPUT", amount: 0.001 },
+      { key: "GPT_4O_MINI_INPUT", amount: 0.000015 },
+      { key: "GPT_4O_MINI_OUTPUT", amount: 0.00006 },
+    ]);
+  });
+
+  it("plans no tags unless asked to", () => {
+    const plan = planRateCardImport(document, existing);
+
+    expect(plan.tags).toEqual([]);
+  });
+
+  it("creates new tags as first versions along with the rate cards", async () => {
+    await createTag("CLAUDE_3_HAIKU_INPUT", 1);
+    const plan = planRateCardImport(
+      document,
+      [],
+      ["anthropic"],
+      ["CLAUDE_3_HAIKU_INPUT"]
+    );
+
+    await applyRateCardImport(
+      pendingRateCardWrites(plan),
+      pendingTagWrites(plan)
+    );
+
+    const output = await findTagVersions("CLAUDE_3_HAIKU_OUTPUT");
+    expect(output.map(({ version, amount }) => ({ version, amount }))).toEqual([
+      { version: 1, amount: 0.000125 },
+    ]);
+    const input = await findTagVersions("CLAUDE_3_HAIKU_INPUT");
+    expect(input.map(({ amount }) => amount)).toEqual([1]);
+  });
+});
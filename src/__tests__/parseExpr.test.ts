@@ -0,0 +1,286 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  evaluateExprWithTrace,
+  parseAndEvaluateExpr,
+  validateExprSyntax,
+} from "../utils/parseExpr";
+import { priceBookCache, userPriceBookCache } from "../utils/priceBookCache";
+
+describe("parseAndEvaluateExpr", () => {
+  it("evaluates plain arithmetic functions", async () => {
+    await expect(parseAndEvaluateExpr("add(mul(2,3),div(7,2))")).resolves.toBe(
+      9
+    );
+  });
+
+  it("evaluates infix arithmetic with the usual precedence", async () => {
+    await expect(parseAndEvaluateExpr("2 + 3 * 4")).resolves.toBe(14);
+    await expect(parseAndEvaluateExpr("(2 + 3) * 4")).resolves.toBe(20);
+    await expect(parseAndEvaluateExpr("10 - 4 - 3")).resolves.toBe(3);
+    await expect(parseAndEvaluateExpr("mul(6,2) * 3 / 4")).resolves.toBe(9);
+    await expect(
+      parseAndEvaluateExpr("inputTokens() * 2 + -1", { inputTokens: 21 })
+    ).resolves.toBe(41);
+  });
+
+  it("resolves token placeholders from the token context", async () => {
+    await expect(
+      parseAndEvaluateExpr("mul(inputTokens(),2)", { inputTokens: 21 })
+    ).resolves.toBe(42);
+  });
+
+  describe("conditional and rounding functions", () => {
+    it("applies a minimum charge with max()", async () => {
+      await expect(
+        parseAndEvaluateExpr("max(mul(inputTokens(),1),5)", { inputTokens: 2 })
+      ).resolves.toBe(5);
+    });
+
+    it("caps a charge with min()", async () => {
+      await expect(parseAndEvaluateExpr("min(mul(300,2),500)")).resolves.toBe(
+        500
+      );
+    });
+
+    it("bounds a value with clamp()", async () => {
+      await expect(parseAndEvaluateExpr("clamp(2,5,500)")).resolves.toBe(5);
+      await expect(parseAndEvaluateExpr("clamp(900,5,500)")).resolves.toBe(500);
+    });
+
+    it("rounds with ceil() and round()", async () => {
+      await expect(parseAndEvaluateExpr("ceil(mul(10,0.25))")).resolves.toBe(3);
+      await expect(parseAndEvaluateExpr("round(mul(10,0.25))")).resolves.toBe(
+        3
+      );
+      await expect(parseAndEvaluateExpr("round(mul(10,0.24))")).resolves.toBe(
+        2
+      );
+    });
+
+    it("keeps sub-cent precision for per-token prices", async () => {
+      await expect(
+        parseAndEvaluateExpr("mul(inputTokens(),0.00025)", { inputTokens: 3 })
+      ).resolves.toBe(0.00075);
+    });
+
+    it("branches on comparisons with if()", async () => {
+      const expr = "if(inputTokens() >= 100, 50, 10)";
+      await expect(
+        parseAndEvaluateExpr(expr, { inputTokens: 100 })
+      ).resolves.toBe(50);
+      await expect(
+        parseAndEvaluateExpr(expr, { inputTokens: 99 })
+      ).resolves.toBe(10);
+    });
+
+    it("rejects wrong argument counts", async () => {
+      await expect(parseAndEvaluateExpr("clamp(1,2)")).rejects.toThrow(
+        "clamp() requires exactly three arguments"
+      );
+      await expect(parseAndEvaluateExpr("ceil(1,2)")).rejects.toThrow(
+        "ceil() requires exactly one argument"
+      );
+    });
+
+    it("rejects a non-comparison if() condition", async () => {
+      await expect(parseAndEvaluateExpr("if(1, 2, 3)")).rejects.toThrow(
+        "if() condition must be a comparison"
+      );
+    });
+
+    it("rejects an inverted clamp range", async () => {
+      await expect(parseAndEvaluateExpr("clamp(1,10,5)")).rejects.toThrow(
+        "lower bound must not exceed upper bound"
+      );
+    });
+  });
+
+  describe("tiered", () => {
+    it("charges the first tier rate below the first threshold", async () => {
+      await expect(
+        parseAndEvaluateExpr("tiered(inputTokens(), 1000, 3, 2)", {
+          inputTokens: 100,
+        })
+      ).resolves.toBe(300);
+    });
+
+    it("splits tokens across tiers", async () => {
+      await expect(
+        parseAndEvaluateExpr("tiered(outputTokens(), 100, 5, 200, 2, 1)", {
+          outputTokens: 350,
+        })
+      ).resolves.toBe(100 * 5 + 100 * 2 + 150 * 1);
+    });
+
+    it("rejects thresholds that are not increasing", async () => {
+      await expect(
+        parseAndEvaluateExpr("tiered(inputTokens(), 100, 5, 50, 2, 1)", {
+          inputTokens: 10,
+        })
+      ).rejects.toThrow("strictly increasing");
+    });
+
+    it("rejects a missing final rate", async () => {
+      await expect(
+        parseAndEvaluateExpr("tiered(inputTokens(), 100, 5)", {
+          inputTokens: 10,
+        })
+      ).rejects.toThrow("final rate");
+    });
+  });
+
+  describe("volume", () => {
+    it("charges every token at the rate of the reached tier", async () => {
+      await expect(
+        parseAndEvaluateExpr("volume(inputTokens(), 100, 5, 200, 2, 1)", {
+          inputTokens: 150,
+        })
+      ).resolves.toBe(300);
+    });
+
+    it("uses the final rate beyond the last threshold", async () => {
+      await expect(
+        parseAndEvaluateExpr("volume(inputTokens(), 100, 5, 1)", {
+          inputTokens: 500,
+        })
+      ).resolves.toBe(500);
+    });
+  });
+});
+
+describe("evaluateExprWithTrace", () => {
+  it("returns the amount and the fully resolved arithmetic", async () => {
+    const result = await evaluateExprWithTrace(
+      "if(inputTokens() > 10, mul(inputTokens(), 2), 5)",
+      { inputTokens: 20 }
+    );
+
+    expect(result.amount).toBe(40);
+    expect(result.trace).toEqual({
+      exprs: [],
+      tags: [],
+      resolved: "if(20 > 10,mul(20,2),5)",
+    });
+  });
+
+  it("shows the period usage tier functions start from", async () => {
+    const result = await evaluateExprWithTrace(
+      "tiered(outputTokens(), 100, 5, 1)",
+      { outputTokens: 150 }
+    );
+
+    expect(result.amount).toBe(550);
+    expect(result.trace.resolved).toBe("tiered(150,0,100,5,1)");
+  });
+});
+
+describe("price book overrides", () => {
+  const userId = "5f0e4c1a-3b7d-4e8f-9a21-6c4d2b1e0f37";
+  const bookId = "0b6f3d2e-1c4a-4f5b-8e7d-9a2c6b3e1d40";
+
+  beforeEach(() => {
+    userPriceBookCache.set(userId, bookId);
+    priceBookCache.set(bookId, {
+      id: bookId,
+      key: "ENTERPRISE",
+      tags: new Map([["CALL_RATE", 40]]),
+      exprs: new Map([
+        [
+          "CALL_PRICE",
+          {
+            id: "c8e1f2a3-4b5c-4d6e-8f70-1a2b3c4d5e6f",
+            key: "CALL_PRICE",
+            expr: "mul(tag(CALL_RATE),2)",
+          },
+        ],
+      ]),
+    });
+  });
+
+  afterEach(() => {
+    userPriceBookCache.clear();
+    priceBookCache.clear();
+  });
+
+  it("resolves tags and expressions from the user's price book", async () => {
+    await expect(
+      parseAndEvaluateExpr("add(expr(CALL_PRICE),1)", undefined, {
+        userId,
+        mode: "production",
+      })
+    ).resolves.toBe(81);
+  });
+
+  it("reports which price book supplied each reference", async () => {
+    const result = await evaluateExprWithTrace(
+      "expr(CALL_PRICE)",
+      undefined,
+      undefined,
+      userId
+    );
+
+    expect(result.trace.exprs).toEqual([
+      {
+        name: "CALL_PRICE",
+        version: null,
+        priceBook: "ENTERPRISE",
+        expr: "mul(tag(CALL_RATE),2)",
+        expanded: "mul(40,2)",
+      },
+    ]);
+    expect(result.trace.tags).toEqual([
+      { name: "CALL_RATE", amount: 40, priceBook: "ENTERPRISE" },
+    ]);
+  });
+});
+
+describe("validateExprSyntax", () => {
+  it("accepts token placeholders", () => {
+    expect(() => validateExprSyntax("mul(inputCacheTokens(),2)")).not.toThrow();
+  });
+
+  it("reports the column of a syntax error", () => {
+    expect(() => validateExprSyntax("add(1,,2)")).toThrow(
+      "Invalid expression syntax at column 7"
+    );
+    expect(() => validateExprSyntax("add(1,2")).toThrow(
+      "unmatched opening parenthesis"
+    );
+    expect(() => validateExprSyntax("add(1,2))")).toThrow(
+      "unmatched closing parenthesis"
+    );
+  });
+
+  it("reports the column of a dangling infix operator", () => {
+    expect(() => validateExprSyntax("tag(A) + * 5")).toThrow(
+      "Invalid expression syntax at column 10: unexpected '*'"
+    );
+  });
+
+  it("rejects malformed tag names", () => {
+    expect(() => validateExprSyntax("tag(premium)")).toThrow(
+      "Invalid tag name format: premium"
+    );
+  });
+
+  it("only allows comparisons as an if() condition", () => {
+    expect(() => validateExprSyntax("add(1 > 2, 3)")).toThrow(
+      "comparisons are only allowed as the condition of if()"
+    );
+  });
+
+  it("rejects unknown functions", () => {
+    expect(() => validateExprSyntax("pow(2,3)")).toThrow(
+      "Unknown function in expression: pow"
+    );
+  });
+
+  it("requires tier functions to be metered on a token placeholder", () => {
+    expect(() => validateExprSyntax("tiered(100, 10, 2, 1)")).toThrow(
+      "must take a token placeholder"
+    );
+    expect(() =>
+      validateExprSyntax("volume(outputTokens(), 10, 2, 1)")
+    ).not.toThrow();
+  });
+});
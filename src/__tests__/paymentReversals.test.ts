@@ -0,0 +1,359 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { DateTime } from "luxon";
+import { eq } from "drizzle-orm";
+import { handlePaymentWebhook } from "../routes/http/createdCheckout";
+import { createWideEventBuilder } from "../context/requestContext";
+import { getPostgresDB } from "../storage/db/postgres/db";
+import { paymentEventsTable, usersTable } from "../storage/db/postgres/schema";
+import { handleAddPayment } from "../storage/db/postgres/helpers/payments";
+import { handleAddSession } from "../storage/db/postgres/helpers/sessions";
+import {
+  ensureUserExists,
+  updateUserBilledTimestamp,
+} from "../storage/db/postgres/helpers/users";
+import { createInvoice } from "../storage/db/postgres/helpers/invoices";
+import { getCreditBalance } from "../storage/db/postgres/helpers/wallet";
+import { upsertMetadata } from "../storage/db/postgres/helpers/metadata";
+import { forwardWebhook } from "../routes/http/forwardWebhook";
+import type {
+  PaymentProvider,
+  ProviderWebhookEvent,
+} from "../interface/payment/PaymentProvider";
+import { insertKey } from "./fixtures/apiKey";
+import { clearDatabase } from "./db";
+
+vi.mock("../routes/http/forwardWebhook", () => ({ forwardWebhook: vi.fn() }));
+
+const periodStart = "2026-01-01T00:00:00.000Z";
+const billedUpto = "2026-02-01T00:00:00.000Z";
+
+interface SeededPayment {
+  id: string;
+  userId: string;
+  providerPaymentId: string;
+}
+
+type Deliver = typeof handlePaymentWebhook;
+
+// Delivers an already verified event, as the provider would unwrap it
+async function deliver(
+  event: ProviderWebhookEvent,
+  handle: Deliver = handlePaymentWebhook
+) {
+  const provider = {
+    unwrapWebhook: async () => event,
+  } as unknown as PaymentProvider;
+  return handle(
+    provider,
+    { rawBody: "{}", headers: {} },
+    "test",
+    createWideEventBuilder(crypto.randomUUID(), "POST", "/webhooks/payment")
+  );
+}
+
+function refund(
+  paymentId: string,
+  amount: number | null,
+  refundId = `ref_${crypto.randomUUID()}`
+): ProviderWebhookEvent {
+  return {
+    type: "refund.succeeded",
+    paymentId,
+    refundId,
+    amount,
+    partial: amount !== null,
+    raw: {},
+  };
+}
+
+function dispute(
+  type: "dispute.opened" | "dispute.won" | "dispute.lost",
+  paymentId: string,
+  disputeId: string,
+  amount: number | null
+): ProviderWebhookEvent {
+  return { type, paymentId, disputeId, amount, raw: {} };
+}
+
+async function reversalsOf(payment: SeededPayment) {
+  return getPostgresDB()
+    .select({
+      kind: paymentEventsTable.kind,
+      creditAmount: paymentEventsTable.creditAmount,
+      disputeStatus: paymentEventsTable.disputeStatus,
+    })
+    .from(paymentEventsTable)
+    .where(eq(paymentEventsTable.reversedPaymentId, payment.id));
+}
+
+async function lastBilled(userId: string): Promise<string> {
+  const [user] = await getPostgresDB()
+    .select({ lastBilled: usersTable.last_billed_timestamp })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId));
+  return DateTime.fromSQL(user!.lastBilled!, { zone: "utc" }).toISO()!;
+}
+
+describe("payment reversal webhooks", () => {
+  let apiKeyId: string;
+
+  // A paid checkout; usage checkouts also settle the period they invoiced
+  async function seedPayment(
+    kind: "usage" | "top_up",
+    amount: number
+  ): Promise<SeededPayment> {
+    const userId = crypto.randomUUID();
+    const providerPaymentId = `pay_${crypto.randomUUID()}`;
+    await ensureUserExists(userId);
+
+    const { id: proxyId } = await handleAddSession(
+      userId,
+      `cks_${crypto.randomUUID()}`,
+      DateTime.fromISO(billedUpto, { zone: "utc" }),
+      apiKeyId,
+      "test",
+      "https://example.com/checkout",
+      kind
+    );
+    const { id } = await handleAddPayment(
+      userId,
+      amount,
+      apiKeyId,
+      "test",
+      proxyId,
+      providerPaymentId
+    );
+
+    if (kind === "usage") {
+      await getPostgresDB().transaction((txn) =>
+        createInvoice(
+          {
+            userId,
+            apiKeyId,
+            mode: "test",
+            proxyId,
+            periodStart,
+            periodEnd: billedUpto,
+            total: amount,
+            discount: 0,
+            currency: "usd",
+            lineItems: [],
+            feeItems: [],
+          },
+          txn
+        )
+      );
+      await updateUserBilledTimestamp(userId, billedUpto);
+    }
+
+    return { id, userId, providerPaymentId };
+  }
+
+  beforeAll(async () => {
+    apiKeyId = await insertKey(
+      `scrn_test_${crypto.randomUUID().replace(/-/g, "").slice(0, 32)}`,
+      "test"
+    );
+  });
+
+  afterAll(async () => {
+    await clearDatabase();
+  });
+
+  describe("refunds", () => {
+    it("records a refund once however often it is delivered", async () => {
+      const payment = await seedPayment("usage", 1000);
+      const event = refund(payment.providerPaymentId, 300);
+
+      expect((await deliver(event)).body).toEqual({
+        message: "Webhook processed successfully",
+      });
+      expect((await deliver(event)).body).toEqual({
+        message: "Event ignored",
+      });
+      expect(await reversalsOf(payment)).toEqual([
+        { kind: "refund", creditAmount: -300, disputeStatus: null },
+      ]);
+    });
+
+    it("caps partial refunds at what earlier refunds left", async () => {
+      const payment = await seedPayment("usage", 1000);
+
+      await deliver(refund(payment.providerPaymentId, 600));
+      await deliver(refund(payment.providerPaymentId, 600));
+      await deliver(refund(payment.providerPaymentId, 600));
+
+      const amounts = (await reversalsOf(payment)).map((r) => r.creditAmount);
+      expect(amounts.sort((a, b) => a - b)).toEqual([-600, -400, 0]);
+    });
+
+    it("takes back what is left when no amount is reported", async () => {
+      const payment = await seedPayment("usage", 1000);
+
+      await deliver(refund(payment.providerPaymentId, 250));
+      await deliver(refund(payment.providerPaymentId, null));
+
+      const amounts = (await reversalsOf(payment)).map((r) => r.creditAmount);
+      expect(amounts.sort((a, b) => a - b)).toEqual([-750, -250]);
+    });
+
+    it("takes refunded top-up credit back out of the wallet", async () => {
+      const payment = await seedPayment("top_up", 1000);
+      const event = refund(payment.providerPaymentId, 400);
+
+      await deliver(event);
+      await deliver(event);
+
+      expect(await getCreditBalance(payment.userId, "test")).toBe(-400);
+    });
+
+    it("keeps the period billed unless rollback is enabled", async () => {
+      const payment = await seedPayment("usage", 1000);
+
+      await deliver(refund(payment.providerPaymentId, null));
+
+      expect(await lastBilled(payment.userId)).toBe(billedUpto);
+    });
+
+    it("forwards the refund in the configured currency", async () => {
+      await upsertMetadata({
+        dodo_live_api_key: "",
+        dodo_test_api_key: "test_dodo_key",
+        dodo_live_product_id: "",
+        dodo_test_product_id: "prod_test",
+        dodo_live_webhook_secret: "",
+        dodo_test_webhook_secret: "",
+        currency: "eur",
+        redirect_url: "https://example.com",
+      });
+      const payment = await seedPayment("usage", 1000);
+
+      await deliver(refund(payment.providerPaymentId, 400));
+
+      expect(vi.mocked(forwardWebhook)).toHaveBeenCalledWith(
+        apiKeyId,
+        expect.objectContaining({
+          eventType: "refund.succeeded",
+          data: expect.objectContaining({ amount: 400, currency: "eur" }),
+        })
+      );
+    });
+
+    it("answers 404 for payments it never recorded", async () => {
+      const response = await deliver(refund("pay_unknown", 100));
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe("disputes", () => {
+    it("moves no money while a dispute is open or once it is won", async () => {
+      const payment = await seedPayment("top_up", 1000);
+      const disputeId = `dsp_${crypto.randomUUID()}`;
+
+      await deliver(
+        dispute("dispute.opened", payment.providerPaymentId, disputeId, 1000)
+      );
+      expect(await reversalsOf(payment)).toEqual([
+        { kind: "dispute", creditAmount: 0, disputeStatus: "open" },
+      ]);
+
+      await deliver(
+        dispute("dispute.won", payment.providerPaymentId, disputeId, 1000)
+      );
+      const late = await deliver(
+        dispute("dispute.lost", payment.providerPaymentId, disputeId, 1000)
+      );
+
+      expect(late.body).toEqual({ message: "Event ignored" });
+      expect(await reversalsOf(payment)).toEqual([
+        { kind: "dispute", creditAmount: 0, disputeStatus: "won" },
+      ]);
+      expect(await getCreditBalance(payment.userId, "test")).toBe(0);
+    });
+
+    it("takes the money back once a dispute is lost", async () => {
+      const payment = await seedPayment("top_up", 1000);
+      const disputeId = `dsp_${crypto.randomUUID()}`;
+      const lost = dispute(
+        "dispute.lost",
+        payment.providerPaymentId,
+        disputeId,
+        1000
+      );
+
+      await deliver(
+        dispute("dispute.opened", payment.providerPaymentId, disputeId, 1000)
+      );
+      await deliver(refund(payment.providerPaymentId, 300));
+      await deliver(lost);
+      expect((await deliver(lost)).body).toEqual({ message: "Event ignored" });
+
+      const disputes = (await reversalsOf(payment)).filter(
+        (r) => r.kind === "dispute"
+      );
+      expect(disputes).toEqual([
+        { kind: "dispute", creditAmount: -700, disputeStatus: "lost" },
+      ]);
+      expect(await getCreditBalance(payment.userId, "test")).toBe(-1000);
+    });
+
+    it("records a lost dispute it never saw opened", async () => {
+      const payment = await seedPayment("usage", 1000);
+
+      await deliver(
+        dispute(
+          "dispute.lost",
+          payment.providerPaymentId,
+          `dsp_${crypto.randomUUID()}`,
+          null
+        )
+      );
+
+      expect(await reversalsOf(payment)).toEqual([
+        { kind: "dispute", creditAmount: -1000, disputeStatus: "lost" },
+      ]);
+    });
+  });
+
+  describe("with ROLLBACK_BILLING_ON_REVERSAL", () => {
+    let handle: Deliver;
+
+    // The flag is read on import, so the handler is imported afresh
+    beforeAll(async () => {
+      vi.stubEnv("ROLLBACK_BILLING_ON_REVERSAL", "true");
+      vi.resetModules();
+      const { getPostgresDB } = await import("../storage/db/postgres/db");
+      getPostgresDB(process.env.DATABASE_URL);
+      ({ handlePaymentWebhook: handle } =
+        await import("../routes/http/createdCheckout"));
+      vi.unstubAllEnvs();
+    });
+
+    it("bills the period again once nothing is left of its payment", async () => {
+      const payment = await seedPayment("usage", 1000);
+
+      await deliver(refund(payment.providerPaymentId, 400), handle);
+      expect(await lastBilled(payment.userId)).toBe(billedUpto);
+
+      await deliver(refund(payment.providerPaymentId, 600), handle);
+      expect(await lastBilled(payment.userId)).toBe(periodStart);
+    });
+
+    it("keeps the period billed while a dispute is open", async () => {
+      const payment = await seedPayment("usage", 1000);
+      const disputeId = `dsp_${crypto.randomUUID()}`;
+
+      await deliver(
+        dispute("dispute.opened", payment.providerPaymentId, disputeId, 1000),
+        handle
+      );
+      expect(await lastBilled(payment.userId)).toBe(billedUpto);
+
+      await deliver(
+        dispute("dispute.lost", payment.providerPaymentId, disputeId, 1000),
+        handle
+      );
+      expect(await lastBilled(payment.userId)).toBe(periodStart);
+    });
+  });
+});
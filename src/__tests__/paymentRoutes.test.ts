@@ -0,0 +1,348 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  afterEach,
+  vi,
+} from "vitest";
+import { DateTime } from "luxon";
+import DodoPayments from "dodopayments";
+import { PaymentProviderFactory } from "../factory/PaymentProviderFactory";
+import type { DodoPaymentProvider } from "../payment/adapter/dodo/DodoPaymentProvider";
+import {
+  findPaymentByProviderId,
+  handleAddPayment,
+  recordPaymentRefund,
+} from "../storage/db/postgres/helpers/payments";
+import { handleAddSession } from "../storage/db/postgres/helpers/sessions";
+import { ensureUserExists } from "../storage/db/postgres/helpers/users";
+import { getCreditBalance } from "../storage/db/postgres/helpers/wallet";
+import { insertKey } from "./fixtures/apiKey";
+import { apiRequest, HTTP_ADDRESS } from "./fixtures/http";
+import { createWebhookSecret, dodoEvent, signedWebhook } from "./fixtures/dodo";
+import { clearDatabase } from "./db";
+
+const webhookSecret = createWebhookSecret();
+
+interface SeededCheckout {
+  userId: string;
+  checkoutSessionId: string;
+}
+
+function postWebhook(
+  path: string,
+  payload: Record<string, unknown>,
+  secret: string = webhookSecret
+) {
+  const { rawBody, headers } = signedWebhook(payload, secret);
+  return fetch(`${HTTP_ADDRESS}${path}`, {
+    method: "POST",
+    headers: { ...headers, "content-type": "application/json" },
+    body: rawBody,
+  });
+}
+
+function paymentSucceeded(checkout: SeededCheckout, paymentId: string) {
+  return dodoEvent("payment.succeeded", {
+    payment_id: paymentId,
+    checkout_session_id: checkout.checkoutSessionId,
+    total_amount: 2000,
+  });
+}
+
+describe("payment routes", () => {
+  let rawKey: string;
+  let apiKeyId: string;
+  let refunds: ReturnType<typeof vi.fn>;
+
+  // A pending top-up checkout, so a paid webhook credits the wallet
+  async function seedCheckout(): Promise<SeededCheckout> {
+    const userId = crypto.randomUUID();
+    const checkoutSessionId = `cks_${crypto.randomUUID()}`;
+    await ensureUserExists(userId);
+    await handleAddSession(
+      userId,
+      checkoutSessionId,
+      DateTime.utc(),
+      apiKeyId,
+      "test",
+      "https://example.com/checkout",
+      "top_up"
+    );
+    return { userId, checkoutSessionId };
+  }
+
+  async function seedPayment(
+    mode: "test" | "production" = "test"
+  ): Promise<string> {
+    const userId = crypto.randomUUID();
+    const providerPaymentId = `pay_${crypto.randomUUID()}`;
+    await ensureUserExists(userId);
+    const { id: proxyId } = await handleAddSession(
+      userId,
+      `cks_${crypto.randomUUID()}`,
+      DateTime.utc(),
+      apiKeyId,
+      mode,
+      "https://example.com/checkout",
+      "top_up"
+    );
+    await handleAddPayment(
+      userId,
+      1000,
+      apiKeyId,
+      mode,
+      proxyId,
+      providerPaymentId
+    );
+    return providerPaymentId;
+  }
+
+  beforeAll(async () => {
+    rawKey = `scrn_test_${crypto.randomUUID().replace(/-/g, "").slice(0, 32)}`;
+    apiKeyId = await insertKey(rawKey, "test");
+  });
+
+  // The configured Dodo provider verifies with the test secret and sends
+  // refunds to a mocked client
+  function mockDodo() {
+    const provider = PaymentProviderFactory.getPaymentProvider(
+      "dodo"
+    ) as DodoPaymentProvider;
+    const client = new DodoPayments({
+      bearerToken: "test_dodo_key",
+      environment: "test_mode",
+      webhookKey: webhookSecret,
+    });
+    refunds = vi.fn().mockResolvedValue({ refund_id: "ref_1" });
+    vi.spyOn(client.refunds, "create").mockImplementation(refunds as never);
+    vi.spyOn(provider, "getClient").mockResolvedValue(client);
+    vi.spyOn(provider, "getCheckoutConfig").mockResolvedValue({
+      productId: "prod_test",
+      returnUrl: null,
+      currency: "usd",
+    });
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await clearDatabase();
+  });
+
+  describe("webhooks", () => {
+    it("routes a provider's webhook to that provider", async () => {
+      mockDodo();
+      const checkout = await seedCheckout();
+
+      const res = await postWebhook(
+        "/webhooks/payment/dodo?mode=test",
+        paymentSucceeded(checkout, "pay_routed")
+      );
+
+      expect(res.status).toBe(200);
+      expect(await findPaymentByProviderId("pay_routed")).toMatchObject({
+        userId: checkout.userId,
+        creditAmount: 2000,
+      });
+      expect(await getCreditBalance(checkout.userId, "test")).toBe(2000);
+    });
+
+    it("routes the legacy webhook path to the configured provider", async () => {
+      mockDodo();
+      const checkout = await seedCheckout();
+
+      const res = await postWebhook(
+        "/webhooks/payment/createdCheckout?mode=test",
+        paymentSucceeded(checkout, "pay_legacy")
+      );
+
+      expect(res.status).toBe(200);
+      expect(await findPaymentByProviderId("pay_legacy")).toBeDefined();
+    });
+
+    it("refuses a webhook signed with another secret", async () => {
+      mockDodo();
+      const checkout = await seedCheckout();
+
+      const res = await postWebhook(
+        "/webhooks/payment/dodo?mode=test",
+        paymentSucceeded(checkout, "pay_forged"),
+        createWebhookSecret()
+      );
+
+      expect(res.status).toBe(401);
+      expect(await findPaymentByProviderId("pay_forged")).toBeUndefined();
+    });
+
+    it("answers 404 for an unknown provider", async () => {
+      const res = await postWebhook(
+        "/webhooks/payment/stripe?mode=test",
+        dodoEvent("payment.succeeded", {})
+      );
+
+      expect(res.status).toBe(404);
+    });
+
+    it("requires the mode of the webhook", async () => {
+      mockDodo();
+
+      const res = await postWebhook(
+        "/webhooks/payment/dodo",
+        dodoEvent("payment.succeeded", {})
+      );
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("refunds", () => {
+    it("asks the provider to refund a payment", async () => {
+      mockDodo();
+      const paymentId = await seedPayment();
+
+      const partial = await apiRequest(
+        "POST",
+        `/api/v1/payments/${paymentId}/refund`,
+        rawKey,
+        { amount: 400 }
+      );
+      const rest = await apiRequest(
+        "POST",
+        `/api/v1/payments/${paymentId}/refund`,
+        rawKey
+      );
+
+      expect(partial.status).toBe(200);
+      expect(partial.body).toEqual({ refundId: "ref_1", amount: 400 });
+      expect(rest.body).toEqual({ refundId: "ref_1", amount: 600 });
+      expect(refunds).toHaveBeenNthCalledWith(1, {
+        payment_id: paymentId,
+        items: [{ item_id: "prod_test", amount: 400 }],
+      });
+      expect(refunds).toHaveBeenNthCalledWith(2, { payment_id: paymentId });
+    });
+
+    it("refunds the same money once under concurrent requests", async () => {
+      mockDodo();
+      const paymentId = await seedPayment();
+      const request = () =>
+        apiRequest("POST", `/api/v1/payments/${paymentId}/refund`, rawKey);
+
+      const responses = await Promise.all([request(), request()]);
+
+      expect(responses.map((res) => res.status).sort()).toEqual([200, 409]);
+      expect(refunds).toHaveBeenCalledTimes(1);
+    });
+
+    it("confirms a requested refund once its webhook arrives", async () => {
+      mockDodo();
+      const paymentId = await seedPayment();
+      const payment = (await findPaymentByProviderId(paymentId))!;
+      refunds.mockResolvedValueOnce({ refund_id: "ref_confirmed" });
+
+      await apiRequest("POST", `/api/v1/payments/${paymentId}/refund`, rawKey, {
+        amount: 400,
+      });
+      const webhook = await postWebhook(
+        "/webhooks/payment/dodo?mode=test",
+        dodoEvent("refund.succeeded", {
+          payment_id: paymentId,
+          refund_id: "ref_confirmed",
+          amount: 400,
+          is_partial: true,
+        })
+      );
+      const rest = await apiRequest(
+        "POST",
+        `/api/v1/payments/${paymentId}/refund`,
+        rawKey
+      );
+
+      expect(webhook.status).toBe(200);
+      expect(await getCreditBalance(payment.userId, "test")).toBe(-400);
+      expect(rest.body).toMatchObject({ amount: 600 });
+    });
+
+    it("frees the held amount when the provider refuses", async () => {
+      mockDodo();
+      const paymentId = await seedPayment();
+      refunds.mockRejectedValueOnce(new Error("provider unavailable"));
+
+      const refused = await apiRequest(
+        "POST",
+        `/api/v1/payments/${paymentId}/refund`,
+        rawKey
+      );
+      const retried = await apiRequest(
+        "POST",
+        `/api/v1/payments/${paymentId}/refund`,
+        rawKey
+      );
+
+      expect(refused.status).toBe(500);
+      expect(retried.body).toEqual({ refundId: "ref_1", amount: 1000 });
+    });
+
+    it("refuses to refund more than is left of a payment", async () => {
+      mockDodo();
+      const paymentId = await seedPayment();
+      await recordPaymentRefund({
+        payment: (await findPaymentByProviderId(paymentId))!,
+        refundId: `ref_${crypto.randomUUID()}`,
+        amount: 700,
+      });
+
+      const res = await apiRequest(
+        "POST",
+        `/api/v1/payments/${paymentId}/refund`,
+        rawKey,
+        { amount: 400 }
+      );
+
+      expect(res.status).toBe(409);
+      expect(refunds).not.toHaveBeenCalled();
+    });
+
+    it("answers 404 for unknown payments and those of another mode", async () => {
+      mockDodo();
+      const production = await seedPayment("production");
+
+      const unknown = await apiRequest(
+        "POST",
+        `/api/v1/payments/pay_${crypto.randomUUID()}/refund`,
+        rawKey
+      );
+      const otherMode = await apiRequest(
+        "POST",
+        `/api/v1/payments/${production}/refund`,
+        rawKey
+      );
+
+      expect(unknown.status).toBe(404);
+      expect(otherMode.status).toBe(404);
+      expect(refunds).not.toHaveBeenCalled();
+    });
+
+    it("rejects invalid amounts", async () => {
+      const res = await apiRequest(
+        "POST",
+        `/api/v1/payments/pay_1/refund`,
+        rawKey,
+        { amount: -5 }
+      );
+
+      expect(res.status).toBe(400);
+    });
+
+    it("requires an API key", async () => {
+      expect(
+        (await apiRequest("POST", "/api/v1/payments/pay_1/refund", null)).status
+      ).toBe(401);
+    });
+  });
+});
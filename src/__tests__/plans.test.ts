@@ -0,0 +1,334 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { DateTime } from "luxon";
+import { and, eq, isNull } from "drizzle-orm";
+import type { AuthContext } from "../context/auth";
+import { getPostgresDB } from "../storage/db/postgres/db";
+import {
+  planAssignmentsTable,
+  usersTable,
+} from "../storage/db/postgres/schema";
+import {
+  assignPlan,
+  createPlan,
+  deletePlan,
+  findActivePlanAssignment,
+  findBillablePlanAssignments,
+  type Plan,
+} from "../storage/db/postgres/helpers/plans";
+import {
+  ensureUserExists,
+  updateUserBilledTimestamp,
+} from "../storage/db/postgres/helpers/users";
+import {
+  getCreditBalance,
+  setPrepaidBilling,
+} from "../storage/db/postgres/helpers/wallet";
+import { calculateSubscriptionFees } from "../services/subscriptionService";
+import { drawDuePlanFees } from "../services/walletService";
+import { insertKey } from "./fixtures/apiKey";
+import { apiRequest } from "./fixtures/http";
+import { clearDatabase } from "./db";
+
+async function seedPlan(overrides: Partial<Plan> = {}): Promise<Plan> {
+  const plan = await createPlan({
+    name: `plan-${crypto.randomUUID()}`,
+    amount: 2000,
+    interval: "month",
+    intervalCount: 1,
+    ...overrides,
+  });
+  return plan!;
+}
+
+async function activeAssignmentsOf(userId: string) {
+  return getPostgresDB()
+    .select({ planId: planAssignmentsTable.planId })
+    .from(planAssignmentsTable)
+    .where(
+      and(
+        eq(planAssignmentsTable.userId, userId),
+        isNull(planAssignmentsTable.endedAt)
+      )
+    );
+}
+
+describe("plans", () => {
+  let rawKey: string;
+  let auth: AuthContext;
+
+  beforeAll(async () => {
+    rawKey = `scrn_test_${crypto.randomUUID().replace(/-/g, "").slice(0, 32)}`;
+    const apiKeyId = await insertKey(rawKey, "test");
+    auth = { apiKeyId, role: "test", mode: "test" };
+  });
+
+  afterAll(async () => {
+    await clearDatabase();
+  });
+
+  describe("routes", () => {
+    it("creates, fetches, updates and deletes a plan", async () => {
+      const name = `pro-${crypto.randomUUID()}`;
+
+      const created = await apiRequest("POST", "/api/v1/plans", rawKey, {
+        name,
+        amount: 2000,
+        interval: "month",
+      });
+      expect(created.status).toBe(200);
+      expect(created.body.plan).toMatchObject({
+        name,
+        amount: 2000,
+        interval: "month",
+        intervalCount: 1,
+      });
+      const id = created.body.plan.id;
+
+      const fetched = await apiRequest("GET", `/api/v1/plans/${id}`, rawKey);
+      expect(fetched.status).toBe(200);
+      expect(fetched.body.plan.id).toBe(id);
+
+      const updated = await apiRequest("PUT", `/api/v1/plans/${id}`, rawKey, {
+        amount: 2500,
+      });
+      expect(updated.status).toBe(200);
+      expect(updated.body.plan).toMatchObject({ name, amount: 2500 });
+
+      const deleted = await apiRequest("DELETE", `/api/v1/plans/${id}`, rawKey);
+      expect(deleted.status).toBe(200);
+      expect(
+        (await apiRequest("GET", `/api/v1/plans/${id}`, rawKey)).status
+      ).toBe(404);
+      expect(
+        (await apiRequest("GET", "/api/v1/plans", rawKey)).body.plans
+      ).not.toContainEqual(expect.objectContaining({ id }));
+    });
+
+    it("keeps plan names unique", async () => {
+      const taken = await seedPlan();
+      const other = await seedPlan();
+
+      const duplicate = await apiRequest("POST", "/api/v1/plans", rawKey, {
+        name: taken.name,
+        amount: 100,
+        interval: "day",
+      });
+      const rename = await apiRequest(
+        "PUT",
+        `/api/v1/plans/${other.id}`,
+        rawKey,
+        { name: taken.name }
+      );
+
+      expect(duplicate.status).toBe(409);
+      expect(rename.status).toBe(409);
+    });
+
+    it("frees the name of a deleted plan", async () => {
+      const plan = await seedPlan();
+      await deletePlan(plan.id);
+
+      const reused = await apiRequest("POST", "/api/v1/plans", rawKey, {
+        name: plan.name,
+        amount: 100,
+        interval: "day",
+      });
+
+      expect(reused.status).toBe(200);
+    });
+
+    it("moves a user onto a plan and off it", async () => {
+      const plan = await seedPlan();
+      const userId = crypto.randomUUID();
+      const path = `/api/v1/users/${userId}/plan`;
+
+      expect(
+        (await apiRequest("GET", `${path}?mode=test`, rawKey)).body
+      ).toEqual({ assignment: null });
+
+      const assigned = await apiRequest("PUT", path, rawKey, {
+        planId: plan.id,
+        mode: "test",
+      });
+      expect(assigned.status).toBe(200);
+      expect(assigned.body.assignment).toMatchObject({
+        userId,
+        planId: plan.id,
+        mode: "test",
+        endedAt: null,
+      });
+
+      expect(
+        (await apiRequest("GET", `${path}?mode=test`, rawKey)).body.assignment
+      ).toMatchObject({ planId: plan.id });
+      expect(
+        (await apiRequest("GET", path, rawKey)).body.assignment
+      ).toBeNull();
+
+      const left = await apiRequest("DELETE", `${path}?mode=test`, rawKey);
+      expect(left.status).toBe(200);
+      expect(await findActivePlanAssignment(userId, "test")).toBeNull();
+      expect(
+        (await apiRequest("DELETE", `${path}?mode=test`, rawKey)).status
+      ).toBe(404);
+    });
+
+    it("answers 404 for a plan that does not exist", async () => {
+      const deleted = await seedPlan();
+      await deletePlan(deleted.id);
+
+      const unknown = await apiRequest(
+        "PUT",
+        `/api/v1/users/${crypto.randomUUID()}/plan`,
+        rawKey,
+        { planId: crypto.randomUUID() }
+      );
+      const gone = await apiRequest(
+        "PUT",
+        `/api/v1/users/${crypto.randomUUID()}/plan`,
+        rawKey,
+        { planId: deleted.id }
+      );
+
+      expect(unknown.status).toBe(404);
+      expect(gone.status).toBe(404);
+      expect(
+        (
+          await apiRequest("PUT", `/api/v1/plans/${deleted.id}`, rawKey, {
+            amount: 100,
+          })
+        ).status
+      ).toBe(404);
+    });
+
+    it("rejects invalid plans and empty updates", async () => {
+      const negative = await apiRequest("POST", "/api/v1/plans", rawKey, {
+        name: "negative",
+        amount: -1,
+        interval: "month",
+      });
+      const badInterval = await apiRequest("POST", "/api/v1/plans", rawKey, {
+        name: "fortnightly",
+        amount: 100,
+        interval: "fortnight",
+      });
+      const empty = await apiRequest(
+        "PUT",
+        `/api/v1/plans/${crypto.randomUUID()}`,
+        rawKey,
+        {}
+      );
+
+      expect(negative.status).toBe(400);
+      expect(badInterval.status).toBe(400);
+      expect(empty.status).toBe(400);
+    });
+
+    it("requires an API key", async () => {
+      expect((await apiRequest("GET", "/api/v1/plans", null)).status).toBe(401);
+    });
+  });
+
+  describe("assignments", () => {
+    it("keeps a user on one plan per mode when switched concurrently", async () => {
+      const [basic, pro] = await Promise.all([seedPlan(), seedPlan()]);
+      const userId = crypto.randomUUID();
+
+      const results = await Promise.all([
+        assignPlan(userId, "test", basic.id),
+        assignPlan(userId, "test", pro.id),
+        assignPlan(userId, "test", basic.id),
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual([
+        "assigned",
+        "assigned",
+        "assigned",
+      ]);
+      expect(await activeAssignmentsOf(userId)).toHaveLength(1);
+    });
+
+    it("keeps the assignment when the user is already on the plan", async () => {
+      const plan = await seedPlan();
+      const userId = crypto.randomUUID();
+
+      const first = await assignPlan(userId, "test", plan.id);
+      const again = await assignPlan(userId, "test", plan.id);
+
+      expect(again).toEqual(first);
+    });
+
+    it("takes users off a deleted plan", async () => {
+      const plan = await seedPlan();
+      const userId = crypto.randomUUID();
+      await assignPlan(userId, "test", plan.id);
+
+      await deletePlan(plan.id);
+
+      expect(await findActivePlanAssignment(userId, "test")).toBeNull();
+      expect(
+        await findBillablePlanAssignments(
+          userId,
+          "test",
+          DateTime.utc().minus({ days: 1 }).toISO()!
+        )
+      ).toEqual([expect.objectContaining({ planId: plan.id })]);
+    });
+
+    it("charges the intervals elapsed since the last billing", async () => {
+      const plan = await seedPlan({ amount: 2000 });
+      const userId = crypto.randomUUID();
+      await ensureUserExists(userId);
+      await updateUserBilledTimestamp(userId, "2026-01-01T00:00:00.000Z");
+      const { assignment } = (await assignPlan(userId, "test", plan.id)) as {
+        assignment: { id: string };
+      };
+      await getPostgresDB()
+        .update(planAssignmentsTable)
+        .set({ startedAt: "2026-01-16T12:00:00.000Z" })
+        .where(eq(planAssignmentsTable.id, assignment.id));
+
+      const fees = await calculateSubscriptionFees(
+        userId,
+        DateTime.fromISO("2026-03-15T00:00:00Z", { zone: "utc" }),
+        auth
+      );
+
+      expect(fees).toHaveLength(1);
+      expect(fees[0]).toMatchObject({ planId: plan.id, amount: 3000 });
+      expect(fees[0]!.intervals).toBeCloseTo(1.5, 5);
+    });
+
+    it("keeps charging the fees of a user who went prepaid", async () => {
+      const plan = await seedPlan({ amount: 100, interval: "day" });
+      const userId = crypto.randomUUID();
+      await ensureUserExists(userId);
+      await updateUserBilledTimestamp(userId, "2026-01-01T00:00:00.000Z");
+      const { assignment } = (await assignPlan(userId, "test", plan.id)) as {
+        assignment: { id: string };
+      };
+      await getPostgresDB()
+        .update(planAssignmentsTable)
+        .set({ startedAt: "2026-01-01T00:00:00.000Z" })
+        .where(eq(planAssignmentsTable.id, assignment.id));
+      await setPrepaidBilling(userId, true);
+      await getPostgresDB()
+        .update(usersTable)
+        .set({ prepaidSince: "2026-01-03T00:00:00.000Z" })
+        .where(eq(usersTable.id, userId));
+
+      const now = DateTime.fromISO("2026-01-05T12:00:00Z", { zone: "utc" });
+      await drawDuePlanFees(now);
+      await drawDuePlanFees(now);
+
+      // The checkout up to the switch charges the days before it
+      const checkedOut = await calculateSubscriptionFees(
+        userId,
+        DateTime.fromISO("2026-01-03T00:00:00Z", { zone: "utc" }),
+        auth
+      );
+      expect(checkedOut[0]).toMatchObject({ amount: 200 });
+      expect(await getCreditBalance(userId, "test")).toBe(-200);
+    });
+  });
+});
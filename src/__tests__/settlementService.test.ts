@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { DateTime } from "luxon";
+import { eq } from "drizzle-orm";
+import type { AuthContext } from "../context/auth";
+import type { SqlRecord } from "../interface/event/Event";
+import {
+  retryDueSettlements,
+  settleEvent,
+  settlementRetryDelay,
+  SETTLEMENT_RETRY_DELAYS_MS,
+} from "../services/settlementService";
+import { storeEvent } from "../utils/eventHelpers";
+import { getPostgresDB } from "../storage/db/postgres/db";
+import { eventSettlementsTable } from "../storage/db/postgres/schema";
+import { createEventSettlement } from "../storage/db/postgres/helpers/settlements";
+import {
+  createSpendingLimit,
+  findSpendingLimit,
+  startSpendingPeriod,
+} from "../storage/db/postgres/helpers/spendingLimits";
+import {
+  getCreditBalance,
+  setPrepaidBilling,
+} from "../storage/db/postgres/helpers/wallet";
+import { prepaidSinceCache } from "../utils/walletCache";
+import { insertKey } from "./fixtures/apiKey";
+import { basicUsageEvent, basicUsageRecord } from "./fixtures/events";
+import { clearDatabase } from "./db";
+
+async function settlementOf(record: SqlRecord) {
+  const [row] = await getPostgresDB()
+    .select()
+    .from(eventSettlementsTable)
+    .where(eq(eventSettlementsTable.idempotencyKey, record.idempotencyKey));
+  return row;
+}
+
+describe("event settlement", () => {
+  let auth: AuthContext;
+
+  async function prepaidUser(): Promise<string> {
+    const userId = crypto.randomUUID();
+    await setPrepaidBilling(userId, true);
+    prepaidSinceCache.delete(userId);
+    return userId;
+  }
+
+  // The settlement an event gets on ingestion, as left by a restart
+  // before it ran
+  async function pendingSettlement(
+    record: SqlRecord,
+    limits: { id: string; periodStart: string }[] = []
+  ) {
+    const settlement = await createEventSettlement({
+      record,
+      apiKeyId: auth.apiKeyId,
+      mode: "test",
+      latePeriodStart: null,
+      limits,
+      nextAttemptAt: DateTime.utc(),
+    });
+    return settlement!;
+  }
+
+  beforeAll(async () => {
+    const apiKeyId = await insertKey(
+      `scrn_test_${crypto.randomUUID().replace(/-/g, "").slice(0, 32)}`,
+      "test"
+    );
+    auth = { apiKeyId, role: "test", mode: "test" };
+  });
+
+  afterAll(async () => {
+    prepaidSinceCache.clear();
+    await clearDatabase();
+  });
+
+  it("settles an event when it is stored", async () => {
+    const userId = await prepaidUser();
+    const event = basicUsageEvent({
+      userId,
+      debitAmount: 250,
+      reportedAt: DateTime.utc().plus({ seconds: 1 }),
+    });
+
+    await storeEvent(event, auth);
+
+    expect(await getCreditBalance(userId, "test")).toBe(-250);
+    expect(await settlementOf(event.serialize().SQL)).toMatchObject({
+      completedSteps: [
+        "credit_draw_down",
+        "period_total",
+        "spend",
+        "usage_thresholds",
+      ],
+      nextAttemptAt: null,
+    });
+  });
+
+  it("resumes a settlement a restart interrupted", async () => {
+    const userId = await prepaidUser();
+    const record = basicUsageRecord({
+      userId,
+      debitAmount: 300,
+      reportedAt: DateTime.utc().plus({ seconds: 1 }),
+    });
+    await pendingSettlement(record);
+
+    await retryDueSettlements(DateTime.utc().plus({ seconds: 1 }));
+
+    expect(await getCreditBalance(userId, "test")).toBe(-300);
+    expect((await settlementOf(record))!.completedAt).not.toBeNull();
+  });
+
+  it("settles an event key once", async () => {
+    const record = basicUsageRecord({
+      userId: crypto.randomUUID(),
+      debitAmount: 100,
+    });
+
+    await pendingSettlement(record);
+
+    expect(
+      await createEventSettlement({
+        record: { ...record, eventId: crypto.randomUUID() },
+        apiKeyId: auth.apiKeyId,
+        mode: "test",
+        latePeriodStart: null,
+        limits: [],
+        nextAttemptAt: DateTime.utc(),
+      })
+    ).toBeNull();
+  });
+
+  it("adds spend once however often a settlement is retried", async () => {
+    const userId = crypto.randomUUID();
+    const created = await createSpendingLimit({
+      userId,
+      mode: "test",
+      amount: 10_000,
+      enforcement: "hard",
+    });
+    if (created.status !== "created") throw new Error(created.status);
+    const periodStart = DateTime.utc().minus({ days: 1 }).toISO()!;
+    await startSpendingPeriod(created.limit.id, periodStart, 0);
+
+    const settlement = await pendingSettlement(
+      basicUsageRecord({ userId, debitAmount: 400 }),
+      [{ id: created.limit.id, periodStart }]
+    );
+    // Both runs see the steps as they were before either finished
+    await settleEvent(settlement);
+    await settleEvent(settlement);
+
+    expect((await findSpendingLimit(created.limit.id))!.spent).toBe(400);
+  });
+
+  it("stops retrying after the last delay", () => {
+    expect(settlementRetryDelay(1)).toBe(SETTLEMENT_RETRY_DELAYS_MS[0]);
+    expect(
+      settlementRetryDelay(SETTLEMENT_RETRY_DELAYS_MS.length + 1)
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { DateTime } from "luxon";
+import { currentPeriodStart } from "../services/spendingLimitService";
+import type { ApplicableSpendingLimit } from "../storage/db/postgres/helpers/spendingLimits";
+
+const baseLimit: ApplicableSpendingLimit = {
+  id: "0b7c2d4e-5f60-4718-9a2b-3c4d5e6f7a8b",
+  userId: null,
+  apiKeyId: null,
+  mode: "production",
+  amount: 5000,
+  enforcement: "hard",
+  periodStart: null,
+  spent: 0,
+  reachedAt: null,
+  createdAt: "2026-01-01 00:00:00+00",
+  updatedAt: "2026-01-01 00:00:00+00",
+  lastBilledTimestamp: null,
+};
+
+const now = DateTime.fromISO("2026-03-17T15:42:10Z", { zone: "utc" });
+
+describe("currentPeriodStart", () => {
+  it("starts a user limit's period at the user's last billing", () => {
+    const start = currentPeriodStart(
+      {
+        ...baseLimit,
+        userId: "5f0e4c1a-3b7d-4e8f-9a21-6c4d2b1e0f37",
+        lastBilledTimestamp: "2026-03-02 09:30:00+00",
+      },
+      now
+    );
+    expect(start.toISO()).toBe("2026-03-02T09:30:00.000Z");
+  });
+
+  it("runs API key limits per UTC calendar month", () => {
+    const start = currentPeriodStart(
+      { ...baseLimit, apiKeyId: "d4e5f607-1829-4a3b-8c4d-5e6f7a8b9c0d" },
+      now
+    );
+    expect(start.toISO()).toBe("2026-03-01T00:00:00.000Z");
+  });
+});
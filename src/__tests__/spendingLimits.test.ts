@@ -0,0 +1,331 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { DateTime } from "luxon";
+import type { AuthContext } from "../context/auth";
+import { storeEvent } from "../utils/eventHelpers";
+import {
+  addSpend,
+  createSpendingLimit,
+  findSpendingLimit,
+  startSpendingPeriod,
+  type CreateSpendingLimitInput,
+} from "../storage/db/postgres/helpers/spendingLimits";
+import { ensureUserExists } from "../storage/db/postgres/helpers/users";
+import { insertKey } from "./fixtures/apiKey";
+import { apiRequest } from "./fixtures/http";
+import { basicUsageEvent } from "./fixtures/events";
+import { clearDatabase } from "./db";
+
+function newRawKey(): string {
+  return `scrn_test_${crypto.randomUUID().replace(/-/g, "").slice(0, 32)}`;
+}
+
+async function seedLimit(input: CreateSpendingLimitInput): Promise<string> {
+  const result = await createSpendingLimit(input);
+  if (result.status !== "created") {
+    throw new Error(`Could not seed spending limit: ${result.status}`);
+  }
+  return result.limit.id;
+}
+
+describe("spending limits", () => {
+  let rawKey: string;
+  let apiKeyId: string;
+
+  // Each enforcement test ingests through its own key, so API key limits
+  // from one test do not reach into another
+  async function ingestingKey(): Promise<AuthContext> {
+    const id = await insertKey(newRawKey(), "test");
+    return { apiKeyId: id, role: "test", mode: "test" };
+  }
+
+  beforeAll(async () => {
+    rawKey = newRawKey();
+    apiKeyId = await insertKey(rawKey, "test");
+  });
+
+  afterAll(async () => {
+    await clearDatabase();
+  });
+
+  describe("routes", () => {
+    it("creates, fetches, updates and deletes a user limit", async () => {
+      const userId = crypto.randomUUID();
+
+      const created = await apiRequest(
+        "POST",
+        "/api/v1/spending-limits",
+        rawKey,
+        { userId, mode: "test", amount: 5000 }
+      );
+      expect(created.status).toBe(200);
+      expect(created.body.spendingLimit).toMatchObject({
+        userId,
+        apiKeyId: null,
+        mode: "test",
+        amount: 5000,
+        enforcement: "hard",
+        spent: 0,
+      });
+      const id = created.body.spendingLimit.id;
+
+      const fetched = await apiRequest(
+        "GET",
+        `/api/v1/spending-limits/${id}`,
+        rawKey
+      );
+      expect(fetched.status).toBe(200);
+      expect(fetched.body.spendingLimit.id).toBe(id);
+
+      const updated = await apiRequest(
+        "PUT",
+        `/api/v1/spending-limits/${id}`,
+        rawKey,
+        { amount: 7500, enforcement: "soft" }
+      );
+      expect(updated.status).toBe(200);
+      expect(updated.body.spendingLimit).toMatchObject({
+        amount: 7500,
+        enforcement: "soft",
+      });
+
+      const deleted = await apiRequest(
+        "DELETE",
+        `/api/v1/spending-limits/${id}`,
+        rawKey
+      );
+      expect(deleted.status).toBe(200);
+      expect(
+        (await apiRequest("GET", `/api/v1/spending-limits/${id}`, rawKey))
+          .status
+      ).toBe(404);
+    });
+
+    it("allows one limit per user and mode", async () => {
+      const userId = crypto.randomUUID();
+      const body = { userId, mode: "test", amount: 1000 };
+
+      await apiRequest("POST", "/api/v1/spending-limits", rawKey, body);
+      const again = await apiRequest(
+        "POST",
+        "/api/v1/spending-limits",
+        rawKey,
+        body
+      );
+      const otherMode = await apiRequest(
+        "POST",
+        "/api/v1/spending-limits",
+        rawKey,
+        { ...body, mode: "production" }
+      );
+
+      expect(again.status).toBe(409);
+      expect(otherMode.status).toBe(200);
+    });
+
+    it("limits an API key that ingests events", async () => {
+      const created = await apiRequest(
+        "POST",
+        "/api/v1/spending-limits",
+        rawKey,
+        { apiKeyId, amount: 1000, enforcement: "soft" }
+      );
+      expect(created.status).toBe(200);
+      expect(created.body.spendingLimit).toMatchObject({
+        userId: null,
+        apiKeyId,
+      });
+
+      const dashboardKeyId = await insertKey(newRawKey(), "dashboard");
+      const unknown = await apiRequest(
+        "POST",
+        "/api/v1/spending-limits",
+        rawKey,
+        { apiKeyId: crypto.randomUUID(), amount: 1000 }
+      );
+      const dashboard = await apiRequest(
+        "POST",
+        "/api/v1/spending-limits",
+        rawKey,
+        { apiKeyId: dashboardKeyId, amount: 1000 }
+      );
+      expect(unknown.status).toBe(404);
+      expect(dashboard.status).toBe(404);
+    });
+
+    it("lists limits by user", async () => {
+      const userId = crypto.randomUUID();
+      await apiRequest("POST", "/api/v1/spending-limits", rawKey, {
+        userId,
+        mode: "test",
+        amount: 1000,
+      });
+
+      const res = await apiRequest(
+        "GET",
+        `/api/v1/spending-limits?userId=${userId}`,
+        rawKey
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.body.spendingLimits).toEqual([
+        expect.objectContaining({ userId, amount: 1000 }),
+      ]);
+    });
+
+    it("rejects invalid amounts and empty updates", async () => {
+      const userId = crypto.randomUUID();
+      const fractional = await apiRequest(
+        "POST",
+        "/api/v1/spending-limits",
+        rawKey,
+        { userId, amount: 10.5 }
+      );
+      const negative = await apiRequest(
+        "POST",
+        "/api/v1/spending-limits",
+        rawKey,
+        { userId, amount: -100 }
+      );
+      const empty = await apiRequest(
+        "PUT",
+        `/api/v1/spending-limits/${crypto.randomUUID()}`,
+        rawKey,
+        {}
+      );
+
+      expect(fractional.status).toBe(400);
+      expect(negative.status).toBe(400);
+      expect(empty.status).toBe(400);
+    });
+
+    it("answers 404 for an unknown limit", async () => {
+      const id = crypto.randomUUID();
+      expect(
+        (await apiRequest("GET", `/api/v1/spending-limits/${id}`, rawKey))
+          .status
+      ).toBe(404);
+      expect(
+        (
+          await apiRequest("PUT", `/api/v1/spending-limits/${id}`, rawKey, {
+            amount: 100,
+          })
+        ).status
+      ).toBe(404);
+      expect(
+        (await apiRequest("DELETE", `/api/v1/spending-limits/${id}`, rawKey))
+          .status
+      ).toBe(404);
+    });
+
+    it("requires an API key", async () => {
+      expect(
+        (await apiRequest("GET", "/api/v1/spending-limits", null)).status
+      ).toBe(401);
+    });
+  });
+
+  describe("enforcement", () => {
+    it("rejects events once a hard API key limit is reached", async () => {
+      const auth = await ingestingKey();
+      const limitId = await seedLimit({
+        apiKeyId: auth.apiKeyId,
+        amount: 250,
+        enforcement: "hard",
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await storeEvent(
+          basicUsageEvent({ userId: crypto.randomUUID(), debitAmount: 100 }),
+          auth
+        );
+      }
+
+      await expect(
+        storeEvent(
+          basicUsageEvent({ userId: crypto.randomUUID(), debitAmount: 100 }),
+          auth
+        )
+      ).rejects.toMatchObject({ type: "QUOTA_EXCEEDED" });
+
+      const limit = await findSpendingLimit(limitId);
+      expect(limit).toMatchObject({ spent: 300 });
+      expect(limit?.reachedAt).not.toBeNull();
+      expect(
+        DateTime.fromSQL(limit!.periodStart!, { zone: "utc" }).toISO()
+      ).toBe(DateTime.utc().startOf("month").toISO());
+    });
+
+    it("keeps accepting events past a soft limit", async () => {
+      const auth = await ingestingKey();
+      const limitId = await seedLimit({
+        apiKeyId: auth.apiKeyId,
+        amount: 150,
+        enforcement: "soft",
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await storeEvent(
+          basicUsageEvent({ userId: crypto.randomUUID(), debitAmount: 100 }),
+          auth
+        );
+      }
+
+      const limit = await findSpendingLimit(limitId);
+      expect(limit).toMatchObject({ spent: 300 });
+      expect(limit?.reachedAt).not.toBeNull();
+    });
+
+    it("seeds a user limit with the debits already unbilled", async () => {
+      const auth = await ingestingKey();
+      const userId = crypto.randomUUID();
+      await ensureUserExists(userId);
+      await storeEvent(basicUsageEvent({ userId, debitAmount: 100 }), auth);
+      await storeEvent(basicUsageEvent({ userId, debitAmount: 100 }), auth);
+
+      await seedLimit({
+        userId,
+        mode: "test",
+        amount: 150,
+        enforcement: "hard",
+      });
+
+      await expect(
+        storeEvent(basicUsageEvent({ userId, debitAmount: 100 }), auth)
+      ).rejects.toMatchObject({ type: "QUOTA_EXCEEDED" });
+    });
+
+    it("reaches a limit once under concurrent spend", async () => {
+      const limitId = await seedLimit({
+        apiKeyId: (await ingestingKey()).apiKeyId,
+        amount: 500,
+        enforcement: "hard",
+      });
+      const periodStart = DateTime.utc().startOf("month").toISO()!;
+      await startSpendingPeriod(limitId, periodStart, 0);
+
+      const results = await Promise.all(
+        Array.from({ length: 10 }, () => addSpend(limitId, periodStart, 100))
+      );
+
+      expect(results.filter((result) => result?.reached)).toHaveLength(1);
+      expect((await findSpendingLimit(limitId))?.spent).toBe(1000);
+    });
+
+    it("ignores spend for a period the limit has left", async () => {
+      const limitId = await seedLimit({
+        apiKeyId: (await ingestingKey()).apiKeyId,
+        amount: 500,
+        enforcement: "hard",
+      });
+      const periodStart = DateTime.utc().startOf("month");
+      await startSpendingPeriod(limitId, periodStart.toISO()!, 0);
+
+      expect(
+        await addSpend(limitId, periodStart.minus({ months: 1 }).toISO()!, 100)
+      ).toBeNull();
+      expect(await startSpendingPeriod(limitId, periodStart.toISO()!, 0)).toBe(
+        false
+      );
+    });
+  });
+});
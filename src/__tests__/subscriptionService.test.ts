@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { DateTime } from "luxon";
+import { subscriptionFeeLines } from "../services/subscriptionService";
+import type { BillablePlanAssignment } from "../storage/db/postgres/helpers/plans";
+
+const baseAssignment: BillablePlanAssignment = {
+  id: "2b3c4d5e-6f70-4812-9a3b-4c5d6e7f8a9b",
+  userId: "5f0e4c1a-3b7d-4e8f-9a21-6c4d2b1e0f37",
+  planId: "1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f",
+  mode: "production",
+  startedAt: "2026-01-01 00:00:00+00",
+  endedAt: null,
+  planName: "Pro",
+  amount: 2000,
+  interval: "month",
+  intervalCount: 1,
+};
+
+function utc(iso: string): DateTime {
+  return DateTime.fromISO(iso, { zone: "utc" });
+}
+
+describe("subscriptionFeeLines", () => {
+  it("charges each interval that elapsed in the period", () => {
+    expect(
+      subscriptionFeeLines(
+        [baseAssignment],
+        utc("2026-01-01T00:00:00Z"),
+        utc("2026-04-20T00:00:00Z")
+      )
+    ).toEqual([
+      {
+        planId: baseAssignment.planId,
+        planName: "Pro",
+        intervals: 3,
+        amount: 6000,
+      },
+    ]);
+  });
+
+  it("leaves out intervals billed in an earlier period", () => {
+    expect(
+      subscriptionFeeLines(
+        [baseAssignment],
+        utc("2026-03-15T00:00:00Z"),
+        utc("2026-04-20T00:00:00Z")
+      )
+    ).toEqual([
+      {
+        planId: baseAssignment.planId,
+        planName: "Pro",
+        intervals: 1,
+        amount: 2000,
+      },
+    ]);
+  });
+
+  it("prorates the started interval of a plan left mid-interval", () => {
+    const [line] = subscriptionFeeLines(
+      [{ ...baseAssignment, endedAt: "2026-02-15 00:00:00+00" }],
+      utc("2026-01-01T00:00:00Z"),
+      utc("2026-03-01T00:00:00Z")
+    );
+    expect(line?.intervals).toBe(1.5);
+    expect(line?.amount).toBe(3000);
+  });
+
+  it("prorates the first interval of a plan started mid-interval", () => {
+    const [line] = subscriptionFeeLines(
+      [{ ...baseAssignment, startedAt: "2026-02-15 00:00:00+00" }],
+      utc("2026-02-01T00:00:00Z"),
+      utc("2026-04-10T00:00:00Z")
+    );
+    expect(line?.intervals).toBe(1.5);
+    expect(line?.amount).toBe(3000);
+  });
+
+  it("charges a plan started and left in one interval for its time", () => {
+    const [line] = subscriptionFeeLines(
+      [
+        {
+          ...baseAssignment,
+          interval: "week",
+          startedAt: "2026-01-06 00:00:00+00",
+          endedAt: "2026-01-08 12:00:00+00",
+        },
+      ],
+      utc("2026-01-01T00:00:00Z"),
+      utc("2026-01-10T00:00:00Z")
+    );
+    expect(line?.intervals).toBeCloseTo(2.5 / 7);
+  });
+
+  it("runs multi-month intervals on calendar quarters", () => {
+    const [line] = subscriptionFeeLines(
+      [
+        {
+          ...baseAssignment,
+          intervalCount: 3,
+          startedAt: "2026-02-01 00:00:00+00",
+        },
+      ],
+      utc("2026-01-01T00:00:00Z"),
+      utc("2026-07-01T00:00:00Z")
+    );
+    // February and March of the first quarter, then April to June
+    expect(line?.intervals).toBeCloseTo(59 / 90 + 1);
+  });
+
+  it("charges nothing before the first interval elapses", () => {
+    expect(
+      subscriptionFeeLines(
+        [baseAssignment],
+        utc("2026-01-01T00:00:00Z"),
+        utc("2026-01-20T00:00:00Z")
+      )
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { usageThresholdAmount } from "../services/usageThresholdService";
+import type { PendingUsageThreshold } from "../storage/db/postgres/helpers/usageThresholds";
+
+const baseThreshold: PendingUsageThreshold = {
+  id: "7a1e3c5b-2d4f-4a6b-8c9d-0e1f2a3b4c5d",
+  userId: null,
+  mode: "production",
+  kind: "amount",
+  value: 5000,
+  createdAt: "2026-01-01 00:00:00+00",
+  updatedAt: "2026-01-01 00:00:00+00",
+  limitAmount: null,
+};
+
+describe("usageThresholdAmount", () => {
+  it("crosses amount thresholds at their value in cents", () => {
+    expect(usageThresholdAmount(baseThreshold)).toBe(5000);
+  });
+
+  it("takes limit_percent thresholds of the user's spending limit", () => {
+    expect(
+      usageThresholdAmount({
+        ...baseThreshold,
+        kind: "limit_percent",
+        value: 80,
+        limitAmount: 12500,
+      })
+    ).toBe(10000);
+  });
+
+  it("never crosses limit_percent thresholds without a spending limit", () => {
+    expect(
+      usageThresholdAmount({
+        ...baseThreshold,
+        kind: "limit_percent",
+        value: 80,
+      })
+    ).toBeNull();
+  });
+});
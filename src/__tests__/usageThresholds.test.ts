@@ -0,0 +1,339 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { DateTime } from "luxon";
+import { eq } from "drizzle-orm";
+import type { AuthContext } from "../context/auth";
+import { storeEvent } from "../utils/eventHelpers";
+import { getPostgresDB } from "../storage/db/postgres/db";
+import { usageThresholdCrossingsTable } from "../storage/db/postgres/schema";
+import {
+  clearUsageThresholdCrossings,
+  createUsageThreshold,
+  findPendingUsageThresholds,
+  recordUsageThresholdCrossing,
+  updateUsageThreshold,
+  type CreateUsageThresholdInput,
+} from "../storage/db/postgres/helpers/usageThresholds";
+import { createSpendingLimit } from "../storage/db/postgres/helpers/spendingLimits";
+import {
+  ensureUserExists,
+  updateUserBilledTimestamp,
+} from "../storage/db/postgres/helpers/users";
+import { calculateUnbilledDebits } from "../services/pricingService";
+import { insertKey } from "./fixtures/apiKey";
+import { apiRequest } from "./fixtures/http";
+import { basicUsageEvent } from "./fixtures/events";
+import { clearDatabase } from "./db";
+
+vi.mock("../services/pricingService", async (importOriginal) => {
+  const original =
+    await importOriginal<typeof import("../services/pricingService")>();
+  return {
+    ...original,
+    calculateUnbilledDebits: vi.fn(original.calculateUnbilledDebits),
+  };
+});
+
+const periodStart = "2026-02-01T00:00:00.000Z";
+
+async function crossingsOf(userId: string) {
+  return getPostgresDB()
+    .select({
+      thresholdId: usageThresholdCrossingsTable.thresholdId,
+      periodTotal: usageThresholdCrossingsTable.periodTotal,
+    })
+    .from(usageThresholdCrossingsTable)
+    .where(eq(usageThresholdCrossingsTable.userId, userId));
+}
+
+describe("usage thresholds", () => {
+  let rawKey: string;
+  let auth: AuthContext;
+
+  async function billedUser(): Promise<string> {
+    const userId = crypto.randomUUID();
+    await ensureUserExists(userId);
+    await updateUserBilledTimestamp(userId, periodStart);
+    return userId;
+  }
+
+  async function seedThreshold(
+    input: Partial<CreateUsageThresholdInput> & { userId: string }
+  ): Promise<string> {
+    const threshold = await createUsageThreshold({
+      mode: "test",
+      kind: "amount",
+      value: 150,
+      ...input,
+    });
+    return threshold.id;
+  }
+
+  beforeAll(async () => {
+    rawKey = `scrn_test_${crypto.randomUUID().replace(/-/g, "").slice(0, 32)}`;
+    const apiKeyId = await insertKey(rawKey, "test");
+    auth = { apiKeyId, role: "test", mode: "test" };
+  });
+
+  afterAll(async () => {
+    await clearDatabase();
+  });
+
+  describe("routes", () => {
+    it("creates, fetches, updates and deletes a threshold", async () => {
+      const userId = crypto.randomUUID();
+
+      const created = await apiRequest(
+        "POST",
+        "/api/v1/usage-thresholds",
+        rawKey,
+        { userId, mode: "test", kind: "amount", value: 5000 }
+      );
+      expect(created.status).toBe(200);
+      expect(created.body.usageThreshold).toMatchObject({
+        userId,
+        mode: "test",
+        kind: "amount",
+        value: 5000,
+      });
+      const id = created.body.usageThreshold.id;
+
+      const fetched = await apiRequest(
+        "GET",
+        `/api/v1/usage-thresholds/${id}`,
+        rawKey
+      );
+      expect(fetched.status).toBe(200);
+      expect(fetched.body.usageThreshold.id).toBe(id);
+
+      const updated = await apiRequest(
+        "PUT",
+        `/api/v1/usage-thresholds/${id}`,
+        rawKey,
+        { kind: "limit_percent", value: 80 }
+      );
+      expect(updated.status).toBe(200);
+      expect(updated.body.usageThreshold).toMatchObject({
+        kind: "limit_percent",
+        value: 80,
+      });
+
+      const deleted = await apiRequest(
+        "DELETE",
+        `/api/v1/usage-thresholds/${id}`,
+        rawKey
+      );
+      expect(deleted.status).toBe(200);
+      expect(
+        (await apiRequest("GET", `/api/v1/usage-thresholds/${id}`, rawKey))
+          .status
+      ).toBe(404);
+    });
+
+    it("creates a threshold on every user in a mode", async () => {
+      const created = await apiRequest(
+        "POST",
+        "/api/v1/usage-thresholds",
+        rawKey,
+        { kind: "amount", value: 10000 }
+      );
+
+      expect(created.status).toBe(200);
+      expect(created.body.usageThreshold).toMatchObject({
+        userId: null,
+        mode: "production",
+      });
+    });
+
+    it("lists thresholds by user", async () => {
+      const userId = crypto.randomUUID();
+      await apiRequest("POST", "/api/v1/usage-thresholds", rawKey, {
+        userId,
+        mode: "test",
+        kind: "amount",
+        value: 2500,
+      });
+
+      const res = await apiRequest(
+        "GET",
+        `/api/v1/usage-thresholds?userId=${userId}`,
+        rawKey
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.body.usageThresholds).toEqual([
+        expect.objectContaining({ userId, value: 2500 }),
+      ]);
+    });
+
+    it("rejects invalid thresholds and empty updates", async () => {
+      const zero = await apiRequest(
+        "POST",
+        "/api/v1/usage-thresholds",
+        rawKey,
+        { kind: "amount", value: 0 }
+      );
+      const unknownKind = await apiRequest(
+        "POST",
+        "/api/v1/usage-thresholds",
+        rawKey,
+        { kind: "ratio", value: 10 }
+      );
+      const empty = await apiRequest(
+        "PUT",
+        `/api/v1/usage-thresholds/${crypto.randomUUID()}`,
+        rawKey,
+        {}
+      );
+
+      expect(zero.status).toBe(400);
+      expect(unknownKind.status).toBe(400);
+      expect(empty.status).toBe(400);
+    });
+
+    it("answers 404 for an unknown threshold", async () => {
+      const id = crypto.randomUUID();
+      expect(
+        (await apiRequest("GET", `/api/v1/usage-thresholds/${id}`, rawKey))
+          .status
+      ).toBe(404);
+      expect(
+        (
+          await apiRequest("PUT", `/api/v1/usage-thresholds/${id}`, rawKey, {
+            value: 100,
+          })
+        ).status
+      ).toBe(404);
+      expect(
+        (await apiRequest("DELETE", `/api/v1/usage-thresholds/${id}`, rawKey))
+          .status
+      ).toBe(404);
+    });
+
+    it("requires an API key", async () => {
+      expect(
+        (await apiRequest("GET", "/api/v1/usage-thresholds", null)).status
+      ).toBe(401);
+    });
+  });
+
+  describe("crossings", () => {
+    it("records a crossing once the period total gets there", async () => {
+      const userId = await billedUser();
+      const thresholdId = await seedThreshold({ userId });
+
+      await storeEvent(basicUsageEvent({ userId, debitAmount: 100 }), auth);
+      expect(await crossingsOf(userId)).toEqual([]);
+
+      await storeEvent(basicUsageEvent({ userId, debitAmount: 100 }), auth);
+      await storeEvent(basicUsageEvent({ userId, debitAmount: 100 }), auth);
+
+      expect(await crossingsOf(userId)).toEqual([
+        { thresholdId, periodTotal: 200 },
+      ]);
+      expect(
+        await findPendingUsageThresholds(userId, "test", periodStart)
+      ).toEqual([]);
+    });
+
+    it("compares thresholds against the running period total", async () => {
+      const userId = await billedUser();
+      const thresholdId = await seedThreshold({ userId, value: 1000 });
+
+      await storeEvent(basicUsageEvent({ userId, debitAmount: 400 }), auth);
+      vi.mocked(calculateUnbilledDebits).mockClear();
+      await storeEvent(basicUsageEvent({ userId, debitAmount: 400 }), auth);
+      await storeEvent(basicUsageEvent({ userId, debitAmount: 400 }), auth);
+
+      expect(calculateUnbilledDebits).not.toHaveBeenCalled();
+      expect(await crossingsOf(userId)).toEqual([
+        { thresholdId, periodTotal: 1200 },
+      ]);
+    });
+
+    it("takes limit_percent thresholds of the user's spending limit", async () => {
+      const userId = await billedUser();
+      const thresholdId = await seedThreshold({
+        userId,
+        kind: "limit_percent",
+        value: 50,
+      });
+
+      await storeEvent(basicUsageEvent({ userId, debitAmount: 300 }), auth);
+      expect(await crossingsOf(userId)).toEqual([]);
+
+      await createSpendingLimit({
+        userId,
+        mode: "test",
+        amount: 1000,
+        enforcement: "soft",
+      });
+      await storeEvent(basicUsageEvent({ userId, debitAmount: 300 }), auth);
+
+      expect(await crossingsOf(userId)).toEqual([
+        { thresholdId, periodTotal: 600 },
+      ]);
+    });
+
+    it("records a crossing once under concurrent events", async () => {
+      const userId = await billedUser();
+      const thresholdId = await seedThreshold({ userId });
+
+      const recorded = await Promise.all(
+        Array.from({ length: 5 }, (_, i) =>
+          recordUsageThresholdCrossing({
+            thresholdId,
+            userId,
+            periodStart,
+            periodTotal: 150 + i,
+          })
+        )
+      );
+
+      expect(recorded.filter(Boolean)).toHaveLength(1);
+      expect(await crossingsOf(userId)).toHaveLength(1);
+    });
+
+    it("lets a changed threshold fire again this period", async () => {
+      const userId = await billedUser();
+      const thresholdId = await seedThreshold({ userId });
+      await recordUsageThresholdCrossing({
+        thresholdId,
+        userId,
+        periodStart,
+        periodTotal: 150,
+      });
+
+      await updateUsageThreshold(thresholdId, { value: 300 });
+
+      expect(await crossingsOf(userId)).toEqual([]);
+      expect(
+        await findPendingUsageThresholds(userId, "test", periodStart)
+      ).toEqual([expect.objectContaining({ id: thresholdId, value: 300 })]);
+    });
+
+    it("clears only the crossings of billed periods", async () => {
+      const userId = await billedUser();
+      const thresholdId = await seedThreshold({ userId });
+      const nextPeriod = "2026-03-01T00:00:00.000Z";
+      for (const start of [periodStart, nextPeriod]) {
+        await recordUsageThresholdCrossing({
+          thresholdId,
+          userId,
+          periodStart: start,
+          periodTotal: 150,
+        });
+      }
+
+      await clearUsageThresholdCrossings(userId, nextPeriod);
+
+      const [remaining, ...rest] = await getPostgresDB()
+        .select({ periodStart: usageThresholdCrossingsTable.periodStart })
+        .from(usageThresholdCrossingsTable)
+        .where(eq(usageThresholdCrossingsTable.userId, userId));
+      expect(rest).toEqual([]);
+      expect(
+        DateTime.fromSQL(remaining!.periodStart, { zone: "utc" }).toISO()
+      ).toBe(nextPeriod);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { DateTime } from "luxon";
+import { drawDownCredit, eventDebitAmount } from "../services/walletService";
+import { prepaidSinceCache } from "../utils/walletCache";
+import { basicUsageRecord } from "./fixtures/events";
+
+const userId = "5f0e4c1a-3b7d-4e8f-9a21-6c4d2b1e0f37";
+
+describe("eventDebitAmount", () => {
+  it("uses the debit of a basic usage event", () => {
+    expect(
+      eventDebitAmount(
+        basicUsageRecord({
+          userId,
+          debitAmount: 250,
+          reportedAt: "2026-01-01T00:00:00Z",
+        })
+      )
+    ).toBe(250);
+  });
+
+  it("sums every priced component of an AI token usage event", () => {
+    expect(
+      eventDebitAmount({
+        type: "AI_TOKEN_USAGE",
+        reported_timestamp: DateTime.utc(),
+        data: {
+          model: "gpt-4o",
+          provider: "openai",
+          inputTokens: 10,
+          inputCacheTokens: 0,
+          outputTokens: 5,
+          outputCacheTokens: 0,
+          inputDebitAmount: 0.1,
+          inputCacheDebitAmount: 0.2,
+          outputDebitAmount: 0.000000001,
+          outputCacheDebitAmount: 0,
+        },
+        userId,
+        eventId: "c3d4e5f6-0718-492a-9b3c-4d5e6f7a8b9c",
+        idempotencyKey: "wallet-test-ai",
+      })
+    ).toBe(0.300000001);
+  });
+});
+
+describe("drawDownCredit", () => {
+  const auth = {
+    apiKeyId: "d4e5f607-1829-4a3b-8c4d-5e6f7a8b9c0d",
+    role: "production" as const,
+    mode: "production" as const,
+  };
+
+  afterEach(() => {
+    prepaidSinceCache.clear();
+  });
+
+  it("leaves post-paid users to checkout", async () => {
+    prepaidSinceCache.set(userId, null);
+    await expect(
+      drawDownCredit(
+        basicUsageRecord({
+          userId,
+          debitAmount: 250,
+          reportedAt: "2026-01-01T00:00:00Z",
+        }),
+        auth
+      )
+    ).resolves.toBeUndefined();
+  });
+
+  it("skips events reported before the user went prepaid", async () => {
+    prepaidSinceCache.set(userId, "2026-02-01 00:00:00+00");
+    await expect(
+      drawDownCredit(
+        basicUsageRecord({
+          userId,
+          debitAmount: 250,
+          reportedAt: "2026-01-31T23:59:59Z",
+        }),
+        auth
+      )
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { DateTime } from "luxon";
+import type { AuthContext } from "../context/auth";
+import { storeEvent } from "../utils/eventHelpers";
+import {
+  addLedgerEntry,
+  getCreditBalance,
+  setPrepaidBilling,
+} from "../storage/db/postgres/helpers/wallet";
+import { drawDownCredit } from "../services/walletService";
+import {
+  ensureUserExists,
+  updateUserBilledTimestamp,
+} from "../storage/db/postgres/helpers/users";
+import { insertKey } from "./fixtures/apiKey";
+import { apiRequest } from "./fixtures/http";
+import { basicUsageEvent } from "./fixtures/events";
+import { clearDatabase } from "./db";
+import type { SqlRecord } from "../interface/event/Event";
+
+describe("wallets", () => {
+  let rawKey: string;
+  let auth: AuthContext;
+
+  async function billedUser(): Promise<string> {
+    const userId = crypto.randomUUID();
+    await ensureUserExists(userId);
+    await updateUserBilledTimestamp(
+      userId,
+      DateTime.utc().minus({ days: 1 }).toISO()!
+    );
+    return userId;
+  }
+
+  function setBilling(userId: string, billing: "prepaid" | "postpaid") {
+    return apiRequest("PUT", `/api/v1/users/${userId}/billing-mode`, rawKey, {
+      billing,
+    });
+  }
+
+  beforeAll(async () => {
+    rawKey = `scrn_test_${crypto.randomUUID().replace(/-/g, "").slice(0, 32)}`;
+    const apiKeyId = await insertKey(rawKey, "test");
+    auth = { apiKeyId, role: "test", mode: "test" };
+  });
+
+  afterAll(async () => {
+    await clearDatabase();
+  });
+
+  describe("billing mode", () => {
+    it("keeps billing the usage from before a user went prepaid", async () => {
+      const userId = await billedUser();
+      await storeEvent(basicUsageEvent({ userId, debitAmount: 250 }), auth);
+      expect((await setBilling(userId, "prepaid")).status).toBe(200);
+
+      const back = await setBilling(userId, "postpaid");
+      expect(back.status).toBe(409);
+
+      const preview = await apiRequest(
+        "GET",
+        `/api/v1/users/${userId}/charge-preview`,
+        rawKey
+      );
+      expect(preview.body).toMatchObject({ total: 250, prepaid: true });
+
+      // The checkout for that usage is paid
+      await updateUserBilledTimestamp(userId, preview.body.periodEnd);
+
+      expect((await setBilling(userId, "postpaid")).status).toBe(200);
+      expect(
+        (
+          await apiRequest(
+            "GET",
+            `/api/v1/users/${userId}/charge-preview`,
+            rawKey
+          )
+        ).body
+      ).toMatchObject({ total: 0, prepaid: false });
+    });
+
+    it("keeps a user prepaid until their credit covers their usage", async () => {
+      const userId = await billedUser();
+      expect((await setBilling(userId, "prepaid")).status).toBe(200);
+      await storeEvent(basicUsageEvent({ userId, debitAmount: 400 }), auth);
+
+      expect((await setBilling(userId, "postpaid")).status).toBe(409);
+
+      await addLedgerEntry({
+        userId,
+        mode: "test",
+        kind: "top_up",
+        amount: 400,
+        reference: `pay_${crypto.randomUUID()}`,
+      });
+
+      expect((await setBilling(userId, "postpaid")).status).toBe(200);
+      expect(
+        (
+          await apiRequest(
+            "GET",
+            `/api/v1/users/${userId}/charge-preview`,
+            rawKey
+          )
+        ).body
+      ).toMatchObject({ total: 0, prepaid: false });
+    });
+  });
+
+  describe("credit", () => {
+    it("draws events of each kind sharing an idempotency key", async () => {
+      const userId = await billedUser();
+      await setPrepaidBilling(userId, true);
+      const idempotencyKey = crypto.randomUUID();
+      const common = {
+        reported_timestamp: DateTime.utc(),
+        userId,
+        eventId: crypto.randomUUID(),
+        idempotencyKey,
+      };
+      const basic: SqlRecord = {
+        ...common,
+        type: "BASIC_USAGE",
+        data: { basicUsageType: "RAW", debitAmount: 100 },
+      };
+      const ai: SqlRecord = {
+        ...common,
+        type: "AI_TOKEN_USAGE",
+        data: {
+          model: "gpt-4o",
+          provider: "openai",
+          inputTokens: 10,
+          inputCacheTokens: 0,
+          outputTokens: 5,
+          outputCacheTokens: 0,
+          inputDebitAmount: 30,
+          inputCacheDebitAmount: 0,
+          outputDebitAmount: 20,
+          outputCacheDebitAmount: 0,
+        },
+      };
+
+      await drawDownCredit(basic, auth);
+      await drawDownCredit(ai, auth);
+      await drawDownCredit(basic, auth);
+
+      expect(await getCreditBalance(userId, "test")).toBe(-150);
+    });
+  });
+});
@@ -1,5 +1,10 @@
 import { z } from "zod";
 import { uuid, bigint, integer } from "drizzle-orm/pg-core";
+import { ROUNDING_MODES, type RoundingMode } from "../utils/debitAmount";
+import {
+  PAYMENT_PROVIDERS,
+  type PaymentProviderName,
+} from "../interface/payment/PaymentProvider";
 
 /**
  * Configuration for identifier types used throughout the application.
@@ -56,3 +61,103 @@ export const STORAGE_ADAPTER: StorageAdapterType =
   rawAdapter === "clickhouse"
     ? STORAGE_ADAPTERS.clickhouse
     : STORAGE_ADAPTERS.postgres;
+
+/**
+ * PRICE ROUNDING CONFIGURATION
+ * Driven by the PRICE_ROUNDING_MODE environment variable. Event debits keep
+ * sub-cent precision; this decides how a billing period's total is rounded
+ * to whole cents.
+ * Options: 'floor' | 'ceil' | 'half_up' | 'half_even'
+ * Defaults to 'floor' if not set.
+ */
+const rawRoundingMode = process.env.PRICE_ROUNDING_MODE ?? "floor";
+export const PRICE_ROUNDING_MODE: RoundingMode = (
+  ROUNDING_MODES as readonly string[]
+).includes(rawRoundingMode)
+  ? (rawRoundingMode as RoundingMode)
+  : "floor";
+
+export const BILLING_CADENCES = ["off", "monthly", "weekly", "threshold"];
+
+export type BillingCadence = "off" | "monthly" | "weekly" | "threshold";
+
+export interface BillingCycleConfig {
+  cadence: BillingCadence;
+  // Day of the month (1-31, clamped to the month's last day) for monthly
+  // cycles, or ISO weekday (1 = Monday … 7 = Sunday) for weekly ones
+  anchor: number;
+  // Unbilled cents that close a user's period on threshold cycles; a
+  // minimum amount worth billing on the others
+  threshold: number;
+  // API key the checkout sessions and webhooks are created under; its role
+  // decides which mode is billed
+  apiKeyId: string | null;
+}
+
+/**
+ * BILLING CYCLE CONFIGURATION
+ * Driven by the BILLING_CYCLE, BILLING_CYCLE_ANCHOR,
+ * BILLING_CYCLE_THRESHOLD and BILLING_CYCLE_API_KEY_ID environment
+ * variables. When enabled, the server closes billing periods itself instead
+ * of waiting for CreateCheckoutLink calls.
+ * Options: 'off' | 'monthly' | 'weekly' | 'threshold'
+ * Defaults to 'off' if not set.
+ */
+const rawBillingCadence = process.env.BILLING_CYCLE ?? "off";
+export const BILLING_CYCLE: BillingCycleConfig = {
+  cadence: BILLING_CADENCES.includes(rawBillingCadence)
+    ? (rawBillingCadence as BillingCadence)
+    : "off",
+  anchor: Number(process.env.BILLING_CYCLE_ANCHOR ?? 1),
+  threshold: Number(process.env.BILLING_CYCLE_THRESHOLD ?? 0),
+  apiKeyId: process.env.BILLING_CYCLE_API_KEY_ID ?? null,
+};
+
+/**
+ * REVERSAL ROLLBACK CONFIGURATION
+ * Driven by the ROLLBACK_BILLING_ON_REVERSAL environment variable. When
+ * 'true', refunds or lost disputes that take back what is left of a usage
+ * payment move the user's last_billed_timestamp back to the start of the
+ * period it paid for, so the usage is billed again on the next checkout.
+ * Defaults to 'false' if not set.
+ */
+export const ROLLBACK_BILLING_ON_REVERSAL =
+  process.env.ROLLBACK_BILLING_ON_REVERSAL === "true";
+
+/**
+ * PAYMENT PROVIDER OVERRIDE
+ * Driven by the PAYMENT_PROVIDER environment variable. Overrides the
+ * provider chosen during onboarding; 'local' takes checkouts through the
+ * built-in fake provider, so development and CI run without network access.
+ * Options: 'dodo' | 'local'
+ * Defaults to the onboarding choice if not set.
+ */
+const rawPaymentProvider = process.env.PAYMENT_PROVIDER;
+export const PAYMENT_PROVIDER_OVERRIDE: PaymentProviderName | null = (
+  PAYMENT_PROVIDERS as readonly (string | undefined)[]
+).includes(rawPaymentProvider)
+  ? (rawPaymentProvider as PaymentProviderName)
+  : null;
+
+export const LATE_EVENT_POLICIES = ["reject", "next_period", "adjustment"];
+
+export type LateEventPolicy = "reject" | "next_period" | "adjustment";
+
+/**
+ * LATE EVENT CONFIGURATION
+ * Driven by the LATE_EVENT_POLICY environment variable. Decides what
+ * happens to an event reported at or before the user's
+ * last_billed_timestamp, whose period has already been checked out:
+ * 'reject' refuses it, 'next_period' bills it with the period it was
+ * ingested in, and 'adjustment' does the same but itemizes it as an
+ * adjustment on the invoice. Late events are recorded for the late event
+ * report under every policy.
+ * Defaults to 'next_period' if not set. Before this setting existed late
+ * events were stored but never billed, so upgrading bills them by default.
+ */
+const rawLateEventPolicy = process.env.LATE_EVENT_POLICY ?? "next_period";
+export const LATE_EVENT_POLICY: LateEventPolicy = LATE_EVENT_POLICIES.includes(
+  rawLateEventPolicy
+)
+  ? (rawLateEventPolicy as LateEventPolicy)
+  : "next_period";
@@ -3,6 +3,8 @@ import { status } from "@grpc/grpc-js";
 enum EventErrorType {
   UNSUPPORTED_EVENT_TYPE = "UNSUPPORTED_EVENT_TYPE",
   VALIDATION_FAILED = "VALIDATION_FAILED",
+  QUOTA_EXCEEDED = "QUOTA_EXCEEDED",
+  LATE_EVENT = "LATE_EVENT",
 }
 
 export interface EventErrorContext {
@@ -45,4 +47,22 @@ export class EventError extends Error {
       originalError,
     });
   }
+
+  static quotaExceeded(details: string, originalError?: Error): EventError {
+    return new EventError({
+      type: EventErrorType.QUOTA_EXCEEDED,
+      message: `Spending limit reached: ${details}`,
+      code: status.RESOURCE_EXHAUSTED,
+      originalError,
+    });
+  }
+
+  static lateEvent(details: string, originalError?: Error): EventError {
+    return new EventError({
+      type: EventErrorType.LATE_EVENT,
+      message: `Event reported in an already billed period: ${details}`,
+      code: status.FAILED_PRECONDITION,
+      originalError,
+    });
+  }
 }
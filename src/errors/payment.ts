@@ -7,6 +7,10 @@ enum PaymentErrorType {
   MISSING_METADATA = "MISSING_METADATA",
   INVALID_CHECKOUT_RESPONSE = "INVALID_CHECKOUT_RESPONSE",
   PRICE_CALCULATION_FAILED = "PRICE_CALCULATION_FAILED",
+  WRONG_BILLING_MODE = "WRONG_BILLING_MODE",
+  INVALID_WEBHOOK_PAYLOAD = "INVALID_WEBHOOK_PAYLOAD",
+  PROVIDER_REQUEST_FAILED = "PROVIDER_REQUEST_FAILED",
+  NOTHING_TO_BILL = "NOTHING_TO_BILL",
 }
 
 export interface PaymentErrorContext {
@@ -95,4 +99,49 @@ export class PaymentError extends Error {
       originalError,
     });
   }
+
+  static wrongBillingMode(
+    details: string,
+    originalError?: Error
+  ): PaymentError {
+    return new PaymentError({
+      type: PaymentErrorType.WRONG_BILLING_MODE,
+      message: details,
+      code: Status.FAILED_PRECONDITION,
+      originalError,
+    });
+  }
+
+  static invalidWebhookPayload(
+    details: string,
+    originalError?: Error
+  ): PaymentError {
+    return new PaymentError({
+      type: PaymentErrorType.INVALID_WEBHOOK_PAYLOAD,
+      message: `Invalid webhook payload: ${details}`,
+      code: Status.INVALID_ARGUMENT,
+      originalError,
+    });
+  }
+
+  static providerRequestFailed(
+    details: string,
+    originalError?: Error
+  ): PaymentError {
+    return new PaymentError({
+      type: PaymentErrorType.PROVIDER_REQUEST_FAILED,
+      message: `Payment provider request failed: ${details}`,
+      code: Status.UNAVAILABLE,
+      originalError,
+    });
+  }
+
+  static nothingToBill(userId: string, originalError?: Error): PaymentError {
+    return new PaymentError({
+      type: PaymentErrorType.NOTHING_TO_BILL,
+      message: `User ${userId} has no unbilled usage to check out`,
+      code: Status.FAILED_PRECONDITION,
+      originalError,
+    });
+  }
 }
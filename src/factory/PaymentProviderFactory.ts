@@ -0,0 +1,45 @@
+import type {
+  PaymentProvider,
+  PaymentProviderName,
+} from "../interface/payment/PaymentProvider.ts";
+import { DodoPaymentProvider } from "../payment/adapter/dodo/DodoPaymentProvider.ts";
+import { LocalPaymentProvider } from "../payment/adapter/local/LocalPaymentProvider.ts";
+import { PAYMENT_PROVIDER_OVERRIDE } from "../config/identifiers.ts";
+import { getMetadata } from "../storage/db/postgres/helpers/metadata.ts";
+
+export class PaymentProviderFactory {
+  private static providers = new Map<PaymentProviderName, PaymentProvider>();
+
+  public static getPaymentProvider(name: PaymentProviderName): PaymentProvider {
+    const existing = this.providers.get(name);
+    if (existing) return existing;
+
+    let provider: PaymentProvider;
+    switch (name) {
+      case "dodo": {
+        provider = new DodoPaymentProvider();
+        break;
+      }
+      case "local": {
+        provider = new LocalPaymentProvider();
+        break;
+      }
+    }
+
+    this.providers.set(name, provider);
+    return provider;
+  }
+
+  /**
+   * Returns the provider chosen during onboarding, unless PAYMENT_PROVIDER
+   * overrides it. Installations onboarded before providers were pluggable
+   * use Dodo.
+   */
+  public static async getConfiguredPaymentProvider(): Promise<PaymentProvider> {
+    if (PAYMENT_PROVIDER_OVERRIDE) {
+      return this.getPaymentProvider(PAYMENT_PROVIDER_OVERRIDE);
+    }
+    const metadata = await getMetadata();
+    return this.getPaymentProvider(metadata?.payment_provider ?? "dodo");
+  }
+}
@@ -1 +1,2 @@
 export { StorageAdapterFactory } from "./EventStorageAdapterFactory.ts";
+export { PaymentProviderFactory } from "./PaymentProviderFactory.ts";
@@ -29,6 +29,54 @@ export interface CreateCheckoutLinkResponse {
   checkoutLink: string;
 }
 
+export interface CreateTopUpLinkRequest {
+  userId: string;
+  amount: number;
+}
+
+export interface CreateTopUpLinkResponse {
+  checkoutLink: string;
+}
+
+export interface GetBalanceRequest {
+  userId: string;
+}
+
+export interface GetBalanceResponse {
+  userId: string;
+  balance: number;
+  currency: string;
+}
+
+export interface PreviewChargeRequest {
+  userId: string;
+}
+
+export interface ChargeBreakdownLine {
+  /** Empty for plan fees */
+  eventKind: string;
+  /** Empty for basic usage */
+  model: string;
+  /** Empty for AI token usage */
+  basicUsageType: string;
+  quantity: number;
+  amount: number;
+  /** Set for plan fees only */
+  planId: string;
+  planName: string;
+}
+
+export interface PreviewChargeResponse {
+  userId: string;
+  total: number;
+  currency: string;
+  periodStart: string;
+  periodEnd: string;
+  breakdown: ChargeBreakdownLine[];
+  /** Taken off by the user's coupon; total is after it */
+  discount: number;
+}
+
 function createBaseCreateCheckoutLinkRequest(): CreateCheckoutLinkRequest {
   return { userId: "" };
 }
@@ -175,6 +223,779 @@ export const CreateCheckoutLinkResponse: MessageFns<CreateCheckoutLinkResponse>
     },
   };
 
+function createBaseCreateTopUpLinkRequest(): CreateTopUpLinkRequest {
+  return { userId: "", amount: 0 };
+}
+
+export const CreateTopUpLinkRequest: MessageFns<CreateTopUpLinkRequest> = {
+  encode(
+    message: CreateTopUpLinkRequest,
+    writer: BinaryWriter = new BinaryWriter()
+  ): BinaryWriter {
+    if (message.userId !== "") {
+      writer.uint32(10).string(message.userId);
+    }
+    if (message.amount !== 0) {
+      writer.uint32(16).int64(message.amount);
+    }
+    return writer;
+  },
+
+  decode(
+    input: BinaryReader | Uint8Array,
+    length?: number
+  ): CreateTopUpLinkRequest {
+    const reader =
+      input instanceof BinaryReader ? input : new BinaryReader(input);
+    const end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseCreateTopUpLinkRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1: {
+          if (tag !== 10) {
+            break;
+          }
+
+          message.userId = reader.string();
+          continue;
+        }
+        case 2: {
+          if (tag !== 16) {
+            break;
+          }
+
+          message.amount = longToNumber(reader.int64());
+          continue;
+        }
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skip(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): CreateTopUpLinkRequest {
+    return {
+      userId: isSet(object.userId) ? globalThis.String(object.userId) : "",
+      amount: isSet(object.amount) ? globalThis.Number(object.amount) : 0,
+    };
+  },
+
+  toJSON(message: CreateTopUpLinkRequest): unknown {
+    const obj: any = {};
+    if (message.userId !== "") {
+      obj.userId = message.userId;
+    }
+    if (message.amount !== 0) {
+      obj.amount = Math.round(message.amount);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<CreateTopUpLinkRequest>, I>>(
+    base?: I
+  ): CreateTopUpLinkRequest {
+    return CreateTopUpLinkRequest.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<CreateTopUpLinkRequest>, I>>(
+    object: I
+  ): CreateTopUpLinkRequest {
+    const message = createBaseCreateTopUpLinkRequest();
+    message.userId = object.userId ?? "";
+    message.amount = object.amount ?? 0;
+    return message;
+  },
+};
+
+function createBaseCreateTopUpLinkResponse(): CreateTopUpLinkResponse {
+  return { checkoutLink: "" };
+}
+
+export const CreateTopUpLinkResponse: MessageFns<CreateTopUpLinkResponse> = {
+  encode(
+    message: CreateTopUpLinkResponse,
+    writer: BinaryWriter = new BinaryWriter()
+  ): BinaryWriter {
+    if (message.checkoutLink !== "") {
+      writer.uint32(10).string(message.checkoutLink);
+    }
+    return writer;
+  },
+
+  decode(
+    input: BinaryReader | Uint8Array,
+    length?: number
+  ): CreateTopUpLinkResponse {
+    const reader =
+      input instanceof BinaryReader ? input : new BinaryReader(input);
+    const end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseCreateTopUpLinkResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1: {
+          if (tag !== 10) {
+            break;
+          }
+
+          message.checkoutLink = reader.string();
+          continue;
+        }
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skip(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): CreateTopUpLinkResponse {
+    return {
+      checkoutLink: isSet(object.checkoutLink)
+        ? globalThis.String(object.checkoutLink)
+        : "",
+    };
+  },
+
+  toJSON(message: CreateTopUpLinkResponse): unknown {
+    const obj: any = {};
+    if (message.checkoutLink !== "") {
+      obj.checkoutLink = message.checkoutLink;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<CreateTopUpLinkResponse>, I>>(
+    base?: I
+  ): CreateTopUpLinkResponse {
+    return CreateTopUpLinkResponse.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<CreateTopUpLinkResponse>, I>>(
+    object: I
+  ): CreateTopUpLinkResponse {
+    const message = createBaseCreateTopUpLinkResponse();
+    message.checkoutLink = object.checkoutLink ?? "";
+    return message;
+  },
+};
+
+function createBaseGetBalanceRequest(): GetBalanceRequest {
+  return { userId: "" };
+}
+
+export const GetBalanceRequest: MessageFns<GetBalanceRequest> = {
+  encode(
+    message: GetBalanceRequest,
+    writer: BinaryWriter = new BinaryWriter()
+  ): BinaryWriter {
+    if (message.userId !== "") {
+      writer.uint32(10).string(message.userId);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): GetBalanceRequest {
+    const reader =
+      input instanceof BinaryReader ? input : new BinaryReader(input);
+    const end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetBalanceRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1: {
+          if (tag !== 10) {
+            break;
+          }
+
+          message.userId = reader.string();
+          continue;
+        }
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skip(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): GetBalanceRequest {
+    return {
+      userId: isSet(object.userId) ? globalThis.String(object.userId) : "",
+    };
+  },
+
+  toJSON(message: GetBalanceRequest): unknown {
+    const obj: any = {};
+    if (message.userId !== "") {
+      obj.userId = message.userId;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<GetBalanceRequest>, I>>(
+    base?: I
+  ): GetBalanceRequest {
+    return GetBalanceRequest.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<GetBalanceRequest>, I>>(
+    object: I
+  ): GetBalanceRequest {
+    const message = createBaseGetBalanceRequest();
+    message.userId = object.userId ?? "";
+    return message;
+  },
+};
+
+function createBaseGetBalanceResponse(): GetBalanceResponse {
+  return { userId: "", balance: 0, currency: "" };
+}
+
+export const GetBalanceResponse: MessageFns<GetBalanceResponse> = {
+  encode(
+    message: GetBalanceResponse,
+    writer: BinaryWriter = new BinaryWriter()
+  ): BinaryWriter {
+    if (message.userId !== "") {
+      writer.uint32(10).string(message.userId);
+    }
+    if (message.balance !== 0) {
+      writer.uint32(17).double(message.balance);
+    }
+    if (message.currency !== "") {
+      writer.uint32(26).string(message.currency);
+    }
+    return writer;
+  },
+
+  decode(
+    input: BinaryReader | Uint8Array,
+    length?: number
+  ): GetBalanceResponse {
+    const reader =
+      input instanceof BinaryReader ? input : new BinaryReader(input);
+    const end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGetBalanceResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1: {
+          if (tag !== 10) {
+            break;
+          }
+
+          message.userId = reader.string();
+          continue;
+        }
+        case 2: {
+          if (tag !== 17) {
+            break;
+          }
+
+          message.balance = reader.double();
+          continue;
+        }
+        case 3: {
+          if (tag !== 26) {
+            break;
+          }
+
+          message.currency = reader.string();
+          continue;
+        }
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skip(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): GetBalanceResponse {
+    return {
+      userId: isSet(object.userId) ? globalThis.String(object.userId) : "",
+      balance: isSet(object.balance) ? globalThis.Number(object.balance) : 0,
+      currency: isSet(object.currency)
+        ? globalThis.String(object.currency)
+        : "",
+    };
+  },
+
+  toJSON(message: GetBalanceResponse): unknown {
+    const obj: any = {};
+    if (message.userId !== "") {
+      obj.userId = message.userId;
+    }
+    if (message.balance !== 0) {
+      obj.balance = message.balance;
+    }
+    if (message.currency !== "") {
+      obj.currency = message.currency;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<GetBalanceResponse>, I>>(
+    base?: I
+  ): GetBalanceResponse {
+    return GetBalanceResponse.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<GetBalanceResponse>, I>>(
+    object: I
+  ): GetBalanceResponse {
+    const message = createBaseGetBalanceResponse();
+    message.userId = object.userId ?? "";
+    message.balance = object.balance ?? 0;
+    message.currency = object.currency ?? "";
+    return message;
+  },
+};
+
+function createBasePreviewChargeRequest(): PreviewChargeRequest {
+  return { userId: "" };
+}
+
+export const PreviewChargeRequest: MessageFns<PreviewChargeRequest> = {
+  encode(
+    message: PreviewChargeRequest,
+    writer: BinaryWriter = new BinaryWriter()
+  ): BinaryWriter {
+    if (message.userId !== "") {
+      writer.uint32(10).string(message.userId);
+    }
+    return writer;
+  },
+
+  decode(
+    input: BinaryReader | Uint8Array,
+    length?: number
+  ): PreviewChargeRequest {
+    const reader =
+      input instanceof BinaryReader ? input : new BinaryReader(input);
+    const end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBasePreviewChargeRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1: {
+          if (tag !== 10) {
+            break;
+          }
+
+          message.userId = reader.string();
+          continue;
+        }
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skip(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): PreviewChargeRequest {
+    return {
+      userId: isSet(object.userId) ? globalThis.String(object.userId) : "",
+    };
+  },
+
+  toJSON(message: PreviewChargeRequest): unknown {
+    const obj: any = {};
+    if (message.userId !== "") {
+      obj.userId = message.userId;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<PreviewChargeRequest>, I>>(
+    base?: I
+  ): PreviewChargeRequest {
+    return PreviewChargeRequest.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<PreviewChargeRequest>, I>>(
+    object: I
+  ): PreviewChargeRequest {
+    const message = createBasePreviewChargeRequest();
+    message.userId = object.userId ?? "";
+    return message;
+  },
+};
+
+function createBaseChargeBreakdownLine(): ChargeBreakdownLine {
+  return {
+    eventKind: "",
+    model: "",
+    basicUsageType: "",
+    quantity: 0,
+    amount: 0,
+    planId: "",
+    planName: "",
+  };
+}
+
+export const ChargeBreakdownLine: MessageFns<ChargeBreakdownLine> = {
+  encode(
+    message: ChargeBreakdownLine,
+    writer: BinaryWriter = new BinaryWriter()
+  ): BinaryWriter {
+    if (message.eventKind !== "") {
+      writer.uint32(10).string(message.eventKind);
+    }
+    if (message.model !== "") {
+      writer.uint32(18).string(message.model);
+    }
+    if (message.basicUsageType !== "") {
+      writer.uint32(26).string(message.basicUsageType);
+    }
+    if (message.quantity !== 0) {
+      writer.uint32(33).double(message.quantity);
+    }
+    if (message.amount !== 0) {
+      writer.uint32(41).double(message.amount);
+    }
+    if (message.planId !== "") {
+      writer.uint32(50).string(message.planId);
+    }
+    if (message.planName !== "") {
+      writer.uint32(58).string(message.planName);
+    }
+    return writer;
+  },
+
+  decode(
+    input: BinaryReader | Uint8Array,
+    length?: number
+  ): ChargeBreakdownLine {
+    const reader =
+      input instanceof BinaryReader ? input : new BinaryReader(input);
+    const end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseChargeBreakdownLine();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1: {
+          if (tag !== 10) {
+            break;
+          }
+
+          message.eventKind = reader.string();
+          continue;
+        }
+        case 2: {
+          if (tag !== 18) {
+            break;
+          }
+
+          message.model = reader.string();
+          continue;
+        }
+        case 3: {
+          if (tag !== 26) {
+            break;
+          }
+
+          message.basicUsageType = reader.string();
+          continue;
+        }
+        case 4: {
+          if (tag !== 33) {
+            break;
+          }
+
+          message.quantity = reader.double();
+          continue;
+        }
+        case 5: {
+          if (tag !== 41) {
+            break;
+          }
+
+          message.amount = reader.double();
+          continue;
+        }
+        case 6: {
+          if (tag !== 50) {
+            break;
+          }
+
+          message.planId = reader.string();
+          continue;
+        }
+        case 7: {
+          if (tag !== 58) {
+            break;
+          }
+
+          message.planName = reader.string();
+          continue;
+        }
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skip(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): ChargeBreakdownLine {
+    return {
+      eventKind: isSet(object.eventKind)
+        ? globalThis.String(object.eventKind)
+        : "",
+      model: isSet(object.model) ? globalThis.String(object.model) : "",
+      basicUsageType: isSet(object.basicUsageType)
+        ? globalThis.String(object.basicUsageType)
+        : "",
+      quantity: isSet(object.quantity) ? globalThis.Number(object.quantity) : 0,
+      amount: isSet(object.amount) ? globalThis.Number(object.amount) : 0,
+      planId: isSet(object.planId) ? globalThis.String(object.planId) : "",
+      planName: isSet(object.planName)
+        ? globalThis.String(object.planName)
+        : "",
+    };
+  },
+
+  toJSON(message: ChargeBreakdownLine): unknown {
+    const obj: any = {};
+    if (message.eventKind !== "") {
+      obj.eventKind = message.eventKind;
+    }
+    if (message.model !== "") {
+      obj.model = message.model;
+    }
+    if (message.basicUsageType !== "") {
+      obj.basicUsageType = message.basicUsageType;
+    }
+    if (message.quantity !== 0) {
+      obj.quantity = message.quantity;
+    }
+    if (message.amount !== 0) {
+      obj.amount = message.amount;
+    }
+    if (message.planId !== "") {
+      obj.planId = message.planId;
+    }
+    if (message.planName !== "") {
+      obj.planName = message.planName;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<ChargeBreakdownLine>, I>>(
+    base?: I
+  ): ChargeBreakdownLine {
+    return ChargeBreakdownLine.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<ChargeBreakdownLine>, I>>(
+    object: I
+  ): ChargeBreakdownLine {
+    const message = createBaseChargeBreakdownLine();
+    message.eventKind = object.eventKind ?? "";
+    message.model = object.model ?? "";
+    message.basicUsageType = object.basicUsageType ?? "";
+    message.quantity = object.quantity ?? 0;
+    message.amount = object.amount ?? 0;
+    message.planId = object.planId ?? "";
+    message.planName = object.planName ?? "";
+    return message;
+  },
+};
+
+function createBasePreviewChargeResponse(): PreviewChargeResponse {
+  return {
+    userId: "",
+    total: 0,
+    currency: "",
+    periodStart: "",
+    periodEnd: "",
+    breakdown: [],
+    discount: 0,
+  };
+}
+
+export const PreviewChargeResponse: MessageFns<PreviewChargeResponse> = {
+  encode(
+    message: PreviewChargeResponse,
+    writer: BinaryWriter = new BinaryWriter()
+  ): BinaryWriter {
+    if (message.userId !== "") {
+      writer.uint32(10).string(message.userId);
+    }
+    if (message.total !== 0) {
+      writer.uint32(16).int64(message.total);
+    }
+    if (message.currency !== "") {
+      writer.uint32(26).string(message.currency);
+    }
+    if (message.periodStart !== "") {
+      writer.uint32(34).string(message.periodStart);
+    }
+    if (message.periodEnd !== "") {
+      writer.uint32(42).string(message.periodEnd);
+    }
+    for (const v of message.breakdown) {
+      ChargeBreakdownLine.encode(v!, writer.uint32(50).fork()).join();
+    }
+    if (message.discount !== 0) {
+      writer.uint32(56).int64(message.discount);
+    }
+    return writer;
+  },
+
+  decode(
+    input: BinaryReader | Uint8Array,
+    length?: number
+  ): PreviewChargeResponse {
+    const reader =
+      input instanceof BinaryReader ? input : new BinaryReader(input);
+    const end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBasePreviewChargeResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1: {
+          if (tag !== 10) {
+            break;
+          }
+
+          message.userId = reader.string();
+          continue;
+        }
+        case 2: {
+          if (tag !== 16) {
+            break;
+          }
+
+          message.total = longToNumber(reader.int64());
+          continue;
+        }
+        case 3: {
+          if (tag !== 26) {
+            break;
+          }
+
+          message.currency = reader.string();
+          continue;
+        }
+        case 4: {
+          if (tag !== 34) {
+            break;
+          }
+
+          message.periodStart = reader.string();
+          continue;
+        }
+        case 5: {
+          if (tag !== 42) {
+            break;
+          }
+
+          message.periodEnd = reader.string();
+          continue;
+        }
+        case 6: {
+          if (tag !== 50) {
+            break;
+          }
+
+          message.breakdown.push(
+            ChargeBreakdownLine.decode(reader, reader.uint32())
+          );
+          continue;
+        }
+        case 7: {
+          if (tag !== 56) {
+            break;
+          }
+
+          message.discount = longToNumber(reader.int64());
+          continue;
+        }
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skip(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): PreviewChargeResponse {
+    return {
+      userId: isSet(object.userId) ? globalThis.String(object.userId) : "",
+      total: isSet(object.total) ? globalThis.Number(object.total) : 0,
+      currency: isSet(object.currency)
+        ? globalThis.String(object.currency)
+        : "",
+      periodStart: isSet(object.periodStart)
+        ? globalThis.String(object.periodStart)
+        : "",
+      periodEnd: isSet(object.periodEnd)
+        ? globalThis.String(object.periodEnd)
+        : "",
+      breakdown: globalThis.Array.isArray(object?.breakdown)
+        ? object.breakdown.map((e: any) => ChargeBreakdownLine.fromJSON(e))
+        : [],
+      discount: isSet(object.discount) ? globalThis.Number(object.discount) : 0,
+    };
+  },
+
+  toJSON(message: PreviewChargeResponse): unknown {
+    const obj: any = {};
+    if (message.userId !== "") {
+      obj.userId = message.userId;
+    }
+    if (message.total !== 0) {
+      obj.total = Math.round(message.total);
+    }
+    if (message.currency !== "") {
+      obj.currency = message.currency;
+    }
+    if (message.periodStart !== "") {
+      obj.periodStart = message.periodStart;
+    }
+    if (message.periodEnd !== "") {
+      obj.periodEnd = message.periodEnd;
+    }
+    if (message.breakdown?.length) {
+      obj.breakdown = message.breakdown.map((e) =>
+        ChargeBreakdownLine.toJSON(e)
+      );
+    }
+    if (message.discount !== 0) {
+      obj.discount = Math.round(message.discount);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<PreviewChargeResponse>, I>>(
+    base?: I
+  ): PreviewChargeResponse {
+    return PreviewChargeResponse.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<PreviewChargeResponse>, I>>(
+    object: I
+  ): PreviewChargeResponse {
+    const message = createBasePreviewChargeResponse();
+    message.userId = object.userId ?? "";
+    message.total = object.total ?? 0;
+    message.currency = object.currency ?? "";
+    message.periodStart = object.periodStart ?? "";
+    message.periodEnd = object.periodEnd ?? "";
+    message.breakdown =
+      object.breakdown?.map((e) => ChargeBreakdownLine.fromPartial(e)) || [];
+    message.discount = object.discount ?? 0;
+    return message;
+  },
+};
+
 export type PaymentServiceService = typeof PaymentServiceService;
 export const PaymentServiceService = {
   /** CreateCheckoutLink creates a checkout link for the given user */
@@ -191,6 +1012,48 @@ export const PaymentServiceService = {
     responseDeserialize: (value: Buffer): CreateCheckoutLinkResponse =>
       CreateCheckoutLinkResponse.decode(value),
   },
+  /** CreateTopUpLink creates a checkout link that buys prepaid credit */
+  createTopUpLink: {
+    path: "/payment.v1.PaymentService/CreateTopUpLink" as const,
+    requestStream: false as const,
+    responseStream: false as const,
+    requestSerialize: (value: CreateTopUpLinkRequest): Buffer =>
+      Buffer.from(CreateTopUpLinkRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer): CreateTopUpLinkRequest =>
+      CreateTopUpLinkRequest.decode(value),
+    responseSerialize: (value: CreateTopUpLinkResponse): Buffer =>
+      Buffer.from(CreateTopUpLinkResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer): CreateTopUpLinkResponse =>
+      CreateTopUpLinkResponse.decode(value),
+  },
+  /** GetBalance returns a user's remaining prepaid credit */
+  getBalance: {
+    path: "/payment.v1.PaymentService/GetBalance" as const,
+    requestStream: false as const,
+    responseStream: false as const,
+    requestSerialize: (value: GetBalanceRequest): Buffer =>
+      Buffer.from(GetBalanceRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer): GetBalanceRequest =>
+      GetBalanceRequest.decode(value),
+    responseSerialize: (value: GetBalanceResponse): Buffer =>
+      Buffer.from(GetBalanceResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer): GetBalanceResponse =>
+      GetBalanceResponse.decode(value),
+  },
+  /** PreviewCharge prices a user's unbilled usage without checking out */
+  previewCharge: {
+    path: "/payment.v1.PaymentService/PreviewCharge" as const,
+    requestStream: false as const,
+    responseStream: false as const,
+    requestSerialize: (value: PreviewChargeRequest): Buffer =>
+      Buffer.from(PreviewChargeRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer): PreviewChargeRequest =>
+      PreviewChargeRequest.decode(value),
+    responseSerialize: (value: PreviewChargeResponse): Buffer =>
+      Buffer.from(PreviewChargeResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer): PreviewChargeResponse =>
+      PreviewChargeResponse.decode(value),
+  },
 } as const;
 
 export interface PaymentServiceServer extends UntypedServiceImplementation {
@@ -199,6 +1062,15 @@ export interface PaymentServiceServer extends UntypedServiceImplementation {
     CreateCheckoutLinkRequest,
     CreateCheckoutLinkResponse
   >;
+  /** CreateTopUpLink creates a checkout link that buys prepaid credit */
+  createTopUpLink: handleUnaryCall<
+    CreateTopUpLinkRequest,
+    CreateTopUpLinkResponse
+  >;
+  /** GetBalance returns a user's remaining prepaid credit */
+  getBalance: handleUnaryCall<GetBalanceRequest, GetBalanceResponse>;
+  /** PreviewCharge prices a user's unbilled usage without checking out */
+  previewCharge: handleUnaryCall<PreviewChargeRequest, PreviewChargeResponse>;
 }
 
 export interface PaymentServiceClient extends Client {
@@ -227,6 +1099,72 @@ export interface PaymentServiceClient extends Client {
       response: CreateCheckoutLinkResponse
     ) => void
   ): ClientUnaryCall;
+  /** CreateTopUpLink creates a checkout link that buys prepaid credit */
+  createTopUpLink(
+    request: CreateTopUpLinkRequest,
+    callback: (
+      error: ServiceError | null,
+      response: CreateTopUpLinkResponse
+    ) => void
+  ): ClientUnaryCall;
+  createTopUpLink(
+    request: CreateTopUpLinkRequest,
+    metadata: Metadata,
+    callback: (
+      error: ServiceError | null,
+      response: CreateTopUpLinkResponse
+    ) => void
+  ): ClientUnaryCall;
+  createTopUpLink(
+    request: CreateTopUpLinkRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (
+      error: ServiceError | null,
+      response: CreateTopUpLinkResponse
+    ) => void
+  ): ClientUnaryCall;
+  /** GetBalance returns a user's remaining prepaid credit */
+  getBalance(
+    request: GetBalanceRequest,
+    callback: (error: ServiceError | null, response: GetBalanceResponse) => void
+  ): ClientUnaryCall;
+  getBalance(
+    request: GetBalanceRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: GetBalanceResponse) => void
+  ): ClientUnaryCall;
+  getBalance(
+    request: GetBalanceRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: GetBalanceResponse) => void
+  ): ClientUnaryCall;
+  /** PreviewCharge prices a user's unbilled usage without checking out */
+  previewCharge(
+    request: PreviewChargeRequest,
+    callback: (
+      error: ServiceError | null,
+      response: PreviewChargeResponse
+    ) => void
+  ): ClientUnaryCall;
+  previewCharge(
+    request: PreviewChargeRequest,
+    metadata: Metadata,
+    callback: (
+      error: ServiceError | null,
+      response: PreviewChargeResponse
+    ) => void
+  ): ClientUnaryCall;
+  previewCharge(
+    request: PreviewChargeRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (
+      error: ServiceError | null,
+      response: PreviewChargeResponse
+    ) => void
+  ): ClientUnaryCall;
 }
 
 export const PaymentServiceClient = makeGenericClientConstructor(
@@ -268,6 +1206,17 @@ export type Exact<P, I extends P> = P extends Builtin
       [K in Exclude<keyof I, KeysOfUnion<P>>]: never;
     };
 
+function longToNumber(int64: { toString(): string }): number {
+  const num = globalThis.Number(int64.toString());
+  if (num > globalThis.Number.MAX_SAFE_INTEGER) {
+    throw new globalThis.Error("Value is larger than Number.MAX_SAFE_INTEGER");
+  }
+  if (num < globalThis.Number.MIN_SAFE_INTEGER) {
+    throw new globalThis.Error("Value is smaller than Number.MIN_SAFE_INTEGER");
+  }
+  return num;
+}
+
 function isSet(value: any): boolean {
   return value !== null && value !== undefined;
 }
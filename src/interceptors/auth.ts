@@ -36,6 +36,7 @@ const WEBHOOK_REQUIRED_PATHS = [
   "/event.v1.EventService/RegisterEvent",
   "/event.v1.EventService/StreamEvents",
   "/payment.v1.PaymentService/CreateCheckoutLink",
+  "/payment.v1.PaymentService/CreateTopUpLink",
 ];
 
 const webhookEndpointCache = Cache.getStore<string, boolean>(
@@ -1,12 +1,17 @@
 import type { DateTime } from "luxon";
-import type { UserId } from "../../config/identifiers";
+import type { LateEventPolicy, UserId } from "../../config/identifiers";
 
 export type BasicUsageEventData = {
   basicUsageType: "RAW" | "MIDDLEWARE_CALL";
   debitAmount: number;
   metadata?: Record<string, unknown>;
+  // Tag the debit was priced from, for tag allowances; not persisted
+  tag?: string;
 };
 
+export type AITokenComponent =
+  "input" | "inputCache" | "output" | "outputCache";
+
 export type AITokenUsageEventData = {
   model: string;
   provider: string;
@@ -19,6 +24,9 @@ export type AITokenUsageEventData = {
   outputCacheDebitAmount: number;
   outputDebitAmount: number;
   metadata?: Record<string, unknown>;
+  // Tags the component debits were priced from, for tag allowances; not
+  // persisted
+  tags?: Partial<Record<AITokenComponent, string>>;
 };
 
 export type EventKind = "BASIC_USAGE" | "AI_TOKEN_USAGE";
@@ -30,6 +38,9 @@ export type EventDataMap = {
 
 export type EventData<K extends EventKind> = EventDataMap[K];
 
+// How a stored late event is billed; rejected late events are never stored
+export type BilledLatePolicy = Exclude<LateEventPolicy, "reject">;
+
 export type SqlRecord =
   | {
       type: "BASIC_USAGE";
@@ -38,6 +49,8 @@ export type SqlRecord =
       userId: UserId;
       eventId: string;
       idempotencyKey: string;
+      // Set when the event was reported within an already billed period
+      late_policy?: BilledLatePolicy;
     }
   | {
       type: "AI_TOKEN_USAGE";
@@ -46,10 +59,19 @@ export type SqlRecord =
       userId: UserId;
       eventId: string;
       idempotencyKey: string;
+      // Set when the event was reported within an already billed period
+      late_policy?: BilledLatePolicy;
     };
 
 export type SqlRecordOf<K extends EventKind> = Extract<SqlRecord, { type: K }>;
 
+// A SqlRecord as stored in JSON, with its timestamp in ISO form
+export type StoredSqlRecord = SqlRecord extends infer R
+  ? R extends SqlRecord
+    ? Omit<R, "reported_timestamp"> & { reported_timestamp: string }
+    : never
+  : never;
+
 export type SerializedEvent = {
   SQL: SqlRecord;
 };
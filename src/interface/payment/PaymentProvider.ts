@@ -0,0 +1,149 @@
+export const PAYMENT_PROVIDERS = ["dodo", "local"] as const;
+
+export type PaymentProviderName = (typeof PAYMENT_PROVIDERS)[number];
+
+export type PaymentMode = "test" | "production";
+
+export interface PaymentProviderConfig {
+  productId: string;
+  returnUrl: string | null;
+  currency: string;
+}
+
+/**
+ * Who a checkout is for, to attach it to the provider's customer or at
+ * least prefill the customer's details.
+ */
+export interface CheckoutCustomer {
+  // Null when the customer is not synced to the provider in this mode
+  providerCustomerId: string | null;
+  email: string;
+  name: string | null;
+}
+
+export interface CheckoutParams {
+  customPrice: number;
+  userId: string;
+  apiKeyId: string;
+  customer?: CheckoutCustomer;
+}
+
+export interface ProviderCustomer {
+  userId: string;
+  // Set once the customer exists at the provider
+  providerCustomerId: string | null;
+  email: string;
+  name: string | null;
+  metadata: Record<string, string>;
+}
+
+export interface CheckoutResult {
+  sessionId: string;
+  checkoutUrl: string;
+}
+
+export interface WebhookRequest {
+  rawBody: string;
+  headers: Record<string, string | undefined>;
+}
+
+interface ProviderWebhookEventBase {
+  // Provider's id of the payment the event is about
+  paymentId: string;
+  // Verified payload as the provider sent it, forwarded to API key webhooks
+  raw: Record<string, unknown>;
+}
+
+export interface PaymentWebhookEvent extends ProviderWebhookEventBase {
+  type: "payment.succeeded" | "payment.failed";
+  checkoutSessionId: string | null;
+  // Cents charged
+  amount: number;
+}
+
+export interface RefundWebhookEvent extends ProviderWebhookEventBase {
+  type: "refund.succeeded";
+  refundId: string;
+  // Cents refunded, if the provider reports them
+  amount: number | null;
+  partial: boolean;
+}
+
+export interface DisputeWebhookEvent extends ProviderWebhookEventBase {
+  type: "dispute.opened" | "dispute.won" | "dispute.lost";
+  disputeId: string;
+  // Cents disputed, if the provider reports them
+  amount: number | null;
+}
+
+export interface IgnoredWebhookEvent {
+  type: "ignored";
+  providerType: string;
+}
+
+export type ProviderWebhookEvent =
+  | PaymentWebhookEvent
+  | RefundWebhookEvent
+  | DisputeWebhookEvent
+  | IgnoredWebhookEvent;
+
+/**
+ * A payment provider collects the money Scrawn bills. Each provider is an
+ * adapter translating checkouts, webhooks and refunds to and from its API;
+ * credentials are read from the onboarding metadata.
+ */
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+
+  getCheckoutConfig(mode: PaymentMode): Promise<PaymentProviderConfig>;
+
+  createCheckout(
+    config: PaymentProviderConfig,
+    params: CheckoutParams,
+    mode: PaymentMode
+  ): Promise<CheckoutResult>;
+
+  /**
+   * Creates the customer at the provider, or updates it once it exists.
+   *
+   * @returns The provider's customer id
+   */
+  syncCustomer(customer: ProviderCustomer, mode: PaymentMode): Promise<string>;
+
+  /**
+   * Verifies a webhook's signature and translates its payload.
+   *
+   * @returns null if the signature does not verify
+   * @throws PaymentError if a verified payload is malformed
+   */
+  unwrapWebhook(
+    request: WebhookRequest,
+    mode: PaymentMode
+  ): Promise<ProviderWebhookEvent | null>;
+
+  /**
+   * Refunds a payment in full, or `amount` cents of it.
+   *
+   * @returns The provider's refund id
+   */
+  refund(
+    paymentId: string,
+    amount: number | null,
+    mode: PaymentMode
+  ): Promise<string>;
+
+  /**
+   * Subscribes `url` to the provider's payment, refund and dispute events
+   * during onboarding, before any credentials are stored.
+   *
+   * @returns The secret the provider signs webhooks with
+   */
+  registerWebhook(
+    apiKey: string,
+    url: string,
+    mode: PaymentMode
+  ): Promise<string>;
+
+  // Drops clients cached with credentials that onboarding has replaced
+  reset(): void;
+}
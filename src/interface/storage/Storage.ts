@@ -1,4 +1,8 @@
-import type { SerializedEvent, EventKind } from "../event/Event";
+import type {
+  AITokenComponent,
+  SerializedEvent,
+  EventKind,
+} from "../event/Event";
 import { type UserId } from "../../config/identifiers";
 import type { DateTime } from "luxon";
 import type { AuthContext } from "../../context/auth";
@@ -61,6 +65,36 @@ export interface QueryResponse {
   total: number;
 }
 
+/**
+ * Token totals for a user's AI token usage in the current billing period
+ * (events billable after users.last_billed_timestamp; late events are
+ * billable from their arrival).
+ */
+export interface PeriodTokenUsage {
+  inputTokens: number;
+  inputCacheTokens: number;
+  outputTokens: number;
+  outputCacheTokens: number;
+}
+
+/**
+ * A user's unbilled usage of one event kind, basic usage type, model, token
+ * component and tag, as itemized on an invoice. Quantity counts events for
+ * basic usage and tokens for AI token usage; amount is in cents with
+ * sub-cent precision.
+ */
+export interface InvoiceLineTotal {
+  eventKind: EventKind;
+  basicUsageType: "RAW" | "MIDDLEWARE_CALL" | null;
+  model: string | null;
+  component: AITokenComponent | null;
+  tag: string | null;
+  quantity: number;
+  amount: number;
+  // Late events of an earlier period, itemized under the 'adjustment' policy
+  adjustment: boolean;
+}
+
 /**
  * Storage Adapter - consumes and persists events
  */
@@ -78,5 +112,15 @@ export interface StorageAdapter {
     auth: AuthContext,
     txn?: unknown
   ): Promise<number>;
+  invoiceLines(
+    userID: UserId,
+    beforeTimestamp: DateTime,
+    auth: AuthContext,
+    txn?: unknown
+  ): Promise<InvoiceLineTotal[]>;
   query(request: QueryRequest, auth: AuthContext): Promise<QueryResponse>;
+  periodTokenUsage(
+    userID: UserId,
+    mode: "production" | "test"
+  ): Promise<PeriodTokenUsage>;
 }
@@ -0,0 +1,298 @@
+import DodoPayments from "dodopayments";
+import type { Currency } from "dodopayments/resources/misc";
+import * as Sentry from "@sentry/bun";
+import { PaymentError } from "../../../errors/payment";
+import { getMetadata } from "../../../storage/db/postgres/helpers/metadata";
+import { decrypt } from "../../../utils/encryptMetadata.ts";
+import type {
+  CheckoutParams,
+  CheckoutResult,
+  PaymentMode,
+  PaymentProvider,
+  PaymentProviderConfig,
+  ProviderCustomer,
+  ProviderWebhookEvent,
+  WebhookRequest,
+} from "../../../interface/payment/PaymentProvider";
+
+const WEBHOOK_EVENT_TYPES = [
+  "payment.succeeded",
+  "payment.failed",
+  "refund.succeeded",
+  "dispute.opened",
+  "dispute.won",
+  "dispute.lost",
+] as const;
+
+function environmentFor(mode: PaymentMode): "live_mode" | "test_mode" {
+  return mode === "production" ? "live_mode" : "test_mode";
+}
+
+export class DodoPaymentProvider implements PaymentProvider {
+  readonly name = "dodo";
+
+  private liveClient: DodoPayments | null = null;
+  private testClient: DodoPayments | null = null;
+
+  async getClient(mode?: PaymentMode): Promise<DodoPayments> {
+    if (!mode) {
+      mode = process.env.NODE_ENV === "production" ? "production" : "test";
+    }
+
+    const cached = mode === "production" ? this.liveClient : this.testClient;
+    if (cached) return cached;
+
+    const metadata = await getMetadata();
+    const apiKey =
+      mode === "production"
+        ? metadata?.dodo_live_api_key
+        : metadata?.dodo_test_api_key;
+    if (!apiKey) {
+      throw PaymentError.missingApiKey();
+    }
+    const webhookSecret =
+      mode === "production"
+        ? metadata?.dodo_live_webhook_secret
+        : metadata?.dodo_test_webhook_secret;
+
+    const client = new DodoPayments({
+      bearerToken: decrypt(apiKey),
+      environment: environmentFor(mode),
+      webhookKey: webhookSecret ? decrypt(webhookSecret) : undefined,
+    });
+    if (mode === "production") {
+      this.liveClient = client;
+    } else {
+      this.testClient = client;
+    }
+    return client;
+  }
+
+  reset(): void {
+    this.liveClient = null;
+    this.testClient = null;
+  }
+
+  async getCheckoutConfig(mode: PaymentMode): Promise<PaymentProviderConfig> {
+    const metadata = await getMetadata();
+
+    if (!metadata) {
+      throw PaymentError.missingMetadata();
+    }
+
+    const productId =
+      mode === "production"
+        ? metadata.dodo_live_product_id
+        : metadata.dodo_test_product_id;
+    const returnUrl = metadata.redirect_url ?? null;
+
+    if (!productId) {
+      throw PaymentError.missingProductId();
+    }
+
+    return { productId, returnUrl, currency: metadata.currency };
+  }
+
+  async createCheckout(
+    config: PaymentProviderConfig,
+    params: CheckoutParams,
+    mode: PaymentMode
+  ): Promise<CheckoutResult> {
+    const client = await this.getClient(mode);
+
+    const session = await client.checkoutSessions.create({
+      product_cart: [
+        {
+          product_id: config.productId,
+          quantity: 1,
+          amount: params.customPrice,
+        },
+      ],
+      metadata: {
+        user_id: params.userId,
+        api_key_id: params.apiKeyId,
+      },
+      ...(params.customer
+        ? {
+            customer: params.customer.providerCustomerId
+              ? { customer_id: params.customer.providerCustomerId }
+              : { email: params.customer.email, name: params.customer.name },
+          }
+        : {}),
+      ...(config.returnUrl ? { return_url: config.returnUrl } : {}),
+      billing_currency: config.currency.toUpperCase() as Currency,
+    });
+
+    if (!session.checkout_url) {
+      throw PaymentError.invalidCheckoutResponse(
+        "No checkout URL returned from Dodo"
+      );
+    }
+
+    if (!session.session_id) {
+      throw PaymentError.invalidCheckoutResponse(
+        "No session ID returned from Dodo"
+      );
+    }
+
+    return {
+      sessionId: session.session_id,
+      checkoutUrl: session.checkout_url,
+    };
+  }
+
+  async syncCustomer(
+    customer: ProviderCustomer,
+    mode: PaymentMode
+  ): Promise<string> {
+    const client = await this.getClient(mode);
+    const metadata = { ...customer.metadata, user_id: customer.userId };
+
+    try {
+      if (customer.providerCustomerId) {
+        await client.customers.update(customer.providerCustomerId, {
+          email: customer.email,
+          name: customer.name ?? customer.email,
+          metadata,
+        });
+        return customer.providerCustomerId;
+      }
+
+      const created = await client.customers.create({
+        email: customer.email,
+        name: customer.name ?? customer.email,
+        metadata,
+      });
+      return created.customer_id;
+    } catch (error) {
+      throw PaymentError.providerRequestFailed(
+        `Dodo sync of customer '${customer.userId}' failed`,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  async unwrapWebhook(
+    request: WebhookRequest,
+    mode: PaymentMode
+  ): Promise<ProviderWebhookEvent | null> {
+    const client = await this.getClient(mode);
+    const headers = {
+      "webhook-id": request.headers["webhook-id"] || "",
+      "webhook-signature": request.headers["webhook-signature"] || "",
+      "webhook-timestamp": request.headers["webhook-timestamp"] || "",
+    };
+
+    let payload: DodoPayments.Webhooks.UnwrapWebhookEvent;
+    try {
+      payload = client.webhooks.unwrap(request.rawBody, { headers });
+    } catch (error) {
+      Sentry.captureException(error, {
+        extra: { context: "webhook signature verification" },
+      });
+      return null;
+    }
+
+    if (!payload.type || !payload.data) {
+      throw PaymentError.invalidWebhookPayload("missing type or data");
+    }
+
+    const raw = {
+      business_id: payload.business_id,
+      data: payload.data,
+      timestamp: payload.timestamp,
+      type: payload.type,
+    };
+
+    switch (payload.type) {
+      case "payment.succeeded":
+      case "payment.failed":
+        return {
+          type: payload.type,
+          paymentId: payload.data.payment_id,
+          checkoutSessionId: payload.data.checkout_session_id ?? null,
+          amount: Math.round(payload.data.total_amount),
+          raw,
+        };
+      case "refund.succeeded":
+        return {
+          type: payload.type,
+          paymentId: payload.data.payment_id,
+          refundId: payload.data.refund_id,
+          amount: payload.data.amount ?? null,
+          partial: payload.data.is_partial,
+          raw,
+        };
+      case "dispute.opened":
+      case "dispute.won":
+      case "dispute.lost": {
+        const amount = Number(payload.data.amount);
+        return {
+          type: payload.type,
+          paymentId: payload.data.payment_id,
+          disputeId: payload.data.dispute_id,
+          amount: Number.isFinite(amount) ? amount : null,
+          raw,
+        };
+      }
+      default:
+        return { type: "ignored", providerType: payload.type };
+    }
+  }
+
+  async refund(
+    paymentId: string,
+    amount: number | null,
+    mode: PaymentMode
+  ): Promise<string> {
+    const client = await this.getClient(mode);
+    // Partial refunds are itemized; every checkout has the one product
+    const items =
+      amount === null
+        ? undefined
+        : [
+            {
+              item_id: (await this.getCheckoutConfig(mode)).productId,
+              amount,
+            },
+          ];
+
+    try {
+      const refund = await client.refunds.create({
+        payment_id: paymentId,
+        ...(items ? { items } : {}),
+      });
+      return refund.refund_id;
+    } catch (error) {
+      throw PaymentError.providerRequestFailed(
+        `Dodo refund of payment '${paymentId}' failed`,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  async registerWebhook(
+    apiKey: string,
+    url: string,
+    mode: PaymentMode
+  ): Promise<string> {
+    const client = new DodoPayments({
+      bearerToken: apiKey,
+      environment: environmentFor(mode),
+    });
+
+    try {
+      const webhook = await client.webhooks.create({
+        url,
+        description: `Scrawn ${mode === "production" ? "live" : "test"} payment webhook`,
+        filter_types: [...WEBHOOK_EVENT_TYPES],
+      });
+      return (await client.webhooks.retrieveSecret(webhook.id)).secret;
+    } catch (error) {
+      throw PaymentError.providerRequestFailed(
+        `Failed to register webhook with Dodo: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+}
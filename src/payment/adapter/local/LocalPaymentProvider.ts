@@ -0,0 +1,350 @@
+import {
+  createHmac,
+  randomBytes,
+  randomUUID,
+  timingSafeEqual,
+} from "node:crypto";
+import { DateTime } from "luxon";
+import { PaymentError } from "../../../errors/payment";
+import { getMetadata } from "../../../storage/db/postgres/helpers/metadata";
+import type {
+  CheckoutParams,
+  CheckoutResult,
+  PaymentMode,
+  PaymentProvider,
+  PaymentProviderConfig,
+  ProviderCustomer,
+  ProviderWebhookEvent,
+  WebhookRequest,
+} from "../../../interface/payment/PaymentProvider";
+
+// Webhooks older than this are rejected as replays
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+export type LocalCheckoutOutcome = "succeeded" | "failed";
+
+export interface LocalCheckout {
+  sessionId: string;
+  mode: PaymentMode;
+  amount: number;
+  currency: string;
+  userId: string;
+  customerId: string | null;
+  // Prefilled from the customer, if the checkout has one
+  email: string | null;
+  returnUrl: string | null;
+  outcome: LocalCheckoutOutcome | null;
+}
+
+interface LocalPayment {
+  mode: PaymentMode;
+  amount: number;
+  refunded: number;
+}
+
+interface LocalWebhookPayload {
+  business_id: string;
+  type: string;
+  timestamp: string;
+  data: Record<string, unknown>;
+}
+
+function localId(prefix: string): string {
+  return `${prefix}_local_${randomUUID().replace(/-/g, "")}`;
+}
+
+function signWebhook(
+  secret: string,
+  webhookId: string,
+  timestamp: number,
+  body: string
+): string {
+  return createHmac("sha256", secret)
+    .update(`${webhookId}.${timestamp}.${body}`)
+    .digest("base64");
+}
+
+/**
+ * A payment provider that needs no account or network access. Checkouts
+ * are served by Scrawn itself at /payment/local/checkout/:sessionId, where
+ * a developer decides the outcome; the provider then delivers a signed
+ * webhook to /webhooks/payment/createdCheckout like a real provider would.
+ *
+ * Checkouts are kept in memory, so they only survive as long as the
+ * process, and the provider refuses to run in production.
+ */
+export class LocalPaymentProvider implements PaymentProvider {
+  readonly name = "local";
+
+  private readonly webhookSecret =
+    process.env.LOCAL_PAYMENT_WEBHOOK_SECRET ??
+    randomBytes(32).toString("base64");
+  private checkouts = new Map<string, LocalCheckout>();
+  private payments = new Map<string, LocalPayment>();
+  private customers = new Map<string, ProviderCustomer>();
+
+  private assertAvailable(): void {
+    if (process.env.NODE_ENV === "production") {
+      throw PaymentError.providerRequestFailed(
+        "The local payment provider is not available in production"
+      );
+    }
+  }
+
+  async getCheckoutConfig(_mode: PaymentMode): Promise<PaymentProviderConfig> {
+    const metadata = await getMetadata();
+    return {
+      productId: "local",
+      returnUrl: metadata?.redirect_url ?? null,
+      currency: metadata?.currency ?? "usd",
+    };
+  }
+
+  async createCheckout(
+    config: PaymentProviderConfig,
+    params: CheckoutParams,
+    mode: PaymentMode
+  ): Promise<CheckoutResult> {
+    this.assertAvailable();
+
+    const sessionId = localId("cks");
+    this.checkouts.set(sessionId, {
+      sessionId,
+      mode,
+      amount: params.customPrice,
+      currency: config.currency,
+      userId: params.userId,
+      customerId: params.customer?.providerCustomerId ?? null,
+      email: params.customer?.email ?? null,
+      returnUrl: config.returnUrl,
+      outcome: null,
+    });
+
+    return {
+      sessionId,
+      checkoutUrl: `${process.env.APP_URL}/payment/local/checkout/${sessionId}`,
+    };
+  }
+
+  getCheckout(sessionId: string): LocalCheckout | undefined {
+    return this.checkouts.get(sessionId);
+  }
+
+  async syncCustomer(
+    customer: ProviderCustomer,
+    _mode: PaymentMode
+  ): Promise<string> {
+    this.assertAvailable();
+
+    const customerId = customer.providerCustomerId ?? localId("cus");
+    this.customers.set(customerId, {
+      ...customer,
+      providerCustomerId: customerId,
+    });
+    return customerId;
+  }
+
+  getCustomer(customerId: string): ProviderCustomer | undefined {
+    return this.customers.get(customerId);
+  }
+
+  /**
+   * Settles a pending checkout and delivers its payment webhook.
+   *
+   * @returns The status code the webhook endpoint answered with
+   */
+  async completeCheckout(
+    sessionId: string,
+    outcome: LocalCheckoutOutcome
+  ): Promise<number> {
+    this.assertAvailable();
+
+    const checkout = this.checkouts.get(sessionId);
+    if (!checkout || checkout.outcome) {
+      throw PaymentError.validationFailed(
+        `No pending local checkout '${sessionId}'`
+      );
+    }
+    checkout.outcome = outcome;
+
+    const paymentId = localId("pay");
+    if (outcome === "succeeded") {
+      this.payments.set(paymentId, {
+        mode: checkout.mode,
+        amount: checkout.amount,
+        refunded: 0,
+      });
+    }
+
+    return this.deliver(
+      `payment.${outcome}`,
+      {
+        payment_id: paymentId,
+        checkout_session_id: sessionId,
+        total_amount: checkout.amount,
+        currency: checkout.currency,
+      },
+      checkout.mode
+    );
+  }
+
+  async unwrapWebhook(
+    request: WebhookRequest,
+    _mode: PaymentMode
+  ): Promise<ProviderWebhookEvent | null> {
+    this.assertAvailable();
+
+    const webhookId = request.headers["webhook-id"];
+    const timestamp = Number(request.headers["webhook-timestamp"]);
+    const signatures = (request.headers["webhook-signature"] ?? "")
+      .split(" ")
+      .map((entry) => entry.split(",")[1] ?? "");
+
+    if (
+      !webhookId ||
+      !Number.isInteger(timestamp) ||
+      Math.abs(DateTime.utc().toSeconds() - timestamp) >
+        WEBHOOK_TOLERANCE_SECONDS
+    ) {
+      return null;
+    }
+
+    const expected = Buffer.from(
+      signWebhook(this.webhookSecret, webhookId, timestamp, request.rawBody)
+    );
+    const verified = signatures.some((signature) => {
+      const actual = Buffer.from(signature);
+      return (
+        actual.length === expected.length && timingSafeEqual(actual, expected)
+      );
+    });
+    if (!verified) {
+      return null;
+    }
+
+    let payload: LocalWebhookPayload;
+    try {
+      payload = JSON.parse(request.rawBody);
+    } catch (error) {
+      throw PaymentError.invalidWebhookPayload(
+        "body is not JSON",
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+    if (!payload.type || !payload.data) {
+      throw PaymentError.invalidWebhookPayload("missing type or data");
+    }
+
+    const raw = { ...payload };
+    const data = payload.data;
+    switch (payload.type) {
+      case "payment.succeeded":
+      case "payment.failed":
+        return {
+          type: payload.type,
+          paymentId: String(data.payment_id),
+          checkoutSessionId:
+            typeof data.checkout_session_id === "string"
+              ? data.checkout_session_id
+              : null,
+          amount: Number(data.total_amount),
+          raw,
+        };
+      case "refund.succeeded":
+        return {
+          type: payload.type,
+          paymentId: String(data.payment_id),
+          refundId: String(data.refund_id),
+          amount: typeof data.amount === "number" ? data.amount : null,
+          partial: data.is_partial === true,
+          raw,
+        };
+      default:
+        return { type: "ignored", providerType: payload.type };
+    }
+  }
+
+  async refund(
+    paymentId: string,
+    amount: number | null,
+    mode: PaymentMode
+  ): Promise<string> {
+    this.assertAvailable();
+
+    const payment = this.payments.get(paymentId);
+    if (!payment || payment.mode !== mode) {
+      throw PaymentError.providerRequestFailed(
+        `No local payment '${paymentId}' to refund`
+      );
+    }
+
+    const refundAmount = Math.min(
+      amount ?? payment.amount,
+      payment.amount - payment.refunded
+    );
+    payment.refunded += refundAmount;
+
+    const refundId = localId("ref");
+    await this.deliver(
+      "refund.succeeded",
+      {
+        payment_id: paymentId,
+        refund_id: refundId,
+        amount: refundAmount,
+        is_partial: payment.refunded < payment.amount,
+      },
+      mode
+    );
+    return refundId;
+  }
+
+  async registerWebhook(
+    _apiKey: string,
+    _url: string,
+    _mode: PaymentMode
+  ): Promise<string> {
+    return this.webhookSecret;
+  }
+
+  reset(): void {
+    // Nothing is cached from onboarding credentials
+  }
+
+  private async deliver(
+    type: string,
+    data: Record<string, unknown>,
+    mode: PaymentMode
+  ): Promise<number> {
+    const now = DateTime.utc();
+    const timestamp = Math.floor(now.toSeconds());
+    const webhookId = localId("msg");
+    const body = JSON.stringify({
+      business_id: "local",
+      type,
+      timestamp: now.toISO(),
+      data,
+    } satisfies LocalWebhookPayload);
+
+    try {
+      const response = await fetch(
+        `${process.env.APP_URL}/webhooks/payment/createdCheckout?mode=${mode}`,
+        {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            "webhook-id": webhookId,
+            "webhook-timestamp": String(timestamp),
+            "webhook-signature": `v1,${signWebhook(this.webhookSecret, webhookId, timestamp, body)}`,
+          },
+          body,
+        }
+      );
+      return response.status;
+    } catch (error) {
+      throw PaymentError.providerRequestFailed(
+        `Local ${type} webhook could not be delivered`,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+}
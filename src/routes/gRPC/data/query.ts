@@ -33,7 +33,7 @@ import type { ContextUnaryCall } from "../../../interface/types/context.js";
 
 interface FieldDef {
   col: AnyPgColumn;
-  cast: "text" | "integer" | "uuid" | "timestamptz" | "boolean";
+  cast: "text" | "integer" | "numeric" | "uuid" | "timestamptz" | "boolean";
 }
 
 interface TableDef {
@@ -83,7 +83,10 @@ const TABLE_REGISTRY: Record<string, TableDef> = {
     fields: {
       id: { col: tagsTable.id, cast: "uuid" },
       key: { col: tagsTable.key, cast: "text" },
-      amount: { col: tagsTable.amount, cast: "integer" },
+      amount: { col: tagsTable.amount, cast: "numeric" },
+      version: { col: tagsTable.version, cast: "integer" },
+      effectiveFrom: { col: tagsTable.effectiveFrom, cast: "timestamptz" },
+      effectiveTo: { col: tagsTable.effectiveTo, cast: "timestamptz" },
     },
   },
   expressions: {
@@ -93,6 +96,12 @@ const TABLE_REGISTRY: Record<string, TableDef> = {
       id: { col: expressionsTable.id, cast: "uuid" },
       key: { col: expressionsTable.key, cast: "text" },
       expr: { col: expressionsTable.expr, cast: "text" },
+      version: { col: expressionsTable.version, cast: "integer" },
+      effectiveFrom: {
+        col: expressionsTable.effectiveFrom,
+        cast: "timestamptz",
+      },
+      effectiveTo: { col: expressionsTable.effectiveTo, cast: "timestamptz" },
     },
   },
   metadata: {
@@ -126,6 +135,15 @@ function castValue(
     }
     return n;
   }
+  if (fieldDef.cast === "numeric") {
+    const n = Number(value);
+    if (!Number.isFinite(n)) {
+      throw EventError.validationFailed(
+        `Invalid numeric value '${value}' for field '${fieldName}': must be a finite number`
+      );
+    }
+    return n;
+  }
   return value;
 }
 
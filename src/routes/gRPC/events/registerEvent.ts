@@ -33,7 +33,10 @@ export async function registerEvent(
       );
     }
 
-    const eventSkeleton = await registerEventSchema.parseAsync({ ...req });
+    const eventSkeleton = await registerEventSchema.parseAsync({
+      ...req,
+      mode: auth.mode,
+    });
 
     wideEventBuilder?.setUser(eventSkeleton.userId);
     wideEventBuilder?.setEventContext({ eventType: eventSkeleton.type });
@@ -25,6 +25,8 @@ function getFailureCode(err: unknown): string {
   }
   if (err instanceof EventError) {
     if (err.type === "UNSUPPORTED_EVENT_TYPE") return "UNSUPPORTED_EVENT_TYPE";
+    if (err.type === "QUOTA_EXCEEDED") return "QUOTA_EXCEEDED";
+    if (err.type === "LATE_EVENT") return "LATE_EVENT";
     return "VALIDATION_FAILED";
   }
   if (err instanceof ZodError) {
@@ -47,6 +49,10 @@ function publicMessageForCode(code: string): string {
       return "Price calculation failed";
     case "UNSUPPORTED_EVENT_TYPE":
       return "Unsupported event type";
+    case "QUOTA_EXCEEDED":
+      return "Spending limit reached";
+    case "LATE_EVENT":
+      return "Event reported in an already billed period";
     case "STORAGE_FAILURE":
       return "Storage error";
     default:
@@ -88,7 +94,10 @@ export async function streamEvents(
 
     for await (const req of call) {
       try {
-        const eventSkeleton = await streamEventSchema.parseAsync({ ...req });
+        const eventSkeleton = await streamEventSchema.parseAsync({
+          ...req,
+          mode: auth.mode,
+        });
 
         wideEventBuilder?.setUser(eventSkeleton.userId);
         wideEventBuilder?.setEventContext({ eventType: "AI_TOKEN_USAGE" });
@@ -10,29 +10,13 @@ import {
 import { PaymentError } from "../../../errors/payment";
 import { AuthError } from "../../../errors/auth";
 import { formatZodError } from "../../../utils/formatZodError";
-import type {
-  PaymentProviderConfig,
-  CheckoutParams,
-} from "./paymentProvider.ts";
 import {
-  getPaymentProviderConfig,
-  createProviderCheckout,
-  type CheckoutResult,
-} from "./paymentProvider.ts";
-import { calculatePaymentPrice } from "../../../services/pricingService";
+  priceUnbilledUsage,
+  createUsageCheckout,
+} from "../../../services/checkoutService";
 import { apiKeyContextKey } from "../../../context/auth";
-import type { AuthContext } from "../../../context/auth";
 import { wideEventContextKey } from "../../../context/requestContext";
-import type { UserId } from "../../../config/identifiers";
-import { executeInTransaction } from "../../../storage/adapter/postgres/handlers/addEventUtils";
-import { DateTime } from "luxon";
-import { handleAddSession } from "../../../storage/db/postgres/helpers/sessions";
 import { type ContextUnaryCall } from "../../../interface/types/context.ts";
-import { getPostgresDB } from "../../../storage/db/postgres/db";
-import { checkIfExistingCheckoutLink } from "../../../storage/db/postgres/helpers/sessions";
-import { ensureUserExists } from "../../../storage/db/postgres/helpers/users";
-import { usersTable } from "../../../storage/db/postgres/schema";
-import { eq } from "drizzle-orm";
 
 export async function createCheckoutLink(
   call: ContextUnaryCall<CreateCheckoutLinkRequest, CreateCheckoutLinkResponse>,
@@ -64,68 +48,28 @@ export async function createCheckoutLink(
 
     const mode = auth.mode;
 
-    const config = await getPaymentProviderConfig(mode);
     const validatedData = validateRequest(req);
     wideEventBuilder?.setUser(validatedData.userId);
 
-    const db = getPostgresDB();
-
-    const beforeTimestamp = DateTime.utc();
-
-    const custom_price = await calculatePrice(
-      validatedData.userId,
-      beforeTimestamp,
-      auth
-    );
-    wideEventBuilder?.setPaymentContext({ priceAmount: custom_price });
+    const usage = await priceUnbilledUsage(validatedData.userId, auth);
+    if (usage.amount === 0) {
+      throw usage.prepaid
+        ? PaymentError.wrongBillingMode(
+            `User ${validatedData.userId} is on prepaid billing; buy credit with CreateTopUpLink instead`
+          )
+        : PaymentError.nothingToBill(validatedData.userId);
+    }
+    wideEventBuilder?.setPaymentContext({ priceAmount: usage.amount });
 
-    const checkoutResult = await createCheckoutSession(
-      config,
-      custom_price,
+    const { checkoutLink, sessionId } = await createUsageCheckout(
       validatedData.userId,
-      auth.apiKeyId,
-      beforeTimestamp,
+      usage,
+      auth,
       mode
     );
-
-    const checkoutLink = await executeInTransaction(
-      db,
-      "create checkout link",
-      async (txn) => {
-        await ensureUserExists(validatedData.userId, txn);
-
-        await txn
-          .select({ id: usersTable.id })
-          .from(usersTable)
-          .where(eq(usersTable.id, validatedData.userId))
-          .for("update");
-
-        const existingId = await checkIfExistingCheckoutLink(
-          txn,
-          validatedData.userId,
-          mode
-        );
-
-        if (existingId) {
-          const proxyUrl = `${process.env.APP_URL}/checkout/${existingId}`;
-          return proxyUrl;
-        }
-
-        const sessionResult = await handleAddSession(
-          validatedData.userId,
-          checkoutResult.sessionId,
-          beforeTimestamp,
-          auth.apiKeyId,
-          mode,
-          checkoutResult.checkoutUrl,
-          txn
-        );
-        wideEventBuilder?.setPaymentContext({ sessionId: sessionResult.id });
-
-        const proxyUrl = `${process.env.APP_URL}/checkout/${sessionResult.id}`;
-        return proxyUrl;
-      }
-    );
+    if (sessionId) {
+      wideEventBuilder?.setPaymentContext({ sessionId });
+    }
 
     callback?.(null, CreateCheckoutLinkResponse.create({ checkoutLink }));
   } catch (error) {
@@ -145,57 +89,3 @@ function validateRequest(
     throw formatZodError(error, (msg) => PaymentError.validationFailed(msg));
   }
 }
-
-async function calculatePrice(
-  userId: UserId,
-  beforeTimestamp: DateTime,
-  auth: AuthContext
-): Promise<number> {
-  const price = await calculatePaymentPrice(userId, beforeTimestamp, auth);
-
-  if (typeof price !== "number" || isNaN(price) || price < 0) {
-    throw PaymentError.priceCalculationFailed(
-      userId,
-      new Error(`Invalid price: ${price}`)
-    );
-  }
-
-  return price;
-}
-
-async function createCheckoutSession(
-  config: PaymentProviderConfig,
-  customPrice: number,
-  userId: string,
-  apiKeyId: string,
-  beforeTimestamp: DateTime,
-  mode: "test" | "production"
-): Promise<CheckoutResult> {
-  const params: CheckoutParams = {
-    customPrice,
-    userId,
-    apiKeyId,
-  };
-
-  const checkoutResult = await createProviderCheckout(config, params, mode);
-
-  if (
-    !checkoutResult.checkoutUrl ||
-    typeof checkoutResult.checkoutUrl !== "string" ||
-    checkoutResult.checkoutUrl.trim().length === 0
-  ) {
-    throw PaymentError.invalidCheckoutResponse(
-      "No valid checkout URL in response"
-    );
-  }
-
-  try {
-    new URL(checkoutResult.checkoutUrl);
-  } catch {
-    throw PaymentError.invalidCheckoutResponse(
-      `Invalid URL format: ${checkoutResult.checkoutUrl}`
-    );
-  }
-
-  return checkoutResult;
-}
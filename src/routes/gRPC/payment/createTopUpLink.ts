@@ -0,0 +1,125 @@
+import type { sendUnaryData } from "@grpc/grpc-js";
+import {
+  CreateTopUpLinkRequest,
+  CreateTopUpLinkResponse,
+} from "../../../gen/payment/v1/payment.ts";
+import {
+  createTopUpLinkSchema,
+  type CreateTopUpLinkSchemaType,
+} from "../../../zod/payment";
+import { PaymentError } from "../../../errors/payment";
+import { AuthError } from "../../../errors/auth";
+import { formatZodError } from "../../../utils/formatZodError";
+import {
+  getPaymentProviderConfig,
+  createProviderCheckout,
+} from "./paymentProvider.ts";
+import { apiKeyContextKey } from "../../../context/auth";
+import { wideEventContextKey } from "../../../context/requestContext";
+import { executeInTransaction } from "../../../storage/adapter/postgres/handlers/addEventUtils";
+import { DateTime } from "luxon";
+import { handleAddSession } from "../../../storage/db/postgres/helpers/sessions";
+import { type ContextUnaryCall } from "../../../interface/types/context.ts";
+import { getPostgresDB } from "../../../storage/db/postgres/db";
+import { ensureUserExists } from "../../../storage/db/postgres/helpers/users";
+import { fetchPrepaidSince } from "../../../services/walletService";
+import { findCheckoutCustomer } from "../../../services/customerService";
+
+export async function createTopUpLink(
+  call: ContextUnaryCall<CreateTopUpLinkRequest, CreateTopUpLinkResponse>,
+  callback?: sendUnaryData<CreateTopUpLinkResponse>
+): Promise<void> {
+  const req = call.request;
+  const wideEventBuilder = call[wideEventContextKey];
+
+  try {
+    const auth = call[apiKeyContextKey];
+    if (!auth) {
+      return callback?.(AuthError.invalidAPIKey("API key context not found"));
+    }
+
+    if (auth.role === "dashboard") {
+      return callback?.(
+        AuthError.permissionDenied("Dashboard keys cannot create top-up links")
+      );
+    }
+
+    if (!auth.mode) {
+      return callback?.(
+        AuthError.permissionDenied("Auth mode not set on API key")
+      );
+    }
+
+    const mode = auth.mode;
+
+    const config = await getPaymentProviderConfig(mode);
+    const validatedData = validateRequest(req);
+    wideEventBuilder?.setUser(validatedData.userId);
+    wideEventBuilder?.setPaymentContext({ priceAmount: validatedData.amount });
+
+    if (!(await fetchPrepaidSince(validatedData.userId))) {
+      throw PaymentError.wrongBillingMode(
+        `User ${validatedData.userId} is on post-paid billing; switch them to prepaid before buying credit`
+      );
+    }
+
+    const checkoutResult = await createProviderCheckout(
+      config,
+      {
+        customPrice: validatedData.amount,
+        userId: validatedData.userId,
+        apiKeyId: auth.apiKeyId,
+        customer: await findCheckoutCustomer(validatedData.userId, mode),
+      },
+      mode
+    );
+
+    try {
+      new URL(checkoutResult.checkoutUrl);
+    } catch {
+      throw PaymentError.invalidCheckoutResponse(
+        `Invalid URL format: ${checkoutResult.checkoutUrl}`
+      );
+    }
+
+    const checkoutLink = await executeInTransaction(
+      getPostgresDB(),
+      "create top-up link",
+      async (txn) => {
+        await ensureUserExists(validatedData.userId, txn);
+
+        // billed_upto is unused for top-ups; they never move last_billed_timestamp
+        const sessionResult = await handleAddSession(
+          validatedData.userId,
+          checkoutResult.sessionId,
+          DateTime.utc(),
+          auth.apiKeyId,
+          mode,
+          checkoutResult.checkoutUrl,
+          "top_up",
+          txn
+        );
+        wideEventBuilder?.setPaymentContext({ sessionId: sessionResult.id });
+
+        return `${process.env.APP_URL}/checkout/${sessionResult.id}`;
+      }
+    );
+
+    callback?.(null, CreateTopUpLinkResponse.create({ checkoutLink }));
+  } catch (error) {
+    callback?.(error as Error);
+  }
+}
+
+function validateRequest(
+  req: CreateTopUpLinkRequest
+): CreateTopUpLinkSchemaType {
+  try {
+    return createTopUpLinkSchema.parse({
+      userId: req.userId,
+      amount: req.amount,
+    });
+  } catch (error) {
+    throw formatZodError(error, (msg) => PaymentError.validationFailed(msg));
+  }
+}
@@ -0,0 +1,65 @@
+import type { sendUnaryData } from "@grpc/grpc-js";
+import {
+  GetBalanceRequest,
+  GetBalanceResponse,
+} from "../../../gen/payment/v1/payment.ts";
+import {
+  getBalanceSchema,
+  type GetBalanceSchemaType,
+} from "../../../zod/payment";
+import { PaymentError } from "../../../errors/payment";
+import { AuthError } from "../../../errors/auth";
+import { formatZodError } from "../../../utils/formatZodError";
+import { apiKeyContextKey } from "../../../context/auth";
+import { wideEventContextKey } from "../../../context/requestContext";
+import { type ContextUnaryCall } from "../../../interface/types/context.ts";
+import { getCreditBalance } from "../../../storage/db/postgres/helpers/wallet";
+import { getMetadata } from "../../../storage/db/postgres/helpers/metadata";
+
+export async function getBalance(
+  call: ContextUnaryCall<GetBalanceRequest, GetBalanceResponse>,
+  callback?: sendUnaryData<GetBalanceResponse>
+): Promise<void> {
+  const req = call.request;
+  const wideEventBuilder = call[wideEventContextKey];
+
+  try {
+    const auth = call[apiKeyContextKey];
+    if (!auth) {
+      return callback?.(AuthError.invalidAPIKey("API key context not found"));
+    }
+
+    if (!auth.mode) {
+      return callback?.(
+        AuthError.permissionDenied("Auth mode not set on API key")
+      );
+    }
+
+    const validatedData = validateRequest(req);
+    wideEventBuilder?.setUser(validatedData.userId);
+
+    const [balance, metadata] = await Promise.all([
+      getCreditBalance(validatedData.userId, auth.mode),
+      getMetadata(),
+    ]);
+
+    callback?.(
+      null,
+      GetBalanceResponse.create({
+        userId: validatedData.userId,
+        balance,
+        currency: metadata?.currency ?? "usd",
+      })
+    );
+  } catch (error) {
+    callback?.(error as Error);
+  }
+}
+
+function validateRequest(req: GetBalanceRequest): GetBalanceSchemaType {
+  try {
+    return getBalanceSchema.parse({ userId: req.userId });
+  } catch (error) {
+    throw formatZodError(error, (msg) => PaymentError.validationFailed(msg));
+  }
+}
@@ -1,144 +1,33 @@
-import DodoPayments from "dodopayments";
-import { PaymentError } from "../../../errors/payment";
-import { getMetadata } from "../../../storage/db/postgres/helpers/metadata";
-import { decrypt } from "../../../utils/encryptMetadata.ts";
-
-let liveClient: DodoPayments | null = null;
-let testClient: DodoPayments | null = null;
-
-function clearClients(): void {
-  liveClient = null;
-  testClient = null;
-}
-
-export async function getDodoClient(
-  mode?: "test" | "production"
-): Promise<DodoPayments> {
-  if (!mode) {
-    mode = process.env.NODE_ENV === "production" ? "production" : "test";
-  }
-
-  if (mode === "production") {
-    if (liveClient) return liveClient;
-
-    const metadata = await getMetadata();
-    const apiKey = metadata?.dodo_live_api_key;
-    if (!apiKey) {
-      throw PaymentError.missingApiKey();
-    }
-
-    liveClient = new DodoPayments({
-      bearerToken: decrypt(apiKey),
-      environment: "live_mode",
-      webhookKey: metadata?.dodo_live_webhook_secret
-        ? decrypt(metadata.dodo_live_webhook_secret)
-        : undefined,
-    });
-    return liveClient;
-  }
-
-  if (testClient) return testClient;
-
-  const metadata = await getMetadata();
-  const apiKey = metadata?.dodo_test_api_key;
-  if (!apiKey) {
-    throw PaymentError.missingApiKey();
-  }
-
-  testClient = new DodoPayments({
-    bearerToken: decrypt(apiKey),
-    environment: "test_mode",
-    webhookKey: metadata?.dodo_test_webhook_secret
-      ? decrypt(metadata.dodo_test_webhook_secret)
-      : undefined,
-  });
-  return testClient;
-}
-
-// Re-export for callers who need to invalidate cached clients after onboarding updates
-export { clearClients };
-
-export interface PaymentProviderConfig {
-  productId: string;
-  returnUrl: string | null;
-  currency: string;
-}
-
-export interface CheckoutParams {
-  customPrice: number;
-  userId: string;
-  apiKeyId: string;
-}
-
-export interface CheckoutResult {
-  sessionId: string;
-  checkoutUrl: string;
-}
+import { PaymentProviderFactory } from "../../../factory/PaymentProviderFactory.ts";
+import type {
+  CheckoutParams,
+  CheckoutResult,
+  PaymentMode,
+  PaymentProviderConfig,
+} from "../../../interface/payment/PaymentProvider.ts";
+
+export type {
+  CheckoutParams,
+  CheckoutResult,
+  PaymentProviderConfig,
+} from "../../../interface/payment/PaymentProvider.ts";
 
 export async function getPaymentProviderConfig(
-  mode: "test" | "production"
+  mode: PaymentMode
 ): Promise<PaymentProviderConfig> {
   if (!mode) {
     mode = process.env.NODE_ENV === "production" ? "production" : "test";
   }
 
-  const metadata = await getMetadata();
-
-  if (!metadata) {
-    throw PaymentError.missingMetadata();
-  }
-
-  const productId =
-    mode === "production"
-      ? metadata?.dodo_live_product_id
-      : metadata?.dodo_test_product_id;
-  const returnUrl = metadata?.redirect_url ?? null;
-
-  if (!productId) {
-    throw PaymentError.missingProductId();
-  }
-
-  return { productId, returnUrl, currency: metadata.currency };
+  const provider = await PaymentProviderFactory.getConfiguredPaymentProvider();
+  return provider.getCheckoutConfig(mode);
 }
 
 export async function createProviderCheckout(
   config: PaymentProviderConfig,
   params: CheckoutParams,
-  mode: "test" | "production"
+  mode: PaymentMode
 ): Promise<CheckoutResult> {
-  const client = await getDodoClient(mode);
-
-  const session = await client.checkoutSessions.create({
-    product_cart: [
-      {
-        product_id: config.productId,
-        quantity: 1,
-        amount: params.customPrice,
-      },
-    ],
-    metadata: {
-      user_id: params.userId,
-      api_key_id: params.apiKeyId,
-    },
-    ...(config.returnUrl ? { return_url: config.returnUrl } : {}),
-    billing_currency:
-      config.currency.toUpperCase() as import("dodopayments/resources/misc").Currency,
-  });
-
-  if (!session.checkout_url) {
-    throw PaymentError.invalidCheckoutResponse(
-      "No checkout URL returned from Dodo"
-    );
-  }
-
-  if (!session.session_id) {
-    throw PaymentError.invalidCheckoutResponse(
-      "No session ID returned from Dodo"
-    );
-  }
-
-  return {
-    sessionId: session.session_id,
-    checkoutUrl: session.checkout_url,
-  };
+  const provider = await PaymentProviderFactory.getConfiguredPaymentProvider();
+  return provider.createCheckout(config, params, mode);
 }
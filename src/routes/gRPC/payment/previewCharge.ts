@@ -0,0 +1,74 @@
+import type { sendUnaryData } from "@grpc/grpc-js";
+import {
+  PreviewChargeRequest,
+  PreviewChargeResponse,
+} from "../../../gen/payment/v1/payment.ts";
+import {
+  previewChargeSchema,
+  type PreviewChargeSchemaType,
+} from "../../../zod/payment";
+import { PaymentError } from "../../../errors/payment";
+import { AuthError } from "../../../errors/auth";
+import { formatZodError } from "../../../utils/formatZodError";
+import { previewCharge as previewUsageCharge } from "../../../services/checkoutService";
+import { apiKeyContextKey } from "../../../context/auth";
+import { wideEventContextKey } from "../../../context/requestContext";
+import { type ContextUnaryCall } from "../../../interface/types/context.ts";
+
+export async function previewCharge(
+  call: ContextUnaryCall<PreviewChargeRequest, PreviewChargeResponse>,
+  callback?: sendUnaryData<PreviewChargeResponse>
+): Promise<void> {
+  const req = call.request;
+  const wideEventBuilder = call[wideEventContextKey];
+
+  try {
+    const auth = call[apiKeyContextKey];
+    if (!auth) {
+      return callback?.(AuthError.invalidAPIKey("API key context not found"));
+    }
+
+    if (!auth.mode) {
+      return callback?.(
+        AuthError.permissionDenied("Auth mode not set on API key")
+      );
+    }
+
+    const validatedData = validateRequest(req);
+    wideEventBuilder?.setUser(validatedData.userId);
+
+    const preview = await previewUsageCharge(validatedData.userId, auth);
+    wideEventBuilder?.setPaymentContext({ priceAmount: preview.total });
+
+    callback?.(
+      null,
+      PreviewChargeResponse.create({
+        userId: validatedData.userId,
+        total: preview.total,
+        currency: preview.currency,
+        periodStart: preview.periodStart ?? "",
+        periodEnd: preview.periodEnd,
+        breakdown: preview.breakdown.map((line) => ({
+          eventKind: line.eventKind ?? "",
+          model: line.model ?? "",
+          basicUsageType: line.basicUsageType ?? "",
+          quantity: line.quantity,
+          amount: line.amount,
+          planId: line.planId ?? "",
+          planName: line.planName ?? "",
+        })),
+        discount: preview.discount,
+      })
+    );
+  } catch (error) {
+    callback?.(error as Error);
+  }
+}
+
+function validateRequest(req: PreviewChargeRequest): PreviewChargeSchemaType {
+  try {
+    return previewChargeSchema.parse({ userId: req.userId });
+  } catch (error) {
+    throw formatZodError(error, (msg) => PaymentError.validationFailed(msg));
+  }
+}
@@ -0,0 +1,380 @@
+import type { FastifyRequest, FastifyReply } from "fastify";
+import * as Sentry from "@sentry/bun";
+import { ZodError } from "zod";
+import { z } from "zod";
+import {
+  createWideEventBuilder,
+  generateRequestId,
+  type WideEventBuilder,
+} from "../../../context/requestContext.ts";
+import { logger } from "../../../errors/logger.ts";
+import { AuthError } from "../../../errors/auth.ts";
+import { authenticateHttpApiKey } from "../../../utils/authenticateHttpApiKey.ts";
+import { USER_ID_CONFIG } from "../../../config/identifiers.ts";
+import {
+  listAllowances,
+  createAllowance,
+  updateAllowanceQuantity,
+  deleteAllowance,
+  type Allowance,
+} from "../../../storage/db/postgres/helpers/allowances.ts";
+import { findPriceBook } from "../../../storage/db/postgres/helpers/priceBooks.ts";
+import {
+  fetchAllowanceStatus,
+  type AllowanceStatus,
+} from "../../../services/allowanceService.ts";
+
+const quantitySchema = z
+  .number()
+  .int("Quantity must be a whole number of units")
+  .positive("Quantity must be positive");
+
+const allowanceScopeSchema = z.object({
+  quantity: quantitySchema,
+  priceBookId: z.string().uuid("Invalid price book ID").optional(),
+});
+
+const createAllowanceSchema = z.union([
+  allowanceScopeSchema.extend({
+    eventKind: z.enum(["BASIC_USAGE", "AI_TOKEN_USAGE"]),
+  }),
+  allowanceScopeSchema.extend({
+    tag: z.string().min(1, "Tag is required").max(128),
+  }),
+]);
+
+const updateAllowanceSchema = z.object({
+  quantity: quantitySchema,
+});
+
+const allowanceParamsSchema = z.object({
+  id: z.string().uuid("Invalid allowance ID"),
+});
+
+const userParamsSchema = z.object({
+  userId: USER_ID_CONFIG.validator,
+});
+
+// Dashboard keys have no mode of their own, so they pick one explicitly
+const userAllowancesQuerySchema = z.object({
+  mode: z.enum(["production", "test"]).optional(),
+});
+
+interface ListAllowancesResponse {
+  allowances: Allowance[];
+}
+
+interface AllowanceResponse {
+  allowance: Allowance;
+}
+
+interface UserAllowancesResponse {
+  userId: string;
+  mode: "production" | "test";
+  // Start of the billing period usage is counted from; null until the user
+  // has any usage
+  periodStart: string | null;
+  allowances: AllowanceStatus[];
+}
+
+interface MessageResponse {
+  message: string;
+}
+
+function notFound(
+  builder: WideEventBuilder,
+  reply: FastifyReply,
+  message: string
+): { error: string } {
+  builder.setError(404, { type: "NotFoundError", message });
+  reply.code(404);
+  return { error: message };
+}
+
+export async function handleListAllowances(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ListAllowancesResponse> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const allowances = await listAllowances();
+
+    builder.setSuccess(200).addContext({ allowanceCount: allowances.length });
+    reply.code(200);
+    return { allowances };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "list allowances route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { allowances: [] };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { allowances: [] };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleCreateAllowance(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<AllowanceResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const body = await request.body;
+    const validated = createAllowanceSchema.parse(body);
+
+    if (
+      validated.priceBookId &&
+      !(await findPriceBook(validated.priceBookId))
+    ) {
+      return notFound(
+        builder,
+        reply,
+        `Price book '${validated.priceBookId}' not found`
+      );
+    }
+
+    const target =
+      "tag" in validated
+        ? { tag: validated.tag }
+        : { eventKind: validated.eventKind };
+    const allowance = await createAllowance(
+      target,
+      validated.quantity,
+      validated.priceBookId ?? null
+    );
+
+    if (!allowance) {
+      const targetName =
+        "tag" in target ? `tag '${target.tag}'` : target.eventKind;
+      const scope = validated.priceBookId
+        ? `price book '${validated.priceBookId}'`
+        : "global pricing";
+      const message = `An allowance on ${targetName} already exists in ${scope}`;
+      builder.setError(409, { type: "ConflictError", message });
+      reply.code(409);
+      return { error: message };
+    }
+
+    builder.setSuccess(200).addContext({ allowanceId: allowance.id });
+    reply.code(200);
+    return { allowance };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "create allowance route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleUpdateAllowance(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<AllowanceResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = allowanceParamsSchema.parse(request.params);
+    const body = await request.body;
+    const validated = updateAllowanceSchema.parse(body);
+
+    const allowance = await updateAllowanceQuantity(
+      params.id,
+      validated.quantity
+    );
+
+    if (!allowance) {
+      return notFound(builder, reply, `Allowance '${params.id}' not found`);
+    }
+
+    builder.setSuccess(200).addContext({ allowanceId: params.id });
+    reply.code(200);
+    return { allowance };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "update allowance route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleDeleteAllowance(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<MessageResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = allowanceParamsSchema.parse(request.params);
+    const deleted = await deleteAllowance(params.id);
+
+    if (!deleted) {
+      return notFound(builder, reply, `Allowance '${params.id}' not found`);
+    }
+
+    builder.setSuccess(200).addContext({ allowanceId: params.id });
+    reply.code(200);
+    return { message: `Allowance '${params.id}' deleted` };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "delete allowance route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleGetUserAllowances(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<UserAllowancesResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    const auth = await authenticateHttpApiKey(authHeader);
+
+    const params = userParamsSchema.parse(request.params);
+    const query = userAllowancesQuerySchema.parse(request.query);
+    const mode = query.mode ?? auth.mode ?? "production";
+
+    const status = await fetchAllowanceStatus(params.userId, mode);
+
+    builder.setUser(params.userId);
+    builder
+      .setSuccess(200)
+      .addContext({ allowanceCount: status.allowances.length });
+    reply.code(200);
+    return { userId: params.userId, mode, ...status };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "get user allowances route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
@@ -0,0 +1,514 @@
+import type { FastifyRequest, FastifyReply } from "fastify";
+import * as Sentry from "@sentry/bun";
+import { ZodError } from "zod";
+import { z } from "zod";
+import {
+  createWideEventBuilder,
+  generateRequestId,
+  type WideEventBuilder,
+} from "../../../context/requestContext.ts";
+import { logger } from "../../../errors/logger.ts";
+import { AuthError } from "../../../errors/auth.ts";
+import { authenticateHttpApiKey } from "../../../utils/authenticateHttpApiKey.ts";
+import { USER_ID_CONFIG } from "../../../config/identifiers.ts";
+import {
+  listCoupons,
+  findCoupon,
+  createCoupon,
+  deleteCoupon,
+  findActiveUserCoupon,
+  attachCoupon,
+  detachCoupon,
+  type Coupon,
+  type ActiveUserCoupon,
+  type UserCoupon,
+} from "../../../storage/db/postgres/helpers/coupons.ts";
+
+const codeSchema = z
+  .string()
+  .min(1, "Coupon code is required")
+  .max(64)
+  .regex(
+    /^[A-Za-z0-9_-]+$/,
+    "Coupon code may only contain letters, digits, '_' and '-'"
+  );
+
+const createCouponSchema = z
+  .object({
+    code: codeSchema,
+    kind: z.enum(["percent", "amount", "free_periods"]),
+    value: z
+      .number()
+      .int("Value must be a whole number")
+      .positive("Value must be positive"),
+    maxRedemptions: z
+      .number()
+      .int("Max redemptions must be a whole number")
+      .positive("Max redemptions must be positive")
+      .nullable()
+      .default(null),
+    expiresAt: z.iso
+      .datetime({ offset: true, message: "Invalid expiry timestamp" })
+      .nullable()
+      .default(null),
+  })
+  .refine((coupon) => coupon.kind !== "percent" || coupon.value <= 100, {
+    message: "A percent coupon takes at most 100 percent off",
+    path: ["value"],
+  });
+
+const couponParamsSchema = z.object({
+  id: z.string().uuid("Invalid coupon ID"),
+});
+
+const userParamsSchema = z.object({
+  userId: USER_ID_CONFIG.validator,
+});
+
+const userCouponQuerySchema = z.object({
+  mode: z.enum(["production", "test"]).default("production"),
+});
+
+const attachCouponSchema = z.object({
+  code: codeSchema,
+  mode: z.enum(["production", "test"]).default("production"),
+});
+
+interface ListCouponsResponse {
+  coupons: Coupon[];
+}
+
+interface CouponResponse {
+  coupon: Coupon;
+}
+
+interface UserCouponResponse {
+  // Null when the user has no coupon left to use in the mode
+  userCoupon: ActiveUserCoupon | null;
+}
+
+interface AttachCouponResponse {
+  userCoupon: UserCoupon;
+}
+
+interface MessageResponse {
+  message: string;
+}
+
+function notFound(
+  builder: WideEventBuilder,
+  reply: FastifyReply,
+  id: string
+): { error: string } {
+  const message = `Coupon '${id}' not found`;
+  builder.setError(404, { type: "NotFoundError", message });
+  reply.code(404);
+  return { error: message };
+}
+
+function conflict(
+  builder: WideEventBuilder,
+  reply: FastifyReply,
+  message: string
+): { error: string } {
+  builder.setError(409, { type: "ConflictError", message });
+  reply.code(409);
+  return { error: message };
+}
+
+export async function handleListCoupons(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ListCouponsResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const coupons = await listCoupons();
+
+    builder.setSuccess(200).addContext({ couponCount: coupons.length });
+    reply.code(200);
+    return { coupons };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "list coupons route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleCreateCoupon(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<CouponResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const body = await request.body;
+    const validated = createCouponSchema.parse(body);
+
+    const coupon = await createCoupon(validated);
+
+    if (!coupon) {
+      return conflict(
+        builder,
+        reply,
+        `Coupon '${validated.code}' already exists`
+      );
+    }
+
+    builder.setSuccess(200).addContext({ couponId: coupon.id });
+    reply.code(200);
+    return { coupon };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "create coupon route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleGetCoupon(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<CouponResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = couponParamsSchema.parse(request.params);
+    const coupon = await findCoupon(params.id);
+
+    if (!coupon) {
+      return notFound(builder, reply, params.id);
+    }
+
+    builder.setSuccess(200).addContext({ couponId: params.id });
+    reply.code(200);
+    return { coupon };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "get coupon route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleDeleteCoupon(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<MessageResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = couponParamsSchema.parse(request.params);
+    const deleted = await deleteCoupon(params.id);
+
+    if (!deleted) {
+      return notFound(builder, reply, params.id);
+    }
+
+    builder.setSuccess(200).addContext({ couponId: params.id });
+    reply.code(200);
+    return { message: `Coupon '${params.id}' deleted` };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "delete coupon route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleGetUserCoupon(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<UserCouponResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = userParamsSchema.parse(request.params);
+    const query = userCouponQuerySchema.parse(request.query);
+    const userCoupon = await findActiveUserCoupon(params.userId, query.mode);
+
+    builder.setUser(params.userId);
+    builder
+      .setSuccess(200)
+      .addContext({ couponId: userCoupon?.couponId ?? null });
+    reply.code(200);
+    return { userCoupon };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "get user coupon route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleAttachCoupon(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<AttachCouponResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = userParamsSchema.parse(request.params);
+    const body = await request.body;
+    const validated = attachCouponSchema.parse(body);
+
+    const result = await attachCoupon(
+      params.userId,
+      validated.mode,
+      validated.code
+    );
+
+    if (result.status === "coupon_not_found") {
+      return notFound(builder, reply, validated.code);
+    }
+
+    if (result.status === "unavailable") {
+      return conflict(
+        builder,
+        reply,
+        `Coupon '${validated.code}' has expired or has no redemptions left`
+      );
+    }
+
+    builder.setUser(params.userId);
+    builder
+      .setSuccess(200)
+      .addContext({ couponId: result.userCoupon.couponId });
+    reply.code(200);
+    return { userCoupon: result.userCoupon };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "attach coupon route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleDetachCoupon(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<MessageResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = userParamsSchema.parse(request.params);
+    const query = userCouponQuerySchema.parse(request.query);
+    const detached = await detachCoupon(params.userId, query.mode);
+
+    builder.setUser(params.userId);
+    if (!detached) {
+      const message = `User '${params.userId}' has no coupon in ${query.mode} mode`;
+      builder.setError(404, { type: "NotFoundError", message });
+      reply.code(404);
+      return { error: message };
+    }
+
+    builder.setSuccess(200).addContext({ couponId: detached.couponId });
+    reply.code(200);
+    return {
+      message: `Coupon '${detached.couponId}' detached from user '${params.userId}'`,
+    };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "detach coupon route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
@@ -0,0 +1,450 @@
+import type { FastifyRequest, FastifyReply } from "fastify";
+import * as Sentry from "@sentry/bun";
+import { ZodError } from "zod";
+import { z } from "zod";
+import {
+  createWideEventBuilder,
+  generateRequestId,
+  type WideEventBuilder,
+} from "../../../context/requestContext.ts";
+import { logger } from "../../../errors/logger.ts";
+import { AuthError } from "../../../errors/auth.ts";
+import { authenticateHttpApiKey } from "../../../utils/authenticateHttpApiKey.ts";
+import { USER_ID_CONFIG } from "../../../config/identifiers.ts";
+import {
+  listCustomers,
+  searchCustomers,
+  findCustomer,
+  createCustomer,
+  updateCustomer,
+  deleteCustomer,
+  type Customer,
+} from "../../../storage/db/postgres/helpers/customers.ts";
+import { syncCustomer } from "../../../services/customerService.ts";
+
+const profileSchema = z.object({
+  email: z.email("Invalid email address").nullable(),
+  name: z.string().min(1, "Name must not be empty").max(256).nullable(),
+  externalReference: z
+    .string()
+    .min(1, "External reference must not be empty")
+    .max(256)
+    .nullable(),
+  metadata: z
+    .record(z.string().min(1).max(64), z.string().max(512))
+    .refine(
+      (metadata) => Object.keys(metadata).length <= 50,
+      "Metadata holds at most 50 keys"
+    )
+    .nullable(),
+});
+
+const createCustomerSchema = z.object({
+  id: USER_ID_CONFIG.validator,
+  email: profileSchema.shape.email.default(null),
+  name: profileSchema.shape.name.default(null),
+  externalReference: profileSchema.shape.externalReference.default(null),
+  metadata: profileSchema.shape.metadata.default(null),
+  mode: z.enum(["production", "test"]).default("production"),
+});
+
+const updateCustomerSchema = profileSchema
+  .partial()
+  .refine(
+    (changes) => Object.values(changes).some((value) => value !== undefined),
+    "Provide email, name, externalReference or metadata"
+  );
+
+const customerParamsSchema = z.object({
+  id: USER_ID_CONFIG.validator,
+});
+
+const listCustomersQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const searchCustomersQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search query is required").max(256),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+interface ListCustomersResponse {
+  customers: Customer[];
+}
+
+interface CustomerResponse {
+  customer: Customer;
+}
+
+interface MessageResponse {
+  message: string;
+}
+
+function notFound(
+  builder: WideEventBuilder,
+  reply: FastifyReply,
+  id: string
+): { error: string } {
+  const message = `Customer '${id}' not found`;
+  builder.setError(404, { type: "NotFoundError", message });
+  reply.code(404);
+  return { error: message };
+}
+
+function conflict(
+  builder: WideEventBuilder,
+  reply: FastifyReply,
+  message: string
+): { error: string } {
+  builder.setError(409, { type: "ConflictError", message });
+  reply.code(409);
+  return { error: message };
+}
+
+export async function handleListCustomers(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ListCustomersResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const query = listCustomersQuerySchema.parse(request.query);
+    const customers = await listCustomers(query.limit, query.offset);
+
+    builder.setSuccess(200).addContext({ customerCount: customers.length });
+    reply.code(200);
+    return { customers };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "list customers route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleSearchCustomers(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ListCustomersResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const query = searchCustomersQuerySchema.parse(request.query);
+    const customers = await searchCustomers(query.q, query.limit);
+
+    builder.setSuccess(200).addContext({ customerCount: customers.length });
+    reply.code(200);
+    return { customers };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "search customers route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleCreateCustomer(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<CustomerResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const body = await request.body;
+    const validated = createCustomerSchema.parse(body);
+
+    const result = await createCustomer(validated);
+
+    if (result.status === "exists") {
+      return conflict(
+        builder,
+        reply,
+        `Customer '${validated.id}' already exists`
+      );
+    }
+
+    if (result.status === "reference_taken") {
+      return conflict(
+        builder,
+        reply,
+        `External reference '${validated.externalReference}' is already in use`
+      );
+    }
+
+    const customer = await syncCustomer(result.customer);
+
+    builder.setUser(customer.id);
+    builder.setSuccess(200).addContext({
+      synced: customer.paymentProviderCustomerId !== null,
+    });
+    reply.code(200);
+    return { customer };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "create customer route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleGetCustomer(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<CustomerResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = customerParamsSchema.parse(request.params);
+    const customer = await findCustomer(params.id);
+
+    if (!customer) {
+      return notFound(builder, reply, String(params.id));
+    }
+
+    builder.setUser(params.id);
+    builder.setSuccess(200);
+    reply.code(200);
+    return { customer };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "get customer route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleUpdateCustomer(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<CustomerResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = customerParamsSchema.parse(request.params);
+    const body = await request.body;
+    const validated = updateCustomerSchema.parse(body);
+
+    const result = await updateCustomer(params.id, validated);
+
+    if (result.status === "not_found") {
+      return notFound(builder, reply, String(params.id));
+    }
+
+    if (result.status === "reference_taken") {
+      return conflict(
+        builder,
+        reply,
+        `External reference '${validated.externalReference}' is already in use`
+      );
+    }
+
+    const customer = await syncCustomer(result.customer);
+
+    builder.setUser(params.id);
+    builder.setSuccess(200).addContext({
+      synced: customer.paymentProviderCustomerId !== null,
+    });
+    reply.code(200);
+    return { customer };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "update customer route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleDeleteCustomer(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<MessageResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = customerParamsSchema.parse(request.params);
+    const deleted = await deleteCustomer(params.id);
+
+    if (!deleted) {
+      return notFound(builder, reply, String(params.id));
+    }
+
+    builder.setUser(params.id);
+    builder.setSuccess(200);
+    reply.code(200);
+    return { message: `Customer '${params.id}' deleted` };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "delete customer route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
@@ -10,14 +10,29 @@ import { logger } from "../../../errors/logger.ts";
 import { AuthError } from "../../../errors/auth.ts";
 import { EventError } from "../../../errors/event.ts";
 import { authenticateHttpApiKey } from "../../../utils/authenticateHttpApiKey.ts";
+import { DateTime } from "luxon";
+import { USER_ID_CONFIG } from "../../../config/identifiers.ts";
 import {
   listExpressions,
   createExpression,
   deleteExpression,
+  listExpressionHistory,
+  renameExpression,
+  type ExpressionHistoryEntry,
 } from "../../../storage/db/postgres/helpers/expressions.ts";
+import {
+  fetchDependencyIndex,
+  findDependencies,
+  findDependents,
+  type AffectedExpression,
+  type InvalidExpression,
+  type DependencySet,
+} from "../../../utils/dependencyGraph.ts";
 import {
   validateExprSyntax,
-  resolveExprRefsInExpression,
+  validateExprRefs,
+  evaluateExprWithTrace,
+  type ExprTrace,
 } from "../../../utils/parseExpr.ts";
 
 const createExpressionSchema = z.object({
@@ -25,6 +40,54 @@ const createExpressionSchema = z.object({
   expr: z.string().min(1, "Expression is required").max(2048),
 });
 
+const expressionParamsSchema = z.object({
+  key: z.string().min(1, "Expression key is required"),
+});
+
+// Deleting or renaming an expression that other live expressions use
+// needs force=true
+const forceQuerySchema = z.object({
+  force: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+const renameExpressionSchema = z.object({
+  to: z.string().min(1, "New expression key is required").max(128),
+});
+
+const dependenciesQuerySchema = z.object({
+  // Resolve references as seen by users of this price book
+  priceBook: z.string().min(1).optional(),
+});
+
+const scheduleExpressionSchema = z.object({
+  expr: z.string().min(1, "Expression is required").max(2048),
+  effectiveFrom: z.iso
+    .datetime({ offset: true, message: "Invalid ISO 8601 timestamp" })
+    .transform((value) => DateTime.fromISO(value, { zone: "utc" }))
+    .refine((value) => value > DateTime.utc(), {
+      message: "effectiveFrom must be in the future",
+    }),
+});
+
+const tokenCount = z.number().int().min(0);
+
+const evaluateExpressionSchema = z.object({
+  expr: z.string().min(1, "Expression is required").max(2048),
+  tokenContext: z
+    .object({
+      inputTokens: tokenCount.optional(),
+      outputTokens: tokenCount.optional(),
+      inputCacheTokens: tokenCount.optional(),
+      outputCacheTokens: tokenCount.optional(),
+    })
+    .optional(),
+  // Applies this user's price book overrides
+  userId: USER_ID_CONFIG.validator.optional(),
+});
+
 interface ListExpressionsResponse {
   expressions: string[];
 }
@@ -33,6 +96,46 @@ interface MessageResponse {
   message: string;
 }
 
+interface ImpactResponse {
+  message: string;
+  impact: { affected: AffectedExpression[]; invalid: InvalidExpression[] };
+}
+
+interface BreakingChangeError {
+  error: string;
+  impact: { affected: AffectedExpression[]; invalid: InvalidExpression[] };
+}
+
+interface ExpressionDependenciesResponse {
+  key: string;
+  priceBook: string | null;
+  direct: DependencySet;
+  all: DependencySet;
+  invalid: InvalidExpression[];
+}
+
+interface ExpressionDependentsResponse {
+  key: string;
+  dependents: AffectedExpression[];
+  invalid: InvalidExpression[];
+}
+
+interface ScheduleExpressionResponse {
+  message: string;
+  version: number;
+  effectiveFrom: string;
+}
+
+interface ExpressionHistoryResponse {
+  key: string;
+  versions: ExpressionHistoryEntry[];
+}
+
+interface EvaluateExpressionResponse {
+  amount: number;
+  trace: ExprTrace;
+}
+
 export async function handleListExpressions(
   request: FastifyRequest,
   reply: FastifyReply
@@ -90,7 +193,7 @@ export async function handleCreateExpression(
     const validated = createExpressionSchema.parse(body);
 
     validateExprSyntax(validated.expr);
-    await resolveExprRefsInExpression(validated.expr);
+    await validateExprRefs(validated.expr);
 
     await createExpression(validated.key, validated.expr);
 
@@ -138,7 +241,7 @@ export async function handleCreateExpression(
 export async function handleDeleteExpression(
   request: FastifyRequest,
   reply: FastifyReply
-): Promise<MessageResponse | { error: string }> {
+): Promise<ImpactResponse | BreakingChangeError | { error: string }> {
   const builder = createWideEventBuilder(
     generateRequestId(),
     request.method,
@@ -149,7 +252,21 @@ export async function handleDeleteExpression(
     const authHeader = request.headers.authorization;
     await authenticateHttpApiKey(authHeader);
 
-    const params = request.params as { key: string };
+    const params = expressionParamsSchema.parse(request.params);
+    const query = forceQuerySchema.parse(request.query);
+
+    const index = await fetchDependencyIndex();
+    const affected = findDependents(index, {
+      kind: "expr",
+      key: params.key,
+    });
+    if (affected.length > 0 && !query.force) {
+      const message = `Expression '${params.key}' is used by ${affected.length} live expression(s); pass force=true to delete it anyway`;
+      builder.setError(409, { type: "ConflictError", message });
+      reply.code(409);
+      return { error: message, impact: { affected, invalid: index.invalid } };
+    }
+
     const deleted = await deleteExpression(params.key);
 
     if (!deleted) {
@@ -161,9 +278,12 @@ export async function handleDeleteExpression(
       return { error: `Expression '${params.key}' not found` };
     }
 
-    builder.setSuccess(200);
+    builder.setSuccess(200).addContext({ affectedCount: affected.length });
     reply.code(200);
-    return { message: `Expression '${params.key}' disabled` };
+    return {
+      message: `Expression '${params.key}' disabled`,
+      impact: { affected, invalid: index.invalid },
+    };
   } catch (error) {
     Sentry.captureException(error, {
       extra: { context: "delete expression route handler" },
@@ -175,6 +295,400 @@ export async function handleDeleteExpression(
       return { error: error.message };
     }
 
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleRenameExpression(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ImpactResponse | BreakingChangeError | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = expressionParamsSchema.parse(request.params);
+    const query = forceQuerySchema.parse(request.query);
+    const validated = renameExpressionSchema.parse(request.body);
+
+    // Expressions keep referencing the old key, so they break like on delete
+    const index = await fetchDependencyIndex();
+    const affected = findDependents(index, {
+      kind: "expr",
+      key: params.key,
+    });
+    if (affected.length > 0 && !query.force) {
+      const message = `Expression '${params.key}' is used by ${affected.length} live expression(s); pass force=true to rename it anyway`;
+      builder.setError(409, { type: "ConflictError", message });
+      reply.code(409);
+      return { error: message, impact: { affected, invalid: index.invalid } };
+    }
+
+    const result = await renameExpression(params.key, validated.to);
+
+    if (result === "not_found") {
+      builder.setError(404, {
+        type: "NotFoundError",
+        message: `Expression '${params.key}' not found`,
+      });
+      reply.code(404);
+      return { error: `Expression '${params.key}' not found` };
+    }
+
+    if (result === "exists") {
+      const message = `Expression '${validated.to}' already exists`;
+      builder.setError(409, { type: "ConflictError", message });
+      reply.code(409);
+      return { error: message };
+    }
+
+    builder.setSuccess(200).addContext({ affectedCount: affected.length });
+    reply.code(200);
+    return {
+      message: `Expression '${params.key}' renamed to '${validated.to}'`,
+      impact: { affected, invalid: index.invalid },
+    };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "rename expression route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleGetExpressionDependencies(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ExpressionDependenciesResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = expressionParamsSchema.parse(request.params);
+    const query = dependenciesQuerySchema.parse(request.query);
+    const priceBook = query.priceBook ?? null;
+
+    const index = await fetchDependencyIndex();
+    const dependencies = findDependencies(index, params.key, priceBook);
+
+    if (!dependencies) {
+      builder.setError(404, {
+        type: "NotFoundError",
+        message: `Expression '${params.key}' not found`,
+      });
+      reply.code(404);
+      return { error: `Expression '${params.key}' not found` };
+    }
+
+    builder.setSuccess(200).addContext({
+      tagCount: dependencies.all.tags.length,
+      expressionCount: dependencies.all.expressions.length,
+    });
+    reply.code(200);
+    return {
+      key: params.key,
+      priceBook,
+      ...dependencies,
+      invalid: index.invalid,
+    };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "expression dependencies route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleGetExpressionDependents(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ExpressionDependentsResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = expressionParamsSchema.parse(request.params);
+    const index = await fetchDependencyIndex();
+    const dependents = findDependents(index, {
+      kind: "expr",
+      key: params.key,
+    });
+
+    builder.setSuccess(200).addContext({ dependentCount: dependents.length });
+    reply.code(200);
+    return { key: params.key, dependents, invalid: index.invalid };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "expression dependents route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleEvaluateExpression(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<EvaluateExpressionResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const body = await request.body;
+    const validated = evaluateExpressionSchema.parse(body);
+
+    const result = await evaluateExprWithTrace(
+      validated.expr,
+      validated.tokenContext,
+      undefined,
+      validated.userId
+    );
+
+    builder.setSuccess(200).addContext({ amount: result.amount });
+    reply.code(200);
+    return result;
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "evaluate expression route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    if (error instanceof EventError) {
+      builder.setError(400, {
+        type: "ValidationError",
+        message: error.message,
+      });
+      reply.code(400);
+      return { error: error.message };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleScheduleExpression(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ScheduleExpressionResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = expressionParamsSchema.parse(request.params);
+    const body = await request.body;
+    const validated = scheduleExpressionSchema.parse(body);
+
+    validateExprSyntax(validated.expr);
+    await validateExprRefs(validated.expr, validated.effectiveFrom);
+
+    const version = await createExpression(
+      params.key,
+      validated.expr,
+      validated.effectiveFrom
+    );
+    const effectiveFrom = validated.effectiveFrom.toISO() as string;
+
+    builder.setSuccess(200).addContext({ version, effectiveFrom });
+    reply.code(200);
+    return {
+      message: `Expression '${params.key}' scheduled`,
+      version,
+      effectiveFrom,
+    };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "schedule expression route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    if (error instanceof EventError) {
+      builder.setError(400, {
+        type: "ValidationError",
+        message: error.message,
+      });
+      reply.code(400);
+      return { error: error.message };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleGetExpressionHistory(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ExpressionHistoryResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = expressionParamsSchema.parse(request.params);
+    const versions = await listExpressionHistory(params.key);
+
+    if (versions.length === 0) {
+      builder.setError(404, {
+        type: "NotFoundError",
+        message: `Expression '${params.key}' not found`,
+      });
+      reply.code(404);
+      return { error: `Expression '${params.key}' not found` };
+    }
+
+    builder.setSuccess(200).addContext({ versionCount: versions.length });
+    reply.code(200);
+    return { key: params.key, versions };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "expression history route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
     const err = error instanceof Error ? error : new Error(String(error));
     builder.setError(500, { type: "InternalError", message: err.message });
     reply.code(500);
@@ -0,0 +1,245 @@
+import type { FastifyRequest, FastifyReply } from "fastify";
+import * as Sentry from "@sentry/bun";
+import { ZodError } from "zod";
+import { z } from "zod";
+import {
+  createWideEventBuilder,
+  generateRequestId,
+} from "../../../context/requestContext.ts";
+import { logger } from "../../../errors/logger.ts";
+import { AuthError } from "../../../errors/auth.ts";
+import { authenticateHttpApiKey } from "../../../utils/authenticateHttpApiKey.ts";
+import { USER_ID_CONFIG } from "../../../config/identifiers.ts";
+import {
+  listInvoices,
+  findInvoice,
+  type Invoice,
+  type InvoiceWithLineItems,
+} from "../../../storage/db/postgres/helpers/invoices.ts";
+import { getMetadata } from "../../../storage/db/postgres/helpers/metadata.ts";
+import { getSessionStatus } from "../../../storage/db/postgres/helpers/sessions.ts";
+import { renderInvoiceHtml } from "../../../utils/invoiceDocument.ts";
+import { renderInvoicePdf } from "../../../utils/invoicePdf.ts";
+
+const listInvoicesQuerySchema = z.object({
+  userId: USER_ID_CONFIG.validator.optional(),
+  mode: z.enum(["production", "test"]).optional(),
+  status: z.enum(["open", "paid", "void"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const invoiceParamsSchema = z.object({
+  id: z.string().uuid("Invalid invoice ID"),
+});
+
+const invoiceDocumentQuerySchema = z.object({
+  format: z.enum(["html", "pdf"]).default("html"),
+});
+
+interface ListInvoicesResponse {
+  invoices: Invoice[];
+}
+
+interface InvoiceResponse {
+  invoice: InvoiceWithLineItems;
+}
+
+export async function handleListInvoices(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ListInvoicesResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const query = listInvoicesQuerySchema.parse(request.query);
+    const invoices = await listInvoices(
+      { userId: query.userId, mode: query.mode, status: query.status },
+      query.limit,
+      query.offset
+    );
+
+    if (query.userId) {
+      builder.setUser(query.userId);
+    }
+    builder.setSuccess(200).addContext({ invoiceCount: invoices.length });
+    reply.code(200);
+    return { invoices };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "list invoices route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleGetInvoice(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<InvoiceResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = invoiceParamsSchema.parse(request.params);
+    const invoice = await findInvoice(params.id);
+
+    if (!invoice) {
+      const message = `Invoice '${params.id}' not found`;
+      builder.setError(404, { type: "NotFoundError", message });
+      reply.code(404);
+      return { error: message };
+    }
+
+    builder.setUser(invoice.userId);
+    builder.setSuccess(200).addContext({ invoiceId: invoice.id });
+    reply.code(200);
+    return { invoice };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "get invoice route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleGetInvoiceDocument(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<string | Buffer | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = invoiceParamsSchema.parse(request.params);
+    const query = invoiceDocumentQuerySchema.parse(request.query);
+    const invoice = await findInvoice(params.id);
+    const paymentStatus = invoice
+      ? await getSessionStatus(invoice.proxyId)
+      : undefined;
+
+    if (!invoice || !paymentStatus) {
+      const message = `Invoice '${params.id}' not found`;
+      builder.setError(404, { type: "NotFoundError", message });
+      reply.code(404);
+      return { error: message };
+    }
+
+    const metadata = await getMetadata();
+    const doc = {
+      invoice,
+      paymentStatus,
+      template: {
+        logoUrl: metadata?.invoice_logo_url ?? null,
+        businessAddress: metadata?.invoice_business_address ?? null,
+        footer: metadata?.invoice_footer ?? null,
+      },
+    };
+
+    builder.setUser(invoice.userId);
+    builder
+      .setSuccess(200)
+      .addContext({ invoiceId: invoice.id, format: query.format });
+    reply.code(200);
+
+    if (query.format === "pdf") {
+      reply
+        .type("application/pdf")
+        .header(
+          "Content-Disposition",
+          `attachment; filename="invoice-${invoice.id}.pdf"`
+        );
+      return renderInvoicePdf(doc);
+    }
+
+    reply.type("text/html; charset=utf-8");
+    return renderInvoiceHtml(doc);
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "get invoice document route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
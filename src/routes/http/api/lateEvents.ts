@@ -0,0 +1,90 @@
+import type { FastifyRequest, FastifyReply } from "fastify";
+import * as Sentry from "@sentry/bun";
+import { ZodError } from "zod";
+import { z } from "zod";
+import {
+  createWideEventBuilder,
+  generateRequestId,
+} from "../../../context/requestContext.ts";
+import { logger } from "../../../errors/logger.ts";
+import { AuthError } from "../../../errors/auth.ts";
+import { authenticateHttpApiKey } from "../../../utils/authenticateHttpApiKey.ts";
+import {
+  LATE_EVENT_POLICY,
+  USER_ID_CONFIG,
+  type LateEventPolicy,
+} from "../../../config/identifiers.ts";
+import {
+  listLateEvents,
+  type LateEvent,
+} from "../../../storage/db/postgres/helpers/lateEvents.ts";
+
+const listLateEventsQuerySchema = z.object({
+  userId: USER_ID_CONFIG.validator.optional(),
+  mode: z.enum(["production", "test"]).optional(),
+  policy: z.enum(["reject", "next_period", "adjustment"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+interface ListLateEventsResponse {
+  // The policy applied to late events arriving now
+  policy: LateEventPolicy;
+  lateEvents: LateEvent[];
+}
+
+export async function handleListLateEvents(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ListLateEventsResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const query = listLateEventsQuerySchema.parse(request.query);
+    const lateEvents = await listLateEvents(
+      { userId: query.userId, mode: query.mode, policy: query.policy },
+      query.limit,
+      query.offset
+    );
+
+    if (query.userId) {
+      builder.setUser(query.userId);
+    }
+    builder.setSuccess(200).addContext({ lateEventCount: lateEvents.length });
+    reply.code(200);
+    return { policy: LATE_EVENT_POLICY, lateEvents };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "list late events route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
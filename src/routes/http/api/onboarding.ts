@@ -1,8 +1,10 @@
 import type { FastifyRequest, FastifyReply } from "fastify";
 import * as Sentry from "@sentry/bun";
 import { ZodError } from "zod";
-import DodoPayments from "dodopayments";
-import { onboardingSchema } from "../../../zod/internals.ts";
+import {
+  onboardingSchema,
+  invoiceTemplateSchema,
+} from "../../../zod/internals.ts";
 import {
   createWideEventBuilder,
   generateRequestId,
@@ -13,8 +15,9 @@ import { authenticateHttpApiKey } from "../../../utils/authenticateHttpApiKey.ts
 import {
   upsertMetadata,
   getMetadata,
+  updateInvoiceTemplate,
 } from "../../../storage/db/postgres/helpers/metadata.ts";
-import { clearClients } from "../../gRPC/payment/paymentProvider.ts";
+import { PaymentProviderFactory } from "../../../factory/PaymentProviderFactory.ts";
 import { encrypt, decrypt } from "../../../utils/encryptMetadata.ts";
 
 export async function handleOnboarding(
@@ -44,47 +47,39 @@ export async function handleOnboarding(
       return {};
     }
 
-    const liveClient = new DodoPayments({
-      bearerToken: validated.dodoLiveApiKey,
-      environment: "live_mode",
-    });
-    const testClient = new DodoPayments({
-      bearerToken: validated.dodoTestApiKey,
-      environment: "test_mode",
-    });
+    const provider = PaymentProviderFactory.getPaymentProvider(
+      validated.provider
+    );
+    const webhookUrl = `${appUrl}/webhooks/payment/${provider.name}`;
 
     let liveSecret: string;
     let testSecret: string;
     try {
-      const liveWebhook = await liveClient.webhooks.create({
-        url: `${appUrl}/webhooks/payment/createdCheckout?mode=production`,
-        description: "Scrawn live payment webhook",
-        filter_types: ["payment.succeeded", "payment.failed"],
-      });
-      liveSecret = (await liveClient.webhooks.retrieveSecret(liveWebhook.id))
-        .secret;
-
-      const testWebhook = await testClient.webhooks.create({
-        url: `${appUrl}/webhooks/payment/createdCheckout?mode=test`,
-        description: "Scrawn test payment webhook",
-        filter_types: ["payment.succeeded", "payment.failed"],
-      });
-      testSecret = (await testClient.webhooks.retrieveSecret(testWebhook.id))
-        .secret;
+      liveSecret = await provider.registerWebhook(
+        validated.dodoLiveApiKey,
+        `${webhookUrl}?mode=production`,
+        "production"
+      );
+      testSecret = await provider.registerWebhook(
+        validated.dodoTestApiKey,
+        `${webhookUrl}?mode=test`,
+        "test"
+      );
     } catch (error) {
       const errMsg = error instanceof Error ? error.message : String(error);
       Sentry.captureException(error, {
-        extra: { context: "dodo webhook registration during onboarding" },
+        extra: { context: "payment webhook registration during onboarding" },
       });
       builder.setError(400, {
-        type: "DodoApiError",
-        message: `Failed to register webhook with Dodo: ${errMsg}`,
+        type: "PaymentProviderError",
+        message: errMsg,
       });
       reply.code(400);
       return {};
     }
 
     await upsertMetadata({
+      payment_provider: provider.name,
       dodo_live_api_key: encrypt(validated.dodoLiveApiKey),
       dodo_test_api_key: encrypt(validated.dodoTestApiKey),
       dodo_live_product_id: validated.dodoLiveProductId,
@@ -95,7 +90,7 @@ export async function handleOnboarding(
       redirect_url: validated.redirectUrl,
     });
 
-    clearClients();
+    provider.reset();
 
     builder.setSuccess(200);
 
@@ -171,6 +166,7 @@ export async function handleGetConfig(
     reply.code(200);
     return {
       configured: true,
+      payment_provider: metadata.payment_provider,
       dodo_live_api_key: maskApiKey(decrypt(metadata.dodo_live_api_key)),
       dodo_test_api_key: maskApiKey(decrypt(metadata.dodo_test_api_key)),
       dodo_live_product_id: metadata.dodo_live_product_id,
@@ -183,6 +179,11 @@ export async function handleGetConfig(
       ),
       currency: metadata.currency,
       redirect_url: metadata.redirect_url,
+      invoice_template: {
+        logo_url: metadata.invoice_logo_url,
+        business_address: metadata.invoice_business_address,
+        footer: metadata.invoice_footer,
+      },
     };
   } catch (error) {
     Sentry.captureException(error, {
@@ -208,3 +209,65 @@ export async function handleGetConfig(
     logger.emit(builder.build());
   }
 }
+
+export async function handleUpdateInvoiceTemplate(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<Record<string, never> | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const body = await request.body;
+    const validated = invoiceTemplateSchema.parse(body);
+
+    const updated = await updateInvoiceTemplate({
+      invoice_logo_url: validated.logoUrl,
+      invoice_business_address: validated.businessAddress,
+      invoice_footer: validated.footer,
+    });
+
+    if (!updated) {
+      const message = "Complete onboarding before setting the invoice template";
+      builder.setError(409, { type: "ConflictError", message });
+      reply.code(409);
+      return { error: message };
+    }
+
+    builder.setSuccess(200);
+    reply.code(200);
+    return {};
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "update invoice template handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
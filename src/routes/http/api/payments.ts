@@ -0,0 +1,96 @@
+import type { FastifyRequest, FastifyReply } from "fastify";
+import * as Sentry from "@sentry/bun";
+import { ZodError } from "zod";
+import { z } from "zod";
+import {
+  createWideEventBuilder,
+  generateRequestId,
+} from "../../../context/requestContext.ts";
+import { logger } from "../../../errors/logger.ts";
+import { AuthError } from "../../../errors/auth.ts";
+import { authenticateHttpApiKey } from "../../../utils/authenticateHttpApiKey.ts";
+import { refundPayment } from "../../../services/refundService.ts";
+
+const paymentParamsSchema = z.object({
+  paymentId: z.string().min(1, "Invalid payment ID"),
+});
+
+const refundPaymentSchema = z.object({
+  // Cents; omit to refund what is left of the payment
+  amount: z.number().int().positive().optional(),
+});
+
+interface RefundResponse {
+  refundId: string;
+  amount: number;
+}
+
+export async function handleRefundPayment(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<RefundResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    const auth = await authenticateHttpApiKey(authHeader);
+
+    const params = paymentParamsSchema.parse(request.params);
+    const validated = refundPaymentSchema.parse(request.body ?? {});
+
+    const result = await refundPayment(
+      params.paymentId,
+      validated.amount ?? null,
+      auth.mode
+    );
+
+    if (result.status === "not_found") {
+      const message = `Payment '${params.paymentId}' not found`;
+      builder.setError(404, { type: "NotFoundError", message });
+      reply.code(404);
+      return { error: message };
+    }
+
+    if (result.status === "exceeds_payment") {
+      const message = `Only ${result.refundable} cents of payment '${params.paymentId}' can still be refunded`;
+      builder.setError(409, { type: "ConflictError", message });
+      reply.code(409);
+      return { error: message };
+    }
+
+    builder.setUser(result.userId);
+    builder.setSuccess(200).addContext({ refundId: result.refundId });
+    reply.code(200);
+    return { refundId: result.refundId, amount: result.amount };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "refund payment route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
@@ -0,0 +1,551 @@
+import type { FastifyRequest, FastifyReply } from "fastify";
+import * as Sentry from "@sentry/bun";
+import { ZodError } from "zod";
+import { z } from "zod";
+import {
+  createWideEventBuilder,
+  generateRequestId,
+  type WideEventBuilder,
+} from "../../../context/requestContext.ts";
+import { logger } from "../../../errors/logger.ts";
+import { AuthError } from "../../../errors/auth.ts";
+import { authenticateHttpApiKey } from "../../../utils/authenticateHttpApiKey.ts";
+import { USER_ID_CONFIG } from "../../../config/identifiers.ts";
+import {
+  listPlans,
+  findPlan,
+  createPlan,
+  updatePlan,
+  deletePlan,
+  findActivePlanAssignment,
+  assignPlan,
+  endPlanAssignment,
+  type Plan,
+  type PlanAssignment,
+} from "../../../storage/db/postgres/helpers/plans.ts";
+
+const nameSchema = z.string().min(1, "Plan name is required").max(128);
+
+const amountSchema = z
+  .number()
+  .int("Amount must be a whole number of cents")
+  .nonnegative("Amount must be non-negative");
+
+const createPlanSchema = z.object({
+  name: nameSchema,
+  amount: amountSchema,
+  interval: z.enum(["day", "week", "month", "year"]),
+  intervalCount: z
+    .number()
+    .int("Interval count must be a whole number")
+    .positive("Interval count must be positive")
+    .default(1),
+});
+
+const updatePlanSchema = z
+  .object({
+    name: nameSchema.optional(),
+    amount: amountSchema.optional(),
+  })
+  .refine(
+    (changes) => changes.name !== undefined || changes.amount !== undefined,
+    "Provide name or amount"
+  );
+
+const planParamsSchema = z.object({
+  id: z.string().uuid("Invalid plan ID"),
+});
+
+const userParamsSchema = z.object({
+  userId: USER_ID_CONFIG.validator,
+});
+
+const userPlanQuerySchema = z.object({
+  mode: z.enum(["production", "test"]).default("production"),
+});
+
+const assignPlanSchema = z.object({
+  planId: z.string().uuid("Invalid plan ID"),
+  mode: z.enum(["production", "test"]).default("production"),
+});
+
+interface ListPlansResponse {
+  plans: Plan[];
+}
+
+interface PlanResponse {
+  plan: Plan;
+}
+
+interface PlanAssignmentResponse {
+  // Null when the user is on no plan in the mode
+  assignment: PlanAssignment | null;
+}
+
+interface MessageResponse {
+  message: string;
+}
+
+function notFound(
+  builder: WideEventBuilder,
+  reply: FastifyReply,
+  id: string
+): { error: string } {
+  const message = `Plan '${id}' not found`;
+  builder.setError(404, { type: "NotFoundError", message });
+  reply.code(404);
+  return { error: message };
+}
+
+function nameTaken(
+  builder: WideEventBuilder,
+  reply: FastifyReply,
+  name: string
+): { error: string } {
+  const message = `Plan '${name}' already exists`;
+  builder.setError(409, { type: "ConflictError", message });
+  reply.code(409);
+  return { error: message };
+}
+
+export async function handleListPlans(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ListPlansResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const plans = await listPlans();
+
+    builder.setSuccess(200).addContext({ planCount: plans.length });
+    reply.code(200);
+    return { plans };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "list plans route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleCreatePlan(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<PlanResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const body = await request.body;
+    const validated = createPlanSchema.parse(body);
+
+    const plan = await createPlan(validated);
+
+    if (!plan) {
+      return nameTaken(builder, reply, validated.name);
+    }
+
+    builder.setSuccess(200).addContext({ planId: plan.id });
+    reply.code(200);
+    return { plan };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "create plan route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleGetPlan(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<PlanResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = planParamsSchema.parse(request.params);
+    const plan = await findPlan(params.id);
+
+    if (!plan) {
+      return notFound(builder, reply, params.id);
+    }
+
+    builder.setSuccess(200).addContext({ planId: params.id });
+    reply.code(200);
+    return { plan };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "get plan route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleUpdatePlan(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<PlanResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = planParamsSchema.parse(request.params);
+    const body = await request.body;
+    const validated = updatePlanSchema.parse(body);
+
+    const result = await updatePlan(params.id, validated);
+
+    if (result.status === "not_found") {
+      return notFound(builder, reply, params.id);
+    }
+
+    if (result.status === "exists") {
+      return nameTaken(builder, reply, validated.name ?? "");
+    }
+
+    builder.setSuccess(200).addContext({ planId: params.id });
+    reply.code(200);
+    return { plan: result.plan };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "update plan route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleDeletePlan(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<MessageResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = planParamsSchema.parse(request.params);
+    const deleted = await deletePlan(params.id);
+
+    if (!deleted) {
+      return notFound(builder, reply, params.id);
+    }
+
+    builder.setSuccess(200).addContext({ planId: params.id });
+    reply.code(200);
+    return { message: `Plan '${params.id}' deleted` };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "delete plan route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleGetUserPlan(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<PlanAssignmentResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = userParamsSchema.parse(request.params);
+    const query = userPlanQuerySchema.parse(request.query);
+    const assignment = await findActivePlanAssignment(
+      params.userId,
+      query.mode
+    );
+
+    builder.setUser(params.userId);
+    builder.setSuccess(200).addContext({ planId: assignment?.planId ?? null });
+    reply.code(200);
+    return { assignment };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "get user plan route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleAssignPlan(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<PlanAssignmentResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = userParamsSchema.parse(request.params);
+    const body = await request.body;
+    const validated = assignPlanSchema.parse(body);
+
+    const result = await assignPlan(
+      params.userId,
+      validated.mode,
+      validated.planId
+    );
+
+    if (result.status === "plan_not_found") {
+      return notFound(builder, reply, validated.planId);
+    }
+
+    builder.setUser(params.userId);
+    builder.setSuccess(200).addContext({ planId: validated.planId });
+    reply.code(200);
+    return { assignment: result.assignment };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "assign plan route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleEndUserPlan(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<MessageResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = userParamsSchema.parse(request.params);
+    const query = userPlanQuerySchema.parse(request.query);
+    const ended = await endPlanAssignment(params.userId, query.mode);
+
+    builder.setUser(params.userId);
+    if (!ended) {
+      const message = `User '${params.userId}' is on no plan in ${query.mode} mode`;
+      builder.setError(404, { type: "NotFoundError", message });
+      reply.code(404);
+      return { error: message };
+    }
+
+    builder.setSuccess(200).addContext({ planId: ended.planId });
+    reply.code(200);
+    return { message: `User '${params.userId}' left plan '${ended.planId}'` };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "end user plan route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
@@ -0,0 +1,591 @@
+import type { FastifyRequest, FastifyReply } from "fastify";
+import * as Sentry from "@sentry/bun";
+import { ZodError } from "zod";
+import { z } from "zod";
+import {
+  createWideEventBuilder,
+  generateRequestId,
+  type WideEventBuilder,
+} from "../../../context/requestContext.ts";
+import { logger } from "../../../errors/logger.ts";
+import { AuthError } from "../../../errors/auth.ts";
+import { EventError } from "../../../errors/event.ts";
+import { authenticateHttpApiKey } from "../../../utils/authenticateHttpApiKey.ts";
+import { USER_ID_CONFIG } from "../../../config/identifiers.ts";
+import {
+  listPriceBooks,
+  findPriceBook,
+  createPriceBook,
+  deletePriceBook,
+  setPriceBookTag,
+  deletePriceBookTag,
+  setPriceBookExpression,
+  deletePriceBookExpression,
+  assignPriceBook,
+  type PriceBookSummary,
+  type PriceBookDetail,
+} from "../../../storage/db/postgres/helpers/priceBooks.ts";
+import { fetchPriceBook } from "../../../utils/fetchPriceBook.ts";
+import {
+  validateExprSyntax,
+  validateExprRefs,
+} from "../../../utils/parseExpr.ts";
+import { DateTime } from "luxon";
+
+const createPriceBookSchema = z.object({
+  key: z.string().min(1, "Price book key is required").max(128),
+  description: z.string().max(1024).optional(),
+});
+
+const priceBookParamsSchema = z.object({
+  id: z.string().uuid("Invalid price book ID"),
+});
+
+const priceBookEntryParamsSchema = priceBookParamsSchema.extend({
+  key: z.string().min(1, "Key is required").max(128),
+});
+
+const setTagSchema = z.object({
+  amount: z.number().nonnegative("Amount must be non-negative"),
+});
+
+const setExpressionSchema = z.object({
+  expr: z.string().min(1, "Expression is required").max(2048),
+});
+
+const userParamsSchema = z.object({
+  userId: USER_ID_CONFIG.validator,
+});
+
+const assignPriceBookSchema = z.object({
+  priceBookId: z.string().uuid("Invalid price book ID").nullable(),
+});
+
+interface ListPriceBooksResponse {
+  priceBooks: PriceBookSummary[];
+}
+
+interface PriceBookResponse {
+  priceBook: PriceBookDetail;
+}
+
+interface MessageResponse {
+  message: string;
+}
+
+function notFound(
+  builder: WideEventBuilder,
+  reply: FastifyReply,
+  id: string
+): { error: string } {
+  const message = `Price book '${id}' not found`;
+  builder.setError(404, { type: "NotFoundError", message });
+  reply.code(404);
+  return { error: message };
+}
+
+export async function handleListPriceBooks(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ListPriceBooksResponse> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const priceBooks = await listPriceBooks();
+
+    builder.setSuccess(200).addContext({ priceBookCount: priceBooks.length });
+    reply.code(200);
+    return { priceBooks };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "list price books route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { priceBooks: [] };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { priceBooks: [] };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleCreatePriceBook(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<{ priceBook: PriceBookSummary } | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const body = await request.body;
+    const validated = createPriceBookSchema.parse(body);
+
+    const priceBook = await createPriceBook(
+      validated.key,
+      validated.description ?? null
+    );
+
+    if (!priceBook) {
+      const message = `Price book '${validated.key}' already exists`;
+      builder.setError(409, { type: "ConflictError", message });
+      reply.code(409);
+      return { error: message };
+    }
+
+    builder.setSuccess(200).addContext({ priceBookId: priceBook.id });
+    reply.code(200);
+    return { priceBook };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "create price book route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleGetPriceBook(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<PriceBookResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = priceBookParamsSchema.parse(request.params);
+    const priceBook = await findPriceBook(params.id);
+
+    if (!priceBook) {
+      return notFound(builder, reply, params.id);
+    }
+
+    builder.setSuccess(200);
+    reply.code(200);
+    return { priceBook };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "get price book route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleDeletePriceBook(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<MessageResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = priceBookParamsSchema.parse(request.params);
+    const deleted = await deletePriceBook(params.id);
+
+    if (!deleted) {
+      return notFound(builder, reply, params.id);
+    }
+
+    builder.setSuccess(200);
+    reply.code(200);
+    return { message: `Price book '${params.id}' deleted` };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "delete price book route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleSetPriceBookTag(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<MessageResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = priceBookEntryParamsSchema.parse(request.params);
+    const body = await request.body;
+    const validated = setTagSchema.parse(body);
+
+    if (!(await fetchPriceBook(params.id))) {
+      return notFound(builder, reply, params.id);
+    }
+
+    await setPriceBookTag(params.id, params.key, validated.amount);
+
+    builder.setSuccess(200);
+    reply.code(200);
+    return { message: `Tag '${params.key}' overridden` };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "set price book tag route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleDeletePriceBookTag(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<MessageResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = priceBookEntryParamsSchema.parse(request.params);
+    const deleted = await deletePriceBookTag(params.id, params.key);
+
+    if (!deleted) {
+      const message = `Tag '${params.key}' is not overridden in price book '${params.id}'`;
+      builder.setError(404, { type: "NotFoundError", message });
+      reply.code(404);
+      return { error: message };
+    }
+
+    builder.setSuccess(200);
+    reply.code(200);
+    return { message: `Tag override '${params.key}' removed` };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "delete price book tag route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleSetPriceBookExpression(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<MessageResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = priceBookEntryParamsSchema.parse(request.params);
+    const body = await request.body;
+    const validated = setExpressionSchema.parse(body);
+
+    const priceBook = await fetchPriceBook(params.id);
+    if (!priceBook) {
+      return notFound(builder, reply, params.id);
+    }
+
+    validateExprSyntax(validated.expr);
+    await validateExprRefs(validated.expr, DateTime.utc(), priceBook);
+
+    await setPriceBookExpression(params.id, params.key, validated.expr);
+
+    builder.setSuccess(200);
+    reply.code(200);
+    return { message: `Expression '${params.key}' overridden` };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "set price book expression route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    if (error instanceof EventError) {
+      builder.setError(400, {
+        type: "ValidationError",
+        message: error.message,
+      });
+      reply.code(400);
+      return { error: error.message };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleDeletePriceBookExpression(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<MessageResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = priceBookEntryParamsSchema.parse(request.params);
+    const deleted = await deletePriceBookExpression(params.id, params.key);
+
+    if (!deleted) {
+      const message = `Expression '${params.key}' is not overridden in price book '${params.id}'`;
+      builder.setError(404, { type: "NotFoundError", message });
+      reply.code(404);
+      return { error: message };
+    }
+
+    builder.setSuccess(200);
+    reply.code(200);
+    return { message: `Expression override '${params.key}' removed` };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "delete price book expression route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleAssignPriceBook(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<MessageResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = userParamsSchema.parse(request.params);
+    const body = await request.body;
+    const validated = assignPriceBookSchema.parse(body);
+
+    if (
+      validated.priceBookId !== null &&
+      !(await fetchPriceBook(validated.priceBookId))
+    ) {
+      return notFound(builder, reply, validated.priceBookId);
+    }
+
+    await assignPriceBook(params.userId, validated.priceBookId);
+
+    builder.setSuccess(200).addContext({ priceBookId: validated.priceBookId });
+    reply.code(200);
+    return {
+      message: validated.priceBookId
+        ? `Price book assigned to user '${params.userId}'`
+        : `User '${params.userId}' moved to default pricing`,
+    };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "assign price book route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
@@ -0,0 +1,360 @@
+import type { FastifyRequest, FastifyReply } from "fastify";
+import * as Sentry from "@sentry/bun";
+import { ZodError } from "zod";
+import { z } from "zod";
+import {
+  createWideEventBuilder,
+  generateRequestId,
+} from "../../../context/requestContext.ts";
+import { logger } from "../../../errors/logger.ts";
+import { AuthError } from "../../../errors/auth.ts";
+import { authenticateHttpApiKey } from "../../../utils/authenticateHttpApiKey.ts";
+import {
+  listRateCards,
+  upsertRateCard,
+  updateRateCard,
+  deleteRateCard,
+  applyRateCardImport,
+  type RateCardRecord,
+} from "../../../storage/db/postgres/helpers/rateCards.ts";
+import { listTagKeys } from "../../../storage/db/postgres/helpers/tags.ts";
+import {
+  planRateCardImport,
+  pendingRateCardWrites,
+  pendingTagWrites,
+  type RateCardImportPlan,
+} from "../../../utils/modelPriceImport.ts";
+
+const rate = z.number().nonnegative("Rates must be non-negative");
+
+const rateCardRatesSchema = z.object({
+  inputRate: rate.default(0),
+  inputCacheRate: rate.default(0),
+  outputRate: rate.default(0),
+  outputCacheRate: rate.default(0),
+});
+
+const upsertRateCardSchema = rateCardRatesSchema.extend({
+  provider: z.string().min(1, "Provider is required").max(128),
+  model: z
+    .string()
+    .min(1, "Model is required")
+    .max(255)
+    .regex(
+      /^[^*]+\*?$/,
+      "Model must be an exact name or a prefix ending in '*', e.g. gpt-4o*"
+    ),
+});
+
+const rateCardParamsSchema = z.object({
+  id: z.string().uuid("Invalid rate card ID"),
+});
+
+const importRateCardsSchema = z.object({
+  prices: z.record(z.string(), z.unknown()),
+  providers: z.array(z.string().min(1)).optional(),
+  // Also import each per-token price as a tag
+  tags: z.boolean().default(false),
+  apply: z.boolean().default(false),
+});
+
+interface ListRateCardsResponse {
+  rateCards: RateCardRecord[];
+}
+
+interface RateCardResponse {
+  rateCard: RateCardRecord;
+}
+
+interface ImportRateCardsResponse extends RateCardImportPlan {
+  applied: boolean;
+}
+
+interface MessageResponse {
+  message: string;
+}
+
+export async function handleListRateCards(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ListRateCardsResponse> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const rateCards = await listRateCards();
+
+    builder.setSuccess(200).addContext({ rateCardCount: rateCards.length });
+    reply.code(200);
+    return { rateCards };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "list rate cards route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { rateCards: [] };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { rateCards: [] };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleUpsertRateCard(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<RateCardResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const body = await request.body;
+    const validated = upsertRateCardSchema.parse(body);
+
+    const rateCard = await upsertRateCard(validated);
+
+    builder.setSuccess(200).addContext({ rateCardId: rateCard.id });
+    reply.code(200);
+    return { rateCard };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "upsert rate card route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleUpdateRateCard(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<RateCardResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = rateCardParamsSchema.parse(request.params);
+    const body = await request.body;
+    const validated = rateCardRatesSchema.parse(body);
+
+    const rateCard = await updateRateCard(params.id, validated);
+
+    if (!rateCard) {
+      builder.setError(404, {
+        type: "NotFoundError",
+        message: `Rate card '${params.id}' not found`,
+      });
+      reply.code(404);
+      return { error: `Rate card '${params.id}' not found` };
+    }
+
+    builder.setSuccess(200);
+    reply.code(200);
+    return { rateCard };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "update rate card route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleDeleteRateCard(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<MessageResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = rateCardParamsSchema.parse(request.params);
+    const deleted = await deleteRateCard(params.id);
+
+    if (!deleted) {
+      builder.setError(404, {
+        type: "NotFoundError",
+        message: `Rate card '${params.id}' not found`,
+      });
+      reply.code(404);
+      return { error: `Rate card '${params.id}' not found` };
+    }
+
+    builder.setSuccess(200);
+    reply.code(200);
+    return { message: `Rate card '${params.id}' deleted` };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "delete rate card route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+/**
+ * Previews or applies a LiteLLM-style model price document. Rate cards are
+ * diffed and written; with `tags`, each per-token price also becomes a
+ * tag, except under keys that already exist.
+ */
+export async function handleImportRateCards(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ImportRateCardsResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const body = await request.body;
+    const validated = importRateCardsSchema.parse(body);
+
+    const [current, tagKeys] = await Promise.all([
+      listRateCards(),
+      validated.tags ? listTagKeys() : undefined,
+    ]);
+    const plan = planRateCardImport(
+      validated.prices,
+      current,
+      validated.providers,
+      tagKeys
+    );
+
+    if (validated.apply) {
+      await applyRateCardImport(
+        pendingRateCardWrites(plan),
+        pendingTagWrites(plan)
+      );
+    }
+
+    builder.setSuccess(200).addContext({
+      applied: validated.apply,
+      ...plan.summary,
+      newTags: plan.tagSummary.create,
+    });
+    reply.code(200);
+    return { applied: validated.apply, ...plan };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "import rate cards route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
@@ -1,10 +1,28 @@
 import type { FastifyRequest, FastifyReply } from "fastify";
-import { handleOnboarding, handleGetConfig } from "./onboarding.ts";
-import { handleListTags, handleCreateTag, handleDeleteTag } from "./tags.ts";
+import {
+  handleOnboarding,
+  handleGetConfig,
+  handleUpdateInvoiceTemplate,
+} from "./onboarding.ts";
+import {
+  handleListTags,
+  handleCreateTag,
+  handleDeleteTag,
+  handleScheduleTag,
+  handleGetTagHistory,
+  handleRenameTag,
+  handleGetTagDependents,
+} from "./tags.ts";
 import {
   handleListExpressions,
   handleCreateExpression,
   handleDeleteExpression,
+  handleEvaluateExpression,
+  handleScheduleExpression,
+  handleGetExpressionHistory,
+  handleRenameExpression,
+  handleGetExpressionDependencies,
+  handleGetExpressionDependents,
 } from "./expressions.ts";
 import {
   handleCreateWebhookEndpoint,
@@ -19,6 +37,85 @@ import {
   handleRevokeApiKey,
 } from "./apiKeys.ts";
 import { handleListDeliveries } from "./webhookDeliveries.ts";
+import {
+  handleListAllowances,
+  handleCreateAllowance,
+  handleUpdateAllowance,
+  handleDeleteAllowance,
+  handleGetUserAllowances,
+} from "./allowances.ts";
+import {
+  handleListSpendingLimits,
+  handleCreateSpendingLimit,
+  handleGetSpendingLimit,
+  handleUpdateSpendingLimit,
+  handleDeleteSpendingLimit,
+} from "./spendingLimits.ts";
+import {
+  handleListPriceBooks,
+  handleCreatePriceBook,
+  handleGetPriceBook,
+  handleDeletePriceBook,
+  handleSetPriceBookTag,
+  handleDeletePriceBookTag,
+  handleSetPriceBookExpression,
+  handleDeletePriceBookExpression,
+  handleAssignPriceBook,
+} from "./priceBooks.ts";
+import {
+  handleListRateCards,
+  handleUpsertRateCard,
+  handleUpdateRateCard,
+  handleDeleteRateCard,
+  handleImportRateCards,
+} from "./rateCards.ts";
+import {
+  handleGetBalance,
+  handleListLedger,
+  handleSetBillingMode,
+  handlePreviewCharge,
+} from "./wallets.ts";
+import {
+  handleListInvoices,
+  handleGetInvoice,
+  handleGetInvoiceDocument,
+} from "./invoices.ts";
+import { handleRefundPayment } from "./payments.ts";
+import { handleListLateEvents } from "./lateEvents.ts";
+import {
+  handleListUsageThresholds,
+  handleCreateUsageThreshold,
+  handleGetUsageThreshold,
+  handleUpdateUsageThreshold,
+  handleDeleteUsageThreshold,
+} from "./usageThresholds.ts";
+import {
+  handleListPlans,
+  handleCreatePlan,
+  handleGetPlan,
+  handleUpdatePlan,
+  handleDeletePlan,
+  handleGetUserPlan,
+  handleAssignPlan,
+  handleEndUserPlan,
+} from "./plans.ts";
+import {
+  handleListCoupons,
+  handleCreateCoupon,
+  handleGetCoupon,
+  handleDeleteCoupon,
+  handleGetUserCoupon,
+  handleAttachCoupon,
+  handleDetachCoupon,
+} from "./coupons.ts";
+import {
+  handleListCustomers,
+  handleSearchCustomers,
+  handleCreateCustomer,
+  handleGetCustomer,
+  handleUpdateCustomer,
+  handleDeleteCustomer,
+} from "./customers.ts";
 
 export async function registerApiRoutes(
   server: ReturnType<(typeof import("fastify"))["fastify"]>
@@ -38,6 +135,13 @@ export async function registerApiRoutes(
     }
   );
 
+  server.put(
+    "/api/v1/internals/invoice-template",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleUpdateInvoiceTemplate(request, reply);
+    }
+  );
+
   // Tags
   server.get(
     "/api/v1/tags",
@@ -60,6 +164,34 @@ export async function registerApiRoutes(
     }
   );
 
+  server.post(
+    "/api/v1/tags/:key/schedule",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleScheduleTag(request, reply);
+    }
+  );
+
+  server.get(
+    "/api/v1/tags/:key/history",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleGetTagHistory(request, reply);
+    }
+  );
+
+  server.post(
+    "/api/v1/tags/:key/rename",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleRenameTag(request, reply);
+    }
+  );
+
+  server.get(
+    "/api/v1/tags/:key/dependents",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleGetTagDependents(request, reply);
+    }
+  );
+
   // Expressions
   server.get(
     "/api/v1/expressions",
@@ -75,6 +207,13 @@ export async function registerApiRoutes(
     }
   );
 
+  server.post(
+    "/api/v1/expressions/evaluate",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleEvaluateExpression(request, reply);
+    }
+  );
+
   server.delete(
     "/api/v1/expressions/:key",
     async (request: FastifyRequest, reply: FastifyReply) => {
@@ -82,6 +221,469 @@ export async function registerApiRoutes(
     }
   );
 
+  server.post(
+    "/api/v1/expressions/:key/schedule",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleScheduleExpression(request, reply);
+    }
+  );
+
+  server.get(
+    "/api/v1/expressions/:key/history",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleGetExpressionHistory(request, reply);
+    }
+  );
+
+  server.post(
+    "/api/v1/expressions/:key/rename",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleRenameExpression(request, reply);
+    }
+  );
+
+  server.get(
+    "/api/v1/expressions/:key/dependencies",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleGetExpressionDependencies(request, reply);
+    }
+  );
+
+  server.get(
+    "/api/v1/expressions/:key/dependents",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleGetExpressionDependents(request, reply);
+    }
+  );
+
+  // Price books
+  server.get(
+    "/api/v1/price-books",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleListPriceBooks(request, reply);
+    }
+  );
+
+  server.post(
+    "/api/v1/price-books",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleCreatePriceBook(request, reply);
+    }
+  );
+
+  server.get(
+    "/api/v1/price-books/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleGetPriceBook(request, reply);
+    }
+  );
+
+  server.delete(
+    "/api/v1/price-books/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleDeletePriceBook(request, reply);
+    }
+  );
+
+  server.put(
+    "/api/v1/price-books/:id/tags/:key",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleSetPriceBookTag(request, reply);
+    }
+  );
+
+  server.delete(
+    "/api/v1/price-books/:id/tags/:key",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleDeletePriceBookTag(request, reply);
+    }
+  );
+
+  server.put(
+    "/api/v1/price-books/:id/expressions/:key",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleSetPriceBookExpression(request, reply);
+    }
+  );
+
+  server.delete(
+    "/api/v1/price-books/:id/expressions/:key",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleDeletePriceBookExpression(request, reply);
+    }
+  );
+
+  server.put(
+    "/api/v1/users/:userId/price-book",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleAssignPriceBook(request, reply);
+    }
+  );
+
+  // Rate cards
+  server.get(
+    "/api/v1/rate-cards",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleListRateCards(request, reply);
+    }
+  );
+
+  server.post(
+    "/api/v1/rate-cards",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleUpsertRateCard(request, reply);
+    }
+  );
+
+  // The LiteLLM price file is well over Fastify's default 1 MiB body limit
+  server.post(
+    "/api/v1/rate-cards/import",
+    { bodyLimit: 16 * 1024 * 1024 },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleImportRateCards(request, reply);
+    }
+  );
+
+  server.put(
+    "/api/v1/rate-cards/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleUpdateRateCard(request, reply);
+    }
+  );
+
+  server.delete(
+    "/api/v1/rate-cards/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleDeleteRateCard(request, reply);
+    }
+  );
+
+  // Prepaid credit
+  server.get(
+    "/api/v1/users/:userId/balance",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleGetBalance(request, reply);
+    }
+  );
+
+  server.get(
+    "/api/v1/users/:userId/ledger",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleListLedger(request, reply);
+    }
+  );
+
+  server.put(
+    "/api/v1/users/:userId/billing-mode",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleSetBillingMode(request, reply);
+    }
+  );
+
+  // Upcoming charges
+  server.get(
+    "/api/v1/users/:userId/charge-preview",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handlePreviewCharge(request, reply);
+    }
+  );
+
+  // Invoices
+  server.get(
+    "/api/v1/invoices",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleListInvoices(request, reply);
+    }
+  );
+
+  server.get(
+    "/api/v1/invoices/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleGetInvoice(request, reply);
+    }
+  );
+
+  server.get(
+    "/api/v1/invoices/:id/document",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleGetInvoiceDocument(request, reply);
+    }
+  );
+
+  // Payments
+  server.post(
+    "/api/v1/payments/:paymentId/refund",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleRefundPayment(request, reply);
+    }
+  );
+
+  // Late events
+  server.get(
+    "/api/v1/late-events",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleListLateEvents(request, reply);
+    }
+  );
+
+  // Free allowances
+  server.get(
+    "/api/v1/allowances",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleListAllowances(request, reply);
+    }
+  );
+
+  server.post(
+    "/api/v1/allowances",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleCreateAllowance(request, reply);
+    }
+  );
+
+  server.put(
+    "/api/v1/allowances/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleUpdateAllowance(request, reply);
+    }
+  );
+
+  server.delete(
+    "/api/v1/allowances/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleDeleteAllowance(request, reply);
+    }
+  );
+
+  server.get(
+    "/api/v1/users/:userId/allowances",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleGetUserAllowances(request, reply);
+    }
+  );
+
+  // Customers
+  server.get(
+    "/api/v1/customers",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleListCustomers(request, reply);
+    }
+  );
+
+  server.get(
+    "/api/v1/customers/search",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleSearchCustomers(request, reply);
+    }
+  );
+
+  server.post(
+    "/api/v1/customers",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleCreateCustomer(request, reply);
+    }
+  );
+
+  server.get(
+    "/api/v1/customers/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleGetCustomer(request, reply);
+    }
+  );
+
+  server.put(
+    "/api/v1/customers/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleUpdateCustomer(request, reply);
+    }
+  );
+
+  server.delete(
+    "/api/v1/customers/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleDeleteCustomer(request, reply);
+    }
+  );
+
+  // Subscription plans
+  server.get(
+    "/api/v1/plans",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleListPlans(request, reply);
+    }
+  );
+
+  server.post(
+    "/api/v1/plans",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleCreatePlan(request, reply);
+    }
+  );
+
+  server.get(
+    "/api/v1/plans/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleGetPlan(request, reply);
+    }
+  );
+
+  server.put(
+    "/api/v1/plans/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleUpdatePlan(request, reply);
+    }
+  );
+
+  server.delete(
+    "/api/v1/plans/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleDeletePlan(request, reply);
+    }
+  );
+
+  server.get(
+    "/api/v1/users/:userId/plan",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleGetUserPlan(request, reply);
+    }
+  );
+
+  server.put(
+    "/api/v1/users/:userId/plan",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleAssignPlan(request, reply);
+    }
+  );
+
+  server.delete(
+    "/api/v1/users/:userId/plan",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleEndUserPlan(request, reply);
+    }
+  );
+
+  // Coupons
+  server.get(
+    "/api/v1/coupons",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleListCoupons(request, reply);
+    }
+  );
+
+  server.post(
+    "/api/v1/coupons",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleCreateCoupon(request, reply);
+    }
+  );
+
+  server.get(
+    "/api/v1/coupons/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleGetCoupon(request, reply);
+    }
+  );
+
+  server.delete(
+    "/api/v1/coupons/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleDeleteCoupon(request, reply);
+    }
+  );
+
+  server.get(
+    "/api/v1/users/:userId/coupon",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleGetUserCoupon(request, reply);
+    }
+  );
+
+  server.put(
+    "/api/v1/users/:userId/coupon",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleAttachCoupon(request, reply);
+    }
+  );
+
+  server.delete(
+    "/api/v1/users/:userId/coupon",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleDetachCoupon(request, reply);
+    }
+  );
+
+  // Spending limits
+  server.get(
+    "/api/v1/spending-limits",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleListSpendingLimits(request, reply);
+    }
+  );
+
+  server.post(
+    "/api/v1/spending-limits",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleCreateSpendingLimit(request, reply);
+    }
+  );
+
+  server.get(
+    "/api/v1/spending-limits/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleGetSpendingLimit(request, reply);
+    }
+  );
+
+  server.put(
+    "/api/v1/spending-limits/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleUpdateSpendingLimit(request, reply);
+    }
+  );
+
+  server.delete(
+    "/api/v1/spending-limits/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleDeleteSpendingLimit(request, reply);
+    }
+  );
+
+  // Usage thresholds
+  server.get(
+    "/api/v1/usage-thresholds",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleListUsageThresholds(request, reply);
+    }
+  );
+
+  server.post(
+    "/api/v1/usage-thresholds",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleCreateUsageThreshold(request, reply);
+    }
+  );
+
+  server.get(
+    "/api/v1/usage-thresholds/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleGetUsageThreshold(request, reply);
+    }
+  );
+
+  server.put(
+    "/api/v1/usage-thresholds/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleUpdateUsageThreshold(request, reply);
+    }
+  );
+
+  server.delete(
+    "/api/v1/usage-thresholds/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return handleDeleteUsageThreshold(request, reply);
+    }
+  );
+
   // API keys
   server.post(
     "/api/v1/api-keys",
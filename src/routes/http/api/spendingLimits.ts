@@ -0,0 +1,368 @@
+import type { FastifyRequest, FastifyReply } from "fastify";
+import * as Sentry from "@sentry/bun";
+import { ZodError } from "zod";
+import { z } from "zod";
+import {
+  createWideEventBuilder,
+  generateRequestId,
+  type WideEventBuilder,
+} from "../../../context/requestContext.ts";
+import { logger } from "../../../errors/logger.ts";
+import { AuthError } from "../../../errors/auth.ts";
+import { authenticateHttpApiKey } from "../../../utils/authenticateHttpApiKey.ts";
+import { USER_ID_CONFIG } from "../../../config/identifiers.ts";
+import {
+  listSpendingLimits,
+  findSpendingLimit,
+  createSpendingLimit,
+  updateSpendingLimit,
+  deleteSpendingLimit,
+  type SpendingLimit,
+} from "../../../storage/db/postgres/helpers/spendingLimits.ts";
+
+const amountSchema = z
+  .number()
+  .int("Amount must be a whole number of cents")
+  .positive("Amount must be positive");
+
+const enforcementSchema = z.enum(["hard", "soft"]);
+
+const createSpendingLimitSchema = z.union([
+  z.object({
+    userId: USER_ID_CONFIG.validator,
+    mode: z.enum(["production", "test"]).default("production"),
+    amount: amountSchema,
+    enforcement: enforcementSchema.default("hard"),
+  }),
+  z.object({
+    apiKeyId: z.string().uuid("Invalid API key ID"),
+    amount: amountSchema,
+    enforcement: enforcementSchema.default("hard"),
+  }),
+]);
+
+const updateSpendingLimitSchema = z
+  .object({
+    amount: amountSchema.optional(),
+    enforcement: enforcementSchema.optional(),
+  })
+  .refine(
+    (changes) =>
+      changes.amount !== undefined || changes.enforcement !== undefined,
+    "Provide amount or enforcement"
+  );
+
+const listSpendingLimitsQuerySchema = z.object({
+  userId: USER_ID_CONFIG.validator.optional(),
+  apiKeyId: z.string().uuid("Invalid API key ID").optional(),
+  mode: z.enum(["production", "test"]).optional(),
+});
+
+const spendingLimitParamsSchema = z.object({
+  id: z.string().uuid("Invalid spending limit ID"),
+});
+
+interface ListSpendingLimitsResponse {
+  spendingLimits: SpendingLimit[];
+}
+
+interface SpendingLimitResponse {
+  spendingLimit: SpendingLimit;
+}
+
+interface MessageResponse {
+  message: string;
+}
+
+function notFound(
+  builder: WideEventBuilder,
+  reply: FastifyReply,
+  id: string
+): { error: string } {
+  const message = `Spending limit '${id}' not found`;
+  builder.setError(404, { type: "NotFoundError", message });
+  reply.code(404);
+  return { error: message };
+}
+
+export async function handleListSpendingLimits(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ListSpendingLimitsResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const query = listSpendingLimitsQuerySchema.parse(request.query);
+    const spendingLimits = await listSpendingLimits(query);
+
+    builder
+      .setSuccess(200)
+      .addContext({ spendingLimitCount: spendingLimits.length });
+    reply.code(200);
+    return { spendingLimits };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "list spending limits route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleCreateSpendingLimit(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<SpendingLimitResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const body = await request.body;
+    const validated = createSpendingLimitSchema.parse(body);
+
+    const result = await createSpendingLimit(validated);
+    const target =
+      "userId" in validated
+        ? `user '${validated.userId}' in ${validated.mode} mode`
+        : `API key '${validated.apiKeyId}'`;
+
+    if (result.status === "invalid_api_key") {
+      const message = `${target} not found or cannot ingest events`;
+      builder.setError(404, { type: "NotFoundError", message });
+      reply.code(404);
+      return { error: message };
+    }
+
+    if (result.status === "exists") {
+      const message = `A spending limit for ${target} already exists`;
+      builder.setError(409, { type: "ConflictError", message });
+      reply.code(409);
+      return { error: message };
+    }
+
+    builder.setSuccess(200).addContext({ spendingLimitId: result.limit.id });
+    reply.code(200);
+    return { spendingLimit: result.limit };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "create spending limit route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleGetSpendingLimit(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<SpendingLimitResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = spendingLimitParamsSchema.parse(request.params);
+    const spendingLimit = await findSpendingLimit(params.id);
+
+    if (!spendingLimit) {
+      return notFound(builder, reply, params.id);
+    }
+
+    builder.setSuccess(200).addContext({ spendingLimitId: params.id });
+    reply.code(200);
+    return { spendingLimit };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "get spending limit route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleUpdateSpendingLimit(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<SpendingLimitResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = spendingLimitParamsSchema.parse(request.params);
+    const body = await request.body;
+    const validated = updateSpendingLimitSchema.parse(body);
+
+    const spendingLimit = await updateSpendingLimit(params.id, validated);
+
+    if (!spendingLimit) {
+      return notFound(builder, reply, params.id);
+    }
+
+    builder.setSuccess(200).addContext({ spendingLimitId: params.id });
+    reply.code(200);
+    return { spendingLimit };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "update spending limit route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleDeleteSpendingLimit(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<MessageResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = spendingLimitParamsSchema.parse(request.params);
+    const deleted = await deleteSpendingLimit(params.id);
+
+    if (!deleted) {
+      return notFound(builder, reply, params.id);
+    }
+
+    builder.setSuccess(200).addContext({ spendingLimitId: params.id });
+    reply.code(200);
+    return { message: `Spending limit '${params.id}' deleted` };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "delete spending limit route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
@@ -9,24 +9,53 @@ import {
 import { logger } from "../../../errors/logger.ts";
 import { AuthError } from "../../../errors/auth.ts";
 import { authenticateHttpApiKey } from "../../../utils/authenticateHttpApiKey.ts";
+import { DateTime } from "luxon";
 import {
   listTags,
   createTag,
   deleteTag,
+  listTagHistory,
+  renameTag,
+  type TagHistoryEntry,
 } from "../../../storage/db/postgres/helpers/tags.ts";
+import {
+  fetchDependencyIndex,
+  findDependents,
+  type AffectedExpression,
+  type InvalidExpression,
+} from "../../../utils/dependencyGraph.ts";
 
 const createTagSchema = z.object({
   key: z.string().min(1, "Tag key is required").max(128),
-  amount: z
-    .number()
-    .int("Amount must be an integer")
-    .nonnegative("Amount must be non-negative"),
+  amount: z.number().nonnegative("Amount must be non-negative"),
 });
 
 const tagParamsSchema = z.object({
   key: z.string().min(1, "Tag key is required"),
 });
 
+// Deleting or renaming a tag that live expressions use needs force=true
+const forceQuerySchema = z.object({
+  force: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+const renameTagSchema = z.object({
+  to: z.string().min(1, "New tag key is required").max(128),
+});
+
+const scheduleTagSchema = z.object({
+  amount: z.number().nonnegative("Amount must be non-negative"),
+  effectiveFrom: z.iso
+    .datetime({ offset: true, message: "Invalid ISO 8601 timestamp" })
+    .transform((value) => DateTime.fromISO(value, { zone: "utc" }))
+    .refine((value) => value > DateTime.utc(), {
+      message: "effectiveFrom must be in the future",
+    }),
+});
+
 interface ListTagsResponse {
   tags: { key: string; amount: number }[];
 }
@@ -35,6 +64,33 @@ interface MessageResponse {
   message: string;
 }
 
+interface ImpactResponse {
+  message: string;
+  impact: { affected: AffectedExpression[]; invalid: InvalidExpression[] };
+}
+
+interface BreakingChangeError {
+  error: string;
+  impact: { affected: AffectedExpression[]; invalid: InvalidExpression[] };
+}
+
+interface TagDependentsResponse {
+  key: string;
+  dependents: AffectedExpression[];
+  invalid: InvalidExpression[];
+}
+
+interface ScheduleTagResponse {
+  message: string;
+  version: number;
+  effectiveFrom: string;
+}
+
+interface TagHistoryResponse {
+  key: string;
+  versions: TagHistoryEntry[];
+}
+
 export async function handleListTags(
   request: FastifyRequest,
   reply: FastifyReply
@@ -128,7 +184,7 @@ export async function handleCreateTag(
 export async function handleDeleteTag(
   request: FastifyRequest,
   reply: FastifyReply
-): Promise<MessageResponse | { error: string }> {
+): Promise<ImpactResponse | BreakingChangeError | { error: string }> {
   const builder = createWideEventBuilder(
     generateRequestId(),
     request.method,
@@ -140,6 +196,20 @@ export async function handleDeleteTag(
     await authenticateHttpApiKey(authHeader);
 
     const params = tagParamsSchema.parse(request.params);
+    const query = forceQuerySchema.parse(request.query);
+
+    const index = await fetchDependencyIndex();
+    const affected = findDependents(index, {
+      kind: "tag",
+      key: params.key,
+    });
+    if (affected.length > 0 && !query.force) {
+      const message = `Tag '${params.key}' is used by ${affected.length} live expression(s); pass force=true to delete it anyway`;
+      builder.setError(409, { type: "ConflictError", message });
+      reply.code(409);
+      return { error: message, impact: { affected, invalid: index.invalid } };
+    }
+
     const deleted = await deleteTag(params.key);
 
     if (!deleted) {
@@ -151,9 +221,12 @@ export async function handleDeleteTag(
       return { error: `Tag '${params.key}' not found` };
     }
 
-    builder.setSuccess(200);
+    builder.setSuccess(200).addContext({ affectedCount: affected.length });
     reply.code(200);
-    return { message: `Tag '${params.key}' disabled` };
+    return {
+      message: `Tag '${params.key}' disabled`,
+      impact: { affected, invalid: index.invalid },
+    };
   } catch (error) {
     Sentry.captureException(error, {
       extra: { context: "delete tag route handler" },
@@ -165,6 +238,253 @@ export async function handleDeleteTag(
       return { error: error.message };
     }
 
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleRenameTag(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ImpactResponse | BreakingChangeError | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = tagParamsSchema.parse(request.params);
+    const query = forceQuerySchema.parse(request.query);
+    const validated = renameTagSchema.parse(request.body);
+
+    // Expressions keep referencing the old key, so they break like on delete
+    const index = await fetchDependencyIndex();
+    const affected = findDependents(index, {
+      kind: "tag",
+      key: params.key,
+    });
+    if (affected.length > 0 && !query.force) {
+      const message = `Tag '${params.key}' is used by ${affected.length} live expression(s); pass force=true to rename it anyway`;
+      builder.setError(409, { type: "ConflictError", message });
+      reply.code(409);
+      return { error: message, impact: { affected, invalid: index.invalid } };
+    }
+
+    const result = await renameTag(params.key, validated.to);
+
+    if (result === "not_found") {
+      builder.setError(404, {
+        type: "NotFoundError",
+        message: `Tag '${params.key}' not found`,
+      });
+      reply.code(404);
+      return { error: `Tag '${params.key}' not found` };
+    }
+
+    if (result === "exists") {
+      const message = `Tag '${validated.to}' already exists`;
+      builder.setError(409, { type: "ConflictError", message });
+      reply.code(409);
+      return { error: message };
+    }
+
+    builder.setSuccess(200).addContext({ affectedCount: affected.length });
+    reply.code(200);
+    return {
+      message: `Tag '${params.key}' renamed to '${validated.to}'`,
+      impact: { affected, invalid: index.invalid },
+    };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "rename tag route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleGetTagDependents(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<TagDependentsResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = tagParamsSchema.parse(request.params);
+    const index = await fetchDependencyIndex();
+    const dependents = findDependents(index, {
+      kind: "tag",
+      key: params.key,
+    });
+
+    builder.setSuccess(200).addContext({ dependentCount: dependents.length });
+    reply.code(200);
+    return { key: params.key, dependents, invalid: index.invalid };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "tag dependents route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleScheduleTag(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ScheduleTagResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = tagParamsSchema.parse(request.params);
+    const body = await request.body;
+    const validated = scheduleTagSchema.parse(body);
+
+    const version = await createTag(
+      params.key,
+      validated.amount,
+      validated.effectiveFrom
+    );
+    const effectiveFrom = validated.effectiveFrom.toISO() as string;
+
+    builder.setSuccess(200).addContext({ version, effectiveFrom });
+    reply.code(200);
+    return {
+      message: `Tag '${params.key}' scheduled`,
+      version,
+      effectiveFrom,
+    };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "schedule tag route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleGetTagHistory(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<TagHistoryResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = tagParamsSchema.parse(request.params);
+    const versions = await listTagHistory(params.key);
+
+    if (versions.length === 0) {
+      builder.setError(404, {
+        type: "NotFoundError",
+        message: `Tag '${params.key}' not found`,
+      });
+      reply.code(404);
+      return { error: `Tag '${params.key}' not found` };
+    }
+
+    builder.setSuccess(200).addContext({ versionCount: versions.length });
+    reply.code(200);
+    return { key: params.key, versions };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "tag history route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
     const err = error instanceof Error ? error : new Error(String(error));
     builder.setError(500, { type: "InternalError", message: err.message });
     reply.code(500);
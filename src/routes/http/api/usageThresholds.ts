@@ -0,0 +1,349 @@
+import type { FastifyRequest, FastifyReply } from "fastify";
+import * as Sentry from "@sentry/bun";
+import { ZodError } from "zod";
+import { z } from "zod";
+import {
+  createWideEventBuilder,
+  generateRequestId,
+  type WideEventBuilder,
+} from "../../../context/requestContext.ts";
+import { logger } from "../../../errors/logger.ts";
+import { AuthError } from "../../../errors/auth.ts";
+import { authenticateHttpApiKey } from "../../../utils/authenticateHttpApiKey.ts";
+import { USER_ID_CONFIG } from "../../../config/identifiers.ts";
+import {
+  listUsageThresholds,
+  findUsageThreshold,
+  createUsageThreshold,
+  updateUsageThreshold,
+  deleteUsageThreshold,
+  type UsageThreshold,
+} from "../../../storage/db/postgres/helpers/usageThresholds.ts";
+
+// Cents for amount thresholds, a percentage for limit_percent ones
+const valueSchema = z
+  .number()
+  .int("Value must be a whole number")
+  .positive("Value must be positive");
+
+const kindSchema = z.enum(["amount", "limit_percent"]);
+
+const createUsageThresholdSchema = z.object({
+  // Omitted for a threshold on every user in the mode
+  userId: USER_ID_CONFIG.validator.optional(),
+  mode: z.enum(["production", "test"]).default("production"),
+  kind: kindSchema,
+  value: valueSchema,
+});
+
+const updateUsageThresholdSchema = z
+  .object({
+    kind: kindSchema.optional(),
+    value: valueSchema.optional(),
+  })
+  .refine(
+    (changes) => changes.kind !== undefined || changes.value !== undefined,
+    "Provide kind or value"
+  );
+
+const listUsageThresholdsQuerySchema = z.object({
+  userId: USER_ID_CONFIG.validator.optional(),
+  mode: z.enum(["production", "test"]).optional(),
+});
+
+const usageThresholdParamsSchema = z.object({
+  id: z.string().uuid("Invalid usage threshold ID"),
+});
+
+interface ListUsageThresholdsResponse {
+  usageThresholds: UsageThreshold[];
+}
+
+interface UsageThresholdResponse {
+  usageThreshold: UsageThreshold;
+}
+
+interface MessageResponse {
+  message: string;
+}
+
+function notFound(
+  builder: WideEventBuilder,
+  reply: FastifyReply,
+  id: string
+): { error: string } {
+  const message = `Usage threshold '${id}' not found`;
+  builder.setError(404, { type: "NotFoundError", message });
+  reply.code(404);
+  return { error: message };
+}
+
+export async function handleListUsageThresholds(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ListUsageThresholdsResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const query = listUsageThresholdsQuerySchema.parse(request.query);
+    const usageThresholds = await listUsageThresholds(query);
+
+    builder
+      .setSuccess(200)
+      .addContext({ usageThresholdCount: usageThresholds.length });
+    reply.code(200);
+    return { usageThresholds };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "list usage thresholds route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleCreateUsageThreshold(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<UsageThresholdResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const body = await request.body;
+    const validated = createUsageThresholdSchema.parse(body);
+
+    const usageThreshold = await createUsageThreshold({
+      ...validated,
+      userId: validated.userId ?? null,
+    });
+
+    if (validated.userId) {
+      builder.setUser(validated.userId);
+    }
+    builder.setSuccess(200).addContext({ usageThresholdId: usageThreshold.id });
+    reply.code(200);
+    return { usageThreshold };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "create usage threshold route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleGetUsageThreshold(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<UsageThresholdResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = usageThresholdParamsSchema.parse(request.params);
+    const usageThreshold = await findUsageThreshold(params.id);
+
+    if (!usageThreshold) {
+      return notFound(builder, reply, params.id);
+    }
+
+    builder.setSuccess(200).addContext({ usageThresholdId: params.id });
+    reply.code(200);
+    return { usageThreshold };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "get usage threshold route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleUpdateUsageThreshold(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<UsageThresholdResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = usageThresholdParamsSchema.parse(request.params);
+    const body = await request.body;
+    const validated = updateUsageThresholdSchema.parse(body);
+
+    const usageThreshold = await updateUsageThreshold(params.id, validated);
+
+    if (!usageThreshold) {
+      return notFound(builder, reply, params.id);
+    }
+
+    builder.setSuccess(200).addContext({ usageThresholdId: params.id });
+    reply.code(200);
+    return { usageThreshold };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "update usage threshold route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleDeleteUsageThreshold(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<MessageResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    await authenticateHttpApiKey(authHeader);
+
+    const params = usageThresholdParamsSchema.parse(request.params);
+    const deleted = await deleteUsageThreshold(params.id);
+
+    if (!deleted) {
+      return notFound(builder, reply, params.id);
+    }
+
+    builder.setSuccess(200).addContext({ usageThresholdId: params.id });
+    reply.code(200);
+    return { message: `Usage threshold '${params.id}' deleted` };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "delete usage threshold route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
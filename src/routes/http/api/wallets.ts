@@ -0,0 +1,316 @@
+import type { FastifyRequest, FastifyReply } from "fastify";
+import * as Sentry from "@sentry/bun";
+import { ZodError } from "zod";
+import { z } from "zod";
+import {
+  createWideEventBuilder,
+  generateRequestId,
+} from "../../../context/requestContext.ts";
+import { logger } from "../../../errors/logger.ts";
+import { AuthError } from "../../../errors/auth.ts";
+import { authenticateHttpApiKey } from "../../../utils/authenticateHttpApiKey.ts";
+import { USER_ID_CONFIG } from "../../../config/identifiers.ts";
+import {
+  getCreditBalance,
+  listLedgerEntries,
+  type LedgerEntry,
+} from "../../../storage/db/postgres/helpers/wallet.ts";
+import {
+  fetchPrepaidSince,
+  setBillingMode,
+} from "../../../services/walletService.ts";
+import {
+  previewCharge,
+  type ChargePreview,
+} from "../../../services/checkoutService.ts";
+
+const userParamsSchema = z.object({
+  userId: USER_ID_CONFIG.validator,
+});
+
+// Dashboard keys have no mode of their own, so they pick one explicitly
+const walletQuerySchema = z.object({
+  mode: z.enum(["production", "test"]).optional(),
+});
+
+const listLedgerQuerySchema = walletQuerySchema.extend({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const setBillingModeSchema = z.object({
+  billing: z.enum(["prepaid", "postpaid"]),
+  mode: z.enum(["production", "test"]).optional(),
+});
+
+interface BalanceResponse {
+  userId: string;
+  mode: "production" | "test";
+  billing: "prepaid" | "postpaid";
+  prepaidSince: string | null;
+  // Cents; negative once usage outruns the credit bought
+  balance: number;
+}
+
+interface LedgerResponse {
+  userId: string;
+  mode: "production" | "test";
+  entries: LedgerEntry[];
+}
+
+interface ChargePreviewResponse extends ChargePreview {
+  userId: string;
+  mode: "production" | "test";
+}
+
+interface MessageResponse {
+  message: string;
+}
+
+export async function handleGetBalance(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<BalanceResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    const auth = await authenticateHttpApiKey(authHeader);
+
+    const params = userParamsSchema.parse(request.params);
+    const query = walletQuerySchema.parse(request.query);
+    const mode = query.mode ?? auth.mode ?? "production";
+
+    const [balance, prepaidSince] = await Promise.all([
+      getCreditBalance(params.userId, mode),
+      fetchPrepaidSince(params.userId),
+    ]);
+
+    builder.setUser(params.userId);
+    builder.setSuccess(200).addContext({ balance });
+    reply.code(200);
+    return {
+      userId: params.userId,
+      mode,
+      billing: prepaidSince ? "prepaid" : "postpaid",
+      prepaidSince: prepaidSince?.toISO() ?? null,
+      balance,
+    };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "get balance route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleListLedger(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<LedgerResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    const auth = await authenticateHttpApiKey(authHeader);
+
+    const params = userParamsSchema.parse(request.params);
+    const query = listLedgerQuerySchema.parse(request.query);
+    const mode = query.mode ?? auth.mode ?? "production";
+
+    const entries = await listLedgerEntries(
+      params.userId,
+      mode,
+      query.limit,
+      query.offset
+    );
+
+    builder.setUser(params.userId);
+    builder.setSuccess(200).addContext({ entryCount: entries.length });
+    reply.code(200);
+    return { userId: params.userId, mode, entries };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "list ledger route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handleSetBillingMode(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<MessageResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    const auth = await authenticateHttpApiKey(authHeader);
+
+    const params = userParamsSchema.parse(request.params);
+    const validated = setBillingModeSchema.parse(request.body);
+    const mode = validated.mode ?? auth.mode ?? "production";
+
+    const result = await setBillingMode(
+      params.userId,
+      validated.billing === "prepaid",
+      { ...auth, mode }
+    );
+    builder.setUser(params.userId);
+
+    if (result.status === "unbilled_usage") {
+      const message = `User '${params.userId}' has ${result.amount} cents of usage from before going prepaid to check out first`;
+      builder.setError(409, { type: "ConflictError", message });
+      reply.code(409);
+      return { error: message };
+    }
+
+    if (result.status === "negative_balance") {
+      const message = `User '${params.userId}' has a balance of ${result.balance} cents to top up first`;
+      builder.setError(409, { type: "ConflictError", message });
+      reply.code(409);
+      return { error: message };
+    }
+
+    builder.setSuccess(200).addContext({ billing: validated.billing });
+    reply.code(200);
+    return {
+      message: result.prepaidSince
+        ? `User '${params.userId}' is on prepaid billing since ${result.prepaidSince}`
+        : `User '${params.userId}' is on post-paid billing`,
+    };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "set billing mode route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
+export async function handlePreviewCharge(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ChargePreviewResponse | { error: string }> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const authHeader = request.headers.authorization;
+    const auth = await authenticateHttpApiKey(authHeader);
+
+    const params = userParamsSchema.parse(request.params);
+    const query = walletQuerySchema.parse(request.query);
+    const mode = query.mode ?? auth.mode ?? "production";
+
+    const preview = await previewCharge(params.userId, { ...auth, mode });
+
+    builder.setUser(params.userId);
+    builder.setSuccess(200).addContext({ total: preview.total });
+    reply.code(200);
+    return { userId: params.userId, mode, ...preview };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "preview charge route handler" },
+    });
+
+    if (error instanceof AuthError) {
+      builder.setError(401, { type: error.type, message: error.message });
+      reply.code(401);
+      return { error: error.message };
+    }
+
+    if (error instanceof ZodError) {
+      const issues = error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      builder.setError(400, { type: "ValidationError", message: issues });
+      reply.code(400);
+      return { error: issues };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
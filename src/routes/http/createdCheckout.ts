@@ -1,19 +1,48 @@
-import DodoPayments from "dodopayments";
 import * as Sentry from "@sentry/bun";
 import type { WideEventBuilder } from "../../context/requestContext.ts";
-import { handleAddPayment } from "../../storage/db/postgres/helpers/payments";
-import { getDodoClient } from "../gRPC/payment/paymentProvider.ts";
+import {
+  findPaymentByProviderId,
+  handleAddPayment,
+  lockReversibleAmount,
+  recordPaymentDispute,
+  recordPaymentRefund,
+  type PaymentDisputeStatus,
+  type PaymentReversalKind,
+} from "../../storage/db/postgres/helpers/payments";
 import {
   getSessionByCheckoutId,
   updateSessionStatus,
 } from "../../storage/db/postgres/helpers/sessions";
-import { updateUserBilledTimestamp } from "../../storage/db/postgres/helpers/users";
+import {
+  rollBackUserBilledTimestamp,
+  updateUserBilledTimestamp,
+} from "../../storage/db/postgres/helpers/users";
 import { getPostgresDB } from "../../storage/db/postgres/db";
 import { executeInTransaction } from "../../storage/adapter/postgres/handlers/addEventUtils";
 import { forwardWebhook } from "./forwardWebhook.ts";
+import { addLedgerEntry } from "../../storage/db/postgres/helpers/wallet";
+import {
+  markInvoicePaid,
+  voidInvoice,
+} from "../../storage/db/postgres/helpers/invoices";
+import { clearUsageThresholdCrossings } from "../../storage/db/postgres/helpers/usageThresholds";
+import { releaseSessionCoupon } from "../../storage/db/postgres/helpers/coupons";
+import { getMetadata } from "../../storage/db/postgres/helpers/metadata";
+import { ROLLBACK_BILLING_ON_REVERSAL } from "../../config/identifiers";
+import { PaymentError } from "../../errors/payment";
+import type {
+  DisputeWebhookEvent,
+  PaymentMode,
+  PaymentProvider,
+  ProviderWebhookEvent,
+  RefundWebhookEvent,
+  WebhookRequest,
+} from "../../interface/payment/PaymentProvider";
 
 const isDev = process.env.NODE_ENV !== "production";
 
+type ReversalWebhookEvent = RefundWebhookEvent | DisputeWebhookEvent;
+
 interface WebhookResponse {
   statusCode: number;
   body: { message?: string; error?: string };
@@ -39,47 +68,169 @@ function ignoredResponse(builder: WideEventBuilder): WebhookResponse {
   return okResponse("Event ignored");
 }
 
-function buildWebhookHeaders(
-  signature: string | undefined,
-  timestamp: string | undefined,
-  webhookId: string | undefined
-): Record<string, string> {
-  return {
-    "webhook-id": webhookId || "",
-    "webhook-signature": signature || "",
-    "webhook-timestamp": timestamp || "",
-  };
+function isReversalEvent(
+  event: ProviderWebhookEvent
+): event is ReversalWebhookEvent {
+  return (
+    event.type === "refund.succeeded" ||
+    event.type === "dispute.opened" ||
+    event.type === "dispute.won" ||
+    event.type === "dispute.lost"
+  );
 }
 
-function unwrapWebhookPayload(
-  client: DodoPayments,
-  rawBody: string,
-  headers: Record<string, string>
-): DodoPayments.Webhooks.UnwrapWebhookEvent | null {
-  try {
-    return client.webhooks.unwrap(rawBody, { headers });
-  } catch (error) {
-    Sentry.captureException(error, {
-      extra: { context: "webhook signature verification" },
-    });
-    return null;
+const DISPUTE_STATUSES: Record<
+  DisputeWebhookEvent["type"],
+  PaymentDisputeStatus
+> = {
+  "dispute.opened": "open",
+  "dispute.won": "won",
+  "dispute.lost": "lost",
+};
+
+/**
+ * Records a refund or dispute against the payment it reverses. Refunds and
+ * lost disputes take money back, capped at what earlier reversals left of
+ * the payment; open and won disputes move none. Top-up reversals also take
+ * the credit back out of the wallet. With ROLLBACK_BILLING_ON_REVERSAL,
+ * reversing what is left of a usage payment makes the period's usage
+ * billable again.
+ */
+async function processReversal(
+  event: ReversalWebhookEvent,
+  builder: WideEventBuilder
+): Promise<WebhookResponse> {
+  const { paymentId: payment_id } = event;
+  const [kind, action] = event.type.split(".") as [PaymentReversalKind, string];
+  const reference =
+    event.type === "refund.succeeded" ? event.refundId : event.disputeId;
+  const movesMoney =
+    event.type === "refund.succeeded" || event.type === "dispute.lost";
+
+  builder.setWebhookContext({
+    webhookEvent: event.type,
+    orderId: payment_id,
+  });
+
+  const payment = await findPaymentByProviderId(payment_id);
+
+  if (!payment) {
+    return errorResponse(
+      404,
+      "NotFoundError",
+      `Payment not found for payment_id: ${payment_id}`,
+      builder
+    );
+  }
+
+  const { userId, apiKeyId, mode } = payment;
+  let amount: number = 0;
+  let processed: boolean = false;
+  let billingRolledBack: boolean = false;
+
+  await executeInTransaction(
+    getPostgresDB(),
+    `process ${event.type}`,
+    async (txn) => {
+      const reversible = await lockReversibleAmount(payment, txn);
+      amount = Math.min(Math.round(event.amount ?? reversible), reversible);
+
+      processed =
+        event.type === "refund.succeeded"
+          ? await recordPaymentRefund(
+              { payment, refundId: event.refundId, amount },
+              txn
+            )
+          : await recordPaymentDispute(
+              {
+                payment,
+                disputeId: event.disputeId,
+                status: DISPUTE_STATUSES[event.type],
+                amount,
+              },
+              txn
+            );
+      if (!processed || !movesMoney) return;
+
+      if (payment.sessionKind === "top_up") {
+        await addLedgerEntry(
+          {
+            userId,
+            mode,
+            kind: "adjustment",
+            amount: -amount,
+            reference,
+          },
+          txn
+        );
+      }
+      // Nothing is left of the payment to cover the usage it settled
+      if (
+        amount > 0 &&
+        amount >= reversible &&
+        ROLLBACK_BILLING_ON_REVERSAL &&
+        payment.sessionKind === "usage" &&
+        payment.periodStart
+      ) {
+        billingRolledBack = await rollBackUserBilledTimestamp(
+          userId,
+          payment.billedUpto,
+          payment.periodStart,
+          txn
+        );
+      }
+    }
+  );
+  if (!processed) {
+    Sentry.captureMessage(
+      `${event.type} for payment ${payment_id} already processed, no rows updated`,
+      { level: "warning" }
+    );
+    return ignoredResponse(builder);
   }
+
+  builder.setUser(userId);
+  builder.setPaymentContext({ creditAmount: movesMoney ? -amount : 0 });
+  builder.setSuccess(200);
+
+  const metadata = await getMetadata();
+  forwardWebhook(apiKeyId, {
+    eventType: event.type,
+    resource: kind,
+    action,
+    data: {
+      [kind === "refund" ? "refundId" : "disputeId"]: reference,
+      paymentId: payment_id,
+      checkoutSessionId: payment.checkoutSessionId,
+      userId,
+      amount,
+      currency: metadata?.currency ?? "usd",
+      mode,
+      kind: payment.sessionKind,
+      billingRolledBack,
+    },
+    rawData: event.raw,
+  });
+
+  return okResponse("Webhook processed successfully");
 }
 
-export async function handleDodoWebhook(
-  rawBody: string,
-  signature: string | undefined,
-  timestamp: string | undefined,
-  webhookId: string | undefined,
-  mode: "production" | "test",
+export async function handlePaymentWebhook(
+  provider: PaymentProvider,
+  request: WebhookRequest,
+  mode: PaymentMode,
   builder: WideEventBuilder
 ): Promise<WebhookResponse> {
   try {
-    const client = await getDodoClient(
-      mode === "production" ? "production" : "test"
-    );
-    const headers = buildWebhookHeaders(signature, timestamp, webhookId);
-    const webhookPayload = unwrapWebhookPayload(client, rawBody, headers);
+    let webhookPayload: ProviderWebhookEvent | null;
+    try {
+      webhookPayload = await provider.unwrapWebhook(request, mode);
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        return errorResponse(400, "ParseError", error.message, builder);
+      }
+      throw error;
+    }
 
     if (!webhookPayload) {
       return errorResponse(
@@ -90,23 +241,16 @@ export async function handleDodoWebhook(
       );
     }
 
-    if (!webhookPayload.type || !webhookPayload.data) {
-      return errorResponse(
-        400,
-        "ParseError",
-        "Invalid webhook payload shape",
-        builder
-      );
+    if (webhookPayload.type === "ignored") {
+      return ignoredResponse(builder);
     }
 
-    if (
-      webhookPayload.type !== "payment.failed" &&
-      webhookPayload.type !== "payment.succeeded"
-    ) {
-      return ignoredResponse(builder);
+    if (isReversalEvent(webhookPayload)) {
+      return await processReversal(webhookPayload, builder);
     }
 
-    const { payment_id, checkout_session_id } = webhookPayload.data;
+    const { paymentId: payment_id, checkoutSessionId: checkout_session_id } =
+      webhookPayload;
 
     builder.setWebhookContext({
       webhookEvent: webhookPayload.type,
@@ -148,6 +292,8 @@ export async function handleDodoWebhook(
       await executeInTransaction(db, "process failed", async (txn) => {
         claimed = await updateSessionStatus(checkout_session_id, "failed", txn);
         if (!claimed) return;
+        await voidInvoice(session.proxy_link_id, txn);
+        await releaseSessionCoupon(session.proxy_link_id, txn);
       });
       if (!claimed) {
         Sentry.captureMessage(
@@ -167,20 +313,16 @@ export async function handleDodoWebhook(
           checkoutSessionId: checkout_session_id,
           userId: session.userId,
           mode: session.mode,
+          kind: session.kind,
           createdAt: session.createdAt,
         },
-        rawData: {
-          business_id: webhookPayload.business_id,
-          data: webhookPayload.data,
-          timestamp: webhookPayload.timestamp,
-          type: webhookPayload.type,
-        },
+        rawData: webhookPayload.raw,
       });
     }
 
     if (webhookPayload.type === "payment.succeeded") {
-      const creditAmount = Math.round(webhookPayload.data.total_amount);
-      const { userId, billed_upto, apiKeyId, mode } = session;
+      const creditAmount = webhookPayload.amount;
+      const { userId, billed_upto, apiKeyId, mode, kind } = session;
       let claimed: boolean = false;
 
       await executeInTransaction(db, "process checkout", async (txn) => {
@@ -190,15 +332,34 @@ export async function handleDodoWebhook(
           txn
         );
         if (!claimed) return;
-        await updateUserBilledTimestamp(userId, billed_upto, txn);
-        await handleAddPayment(
+        // Top-ups buy credit rather than settle usage up to billed_upto
+        if (kind === "top_up") {
+          await addLedgerEntry(
+            {
+              userId,
+              mode,
+              kind: "top_up",
+              amount: creditAmount,
+              reference: session.proxy_link_id,
+            },
+            txn
+          );
+        } else {
+          await updateUserBilledTimestamp(userId, billed_upto, txn);
+          await clearUsageThresholdCrossings(userId, billed_upto, txn);
+        }
+        const payment = await handleAddPayment(
           userId,
           creditAmount,
           apiKeyId,
           mode,
           session.proxy_link_id,
+          payment_id,
           txn
         );
+        if (kind === "usage") {
+          await markInvoicePaid(session.proxy_link_id, payment.id, txn);
+        }
       });
       if (!claimed) {
         Sentry.captureMessage(
@@ -223,15 +384,11 @@ export async function handleDodoWebhook(
           amount: creditAmount,
           currency: "usd",
           mode,
+          kind,
           billed_upto,
           createdAt: session.createdAt,
         },
-        rawData: {
-          business_id: webhookPayload.business_id,
-          data: webhookPayload.data,
-          timestamp: webhookPayload.timestamp,
-          type: webhookPayload.type,
-        },
+        rawData: webhookPayload.raw,
       });
     }
 
@@ -0,0 +1,156 @@
+import type { FastifyReply, FastifyRequest } from "fastify";
+import * as Sentry from "@sentry/bun";
+import { z } from "zod";
+import {
+  createWideEventBuilder,
+  generateRequestId,
+} from "../../context/requestContext.ts";
+import { logger } from "../../errors/logger.ts";
+import { PaymentError } from "../../errors/payment.ts";
+import { PaymentProviderFactory } from "../../factory/PaymentProviderFactory.ts";
+import type { LocalPaymentProvider } from "../../payment/adapter/local/LocalPaymentProvider.ts";
+import { escapeHtml, formatMinorUnits } from "../../utils/invoiceDocument.ts";
+
+const localCheckoutParamsSchema = z.object({
+  sessionId: z.string().min(1),
+});
+
+const completeLocalCheckoutParamsSchema = localCheckoutParamsSchema.extend({
+  outcome: z.enum(["succeeded", "failed"]),
+});
+
+function localProvider(): LocalPaymentProvider | null {
+  if (process.env.NODE_ENV === "production") {
+    return null;
+  }
+  return PaymentProviderFactory.getPaymentProvider(
+    "local"
+  ) as LocalPaymentProvider;
+}
+
+function page(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${title}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; max-width: 420px; margin: 80px auto; color: #111; }
+    .notice { background: #fff4d6; padding: 8px 12px; border-radius: 4px; font-size: 13px; }
+    .amount { font-size: 32px; margin: 24px 0; }
+    form { display: inline-block; margin-right: 8px; }
+    button { font-size: 16px; padding: 8px 20px; cursor: pointer; }
+  </style>
+</head>
+<body>
+  <p class="notice">Local payment provider: no money moves.</p>
+  ${body}
+</body>
+</html>
+`;
+}
+
+export async function handleLocalCheckoutPage(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<string | { error: string }> {
+  const provider = localProvider();
+  const params = localCheckoutParamsSchema.safeParse(request.params);
+  const checkout =
+    provider && params.success
+      ? provider.getCheckout(params.data.sessionId)
+      : undefined;
+
+  if (!checkout) {
+    reply.code(404);
+    return { error: "Checkout session not found" };
+  }
+
+  reply.type("text/html; charset=utf-8");
+  if (checkout.outcome) {
+    return page("Checkout completed", `<h1>Checkout ${checkout.outcome}</h1>`);
+  }
+
+  const action = `/payment/local/checkout/${checkout.sessionId}`;
+  return page(
+    "Checkout",
+    `<h1>Checkout</h1>
+  <p>Mode: ${checkout.mode}</p>${
+    checkout.email
+      ? `
+  <p>Customer: ${escapeHtml(checkout.email)}</p>`
+      : ""
+  }
+  <p class="amount">${formatMinorUnits(checkout.amount, checkout.currency)}</p>
+  <form method="post" enctype="text/plain" action="${action}/succeeded"><button type="submit">Succeed</button></form>
+  <form method="post" enctype="text/plain" action="${action}/failed"><button type="submit">Fail</button></form>`
+  );
+}
+
+export async function handleCompleteLocalCheckout(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<string | { error: string } | void> {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const provider = localProvider();
+    const params = completeLocalCheckoutParamsSchema.safeParse(request.params);
+    const checkout =
+      provider && params.success
+        ? provider.getCheckout(params.data.sessionId)
+        : undefined;
+
+    if (!provider || !params.success || !checkout) {
+      builder.setError(404, {
+        type: "NotFoundError",
+        message: "Checkout session not found",
+      });
+      reply.code(404);
+      return { error: "Checkout session not found" };
+    }
+
+    const { sessionId, outcome } = params.data;
+    const webhookStatus = await provider.completeCheckout(sessionId, outcome);
+
+    builder.setUser(checkout.userId);
+    builder
+      .setSuccess(200)
+      .addContext({ checkoutSessionId: sessionId, outcome, webhookStatus });
+
+    if (checkout.returnUrl) {
+      const returnUrl = new URL(checkout.returnUrl);
+      returnUrl.searchParams.set("status", outcome);
+      reply.code(303).redirect(returnUrl.toString());
+      return;
+    }
+
+    reply.code(200).type("text/html; charset=utf-8");
+    return page(
+      "Checkout completed",
+      `<h1>Checkout ${outcome}</h1>
+  <p>Webhook delivered with status ${webhookStatus}.</p>`
+    );
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "complete local checkout route handler" },
+    });
+
+    if (error instanceof PaymentError) {
+      builder.setError(409, { type: error.type, message: error.message });
+      reply.code(409);
+      return { error: error.message };
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, { type: "InternalError", message: err.message });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
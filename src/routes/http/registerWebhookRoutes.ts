@@ -5,7 +5,13 @@ import {
   generateRequestId,
 } from "../../context/requestContext.ts";
 import { logger } from "../../errors/logger.ts";
-import { handleDodoWebhook } from "./createdCheckout.ts";
+import { handlePaymentWebhook } from "./createdCheckout.ts";
+import { PaymentProviderFactory } from "../../factory/PaymentProviderFactory.ts";
+import {
+  PAYMENT_PROVIDERS,
+  type PaymentProvider,
+  type PaymentProviderName,
+} from "../../interface/payment/PaymentProvider.ts";
 
 function extractHeaderValue(
   header: string | string[] | undefined
@@ -17,80 +23,127 @@ function extractHeaderValue(
       : undefined;
 }
 
+function isPaymentProviderName(name: unknown): name is PaymentProviderName {
+  return (PAYMENT_PROVIDERS as readonly unknown[]).includes(name);
+}
+
+async function handleWebhookRequest(
+  resolveProvider: () => Promise<PaymentProvider | null>,
+  request: FastifyRequest & {
+    rawBody?: string;
+  },
+  reply: FastifyReply
+) {
+  const builder = createWideEventBuilder(
+    generateRequestId(),
+    request.method,
+    request.url
+  );
+
+  try {
+    const provider = await resolveProvider();
+    if (!provider) {
+      builder.setError(404, {
+        type: "NotFoundError",
+        message: "Unknown payment provider",
+      });
+      reply.code(404);
+      return { error: "Unknown payment provider" };
+    }
+
+    const mode = (request.query as Record<string, string>)?.mode;
+    if (mode !== "production" && mode !== "test") {
+      builder.setError(400, {
+        type: "ValidationError",
+        message:
+          "Invalid or missing 'mode' query parameter. Must be 'production' or 'test'.",
+      });
+      reply.code(400);
+      return { error: "Invalid mode query parameter" };
+    }
+
+    const headers: Record<string, string | undefined> = {};
+    for (const [name, value] of Object.entries(request.headers)) {
+      headers[name] = extractHeaderValue(value);
+    }
+
+    const rawBody = request.rawBody;
+
+    if (!rawBody) {
+      builder.setError(400, {
+        type: "ParseError",
+        message: "Missing raw webhook payload",
+      });
+      reply.code(400);
+      return { error: "Missing raw webhook payload" };
+    }
+
+    const result = await handlePaymentWebhook(
+      provider,
+      { rawBody, headers },
+      mode,
+      builder
+    );
+
+    reply.code(result.statusCode);
+    return result.body;
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "webhook route handler" },
+    });
+    const err = error instanceof Error ? error : new Error(String(error));
+    builder.setError(500, {
+      type: "InternalError",
+      message: err.message,
+    });
+    reply.code(500);
+    return { error: "Internal server error" };
+  } finally {
+    logger.emit(builder.build());
+  }
+}
+
 export async function registerWebhookRoutes(
   server: ReturnType<(typeof import("fastify"))["fastify"]>
 ): Promise<void> {
+  // Webhooks registered before providers were pluggable point here, as do
+  // the local provider's; they belong to the configured provider
   server.post(
     "/webhooks/payment/createdCheckout",
     { config: { rawBody: true } },
     async (
-      request: FastifyRequest & {
-        rawBody?: string;
-      },
+      request: FastifyRequest & { rawBody?: string },
       reply: FastifyReply
-    ) => {
-      const builder = createWideEventBuilder(
-        generateRequestId(),
-        request.method,
-        request.url
-      );
-
-      try {
-        const mode = (request.query as Record<string, string>)?.mode;
-        if (mode !== "production" && mode !== "test") {
-          builder.setError(400, {
-            type: "ValidationError",
-            message:
-              "Invalid or missing 'mode' query parameter. Must be 'production' or 'test'.",
-          });
-          reply.code(400);
-          return { error: "Invalid mode query parameter" };
-        }
-
-        const signatureHeader = request.headers["webhook-signature"];
-        const timestampHeader = request.headers["webhook-timestamp"];
-        const webhookIdHeader = request.headers["webhook-id"];
-        const signature = extractHeaderValue(signatureHeader);
-        const timestamp = extractHeaderValue(timestampHeader);
-        const webhookId = extractHeaderValue(webhookIdHeader);
-
-        const requestWithRawBody = request;
-        const rawBody = requestWithRawBody.rawBody;
-
-        if (!rawBody) {
-          builder.setError(400, {
-            type: "ParseError",
-            message: "Missing raw webhook payload",
-          });
-          reply.code(400);
-          return { error: "Missing raw webhook payload" };
-        }
-
-        const result = await handleDodoWebhook(
-          rawBody,
-          signature,
-          timestamp,
-          webhookId,
-          mode,
-          builder
-        );
+    ) =>
+      handleWebhookRequest(
+        () => PaymentProviderFactory.getConfiguredPaymentProvider(),
+        request,
+        reply
+      )
+  );
 
-        reply.code(result.statusCode);
-        return result.body;
-      } catch (error) {
-        Sentry.captureException(error, {
-          extra: { context: "webhook route handler" },
-        });
-        const err = error instanceof Error ? error : new Error(String(error));
-        builder.setError(500, {
-          type: "InternalError",
-          message: err.message,
-        });
-        reply.code(500);
-        return { error: "Internal server error" };
-      } finally {
-        logger.emit(builder.build());
-      }
-    }
+  server.post(
+    "/webhooks/payment/:provider",
+    { config: { rawBody: true } },
+    async (
+      request: FastifyRequest & { rawBody?: string },
+      reply: FastifyReply
+    ) =>
+      handleWebhookRequest(
+        async () => {
+          const name = (request.params as Record<string, string>).provider;
+          // The local provider settles checkouts for free, so it only
+          // exists outside production
+          if (
+            !isPaymentProviderName(name) ||
+            (name === "local" && process.env.NODE_ENV === "production")
+          ) {
+            return null;
+          }
+          return PaymentProviderFactory.getPaymentProvider(name);
+        },
+        request,
+        reply
+      )
   );
 }
@@ -6,6 +6,9 @@ import {
   type GrpcTlsOptions,
 } from "./servers/rawGrpcServer.ts";
 import { startFastifyServer } from "./servers/fastifyServer.ts";
+import { startBillingScheduler } from "./services/billingCycleService.ts";
+import { startSettlementWorker } from "./services/settlementService.ts";
+import { startPlanFeeScheduler } from "./services/walletService.ts";
 
 import { getClickHouseDB } from "./storage/db/clickhouse.ts";
 import { readFileSync } from "node:fs";
@@ -103,6 +106,9 @@ async function main(): Promise<void> {
   const tlsOptions = loadGrpcTlsOptions();
   await startRawGrpcServer(GRPC_PORT, tlsOptions);
   await startFastifyServer(PORT, GRPC_PORT);
+  startBillingScheduler();
+  startSettlementWorker();
+  startPlanFeeScheduler();
 
   if (!tlsOptions) {
     logger.lifecycleWarning(
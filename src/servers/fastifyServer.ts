@@ -3,6 +3,10 @@ import fastifyRawBody from "fastify-raw-body";
 import { registerWebhookRoutes } from "../routes/http/registerWebhookRoutes.ts";
 import { registerApiRoutes } from "../routes/http/api/registerApiRoutes.ts";
 import { handleCheckoutRedirect } from "../routes/http/checkoutRedirect.ts";
+import {
+  handleCompleteLocalCheckout,
+  handleLocalCheckoutPage,
+} from "../routes/http/localCheckout.ts";
 import { logger } from "../errors/logger.ts";
 
 export async function startFastifyServer(
@@ -30,6 +34,13 @@ export async function startFastifyServer(
     }
   );
 
+  // Hosted checkout of the local payment provider
+  server.get("/payment/local/checkout/:sessionId", handleLocalCheckoutPage);
+  server.post(
+    "/payment/local/checkout/:sessionId/:outcome",
+    handleCompleteLocalCheckout
+  );
+
   await registerWebhookRoutes(server);
   await registerApiRoutes(server);
 
@@ -41,7 +52,7 @@ export async function startFastifyServer(
     env: process.env.NODE_ENV || "development",
   });
   logger.lifecycle("Webhook endpoint available", {
-    url: `http://localhost:${port}/webhooks/payment/createdCheckout`,
+    url: `http://localhost:${port}/webhooks/payment/:provider`,
   });
   logger.lifecycle("API endpoint available", {
     url: `http://localhost:${port}/api/v1/internals/onboarding`,
@@ -8,6 +8,9 @@ import { createAPIKey } from "../routes/gRPC/auth/createAPIKey";
 import { registerEvent } from "../routes/gRPC/events/registerEvent";
 import { streamEvents } from "../routes/gRPC/events/streamEvents";
 import { createCheckoutLink } from "../routes/gRPC/payment/createCheckoutLink";
+import { createTopUpLink } from "../routes/gRPC/payment/createTopUpLink";
+import { getBalance } from "../routes/gRPC/payment/getBalance";
+import { previewCharge } from "../routes/gRPC/payment/previewCharge";
 import { queryEvents } from "../routes/gRPC/query/queryEvents";
 import { queryData } from "../routes/gRPC/data/query";
 import { logger } from "../errors/logger";
@@ -63,6 +66,30 @@ export function startRawGrpcServer(
     )
   ) as GrpcUntypedHandler;
 
+  const wrappedCreateTopUpLink = loggingInterceptor(
+    "/payment.v1.PaymentService/CreateTopUpLink",
+    authInterceptor(
+      "/payment.v1.PaymentService/CreateTopUpLink",
+      createTopUpLink as GrpcHandler<unknown, unknown>
+    )
+  ) as GrpcUntypedHandler;
+
+  const wrappedGetBalance = loggingInterceptor(
+    "/payment.v1.PaymentService/GetBalance",
+    authInterceptor(
+      "/payment.v1.PaymentService/GetBalance",
+      getBalance as GrpcHandler<unknown, unknown>
+    )
+  ) as GrpcUntypedHandler;
+
+  const wrappedPreviewCharge = loggingInterceptor(
+    "/payment.v1.PaymentService/PreviewCharge",
+    authInterceptor(
+      "/payment.v1.PaymentService/PreviewCharge",
+      previewCharge as GrpcHandler<unknown, unknown>
+    )
+  ) as GrpcUntypedHandler;
+
   const wrappedQueryEvents = loggingInterceptor(
     "/query.v1.QueryService/QueryEvents",
     authInterceptor(
@@ -90,6 +117,9 @@ export function startRawGrpcServer(
 
   server.addService(paymentGrpc.PaymentServiceService, {
     createCheckoutLink: wrappedCreateCheckoutLink,
+    createTopUpLink: wrappedCreateTopUpLink,
+    getBalance: wrappedGetBalance,
+    previewCharge: wrappedPreviewCharge,
   });
 
   server.addService(queryGrpc.QueryServiceService, {
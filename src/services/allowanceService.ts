@@ -0,0 +1,349 @@
+import { DateTime } from "luxon";
+import type { UserId } from "../config/identifiers";
+import type { AuthContext } from "../context/auth";
+import type {
+  AITokenComponent,
+  EventKind,
+  SqlRecord,
+} from "../interface/event/Event";
+import {
+  consumeAllowance,
+  dropAllowanceConsumption,
+  findAllowanceUsage,
+  findUserPeriodStart,
+  listAllowances,
+  releaseAllowance,
+  saveAllowanceConsumption,
+  startAllowanceConsumption,
+  type Allowance,
+  type AllowanceConsumptionKey,
+} from "../storage/db/postgres/helpers/allowances";
+import { getPostgresDB } from "../storage/db/postgres/db";
+import { executeInTransaction } from "../storage/adapter/postgres/handlers/addEventUtils";
+import { ensureUserExists } from "../storage/db/postgres/helpers/users";
+import { StorageError } from "../errors/storage";
+import { allowanceCache } from "../utils/allowanceCache";
+import { fetchUserPriceBook } from "../utils/fetchPriceBook";
+import { toDebitAmount } from "../utils/debitAmount";
+
+/**
+ * A priced part of an event that allowances can cover: a basic usage event
+ * is one unit, and each AI token component counts its tokens.
+ */
+export interface AllowanceLine {
+  component: AITokenComponent | null;
+  units: number;
+  debit: number;
+  tag: string | null;
+}
+
+/**
+ * Units an event consumed, so they can be given back if it is not stored.
+ */
+export interface AllowanceConsumption {
+  eventKind: EventKind;
+  idempotencyKey: string;
+  userId: UserId;
+  mode: "test" | "production";
+  periodStart: string;
+  consumed: { allowanceId: string; units: number }[];
+}
+
+export interface AllowanceStatus extends Allowance {
+  consumed: number;
+  remaining: number;
+}
+
+const AI_TOKEN_COMPONENTS = {
+  input: { units: "inputTokens", debit: "inputDebitAmount" },
+  inputCache: { units: "inputCacheTokens", debit: "inputCacheDebitAmount" },
+  output: { units: "outputTokens", debit: "outputDebitAmount" },
+  outputCache: { units: "outputCacheTokens", debit: "outputCacheDebitAmount" },
+} as const;
+
+async function fetchAllowances(): Promise<Allowance[]> {
+  let allowances = allowanceCache.get("all");
+  if (allowances === undefined) {
+    allowances = await listAllowances();
+    allowanceCache.set("all", allowances);
+  }
+  return allowances;
+}
+
+/**
+ * Picks the allowances that apply to users of a price book (or to users on
+ * default pricing when `priceBookId` is null). A price book's allowance
+ * replaces the global allowance on the same target.
+ */
+export function resolveAllowances(
+  allowances: Allowance[],
+  priceBookId: string | null
+): Allowance[] {
+  const targetOf = (a: Allowance) => a.tag ?? `kind:${a.eventKind}`;
+  const overridden = new Set(
+    allowances
+      .filter((a) => priceBookId !== null && a.priceBookId === priceBookId)
+      .map(targetOf)
+  );
+
+  return allowances.filter((a) =>
+    a.priceBookId === null
+      ? !overridden.has(targetOf(a))
+      : a.priceBookId === priceBookId
+  );
+}
+
+/**
+ * Splits an event into the lines allowances are applied to. Lines without
+ * a debit are left out, so free usage never consumes an allowance.
+ */
+export function allowanceLines(record: SqlRecord): AllowanceLine[] {
+  if (record.type === "BASIC_USAGE") {
+    const line: AllowanceLine = {
+      component: null,
+      units: 1,
+      debit: record.data.debitAmount,
+      tag: record.data.tag ?? null,
+    };
+    return line.debit > 0 ? [line] : [];
+  }
+
+  const data = record.data;
+  return (Object.keys(AI_TOKEN_COMPONENTS) as AITokenComponent[])
+    .map((component) => ({
+      component,
+      units: data[AI_TOKEN_COMPONENTS[component].units],
+      debit: data[AI_TOKEN_COMPONENTS[component].debit],
+      tag: data.tags?.[component] ?? null,
+    }))
+    .filter((line) => line.units > 0 && line.debit > 0);
+}
+
+/**
+ * Returns the allowances a line draws from, in order: the allowance on the
+ * tag it was priced from, then the one on its event kind.
+ */
+function allowancesForLine(
+  allowances: Allowance[],
+  kind: EventKind,
+  line: AllowanceLine
+): Allowance[] {
+  const byTag = line.tag
+    ? allowances.find((a) => a.tag === line.tag)
+    : undefined;
+  const byKind = allowances.find((a) => a.eventKind === kind);
+  return [byTag, byKind].filter((a): a is Allowance => a !== undefined);
+}
+
+/**
+ * Scales a line's debit down to the units its allowances left uncovered.
+ */
+export function chargeableDebit(line: AllowanceLine, covered: number): number {
+  if (covered >= line.units) {
+    return 0;
+  }
+  return toDebitAmount((line.debit * (line.units - covered)) / line.units);
+}
+
+/**
+ * Zeroes out the debits of an event's units covered by the user's free
+ * allowances in the period the event is billed in, consuming those units.
+ * Debits are stored net of allowances, so checkout totals from
+ * handlePriceRequest, spending limits and prepaid draw-downs all see the
+ * free units. What an event consumed is recorded under its idempotency key,
+ * so a retried event is covered as before without consuming again.
+ *
+ * @returns The event with its debits reduced, and the units this call
+ *   consumed for it
+ */
+export async function applyAllowances(
+  record: SqlRecord,
+  auth: AuthContext
+): Promise<{
+  record: SqlRecord;
+  consumption: AllowanceConsumption | null;
+}> {
+  const all = await fetchAllowances();
+  const lines = allowanceLines(record);
+  if (all.length === 0 || lines.length === 0 || !auth.mode) {
+    return { record, consumption: null };
+  }
+
+  const priceBook = await fetchUserPriceBook(record.userId);
+  const allowances = resolveAllowances(all, priceBook?.id ?? null);
+  const drawn = lines.map((line) => ({
+    line,
+    allowances: allowancesForLine(allowances, record.type, line),
+  }));
+  if (drawn.every(({ allowances }) => allowances.length === 0)) {
+    return { record, consumption: null };
+  }
+
+  const mode = auth.mode;
+  const key: AllowanceConsumptionKey = {
+    eventKind: record.type,
+    userId: record.userId,
+    idempotencyKey: record.idempotencyKey,
+  };
+  const { periodStart, covered, consumed, reused } = await executeInTransaction(
+    getPostgresDB(),
+    `consuming allowances of user '${record.userId}'`,
+    async (txn) => {
+      await ensureUserExists(record.userId, txn);
+      const periodStart = await findUserPeriodStart(record.userId, txn);
+      if (!periodStart) {
+        throw StorageError.emptyResult(`User '${record.userId}' not found`);
+      }
+
+      const earlier = await startAllowanceConsumption(
+        key,
+        mode,
+        periodStart,
+        txn
+      );
+      if (earlier) {
+        return { ...earlier, reused: true };
+      }
+
+      const covered: number[] = [];
+      const consumed: AllowanceConsumption["consumed"] = [];
+      // Events of an already billed period draw on no allowance, unless
+      // they are billed late with the current one
+      if (
+        !record.late_policy &&
+        record.reported_timestamp <=
+          DateTime.fromSQL(periodStart, { zone: "utc" })
+      ) {
+        return { periodStart, covered, consumed, reused: false };
+      }
+
+      for (const { line, allowances } of drawn) {
+        let lineCovered = 0;
+        for (const allowance of allowances) {
+          const units = await consumeAllowance(
+            allowance,
+            record.userId,
+            mode,
+            periodStart,
+            line.units - lineCovered,
+            txn
+          );
+          if (units > 0) {
+            consumed.push({ allowanceId: allowance.id, units });
+            lineCovered += units;
+          }
+          if (lineCovered >= line.units) {
+            break;
+          }
+        }
+        covered.push(lineCovered);
+      }
+
+      await saveAllowanceConsumption(key, { consumed, covered }, txn);
+      return { periodStart, covered, consumed, reused: false };
+    }
+  );
+
+  return {
+    record:
+      consumed.length > 0
+        ? withChargeableDebits(record, lines, covered)
+        : record,
+    // The attempt that consumed the units gives them back if it fails
+    consumption: reused ? null : { ...key, mode, periodStart, consumed },
+  };
+}
+
+function withChargeableDebits(
+  record: SqlRecord,
+  lines: AllowanceLine[],
+  covered: number[]
+): SqlRecord {
+  if (record.type === "BASIC_USAGE") {
+    const [line] = lines;
+    if (!line) {
+      return record;
+    }
+    return {
+      ...record,
+      data: {
+        ...record.data,
+        debitAmount: chargeableDebit(line, covered[0] ?? 0),
+      },
+    };
+  }
+
+  const data = { ...record.data };
+  lines.forEach((line, i) => {
+    if (line.component) {
+      data[AI_TOKEN_COMPONENTS[line.component].debit] = chargeableDebit(
+        line,
+        covered[i] ?? 0
+      );
+    }
+  });
+  return { ...record, data };
+}
+
+/**
+ * Gives back the units an event consumed when storing it failed, and
+ * forgets its consumption so a retry of the event consumes afresh.
+ */
+export async function releaseAllowances(
+  consumption: AllowanceConsumption
+): Promise<void> {
+  await executeInTransaction(
+    getPostgresDB(),
+    `releasing allowances of event '${consumption.idempotencyKey}'`,
+    async (txn) => {
+      for (const { allowanceId, units } of consumption.consumed) {
+        await releaseAllowance(
+          allowanceId,
+          consumption.userId,
+          consumption.mode,
+          consumption.periodStart,
+          units,
+          txn
+        );
+      }
+      await dropAllowanceConsumption(
+        {
+          eventKind: consumption.eventKind,
+          userId: consumption.userId,
+          idempotencyKey: consumption.idempotencyKey,
+        },
+        txn
+      );
+    }
+  );
+}
+
+/**
+ * Returns the allowances that apply to a user with what has been consumed
+ * and what remains in the current billing period.
+ */
+export async function fetchAllowanceStatus(
+  userId: UserId,
+  mode: "test" | "production"
+): Promise<{ periodStart: string | null; allowances: AllowanceStatus[] }> {
+  const [all, priceBook, periodStart] = await Promise.all([
+    fetchAllowances(),
+    fetchUserPriceBook(userId),
+    findUserPeriodStart(userId),
+  ]);
+  const usage = periodStart
+    ? await findAllowanceUsage(userId, mode, periodStart)
+    : new Map<string, number>();
+
+  return {
+    periodStart,
+    allowances: resolveAllowances(all, priceBook?.id ?? null).map((a) => {
+      const consumed = usage.get(a.id) ?? 0;
+      return {
+        ...a,
+        consumed,
+        remaining: Math.max(0, a.quantity - consumed),
+      };
+    }),
+  };
+}
@@ -0,0 +1,194 @@
+import * as Sentry from "@sentry/bun";
+import cron from "node-cron";
+import { DateTime } from "luxon";
+import {
+  BILLING_CYCLE,
+  type BillingCycleConfig,
+  type UserId,
+} from "../config/identifiers";
+import type { AuthContext } from "../context/auth";
+import { logger } from "../errors/logger";
+import { forwardWebhook } from "../routes/http/forwardWebhook";
+import { getApiKeyRoleById } from "../storage/db/postgres/helpers/apiKeys";
+import { claimBillingRun } from "../storage/db/postgres/helpers/metadata";
+import { listUserIds } from "../storage/db/postgres/helpers/users";
+import { createUsageCheckout, priceUnbilledUsage } from "./checkoutService";
+
+// Every replica checks this often; only one of them claims each due run
+const SCHEDULE_TICK = "*/5 * * * *";
+const THRESHOLD_CHECK_INTERVAL = { hours: 1 };
+
+/**
+ * Returns the instant the latest scheduled run became due: the anchor day
+ * at 00:00 UTC for monthly and weekly cycles, and an hour ago for threshold
+ * cycles. A run is due while the last one started before it.
+ */
+export function billingRunDueSince(
+  config: BillingCycleConfig,
+  now: DateTime
+): DateTime | null {
+  switch (config.cadence) {
+    case "monthly": {
+      const anchorIn = (month: DateTime) =>
+        month.set({ day: Math.min(config.anchor, month.daysInMonth ?? 28) });
+      const thisMonth = anchorIn(now.startOf("month"));
+      return thisMonth <= now
+        ? thisMonth
+        : anchorIn(now.startOf("month").minus({ months: 1 }));
+    }
+    case "weekly": {
+      const today = now.startOf("day");
+      return today.minus({ days: (today.weekday - config.anchor + 7) % 7 });
+    }
+    case "threshold":
+      return now.minus(THRESHOLD_CHECK_INTERVAL);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Returns why a billing cycle config cannot run, or null if it can.
+ */
+export function billingCycleConfigError(
+  config: BillingCycleConfig
+): string | null {
+  if (!config.apiKeyId) {
+    return "BILLING_CYCLE_API_KEY_ID is required";
+  }
+  const maxAnchor = config.cadence === "weekly" ? 7 : 31;
+  if (
+    config.cadence !== "threshold" &&
+    (!Number.isInteger(config.anchor) ||
+      config.anchor < 1 ||
+      config.anchor > maxAnchor)
+  ) {
+    return `BILLING_CYCLE_ANCHOR must be a whole number from 1 to ${maxAnchor}`;
+  }
+  if (!Number.isInteger(config.threshold) || config.threshold < 0) {
+    return "BILLING_CYCLE_THRESHOLD must be a whole number of cents";
+  }
+  if (config.cadence === "threshold" && config.threshold === 0) {
+    return "BILLING_CYCLE_THRESHOLD is required for threshold cycles";
+  }
+  return null;
+}
+
+/**
+ * Closes a user's billing period: opens a checkout for the unbilled usage
+ * and forwards a billing.period_closed webhook with its link. Users below
+ * the threshold, and users who already have a pending checkout, are left
+ * alone.
+ *
+ * @returns Whether a new checkout was created
+ */
+async function closeBillingPeriod(
+  userId: UserId,
+  config: BillingCycleConfig,
+  auth: AuthContext,
+  mode: "test" | "production"
+): Promise<boolean> {
+  const usage = await priceUnbilledUsage(userId, auth);
+  if (usage.amount === 0 || usage.amount < config.threshold) {
+    return false;
+  }
+
+  const checkout = await createUsageCheckout(userId, usage, auth, mode);
+  if (!checkout.sessionId) {
+    return false;
+  }
+
+  forwardWebhook(auth.apiKeyId, {
+    eventType: "billing.period_closed",
+    resource: "billing",
+    action: "period_closed",
+    data: {
+      userId,
+      mode,
+      amount: usage.amount - checkout.discount,
+      discount: checkout.discount,
+      billedUpto: usage.billedUpto.toISO(),
+      sessionId: checkout.sessionId,
+      invoiceId: checkout.invoiceId,
+      checkoutLink: checkout.checkoutLink,
+    },
+  });
+  return true;
+}
+
+/**
+ * Runs a billing cycle if one is due and no other replica has claimed it.
+ * A failure for one user is reported and the run moves on to the next.
+ */
+export async function runBillingCycle(
+  config: BillingCycleConfig,
+  now: DateTime
+): Promise<void> {
+  const dueSince = billingRunDueSince(config, now);
+  if (!dueSince || !config.apiKeyId) {
+    return;
+  }
+  if (!(await claimBillingRun(dueSince, now))) {
+    return;
+  }
+
+  const apiKey = await getApiKeyRoleById(config.apiKeyId);
+  if (!apiKey || apiKey.role === "dashboard") {
+    logger.lifecycleWarning(
+      "Billing cycle skipped: BILLING_CYCLE_API_KEY_ID must be a production or test key",
+      { apiKeyId: config.apiKeyId }
+    );
+    return;
+  }
+
+  const mode = apiKey.role;
+  const auth: AuthContext = { apiKeyId: config.apiKeyId, role: mode, mode };
+
+  let closed = 0;
+  for (const userId of await listUserIds()) {
+    try {
+      if (await closeBillingPeriod(userId, config, auth, mode)) {
+        closed++;
+      }
+    } catch (error) {
+      Sentry.captureException(error, {
+        extra: { context: "billing cycle", userId },
+      });
+    }
+  }
+
+  logger.lifecycle("Billing cycle completed", {
+    cadence: config.cadence,
+    mode,
+    closed,
+  });
+}
+
+/**
+ * Starts the billing scheduler when BILLING_CYCLE is enabled.
+ */
+export function startBillingScheduler(): void {
+  if (BILLING_CYCLE.cadence === "off") {
+    return;
+  }
+
+  const configError = billingCycleConfigError(BILLING_CYCLE);
+  if (configError) {
+    logger.lifecycleWarning(`Billing scheduler disabled: ${configError}`);
+    return;
+  }
+
+  cron.schedule(SCHEDULE_TICK, async () => {
+    try {
+      await runBillingCycle(BILLING_CYCLE, DateTime.utc());
+    } catch (error) {
+      Sentry.captureException(error, {
+        extra: { context: "billing scheduler" },
+      });
+    }
+  });
+
+  logger.lifecycle("Billing scheduler started", {
+    cadence: BILLING_CYCLE.cadence,
+  });
+}
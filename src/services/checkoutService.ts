@@ -0,0 +1,479 @@
+import * as Sentry from "@sentry/bun";
+import { DateTime } from "luxon";
+import { eq } from "drizzle-orm";
+import type { PgTransaction } from "drizzle-orm/pg-core";
+import type { UserId } from "../config/identifiers";
+import type { AuthContext } from "../context/auth";
+import { PaymentError } from "../errors/payment";
+import {
+  getPaymentProviderConfig,
+  createProviderCheckout,
+  type CheckoutParams,
+  type CheckoutResult,
+  type PaymentProviderConfig,
+} from "../routes/gRPC/payment/paymentProvider";
+import { calculatePaymentPrice } from "./pricingService";
+import {
+  calculateSubscriptionFees,
+  type SubscriptionFeeLine,
+} from "./subscriptionService";
+import {
+  applyCheckoutDiscount,
+  findCheckoutDiscount,
+  forwardCouponRedeemed,
+  releaseCheckoutDiscount,
+} from "./couponService";
+import { findCheckoutCustomer } from "./customerService";
+import { fetchPrepaidSince } from "./walletService";
+import { getPostgresDB } from "../storage/db/postgres/db";
+import { executeInTransaction } from "../storage/adapter/postgres/handlers/addEventUtils";
+import {
+  checkIfExistingCheckoutLink,
+  handleAddSession,
+  updateSessionStatus,
+} from "../storage/db/postgres/helpers/sessions";
+import {
+  ensureUserExists,
+  updateUserBilledTimestamp,
+} from "../storage/db/postgres/helpers/users";
+import { handleAddPayment } from "../storage/db/postgres/helpers/payments";
+import { clearUsageThresholdCrossings } from "../storage/db/postgres/helpers/usageThresholds";
+import { findUserPeriodStart } from "../storage/db/postgres/helpers/allowances";
+import {
+  createInvoice,
+  markInvoicePaid,
+} from "../storage/db/postgres/helpers/invoices";
+import { StorageAdapterFactory } from "../factory/EventStorageAdapterFactory";
+import { StorageError } from "../errors/storage";
+import { usersTable } from "../storage/db/postgres/schema";
+import { getMetadata } from "../storage/db/postgres/helpers/metadata";
+import { forwardWebhook } from "../routes/http/forwardWebhook";
+import type { EventKind } from "../interface/event/Event";
+import type { InvoiceLineTotal } from "../interface/storage/Storage";
+
+/**
+ * What closing a user's billing period now would charge.
+ */
+export interface UnbilledUsage {
+  amount: number;
+  // Usage reported before this instant is settled by the checkout
+  billedUpto: DateTime;
+  prepaid: boolean;
+}
+
+/**
+ * A line of a charge: metered usage of one kind, or the fixed fee of a
+ * plan, which has no event kind.
+ */
+export interface ChargeBreakdownLine {
+  eventKind: EventKind | null;
+  model: string | null;
+  basicUsageType: "RAW" | "MIDDLEWARE_CALL" | null;
+  planId: string | null;
+  planName: string | null;
+  // Events or tokens for usage, intervals for plan fees
+  quantity: number;
+  // Cents, before rounding
+  amount: number;
+}
+
+/**
+ * What a user owes so far this period, as a checkout would charge it.
+ */
+export interface ChargePreview {
+  // Whole cents, after the discount
+  total: number;
+  // Whole cents the user's coupon would take off
+  discount: number;
+  currency: string;
+  // The user's last_billed_timestamp, or null if they have no usage yet
+  periodStart: string | null;
+  periodEnd: string;
+  prepaid: boolean;
+  breakdown: ChargeBreakdownLine[];
+}
+
+export interface UsageCheckout {
+  checkoutLink: string;
+  // The new session's id, or null when a pending checkout was reused
+  sessionId: string | null;
+  invoiceId: string | null;
+  // Whole cents a coupon took off the new checkout
+  discount: number;
+}
+
+/**
+ * Prices a user's unbilled usage in whole cents. Prepaid users only settle
+ * usage reported before they went prepaid.
+ */
+export async function priceUnbilledUsage(
+  userId: UserId,
+  auth: AuthContext
+): Promise<UnbilledUsage> {
+  const prepaidSince = await fetchPrepaidSince(userId);
+  const billedUpto = prepaidSince ?? DateTime.utc();
+
+  const amount = await calculatePaymentPrice(userId, billedUpto, auth);
+  if (typeof amount !== "number" || isNaN(amount) || amount < 0) {
+    throw PaymentError.priceCalculationFailed(
+      userId,
+      new Error(`Invalid price: ${amount}`)
+    );
+  }
+
+  return { amount, billedUpto, prepaid: prepaidSince !== null };
+}
+
+/**
+ * Sums invoice lines per event kind, model and basic usage type, dropping
+ * the component and tag detail an invoice itemizes.
+ */
+export function summarizeChargeLines(
+  lines: InvoiceLineTotal[]
+): ChargeBreakdownLine[] {
+  const grouped = new Map<string, ChargeBreakdownLine>();
+  for (const line of lines) {
+    const key = [line.eventKind, line.model, line.basicUsageType].join("\0");
+    const existing = grouped.get(key);
+    if (existing) {
+      existing.quantity += line.quantity;
+      existing.amount += line.amount;
+      continue;
+    }
+    grouped.set(key, {
+      eventKind: line.eventKind,
+      model: line.model,
+      basicUsageType: line.basicUsageType,
+      planId: null,
+      planName: null,
+      quantity: line.quantity,
+      amount: line.amount,
+    });
+  }
+  return [...grouped.values()];
+}
+
+export function feeChargeLine(fee: SubscriptionFeeLine): ChargeBreakdownLine {
+  return {
+    eventKind: null,
+    model: null,
+    basicUsageType: null,
+    planId: fee.planId,
+    planName: fee.planName,
+    quantity: fee.intervals,
+    amount: fee.amount,
+  };
+}
+
+/**
+ * Prices a user's unbilled usage like a checkout would, without recording
+ * a session, using a coupon or contacting the payment provider.
+ */
+export async function previewCharge(
+  userId: UserId,
+  auth: AuthContext
+): Promise<ChargePreview> {
+  const usage = await priceUnbilledUsage(userId, auth);
+  const adapter = await StorageAdapterFactory.getEventStorageAdapter();
+
+  const [periodStart, lines, fees, discount, metadata] = await Promise.all([
+    findUserPeriodStart(userId),
+    adapter.invoiceLines(userId, usage.billedUpto, auth),
+    calculateSubscriptionFees(userId, usage.billedUpto, auth),
+    auth.mode ? findCheckoutDiscount(userId, auth.mode, usage.amount) : null,
+    getMetadata(),
+  ]);
+  const discountAmount = discount?.amount ?? 0;
+
+  return {
+    total: usage.amount - discountAmount,
+    discount: discountAmount,
+    currency: metadata?.currency ?? "usd",
+    periodStart,
+    periodEnd: usage.billedUpto.toISO()!,
+    prepaid: usage.prepaid,
+    breakdown: [...summarizeChargeLines(lines), ...fees.map(feeChargeLine)],
+  };
+}
+
+/**
+ * Opens a provider checkout for a user's unbilled usage, less what their
+ * coupon takes off, and records its session along with an invoice
+ * itemizing the usage and plan fees. The coupon is redeemed before the
+ * provider is asked, so a coupon that can no longer be used leaves no
+ * provider checkout behind, and is given back if the checkout cannot be
+ * opened or recorded. A checkout a coupon makes free settles the period
+ * at once, without the provider. A pending checkout from the last 24
+ * hours is handed out again instead of recording a second one, and leaves
+ * the coupon unused.
+ */
+export async function createUsageCheckout(
+  userId: UserId,
+  usage: UnbilledUsage,
+  auth: AuthContext,
+  mode: "test" | "production"
+): Promise<UsageCheckout> {
+  const config = await getPaymentProviderConfig(mode);
+  const discount = await findCheckoutDiscount(userId, mode, usage.amount);
+  const discountAmount = discount?.amount ?? 0;
+  const total = usage.amount - discountAmount;
+  // There is no discount on a checkout of nothing, so only a coupon can
+  // make a checkout free
+  const free = discount !== null && total <= 0;
+  const db = getPostgresDB();
+
+  const claim = await executeInTransaction(
+    db,
+    "claim checkout",
+    async (txn) => {
+      const existingId = await lockPendingCheckout(userId, mode, txn);
+      if (existingId) {
+        return { existingId, redeemed: false };
+      }
+      const redeemed = discount
+        ? await applyCheckoutDiscount(discount, txn)
+        : false;
+      return { existingId: null, redeemed };
+    }
+  );
+  if (claim.existingId) {
+    return reusedCheckout(claim.existingId);
+  }
+
+  let checkout: UsageCheckout;
+  try {
+    const checkoutResult = free
+      ? freeCheckout(config)
+      : await createCheckoutSession(config, total, userId, auth.apiKeyId, mode);
+
+    checkout = await executeInTransaction(
+      db,
+      "create checkout link",
+      async (txn) => {
+        // Another request may have recorded a checkout since the claim
+        const existingId = await lockPendingCheckout(userId, mode, txn);
+        if (existingId) {
+          if (discount) {
+            await releaseCheckoutDiscount(discount, claim.redeemed, txn);
+          }
+          return reusedCheckout(existingId);
+        }
+
+        const sessionResult = await handleAddSession(
+          userId,
+          checkoutResult.sessionId,
+          usage.billedUpto,
+          auth.apiKeyId,
+          mode,
+          checkoutResult.checkoutUrl,
+          "usage",
+          txn,
+          discount
+            ? { userCouponId: discount.userCoupon.id, discount: discountAmount }
+            : undefined
+        );
+
+        const periodStart = await findUserPeriodStart(userId, txn);
+        if (!periodStart) {
+          throw StorageError.emptyResult(`User '${userId}' not found`);
+        }
+        const adapter = await StorageAdapterFactory.getEventStorageAdapter();
+        const lineItems = await adapter.invoiceLines(
+          userId,
+          usage.billedUpto,
+          auth,
+          txn
+        );
+        const feeItems = await calculateSubscriptionFees(
+          userId,
+          usage.billedUpto,
+          auth
+        );
+        const invoice = await createInvoice(
+          {
+            userId,
+            apiKeyId: auth.apiKeyId,
+            mode,
+            proxyId: sessionResult.id,
+            periodStart,
+            periodEnd: usage.billedUpto.toISO()!,
+            total,
+            discount: discountAmount,
+            currency: config.currency,
+            lineItems,
+            feeItems,
+          },
+          txn
+        );
+
+        if (free) {
+          await settleFreeCheckout(
+            checkoutResult.sessionId,
+            sessionResult.id,
+            userId,
+            usage.billedUpto,
+            auth.apiKeyId,
+            mode,
+            txn
+          );
+        }
+
+        return {
+          checkoutLink: `${process.env.APP_URL}/checkout/${sessionResult.id}`,
+          sessionId: sessionResult.id,
+          invoiceId: invoice.id,
+          discount: discountAmount,
+        };
+      }
+    );
+  } catch (error) {
+    if (discount) {
+      await executeInTransaction(db, "release checkout discount", (txn) =>
+        releaseCheckoutDiscount(discount, claim.redeemed, txn)
+      ).catch((releaseError) => {
+        Sentry.captureException(releaseError, {
+          extra: { context: "release checkout discount", userId },
+        });
+      });
+    }
+    throw error;
+  }
+
+  if (!checkout.sessionId) {
+    return checkout;
+  }
+  if (discount && claim.redeemed) {
+    forwardCouponRedeemed(auth.apiKeyId, discount, {
+      sessionId: checkout.sessionId,
+      invoiceId: checkout.invoiceId,
+    });
+  }
+  if (free) {
+    forwardWebhook(auth.apiKeyId, {
+      eventType: "payment.succeeded",
+      resource: "payment",
+      action: "succeeded",
+      data: {
+        paymentId: null,
+        checkoutSessionId: checkout.sessionId,
+        userId,
+        amount: 0,
+        currency: config.currency,
+        mode,
+        kind: "usage",
+        billed_upto: usage.billedUpto.toISO(),
+      },
+    });
+  }
+  return checkout;
+}
+
+/**
+ * Locks a user for recording a checkout.
+ *
+ * @returns The proxy id of the user's pending checkout, if they have one
+ */
+async function lockPendingCheckout(
+  userId: UserId,
+  mode: "test" | "production",
+  txn: PgTransaction<any, any, any>
+): Promise<string | null> {
+  await ensureUserExists(userId, txn);
+
+  await txn
+    .select({ id: usersTable.id })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .for("update");
+
+  return (await checkIfExistingCheckoutLink(txn, userId, mode)) ?? null;
+}
+
+function reusedCheckout(proxyId: string): UsageCheckout {
+  return {
+    checkoutLink: `${process.env.APP_URL}/checkout/${proxyId}`,
+    sessionId: null,
+    invoiceId: null,
+    discount: 0,
+  };
+}
+
+/**
+ * Stands in for the provider checkout of a free checkout: its link leads
+ * straight to the return page, as a paid checkout would once completed.
+ */
+function freeCheckout(config: PaymentProviderConfig): CheckoutResult {
+  let checkoutUrl = process.env.APP_URL ?? "";
+  if (config.returnUrl) {
+    const returnUrl = new URL(config.returnUrl);
+    returnUrl.searchParams.set("status", "succeeded");
+    checkoutUrl = returnUrl.toString();
+  }
+  return { sessionId: `free_${crypto.randomUUID()}`, checkoutUrl };
+}
+
+/**
+ * Settles the period of a free checkout like a successful payment would:
+ * the session succeeds, the user is billed up to `billedUpto` and the
+ * invoice is paid by a zero payment.
+ */
+async function settleFreeCheckout(
+  checkoutSessionId: string,
+  proxyId: string,
+  userId: UserId,
+  billedUpto: DateTime,
+  apiKeyId: string,
+  mode: "test" | "production",
+  txn: PgTransaction<any, any, any>
+): Promise<void> {
+  await updateSessionStatus(checkoutSessionId, "succeeded", txn);
+  await updateUserBilledTimestamp(userId, billedUpto.toISO()!, txn);
+  await clearUsageThresholdCrossings(userId, billedUpto.toISO()!, txn);
+  const payment = await handleAddPayment(
+    userId,
+    0,
+    apiKeyId,
+    mode,
+    proxyId,
+    null,
+    txn
+  );
+  await markInvoicePaid(proxyId, payment.id, txn);
+}
+
+async function createCheckoutSession(
+  config: PaymentProviderConfig,
+  customPrice: number,
+  userId: string,
+  apiKeyId: string,
+  mode: "test" | "production"
+): Promise<CheckoutResult> {
+  const params: CheckoutParams = {
+    customPrice,
+    userId,
+    apiKeyId,
+    customer: await findCheckoutCustomer(userId, mode),
+  };
+
+  const checkoutResult = await createProviderCheckout(config, params, mode);
+
+  if (
+    !checkoutResult.checkoutUrl ||
+    typeof checkoutResult.checkoutUrl !== "string" ||
+    checkoutResult.checkoutUrl.trim().length === 0
+  ) {
+    throw PaymentError.invalidCheckoutResponse(
+      "No valid checkout URL in response"
+    );
+  }
+
+  try {
+    new URL(checkoutResult.checkoutUrl);
+  } catch {
+    throw PaymentError.invalidCheckoutResponse(
+      `Invalid URL format: ${checkoutResult.checkoutUrl}`
+    );
+  }
+
+  return checkoutResult;
+}
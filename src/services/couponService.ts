@@ -0,0 +1,138 @@
+import { DateTime } from "luxon";
+import type { PgTransaction } from "drizzle-orm/pg-core";
+import type { UserId } from "../config/identifiers";
+import { PaymentError } from "../errors/payment";
+import {
+  findActiveUserCoupon,
+  releaseUserCoupon,
+  useUserCoupon,
+  type ActiveUserCoupon,
+  type Coupon,
+} from "../storage/db/postgres/helpers/coupons";
+import { forwardWebhook } from "../routes/http/forwardWebhook";
+
+/**
+ * What a user's coupon takes off their next checkout.
+ */
+export interface CheckoutDiscount {
+  userCoupon: ActiveUserCoupon;
+  // Whole cents, never more than the price
+  amount: number;
+}
+
+/**
+ * Returns the whole cents a coupon takes off a price in whole cents.
+ */
+export function couponDiscount(
+  coupon: Pick<Coupon, "kind" | "value">,
+  price: number
+): number {
+  switch (coupon.kind) {
+    case "percent":
+      return Math.min(Math.round((price * coupon.value) / 100), price);
+    case "amount":
+      return Math.min(coupon.value, price);
+    case "free_periods":
+      return price;
+  }
+}
+
+/**
+ * Whether a coupon can still be redeemed at `now`.
+ */
+export function isCouponRedeemable(coupon: Coupon, now: DateTime): boolean {
+  if (
+    coupon.expiresAt &&
+    DateTime.fromSQL(coupon.expiresAt, { zone: "utc" }) <= now
+  ) {
+    return false;
+  }
+  return (
+    coupon.maxRedemptions === null || coupon.redemptions < coupon.maxRedemptions
+  );
+}
+
+/**
+ * Works out the discount a user's coupon gives on a checkout of `price`
+ * cents. A coupon the user has not redeemed yet only applies while it can
+ * still be redeemed, and nothing is taken off a free checkout.
+ */
+export async function findCheckoutDiscount(
+  userId: UserId,
+  mode: "test" | "production",
+  price: number
+): Promise<CheckoutDiscount | null> {
+  if (price <= 0) {
+    return null;
+  }
+
+  const userCoupon = await findActiveUserCoupon(userId, mode);
+  if (
+    !userCoupon ||
+    (userCoupon.redeemedAt === null &&
+      !isCouponRedeemable(userCoupon.coupon, DateTime.utc()))
+  ) {
+    return null;
+  }
+
+  return { userCoupon, amount: couponDiscount(userCoupon.coupon, price) };
+}
+
+/**
+ * Uses a discount for the checkout being recorded in `txn`.
+ *
+ * @returns Whether this checkout redeemed the coupon
+ */
+export async function applyCheckoutDiscount(
+  discount: CheckoutDiscount,
+  txn: PgTransaction<any, any, any>
+): Promise<boolean> {
+  const used = await useUserCoupon(discount.userCoupon, txn);
+  if (!used) {
+    throw PaymentError.validationFailed(
+      `Coupon '${discount.userCoupon.coupon.code}' can no longer be redeemed`
+    );
+  }
+  return used.redeemed;
+}
+
+/**
+ * Gives back a discount used for a checkout that could not be recorded.
+ *
+ * @param redeemed - Whether using the discount redeemed the coupon
+ */
+export async function releaseCheckoutDiscount(
+  discount: CheckoutDiscount,
+  redeemed: boolean,
+  txn: PgTransaction<any, any, any>
+): Promise<void> {
+  await releaseUserCoupon(discount.userCoupon, redeemed, txn);
+}
+
+/**
+ * Notifies the API key's webhook endpoint that a checkout redeemed a
+ * user's coupon.
+ */
+export function forwardCouponRedeemed(
+  apiKeyId: string,
+  discount: CheckoutDiscount,
+  checkout: { sessionId: string; invoiceId: string | null }
+): void {
+  const { userCoupon } = discount;
+  forwardWebhook(apiKeyId, {
+    eventType: "coupon.redeemed",
+    resource: "coupon",
+    action: "redeemed",
+    data: {
+      couponId: userCoupon.couponId,
+      code: userCoupon.coupon.code,
+      kind: userCoupon.coupon.kind,
+      value: userCoupon.coupon.value,
+      userId: userCoupon.userId,
+      mode: userCoupon.mode,
+      discount: discount.amount,
+      sessionId: checkout.sessionId,
+      invoiceId: checkout.invoiceId,
+    },
+  });
+}
@@ -0,0 +1,87 @@
+import * as Sentry from "@sentry/bun";
+import type { UserId } from "../config/identifiers";
+import { PaymentProviderFactory } from "../factory/PaymentProviderFactory";
+import type {
+  CheckoutCustomer,
+  PaymentMode,
+  ProviderCustomer,
+} from "../interface/payment/PaymentProvider";
+import {
+  findCustomer,
+  setPaymentProviderCustomerId,
+  type Customer,
+} from "../storage/db/postgres/helpers/customers";
+
+/**
+ * Returns a customer as the payment provider keeps it, or null if they
+ * have no email to be created with.
+ */
+export function providerCustomer(customer: Customer): ProviderCustomer | null {
+  if (!customer.email) {
+    return null;
+  }
+  return {
+    userId: String(customer.id),
+    providerCustomerId: customer.paymentProviderCustomerId,
+    email: customer.email,
+    name: customer.name,
+    metadata: customer.metadata ?? {},
+  };
+}
+
+/**
+ * Creates or updates a customer at the payment provider in the customer's
+ * mode and records the provider's customer id. The profile is already
+ * saved, so a failed sync is reported and retried at the next change or
+ * checkout instead of failing the caller.
+ */
+export async function syncCustomer(customer: Customer): Promise<Customer> {
+  const synced = providerCustomer(customer);
+  if (!synced) {
+    return customer;
+  }
+
+  try {
+    const provider =
+      await PaymentProviderFactory.getConfiguredPaymentProvider();
+    const providerCustomerId = await provider.syncCustomer(
+      synced,
+      customer.mode
+    );
+    if (providerCustomerId !== customer.paymentProviderCustomerId) {
+      await setPaymentProviderCustomerId(customer.id, providerCustomerId);
+    }
+    return { ...customer, paymentProviderCustomerId: providerCustomerId };
+  } catch (error) {
+    Sentry.captureException(error, {
+      extra: { context: "customer provider sync", userId: customer.id },
+    });
+    return customer;
+  }
+}
+
+/**
+ * Returns who a checkout in `mode` is for. Outside the customer's own mode
+ * the checkout is only prefilled, as the provider keeps customers apart
+ * per mode.
+ *
+ * @returns The customer, or undefined if they have no profile with an email
+ */
+export async function findCheckoutCustomer(
+  userId: UserId,
+  mode: PaymentMode
+): Promise<CheckoutCustomer | undefined> {
+  const customer = await findCustomer(userId);
+  if (!customer?.email) {
+    return undefined;
+  }
+
+  let providerCustomerId: string | null = null;
+  if (customer.mode === mode) {
+    providerCustomerId =
+      customer.paymentProviderCustomerId ??
+      (await syncCustomer(customer)).paymentProviderCustomerId;
+  }
+
+  return { providerCustomerId, email: customer.email, name: customer.name };
+}
@@ -0,0 +1,69 @@
+import { DateTime } from "luxon";
+import { LATE_EVENT_POLICY } from "../config/identifiers";
+import type { AuthContext } from "../context/auth";
+import { EventError } from "../errors/event";
+import type { SqlRecord } from "../interface/event/Event";
+import { findUserPeriodStart } from "../storage/db/postgres/helpers/allowances";
+import { recordLateEvent } from "../storage/db/postgres/helpers/lateEvents";
+import { eventDebitAmount } from "./walletService";
+
+/**
+ * Applies LATE_EVENT_POLICY to an incoming event reported at or before the
+ * user's last_billed_timestamp. Under 'reject' the event is recorded for
+ * the late event report and refused with FAILED_PRECONDITION; otherwise it
+ * is marked to be billed with the period it is ingested in.
+ *
+ * @returns The event, marked if late, and the start of the period it
+ *   missed, or null if it is on time
+ */
+export async function applyLateEventPolicy(
+  record: SqlRecord,
+  auth: AuthContext
+): Promise<{ record: SqlRecord; periodStart: string | null }> {
+  if (!auth.mode) {
+    return { record, periodStart: null };
+  }
+
+  const periodStart = await findUserPeriodStart(record.userId);
+  if (
+    !periodStart ||
+    record.reported_timestamp > DateTime.fromSQL(periodStart, { zone: "utc" })
+  ) {
+    return { record, periodStart: null };
+  }
+
+  if (LATE_EVENT_POLICY === "reject") {
+    await reportLateEvent(record, auth, periodStart);
+    throw EventError.lateEvent(
+      `event '${record.idempotencyKey}' was reported at ${record.reported_timestamp.toISO()}, but user '${record.userId}' is billed up to ${periodStart}`
+    );
+  }
+
+  return {
+    record: { ...record, late_policy: LATE_EVENT_POLICY },
+    periodStart,
+  };
+}
+
+/**
+ * Adds a late event to the late event report. Events without a late
+ * policy were rejected.
+ */
+export async function reportLateEvent(
+  record: SqlRecord,
+  auth: AuthContext,
+  periodStart: string
+): Promise<void> {
+  await recordLateEvent({
+    eventId: record.eventId,
+    idempotencyKey: record.idempotencyKey,
+    userId: record.userId,
+    apiKeyId: auth.apiKeyId,
+    mode: auth.mode as "production" | "test",
+    eventKind: record.type,
+    policy: record.late_policy ?? "reject",
+    reportedTimestamp: record.reported_timestamp.toISO()!,
+    periodStart,
+    debitAmount: eventDebitAmount(record),
+  });
+}
@@ -1,4 +1,4 @@
-import { STORAGE_ADAPTER } from "../config/identifiers";
+import { PRICE_ROUNDING_MODE, STORAGE_ADAPTER } from "../config/identifiers";
 import { StorageAdapterFactory } from "../factory/EventStorageAdapterFactory";
 import { StorageError } from "../errors/storage";
 import type { UserId } from "../config/identifiers";
@@ -6,6 +6,8 @@ import type { DateTime } from "luxon";
 import type { AuthContext } from "../context/auth";
 import { getPostgresDB } from "../storage/db/postgres/db";
 import { executeInTransaction } from "../storage/adapter/postgres/handlers/addEventUtils";
+import { roundToMinorUnits } from "../utils/debitAmount";
+import { calculateSubscriptionFees } from "./subscriptionService";
 
 async function calculatePrices(
   userId: UserId,
@@ -37,6 +39,23 @@ async function calculatePrices(
   return sdkPrice + aiPrice;
 }
 
+/**
+ * Totals a user's unbilled debits before `beforeTimestamp`, keeping
+ * sub-cent precision.
+ */
+export async function calculateUnbilledDebits(
+  userId: UserId,
+  beforeTimestamp: DateTime,
+  auth: AuthContext
+): Promise<number> {
+  return calculatePrices(userId, beforeTimestamp.toUTC(), auth);
+}
+
+/**
+ * Totals a user's unbilled debits and the fixed fees of plan intervals
+ * elapsed before `beforeTimestamp`, and rounds the sub-cent total to whole
+ * cents using PRICE_ROUNDING_MODE.
+ */
 export async function calculatePaymentPrice(
   userId: UserId,
   beforeTimestamp: DateTime,
@@ -48,13 +67,22 @@ export async function calculatePaymentPrice(
     throw StorageError.invalidData("Missing userId in PAYMENT price request");
   }
 
+  const fees = await calculateSubscriptionFees(
+    userId,
+    beforeTimestampUtc,
+    auth
+  );
+  const feeTotal = fees.reduce((sum, fee) => sum + fee.amount, 0);
+
   if (STORAGE_ADAPTER === "clickhouse") {
-    return await calculatePrices(userId, beforeTimestampUtc, auth);
+    const total = await calculatePrices(userId, beforeTimestampUtc, auth);
+    return roundToMinorUnits(total + feeTotal, PRICE_ROUNDING_MODE);
   }
 
-  return await executeInTransaction(
+  const total = await executeInTransaction(
     getPostgresDB(),
     "calculating payment price",
     async (txn) => calculatePrices(userId, beforeTimestampUtc, auth, txn)
   );
+  return roundToMinorUnits(total + feeTotal, PRICE_ROUNDING_MODE);
 }
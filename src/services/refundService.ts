@@ -0,0 +1,75 @@
+import { PaymentProviderFactory } from "../factory/PaymentProviderFactory";
+import type { PaymentMode } from "../interface/payment/PaymentProvider";
+import { getPostgresDB } from "../storage/db/postgres/db";
+import { executeInTransaction } from "../storage/adapter/postgres/handlers/addEventUtils";
+import {
+  attachRefundId,
+  findPaymentByProviderId,
+  lockReversibleAmount,
+  releasePaymentRefund,
+  reservePaymentRefund,
+} from "../storage/db/postgres/helpers/payments";
+
+export type RefundPaymentResult =
+  | { status: "requested"; refundId: string; userId: string; amount: number }
+  | { status: "not_found" }
+  // Cents the payment's earlier refunds and lost disputes left of it
+  | { status: "exceeds_payment"; refundable: number };
+
+/**
+ * Asks the payment provider to refund what is left of a payment, or
+ * `amount` cents of it. The amount is held as a pending refund before the
+ * provider is asked, so concurrent requests cannot both pass the check.
+ * The refund is confirmed once the provider's refund webhook arrives, like
+ * refunds issued from the provider's dashboard.
+ *
+ * @param mode The caller's mode; payments of the other mode are not found
+ */
+export async function refundPayment(
+  providerPaymentId: string,
+  amount: number | null,
+  mode: PaymentMode | null
+): Promise<RefundPaymentResult> {
+  const payment = await findPaymentByProviderId(providerPaymentId);
+  if (!payment || (mode && payment.mode !== mode)) {
+    return { status: "not_found" };
+  }
+
+  const hold = await executeInTransaction(
+    getPostgresDB(),
+    `holding a refund of payment '${providerPaymentId}'`,
+    async (txn) => {
+      const refundable = await lockReversibleAmount(payment, txn, true);
+      if (refundable === 0 || (amount !== null && amount > refundable)) {
+        return { refundable, pendingRefundId: null };
+      }
+      const pendingRefundId = await reservePaymentRefund(
+        payment,
+        amount ?? refundable,
+        txn
+      );
+      return { refundable, pendingRefundId };
+    }
+  );
+  const { refundable, pendingRefundId } = hold;
+  if (!pendingRefundId) {
+    return { status: "exceeds_payment", refundable };
+  }
+
+  const provider = await PaymentProviderFactory.getConfiguredPaymentProvider();
+  let refundId: string;
+  try {
+    refundId = await provider.refund(providerPaymentId, amount, payment.mode);
+  } catch (error) {
+    await releasePaymentRefund(pendingRefundId);
+    throw error;
+  }
+  await attachRefundId(payment, pendingRefundId, refundId);
+
+  return {
+    status: "requested",
+    refundId,
+    userId: payment.userId,
+    amount: amount ?? refundable,
+  };
+}
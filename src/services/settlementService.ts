@@ -0,0 +1,189 @@
+import * as Sentry from "@sentry/bun";
+import cron from "node-cron";
+import { DateTime } from "luxon";
+import type { AuthContext } from "../context/auth";
+import { logger } from "../errors/logger";
+import {
+  claimDueSettlements,
+  completeSettlementStep,
+  finishEventSettlement,
+  type EventSettlement,
+} from "../storage/db/postgres/helpers/settlements";
+import { findSpendingLimitsByIds } from "../storage/db/postgres/helpers/spendingLimits";
+import { reportLateEvent } from "./lateEventService";
+import { recordSpend } from "./spendingLimitService";
+import {
+  checkUsageThresholds,
+  recordPeriodTotal,
+} from "./usageThresholdService";
+import { drawDownCredit } from "./walletService";
+
+// Delays before each retry of an unfinished settlement
+export const SETTLEMENT_RETRY_DELAYS_MS = [10_000, 60_000, 600_000, 3_600_000];
+
+// Every replica checks this often; each due settlement is claimed by one
+const SETTLEMENT_TICK = "*/10 * * * * *";
+const SETTLEMENT_BATCH_SIZE = 100;
+
+/**
+ * Returns how long after its `attempts`th attempt a settlement is retried,
+ * or null once that was the last attempt.
+ */
+export function settlementRetryDelay(attempts: number): number | null {
+  return SETTLEMENT_RETRY_DELAYS_MS[attempts - 1] ?? null;
+}
+
+/**
+ * Adds the event's debit to its user's period total and to each spending
+ * limit checked for the event, as it stands now. Each total is debited
+ * together with marking it done, so a retry only adds the debits that are
+ * missing.
+ */
+async function settleSpend(
+  settlement: EventSettlement,
+  auth: AuthContext
+): Promise<void> {
+  await recordPeriodTotal(settlement.record, auth, settlement.id);
+  if (settlement.limits.length === 0) {
+    return;
+  }
+
+  const limits = await findSpendingLimitsByIds(
+    settlement.limits.map((limit) => limit.id)
+  );
+  const active = settlement.limits.flatMap(({ id, periodStart }) => {
+    const limit = limits.find((candidate) => candidate.id === id);
+    return limit ? [{ ...limit, lastBilledTimestamp: null, periodStart }] : [];
+  });
+
+  await recordSpend(settlement.record, auth, active, settlement.id);
+}
+
+/**
+ * Runs one settlement step unless an earlier attempt completed it. A
+ * failed step is reported once the settlement has no retries left.
+ *
+ * @returns Whether the step is done
+ */
+async function runSettlementStep(
+  settlement: EventSettlement,
+  step: string,
+  run: () => Promise<void>
+): Promise<boolean> {
+  if (settlement.completedSteps.includes(step)) {
+    return true;
+  }
+
+  try {
+    await run();
+    await completeSettlementStep(settlement.id, step);
+    return true;
+  } catch (error) {
+    if (settlement.nextAttemptAt === null) {
+      const { record } = settlement;
+      Sentry.captureException(error, {
+        extra: {
+          context: `event settlement: ${step}`,
+          userId: record.userId,
+          eventId: record.eventId,
+          idempotencyKey: record.idempotencyKey,
+          attempts: settlement.attempts,
+        },
+      });
+    }
+    return false;
+  }
+}
+
+/**
+ * Runs the bookkeeping that follows a stored event: the late event report,
+ * the credit draw-down, the period and spending limit totals and usage
+ * thresholds. The event is already stored, so a failed step does not fail
+ * the request, which the client would retry with an event that cannot be
+ * stored twice. The settlement stays unfinished instead and is retried by
+ * the settlement worker, also after a restart. Every step is safe to run
+ * again: late events, ledger entries and threshold crossings are recorded
+ * once per event, and spend is added together with marking it done.
+ *
+ * @returns Whether every step is done
+ */
+export async function settleEvent(
+  settlement: EventSettlement
+): Promise<boolean> {
+  const { record, latePeriodStart } = settlement;
+  const auth: AuthContext = {
+    apiKeyId: settlement.apiKeyId,
+    role: settlement.mode,
+    mode: settlement.mode,
+  };
+
+  const steps: [string, () => Promise<void>][] = [];
+  if (latePeriodStart) {
+    steps.push([
+      "late_event_report",
+      () => reportLateEvent(record, auth, latePeriodStart),
+    ]);
+  }
+  steps.push(["credit_draw_down", () => drawDownCredit(record, auth)]);
+  steps.push(["spend", () => settleSpend(settlement, auth)]);
+  steps.push(["usage_thresholds", () => checkUsageThresholds(record, auth)]);
+
+  let settled = true;
+  for (const [step, run] of steps) {
+    if (!(await runSettlementStep(settlement, step, run))) {
+      settled = false;
+    }
+  }
+  if (!settled) {
+    return false;
+  }
+
+  try {
+    await finishEventSettlement(settlement.id);
+  } catch (error) {
+    // Finished steps are skipped on retry, so only the mark is redone
+    Sentry.captureException(error, {
+      extra: { context: "event settlement", settlementId: settlement.id },
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Retries the unfinished settlements that are due.
+ *
+ * @returns How many of them finished
+ */
+export async function retryDueSettlements(now: DateTime): Promise<number> {
+  const due = await claimDueSettlements(
+    now,
+    SETTLEMENT_BATCH_SIZE,
+    settlementRetryDelay
+  );
+
+  let settled = 0;
+  for (const settlement of due) {
+    if (await settleEvent(settlement)) {
+      settled++;
+    }
+  }
+  return settled;
+}
+
+/**
+ * Starts retrying unfinished event settlements in the background.
+ */
+export function startSettlementWorker(): void {
+  cron.schedule(SETTLEMENT_TICK, async () => {
+    try {
+      await retryDueSettlements(DateTime.utc());
+    } catch (error) {
+      Sentry.captureException(error, {
+        extra: { context: "settlement worker" },
+      });
+    }
+  });
+
+  logger.lifecycle("Settlement worker started");
+}
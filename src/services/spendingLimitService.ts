@@ -0,0 +1,145 @@
+import { DateTime } from "luxon";
+import type { UserId } from "../config/identifiers";
+import type { AuthContext } from "../context/auth";
+import type { SqlRecord } from "../interface/event/Event";
+import { EventError } from "../errors/event";
+import {
+  addSpend,
+  findApplicableSpendingLimits,
+  startSpendingPeriod,
+  type ApplicableSpendingLimit,
+} from "../storage/db/postgres/helpers/spendingLimits";
+import { forwardWebhook } from "../routes/http/forwardWebhook";
+import { calculateUnbilledDebits } from "./pricingService";
+import { eventDebitAmount } from "./walletService";
+
+/**
+ * A limit resolved to its current period, as checked before an event is
+ * stored and debited after.
+ */
+export interface ActiveSpendingLimit extends ApplicableSpendingLimit {
+  periodStart: string;
+}
+
+/**
+ * Returns when a limit's current period began. User limits follow the
+ * user's billing period, which starts at last_billed_timestamp. API key
+ * limits span many users and run per UTC calendar month.
+ */
+export function currentPeriodStart(
+  limit: ApplicableSpendingLimit,
+  now: DateTime
+): DateTime {
+  if (limit.userId && limit.lastBilledTimestamp) {
+    return DateTime.fromSQL(limit.lastBilledTimestamp, { zone: "utc" });
+  }
+  return now.toUTC().startOf("month");
+}
+
+/**
+ * Resolves the limits on an incoming event and rejects it with
+ * QUOTA_EXCEEDED if a hard limit has been reached this period. A limit
+ * entering a new period is seeded once: user limits with the debits
+ * already unbilled, API key limits from zero.
+ */
+export async function enforceSpendingLimits(
+  userId: UserId,
+  auth: AuthContext
+): Promise<ActiveSpendingLimit[]> {
+  if (!auth.mode) {
+    return [];
+  }
+
+  const limits = await findApplicableSpendingLimits(
+    userId,
+    auth.apiKeyId,
+    auth.mode
+  );
+  const now = DateTime.utc();
+
+  const active: ActiveSpendingLimit[] = [];
+  for (const limit of limits) {
+    const periodStart = currentPeriodStart(limit, now);
+    const periodStartIso = periodStart.toISO()!;
+    let spent = limit.spent;
+
+    const stored = limit.periodStart
+      ? DateTime.fromSQL(limit.periodStart, { zone: "utc" })
+      : null;
+    if (!stored || stored.toMillis() !== periodStart.toMillis()) {
+      spent = limit.userId
+        ? await calculateUnbilledDebits(limit.userId, now, auth)
+        : 0;
+      await startSpendingPeriod(limit.id, periodStartIso, spent);
+    }
+
+    if (limit.enforcement === "hard" && spent >= limit.amount) {
+      throw EventError.quotaExceeded(
+        limit.userId
+          ? `user '${limit.userId}' has spent ${spent} of ${limit.amount} cents this billing period`
+          : `API key '${limit.apiKeyId}' has spent ${spent} of ${limit.amount} cents this month`
+      );
+    }
+
+    active.push({ ...limit, periodStart: periodStartIso, spent });
+  }
+
+  return active;
+}
+
+/**
+ * Adds a stored event's debit to the running total of each limit checked
+ * for it, and notifies the API key's webhook endpoint the first time a
+ * limit is reached in a period. Within a settlement each limit is debited
+ * once, however often the settlement is retried.
+ */
+export async function recordSpend(
+  record: SqlRecord,
+  auth: AuthContext,
+  limits: ActiveSpendingLimit[],
+  settlementId?: string
+): Promise<void> {
+  const debit = eventDebitAmount(record);
+  if (debit === 0) {
+    return;
+  }
+
+  for (const limit of limits) {
+    // Late events reported before the user's period are not part of it,
+    // unless they are billed with it
+    if (
+      limit.userId &&
+      !record.late_policy &&
+      record.reported_timestamp <= DateTime.fromISO(limit.periodStart)
+    ) {
+      continue;
+    }
+
+    const result = await addSpend(
+      limit.id,
+      limit.periodStart,
+      debit,
+      settlementId
+    );
+    if (!result?.reached) {
+      continue;
+    }
+
+    forwardWebhook(auth.apiKeyId, {
+      eventType: "spending_limit.reached",
+      resource: "spending_limit",
+      action: "reached",
+      data: {
+        limitId: limit.id,
+        userId: limit.userId,
+        apiKeyId: limit.apiKeyId,
+        triggeringUserId: record.userId,
+        mode: limit.mode,
+        enforcement: limit.enforcement,
+        amount: limit.amount,
+        spent: result.spent,
+        periodStart: limit.periodStart,
+      },
+    });
+  }
+}
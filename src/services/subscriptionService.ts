@@ -0,0 +1,160 @@
+import { DateTime } from "luxon";
+import type { UserId } from "../config/identifiers";
+import type { AuthContext } from "../context/auth";
+import { findUserPeriodStart } from "../storage/db/postgres/helpers/allowances";
+import {
+  findBillablePlanAssignments,
+  type BillablePlanAssignment,
+} from "../storage/db/postgres/helpers/plans";
+
+/**
+ * The fixed fee one plan assignment adds to a checkout.
+ */
+export interface SubscriptionFeeLine {
+  planId: string;
+  planName: string;
+  // Fractional when the assignment started or ended mid-interval
+  intervals: number;
+  // Cents, before rounding
+  amount: number;
+}
+
+// Intervals follow the UTC calendar: days start at midnight, weeks on
+// Monday, months on the 1st and years on 1 January. Multiples of a unit are
+// counted from 1970, so quarterly plans run from January, April, July and
+// October.
+const CALENDAR_EPOCH = DateTime.utc(1970, 1, 1);
+
+function intervalStart(
+  assignment: BillablePlanAssignment,
+  at: DateTime
+): DateTime {
+  const epoch = CALENDAR_EPOCH.startOf(assignment.interval);
+  const units = Math.round(
+    at
+      .startOf(assignment.interval)
+      .diff(epoch, assignment.interval)
+      .as(assignment.interval)
+  );
+  return epoch.plus({
+    [assignment.interval]: units - (units % assignment.intervalCount),
+  });
+}
+
+function nextIntervalStart(
+  assignment: BillablePlanAssignment,
+  start: DateTime
+): DateTime {
+  return start.plus({ [assignment.interval]: assignment.intervalCount });
+}
+
+/**
+ * An interval of an assignment that ended within a period, with the share
+ * of it the user spent on the plan.
+ */
+export interface FeeInterval {
+  start: DateTime;
+  intervals: number;
+}
+
+/**
+ * Returns the intervals of an assignment that ended after `periodStart`
+ * and by `periodEnd`. An interval the assignment started or ended in
+ * counts in proportion to the time spent on the plan, once that part of it
+ * is over.
+ */
+export function feeIntervals(
+  assignment: BillablePlanAssignment,
+  periodStart: DateTime,
+  periodEnd: DateTime
+): FeeInterval[] {
+  const startedAt = DateTime.fromSQL(assignment.startedAt, { zone: "utc" });
+  const endedAt = assignment.endedAt
+    ? DateTime.fromSQL(assignment.endedAt, { zone: "utc" })
+    : null;
+
+  // Intervals over before the period were charged at an earlier checkout
+  const from = startedAt > periodStart ? startedAt : periodStart;
+
+  const elapsed: FeeInterval[] = [];
+  for (
+    let start = intervalStart(assignment, from);
+    start < periodEnd && (!endedAt || start < endedAt);
+    start = nextIntervalStart(assignment, start)
+  ) {
+    const end = nextIntervalStart(assignment, start);
+    const onPlanFrom = startedAt > start ? startedAt : start;
+    const onPlanUntil = endedAt && endedAt < end ? endedAt : end;
+    if (onPlanUntil > periodEnd) {
+      break;
+    }
+    if (onPlanUntil > periodStart) {
+      elapsed.push({
+        start,
+        intervals:
+          onPlanUntil.diff(onPlanFrom).toMillis() / end.diff(start).toMillis(),
+      });
+    }
+  }
+  return elapsed;
+}
+
+/**
+ * Works out the fees for the intervals of each assignment that elapsed
+ * after `periodStart` and up to `periodEnd`, as found by `feeIntervals`.
+ */
+export function subscriptionFeeLines(
+  assignments: BillablePlanAssignment[],
+  periodStart: DateTime,
+  periodEnd: DateTime
+): SubscriptionFeeLine[] {
+  const lines: SubscriptionFeeLine[] = [];
+
+  for (const assignment of assignments) {
+    const intervals = feeIntervals(assignment, periodStart, periodEnd).reduce(
+      (sum, interval) => sum + interval.intervals,
+      0
+    );
+
+    if (intervals > 0) {
+      lines.push({
+        planId: assignment.planId,
+        planName: assignment.planName,
+        intervals,
+        amount: assignment.amount * intervals,
+      });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Returns the fixed fees a user owes for plan intervals elapsed since their
+ * last billing and before `beforeTimestamp`.
+ */
+export async function calculateSubscriptionFees(
+  userId: UserId,
+  beforeTimestamp: DateTime,
+  auth: AuthContext
+): Promise<SubscriptionFeeLine[]> {
+  if (!auth.mode) {
+    return [];
+  }
+
+  const periodStart = await findUserPeriodStart(userId);
+  if (!periodStart) {
+    return [];
+  }
+
+  const assignments = await findBillablePlanAssignments(
+    userId,
+    auth.mode,
+    periodStart
+  );
+  return subscriptionFeeLines(
+    assignments,
+    DateTime.fromSQL(periodStart, { zone: "utc" }),
+    beforeTimestamp.toUTC()
+  );
+}
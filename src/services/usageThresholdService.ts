@@ -0,0 +1,159 @@
+import { DateTime } from "luxon";
+import type { AuthContext } from "../context/auth";
+import type { SqlRecord } from "../interface/event/Event";
+import { findUserPeriodStart } from "../storage/db/postgres/helpers/allowances";
+import {
+  addUsagePeriodTotal,
+  findPendingUsageThresholds,
+  findUsagePeriodTotal,
+  recordUsageThresholdCrossing,
+  startUsagePeriodTotal,
+  type PendingUsageThreshold,
+} from "../storage/db/postgres/helpers/usageThresholds";
+import { forwardWebhook } from "../routes/http/forwardWebhook";
+import { calculateUnbilledDebits } from "./pricingService";
+import { eventDebitAmount } from "./walletService";
+
+/**
+ * Returns the period total, in cents, at which a threshold is crossed, or
+ * null for a limit_percent threshold on a user without a spending limit.
+ */
+export function usageThresholdAmount(
+  threshold: PendingUsageThreshold
+): number | null {
+  if (threshold.kind === "amount") {
+    return threshold.value;
+  }
+  if (threshold.limitAmount === null) {
+    return null;
+  }
+  return (threshold.limitAmount * threshold.value) / 100;
+}
+
+/**
+ * Adds a stored event's debit to its user's running period total. A
+ * period's total is seeded once, with the debits already unbilled, like a
+ * user's spending limit. Within a settlement the debit is added once,
+ * however often the settlement is retried.
+ */
+export async function recordPeriodTotal(
+  record: SqlRecord,
+  auth: AuthContext,
+  settlementId?: string
+): Promise<void> {
+  const debit = eventDebitAmount(record);
+  if (!auth.mode || debit === 0) {
+    return;
+  }
+
+  const periodStart = await findUserPeriodStart(record.userId);
+  if (!periodStart) {
+    return;
+  }
+  // Late events reported before the period are not part of it, unless
+  // they are billed with it
+  if (
+    !record.late_policy &&
+    record.reported_timestamp <= DateTime.fromSQL(periodStart, { zone: "utc" })
+  ) {
+    return;
+  }
+
+  const total = await findUsagePeriodTotal(
+    record.userId,
+    auth.mode,
+    periodStart
+  );
+  if (total === null) {
+    // The event is stored already, so the unbilled debits include it
+    const unbilled = await calculateUnbilledDebits(
+      record.userId,
+      DateTime.utc(),
+      auth
+    );
+    await startUsagePeriodTotal(
+      record.userId,
+      auth.mode,
+      periodStart,
+      unbilled - debit
+    );
+  }
+
+  await addUsagePeriodTotal(
+    record.userId,
+    auth.mode,
+    periodStart,
+    debit,
+    settlementId
+  );
+}
+
+/**
+ * Notifies the API key's webhook endpoint of each threshold a stored event
+ * pushed its user's period total across, as kept by `recordPeriodTotal`.
+ * Each threshold fires at most once per billing period.
+ */
+export async function checkUsageThresholds(
+  record: SqlRecord,
+  auth: AuthContext
+): Promise<void> {
+  if (!auth.mode || eventDebitAmount(record) === 0) {
+    return;
+  }
+
+  const periodStart = await findUserPeriodStart(record.userId);
+  if (!periodStart) {
+    return;
+  }
+
+  const pending = await findPendingUsageThresholds(
+    record.userId,
+    auth.mode,
+    periodStart
+  );
+  if (pending.length === 0) {
+    return;
+  }
+
+  const periodTotal = await findUsagePeriodTotal(
+    record.userId,
+    auth.mode,
+    periodStart
+  );
+  if (periodTotal === null) {
+    return;
+  }
+
+  for (const threshold of pending) {
+    const amount = usageThresholdAmount(threshold);
+    if (amount === null || periodTotal < amount) {
+      continue;
+    }
+
+    const crossed = await recordUsageThresholdCrossing({
+      thresholdId: threshold.id,
+      userId: record.userId,
+      periodStart,
+      periodTotal,
+    });
+    if (!crossed) {
+      continue;
+    }
+
+    forwardWebhook(auth.apiKeyId, {
+      eventType: "usage.threshold_crossed",
+      resource: "usage_threshold",
+      action: "crossed",
+      data: {
+        thresholdId: threshold.id,
+        userId: record.userId,
+        mode: threshold.mode,
+        kind: threshold.kind,
+        value: threshold.value,
+        thresholdAmount: amount,
+        periodTotal,
+        periodStart,
+      },
+    });
+  }
+}
@@ -0,0 +1,208 @@
+import * as Sentry from "@sentry/bun";
+import cron from "node-cron";
+import { DateTime } from "luxon";
+import type { UserId } from "../config/identifiers";
+import type { AuthContext } from "../context/auth";
+import type { SqlRecord } from "../interface/event/Event";
+import { logger } from "../errors/logger";
+import {
+  findBillablePlanAssignments,
+  listPrepaidPlanAssignments,
+  type BillablePlanAssignment,
+} from "../storage/db/postgres/helpers/plans";
+import {
+  addLedgerEntry,
+  findPrepaidSince,
+  getCreditBalance,
+  setPrepaidBilling,
+} from "../storage/db/postgres/helpers/wallet";
+import { toDebitAmount } from "../utils/debitAmount";
+import { prepaidSinceCache } from "../utils/walletCache";
+import { calculatePaymentPrice } from "./pricingService";
+import { feeIntervals } from "./subscriptionService";
+
+// Plan intervals end on the hour at the latest, so hourly draws keep up
+const PLAN_FEE_TICK = "0 * * * *";
+
+export type SetBillingModeResult =
+  | { status: "switched"; prepaidSince: string | null }
+  // Whole cents of usage from before the user went prepaid, not yet paid
+  | { status: "unbilled_usage"; amount: number }
+  // Cents; usage since the user went prepaid outran their credit
+  | { status: "negative_balance"; balance: number };
+
+/**
+ * Returns when a user switched to prepaid billing, or null if the user is
+ * post-paid.
+ */
+export async function fetchPrepaidSince(
+  userId: UserId
+): Promise<DateTime | null> {
+  let prepaidSince = prepaidSinceCache.get(userId);
+  if (prepaidSince === undefined) {
+    prepaidSince = await findPrepaidSince(userId);
+    prepaidSinceCache.set(userId, prepaidSince);
+  }
+
+  return prepaidSince ? DateTime.fromSQL(prepaidSince, { zone: "utc" }) : null;
+}
+
+/**
+ * Switches a user between prepaid and post-paid billing. Post-paid billing
+ * picks up from the switch, so a prepaid user only goes back once the
+ * usage from before they went prepaid has been checked out and their
+ * credit covers the usage since.
+ */
+export async function setBillingMode(
+  userId: UserId,
+  prepaid: boolean,
+  auth: AuthContext
+): Promise<SetBillingModeResult> {
+  const prepaidSince = prepaid ? null : await fetchPrepaidSince(userId);
+
+  if (prepaidSince) {
+    const amount = await calculatePaymentPrice(userId, prepaidSince, auth);
+    if (amount > 0) {
+      return { status: "unbilled_usage", amount };
+    }
+
+    // Post-paid checkouts only charge intervals that end after the switch
+    await drawPlanFees(
+      await findBillablePlanAssignments(
+        userId,
+        auth.mode as "production" | "test",
+        prepaidSince.toISO()!
+      ),
+      prepaidSince,
+      DateTime.utc()
+    );
+
+    const balance = await getCreditBalance(
+      userId,
+      auth.mode as "production" | "test"
+    );
+    if (balance < 0) {
+      return { status: "negative_balance", balance };
+    }
+  }
+
+  return {
+    status: "switched",
+    prepaidSince: await setPrepaidBilling(userId, prepaid),
+  };
+}
+
+/**
+ * Returns the cents an event debits, summed over its priced components.
+ */
+export function eventDebitAmount(record: SqlRecord): number {
+  if (record.type === "BASIC_USAGE") {
+    return toDebitAmount(record.data.debitAmount);
+  }
+
+  const data = record.data;
+  return toDebitAmount(
+    data.inputDebitAmount +
+      data.inputCacheDebitAmount +
+      data.outputDebitAmount +
+      data.outputCacheDebitAmount
+  );
+}
+
+/**
+ * Draws a stored event's debit from the user's prepaid credit. Events of
+ * post-paid users, and events reported before the user went prepaid, are
+ * left to CreateCheckoutLink.
+ */
+export async function drawDownCredit(
+  record: SqlRecord,
+  auth: AuthContext
+): Promise<void> {
+  const prepaidSince = await fetchPrepaidSince(record.userId);
+  // Late events are billed as of their arrival
+  const billedAt = record.late_policy
+    ? DateTime.utc()
+    : record.reported_timestamp;
+  if (!prepaidSince || billedAt < prepaidSince) {
+    return;
+  }
+
+  const debit = eventDebitAmount(record);
+  if (debit === 0) {
+    return;
+  }
+
+  await addLedgerEntry({
+    userId: record.userId,
+    mode: auth.mode as "production" | "test",
+    kind: "usage",
+    amount: -debit,
+    // Idempotency keys are only unique among events of one kind
+    reference: `${record.type}:${record.idempotencyKey}`,
+  });
+}
+
+/**
+ * Draws the fees of plan intervals that ended after a user went prepaid,
+ * and by `now`, from their credit. Checkouts of prepaid users stop at
+ * prepaidSince, so these intervals are charged here instead. Each interval
+ * is drawn once, however often this runs.
+ */
+export async function drawPlanFees(
+  assignments: BillablePlanAssignment[],
+  prepaidSince: DateTime,
+  now: DateTime
+): Promise<void> {
+  for (const assignment of assignments) {
+    for (const interval of feeIntervals(assignment, prepaidSince, now)) {
+      await addLedgerEntry({
+        userId: assignment.userId,
+        mode: assignment.mode,
+        kind: "plan_fee",
+        amount: -assignment.amount * interval.intervals,
+        reference: `${assignment.id}:${interval.start.toISO()}`,
+      });
+    }
+  }
+}
+
+/**
+ * Draws the plan fees due by `now` from every prepaid user's credit. A
+ * failure for one assignment is reported and the run moves on to the next.
+ */
+export async function drawDuePlanFees(now: DateTime): Promise<void> {
+  for (const assignment of await listPrepaidPlanAssignments()) {
+    try {
+      await drawPlanFees(
+        [assignment],
+        DateTime.fromSQL(assignment.prepaidSince, { zone: "utc" }),
+        now
+      );
+    } catch (error) {
+      Sentry.captureException(error, {
+        extra: {
+          context: "plan fee draw-down",
+          userId: assignment.userId,
+          assignmentId: assignment.id,
+        },
+      });
+    }
+  }
+}
+
+/**
+ * Starts drawing the plan fees of prepaid users in the background.
+ */
+export function startPlanFeeScheduler(): void {
+  cron.schedule(PLAN_FEE_TICK, async () => {
+    try {
+      await drawDuePlanFees(DateTime.utc());
+    } catch (error) {
+      Sentry.captureException(error, {
+        extra: { context: "plan fee scheduler" },
+      });
+    }
+  });
+
+  logger.lifecycle("Plan fee scheduler started");
+}
@@ -2,6 +2,8 @@ import {
   type StorageAdapter,
   type QueryRequest,
   type QueryResponse,
+  type PeriodTokenUsage,
+  type InvoiceLineTotal,
 } from "../../../interface/storage/Storage";
 import { getClickHouseDB } from "../../db/clickhouse";
 import { StorageError } from "../../../errors/storage";
@@ -11,6 +13,8 @@ import {
   handlePriceRequestBasicUsage,
   handlePriceRequestAiTokenUsage,
   handleQueryEvents,
+  handlePeriodTokenUsage,
+  handleInvoiceLines,
 } from "./handlers";
 import type {
   SerializedEvent,
@@ -102,10 +106,26 @@ export class ClickHouseAdapter implements StorageAdapter {
     }
   }
 
+  async invoiceLines(
+    userID: UserId,
+    beforeTimestamp: DateTime,
+    auth: AuthContext,
+    _txn?: unknown
+  ): Promise<InvoiceLineTotal[]> {
+    return await handleInvoiceLines(userID, beforeTimestamp, auth);
+  }
+
   async query(
     request: QueryRequest,
     auth: AuthContext
   ): Promise<QueryResponse> {
     return await handleQueryEvents(request, auth);
   }
+
+  async periodTokenUsage(
+    userID: UserId,
+    mode: "production" | "test"
+  ): Promise<PeriodTokenUsage> {
+    return await handlePeriodTokenUsage(userID, mode);
+  }
 }
@@ -1,11 +1,16 @@
 import { getClickHouseDB } from "../../../db/clickhouse";
 import { StorageError } from "../../../../errors/storage";
-import { type SqlRecordOf } from "../../../../interface/event/Event";
+import {
+  type AITokenComponent,
+  type BilledLatePolicy,
+  type SqlRecordOf,
+} from "../../../../interface/event/Event";
 import type { UserId } from "../../../../config/identifiers";
 import { DateTime } from "luxon";
 import { toClickHouseDateTime } from "../utils";
 import type { AuthContext } from "../../../../context/auth";
 import { ensureUserExists } from "../../../db/postgres/helpers/users";
+import { toDebitAmount } from "../../../../utils/debitAmount";
 
 type AggregatedEvent = {
   userId: UserId;
@@ -22,7 +27,9 @@ type AggregatedEvent = {
   reported_timestamp: string;
   eventId: string;
   idempotencyKey: string;
+  tags?: Partial<Record<AITokenComponent, string>>;
   metadata?: Record<string, unknown>;
+  late_policy?: BilledLatePolicy;
 };
 
 function validateNonNegative(
@@ -80,10 +87,18 @@ function aggregateAiTokenEvents(
       existing.inputCacheTokens += event_data.data.inputCacheTokens;
       existing.outputCacheTokens += event_data.data.outputCacheTokens;
       existing.outputTokens += event_data.data.outputTokens;
-      existing.inputDebitAmount += event_data.data.inputDebitAmount;
-      existing.inputCacheDebitAmount += event_data.data.inputCacheDebitAmount;
-      existing.outputCacheDebitAmount += event_data.data.outputCacheDebitAmount;
-      existing.outputDebitAmount += event_data.data.outputDebitAmount;
+      existing.inputDebitAmount = toDebitAmount(
+        existing.inputDebitAmount + event_data.data.inputDebitAmount
+      );
+      existing.inputCacheDebitAmount = toDebitAmount(
+        existing.inputCacheDebitAmount + event_data.data.inputCacheDebitAmount
+      );
+      existing.outputCacheDebitAmount = toDebitAmount(
+        existing.outputCacheDebitAmount + event_data.data.outputCacheDebitAmount
+      );
+      existing.outputDebitAmount = toDebitAmount(
+        existing.outputDebitAmount + event_data.data.outputDebitAmount
+      );
       if (reportedTimestamp > existing.reported_timestamp) {
         existing.reported_timestamp = reportedTimestamp;
       }
@@ -103,7 +118,9 @@ function aggregateAiTokenEvents(
         reported_timestamp: reportedTimestamp,
         eventId: event_data.eventId,
         idempotencyKey: event_data.idempotencyKey,
+        tags: event_data.data.tags,
         metadata: event_data.data.metadata,
+        late_policy: event_data.late_policy,
       });
     }
   }
@@ -145,7 +162,9 @@ function buildAiTokenInsertRows(
       model: aggEvent.model,
       provider: aggEvent.provider,
       metrics,
+      tags: JSON.stringify(aggEvent.tags ?? {}),
       metadata: aggEvent.metadata ?? null,
+      late_policy: aggEvent.late_policy ?? null,
     };
   });
 }
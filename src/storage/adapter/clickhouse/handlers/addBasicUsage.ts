@@ -46,7 +46,9 @@ export async function handleAddBasicUsage(
           ingested_timestamp: toClickHouseDateTime(DateTime.utc()),
           type: event_data.data.basicUsageType,
           debit_amount: debitAmount,
+          tag: event_data.data.tag ?? null,
           metadata: event_data.data.metadata ?? null,
+          late_policy: event_data.late_policy ?? null,
         },
       ],
       format: "JSONEachRow",
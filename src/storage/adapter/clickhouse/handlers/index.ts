@@ -3,3 +3,5 @@ export { handleAddAiTokenUsage } from "./addAiTokenUsage";
 export { handlePriceRequestBasicUsage } from "./priceRequestBasicUsage";
 export { handlePriceRequestAiTokenUsage } from "./priceRequestAiTokenUsage";
 export { handleQueryEvents } from "./queryEvents";
+export { handlePeriodTokenUsage } from "./periodTokenUsage";
+export { handleInvoiceLines } from "./invoiceLines";
@@ -0,0 +1,122 @@
+import { DateTime } from "luxon";
+import { getClickHouseDB } from "../../../db/clickhouse";
+import { StorageError } from "../../../../errors/storage";
+import type { UserId } from "../../../../config/identifiers";
+import type { AuthContext } from "../../../../context/auth";
+import type { AITokenComponent } from "../../../../interface/event/Event";
+import type { InvoiceLineTotal } from "../../../../interface/storage/Storage";
+import {
+  BILLABLE_TIMESTAMP,
+  fetchLastBilled,
+  toClickHouseDateTime,
+} from "../utils";
+
+const WINDOW = `user_id = {userId:String} AND mode = {mode:String} AND ${BILLABLE_TIMESTAMP} < {before:DateTime64(3, 'UTC')}`;
+const BILLED_WINDOW = `${WINDOW} AND ${BILLABLE_TIMESTAMP} > {lastBilled:DateTime64(3, 'UTC')}`;
+
+// Late events billed under the 'adjustment' policy get lines of their own
+const ADJUSTMENT = "ifNull(late_policy = 'adjustment', false) AS adjustment";
+
+const BASIC_LINES = (where: string) =>
+  `SELECT type, tag, ${ADJUSTMENT}, count() AS quantity, sum(debit_amount) AS amount FROM basic_usage_events WHERE ${where} GROUP BY type, tag, adjustment ORDER BY adjustment, type, tag`;
+
+// Each event is split into its token components, paired with their key in
+// the metrics column
+const AI_LINES = (where: string) =>
+  `SELECT model, c.1 AS component, JSONExtractString(tags, c.1) AS tag, ${ADJUSTMENT}, sum(JSONExtractInt(metrics, 'tokens', c.2)) AS quantity, sum(JSONExtract(metrics, 'debit_amount', c.2, 'Decimal(30, 9)')) AS amount FROM ai_token_usage_events ARRAY JOIN [('input', 'input'), ('inputCache', 'input_cache'), ('output', 'output'), ('outputCache', 'output_cache')] AS c WHERE ${where} GROUP BY model, component, tag, adjustment HAVING quantity > 0 ORDER BY adjustment, model, component, tag`;
+
+type BasicLineRow = {
+  type: "RAW" | "MIDDLEWARE_CALL";
+  tag: string | null;
+  adjustment: boolean | number;
+  quantity: string;
+  amount: string | null;
+};
+
+type AiLineRow = {
+  model: string;
+  component: AITokenComponent;
+  tag: string;
+  adjustment: boolean | number;
+  quantity: string;
+  amount: string | null;
+};
+
+export async function handleInvoiceLines(
+  userId: UserId,
+  beforeTimestamp: DateTime,
+  auth: AuthContext
+): Promise<InvoiceLineTotal[]> {
+  const chClient = getClickHouseDB();
+
+  if (!userId) {
+    throw StorageError.invalidData("Missing userId in invoice lines request");
+  }
+
+  if (!beforeTimestamp.isValid) {
+    throw StorageError.invalidTimestamp(
+      "beforeTimestamp is not a valid DateTime"
+    );
+  }
+
+  const params: Record<string, unknown> = {
+    userId,
+    mode: auth.mode,
+    before: toClickHouseDateTime(beforeTimestamp),
+  };
+  let where = WINDOW;
+  const lastBilled = await fetchLastBilled(userId);
+  const lastBilledDt = lastBilled
+    ? DateTime.fromSQL(lastBilled, { zone: "utc" })
+    : null;
+  if (lastBilledDt?.isValid) {
+    where = BILLED_WINDOW;
+    params.lastBilled = toClickHouseDateTime(lastBilledDt);
+  }
+
+  try {
+    const [basicRs, aiRs] = await Promise.all([
+      chClient.query({
+        query: BASIC_LINES(where),
+        query_params: params,
+        format: "JSONEachRow",
+      }),
+      chClient.query({
+        query: AI_LINES(where),
+        query_params: params,
+        format: "JSONEachRow",
+      }),
+    ]);
+    const basicRows = await basicRs.json<BasicLineRow>();
+    const aiRows = await aiRs.json<AiLineRow>();
+
+    return [
+      ...basicRows.map((row) => ({
+        eventKind: "BASIC_USAGE" as const,
+        basicUsageType: row.type,
+        model: null,
+        component: null,
+        tag: row.tag,
+        quantity: Number(row.quantity),
+        amount: Number(row.amount ?? 0),
+        adjustment: Boolean(row.adjustment),
+      })),
+      ...aiRows.map((row) => ({
+        eventKind: "AI_TOKEN_USAGE" as const,
+        basicUsageType: null,
+        model: row.model,
+        component: row.component,
+        // JSONExtractString yields "" for components without a tag
+        tag: row.tag || null,
+        quantity: Number(row.quantity),
+        amount: Number(row.amount ?? 0),
+        adjustment: Boolean(row.adjustment),
+      })),
+    ];
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to itemize unbilled usage for user ${userId}`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
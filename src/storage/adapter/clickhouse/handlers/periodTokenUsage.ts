@@ -0,0 +1,74 @@
+import { DateTime } from "luxon";
+import { getClickHouseDB } from "../../../db/clickhouse";
+import { StorageError } from "../../../../errors/storage";
+import type { UserId } from "../../../../config/identifiers";
+import type { PeriodTokenUsage } from "../../../../interface/storage/Storage";
+import {
+  BILLABLE_TIMESTAMP,
+  fetchLastBilled,
+  toClickHouseDateTime,
+} from "../utils";
+
+const SELECT_TOKENS =
+  "SELECT sum(JSONExtractInt(metrics, 'tokens', 'input')) as input, sum(JSONExtractInt(metrics, 'tokens', 'input_cache')) as input_cache, sum(JSONExtractInt(metrics, 'tokens', 'output')) as output, sum(JSONExtractInt(metrics, 'tokens', 'output_cache')) as output_cache FROM ai_token_usage_events";
+const BASE_QUERY = `${SELECT_TOKENS} WHERE user_id = {userId:String} AND mode = {mode:String}`;
+const WINDOW_QUERY = `${BASE_QUERY} AND ${BILLABLE_TIMESTAMP} > {lastBilled:DateTime64(3, 'UTC')}`;
+
+type TokenSumsRow = {
+  input: string | null;
+  input_cache: string | null;
+  output: string | null;
+  output_cache: string | null;
+};
+
+function toCount(value: string | null | undefined): number {
+  if (value === null || value === undefined) {
+    return 0;
+  }
+  const parsed = parseInt(value);
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+export async function handlePeriodTokenUsage(
+  userId: UserId,
+  mode: "production" | "test"
+): Promise<PeriodTokenUsage> {
+  const chClient = getClickHouseDB();
+
+  if (!userId) {
+    throw StorageError.invalidData("Missing userId in period usage request");
+  }
+
+  const lastBilled = await fetchLastBilled(userId);
+  const lastBilledDt = lastBilled
+    ? DateTime.fromSQL(lastBilled, { zone: "utc" })
+    : null;
+
+  const params: Record<string, unknown> = { userId, mode };
+  let query = BASE_QUERY;
+  if (lastBilledDt?.isValid) {
+    query = WINDOW_QUERY;
+    params.lastBilled = toClickHouseDateTime(lastBilledDt);
+  }
+
+  try {
+    const rs = await chClient.query({
+      query,
+      query_params: params,
+      format: "JSONEachRow",
+    });
+    const [row] = await rs.json<TokenSumsRow>();
+
+    return {
+      inputTokens: toCount(row?.input),
+      inputCacheTokens: toCount(row?.input_cache),
+      outputTokens: toCount(row?.output),
+      outputCacheTokens: toCount(row?.output_cache),
+    };
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to query period token usage for user ${userId}`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
@@ -1,12 +1,12 @@
 import { DateTime } from "luxon";
 import type { UserId } from "../../../../config/identifiers";
 import type { AuthContext } from "../../../../context/auth";
-import { runClickHousePriceQuery } from "../utils";
+import { BILLABLE_TIMESTAMP, runClickHousePriceQuery } from "../utils";
 
 const VALUE_EXPR =
-  "JSONExtractInt(metrics, 'debit_amount', 'input') + JSONExtractInt(metrics, 'debit_amount', 'input_cache') + JSONExtractInt(metrics, 'debit_amount', 'output')";
-const BASE_QUERY = `SELECT sum(${VALUE_EXPR}) as total FROM ai_token_usage_events WHERE user_id = {userId:String} AND mode = {mode:String} AND reported_timestamp < {before:DateTime64(3, 'UTC')}`;
-const WINDOW_QUERY = `SELECT sum(${VALUE_EXPR}) as total FROM ai_token_usage_events WHERE user_id = {userId:String} AND mode = {mode:String} AND reported_timestamp > {lastBilled:DateTime64(3, 'UTC')} AND reported_timestamp < {before:DateTime64(3, 'UTC')}`;
+  "JSONExtract(metrics, 'debit_amount', 'input', 'Decimal(30, 9)') + JSONExtract(metrics, 'debit_amount', 'input_cache', 'Decimal(30, 9)') + JSONExtract(metrics, 'debit_amount', 'output_cache', 'Decimal(30, 9)') + JSONExtract(metrics, 'debit_amount', 'output', 'Decimal(30, 9)')";
+const BASE_QUERY = `SELECT sum(${VALUE_EXPR}) as total FROM ai_token_usage_events WHERE user_id = {userId:String} AND mode = {mode:String} AND ${BILLABLE_TIMESTAMP} < {before:DateTime64(3, 'UTC')}`;
+const WINDOW_QUERY = `SELECT sum(${VALUE_EXPR}) as total FROM ai_token_usage_events WHERE user_id = {userId:String} AND mode = {mode:String} AND ${BILLABLE_TIMESTAMP} > {lastBilled:DateTime64(3, 'UTC')} AND ${BILLABLE_TIMESTAMP} < {before:DateTime64(3, 'UTC')}`;
 
 export async function handlePriceRequestAiTokenUsage(
   userId: UserId,
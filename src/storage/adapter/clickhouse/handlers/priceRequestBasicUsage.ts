@@ -1,12 +1,10 @@
 import { DateTime } from "luxon";
 import type { UserId } from "../../../../config/identifiers";
 import type { AuthContext } from "../../../../context/auth";
-import { runClickHousePriceQuery } from "../utils";
+import { BILLABLE_TIMESTAMP, runClickHousePriceQuery } from "../utils";
 
-const BASE_QUERY =
-  "SELECT sum(debit_amount) as total FROM basic_usage_events WHERE user_id = {userId:String} AND mode = {mode:String} AND reported_timestamp < {before:DateTime64(3, 'UTC')}";
-const WINDOW_QUERY =
-  "SELECT sum(debit_amount) as total FROM basic_usage_events WHERE user_id = {userId:String} AND mode = {mode:String} AND reported_timestamp > {lastBilled:DateTime64(3, 'UTC')} AND reported_timestamp < {before:DateTime64(3, 'UTC')}";
+const BASE_QUERY = `SELECT sum(debit_amount) as total FROM basic_usage_events WHERE user_id = {userId:String} AND mode = {mode:String} AND ${BILLABLE_TIMESTAMP} < {before:DateTime64(3, 'UTC')}`;
+const WINDOW_QUERY = `SELECT sum(debit_amount) as total FROM basic_usage_events WHERE user_id = {userId:String} AND mode = {mode:String} AND ${BILLABLE_TIMESTAMP} > {lastBilled:DateTime64(3, 'UTC')} AND ${BILLABLE_TIMESTAMP} < {before:DateTime64(3, 'UTC')}`;
 
 export async function handlePriceRequestBasicUsage(
   userId: UserId,
@@ -74,10 +74,10 @@ const CH_FIELDS: Partial<
     basicUsageType: { select: null, where: null },
     debitAmount: {
       select:
-        "toString(JSONExtractInt(metrics, 'debit_amount', 'input') + JSONExtractInt(metrics, 'debit_amount', 'input_cache') + JSONExtractInt(metrics, 'debit_amount', 'output'))",
+        "toString(JSONExtract(metrics, 'debit_amount', 'input', 'Decimal(30, 9)') + JSONExtract(metrics, 'debit_amount', 'input_cache', 'Decimal(30, 9)') + JSONExtract(metrics, 'debit_amount', 'output', 'Decimal(30, 9)'))",
       where: null,
       aggExpr:
-        "JSONExtractInt(metrics, 'debit_amount', 'input') + JSONExtractInt(metrics, 'debit_amount', 'input_cache') + JSONExtractInt(metrics, 'debit_amount', 'output')",
+        "JSONExtract(metrics, 'debit_amount', 'input', 'Decimal(30, 9)') + JSONExtract(metrics, 'debit_amount', 'input_cache', 'Decimal(30, 9)') + JSONExtract(metrics, 'debit_amount', 'output', 'Decimal(30, 9)')",
     },
     model: { select: "model", where: "model" },
     inputTokens: {
@@ -91,14 +91,18 @@ const CH_FIELDS: Partial<
       aggExpr: "JSONExtractInt(metrics, 'tokens', 'output')",
     },
     inputDebitAmount: {
-      select: "toString(JSONExtractInt(metrics, 'debit_amount', 'input'))",
+      select:
+        "toString(JSONExtract(metrics, 'debit_amount', 'input', 'Decimal(30, 9)'))",
       where: null,
-      aggExpr: "JSONExtractInt(metrics, 'debit_amount', 'input')",
+      aggExpr:
+        "JSONExtract(metrics, 'debit_amount', 'input', 'Decimal(30, 9)')",
     },
     outputDebitAmount: {
-      select: "toString(JSONExtractInt(metrics, 'debit_amount', 'output'))",
+      select:
+        "toString(JSONExtract(metrics, 'debit_amount', 'output', 'Decimal(30, 9)'))",
       where: null,
-      aggExpr: "JSONExtractInt(metrics, 'debit_amount', 'output')",
+      aggExpr:
+        "JSONExtract(metrics, 'debit_amount', 'output', 'Decimal(30, 9)')",
     },
     inputCacheTokens: {
       select: "toString(JSONExtractInt(metrics, 'tokens', 'input_cache'))",
@@ -107,9 +111,10 @@ const CH_FIELDS: Partial<
     },
     inputCacheDebitAmount: {
       select:
-        "toString(JSONExtractInt(metrics, 'debit_amount', 'input_cache'))",
+        "toString(JSONExtract(metrics, 'debit_amount', 'input_cache', 'Decimal(30, 9)'))",
       where: null,
-      aggExpr: "JSONExtractInt(metrics, 'debit_amount', 'input_cache')",
+      aggExpr:
+        "JSONExtract(metrics, 'debit_amount', 'input_cache', 'Decimal(30, 9)')",
     },
     creditAmount: { select: null, where: null },
     provider: { select: "provider", where: "provider" },
@@ -125,14 +130,14 @@ const CH_PARAM_TYPE: Record<string, string> = {
   userId: "String",
   apiKeyId: "String",
   basicUsageType: "String",
-  debitAmount: "Int64",
+  debitAmount: "Decimal(30, 9)",
   model: "String",
   inputTokens: "Int64",
   outputTokens: "Int64",
-  inputDebitAmount: "Int64",
-  outputDebitAmount: "Int64",
+  inputDebitAmount: "Decimal(30, 9)",
+  outputDebitAmount: "Decimal(30, 9)",
   inputCacheTokens: "Int64",
-  inputCacheDebitAmount: "Int64",
+  inputCacheDebitAmount: "Decimal(30, 9)",
   creditAmount: "Int64",
   provider: "String",
   metadata: "String",
@@ -308,11 +313,11 @@ async function handleAggregationQuery(
     if (isSum && agg.field) {
       const def = CH_FIELDS[t]?.[agg.field as ChFieldKey];
       if (def?.aggExpr) {
-        cols.push(`toInt64(${def.aggExpr}) as agg_value`);
+        cols.push(`toDecimal128(${def.aggExpr}, 9) as agg_value`);
       } else if (def?.where) {
-        cols.push(`toInt64(${def.where}) as agg_value`);
+        cols.push(`toDecimal128(${def.where}, 9) as agg_value`);
       } else {
-        cols.push("toInt64(0) as agg_value");
+        cols.push("toDecimal128(0, 9) as agg_value");
       }
     } else {
       cols.push("toInt64(1) as agg_value");
@@ -13,8 +13,10 @@ CREATE TABLE IF NOT EXISTS basic_usage_events (
   reported_timestamp DateTime64(3, 'UTC'),
   ingested_timestamp DateTime64(3, 'UTC') DEFAULT now64(3, 'UTC'),
   type String,
-  debit_amount Int64,
-  metadata JSON
+  debit_amount Decimal(30, 9),
+  tag Nullable(String),
+  metadata JSON,
+  late_policy Nullable(String)
 ) ENGINE = ReplacingMergeTree()
 ORDER BY (idempotency_key, user_id)
 `;
@@ -32,17 +34,48 @@ CREATE TABLE IF NOT EXISTS ai_token_usage_events (
   model String,
   provider String,
   metrics String,
-  metadata JSON
+  tags String DEFAULT '{}',
+  metadata JSON,
+  late_policy Nullable(String)
 ) ENGINE = ReplacingMergeTree()
 ORDER BY (idempotency_key, user_id)
 `;
 
+// Tables created before debits kept sub-cent precision used Int64
+const BASIC_USAGE_DEBIT_AMOUNT_DECIMAL = `
+ALTER TABLE basic_usage_events MODIFY COLUMN debit_amount Decimal(30, 9)
+`;
+
+// Tables created before events kept the tags they were priced from
+const BASIC_USAGE_TAG_COLUMN = `
+ALTER TABLE basic_usage_events ADD COLUMN IF NOT EXISTS tag Nullable(String)
+`;
+
+const AI_TOKEN_USAGE_TAGS_COLUMN = `
+ALTER TABLE ai_token_usage_events ADD COLUMN IF NOT EXISTS tags String DEFAULT '{}'
+`;
+
+// Tables created before late events were billed after their period
+const BASIC_USAGE_LATE_POLICY_COLUMN = `
+ALTER TABLE basic_usage_events ADD COLUMN IF NOT EXISTS late_policy Nullable(String)
+`;
+
+const AI_TOKEN_USAGE_LATE_POLICY_COLUMN = `
+ALTER TABLE ai_token_usage_events ADD COLUMN IF NOT EXISTS late_policy Nullable(String)
+`;
+
 export async function runClickHouseMigrations(): Promise<void> {
   const client = getClickHouseDB();
 
   await client.command({ query: BASIC_USAGE_EVENTS_TABLE });
   logger.lifecycle("ClickHouse: basic_usage_events table ensured");
 
+  await client.command({ query: BASIC_USAGE_DEBIT_AMOUNT_DECIMAL });
+  await client.command({ query: BASIC_USAGE_TAG_COLUMN });
+  await client.command({ query: BASIC_USAGE_LATE_POLICY_COLUMN });
+
   await client.command({ query: AI_TOKEN_USAGE_EVENTS_TABLE });
+  await client.command({ query: AI_TOKEN_USAGE_TAGS_COLUMN });
+  await client.command({ query: AI_TOKEN_USAGE_LATE_POLICY_COLUMN });
   logger.lifecycle("ClickHouse: ai_token_usage_events table ensured");
 }
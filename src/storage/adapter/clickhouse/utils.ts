@@ -8,11 +8,16 @@ import { getClickHouseDB } from "../../db/clickhouse";
 import type { UserId } from "../../../config/identifiers";
 import type { AuthContext } from "../../../context/auth";
 
+// When an event counts towards a billing period; late events are billed
+// with the period they were ingested in
+export const BILLABLE_TIMESTAMP =
+  "if(late_policy IS NULL, reported_timestamp, ingested_timestamp)";
+
 export function toClickHouseDateTime(dt: DateTime): string {
   return dt.toUTC().toFormat("yyyy-MM-dd HH:mm:ss.SSS");
 }
 
-async function fetchLastBilled(userId: string): Promise<string | null> {
+export async function fetchLastBilled(userId: string): Promise<string | null> {
   const pgDb = getPostgresDB();
   try {
     const [user] = await pgDb
@@ -83,7 +88,8 @@ export async function runClickHousePriceQuery(
       return 0;
     }
 
-    const parsed = parseInt(data[0].total);
+    // Sub-cent total; rounded to whole cents by calculatePaymentPrice
+    const parsed = Number(data[0].total);
     return isNaN(parsed) ? 0 : parsed;
   } catch (e) {
     if (
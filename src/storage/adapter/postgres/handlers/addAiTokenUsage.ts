@@ -1,7 +1,11 @@
 import { getPostgresDB } from "../../../db/postgres/db";
 import { aiTokenUsageEventsTable } from "../../../db/postgres/schema";
 import { StorageError } from "../../../../errors/storage";
-import { type SqlRecordOf } from "../../../../interface/event/Event";
+import {
+  type AITokenComponent,
+  type BilledLatePolicy,
+  type SqlRecordOf,
+} from "../../../../interface/event/Event";
 import type { UserId } from "../../../../config/identifiers";
 import { DateTime } from "luxon";
 import { ensureUserExists } from "../../../db/postgres/helpers/users";
@@ -12,6 +16,7 @@ import {
 } from "./addEventUtils";
 import { metricsSchema } from "../../../../zod/metrics";
 import type { Metrics } from "../../../../zod/metrics";
+import { toDebitAmount } from "../../../../utils/debitAmount";
 
 type AggregatedEvent = {
   userId: UserId;
@@ -28,7 +33,9 @@ type AggregatedEvent = {
   reported_timestamp: string;
   eventId: string;
   idempotencyKey: string;
+  tags?: Partial<Record<AITokenComponent, string>>;
   metadata?: Record<string, unknown>;
+  late_policy?: BilledLatePolicy;
 };
 
 function validateNonNegative(
@@ -81,10 +88,18 @@ async function aggregateAiTokenEvents(
       existing.inputCacheTokens += event_data.data.inputCacheTokens;
       existing.outputCacheTokens += event_data.data.outputCacheTokens;
       existing.outputTokens += event_data.data.outputTokens;
-      existing.inputDebitAmount += event_data.data.inputDebitAmount;
-      existing.inputCacheDebitAmount += event_data.data.inputCacheDebitAmount;
-      existing.outputCacheDebitAmount += event_data.data.outputCacheDebitAmount;
-      existing.outputDebitAmount += event_data.data.outputDebitAmount;
+      existing.inputDebitAmount = toDebitAmount(
+        existing.inputDebitAmount + event_data.data.inputDebitAmount
+      );
+      existing.inputCacheDebitAmount = toDebitAmount(
+        existing.inputCacheDebitAmount + event_data.data.inputCacheDebitAmount
+      );
+      existing.outputCacheDebitAmount = toDebitAmount(
+        existing.outputCacheDebitAmount + event_data.data.outputCacheDebitAmount
+      );
+      existing.outputDebitAmount = toDebitAmount(
+        existing.outputDebitAmount + event_data.data.outputDebitAmount
+      );
       if (reported_timestamp > existing.reported_timestamp) {
         existing.reported_timestamp = reported_timestamp;
       }
@@ -104,7 +119,9 @@ async function aggregateAiTokenEvents(
         reported_timestamp,
         eventId: event_data.eventId,
         idempotencyKey: event_data.idempotencyKey,
+        tags: event_data.data.tags,
         metadata: event_data.data.metadata,
+        late_policy: event_data.late_policy,
       });
     }
   }
@@ -140,7 +157,9 @@ function buildAiTokenInsertValues(
         output_cache: aggEvent.outputCacheDebitAmount,
       },
     } satisfies Metrics),
+    tags: aggEvent.tags ?? null,
     metadata: aggEvent.metadata ?? {},
+    latePolicy: aggEvent.late_policy ?? null,
   }));
 }
 
@@ -47,7 +47,9 @@ export async function handleAddBasicUsage(
             mode: auth.mode as "production" | "test",
             type: event_data.data.basicUsageType,
             debitAmount: event_data.data.debitAmount,
+            tag: event_data.data.tag ?? null,
             metadata: event_data.data.metadata ?? {},
+            latePolicy: event_data.late_policy ?? null,
           })
           .returning({ id: basicUsageEventsTable.id });
 
@@ -0,0 +1,135 @@
+import { getPostgresDB } from "../../../db/postgres/db";
+import {
+  basicUsageEventsTable,
+  aiTokenUsageEventsTable,
+  usersTable,
+} from "../../../db/postgres/schema";
+import { StorageError } from "../../../../errors/storage";
+import { eq, sql, and } from "drizzle-orm";
+import type { DateTime } from "luxon";
+import type { UserId } from "../../../../config/identifiers";
+import type { PgTransaction } from "drizzle-orm/pg-core";
+import type { AuthContext } from "../../../../context/auth";
+import type { AITokenComponent } from "../../../../interface/event/Event";
+import type { InvoiceLineTotal } from "../../../../interface/storage/Storage";
+import { billableTimestamp } from "./priceRequest";
+
+// Token components paired with their key in the metrics column
+const AI_TOKEN_COMPONENTS = sql.raw(
+  "(VALUES ('input', 'input'), ('inputCache', 'input_cache'), ('output', 'output'), ('outputCache', 'output_cache')) AS c(component, metric)"
+);
+
+type AiLineRow = {
+  model: string;
+  component: AITokenComponent;
+  tag: string | null;
+  adjustment: boolean;
+  quantity: string | null;
+  amount: string | null;
+};
+
+// Late events billed under the 'adjustment' policy get lines of their own
+function isAdjustment(
+  table: typeof basicUsageEventsTable | typeof aiTokenUsageEventsTable
+) {
+  return sql<boolean>`COALESCE(${table.latePolicy} = 'adjustment', false)`;
+}
+
+function unbilledWindow(
+  table: typeof basicUsageEventsTable | typeof aiTokenUsageEventsTable,
+  userId: UserId,
+  beforeTimestamp: DateTime,
+  auth: AuthContext
+) {
+  return and(
+    eq(table.userId, userId),
+    eq(table.mode, auth.mode as "production" | "test"),
+    sql`${billableTimestamp(table)} > ${usersTable.last_billed_timestamp}`,
+    sql`${billableTimestamp(table)} < ${beforeTimestamp.toISO()}`
+  );
+}
+
+export async function handleInvoiceLines(
+  userId: UserId,
+  beforeTimestamp: DateTime,
+  auth: AuthContext,
+  txn?: PgTransaction<any, any, any>
+): Promise<InvoiceLineTotal[]> {
+  const db = txn ?? getPostgresDB();
+
+  if (!userId) {
+    throw StorageError.invalidData("Missing userId in invoice lines request");
+  }
+
+  try {
+    const basicRows = await db
+      .select({
+        basicUsageType: basicUsageEventsTable.type,
+        tag: basicUsageEventsTable.tag,
+        adjustment: isAdjustment(basicUsageEventsTable),
+        quantity: sql<string>`count(*)`,
+        amount: sql<string | null>`sum(${basicUsageEventsTable.debitAmount})`,
+      })
+      .from(basicUsageEventsTable)
+      .innerJoin(usersTable, eq(basicUsageEventsTable.userId, usersTable.id))
+      .where(
+        unbilledWindow(basicUsageEventsTable, userId, beforeTimestamp, auth)
+      )
+      .groupBy(
+        basicUsageEventsTable.type,
+        basicUsageEventsTable.tag,
+        isAdjustment(basicUsageEventsTable)
+      )
+      .orderBy(
+        isAdjustment(basicUsageEventsTable),
+        basicUsageEventsTable.type,
+        basicUsageEventsTable.tag
+      );
+
+    const aiResult = await db.execute(sql`
+      SELECT
+        ${aiTokenUsageEventsTable.model} AS "model",
+        c.component AS "component",
+        ${aiTokenUsageEventsTable.tags} ->> c.component AS "tag",
+        ${isAdjustment(aiTokenUsageEventsTable)} AS "adjustment",
+        sum(CAST(${aiTokenUsageEventsTable.metrics}->'tokens'->>c.metric AS bigint)) AS "quantity",
+        sum(CAST(${aiTokenUsageEventsTable.metrics}->'debit_amount'->>c.metric AS numeric)) AS "amount"
+      FROM ${aiTokenUsageEventsTable}
+      INNER JOIN ${usersTable} ON ${aiTokenUsageEventsTable.userId} = ${usersTable.id}
+      CROSS JOIN ${AI_TOKEN_COMPONENTS}
+      WHERE ${unbilledWindow(aiTokenUsageEventsTable, userId, beforeTimestamp, auth)}
+      GROUP BY 1, 2, 3, 4
+      HAVING sum(CAST(${aiTokenUsageEventsTable.metrics}->'tokens'->>c.metric AS bigint)) > 0
+      ORDER BY 4, 1, 2, 3
+    `);
+    const aiRows = aiResult as unknown as AiLineRow[];
+
+    return [
+      ...basicRows.map((row) => ({
+        eventKind: "BASIC_USAGE" as const,
+        basicUsageType: row.basicUsageType,
+        model: null,
+        component: null,
+        tag: row.tag,
+        quantity: Number(row.quantity),
+        amount: Number(row.amount ?? 0),
+        adjustment: row.adjustment,
+      })),
+      ...aiRows.map((row) => ({
+        eventKind: "AI_TOKEN_USAGE" as const,
+        basicUsageType: null,
+        model: row.model,
+        component: row.component,
+        tag: row.tag,
+        quantity: Number(row.quantity ?? 0),
+        amount: Number(row.amount ?? 0),
+        adjustment: row.adjustment,
+      })),
+    ];
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to itemize unbilled usage for user ${userId}`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
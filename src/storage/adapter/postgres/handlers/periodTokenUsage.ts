@@ -0,0 +1,68 @@
+import { getPostgresDB } from "../../../db/postgres/db";
+import {
+  aiTokenUsageEventsTable,
+  usersTable,
+} from "../../../db/postgres/schema";
+import { StorageError } from "../../../../errors/storage";
+import { eq, sql, and } from "drizzle-orm";
+import type { UserId } from "../../../../config/identifiers";
+import type { PgTransaction } from "drizzle-orm/pg-core";
+import type { PeriodTokenUsage } from "../../../../interface/storage/Storage";
+import { billableTimestamp } from "./priceRequest";
+
+function sumTokens(key: "input" | "input_cache" | "output" | "output_cache") {
+  return sql<
+    string | null
+  >`sum(CAST(${aiTokenUsageEventsTable.metrics}->'tokens'->>${key} AS bigint))`;
+}
+
+function toCount(value: string | null | undefined): number {
+  if (value === null || value === undefined) {
+    return 0;
+  }
+  const parsed = parseInt(value);
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+export async function handlePeriodTokenUsage(
+  userId: UserId,
+  mode: "production" | "test",
+  txn?: PgTransaction<any, any, any>
+): Promise<PeriodTokenUsage> {
+  const db = txn ?? getPostgresDB();
+
+  if (!userId) {
+    throw StorageError.invalidData("Missing userId in period usage request");
+  }
+
+  try {
+    const [row] = await db
+      .select({
+        input: sumTokens("input"),
+        inputCache: sumTokens("input_cache"),
+        output: sumTokens("output"),
+        outputCache: sumTokens("output_cache"),
+      })
+      .from(aiTokenUsageEventsTable)
+      .innerJoin(usersTable, eq(aiTokenUsageEventsTable.userId, usersTable.id))
+      .where(
+        and(
+          eq(aiTokenUsageEventsTable.userId, userId),
+          eq(aiTokenUsageEventsTable.mode, mode),
+          sql`${billableTimestamp(aiTokenUsageEventsTable)} > ${usersTable.last_billed_timestamp}`
+        )
+      );
+
+    return {
+      inputTokens: toCount(row?.input),
+      inputCacheTokens: toCount(row?.inputCache),
+      outputTokens: toCount(row?.output),
+      outputCacheTokens: toCount(row?.outputCache),
+    };
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to query period token usage for user ${userId}`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
@@ -15,6 +15,15 @@ type PriceEventTable =
   | typeof basicUsageEventsTable
   | typeof aiTokenUsageEventsTable;
 
+/**
+ * When an event counts towards a billing period. Late events are billed
+ * with the period they were ingested in, since the one they were reported
+ * in has already been checked out.
+ */
+export function billableTimestamp(table: PriceEventTable): SQL {
+  return sql`(CASE WHEN ${table.latePolicy} IS NULL THEN ${table.reportedTimestamp} ELSE ${table.ingestedTimestamp} END)`;
+}
+
 export async function handlePriceRequest(
   userId: UserId,
   priceTable: PriceEventTable,
@@ -37,11 +46,11 @@ export async function handlePriceRequest(
 
     let result;
     try {
-      const baseCondition = sql`${priceTable.reportedTimestamp} > ${usersTable.last_billed_timestamp} AND ${priceTable.userId} = ${userId} AND ${priceTable.mode} = ${auth.mode}`;
+      const baseCondition = sql`${billableTimestamp(priceTable)} > ${usersTable.last_billed_timestamp} AND ${priceTable.userId} = ${userId} AND ${priceTable.mode} = ${auth.mode}`;
       const whereClause = beforeTimestamp
         ? and(
             baseCondition,
-            sql`${priceTable.reportedTimestamp} < ${beforeTimestamp.toISO()}`
+            sql`${billableTimestamp(priceTable)} < ${beforeTimestamp.toISO()}`
           )
         : baseCondition;
 
@@ -82,15 +91,9 @@ export async function handlePriceRequest(
       return 0;
     }
 
-    let parsedPrice: number;
-    try {
-      parsedPrice = parseInt(priceValue);
-    } catch (e) {
-      throw StorageError.priceCalculationFailed(
-        userId,
-        new Error(`Failed to parse price value: ${priceValue}`)
-      );
-    }
+    // Sub-cent total, already net of free allowances since debits are
+    // stored that way; rounded to whole cents by calculatePaymentPrice
+    const parsedPrice = Number(priceValue);
 
     if (isNaN(parsedPrice)) {
       throw StorageError.priceCalculationFailed(
@@ -58,9 +58,9 @@ const PG_FIELDS: PGFieldRegistry = {
     },
     basicUsageType: { select: "type", whereCol: "type", whereCast: "" },
     debitAmount: {
-      select: "debit_amount::text",
+      select: "trim_scale(debit_amount)::text",
       whereCol: "debit_amount",
-      whereCast: "::bigint",
+      whereCast: "::numeric",
     },
     model: { select: null, whereCol: null, whereCast: "" },
     inputTokens: { select: null, whereCol: null, whereCast: "" },
@@ -105,11 +105,11 @@ const PG_FIELDS: PGFieldRegistry = {
     basicUsageType: { select: null, whereCol: null, whereCast: "" },
     debitAmount: {
       select:
-        "(COALESCE((metrics->'debit_amount'->>'input')::integer,0) + COALESCE((metrics->'debit_amount'->>'input_cache')::integer,0) + COALESCE((metrics->'debit_amount'->>'output')::integer,0))::text",
+        "(COALESCE((metrics->'debit_amount'->>'input')::numeric,0) + COALESCE((metrics->'debit_amount'->>'input_cache')::numeric,0) + COALESCE((metrics->'debit_amount'->>'output')::numeric,0))::text",
       whereCol: null,
       whereCast: "",
       aggExpr:
-        "(COALESCE((metrics->'debit_amount'->>'input')::bigint,0) + COALESCE((metrics->'debit_amount'->>'input_cache')::bigint,0) + COALESCE((metrics->'debit_amount'->>'output')::bigint,0))",
+        "(COALESCE((metrics->'debit_amount'->>'input')::numeric,0) + COALESCE((metrics->'debit_amount'->>'input_cache')::numeric,0) + COALESCE((metrics->'debit_amount'->>'output')::numeric,0))",
     },
     model: { select: "model", whereCol: "model", whereCast: "" },
     inputTokens: {
@@ -128,13 +128,13 @@ const PG_FIELDS: PGFieldRegistry = {
       select: "(metrics->'debit_amount'->>'input')::text",
       whereCol: null,
       whereCast: "",
-      aggExpr: "(metrics->'debit_amount'->>'input')::bigint",
+      aggExpr: "(metrics->'debit_amount'->>'input')::numeric",
     },
     outputDebitAmount: {
       select: "(metrics->'debit_amount'->>'output')::text",
       whereCol: null,
       whereCast: "",
-      aggExpr: "(metrics->'debit_amount'->>'output')::bigint",
+      aggExpr: "(metrics->'debit_amount'->>'output')::numeric",
     },
     inputCacheTokens: {
       select: "(metrics->'tokens'->>'input_cache')::text",
@@ -146,7 +146,7 @@ const PG_FIELDS: PGFieldRegistry = {
       select: "(metrics->'debit_amount'->>'input_cache')::text",
       whereCol: null,
       whereCast: "",
-      aggExpr: "(metrics->'debit_amount'->>'input_cache')::bigint",
+      aggExpr: "(metrics->'debit_amount'->>'input_cache')::numeric",
     },
     creditAmount: { select: null, whereCol: null, whereCast: "" },
     provider: { select: "provider", whereCol: "provider", whereCast: "" },
@@ -338,10 +338,10 @@ async function handleAggregationQuery(
         cols.push(sql`${sql.raw(def.aggExpr)} as ${sql.raw(`"agg_value"`)}`);
       } else if (def?.whereCol) {
         cols.push(
-          sql`${sql.raw(def.whereCol)}::bigint as ${sql.raw(`"agg_value"`)}`
+          sql`${sql.raw(def.whereCol)}::numeric as ${sql.raw(`"agg_value"`)}`
         );
       } else {
-        cols.push(sql`0::bigint as ${sql.raw(`"agg_value"`)}`);
+        cols.push(sql`0::numeric as ${sql.raw(`"agg_value"`)}`);
       }
     } else {
       cols.push(sql`1::bigint as ${sql.raw(`"agg_value"`)}`);
@@ -358,7 +358,7 @@ async function handleAggregationQuery(
   if (request.groupBy) {
     if (isSum) {
       outerQuery = sql`
-        SELECT "group_value", SUM("agg_value")::text as "agg_value"
+        SELECT "group_value", trim_scale(SUM("agg_value"))::text as "agg_value"
         FROM (${unionQuery}) sub
         GROUP BY "group_value"
       `;
@@ -372,7 +372,7 @@ async function handleAggregationQuery(
   } else {
     if (isSum) {
       outerQuery = sql`
-        SELECT SUM("agg_value")::text as "agg_value"
+        SELECT trim_scale(SUM("agg_value"))::text as "agg_value"
         FROM (${unionQuery}) sub
       `;
     } else {
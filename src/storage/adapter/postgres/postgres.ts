@@ -2,6 +2,8 @@ import {
   type StorageAdapter,
   type QueryRequest,
   type QueryResponse,
+  type PeriodTokenUsage,
+  type InvoiceLineTotal,
 } from "../../../interface/storage/Storage";
 import { getPostgresDB } from "../../db/postgres/db";
 import { StorageError } from "../../../errors/storage";
@@ -11,6 +13,8 @@ import {
   handleAddAiTokenUsage,
   handlePriceRequestAiTokenUsage,
   handleQueryEvents,
+  handlePeriodTokenUsage,
+  handleInvoiceLines,
 } from "./handlers";
 import type {
   SerializedEvent,
@@ -107,10 +111,31 @@ export class PostgresAdapter implements StorageAdapter {
     }
   }
 
+  async invoiceLines(
+    userID: UserId,
+    beforeTimestamp: DateTime,
+    auth: AuthContext,
+    txn?: unknown
+  ): Promise<InvoiceLineTotal[]> {
+    return await handleInvoiceLines(
+      userID,
+      beforeTimestamp,
+      auth,
+      txn as PgTransaction<any, any, any> | undefined
+    );
+  }
+
   async query(
     request: QueryRequest,
     auth: AuthContext
   ): Promise<QueryResponse> {
     return await handleQueryEvents(request, auth);
   }
+
+  async periodTokenUsage(
+    userID: UserId,
+    mode: "production" | "test"
+  ): Promise<PeriodTokenUsage> {
+    return await handlePeriodTokenUsage(userID, mode);
+  }
 }
@@ -0,0 +1,395 @@
+import { getPostgresDB } from "../db";
+import {
+  allowanceConsumptionsTable,
+  allowancesTable,
+  allowanceUsageTable,
+  usersTable,
+} from "../schema";
+import { eq, and, asc, sql } from "drizzle-orm";
+import { StorageError } from "../../../../errors/storage";
+import { DateTime } from "luxon";
+import type { PgTransaction } from "drizzle-orm/pg-core";
+import { allowanceCache } from "../../../../utils/allowanceCache";
+
+export interface Allowance {
+  id: string;
+  priceBookId: string | null;
+  eventKind: "BASIC_USAGE" | "AI_TOKEN_USAGE" | null;
+  tag: string | null;
+  quantity: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Identifies the event an allowance consumption belongs to.
+ */
+export interface AllowanceConsumptionKey {
+  eventKind: "BASIC_USAGE" | "AI_TOKEN_USAGE";
+  userId: string;
+  idempotencyKey: string;
+}
+
+/**
+ * What an event consumed of its allowances, and the units that covered
+ * each of its lines.
+ */
+export interface StoredAllowanceConsumption {
+  periodStart: string;
+  consumed: { allowanceId: string; units: number }[];
+  covered: number[];
+}
+
+export type AllowanceTarget =
+  { eventKind: "BASIC_USAGE" | "AI_TOKEN_USAGE" } | { tag: string };
+
+const allowanceColumns = {
+  id: allowancesTable.id,
+  priceBookId: allowancesTable.priceBookId,
+  eventKind: allowancesTable.eventKind,
+  tag: allowancesTable.tag,
+  quantity: allowancesTable.quantity,
+  createdAt: allowancesTable.createdAt,
+  updatedAt: allowancesTable.updatedAt,
+};
+
+export async function listAllowances(): Promise<Allowance[]> {
+  const db = getPostgresDB();
+
+  try {
+    return await db
+      .select(allowanceColumns)
+      .from(allowancesTable)
+      .orderBy(asc(allowancesTable.createdAt));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to list allowances",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * @returns The new allowance, or null if the target already has an
+ *   allowance in the same price book (or globally)
+ */
+export async function createAllowance(
+  target: AllowanceTarget,
+  quantity: number,
+  priceBookId: string | null
+): Promise<Allowance | null> {
+  const db = getPostgresDB();
+
+  try {
+    const [allowance] = await db
+      .insert(allowancesTable)
+      .values({
+        priceBookId,
+        eventKind: "eventKind" in target ? target.eventKind : null,
+        tag: "tag" in target ? target.tag : null,
+        quantity,
+      })
+      .onConflictDoNothing()
+      .returning(allowanceColumns);
+
+    allowanceCache.clear();
+    return allowance ?? null;
+  } catch (e) {
+    throw StorageError.insertFailed(
+      "Failed to create allowance",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Changes the included quantity. Usage already consumed this period is
+ * kept, so lowering the quantity below it ends the free units at once.
+ */
+export async function updateAllowanceQuantity(
+  id: string,
+  quantity: number
+): Promise<Allowance | null> {
+  const db = getPostgresDB();
+
+  try {
+    const [allowance] = await db
+      .update(allowancesTable)
+      .set({ quantity, updatedAt: DateTime.utc().toISO() })
+      .where(eq(allowancesTable.id, id))
+      .returning(allowanceColumns);
+
+    allowanceCache.clear();
+    return allowance ?? null;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to update allowance '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Deletes an allowance along with its recorded usage.
+ */
+export async function deleteAllowance(id: string): Promise<boolean> {
+  const db = getPostgresDB();
+
+  try {
+    const deleted = await db
+      .delete(allowancesTable)
+      .where(eq(allowancesTable.id, id))
+      .returning({ id: allowancesTable.id });
+
+    allowanceCache.clear();
+    return deleted.length > 0;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to delete allowance '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Returns when the user's current billing period began.
+ *
+ * @returns The user's last_billed_timestamp, or null if the user does not
+ *   exist yet
+ */
+export async function findUserPeriodStart(
+  userId: string,
+  txn?: PgTransaction<any, any, any>
+): Promise<string | null> {
+  const db = txn ?? getPostgresDB();
+
+  try {
+    const [user] = await db
+      .select({ lastBilled: usersTable.last_billed_timestamp })
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .limit(1);
+    return user?.lastBilled ?? null;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up billing period of user '${userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Consumes up to `units` of an allowance for a user's period. Must run in a
+ * transaction; the usage row stays locked until it commits.
+ *
+ * @returns How many of the units the allowance covered
+ */
+export async function consumeAllowance(
+  allowance: { id: string; quantity: number },
+  userId: string,
+  mode: "test" | "production",
+  periodStart: string,
+  units: number,
+  txn: PgTransaction<any, any, any>
+): Promise<number> {
+  const period = and(
+    eq(allowanceUsageTable.allowanceId, allowance.id),
+    eq(allowanceUsageTable.userId, userId),
+    eq(allowanceUsageTable.mode, mode),
+    eq(allowanceUsageTable.periodStart, periodStart)
+  );
+
+  try {
+    await txn
+      .insert(allowanceUsageTable)
+      .values({ allowanceId: allowance.id, userId, mode, periodStart })
+      .onConflictDoNothing();
+
+    const [usage] = await txn
+      .select({ consumed: allowanceUsageTable.consumed })
+      .from(allowanceUsageTable)
+      .where(period)
+      .for("update");
+
+    const covered = Math.max(
+      0,
+      Math.min(units, allowance.quantity - (usage?.consumed ?? 0))
+    );
+    if (covered > 0) {
+      await txn
+        .update(allowanceUsageTable)
+        .set({ consumed: sql`${allowanceUsageTable.consumed} + ${covered}` })
+        .where(period);
+    }
+    return covered;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to consume allowance '${allowance.id}' for user '${userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Gives back units consumed for an event that was not stored after all.
+ */
+export async function releaseAllowance(
+  allowanceId: string,
+  userId: string,
+  mode: "test" | "production",
+  periodStart: string,
+  units: number,
+  txn?: PgTransaction<any, any, any>
+): Promise<void> {
+  const db = txn ?? getPostgresDB();
+
+  try {
+    await db
+      .update(allowanceUsageTable)
+      .set({
+        consumed: sql`GREATEST(${allowanceUsageTable.consumed} - ${units}, 0)`,
+      })
+      .where(
+        and(
+          eq(allowanceUsageTable.allowanceId, allowanceId),
+          eq(allowanceUsageTable.userId, userId),
+          eq(allowanceUsageTable.mode, mode),
+          eq(allowanceUsageTable.periodStart, periodStart)
+        )
+      );
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to release allowance '${allowanceId}' for user '${userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+function consumptionOf(key: AllowanceConsumptionKey) {
+  return and(
+    eq(allowanceConsumptionsTable.eventKind, key.eventKind),
+    eq(allowanceConsumptionsTable.userId, key.userId),
+    eq(allowanceConsumptionsTable.idempotencyKey, key.idempotencyKey)
+  );
+}
+
+/**
+ * Starts recording what an event consumes of the allowances of the period
+ * starting at `periodStart`. Must run in a transaction; a concurrent call
+ * for the same event waits until it commits.
+ *
+ * @returns Null if this call started the record, or what an earlier
+ *   attempt at the same event consumed
+ */
+export async function startAllowanceConsumption(
+  key: AllowanceConsumptionKey,
+  mode: "test" | "production",
+  periodStart: string,
+  txn: PgTransaction<any, any, any>
+): Promise<StoredAllowanceConsumption | null> {
+  try {
+    const started = await txn
+      .insert(allowanceConsumptionsTable)
+      .values({ ...key, mode, periodStart })
+      .onConflictDoNothing()
+      .returning({ id: allowanceConsumptionsTable.id });
+    if (started.length > 0) {
+      return null;
+    }
+
+    const [earlier] = await txn
+      .select({
+        periodStart: allowanceConsumptionsTable.periodStart,
+        consumed: allowanceConsumptionsTable.consumed,
+        covered: allowanceConsumptionsTable.covered,
+      })
+      .from(allowanceConsumptionsTable)
+      .where(consumptionOf(key))
+      .limit(1);
+    if (!earlier) {
+      throw new Error("Conflicting consumption not found");
+    }
+    return earlier;
+  } catch (e) {
+    throw StorageError.insertFailed(
+      `Failed to record allowance consumption of event '${key.idempotencyKey}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Records what an event consumed, once `startAllowanceConsumption` started
+ * its record in the same transaction.
+ */
+export async function saveAllowanceConsumption(
+  key: AllowanceConsumptionKey,
+  consumption: Omit<StoredAllowanceConsumption, "periodStart">,
+  txn: PgTransaction<any, any, any>
+): Promise<void> {
+  try {
+    await txn
+      .update(allowanceConsumptionsTable)
+      .set(consumption)
+      .where(consumptionOf(key));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to record allowance consumption of event '${key.idempotencyKey}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Forgets what an event consumed, so a retry of an event that was not
+ * stored consumes afresh.
+ */
+export async function dropAllowanceConsumption(
+  key: AllowanceConsumptionKey,
+  txn?: PgTransaction<any, any, any>
+): Promise<void> {
+  const db = txn ?? getPostgresDB();
+
+  try {
+    await db.delete(allowanceConsumptionsTable).where(consumptionOf(key));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to drop allowance consumption of event '${key.idempotencyKey}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Returns the units of each allowance a user has consumed in a period,
+ * keyed by allowance id.
+ */
+export async function findAllowanceUsage(
+  userId: string,
+  mode: "test" | "production",
+  periodStart: string
+): Promise<Map<string, number>> {
+  const db = getPostgresDB();
+
+  try {
+    const rows = await db
+      .select({
+        allowanceId: allowanceUsageTable.allowanceId,
+        consumed: allowanceUsageTable.consumed,
+      })
+      .from(allowanceUsageTable)
+      .where(
+        and(
+          eq(allowanceUsageTable.userId, userId),
+          eq(allowanceUsageTable.mode, mode),
+          eq(allowanceUsageTable.periodStart, periodStart)
+        )
+      );
+    return new Map(rows.map((row) => [row.allowanceId, row.consumed]));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up allowance usage of user '${userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
@@ -0,0 +1,473 @@
+import { getPostgresDB } from "../db";
+import {
+  couponsTable,
+  sessionsTable,
+  userCouponsTable,
+  usersTable,
+} from "../schema";
+import { and, asc, eq, gt, isNull, lt, or, sql } from "drizzle-orm";
+import type { PgTransaction } from "drizzle-orm/pg-core";
+import { StorageError } from "../../../../errors/storage";
+import { DateTime } from "luxon";
+import { executeInTransaction } from "../../../adapter/postgres/handlers/addEventUtils";
+import { ensureUserExists } from "./users";
+
+export type CouponKind = "percent" | "amount" | "free_periods";
+
+export interface Coupon {
+  id: string;
+  code: string;
+  kind: CouponKind;
+  value: number;
+  maxRedemptions: number | null;
+  redemptions: number;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+export interface NewCoupon {
+  code: string;
+  kind: CouponKind;
+  value: number;
+  maxRedemptions: number | null;
+  expiresAt: string | null;
+}
+
+export interface UserCoupon {
+  id: string;
+  userId: string;
+  couponId: string;
+  mode: "test" | "production";
+  checkoutsRemaining: number;
+  attachedAt: string;
+  redeemedAt: string | null;
+}
+
+/**
+ * A coupon attached to a user, with the coupon it applies.
+ */
+export interface ActiveUserCoupon extends UserCoupon {
+  coupon: Coupon;
+}
+
+export type AttachCouponResult =
+  | { status: "attached"; userCoupon: UserCoupon }
+  | { status: "coupon_not_found" }
+  | { status: "unavailable" };
+
+const couponColumns = {
+  id: couponsTable.id,
+  code: couponsTable.code,
+  kind: couponsTable.kind,
+  value: couponsTable.value,
+  maxRedemptions: couponsTable.maxRedemptions,
+  redemptions: couponsTable.redemptions,
+  expiresAt: couponsTable.expiresAt,
+  createdAt: couponsTable.createdAt,
+};
+
+const userCouponColumns = {
+  id: userCouponsTable.id,
+  userId: userCouponsTable.userId,
+  couponId: userCouponsTable.couponId,
+  mode: userCouponsTable.mode,
+  checkoutsRemaining: userCouponsTable.checkoutsRemaining,
+  attachedAt: userCouponsTable.attachedAt,
+  redeemedAt: userCouponsTable.redeemedAt,
+};
+
+// Coupons that have not expired and have redemptions left
+function redeemable(now: string) {
+  return and(
+    isNull(couponsTable.deletedAt),
+    or(isNull(couponsTable.expiresAt), gt(couponsTable.expiresAt, now)),
+    or(
+      isNull(couponsTable.maxRedemptions),
+      lt(couponsTable.redemptions, couponsTable.maxRedemptions)
+    )
+  );
+}
+
+/**
+ * Returns how many checkouts a coupon discounts once attached.
+ */
+export function couponCheckouts(
+  coupon: Pick<Coupon, "kind" | "value">
+): number {
+  return coupon.kind === "free_periods" ? coupon.value : 1;
+}
+
+export async function listCoupons(): Promise<Coupon[]> {
+  const db = getPostgresDB();
+
+  try {
+    return await db
+      .select(couponColumns)
+      .from(couponsTable)
+      .where(isNull(couponsTable.deletedAt))
+      .orderBy(asc(couponsTable.code));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to list coupons",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+export async function findCoupon(id: string): Promise<Coupon | null> {
+  const db = getPostgresDB();
+
+  try {
+    const [coupon] = await db
+      .select(couponColumns)
+      .from(couponsTable)
+      .where(and(eq(couponsTable.id, id), isNull(couponsTable.deletedAt)))
+      .limit(1);
+    return coupon ?? null;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up coupon '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * @returns The new coupon, or null if the code is already taken
+ */
+export async function createCoupon(coupon: NewCoupon): Promise<Coupon | null> {
+  const db = getPostgresDB();
+
+  try {
+    const [created] = await db
+      .insert(couponsTable)
+      .values(coupon)
+      .onConflictDoNothing({
+        target: couponsTable.code,
+        where: isNull(couponsTable.deletedAt),
+      })
+      .returning(couponColumns);
+
+    return created ?? null;
+  } catch (e) {
+    throw StorageError.insertFailed(
+      `Failed to create coupon '${coupon.code}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Deletes a coupon and detaches it from every user it is attached to.
+ * Checkouts it already discounted keep their discount.
+ */
+export async function deleteCoupon(id: string): Promise<boolean> {
+  const db = getPostgresDB();
+
+  return executeInTransaction(db, `deleting coupon '${id}'`, async (txn) => {
+    try {
+      const now = DateTime.utc().toISO();
+      const [coupon] = await txn
+        .update(couponsTable)
+        .set({ deletedAt: now })
+        .where(and(eq(couponsTable.id, id), isNull(couponsTable.deletedAt)))
+        .returning({ id: couponsTable.id });
+
+      if (!coupon) {
+        return false;
+      }
+
+      await txn
+        .update(userCouponsTable)
+        .set({ endedAt: now })
+        .where(
+          and(
+            eq(userCouponsTable.couponId, id),
+            isNull(userCouponsTable.endedAt)
+          )
+        );
+      return true;
+    } catch (e) {
+      throw StorageError.queryFailed(
+        `Failed to delete coupon '${id}'`,
+        e instanceof Error ? e : new Error(String(e))
+      );
+    }
+  });
+}
+
+/**
+ * Returns the coupon attached to a user in one mode while it has checkouts
+ * left to discount.
+ */
+export async function findActiveUserCoupon(
+  userId: string,
+  mode: "test" | "production"
+): Promise<ActiveUserCoupon | null> {
+  const db = getPostgresDB();
+
+  try {
+    const [row] = await db
+      .select({ ...userCouponColumns, coupon: couponColumns })
+      .from(userCouponsTable)
+      .innerJoin(couponsTable, eq(userCouponsTable.couponId, couponsTable.id))
+      .where(
+        and(
+          eq(userCouponsTable.userId, userId),
+          eq(userCouponsTable.mode, mode),
+          isNull(userCouponsTable.endedAt),
+          gt(userCouponsTable.checkoutsRemaining, 0)
+        )
+      )
+      .limit(1);
+    return row ?? null;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up the coupon of user '${userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+async function endActiveUserCoupon(
+  txn: PgTransaction<any, any, any>,
+  userId: string,
+  mode: "test" | "production"
+): Promise<UserCoupon | null> {
+  const [ended] = await txn
+    .update(userCouponsTable)
+    .set({ endedAt: DateTime.utc().toISO() })
+    .where(
+      and(
+        eq(userCouponsTable.userId, userId),
+        eq(userCouponsTable.mode, mode),
+        isNull(userCouponsTable.endedAt)
+      )
+    )
+    .returning(userCouponColumns);
+  return ended ?? null;
+}
+
+/**
+ * Attaches a coupon to a user in one mode, replacing the coupon they had.
+ * Expired coupons and coupons without redemptions left cannot be attached.
+ */
+export async function attachCoupon(
+  userId: string,
+  mode: "test" | "production",
+  code: string
+): Promise<AttachCouponResult> {
+  const db = getPostgresDB();
+
+  return executeInTransaction(
+    db,
+    `attaching coupon to user '${userId}'`,
+    async (txn) => {
+      try {
+        const [coupon] = await txn
+          .select({
+            ...couponColumns,
+            redeemable: sql<boolean>`${redeemable(DateTime.utc().toISO())}`,
+          })
+          .from(couponsTable)
+          .where(
+            and(eq(couponsTable.code, code), isNull(couponsTable.deletedAt))
+          )
+          .limit(1);
+        if (!coupon) {
+          return { status: "coupon_not_found" };
+        }
+        if (!coupon.redeemable) {
+          return { status: "unavailable" };
+        }
+
+        await ensureUserExists(userId, txn);
+        await txn
+          .select({ id: usersTable.id })
+          .from(usersTable)
+          .where(eq(usersTable.id, userId))
+          .for("update");
+
+        await endActiveUserCoupon(txn, userId, mode);
+        const [userCoupon] = await txn
+          .insert(userCouponsTable)
+          .values({
+            userId,
+            couponId: coupon.id,
+            mode,
+            checkoutsRemaining: couponCheckouts(coupon),
+          })
+          .returning(userCouponColumns);
+        if (!userCoupon) {
+          throw StorageError.emptyResult("User coupon insert returned no row");
+        }
+        return { status: "attached", userCoupon };
+      } catch (e) {
+        if (e instanceof StorageError) {
+          throw e;
+        }
+        throw StorageError.queryFailed(
+          `Failed to attach coupon '${code}' to user '${userId}'`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
+    }
+  );
+}
+
+/**
+ * @returns The detached coupon, or null if the user had none
+ */
+export async function detachCoupon(
+  userId: string,
+  mode: "test" | "production"
+): Promise<UserCoupon | null> {
+  const db = getPostgresDB();
+
+  return executeInTransaction(
+    db,
+    `detaching coupon of user '${userId}'`,
+    async (txn) => {
+      try {
+        return await endActiveUserCoupon(txn, userId, mode);
+      } catch (e) {
+        throw StorageError.queryFailed(
+          `Failed to detach the coupon of user '${userId}'`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
+    }
+  );
+}
+
+/**
+ * Uses up one checkout of a user coupon. The first use redeems the coupon,
+ * which fails once it has expired or run out of redemptions. The user
+ * coupon is locked first, so checkouts racing for it redeem it once.
+ *
+ * @returns Whether this use redeemed the coupon, or null if the coupon can
+ *   no longer be used
+ */
+export async function useUserCoupon(
+  userCoupon: ActiveUserCoupon,
+  txn: PgTransaction<any, any, any>
+): Promise<{ redeemed: boolean } | null> {
+  const now = DateTime.utc().toISO();
+
+  try {
+    const [current] = await txn
+      .select({ redeemedAt: userCouponsTable.redeemedAt })
+      .from(userCouponsTable)
+      .where(
+        and(
+          eq(userCouponsTable.id, userCoupon.id),
+          isNull(userCouponsTable.endedAt),
+          gt(userCouponsTable.checkoutsRemaining, 0)
+        )
+      )
+      .for("update");
+    if (!current) {
+      return null;
+    }
+
+    const redeemed = current.redeemedAt === null;
+    if (redeemed) {
+      const [coupon] = await txn
+        .update(couponsTable)
+        .set({ redemptions: sql`${couponsTable.redemptions} + 1` })
+        .where(and(eq(couponsTable.id, userCoupon.couponId), redeemable(now)))
+        .returning({ id: couponsTable.id });
+      if (!coupon) {
+        return null;
+      }
+    }
+
+    await txn
+      .update(userCouponsTable)
+      .set({
+        checkoutsRemaining: sql`${userCouponsTable.checkoutsRemaining} - 1`,
+        redeemedAt: current.redeemedAt ?? now,
+      })
+      .where(eq(userCouponsTable.id, userCoupon.id));
+    return { redeemed };
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to use coupon '${userCoupon.couponId}' of user '${userCoupon.userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Gives back a use of a user coupon taken for a checkout that was never
+ * recorded. If that use redeemed the coupon, the redemption is undone too.
+ */
+export async function releaseUserCoupon(
+  userCoupon: ActiveUserCoupon,
+  redeemed: boolean,
+  txn: PgTransaction<any, any, any>
+): Promise<void> {
+  try {
+    await txn
+      .update(userCouponsTable)
+      .set({
+        checkoutsRemaining: sql`${userCouponsTable.checkoutsRemaining} + 1`,
+        ...(redeemed ? { redeemedAt: null } : {}),
+      })
+      .where(eq(userCouponsTable.id, userCoupon.id));
+
+    if (redeemed) {
+      await txn
+        .update(couponsTable)
+        .set({ redemptions: sql`${couponsTable.redemptions} - 1` })
+        .where(
+          and(
+            eq(couponsTable.id, userCoupon.couponId),
+            gt(couponsTable.redemptions, 0)
+          )
+        );
+    }
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to release coupon '${userCoupon.couponId}' of user '${userCoupon.userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Gives back the checkout a failed session used of its user coupon, unless
+ * the coupon has been detached since. The redemption itself stands.
+ */
+export async function releaseSessionCoupon(
+  proxyId: string,
+  txn: PgTransaction<any, any, any>
+): Promise<void> {
+  try {
+    const [session] = await txn
+      .select({ userCouponId: sessionsTable.userCouponId })
+      .from(sessionsTable)
+      .where(eq(sessionsTable.proxy_link_id, proxyId))
+      .limit(1);
+    if (!session?.userCouponId) {
+      return;
+    }
+
+    await txn
+      .update(userCouponsTable)
+      .set({
+        checkoutsRemaining: sql`${userCouponsTable.checkoutsRemaining} + 1`,
+      })
+      .where(
+        and(
+          eq(userCouponsTable.id, session.userCouponId),
+          isNull(userCouponsTable.endedAt)
+        )
+      );
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to release the coupon of session '${proxyId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
@@ -0,0 +1,327 @@
+import { getPostgresDB } from "../db";
+import { usersTable } from "../schema";
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  ilike,
+  isNotNull,
+  isNull,
+  ne,
+  or,
+  sql,
+} from "drizzle-orm";
+import type { PgTransaction } from "drizzle-orm/pg-core";
+import { StorageError } from "../../../../errors/storage";
+import { DateTime } from "luxon";
+import { executeInTransaction } from "../../../adapter/postgres/handlers/addEventUtils";
+import type { UserId } from "../../../../config/identifiers";
+
+/**
+ * A user with their customer profile. Users known only from their events
+ * are customers without a profile.
+ */
+export interface Customer {
+  id: UserId;
+  email: string | null;
+  name: string | null;
+  externalReference: string | null;
+  metadata: Record<string, string> | null;
+  // The mode the customer is synced to the payment provider in
+  mode: "test" | "production";
+  paymentProviderCustomerId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CustomerProfile {
+  email: string | null;
+  name: string | null;
+  externalReference: string | null;
+  metadata: Record<string, string> | null;
+}
+
+export interface NewCustomer extends CustomerProfile {
+  id: UserId;
+  mode: "test" | "production";
+}
+
+export type CreateCustomerResult =
+  | { status: "created"; customer: Customer }
+  | { status: "exists" }
+  | { status: "reference_taken" };
+
+export type UpdateCustomerResult =
+  | { status: "updated"; customer: Customer }
+  | { status: "not_found" }
+  | { status: "reference_taken" };
+
+const customerColumns = {
+  id: usersTable.id,
+  email: usersTable.email,
+  name: usersTable.name,
+  externalReference: usersTable.externalReference,
+  metadata: usersTable.metadata,
+  mode: usersTable.mode,
+  paymentProviderCustomerId: usersTable.payment_provider_user_id,
+  createdAt: usersTable.createdAt,
+  updatedAt: usersTable.updatedAt,
+};
+
+async function referenceTaken(
+  txn: PgTransaction<any, any, any>,
+  externalReference: string,
+  id: UserId
+): Promise<boolean> {
+  const [taken] = await txn
+    .select({ id: usersTable.id })
+    .from(usersTable)
+    .where(
+      and(
+        eq(usersTable.externalReference, externalReference),
+        ne(usersTable.id, id),
+        isNull(usersTable.deletedAt)
+      )
+    )
+    .limit(1);
+  return taken !== undefined;
+}
+
+// A reference claimed by a write still in flight is only caught by the
+// unique index once that write commits
+function isReferenceConflict(e: unknown): boolean {
+  return e instanceof StorageError && e.type === "CONSTRAINT_VIOLATION";
+}
+
+export async function listCustomers(
+  limit: number,
+  offset: number
+): Promise<Customer[]> {
+  const db = getPostgresDB();
+
+  try {
+    return await db
+      .select(customerColumns)
+      .from(usersTable)
+      .where(isNull(usersTable.deletedAt))
+      .orderBy(desc(usersTable.createdAt), asc(usersTable.id))
+      .limit(limit)
+      .offset(offset);
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to list customers",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Finds customers whose id, email, name or external reference contains
+ * `query`, ignoring case.
+ */
+export async function searchCustomers(
+  query: string,
+  limit: number
+): Promise<Customer[]> {
+  const db = getPostgresDB();
+  const pattern = `%${query.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+
+  try {
+    return await db
+      .select(customerColumns)
+      .from(usersTable)
+      .where(
+        and(
+          isNull(usersTable.deletedAt),
+          or(
+            ilike(sql`${usersTable.id}::text`, pattern),
+            ilike(usersTable.email, pattern),
+            ilike(usersTable.name, pattern),
+            ilike(usersTable.externalReference, pattern)
+          )
+        )
+      )
+      .orderBy(asc(usersTable.email), asc(usersTable.id))
+      .limit(limit);
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to search customers for '${query}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+export async function findCustomer(id: UserId): Promise<Customer | null> {
+  const db = getPostgresDB();
+
+  try {
+    const [customer] = await db
+      .select(customerColumns)
+      .from(usersTable)
+      .where(and(eq(usersTable.id, id), isNull(usersTable.deletedAt)))
+      .limit(1);
+    return customer ?? null;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up customer '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Registers a customer. A deleted customer can be registered again under
+ * the same id; their usage history is kept.
+ */
+export async function createCustomer(
+  customer: NewCustomer
+): Promise<CreateCustomerResult> {
+  const db = getPostgresDB();
+
+  try {
+    return await executeInTransaction(
+      db,
+      `creating customer '${customer.id}'`,
+      async (txn) => {
+        try {
+          if (
+            customer.externalReference !== null &&
+            (await referenceTaken(txn, customer.externalReference, customer.id))
+          ) {
+            return { status: "reference_taken" };
+          }
+
+          const now = DateTime.utc().toISO();
+          const [created] = await txn
+            .insert(usersTable)
+            .values(customer)
+            .onConflictDoUpdate({
+              target: usersTable.id,
+              set: {
+                email: customer.email,
+                name: customer.name,
+                externalReference: customer.externalReference,
+                metadata: customer.metadata,
+                mode: customer.mode,
+                createdAt: now,
+                updatedAt: now,
+                deletedAt: null,
+              },
+              setWhere: isNotNull(usersTable.deletedAt),
+            })
+            .returning(customerColumns);
+
+          return created
+            ? { status: "created", customer: created }
+            : { status: "exists" };
+        } catch (e) {
+          throw StorageError.insertFailed(
+            `Failed to create customer '${customer.id}'`,
+            e instanceof Error ? e : new Error(String(e))
+          );
+        }
+      }
+    );
+  } catch (e) {
+    if (isReferenceConflict(e)) {
+      return { status: "reference_taken" };
+    }
+    throw e;
+  }
+}
+
+/**
+ * Changes a customer's profile, including users known only from their
+ * events. Fields left undefined are kept.
+ */
+export async function updateCustomer(
+  id: UserId,
+  changes: Partial<CustomerProfile>
+): Promise<UpdateCustomerResult> {
+  const db = getPostgresDB();
+
+  try {
+    return await executeInTransaction(
+      db,
+      `updating customer '${id}'`,
+      async (txn) => {
+        try {
+          if (
+            changes.externalReference &&
+            (await referenceTaken(txn, changes.externalReference, id))
+          ) {
+            return { status: "reference_taken" };
+          }
+
+          const [customer] = await txn
+            .update(usersTable)
+            .set({ ...changes, updatedAt: DateTime.utc().toISO() })
+            .where(and(eq(usersTable.id, id), isNull(usersTable.deletedAt)))
+            .returning(customerColumns);
+
+          return customer
+            ? { status: "updated", customer }
+            : { status: "not_found" };
+        } catch (e) {
+          throw StorageError.queryFailed(
+            `Failed to update customer '${id}'`,
+            e instanceof Error ? e : new Error(String(e))
+          );
+        }
+      }
+    );
+  } catch (e) {
+    if (isReferenceConflict(e)) {
+      return { status: "reference_taken" };
+    }
+    throw e;
+  }
+}
+
+/**
+ * Deletes a customer's profile. The user and their usage history stay, as
+ * billing still needs them.
+ */
+export async function deleteCustomer(id: UserId): Promise<boolean> {
+  const db = getPostgresDB();
+
+  try {
+    const deleted = await db
+      .update(usersTable)
+      .set({
+        email: null,
+        name: null,
+        externalReference: null,
+        metadata: null,
+        deletedAt: DateTime.utc().toISO(),
+      })
+      .where(and(eq(usersTable.id, id), isNull(usersTable.deletedAt)))
+      .returning({ id: usersTable.id });
+    return deleted.length > 0;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to delete customer '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+export async function setPaymentProviderCustomerId(
+  id: UserId,
+  providerCustomerId: string
+): Promise<void> {
+  const db = getPostgresDB();
+
+  try {
+    await db
+      .update(usersTable)
+      .set({ payment_provider_user_id: providerCustomerId })
+      .where(eq(usersTable.id, id));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to record the provider customer of '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
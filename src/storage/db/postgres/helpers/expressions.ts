@@ -1,17 +1,51 @@
 import { getPostgresDB } from "../db";
 import { expressionsTable } from "../schema";
-import { eq, and, isNull } from "drizzle-orm";
+import { eq, and, isNull, or, gt, lte, inArray, asc } from "drizzle-orm";
 import { StorageError } from "../../../../errors/storage";
 import { DateTime } from "luxon";
+import type { PgTransaction } from "drizzle-orm/pg-core";
+import { expressionCache } from "../../../../utils/expressionCache";
+import { executeInTransaction } from "../../../adapter/postgres/handlers/addEventUtils";
+import {
+  planRename,
+  planRetirement,
+  planScheduledVersion,
+  toEffectiveRange,
+  type EffectiveRange,
+  type VersionRow,
+} from "../../../../utils/effectiveVersion";
+
+export interface ExpressionVersion extends EffectiveRange {
+  version: number;
+  expr: string;
+}
+
+export interface ExpressionHistoryEntry {
+  version: number;
+  expr: string;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  cancelledAt: string | null;
+}
 
 export async function listExpressions(): Promise<string[]> {
   const db = getPostgresDB();
+  const now = DateTime.utc().toISO();
 
   try {
     const rows = await db
       .select({ key: expressionsTable.key })
       .from(expressionsTable)
-      .where(isNull(expressionsTable.deletedAt));
+      .where(
+        and(
+          isNull(expressionsTable.deletedAt),
+          lte(expressionsTable.effectiveFrom, now),
+          or(
+            isNull(expressionsTable.effectiveTo),
+            gt(expressionsTable.effectiveTo, now)
+          )
+        )
+      );
     return rows.map((row) => row.key);
   } catch (e) {
     throw StorageError.queryFailed(
@@ -21,76 +55,340 @@ export async function listExpressions(): Promise<string[]> {
   }
 }
 
-export async function findExpressionByKey(key: string): Promise<string | null> {
+/**
+ * Returns the versions of every expression that are in force now or
+ * scheduled to take effect later.
+ */
+export async function listLiveExpressionVersions(): Promise<
+  { key: string; version: number; expr: string }[]
+> {
   const db = getPostgresDB();
+  const now = DateTime.utc().toISO();
 
   try {
-    const [record] = await db
-      .select({ expr: expressionsTable.expr })
+    return await db
+      .select({
+        key: expressionsTable.key,
+        version: expressionsTable.version,
+        expr: expressionsTable.expr,
+      })
       .from(expressionsTable)
       .where(
-        and(eq(expressionsTable.key, key), isNull(expressionsTable.deletedAt))
+        and(
+          isNull(expressionsTable.deletedAt),
+          or(
+            isNull(expressionsTable.effectiveTo),
+            gt(expressionsTable.effectiveTo, now)
+          )
+        )
       )
-      .limit(1);
-
-    return record?.expr ?? null;
+      .orderBy(asc(expressionsTable.key), asc(expressionsTable.version));
   } catch (e) {
     throw StorageError.queryFailed(
-      `Failed to look up expression '${key}'`,
+      "Failed to list live expression versions",
       e instanceof Error ? e : new Error(String(e))
     );
   }
 }
 
-export async function createExpression(
-  key: string,
-  expr: string
-): Promise<void> {
+/**
+ * Returns every version of an expression that is, was or will be in
+ * force, ordered by effectiveFrom.
+ */
+export async function findExpressionVersions(
+  key: string
+): Promise<ExpressionVersion[]> {
   const db = getPostgresDB();
 
   try {
-    const existing = await db
-      .select({ id: expressionsTable.id })
+    const rows = await db
+      .select({
+        version: expressionsTable.version,
+        expr: expressionsTable.expr,
+        effectiveFrom: expressionsTable.effectiveFrom,
+        effectiveTo: expressionsTable.effectiveTo,
+      })
       .from(expressionsTable)
       .where(
         and(eq(expressionsTable.key, key), isNull(expressionsTable.deletedAt))
       )
-      .limit(1);
-
-    if (existing[0]) {
-      await db
-        .update(expressionsTable)
-        .set({ expr })
-        .where(eq(expressionsTable.id, existing[0].id));
-      return;
-    }
+      .orderBy(asc(expressionsTable.effectiveFrom));
 
-    await db.insert(expressionsTable).values({ key, expr });
+    return rows.map((row) => ({
+      version: row.version,
+      expr: row.expr,
+      ...toEffectiveRange(row),
+    }));
   } catch (e) {
-    throw StorageError.insertFailed(
-      `Failed to upsert expression '${key}'`,
+    throw StorageError.queryFailed(
+      `Failed to look up versions of expression '${key}'`,
       e instanceof Error ? e : new Error(String(e))
     );
   }
 }
 
-export async function deleteExpression(key: string): Promise<boolean> {
+/**
+ * Returns the full history of an expression, including versions that
+ * were replaced or cancelled before taking effect.
+ */
+export async function listExpressionHistory(
+  key: string
+): Promise<ExpressionHistoryEntry[]> {
   const db = getPostgresDB();
 
   try {
-    const now = DateTime.utc().toISO();
-    const result = await db
-      .update(expressionsTable)
-      .set({ deletedAt: now })
-      .where(
-        and(eq(expressionsTable.key, key), isNull(expressionsTable.deletedAt))
-      );
-
-    return (result.count ?? 0) > 0;
+    return await db
+      .select({
+        version: expressionsTable.version,
+        expr: expressionsTable.expr,
+        effectiveFrom: expressionsTable.effectiveFrom,
+        effectiveTo: expressionsTable.effectiveTo,
+        cancelledAt: expressionsTable.deletedAt,
+      })
+      .from(expressionsTable)
+      .where(eq(expressionsTable.key, key))
+      .orderBy(asc(expressionsTable.version));
   } catch (e) {
     throw StorageError.queryFailed(
-      `Failed to soft-delete expression '${key}'`,
+      `Failed to list history of expression '${key}'`,
       e instanceof Error ? e : new Error(String(e))
     );
   }
 }
+
+/**
+ * Adds a new version of an expression taking effect at `effectiveFrom`
+ * (now by default). The version in force at that instant is closed, and
+ * the new version runs until the next already-scheduled version, if any.
+ *
+ * @returns The new version number
+ */
+export async function createExpression(
+  key: string,
+  expr: string,
+  effectiveFrom: DateTime = DateTime.utc()
+): Promise<number> {
+  const db = getPostgresDB();
+
+  const version = await executeInTransaction(
+    db,
+    `scheduling expression '${key}'`,
+    async (txn) => {
+      try {
+        const rows = await txn
+          .select({
+            id: expressionsTable.id,
+            version: expressionsTable.version,
+            effectiveFrom: expressionsTable.effectiveFrom,
+            effectiveTo: expressionsTable.effectiveTo,
+            deletedAt: expressionsTable.deletedAt,
+          })
+          .from(expressionsTable)
+          .where(eq(expressionsTable.key, key))
+          .for("update");
+
+        const active: VersionRow[] = rows
+          .filter((row) => row.deletedAt === null)
+          .map((row) => ({
+            id: row.id,
+            version: row.version,
+            ...toEffectiveRange(row),
+          }));
+        const latestVersion = Math.max(0, ...rows.map((row) => row.version));
+        const plan = planScheduledVersion(active, latestVersion, effectiveFrom);
+
+        if (plan.supersede.length > 0) {
+          await txn
+            .update(expressionsTable)
+            .set({ deletedAt: DateTime.utc().toISO() })
+            .where(inArray(expressionsTable.id, plan.supersede));
+        }
+
+        if (plan.close) {
+          await txn
+            .update(expressionsTable)
+            .set({ effectiveTo: plan.close.effectiveTo.toISO() })
+            .where(eq(expressionsTable.id, plan.close.id));
+        }
+
+        await txn.insert(expressionsTable).values({
+          key,
+          expr,
+          version: plan.version,
+          effectiveFrom: plan.effectiveFrom.toISO() as string,
+          effectiveTo: plan.effectiveTo?.toISO() ?? null,
+        });
+
+        return plan.version;
+      } catch (e) {
+        throw StorageError.insertFailed(
+          `Failed to schedule expression '${key}'`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
+    }
+  );
+
+  expressionCache.delete(key);
+  return version;
+}
+
+/**
+ * Retires a expression at `now` within an open transaction.
+ *
+ * @returns Whether the expression had a current or scheduled version
+ */
+async function retireExpression(
+  txn: PgTransaction<any, any, any>,
+  key: string,
+  now: DateTime
+): Promise<boolean> {
+  const rows = await txn
+    .select({
+      id: expressionsTable.id,
+      version: expressionsTable.version,
+      effectiveFrom: expressionsTable.effectiveFrom,
+      effectiveTo: expressionsTable.effectiveTo,
+    })
+    .from(expressionsTable)
+    .where(
+      and(eq(expressionsTable.key, key), isNull(expressionsTable.deletedAt))
+    )
+    .for("update");
+
+  const plan = planRetirement(
+    rows.map((row) => ({
+      id: row.id,
+      version: row.version,
+      ...toEffectiveRange(row),
+    })),
+    now
+  );
+
+  if (plan.close) {
+    await txn
+      .update(expressionsTable)
+      .set({ effectiveTo: plan.close.effectiveTo.toISO() })
+      .where(eq(expressionsTable.id, plan.close.id));
+  }
+
+  if (plan.cancel.length > 0) {
+    await txn
+      .update(expressionsTable)
+      .set({ deletedAt: now.toISO() })
+      .where(inArray(expressionsTable.id, plan.cancel));
+  }
+
+  return plan.close !== null || plan.cancel.length > 0;
+}
+
+/**
+ * Retires an expression now. The version in force stays in history so
+ * events reported before now still price against it; scheduled versions
+ * are cancelled.
+ */
+export async function deleteExpression(key: string): Promise<boolean> {
+  const db = getPostgresDB();
+
+  const deleted = await executeInTransaction(
+    db,
+    `retiring expression '${key}'`,
+    async (txn) => {
+      try {
+        return await retireExpression(txn, key, DateTime.utc());
+      } catch (e) {
+        throw StorageError.queryFailed(
+          `Failed to retire expression '${key}'`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
+    }
+  );
+
+  if (deleted) {
+    expressionCache.delete(key);
+  }
+  return deleted;
+}
+
+/**
+ * Renames a expression now. Its current and scheduled versions move to `to`,
+ * while history before now stays under the old key so earlier events
+ * still price against it. Price book overrides keep their own keys.
+ *
+ * @returns "not_found" if the expression has no current or scheduled version,
+ *   "exists" if `to` already has one
+ */
+export async function renameExpression(
+  from: string,
+  to: string
+): Promise<"renamed" | "not_found" | "exists"> {
+  const db = getPostgresDB();
+
+  const result = await executeInTransaction(
+    db,
+    `renaming expression '${from}' to '${to}'`,
+    async (txn) => {
+      try {
+        const rows = await txn
+          .select({
+            id: expressionsTable.id,
+            key: expressionsTable.key,
+            version: expressionsTable.version,
+            expr: expressionsTable.expr,
+            effectiveFrom: expressionsTable.effectiveFrom,
+            effectiveTo: expressionsTable.effectiveTo,
+            deletedAt: expressionsTable.deletedAt,
+          })
+          .from(expressionsTable)
+          .where(inArray(expressionsTable.key, [from, to]))
+          .for("update");
+
+        const now = DateTime.utc();
+        const live = (key: string) =>
+          rows
+            .filter((row) => row.key === key && row.deletedAt === null)
+            .map((row) => ({ ...row, ...toEffectiveRange(row) }))
+            .filter((row) => row.effectiveTo === null || row.effectiveTo > now);
+
+        const source = live(from);
+        if (source.length === 0) {
+          return "not_found" as const;
+        }
+        if (live(to).length > 0) {
+          return "exists" as const;
+        }
+
+        const latestTargetVersion = Math.max(
+          0,
+          ...rows.filter((row) => row.key === to).map((row) => row.version)
+        );
+        const plan = planRename(source, latestTargetVersion, now);
+
+        await retireExpression(txn, from, now);
+        await txn.insert(expressionsTable).values(
+          plan.copy.map((copy) => ({
+            key: to,
+            expr: copy.source.expr,
+            version: copy.version,
+            effectiveFrom: copy.effectiveFrom.toISO() as string,
+            effectiveTo: copy.effectiveTo?.toISO() ?? null,
+          }))
+        );
+
+        return "renamed" as const;
+      } catch (e) {
+        throw StorageError.queryFailed(
+          `Failed to rename expression '${from}' to '${to}'`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
+    }
+  );
+
+  if (result === "renamed") {
+    expressionCache.delete(from);
+    expressionCache.delete(to);
+  }
+  return result;
+}
@@ -0,0 +1,275 @@
+import { getPostgresDB } from "../db";
+import {
+  invoicesTable,
+  invoiceLineItemsTable,
+  invoiceFeeItemsTable,
+} from "../schema";
+import { and, asc, desc, eq, type SQL } from "drizzle-orm";
+import { StorageError } from "../../../../errors/storage";
+import { DateTime } from "luxon";
+import type { PgTransaction } from "drizzle-orm/pg-core";
+import type { UserId } from "../../../../config/identifiers";
+import type { InvoiceLineTotal } from "../../../../interface/storage/Storage";
+import { toDebitAmount } from "../../../../utils/debitAmount";
+import type { SubscriptionFeeLine } from "../../../../services/subscriptionService";
+
+export type InvoiceStatus = "open" | "paid" | "void";
+
+export interface Invoice {
+  id: string;
+  userId: string;
+  apiKeyId: string;
+  mode: "test" | "production";
+  proxyId: string;
+  paymentEventId: string | null;
+  status: InvoiceStatus;
+  periodStart: string;
+  periodEnd: string;
+  subtotal: number;
+  total: number;
+  discount: number;
+  currency: string;
+  createdAt: string;
+  paidAt: string | null;
+}
+
+export interface InvoiceLineItem extends InvoiceLineTotal {
+  id: string;
+}
+
+export interface InvoiceFeeItem extends SubscriptionFeeLine {
+  id: string;
+}
+
+export interface InvoiceWithLineItems extends Invoice {
+  lineItems: InvoiceLineItem[];
+  feeItems: InvoiceFeeItem[];
+}
+
+export interface NewInvoice {
+  userId: UserId;
+  apiKeyId: string;
+  mode: "test" | "production";
+  proxyId: string;
+  periodStart: string;
+  periodEnd: string;
+  total: number;
+  discount: number;
+  currency: string;
+  lineItems: InvoiceLineTotal[];
+  feeItems: SubscriptionFeeLine[];
+}
+
+export interface InvoiceFilter {
+  userId?: string;
+  mode?: "test" | "production";
+  status?: InvoiceStatus;
+}
+
+const invoiceColumns = {
+  id: invoicesTable.id,
+  userId: invoicesTable.userId,
+  apiKeyId: invoicesTable.apiKeyId,
+  mode: invoicesTable.mode,
+  proxyId: invoicesTable.proxyId,
+  paymentEventId: invoicesTable.paymentEventId,
+  status: invoicesTable.status,
+  periodStart: invoicesTable.periodStart,
+  periodEnd: invoicesTable.periodEnd,
+  subtotal: invoicesTable.subtotal,
+  total: invoicesTable.total,
+  discount: invoicesTable.discount,
+  currency: invoicesTable.currency,
+  createdAt: invoicesTable.createdAt,
+  paidAt: invoicesTable.paidAt,
+};
+
+const lineItemColumns = {
+  id: invoiceLineItemsTable.id,
+  eventKind: invoiceLineItemsTable.eventKind,
+  basicUsageType: invoiceLineItemsTable.basicUsageType,
+  model: invoiceLineItemsTable.model,
+  component: invoiceLineItemsTable.component,
+  tag: invoiceLineItemsTable.tag,
+  quantity: invoiceLineItemsTable.quantity,
+  amount: invoiceLineItemsTable.amount,
+  adjustment: invoiceLineItemsTable.adjustment,
+};
+
+const feeItemColumns = {
+  id: invoiceFeeItemsTable.id,
+  planId: invoiceFeeItemsTable.planId,
+  planName: invoiceFeeItemsTable.planName,
+  intervals: invoiceFeeItemsTable.intervals,
+  amount: invoiceFeeItemsTable.amount,
+};
+
+/**
+ * Records the invoice of a usage checkout with its line and fee items.
+ */
+export async function createInvoice(
+  invoice: NewInvoice,
+  txn: PgTransaction<any, any, any>
+): Promise<{ id: string }> {
+  const { lineItems, feeItems, ...fields } = invoice;
+  const subtotal = toDebitAmount(
+    [...lineItems, ...feeItems].reduce((sum, line) => sum + line.amount, 0)
+  );
+
+  try {
+    const [created] = await txn
+      .insert(invoicesTable)
+      .values({ ...fields, subtotal })
+      .returning({ id: invoicesTable.id });
+
+    if (!created) {
+      throw StorageError.emptyResult("Invoice insert returned no ID");
+    }
+
+    if (lineItems.length > 0) {
+      await txn
+        .insert(invoiceLineItemsTable)
+        .values(lineItems.map((line) => ({ ...line, invoiceId: created.id })));
+    }
+
+    if (feeItems.length > 0) {
+      await txn
+        .insert(invoiceFeeItemsTable)
+        .values(feeItems.map((fee) => ({ ...fee, invoiceId: created.id })));
+    }
+
+    return created;
+  } catch (e) {
+    if (e instanceof StorageError) {
+      throw e;
+    }
+    throw StorageError.insertFailed(
+      `Failed to create invoice for user '${invoice.userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+export async function listInvoices(
+  filter: InvoiceFilter,
+  limit: number,
+  offset: number
+): Promise<Invoice[]> {
+  const db = getPostgresDB();
+
+  const conditions: SQL[] = [];
+  if (filter.userId) {
+    conditions.push(eq(invoicesTable.userId, filter.userId));
+  }
+  if (filter.mode) {
+    conditions.push(eq(invoicesTable.mode, filter.mode));
+  }
+  if (filter.status) {
+    conditions.push(eq(invoicesTable.status, filter.status));
+  }
+
+  try {
+    return await db
+      .select(invoiceColumns)
+      .from(invoicesTable)
+      .where(and(...conditions))
+      .orderBy(desc(invoicesTable.createdAt))
+      .limit(limit)
+      .offset(offset);
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to list invoices",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+export async function findInvoice(
+  id: string
+): Promise<InvoiceWithLineItems | null> {
+  const db = getPostgresDB();
+
+  try {
+    const [invoice] = await db
+      .select(invoiceColumns)
+      .from(invoicesTable)
+      .where(eq(invoicesTable.id, id))
+      .limit(1);
+
+    if (!invoice) {
+      return null;
+    }
+
+    const [lineItems, feeItems] = await Promise.all([
+      db
+        .select(lineItemColumns)
+        .from(invoiceLineItemsTable)
+        .where(eq(invoiceLineItemsTable.invoiceId, id))
+        .orderBy(
+          asc(invoiceLineItemsTable.eventKind),
+          asc(invoiceLineItemsTable.basicUsageType),
+          asc(invoiceLineItemsTable.model),
+          asc(invoiceLineItemsTable.component),
+          asc(invoiceLineItemsTable.tag)
+        ),
+      db
+        .select(feeItemColumns)
+        .from(invoiceFeeItemsTable)
+        .where(eq(invoiceFeeItemsTable.invoiceId, id))
+        .orderBy(asc(invoiceFeeItemsTable.planName)),
+    ]);
+
+    return { ...invoice, lineItems, feeItems };
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up invoice '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Marks the invoice of a paid checkout session as paid by a payment.
+ */
+export async function markInvoicePaid(
+  proxyId: string,
+  paymentEventId: string,
+  txn: PgTransaction<any, any, any>
+): Promise<void> {
+  try {
+    await txn
+      .update(invoicesTable)
+      .set({
+        status: "paid",
+        paymentEventId,
+        paidAt: DateTime.utc().toISO(),
+      })
+      .where(eq(invoicesTable.proxyId, proxyId));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to mark invoice of session '${proxyId}' paid`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Voids the invoice of a checkout session whose payment failed; the usage
+ * it listed stays unbilled for the next checkout.
+ */
+export async function voidInvoice(
+  proxyId: string,
+  txn: PgTransaction<any, any, any>
+): Promise<void> {
+  try {
+    await txn
+      .update(invoicesTable)
+      .set({ status: "void" })
+      .where(eq(invoicesTable.proxyId, proxyId));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to void invoice of session '${proxyId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { getPostgresDB } from "../db";
+import { lateEventsTable, usersTable } from "../schema";
+import { and, desc, eq, sql, type SQL } from "drizzle-orm";
+import { StorageError } from "../../../../errors/storage";
+import type { LateEventPolicy, UserId } from "../../../../config/identifiers";
+import type { EventKind } from "../../../../interface/event/Event";
+
+export interface NewLateEvent {
+  eventId: string;
+  idempotencyKey: string;
+  userId: UserId;
+  apiKeyId: string;
+  mode: "test" | "production";
+  eventKind: EventKind;
+  policy: LateEventPolicy;
+  reportedTimestamp: string;
+  periodStart: string;
+  debitAmount: number;
+}
+
+export interface LateEvent extends NewLateEvent {
+  id: string;
+  ingestedTimestamp: string;
+  // Whether a checkout has settled the event; rejected events never are
+  billed: boolean;
+}
+
+export interface LateEventFilter {
+  userId?: string;
+  mode?: "test" | "production";
+  policy?: LateEventPolicy;
+}
+
+/**
+ * Records an event reported within an already billed period. A retried
+ * event is only recorded once.
+ */
+export async function recordLateEvent(event: NewLateEvent): Promise<void> {
+  const db = getPostgresDB();
+
+  try {
+    await db.insert(lateEventsTable).values(event).onConflictDoNothing();
+  } catch (e) {
+    throw StorageError.insertFailed(
+      `Failed to record late event '${event.idempotencyKey}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+export async function listLateEvents(
+  filter: LateEventFilter,
+  limit: number,
+  offset: number
+): Promise<LateEvent[]> {
+  const db = getPostgresDB();
+
+  const conditions: SQL[] = [];
+  if (filter.userId) {
+    conditions.push(eq(lateEventsTable.userId, filter.userId));
+  }
+  if (filter.mode) {
+    conditions.push(eq(lateEventsTable.mode, filter.mode));
+  }
+  if (filter.policy) {
+    conditions.push(eq(lateEventsTable.policy, filter.policy));
+  }
+
+  try {
+    return await db
+      .select({
+        id: lateEventsTable.id,
+        eventId: lateEventsTable.eventId,
+        idempotencyKey: lateEventsTable.idempotencyKey,
+        userId: lateEventsTable.userId,
+        apiKeyId: lateEventsTable.apiKeyId,
+        mode: lateEventsTable.mode,
+        eventKind: lateEventsTable.eventKind,
+        policy: lateEventsTable.policy,
+        reportedTimestamp: lateEventsTable.reportedTimestamp,
+        ingestedTimestamp: lateEventsTable.ingestedTimestamp,
+        periodStart: lateEventsTable.periodStart,
+        debitAmount: lateEventsTable.debitAmount,
+        billed: sql<boolean>`(${lateEventsTable.policy} <> 'reject' AND ${lateEventsTable.ingestedTimestamp} < ${usersTable.last_billed_timestamp})`,
+      })
+      .from(lateEventsTable)
+      .innerJoin(usersTable, eq(lateEventsTable.userId, usersTable.id))
+      .where(and(...conditions))
+      .orderBy(desc(lateEventsTable.ingestedTimestamp))
+      .limit(limit)
+      .offset(offset);
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to list late events",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
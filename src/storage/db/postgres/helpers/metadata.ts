@@ -1,10 +1,13 @@
 import { getPostgresDB } from "../db";
 import { metadataTable } from "../schema";
 import { StorageError } from "../../../../errors/storage";
-import { eq } from "drizzle-orm";
+import { eq, isNull, lt } from "drizzle-orm";
+import type { DateTime } from "luxon";
 import { executeInTransaction } from "../../../adapter/postgres/handlers/addEventUtils";
+import type { PaymentProviderName } from "../../../../interface/payment/PaymentProvider";
 
 export type UpsertMetadataInput = {
+  payment_provider?: PaymentProviderName;
   dodo_live_api_key?: string;
   dodo_test_api_key?: string;
   dodo_live_product_id?: string;
@@ -15,6 +18,12 @@ export type UpsertMetadataInput = {
   redirect_url?: string;
 };
 
+export type InvoiceTemplateInput = {
+  invoice_logo_url?: string | null;
+  invoice_business_address?: string | null;
+  invoice_footer?: string | null;
+};
+
 export async function upsertMetadata(
   input: UpsertMetadataInput
 ): Promise<void> {
@@ -29,6 +38,8 @@ export async function upsertMetadata(
         .for("update");
 
       const setValues: Partial<typeof metadataTable.$inferInsert> = {};
+      if (input.payment_provider !== undefined)
+        setValues.payment_provider = input.payment_provider;
       if (input.dodo_live_api_key !== undefined)
         setValues.dodo_live_api_key = input.dodo_live_api_key;
       if (input.dodo_test_api_key !== undefined)
@@ -68,6 +79,31 @@ export async function upsertMetadata(
   });
 }
 
+/**
+ * Updates the invoice document template. The template lives on the
+ * onboarding record, so it can only be set once onboarding is done.
+ *
+ * @returns Whether an onboarding record existed to update
+ */
+export async function updateInvoiceTemplate(
+  input: InvoiceTemplateInput
+): Promise<boolean> {
+  const db = getPostgresDB();
+
+  try {
+    const updated = await db
+      .update(metadataTable)
+      .set(input)
+      .returning({ id: metadataTable.id });
+    return updated.length > 0;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to update invoice template",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
 export async function getMetadata(): Promise<
   typeof metadataTable.$inferSelect | undefined
 > {
@@ -75,3 +111,37 @@ export async function getMetadata(): Promise<
   const [metadata] = await db.select().from(metadataTable).limit(1);
   return metadata;
 }
+
+/**
+ * Claims the scheduled billing run due since `dueSince`, recording `now` as
+ * last_run_at. The conditional update lets exactly one server replica win a
+ * run. The first call only starts the clock, so enabling the scheduler
+ * never closes a period early.
+ *
+ * @returns Whether this caller claimed the run
+ */
+export async function claimBillingRun(
+  dueSince: DateTime,
+  now: DateTime
+): Promise<boolean> {
+  const db = getPostgresDB();
+
+  try {
+    await db
+      .update(metadataTable)
+      .set({ last_run_at: now.toISO() })
+      .where(isNull(metadataTable.last_run_at));
+
+    const claimed = await db
+      .update(metadataTable)
+      .set({ last_run_at: now.toISO() })
+      .where(lt(metadataTable.last_run_at, dueSince.toISO()!))
+      .returning({ id: metadataTable.id });
+    return claimed.length > 0;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to claim billing run",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
@@ -1,15 +1,50 @@
 import { getPostgresDB } from "../db";
-import { paymentEventsTable } from "../schema";
+import { invoicesTable, paymentEventsTable, sessionsTable } from "../schema";
 import { StorageError } from "../../../../errors/storage";
 import { DateTime } from "luxon";
+import { and, eq, isNull, or, sql } from "drizzle-orm";
 import type { PgTransaction } from "drizzle-orm/pg-core";
 
+export type PaymentReversalKind = "refund" | "dispute";
+
+export interface ProviderPayment {
+  id: string;
+  userId: string;
+  apiKeyId: string;
+  mode: "test" | "production";
+  creditAmount: number;
+  proxyId: string;
+  checkoutSessionId: string;
+  sessionKind: "usage" | "top_up";
+  billedUpto: string;
+  // Start of the invoiced period, for usage payments with an invoice
+  periodStart: string | null;
+}
+
+export type PaymentDisputeStatus = "open" | "won" | "lost";
+
+export interface PaymentRefundInput {
+  payment: ProviderPayment;
+  refundId: string;
+  // Positive cents taken back
+  amount: number;
+}
+
+export interface PaymentDisputeInput {
+  payment: ProviderPayment;
+  disputeId: string;
+  status: PaymentDisputeStatus;
+  // Positive cents taken back once the dispute is lost
+  amount: number;
+}
+
 export async function handleAddPayment(
   userId: string,
   creditAmount: number,
   apiKeyId: string,
   mode: "test" | "production",
   proxyId: string,
+  providerPaymentId: string | null,
   txn?: PgTransaction<any, any, any>
 ): Promise<{ id: string }> {
   if (
@@ -36,6 +71,7 @@ export async function handleAddPayment(
         mode,
         creditAmount,
         proxyId,
+        providerReference: providerPaymentId,
       })
       .returning({ id: paymentEventsTable.id });
 
@@ -60,3 +96,331 @@ export async function handleAddPayment(
     );
   }
 }
+
+/**
+ * Finds a recorded payment by the provider's payment id, together with the
+ * checkout session and period it paid for.
+ */
+export async function findPaymentByProviderId(
+  providerPaymentId: string
+): Promise<ProviderPayment | undefined> {
+  const db = getPostgresDB();
+
+  try {
+    const [payment] = await db
+      .select({
+        id: paymentEventsTable.id,
+        userId: paymentEventsTable.userId,
+        apiKeyId: paymentEventsTable.apiKeyId,
+        mode: paymentEventsTable.mode,
+        creditAmount: paymentEventsTable.creditAmount,
+        proxyId: paymentEventsTable.proxyId,
+        checkoutSessionId: sessionsTable.sessionId,
+        sessionKind: sessionsTable.kind,
+        billedUpto: sessionsTable.billed_upto,
+        periodStart: invoicesTable.periodStart,
+      })
+      .from(paymentEventsTable)
+      .innerJoin(
+        sessionsTable,
+        eq(sessionsTable.proxy_link_id, paymentEventsTable.proxyId)
+      )
+      .leftJoin(
+        invoicesTable,
+        eq(invoicesTable.proxyId, paymentEventsTable.proxyId)
+      )
+      .where(
+        and(
+          eq(paymentEventsTable.kind, "payment"),
+          eq(paymentEventsTable.providerReference, providerPaymentId)
+        )
+      )
+      .limit(1);
+
+    return payment;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to find payment '${providerPaymentId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+function reversalOf(payment: ProviderPayment) {
+  return {
+    reportedTimestamp: DateTime.utc().toISO()!,
+    userId: payment.userId,
+    apiKeyId: payment.apiKeyId,
+    mode: payment.mode,
+    proxyId: payment.proxyId,
+    reversedPaymentId: payment.id,
+  };
+}
+
+function assertReversalAmount(amount: number): void {
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw StorageError.invalidData(
+      `Invalid reversal amount: must be a positive finite number, got ${String(amount)}`
+    );
+  }
+}
+
+async function lockPayment(
+  payment: ProviderPayment,
+  txn: PgTransaction<any, any, any>
+): Promise<void> {
+  await txn
+    .select({ id: paymentEventsTable.id })
+    .from(paymentEventsTable)
+    .where(eq(paymentEventsTable.id, payment.id))
+    .for("update");
+}
+
+/**
+ * Locks a payment against concurrent reversals and returns the cents that
+ * can still be taken back: the payment less its recorded refunds and lost
+ * disputes.
+ *
+ * @param countPending Whether refunds requested but not yet confirmed by
+ *   the provider also count as taken back
+ */
+export async function lockReversibleAmount(
+  payment: ProviderPayment,
+  txn: PgTransaction<any, any, any>,
+  countPending: boolean = false
+): Promise<number> {
+  try {
+    await lockPayment(payment, txn);
+
+    const [reversed] = await txn
+      .select({
+        amount: sql<string>`COALESCE(SUM(-${paymentEventsTable.creditAmount}), 0)`,
+      })
+      .from(paymentEventsTable)
+      .where(
+        and(
+          eq(paymentEventsTable.reversedPaymentId, payment.id),
+          countPending
+            ? undefined
+            : or(
+                isNull(paymentEventsTable.refundStatus),
+                eq(paymentEventsTable.refundStatus, "succeeded")
+              )
+        )
+      );
+
+    return Math.max(payment.creditAmount - Number(reversed?.amount ?? 0), 0);
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to sum the reversals of payment '${payment.id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Holds `amount` cents of a payment for a refund about to be requested from
+ * the provider, so concurrent requests cannot refund the same money twice.
+ * Call under the lock of `lockReversibleAmount`.
+ *
+ * @returns The id of the pending refund
+ */
+export async function reservePaymentRefund(
+  payment: ProviderPayment,
+  amount: number,
+  txn: PgTransaction<any, any, any>
+): Promise<string> {
+  assertReversalAmount(amount);
+
+  try {
+    const [reserved] = await txn
+      .insert(paymentEventsTable)
+      .values({
+        ...reversalOf(payment),
+        kind: "refund",
+        creditAmount: -amount,
+        refundStatus: "pending",
+      })
+      .returning({ id: paymentEventsTable.id });
+
+    if (!reserved) {
+      throw StorageError.emptyResult("Pending refund insert returned no ID");
+    }
+    return reserved.id;
+  } catch (e) {
+    if (e instanceof StorageError) throw e;
+    throw StorageError.insertFailed(
+      `Failed to hold a refund of payment '${payment.id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Links a pending refund to the provider's refund id, so its webhook
+ * confirms it. If the webhook already recorded the refund, the pending
+ * refund is dropped instead.
+ */
+export async function attachRefundId(
+  payment: ProviderPayment,
+  pendingRefundId: string,
+  refundId: string
+): Promise<void> {
+  const db = getPostgresDB();
+
+  try {
+    await db.transaction(async (txn) => {
+      // Serializes with the refund webhook, which locks the payment too
+      await lockPayment(payment, txn);
+
+      const [recorded] = await txn
+        .select({ id: paymentEventsTable.id })
+        .from(paymentEventsTable)
+        .where(
+          and(
+            eq(paymentEventsTable.kind, "refund"),
+            eq(paymentEventsTable.providerReference, refundId)
+          )
+        )
+        .limit(1);
+
+      if (recorded) {
+        await txn
+          .delete(paymentEventsTable)
+          .where(eq(paymentEventsTable.id, pendingRefundId));
+        return;
+      }
+      await txn
+        .update(paymentEventsTable)
+        .set({ providerReference: refundId })
+        .where(eq(paymentEventsTable.id, pendingRefundId));
+    });
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to link refund '${refundId}' of payment '${payment.id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Drops a pending refund the provider refused, freeing its amount.
+ */
+export async function releasePaymentRefund(
+  pendingRefundId: string
+): Promise<void> {
+  const db = getPostgresDB();
+
+  try {
+    await db
+      .delete(paymentEventsTable)
+      .where(
+        and(
+          eq(paymentEventsTable.id, pendingRefundId),
+          eq(paymentEventsTable.refundStatus, "pending")
+        )
+      );
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to release pending refund '${pendingRefundId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Records a refund as a negative payment event linked to the payment it
+ * reverses, confirming the pending refund of the same id if there is one.
+ * Each refund id is recorded once, so retried webhooks take the amount
+ * back only once.
+ *
+ * @returns Whether the refund was recorded
+ */
+export async function recordPaymentRefund(
+  refund: PaymentRefundInput,
+  txn?: PgTransaction<any, any, any>
+): Promise<boolean> {
+  assertReversalAmount(refund.amount);
+
+  const db = txn ?? getPostgresDB();
+  const { payment } = refund;
+
+  try {
+    const inserted = await db
+      .insert(paymentEventsTable)
+      .values({
+        ...reversalOf(payment),
+        kind: "refund",
+        creditAmount: -refund.amount,
+        providerReference: refund.refundId,
+        refundStatus: "succeeded",
+      })
+      .onConflictDoUpdate({
+        target: [paymentEventsTable.kind, paymentEventsTable.providerReference],
+        targetWhere: sql`${paymentEventsTable.providerReference} IS NOT NULL`,
+        set: { creditAmount: -refund.amount, refundStatus: "succeeded" },
+        setWhere: eq(paymentEventsTable.refundStatus, "pending"),
+      })
+      .returning({ id: paymentEventsTable.id });
+    return inserted.length > 0;
+  } catch (e) {
+    throw StorageError.insertFailed(
+      `Failed to record refund of payment '${payment.id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Records a dispute against the payment it reverses. An open or won
+ * dispute holds no money; a lost one takes `amount` back. A dispute is
+ * opened once and closed once, so retried or late webhooks change nothing.
+ *
+ * @returns Whether the dispute was recorded or closed
+ */
+export async function recordPaymentDispute(
+  dispute: PaymentDisputeInput,
+  txn?: PgTransaction<any, any, any>
+): Promise<boolean> {
+  const amount = dispute.status === "lost" ? dispute.amount : 0;
+  assertReversalAmount(amount);
+
+  const db = txn ?? getPostgresDB();
+  const { payment } = dispute;
+  const values = {
+    creditAmount: -amount,
+    disputeStatus: dispute.status,
+    disputeClosedAt: dispute.status === "open" ? null : DateTime.utc().toISO()!,
+  };
+
+  try {
+    const insert = db.insert(paymentEventsTable).values({
+      ...reversalOf(payment),
+      kind: "dispute",
+      providerReference: dispute.disputeId,
+      ...values,
+    });
+    const target = {
+      target: [paymentEventsTable.kind, paymentEventsTable.providerReference],
+    };
+    const recorded = await (
+      dispute.status === "open"
+        ? insert.onConflictDoNothing({
+            ...target,
+            where: sql`${paymentEventsTable.providerReference} IS NOT NULL`,
+          })
+        : insert.onConflictDoUpdate({
+            ...target,
+            targetWhere: sql`${paymentEventsTable.providerReference} IS NOT NULL`,
+            set: values,
+            setWhere: eq(paymentEventsTable.disputeStatus, "open"),
+          })
+    ).returning({ id: paymentEventsTable.id });
+    return recorded.length > 0;
+  } catch (e) {
+    throw StorageError.insertFailed(
+      `Failed to record dispute '${dispute.disputeId}' of payment '${payment.id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
@@ -0,0 +1,464 @@
+import { getPostgresDB } from "../db";
+import { planAssignmentsTable, plansTable, usersTable } from "../schema";
+import { and, asc, eq, gt, isNotNull, isNull, ne, or } from "drizzle-orm";
+import type { PgTransaction } from "drizzle-orm/pg-core";
+import { StorageError } from "../../../../errors/storage";
+import { DateTime } from "luxon";
+import { executeInTransaction } from "../../../adapter/postgres/handlers/addEventUtils";
+import { ensureUserExists } from "./users";
+
+export type PlanInterval = "day" | "week" | "month" | "year";
+
+export interface Plan {
+  id: string;
+  name: string;
+  amount: number;
+  interval: PlanInterval;
+  intervalCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NewPlan {
+  name: string;
+  amount: number;
+  interval: PlanInterval;
+  intervalCount: number;
+}
+
+export interface PlanAssignment {
+  id: string;
+  userId: string;
+  planId: string;
+  mode: "test" | "production";
+  startedAt: string;
+  endedAt: string | null;
+}
+
+/**
+ * An assignment with the plan it charges for, as priced at checkout.
+ */
+export interface BillablePlanAssignment extends PlanAssignment {
+  planName: string;
+  amount: number;
+  interval: PlanInterval;
+  intervalCount: number;
+}
+
+/**
+ * An assignment of a user on prepaid billing, whose fees are drawn from
+ * credit.
+ */
+export interface PrepaidPlanAssignment extends BillablePlanAssignment {
+  prepaidSince: string;
+}
+
+export type UpdatePlanResult =
+  | { status: "updated"; plan: Plan }
+  | { status: "not_found" }
+  | { status: "exists" };
+
+export type AssignPlanResult =
+  | { status: "assigned"; assignment: PlanAssignment }
+  | { status: "plan_not_found" };
+
+const planColumns = {
+  id: plansTable.id,
+  name: plansTable.name,
+  amount: plansTable.amount,
+  interval: plansTable.interval,
+  intervalCount: plansTable.intervalCount,
+  createdAt: plansTable.createdAt,
+  updatedAt: plansTable.updatedAt,
+};
+
+const assignmentColumns = {
+  id: planAssignmentsTable.id,
+  userId: planAssignmentsTable.userId,
+  planId: planAssignmentsTable.planId,
+  mode: planAssignmentsTable.mode,
+  startedAt: planAssignmentsTable.startedAt,
+  endedAt: planAssignmentsTable.endedAt,
+};
+
+export async function listPlans(): Promise<Plan[]> {
+  const db = getPostgresDB();
+
+  try {
+    return await db
+      .select(planColumns)
+      .from(plansTable)
+      .where(isNull(plansTable.deletedAt))
+      .orderBy(asc(plansTable.name));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to list plans",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+export async function findPlan(id: string): Promise<Plan | null> {
+  const db = getPostgresDB();
+
+  try {
+    const [plan] = await db
+      .select(planColumns)
+      .from(plansTable)
+      .where(and(eq(plansTable.id, id), isNull(plansTable.deletedAt)))
+      .limit(1);
+    return plan ?? null;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up plan '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * @returns The new plan, or null if the name is already taken
+ */
+export async function createPlan(plan: NewPlan): Promise<Plan | null> {
+  const db = getPostgresDB();
+
+  try {
+    const [created] = await db
+      .insert(plansTable)
+      .values(plan)
+      .onConflictDoNothing({
+        target: plansTable.name,
+        where: isNull(plansTable.deletedAt),
+      })
+      .returning(planColumns);
+
+    return created ?? null;
+  } catch (e) {
+    throw StorageError.insertFailed(
+      `Failed to create plan '${plan.name}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Renames a plan or changes its fee. A new fee applies to every interval
+ * not yet billed, including those already elapsed this period.
+ */
+export async function updatePlan(
+  id: string,
+  changes: { name?: string; amount?: number }
+): Promise<UpdatePlanResult> {
+  const db = getPostgresDB();
+
+  return executeInTransaction(db, `updating plan '${id}'`, async (txn) => {
+    try {
+      if (changes.name !== undefined) {
+        const [taken] = await txn
+          .select({ id: plansTable.id })
+          .from(plansTable)
+          .where(
+            and(
+              eq(plansTable.name, changes.name),
+              ne(plansTable.id, id),
+              isNull(plansTable.deletedAt)
+            )
+          )
+          .limit(1);
+        if (taken) {
+          return { status: "exists" };
+        }
+      }
+
+      const [plan] = await txn
+        .update(plansTable)
+        .set({ ...changes, updatedAt: DateTime.utc().toISO() })
+        .where(and(eq(plansTable.id, id), isNull(plansTable.deletedAt)))
+        .returning(planColumns);
+
+      return plan ? { status: "updated", plan } : { status: "not_found" };
+    } catch (e) {
+      throw StorageError.queryFailed(
+        `Failed to update plan '${id}'`,
+        e instanceof Error ? e : new Error(String(e))
+      );
+    }
+  });
+}
+
+/**
+ * Deletes a plan. Users on it leave the plan now, and are charged for the
+ * started interval pro rata at their next checkout.
+ */
+export async function deletePlan(id: string): Promise<boolean> {
+  const db = getPostgresDB();
+
+  return executeInTransaction(db, `deleting plan '${id}'`, async (txn) => {
+    try {
+      const now = DateTime.utc().toISO();
+      const [plan] = await txn
+        .update(plansTable)
+        .set({ deletedAt: now })
+        .where(and(eq(plansTable.id, id), isNull(plansTable.deletedAt)))
+        .returning({ id: plansTable.id });
+
+      if (!plan) {
+        return false;
+      }
+
+      await txn
+        .update(planAssignmentsTable)
+        .set({ endedAt: now })
+        .where(
+          and(
+            eq(planAssignmentsTable.planId, id),
+            isNull(planAssignmentsTable.endedAt)
+          )
+        );
+      return true;
+    } catch (e) {
+      throw StorageError.queryFailed(
+        `Failed to delete plan '${id}'`,
+        e instanceof Error ? e : new Error(String(e))
+      );
+    }
+  });
+}
+
+/**
+ * @returns The plan a user is on in one mode, or null if they have none
+ */
+export async function findActivePlanAssignment(
+  userId: string,
+  mode: "test" | "production"
+): Promise<PlanAssignment | null> {
+  const db = getPostgresDB();
+
+  try {
+    const [assignment] = await db
+      .select(assignmentColumns)
+      .from(planAssignmentsTable)
+      .where(
+        and(
+          eq(planAssignmentsTable.userId, userId),
+          eq(planAssignmentsTable.mode, mode),
+          isNull(planAssignmentsTable.endedAt)
+        )
+      )
+      .limit(1);
+    return assignment ?? null;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up the plan of user '${userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+async function endActiveAssignment(
+  txn: PgTransaction<any, any, any>,
+  userId: string,
+  mode: "test" | "production",
+  endedAt: string
+): Promise<PlanAssignment | null> {
+  const [ended] = await txn
+    .update(planAssignmentsTable)
+    .set({ endedAt })
+    .where(
+      and(
+        eq(planAssignmentsTable.userId, userId),
+        eq(planAssignmentsTable.mode, mode),
+        isNull(planAssignmentsTable.endedAt)
+      )
+    )
+    .returning(assignmentColumns);
+  return ended ?? null;
+}
+
+/**
+ * Moves a user onto a plan in one mode. A plan they are already on is kept
+ * as is; otherwise the current plan ends now and the new plan starts now,
+ * both prorated for the interval they share.
+ */
+export async function assignPlan(
+  userId: string,
+  mode: "test" | "production",
+  planId: string
+): Promise<AssignPlanResult> {
+  const db = getPostgresDB();
+
+  return executeInTransaction(
+    db,
+    `assigning plan to user '${userId}'`,
+    async (txn) => {
+      try {
+        const [plan] = await txn
+          .select({ id: plansTable.id })
+          .from(plansTable)
+          .where(and(eq(plansTable.id, planId), isNull(plansTable.deletedAt)))
+          .limit(1);
+        if (!plan) {
+          return { status: "plan_not_found" };
+        }
+
+        await ensureUserExists(userId, txn);
+        await txn
+          .select({ id: usersTable.id })
+          .from(usersTable)
+          .where(eq(usersTable.id, userId))
+          .for("update");
+
+        const [current] = await txn
+          .select(assignmentColumns)
+          .from(planAssignmentsTable)
+          .where(
+            and(
+              eq(planAssignmentsTable.userId, userId),
+              eq(planAssignmentsTable.mode, mode),
+              isNull(planAssignmentsTable.endedAt)
+            )
+          )
+          .limit(1);
+        if (current?.planId === planId) {
+          return { status: "assigned", assignment: current };
+        }
+
+        const now = DateTime.utc().toISO();
+        await endActiveAssignment(txn, userId, mode, now);
+        const [assignment] = await txn
+          .insert(planAssignmentsTable)
+          .values({ userId, planId, mode, startedAt: now })
+          .returning(assignmentColumns);
+        if (!assignment) {
+          throw StorageError.emptyResult(
+            "Plan assignment insert returned no row"
+          );
+        }
+        return { status: "assigned", assignment };
+      } catch (e) {
+        if (e instanceof StorageError) {
+          throw e;
+        }
+        throw StorageError.queryFailed(
+          `Failed to assign plan '${planId}' to user '${userId}'`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
+    }
+  );
+}
+
+/**
+ * Takes a user off their plan in one mode. The started interval is charged
+ * pro rata at their next checkout.
+ *
+ * @returns The ended assignment, or null if the user had no plan
+ */
+export async function endPlanAssignment(
+  userId: string,
+  mode: "test" | "production"
+): Promise<PlanAssignment | null> {
+  const db = getPostgresDB();
+
+  return executeInTransaction(
+    db,
+    `ending plan of user '${userId}'`,
+    async (txn) => {
+      try {
+        return await endActiveAssignment(
+          txn,
+          userId,
+          mode,
+          DateTime.utc().toISO()
+        );
+      } catch (e) {
+        throw StorageError.queryFailed(
+          `Failed to end the plan of user '${userId}'`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
+    }
+  );
+}
+
+/**
+ * Returns the assignments of a user in one mode that were still running
+ * at `periodStart`, with their plans' fees.
+ */
+export async function findBillablePlanAssignments(
+  userId: string,
+  mode: "test" | "production",
+  periodStart: string
+): Promise<BillablePlanAssignment[]> {
+  const db = getPostgresDB();
+
+  try {
+    return await db
+      .select({
+        ...assignmentColumns,
+        planName: plansTable.name,
+        amount: plansTable.amount,
+        interval: plansTable.interval,
+        intervalCount: plansTable.intervalCount,
+      })
+      .from(planAssignmentsTable)
+      .innerJoin(plansTable, eq(planAssignmentsTable.planId, plansTable.id))
+      .where(
+        and(
+          eq(planAssignmentsTable.userId, userId),
+          eq(planAssignmentsTable.mode, mode),
+          or(
+            isNull(planAssignmentsTable.endedAt),
+            gt(planAssignmentsTable.endedAt, periodStart)
+          )
+        )
+      )
+      .orderBy(asc(planAssignmentsTable.startedAt));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up plan assignments of user '${userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Returns the assignments of prepaid users that were still active when
+ * their user went prepaid.
+ */
+export async function listPrepaidPlanAssignments(): Promise<
+  PrepaidPlanAssignment[]
+> {
+  const db = getPostgresDB();
+
+  try {
+    const rows = await db
+      .select({
+        ...assignmentColumns,
+        planName: plansTable.name,
+        amount: plansTable.amount,
+        interval: plansTable.interval,
+        intervalCount: plansTable.intervalCount,
+        prepaidSince: usersTable.prepaidSince,
+      })
+      .from(planAssignmentsTable)
+      .innerJoin(plansTable, eq(planAssignmentsTable.planId, plansTable.id))
+      .innerJoin(usersTable, eq(planAssignmentsTable.userId, usersTable.id))
+      .where(
+        and(
+          isNotNull(usersTable.prepaidSince),
+          or(
+            isNull(planAssignmentsTable.endedAt),
+            gt(planAssignmentsTable.endedAt, usersTable.prepaidSince)
+          )
+        )
+      )
+      .orderBy(asc(planAssignmentsTable.startedAt));
+    return rows.map((row) => ({ ...row, prepaidSince: row.prepaidSince! }));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to look up plan assignments of prepaid users",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
@@ -0,0 +1,467 @@
+import { getPostgresDB } from "../db";
+import {
+  priceBooksTable,
+  priceBookTagsTable,
+  priceBookExpressionsTable,
+  allowancesTable,
+  usersTable,
+} from "../schema";
+import { eq, and, isNull, asc } from "drizzle-orm";
+import { StorageError } from "../../../../errors/storage";
+import { DateTime } from "luxon";
+import { executeInTransaction } from "../../../adapter/postgres/handlers/addEventUtils";
+import { ensureUserExists } from "./users";
+import {
+  priceBookCache,
+  userPriceBookCache,
+} from "../../../../utils/priceBookCache";
+import { allowanceCache } from "../../../../utils/allowanceCache";
+
+export interface PriceBookSummary {
+  id: string;
+  key: string;
+  description: string | null;
+  createdAt: string;
+}
+
+export interface PriceBookExpression {
+  id: string;
+  key: string;
+  expr: string;
+}
+
+export interface PriceBookDetail extends PriceBookSummary {
+  tags: { key: string; amount: number }[];
+  expressions: PriceBookExpression[];
+}
+
+const priceBookColumns = {
+  id: priceBooksTable.id,
+  key: priceBooksTable.key,
+  description: priceBooksTable.description,
+  createdAt: priceBooksTable.createdAt,
+};
+
+export async function listPriceBooks(): Promise<PriceBookSummary[]> {
+  const db = getPostgresDB();
+
+  try {
+    return await db
+      .select(priceBookColumns)
+      .from(priceBooksTable)
+      .where(isNull(priceBooksTable.deletedAt))
+      .orderBy(asc(priceBooksTable.key));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to list price books",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Returns a price book with its active tag and expression overrides.
+ *
+ * @returns The price book, or null if it does not exist
+ */
+export async function findPriceBook(
+  id: string
+): Promise<PriceBookDetail | null> {
+  const db = getPostgresDB();
+
+  try {
+    const [book] = await db
+      .select(priceBookColumns)
+      .from(priceBooksTable)
+      .where(and(eq(priceBooksTable.id, id), isNull(priceBooksTable.deletedAt)))
+      .limit(1);
+
+    if (!book) {
+      return null;
+    }
+
+    const [tags, expressions] = await Promise.all([
+      db
+        .select({
+          key: priceBookTagsTable.key,
+          amount: priceBookTagsTable.amount,
+        })
+        .from(priceBookTagsTable)
+        .where(
+          and(
+            eq(priceBookTagsTable.priceBookId, id),
+            isNull(priceBookTagsTable.deletedAt)
+          )
+        )
+        .orderBy(asc(priceBookTagsTable.key)),
+      db
+        .select({
+          id: priceBookExpressionsTable.id,
+          key: priceBookExpressionsTable.key,
+          expr: priceBookExpressionsTable.expr,
+        })
+        .from(priceBookExpressionsTable)
+        .where(
+          and(
+            eq(priceBookExpressionsTable.priceBookId, id),
+            isNull(priceBookExpressionsTable.deletedAt)
+          )
+        )
+        .orderBy(asc(priceBookExpressionsTable.key)),
+    ]);
+
+    return { ...book, tags, expressions };
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up price book '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Returns the active tag and expression overrides of every price book,
+ * keyed by price book key.
+ */
+export async function listPriceBookOverrides(): Promise<{
+  tags: { priceBook: string; key: string }[];
+  expressions: { priceBook: string; key: string; expr: string }[];
+}> {
+  const db = getPostgresDB();
+
+  try {
+    const [tags, expressions] = await Promise.all([
+      db
+        .select({ priceBook: priceBooksTable.key, key: priceBookTagsTable.key })
+        .from(priceBookTagsTable)
+        .innerJoin(
+          priceBooksTable,
+          eq(priceBookTagsTable.priceBookId, priceBooksTable.id)
+        )
+        .where(
+          and(
+            isNull(priceBookTagsTable.deletedAt),
+            isNull(priceBooksTable.deletedAt)
+          )
+        ),
+      db
+        .select({
+          priceBook: priceBooksTable.key,
+          key: priceBookExpressionsTable.key,
+          expr: priceBookExpressionsTable.expr,
+        })
+        .from(priceBookExpressionsTable)
+        .innerJoin(
+          priceBooksTable,
+          eq(priceBookExpressionsTable.priceBookId, priceBooksTable.id)
+        )
+        .where(
+          and(
+            isNull(priceBookExpressionsTable.deletedAt),
+            isNull(priceBooksTable.deletedAt)
+          )
+        )
+        .orderBy(asc(priceBooksTable.key), asc(priceBookExpressionsTable.key)),
+    ]);
+
+    return { tags, expressions };
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to list price book overrides",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * @returns The new price book, or null if the key is already taken
+ */
+export async function createPriceBook(
+  key: string,
+  description: string | null
+): Promise<PriceBookSummary | null> {
+  const db = getPostgresDB();
+
+  try {
+    const [book] = await db
+      .insert(priceBooksTable)
+      .values({ key, description })
+      .onConflictDoNothing({
+        target: priceBooksTable.key,
+        where: isNull(priceBooksTable.deletedAt),
+      })
+      .returning(priceBookColumns);
+
+    return book ?? null;
+  } catch (e) {
+    throw StorageError.insertFailed(
+      `Failed to create price book '${key}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Deletes a price book with its overrides and allowances. Users assigned to
+ * it go back to default pricing.
+ */
+export async function deletePriceBook(id: string): Promise<boolean> {
+  const db = getPostgresDB();
+
+  const deleted = await executeInTransaction(
+    db,
+    `deleting price book '${id}'`,
+    async (txn) => {
+      try {
+        const now = DateTime.utc().toISO();
+        const [book] = await txn
+          .update(priceBooksTable)
+          .set({ deletedAt: now })
+          .where(
+            and(eq(priceBooksTable.id, id), isNull(priceBooksTable.deletedAt))
+          )
+          .returning({ id: priceBooksTable.id });
+
+        if (!book) {
+          return false;
+        }
+
+        await txn
+          .update(priceBookTagsTable)
+          .set({ deletedAt: now })
+          .where(
+            and(
+              eq(priceBookTagsTable.priceBookId, id),
+              isNull(priceBookTagsTable.deletedAt)
+            )
+          );
+        await txn
+          .update(priceBookExpressionsTable)
+          .set({ deletedAt: now })
+          .where(
+            and(
+              eq(priceBookExpressionsTable.priceBookId, id),
+              isNull(priceBookExpressionsTable.deletedAt)
+            )
+          );
+        await txn
+          .update(usersTable)
+          .set({ priceBookId: null })
+          .where(eq(usersTable.priceBookId, id));
+        await txn
+          .delete(allowancesTable)
+          .where(eq(allowancesTable.priceBookId, id));
+
+        return true;
+      } catch (e) {
+        throw StorageError.queryFailed(
+          `Failed to delete price book '${id}'`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
+    }
+  );
+
+  if (deleted) {
+    priceBookCache.delete(id);
+    userPriceBookCache.clear();
+    allowanceCache.clear();
+  }
+  return deleted;
+}
+
+/**
+ * Sets the amount a price book charges for a tag, replacing any previous
+ * override of the same key.
+ */
+export async function setPriceBookTag(
+  priceBookId: string,
+  key: string,
+  amount: number
+): Promise<void> {
+  const db = getPostgresDB();
+
+  await executeInTransaction(
+    db,
+    `overriding tag '${key}' in price book '${priceBookId}'`,
+    async (txn) => {
+      try {
+        await txn
+          .update(priceBookTagsTable)
+          .set({ deletedAt: DateTime.utc().toISO() })
+          .where(
+            and(
+              eq(priceBookTagsTable.priceBookId, priceBookId),
+              eq(priceBookTagsTable.key, key),
+              isNull(priceBookTagsTable.deletedAt)
+            )
+          );
+        await txn
+          .insert(priceBookTagsTable)
+          .values({ priceBookId, key, amount });
+      } catch (e) {
+        throw StorageError.insertFailed(
+          `Failed to override tag '${key}' in price book '${priceBookId}'`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
+    }
+  );
+
+  priceBookCache.delete(priceBookId);
+}
+
+export async function deletePriceBookTag(
+  priceBookId: string,
+  key: string
+): Promise<boolean> {
+  const db = getPostgresDB();
+
+  try {
+    const deleted = await db
+      .update(priceBookTagsTable)
+      .set({ deletedAt: DateTime.utc().toISO() })
+      .where(
+        and(
+          eq(priceBookTagsTable.priceBookId, priceBookId),
+          eq(priceBookTagsTable.key, key),
+          isNull(priceBookTagsTable.deletedAt)
+        )
+      )
+      .returning({ id: priceBookTagsTable.id });
+
+    priceBookCache.delete(priceBookId);
+    return deleted.length > 0;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to remove tag '${key}' from price book '${priceBookId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Sets the expression a price book uses for expr(key). Each override gets
+ * a new row, so compiled ASTs can be cached by row id.
+ */
+export async function setPriceBookExpression(
+  priceBookId: string,
+  key: string,
+  expr: string
+): Promise<void> {
+  const db = getPostgresDB();
+
+  await executeInTransaction(
+    db,
+    `overriding expression '${key}' in price book '${priceBookId}'`,
+    async (txn) => {
+      try {
+        await txn
+          .update(priceBookExpressionsTable)
+          .set({ deletedAt: DateTime.utc().toISO() })
+          .where(
+            and(
+              eq(priceBookExpressionsTable.priceBookId, priceBookId),
+              eq(priceBookExpressionsTable.key, key),
+              isNull(priceBookExpressionsTable.deletedAt)
+            )
+          );
+        await txn
+          .insert(priceBookExpressionsTable)
+          .values({ priceBookId, key, expr });
+      } catch (e) {
+        throw StorageError.insertFailed(
+          `Failed to override expression '${key}' in price book '${priceBookId}'`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
+    }
+  );
+
+  priceBookCache.delete(priceBookId);
+}
+
+export async function deletePriceBookExpression(
+  priceBookId: string,
+  key: string
+): Promise<boolean> {
+  const db = getPostgresDB();
+
+  try {
+    const deleted = await db
+      .update(priceBookExpressionsTable)
+      .set({ deletedAt: DateTime.utc().toISO() })
+      .where(
+        and(
+          eq(priceBookExpressionsTable.priceBookId, priceBookId),
+          eq(priceBookExpressionsTable.key, key),
+          isNull(priceBookExpressionsTable.deletedAt)
+        )
+      )
+      .returning({ id: priceBookExpressionsTable.id });
+
+    priceBookCache.delete(priceBookId);
+    return deleted.length > 0;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to remove expression '${key}' from price book '${priceBookId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * @returns The id of the price book assigned to a user, or null if the
+ *   user is on default pricing or does not exist yet
+ */
+export async function findUserPriceBookId(
+  userId: string
+): Promise<string | null> {
+  const db = getPostgresDB();
+
+  try {
+    const [user] = await db
+      .select({ priceBookId: usersTable.priceBookId })
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .limit(1);
+    return user?.priceBookId ?? null;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up price book of user '${userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Assigns a price book to a user, creating the user if needed. Pass null
+ * to put the user back on default pricing.
+ */
+export async function assignPriceBook(
+  userId: string,
+  priceBookId: string | null
+): Promise<void> {
+  const db = getPostgresDB();
+
+  await executeInTransaction(
+    db,
+    `assigning price book to user '${userId}'`,
+    async (txn) => {
+      try {
+        await ensureUserExists(userId, txn);
+        await txn
+          .update(usersTable)
+          .set({ priceBookId })
+          .where(eq(usersTable.id, userId));
+      } catch (e) {
+        throw StorageError.queryFailed(
+          `Failed to assign price book to user '${userId}'`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
+    }
+  );
+
+  userPriceBookCache.delete(userId);
+}
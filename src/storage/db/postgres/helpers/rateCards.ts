@@ -0,0 +1,248 @@
+import { getPostgresDB } from "../db";
+import { rateCardsTable } from "../schema";
+import { eq, and, isNull, asc } from "drizzle-orm";
+import type { PgTransaction } from "drizzle-orm/pg-core";
+import { StorageError } from "../../../../errors/storage";
+import { DateTime } from "luxon";
+import { rateCardCache } from "../../../../utils/rateCardCache";
+import { tagCache } from "../../../../utils/tagCache";
+import { executeInTransaction } from "../../../adapter/postgres/handlers/addEventUtils";
+import { createTag } from "./tags";
+
+export interface RateCardRates {
+  inputRate: number;
+  inputCacheRate: number;
+  outputRate: number;
+  outputCacheRate: number;
+}
+
+export interface RateCard extends RateCardRates {
+  id: string;
+  provider: string;
+  model: string;
+}
+
+export interface RateCardRecord extends RateCard {
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type UpsertRateCardInput = RateCardRates & {
+  provider: string;
+  model: string;
+};
+
+const rateCardColumns = {
+  id: rateCardsTable.id,
+  provider: rateCardsTable.provider,
+  model: rateCardsTable.model,
+  inputRate: rateCardsTable.inputRate,
+  inputCacheRate: rateCardsTable.inputCacheRate,
+  outputRate: rateCardsTable.outputRate,
+  outputCacheRate: rateCardsTable.outputCacheRate,
+  createdAt: rateCardsTable.createdAt,
+  updatedAt: rateCardsTable.updatedAt,
+};
+
+export async function listRateCards(
+  txn?: PgTransaction<any, any, any>
+): Promise<RateCardRecord[]> {
+  const db = txn ?? getPostgresDB();
+
+  try {
+    return await db
+      .select(rateCardColumns)
+      .from(rateCardsTable)
+      .where(isNull(rateCardsTable.deletedAt))
+      .orderBy(asc(rateCardsTable.provider), asc(rateCardsTable.model));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to list rate cards",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+export async function findRateCardsByProvider(
+  provider: string
+): Promise<RateCard[]> {
+  const db = getPostgresDB();
+
+  try {
+    return await db
+      .select({
+        id: rateCardsTable.id,
+        provider: rateCardsTable.provider,
+        model: rateCardsTable.model,
+        inputRate: rateCardsTable.inputRate,
+        inputCacheRate: rateCardsTable.inputCacheRate,
+        outputRate: rateCardsTable.outputRate,
+        outputCacheRate: rateCardsTable.outputCacheRate,
+      })
+      .from(rateCardsTable)
+      .where(
+        and(
+          eq(rateCardsTable.provider, provider),
+          isNull(rateCardsTable.deletedAt)
+        )
+      );
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up rate cards for provider '${provider}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Creates the rate card for (provider, model), or replaces its rates if
+ * one already exists.
+ */
+export async function upsertRateCard(
+  input: UpsertRateCardInput,
+  txn?: PgTransaction<any, any, any>
+): Promise<RateCardRecord> {
+  const db = txn ?? getPostgresDB();
+  const rates: RateCardRates = {
+    inputRate: input.inputRate,
+    inputCacheRate: input.inputCacheRate,
+    outputRate: input.outputRate,
+    outputCacheRate: input.outputCacheRate,
+  };
+
+  try {
+    const [existing] = await db
+      .select({ id: rateCardsTable.id })
+      .from(rateCardsTable)
+      .where(
+        and(
+          eq(rateCardsTable.provider, input.provider),
+          eq(rateCardsTable.model, input.model),
+          isNull(rateCardsTable.deletedAt)
+        )
+      )
+      .limit(1);
+
+    let record: RateCardRecord | undefined;
+    if (existing) {
+      [record] = await db
+        .update(rateCardsTable)
+        .set({ ...rates, updatedAt: DateTime.utc().toISO() })
+        .where(eq(rateCardsTable.id, existing.id))
+        .returning(rateCardColumns);
+    } else {
+      [record] = await db
+        .insert(rateCardsTable)
+        .values({ provider: input.provider, model: input.model, ...rates })
+        .returning(rateCardColumns);
+    }
+
+    if (!record) {
+      throw StorageError.emptyResult("rate card");
+    }
+
+    rateCardCache.delete(input.provider);
+    return record;
+  } catch (e) {
+    if (e instanceof StorageError) {
+      throw e;
+    }
+    throw StorageError.insertFailed(
+      `Failed to upsert rate card '${input.provider}/${input.model}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Replaces the rates of a rate card by id.
+ *
+ * @returns The updated rate card, or null if it does not exist
+ */
+export async function updateRateCard(
+  id: string,
+  rates: RateCardRates
+): Promise<RateCardRecord | null> {
+  const db = getPostgresDB();
+
+  try {
+    const [record] = await db
+      .update(rateCardsTable)
+      .set({ ...rates, updatedAt: DateTime.utc().toISO() })
+      .where(and(eq(rateCardsTable.id, id), isNull(rateCardsTable.deletedAt)))
+      .returning(rateCardColumns);
+
+    if (record) {
+      rateCardCache.delete(record.provider);
+    }
+    return record ?? null;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to update rate card '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+export async function deleteRateCard(
+  id: string,
+  txn?: PgTransaction<any, any, any>
+): Promise<boolean> {
+  const db = txn ?? getPostgresDB();
+
+  try {
+    const [record] = await db
+      .update(rateCardsTable)
+      .set({ deletedAt: DateTime.utc().toISO() })
+      .where(and(eq(rateCardsTable.id, id), isNull(rateCardsTable.deletedAt)))
+      .returning({ provider: rateCardsTable.provider });
+
+    if (record) {
+      rateCardCache.delete(record.provider);
+      return true;
+    }
+    return false;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to soft-delete rate card '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Writes a batch of rate cards, and the tags imported along with them, in
+ * one transaction; either everything is written, or nothing is.
+ *
+ * @returns The number of rate cards written
+ */
+export async function applyRateCardImport(
+  writes: UpsertRateCardInput[],
+  tags: { key: string; amount: number }[] = []
+): Promise<number> {
+  const db = getPostgresDB();
+  const now = DateTime.utc();
+
+  const written = await executeInTransaction(
+    db,
+    "importing rate cards",
+    async (txn) => {
+      for (const input of writes) {
+        await upsertRateCard(input, txn);
+      }
+      for (const tag of tags) {
+        await createTag(tag.key, tag.amount, now, txn);
+      }
+      return writes.length;
+    }
+  );
+
+  // Drop anything cached while the transaction was still open
+  for (const provider of new Set(writes.map((input) => input.provider))) {
+    rateCardCache.delete(provider);
+  }
+  for (const tag of tags) {
+    tagCache.delete(tag.key);
+  }
+  return written;
+}
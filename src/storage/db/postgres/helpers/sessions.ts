@@ -48,6 +48,7 @@ export async function checkIfExistingCheckoutLink(
           eq(sessionsTable.userId, userId),
           eq(sessionsTable.processed, "pending"),
           eq(sessionsTable.mode, mode),
+          eq(sessionsTable.kind, "usage"),
           sql`${sessionsTable.createdAt} > ${DateTime.utc().minus({ hours: 24 }).toISO()}`
         )
       )
@@ -74,7 +75,9 @@ export async function handleAddSession(
   apiKeyId: string,
   mode: "test" | "production",
   checkoutUrl: string,
-  txn?: PgTransaction<any, any, any>
+  kind: "usage" | "top_up" = "usage",
+  txn?: PgTransaction<any, any, any>,
+  coupon?: { userCouponId: string; discount: number }
 ): Promise<{ id: string }> {
   const connectionObject = txn ?? getPostgresDB();
 
@@ -97,6 +100,9 @@ export async function handleAddSession(
         apiKeyId: apiKeyId,
         mode: mode,
         checkoutUrl: checkoutUrl,
+        kind: kind,
+        userCouponId: coupon?.userCouponId,
+        discount: coupon?.discount,
       })
       .returning({ proxy_link_id: sessionsTable.proxy_link_id });
 
@@ -175,3 +181,24 @@ export async function getCheckoutUrl(
     );
   }
 }
+
+export async function getSessionStatus(
+  proxyId: string
+): Promise<"pending" | "failed" | "succeeded" | undefined> {
+  const db = getPostgresDB();
+
+  try {
+    const [session] = await db
+      .select({ processed: sessionsTable.processed })
+      .from(sessionsTable)
+      .where(eq(sessionsTable.proxy_link_id, proxyId))
+      .limit(1);
+
+    return session?.processed;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to get session status",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
@@ -0,0 +1,229 @@
+import { getPostgresDB } from "../db";
+import { eventSettlementsTable } from "../schema";
+import { and, asc, eq, isNull, lte, sql } from "drizzle-orm";
+import type { PgTransaction } from "drizzle-orm/pg-core";
+import { DateTime } from "luxon";
+import { StorageError } from "../../../../errors/storage";
+import { executeInTransaction } from "../../../adapter/postgres/handlers/addEventUtils";
+import type { SqlRecord } from "../../../../interface/event/Event";
+import { ensureUserExists } from "./users";
+
+export interface SettlementLimit {
+  id: string;
+  periodStart: string;
+}
+
+export interface NewEventSettlement {
+  record: SqlRecord;
+  apiKeyId: string;
+  mode: "test" | "production";
+  latePeriodStart: string | null;
+  limits: SettlementLimit[];
+  // When the first retry is due, should the attempt made on ingestion fail
+  nextAttemptAt: DateTime;
+}
+
+export interface EventSettlement {
+  id: string;
+  record: SqlRecord;
+  apiKeyId: string;
+  mode: "test" | "production";
+  latePeriodStart: string | null;
+  limits: SettlementLimit[];
+  completedSteps: string[];
+  attempts: number;
+  nextAttemptAt: string | null;
+}
+
+const settlementColumns = {
+  id: eventSettlementsTable.id,
+  record: eventSettlementsTable.record,
+  apiKeyId: eventSettlementsTable.apiKeyId,
+  mode: eventSettlementsTable.mode,
+  latePeriodStart: eventSettlementsTable.latePeriodStart,
+  limits: eventSettlementsTable.limits,
+  completedSteps: eventSettlementsTable.completedSteps,
+  attempts: eventSettlementsTable.attempts,
+  nextAttemptAt: eventSettlementsTable.nextAttemptAt,
+};
+
+type SettlementRow = Pick<
+  typeof eventSettlementsTable.$inferSelect,
+  keyof typeof settlementColumns
+>;
+
+function toSettlement(row: SettlementRow): EventSettlement {
+  return {
+    ...row,
+    record: {
+      ...row.record,
+      reported_timestamp: DateTime.fromISO(row.record.reported_timestamp, {
+        zone: "utc",
+      }),
+    } as SqlRecord,
+  };
+}
+
+/**
+ * Writes the settlement of an event about to be stored. An event whose key
+ * was already settled gets none, so a retried event is settled once.
+ *
+ * @returns The settlement, or null if the event's key already has one
+ */
+export async function createEventSettlement(
+  settlement: NewEventSettlement
+): Promise<EventSettlement | null> {
+  const db = getPostgresDB();
+  const { record } = settlement;
+
+  try {
+    return await db.transaction(async (txn) => {
+      // The event is stored after this, so its user may not exist yet
+      await ensureUserExists(record.userId, txn);
+      const [row] = await txn
+        .insert(eventSettlementsTable)
+        .values({
+          eventKind: record.type,
+          idempotencyKey: record.idempotencyKey,
+          userId: record.userId,
+          apiKeyId: settlement.apiKeyId,
+          mode: settlement.mode,
+          record: {
+            ...record,
+            reported_timestamp: record.reported_timestamp.toISO()!,
+          },
+          latePeriodStart: settlement.latePeriodStart,
+          limits: settlement.limits,
+          nextAttemptAt: settlement.nextAttemptAt.toISO(),
+        })
+        .onConflictDoNothing()
+        .returning(settlementColumns);
+      return row ? toSettlement(row) : null;
+    });
+  } catch (e) {
+    throw StorageError.insertFailed(
+      `Failed to record the settlement of event '${record.idempotencyKey}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Drops the settlement of an event that could not be stored.
+ */
+export async function dropEventSettlement(id: string): Promise<void> {
+  const db = getPostgresDB();
+
+  try {
+    await db
+      .delete(eventSettlementsTable)
+      .where(eq(eventSettlementsTable.id, id));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to drop event settlement '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Marks a settlement step done. Steps that are not idempotent on their own
+ * call this within their own transaction, so the step and its mark commit
+ * together.
+ *
+ * @returns Whether this call marked the step, false if it was already done
+ */
+export async function completeSettlementStep(
+  id: string,
+  step: string,
+  txn?: PgTransaction<any, any, any>
+): Promise<boolean> {
+  const db = txn ?? getPostgresDB();
+
+  try {
+    const updated = await db
+      .update(eventSettlementsTable)
+      .set({
+        completedSteps: sql`array_append(${eventSettlementsTable.completedSteps}, ${step})`,
+      })
+      .where(
+        and(
+          eq(eventSettlementsTable.id, id),
+          sql`NOT (${step} = ANY(${eventSettlementsTable.completedSteps}))`
+        )
+      )
+      .returning({ id: eventSettlementsTable.id });
+    return updated.length > 0;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to complete step '${step}' of event settlement '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+export async function finishEventSettlement(id: string): Promise<void> {
+  const db = getPostgresDB();
+
+  try {
+    await db
+      .update(eventSettlementsTable)
+      .set({ completedAt: DateTime.utc().toISO(), nextAttemptAt: null })
+      .where(eq(eventSettlementsTable.id, id));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to finish event settlement '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Claims up to `limit` unfinished settlements whose retry is due. Each
+ * claim counts an attempt and pushes its next attempt out by
+ * `retryDelay(attempts)`, or ends its retries when that is null, so other
+ * server replicas skip it meanwhile.
+ */
+export async function claimDueSettlements(
+  now: DateTime,
+  limit: number,
+  retryDelay: (attempts: number) => number | null
+): Promise<EventSettlement[]> {
+  const db = getPostgresDB();
+
+  return executeInTransaction(db, "claiming due settlements", async (txn) => {
+    try {
+      const due = await txn
+        .select(settlementColumns)
+        .from(eventSettlementsTable)
+        .where(
+          and(
+            isNull(eventSettlementsTable.completedAt),
+            lte(eventSettlementsTable.nextAttemptAt, now.toISO()!)
+          )
+        )
+        .orderBy(asc(eventSettlementsTable.nextAttemptAt))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+
+      const claimed: EventSettlement[] = [];
+      for (const row of due) {
+        const attempts = row.attempts + 1;
+        const delay = retryDelay(attempts);
+        const nextAttemptAt =
+          delay === null ? null : now.plus({ milliseconds: delay }).toISO();
+        await txn
+          .update(eventSettlementsTable)
+          .set({ attempts, nextAttemptAt })
+          .where(eq(eventSettlementsTable.id, row.id));
+        claimed.push(toSettlement({ ...row, attempts, nextAttemptAt }));
+      }
+      return claimed;
+    } catch (e) {
+      throw StorageError.queryFailed(
+        "Failed to claim due event settlements",
+        e instanceof Error ? e : new Error(String(e))
+      );
+    }
+  });
+}
@@ -0,0 +1,392 @@
+import { getPostgresDB } from "../db";
+import { apiKeysTable, spendingLimitsTable, usersTable } from "../schema";
+import { eq, and, or, asc, inArray, sql, type SQL } from "drizzle-orm";
+import { StorageError } from "../../../../errors/storage";
+import { DateTime } from "luxon";
+import { executeInTransaction } from "../../../adapter/postgres/handlers/addEventUtils";
+import { ensureUserExists } from "./users";
+import { completeSettlementStep } from "./settlements";
+
+export type SpendingLimitEnforcement = "hard" | "soft";
+
+export interface SpendingLimit {
+  id: string;
+  userId: string | null;
+  apiKeyId: string | null;
+  mode: "test" | "production";
+  amount: number;
+  enforcement: SpendingLimitEnforcement;
+  periodStart: string | null;
+  spent: number;
+  reachedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A limit that applies to an incoming event, with the last billed timestamp
+ * of its user when the limit is user-scoped.
+ */
+export interface ApplicableSpendingLimit extends SpendingLimit {
+  lastBilledTimestamp: string | null;
+}
+
+export interface SpendingLimitFilter {
+  userId?: string;
+  apiKeyId?: string;
+  mode?: "test" | "production";
+}
+
+export type CreateSpendingLimitInput = {
+  amount: number;
+  enforcement: SpendingLimitEnforcement;
+} & ({ userId: string; mode: "test" | "production" } | { apiKeyId: string });
+
+export type CreateSpendingLimitResult =
+  | { status: "created"; limit: SpendingLimit }
+  | { status: "exists" }
+  | { status: "invalid_api_key" };
+
+const spendingLimitColumns = {
+  id: spendingLimitsTable.id,
+  userId: spendingLimitsTable.userId,
+  apiKeyId: spendingLimitsTable.apiKeyId,
+  mode: spendingLimitsTable.mode,
+  amount: spendingLimitsTable.amount,
+  enforcement: spendingLimitsTable.enforcement,
+  periodStart: spendingLimitsTable.periodStart,
+  spent: spendingLimitsTable.spent,
+  reachedAt: spendingLimitsTable.reachedAt,
+  createdAt: spendingLimitsTable.createdAt,
+  updatedAt: spendingLimitsTable.updatedAt,
+};
+
+export async function listSpendingLimits(
+  filter: SpendingLimitFilter
+): Promise<SpendingLimit[]> {
+  const db = getPostgresDB();
+
+  const conditions: SQL[] = [];
+  if (filter.userId) {
+    conditions.push(eq(spendingLimitsTable.userId, filter.userId));
+  }
+  if (filter.apiKeyId) {
+    conditions.push(eq(spendingLimitsTable.apiKeyId, filter.apiKeyId));
+  }
+  if (filter.mode) {
+    conditions.push(eq(spendingLimitsTable.mode, filter.mode));
+  }
+
+  try {
+    return await db
+      .select(spendingLimitColumns)
+      .from(spendingLimitsTable)
+      .where(and(...conditions))
+      .orderBy(asc(spendingLimitsTable.createdAt));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to list spending limits",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+export async function findSpendingLimit(
+  id: string
+): Promise<SpendingLimit | null> {
+  const db = getPostgresDB();
+
+  try {
+    const [limit] = await db
+      .select(spendingLimitColumns)
+      .from(spendingLimitsTable)
+      .where(eq(spendingLimitsTable.id, id))
+      .limit(1);
+    return limit ?? null;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up spending limit '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+export async function findSpendingLimitsByIds(
+  ids: string[]
+): Promise<SpendingLimit[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const db = getPostgresDB();
+
+  try {
+    return await db
+      .select(spendingLimitColumns)
+      .from(spendingLimitsTable)
+      .where(inArray(spendingLimitsTable.id, ids));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to look up spending limits",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Creates a limit for a user in one mode, or for everything ingested through
+ * an API key. API key limits take the mode of the key, and only keys that
+ * can ingest events may carry one.
+ */
+export async function createSpendingLimit(
+  input: CreateSpendingLimitInput
+): Promise<CreateSpendingLimitResult> {
+  const db = getPostgresDB();
+  const target =
+    "userId" in input
+      ? `user '${input.userId}'`
+      : `API key '${input.apiKeyId}'`;
+
+  return executeInTransaction(
+    db,
+    `creating spending limit for ${target}`,
+    async (txn) => {
+      try {
+        let values: typeof spendingLimitsTable.$inferInsert;
+        if ("userId" in input) {
+          await ensureUserExists(input.userId, txn);
+          values = {
+            userId: input.userId,
+            mode: input.mode,
+            amount: input.amount,
+            enforcement: input.enforcement,
+          };
+        } else {
+          const [key] = await txn
+            .select({ role: apiKeysTable.role })
+            .from(apiKeysTable)
+            .where(
+              and(
+                eq(apiKeysTable.id, input.apiKeyId),
+                eq(apiKeysTable.revoked, false)
+              )
+            )
+            .limit(1);
+          if (!key || key.role === "dashboard") {
+            return { status: "invalid_api_key" };
+          }
+          values = {
+            apiKeyId: input.apiKeyId,
+            mode: key.role,
+            amount: input.amount,
+            enforcement: input.enforcement,
+          };
+        }
+
+        const [limit] = await txn
+          .insert(spendingLimitsTable)
+          .values(values)
+          .onConflictDoNothing()
+          .returning(spendingLimitColumns);
+
+        return limit ? { status: "created", limit } : { status: "exists" };
+      } catch (e) {
+        throw StorageError.insertFailed(
+          `Failed to create spending limit for ${target}`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
+    }
+  );
+}
+
+/**
+ * Changes a limit's amount or enforcement. Raising the amount above what
+ * was spent clears reachedAt, so the limit can notify again this period.
+ */
+export async function updateSpendingLimit(
+  id: string,
+  changes: { amount?: number; enforcement?: SpendingLimitEnforcement }
+): Promise<SpendingLimit | null> {
+  const db = getPostgresDB();
+
+  const amount = changes.amount ?? spendingLimitsTable.amount;
+
+  try {
+    const [limit] = await db
+      .update(spendingLimitsTable)
+      .set({
+        amount: changes.amount,
+        enforcement: changes.enforcement,
+        reachedAt: sql`CASE WHEN ${spendingLimitsTable.spent} >= ${amount} THEN ${spendingLimitsTable.reachedAt} ELSE NULL END`,
+        updatedAt: DateTime.utc().toISO(),
+      })
+      .where(eq(spendingLimitsTable.id, id))
+      .returning(spendingLimitColumns);
+    return limit ?? null;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to update spending limit '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+export async function deleteSpendingLimit(id: string): Promise<boolean> {
+  const db = getPostgresDB();
+
+  try {
+    const deleted = await db
+      .delete(spendingLimitsTable)
+      .where(eq(spendingLimitsTable.id, id))
+      .returning({ id: spendingLimitsTable.id });
+    return deleted.length > 0;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to delete spending limit '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Returns the limits on a user in one mode and on the API key ingesting
+ * for them, in a single indexed lookup.
+ */
+export async function findApplicableSpendingLimits(
+  userId: string,
+  apiKeyId: string,
+  mode: "test" | "production"
+): Promise<ApplicableSpendingLimit[]> {
+  const db = getPostgresDB();
+
+  try {
+    return await db
+      .select({
+        ...spendingLimitColumns,
+        lastBilledTimestamp: usersTable.last_billed_timestamp,
+      })
+      .from(spendingLimitsTable)
+      .leftJoin(usersTable, eq(spendingLimitsTable.userId, usersTable.id))
+      .where(
+        or(
+          and(
+            eq(spendingLimitsTable.userId, userId),
+            eq(spendingLimitsTable.mode, mode)
+          ),
+          eq(spendingLimitsTable.apiKeyId, apiKeyId)
+        )
+      );
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up spending limits for user '${userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Starts a new period for a limit with `spent` as its running total. Only
+ * the first of several concurrent callers moves the period.
+ *
+ * @returns Whether this call started the period
+ */
+export async function startSpendingPeriod(
+  id: string,
+  periodStart: string,
+  spent: number
+): Promise<boolean> {
+  const db = getPostgresDB();
+
+  try {
+    const updated = await db
+      .update(spendingLimitsTable)
+      .set({ periodStart, spent, reachedAt: null })
+      .where(
+        and(
+          eq(spendingLimitsTable.id, id),
+          sql`${spendingLimitsTable.periodStart} IS DISTINCT FROM ${periodStart}::timestamptz`
+        )
+      )
+      .returning({ id: spendingLimitsTable.id });
+    return updated.length > 0;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to start a spending period for limit '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Adds a debit to a limit's running total for the period starting at
+ * `periodStart`, and marks the limit reached when the total gets there.
+ * The limit row is locked first, so of several concurrent debits only the
+ * one that marked it sees it reached. With `settlementId`, the debit is
+ * added together with marking that settlement's step for this limit, so a
+ * retried settlement adds it once.
+ *
+ * @returns The new total and whether this debit reached the limit, or null
+ *   if the limit is gone, has moved to another period, or the settlement
+ *   already added the debit
+ */
+export async function addSpend(
+  id: string,
+  periodStart: string,
+  debit: number,
+  settlementId?: string
+): Promise<{ spent: number; reached: boolean } | null> {
+  const db = getPostgresDB();
+
+  const current = and(
+    eq(spendingLimitsTable.id, id),
+    sql`${spendingLimitsTable.periodStart} = ${periodStart}::timestamptz`
+  );
+  const total = sql`${spendingLimitsTable.spent} + ${debit}`;
+
+  return executeInTransaction(
+    db,
+    `adding spend to limit '${id}'`,
+    async (txn) => {
+      try {
+        const [limit] = await txn
+          .select({ reachedAt: spendingLimitsTable.reachedAt })
+          .from(spendingLimitsTable)
+          .where(current)
+          .for("update");
+
+        if (!limit) {
+          return null;
+        }
+        if (
+          settlementId &&
+          !(await completeSettlementStep(settlementId, `spend:${id}`, txn))
+        ) {
+          return null;
+        }
+
+        const [row] = await txn
+          .update(spendingLimitsTable)
+          .set({
+            spent: total,
+            reachedAt: sql`CASE WHEN ${spendingLimitsTable.reachedAt} IS NULL AND ${total} >= ${spendingLimitsTable.amount} THEN ${DateTime.utc().toISO()}::timestamptz ELSE ${spendingLimitsTable.reachedAt} END`,
+          })
+          .where(current)
+          .returning({
+            spent: spendingLimitsTable.spent,
+            reachedAt: spendingLimitsTable.reachedAt,
+          });
+
+        return {
+          spent: Number(row!.spent),
+          reached: limit.reachedAt === null && row!.reachedAt !== null,
+        };
+      } catch (e) {
+        throw StorageError.queryFailed(
+          `Failed to add spend to limit '${id}'`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
+    }
+  );
+}
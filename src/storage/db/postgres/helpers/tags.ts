@@ -1,18 +1,48 @@
 import { getPostgresDB } from "../db";
 import { tagsTable } from "../schema";
-import { eq, and, isNull } from "drizzle-orm";
+import { eq, and, isNull, or, gt, lte, inArray, asc } from "drizzle-orm";
 import { StorageError } from "../../../../errors/storage";
 import { DateTime } from "luxon";
+import type { PgTransaction } from "drizzle-orm/pg-core";
 import { tagCache } from "../../../../utils/tagCache";
+import { executeInTransaction } from "../../../adapter/postgres/handlers/addEventUtils";
+import {
+  planRename,
+  planRetirement,
+  planScheduledVersion,
+  toEffectiveRange,
+  type EffectiveRange,
+  type VersionRow,
+} from "../../../../utils/effectiveVersion";
+
+export interface TagVersion extends EffectiveRange {
+  version: number;
+  amount: number;
+}
+
+export interface TagHistoryEntry {
+  version: number;
+  amount: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  cancelledAt: string | null;
+}
 
 export async function listTags(): Promise<{ key: string; amount: number }[]> {
   const db = getPostgresDB();
+  const now = DateTime.utc().toISO();
 
   try {
     const rows = await db
       .select({ key: tagsTable.key, amount: tagsTable.amount })
       .from(tagsTable)
-      .where(isNull(tagsTable.deletedAt));
+      .where(
+        and(
+          isNull(tagsTable.deletedAt),
+          lte(tagsTable.effectiveFrom, now),
+          or(isNull(tagsTable.effectiveTo), gt(tagsTable.effectiveTo, now))
+        )
+      );
     return rows;
   } catch (e) {
     throw StorageError.queryFailed(
@@ -22,54 +52,334 @@ export async function listTags(): Promise<{ key: string; amount: number }[]> {
   }
 }
 
-export async function createTag(key: string, amount: number): Promise<void> {
+/**
+ * Returns the keys of every tag in force now or scheduled to be.
+ */
+export async function listTagKeys(): Promise<string[]> {
+  const db = getPostgresDB();
+  const now = DateTime.utc().toISO();
+
+  try {
+    const rows = await db
+      .selectDistinct({ key: tagsTable.key })
+      .from(tagsTable)
+      .where(
+        and(
+          isNull(tagsTable.deletedAt),
+          or(isNull(tagsTable.effectiveTo), gt(tagsTable.effectiveTo, now))
+        )
+      );
+    return rows.map((row) => row.key);
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to list tag keys",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Returns every version of a tag that is, was or will be in force,
+ * ordered by effectiveFrom.
+ */
+export async function findTagVersions(key: string): Promise<TagVersion[]> {
   const db = getPostgresDB();
 
   try {
-    const existing = await db
-      .select({ id: tagsTable.id })
+    const rows = await db
+      .select({
+        version: tagsTable.version,
+        amount: tagsTable.amount,
+        effectiveFrom: tagsTable.effectiveFrom,
+        effectiveTo: tagsTable.effectiveTo,
+      })
       .from(tagsTable)
       .where(and(eq(tagsTable.key, key), isNull(tagsTable.deletedAt)))
-      .limit(1);
+      .orderBy(asc(tagsTable.effectiveFrom));
+
+    return rows.map((row) => ({
+      version: row.version,
+      amount: row.amount,
+      ...toEffectiveRange(row),
+    }));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up versions of tag '${key}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Returns the full history of a tag, including versions that were
+ * replaced or cancelled before taking effect.
+ */
+export async function listTagHistory(key: string): Promise<TagHistoryEntry[]> {
+  const db = getPostgresDB();
+
+  try {
+    return await db
+      .select({
+        version: tagsTable.version,
+        amount: tagsTable.amount,
+        effectiveFrom: tagsTable.effectiveFrom,
+        effectiveTo: tagsTable.effectiveTo,
+        cancelledAt: tagsTable.deletedAt,
+      })
+      .from(tagsTable)
+      .where(eq(tagsTable.key, key))
+      .orderBy(asc(tagsTable.version));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to list history of tag '${key}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Adds a new version of a tag taking effect at `effectiveFrom` (now by
+ * default). The version in force at that instant is closed, and the new
+ * version runs until the next already-scheduled version, if any.
+ *
+ * @param txn - Schedules within this transaction; the caller then drops
+ *   the tag from the cache once it commits
+ * @returns The new version number
+ */
+export async function createTag(
+  key: string,
+  amount: number,
+  effectiveFrom: DateTime = DateTime.utc(),
+  txn?: PgTransaction<any, any, any>
+): Promise<number> {
+  if (txn) {
+    return scheduleTag(txn, key, amount, effectiveFrom);
+  }
+
+  const version = await executeInTransaction(
+    getPostgresDB(),
+    `scheduling tag '${key}'`,
+    (txn) => scheduleTag(txn, key, amount, effectiveFrom)
+  );
+
+  tagCache.delete(key);
+  return version;
+}
+
+async function scheduleTag(
+  txn: PgTransaction<any, any, any>,
+  key: string,
+  amount: number,
+  effectiveFrom: DateTime
+): Promise<number> {
+  try {
+    const rows = await txn
+      .select({
+        id: tagsTable.id,
+        version: tagsTable.version,
+        effectiveFrom: tagsTable.effectiveFrom,
+        effectiveTo: tagsTable.effectiveTo,
+        deletedAt: tagsTable.deletedAt,
+      })
+      .from(tagsTable)
+      .where(eq(tagsTable.key, key))
+      .for("update");
+
+    const active: VersionRow[] = rows
+      .filter((row) => row.deletedAt === null)
+      .map((row) => ({
+        id: row.id,
+        version: row.version,
+        ...toEffectiveRange(row),
+      }));
+    const latestVersion = Math.max(0, ...rows.map((row) => row.version));
+    const plan = planScheduledVersion(active, latestVersion, effectiveFrom);
 
-    if (existing[0]) {
-      await db
+    if (plan.supersede.length > 0) {
+      await txn
         .update(tagsTable)
-        .set({ amount })
-        .where(eq(tagsTable.id, existing[0].id));
-      tagCache.delete(key);
-      return;
+        .set({ deletedAt: DateTime.utc().toISO() })
+        .where(inArray(tagsTable.id, plan.supersede));
     }
 
-    await db.insert(tagsTable).values({ key, amount });
-    tagCache.delete(key);
+    if (plan.close) {
+      await txn
+        .update(tagsTable)
+        .set({ effectiveTo: plan.close.effectiveTo.toISO() })
+        .where(eq(tagsTable.id, plan.close.id));
+    }
+
+    await txn.insert(tagsTable).values({
+      key,
+      amount,
+      version: plan.version,
+      effectiveFrom: plan.effectiveFrom.toISO() as string,
+      effectiveTo: plan.effectiveTo?.toISO() ?? null,
+    });
+
+    return plan.version;
   } catch (e) {
     throw StorageError.insertFailed(
-      `Failed to upsert tag '${key}'`,
+      `Failed to schedule tag '${key}'`,
       e instanceof Error ? e : new Error(String(e))
     );
   }
 }
 
+/**
+ * Retires a tag at `now` within an open transaction.
+ *
+ * @returns Whether the tag had a current or scheduled version
+ */
+async function retireTag(
+  txn: PgTransaction<any, any, any>,
+  key: string,
+  now: DateTime
+): Promise<boolean> {
+  const rows = await txn
+    .select({
+      id: tagsTable.id,
+      version: tagsTable.version,
+      effectiveFrom: tagsTable.effectiveFrom,
+      effectiveTo: tagsTable.effectiveTo,
+    })
+    .from(tagsTable)
+    .where(and(eq(tagsTable.key, key), isNull(tagsTable.deletedAt)))
+    .for("update");
+
+  const plan = planRetirement(
+    rows.map((row) => ({
+      id: row.id,
+      version: row.version,
+      ...toEffectiveRange(row),
+    })),
+    now
+  );
+
+  if (plan.close) {
+    await txn
+      .update(tagsTable)
+      .set({ effectiveTo: plan.close.effectiveTo.toISO() })
+      .where(eq(tagsTable.id, plan.close.id));
+  }
+
+  if (plan.cancel.length > 0) {
+    await txn
+      .update(tagsTable)
+      .set({ deletedAt: now.toISO() })
+      .where(inArray(tagsTable.id, plan.cancel));
+  }
+
+  return plan.close !== null || plan.cancel.length > 0;
+}
+
+/**
+ * Retires a tag now. The version in force stays in history so events
+ * reported before now still price against it; scheduled versions are
+ * cancelled.
+ */
 export async function deleteTag(key: string): Promise<boolean> {
   const db = getPostgresDB();
 
-  try {
-    const now = DateTime.utc().toISO();
-    const result = await db
-      .update(tagsTable)
-      .set({ deletedAt: now })
-      .where(and(eq(tagsTable.key, key), isNull(tagsTable.deletedAt)));
+  const deleted = await executeInTransaction(
+    db,
+    `retiring tag '${key}'`,
+    async (txn) => {
+      try {
+        return await retireTag(txn, key, DateTime.utc());
+      } catch (e) {
+        throw StorageError.queryFailed(
+          `Failed to retire tag '${key}'`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
+    }
+  );
+
+  if (deleted) {
+    tagCache.delete(key);
+  }
+  return deleted;
+}
+
+/**
+ * Renames a tag now. Its current and scheduled versions move to `to`,
+ * while history before now stays under the old key so earlier events
+ * still price against it. Price book overrides keep their own keys.
+ *
+ * @returns "not_found" if the tag has no current or scheduled version,
+ *   "exists" if `to` already has one
+ */
+export async function renameTag(
+  from: string,
+  to: string
+): Promise<"renamed" | "not_found" | "exists"> {
+  const db = getPostgresDB();
+
+  const result = await executeInTransaction(
+    db,
+    `renaming tag '${from}' to '${to}'`,
+    async (txn) => {
+      try {
+        const rows = await txn
+          .select({
+            id: tagsTable.id,
+            key: tagsTable.key,
+            version: tagsTable.version,
+            amount: tagsTable.amount,
+            effectiveFrom: tagsTable.effectiveFrom,
+            effectiveTo: tagsTable.effectiveTo,
+            deletedAt: tagsTable.deletedAt,
+          })
+          .from(tagsTable)
+          .where(inArray(tagsTable.key, [from, to]))
+          .for("update");
 
-    if ((result.count ?? 0) > 0) {
-      tagCache.delete(key);
-      return true;
+        const now = DateTime.utc();
+        const live = (key: string) =>
+          rows
+            .filter((row) => row.key === key && row.deletedAt === null)
+            .map((row) => ({ ...row, ...toEffectiveRange(row) }))
+            .filter((row) => row.effectiveTo === null || row.effectiveTo > now);
+
+        const source = live(from);
+        if (source.length === 0) {
+          return "not_found" as const;
+        }
+        if (live(to).length > 0) {
+          return "exists" as const;
+        }
+
+        const latestTargetVersion = Math.max(
+          0,
+          ...rows.filter((row) => row.key === to).map((row) => row.version)
+        );
+        const plan = planRename(source, latestTargetVersion, now);
+
+        await retireTag(txn, from, now);
+        await txn.insert(tagsTable).values(
+          plan.copy.map((copy) => ({
+            key: to,
+            amount: copy.source.amount,
+            version: copy.version,
+            effectiveFrom: copy.effectiveFrom.toISO() as string,
+            effectiveTo: copy.effectiveTo?.toISO() ?? null,
+          }))
+        );
+
+        return "renamed" as const;
+      } catch (e) {
+        throw StorageError.queryFailed(
+          `Failed to rename tag '${from}' to '${to}'`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
     }
-    return false;
-  } catch (e) {
-    throw StorageError.queryFailed(
-      `Failed to soft-delete tag '${key}'`,
-      e instanceof Error ? e : new Error(String(e))
-    );
+  );
+
+  if (result === "renamed") {
+    tagCache.delete(from);
+    tagCache.delete(to);
   }
+  return result;
 }
@@ -0,0 +1,430 @@
+import { getPostgresDB } from "../db";
+import {
+  spendingLimitsTable,
+  usagePeriodTotalsTable,
+  usageThresholdCrossingsTable,
+  usageThresholdsTable,
+} from "../schema";
+import { and, asc, eq, isNull, lt, or, sql, type SQL } from "drizzle-orm";
+import type { PgTransaction } from "drizzle-orm/pg-core";
+import { StorageError } from "../../../../errors/storage";
+import { DateTime } from "luxon";
+import { executeInTransaction } from "../../../adapter/postgres/handlers/addEventUtils";
+import { completeSettlementStep } from "./settlements";
+import { ensureUserExists } from "./users";
+
+export type UsageThresholdKind = "amount" | "limit_percent";
+
+export interface UsageThreshold {
+  id: string;
+  userId: string | null;
+  mode: "test" | "production";
+  kind: UsageThresholdKind;
+  value: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A threshold not yet crossed by a user this period, with the amount of the
+ * user's spending limit that limit_percent thresholds are taken of.
+ */
+export interface PendingUsageThreshold extends UsageThreshold {
+  limitAmount: number | null;
+}
+
+export interface UsageThresholdFilter {
+  userId?: string;
+  mode?: "test" | "production";
+}
+
+export interface CreateUsageThresholdInput {
+  userId: string | null;
+  mode: "test" | "production";
+  kind: UsageThresholdKind;
+  value: number;
+}
+
+const usageThresholdColumns = {
+  id: usageThresholdsTable.id,
+  userId: usageThresholdsTable.userId,
+  mode: usageThresholdsTable.mode,
+  kind: usageThresholdsTable.kind,
+  value: usageThresholdsTable.value,
+  createdAt: usageThresholdsTable.createdAt,
+  updatedAt: usageThresholdsTable.updatedAt,
+};
+
+export async function listUsageThresholds(
+  filter: UsageThresholdFilter
+): Promise<UsageThreshold[]> {
+  const db = getPostgresDB();
+
+  const conditions: SQL[] = [];
+  if (filter.userId) {
+    conditions.push(eq(usageThresholdsTable.userId, filter.userId));
+  }
+  if (filter.mode) {
+    conditions.push(eq(usageThresholdsTable.mode, filter.mode));
+  }
+
+  try {
+    return await db
+      .select(usageThresholdColumns)
+      .from(usageThresholdsTable)
+      .where(and(...conditions))
+      .orderBy(asc(usageThresholdsTable.createdAt));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to list usage thresholds",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+export async function findUsageThreshold(
+  id: string
+): Promise<UsageThreshold | null> {
+  const db = getPostgresDB();
+
+  try {
+    const [threshold] = await db
+      .select(usageThresholdColumns)
+      .from(usageThresholdsTable)
+      .where(eq(usageThresholdsTable.id, id))
+      .limit(1);
+    return threshold ?? null;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up usage threshold '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Creates a threshold for one user, or for every user in a mode when
+ * userId is null.
+ */
+export async function createUsageThreshold(
+  input: CreateUsageThresholdInput
+): Promise<UsageThreshold> {
+  const db = getPostgresDB();
+  const target = input.userId
+    ? `user '${input.userId}'`
+    : `all ${input.mode} users`;
+
+  return executeInTransaction(
+    db,
+    `creating usage threshold for ${target}`,
+    async (txn) => {
+      try {
+        if (input.userId) {
+          await ensureUserExists(input.userId, txn);
+        }
+        const [threshold] = await txn
+          .insert(usageThresholdsTable)
+          .values(input)
+          .returning(usageThresholdColumns);
+        if (!threshold) {
+          throw new Error("Insert returned no row");
+        }
+        return threshold;
+      } catch (e) {
+        throw StorageError.insertFailed(
+          `Failed to create usage threshold for ${target}`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
+    }
+  );
+}
+
+/**
+ * Changes a threshold's kind or value. The changed threshold has not been
+ * crossed yet, so its crossings are cleared and it can fire again this
+ * period.
+ */
+export async function updateUsageThreshold(
+  id: string,
+  changes: { kind?: UsageThresholdKind; value?: number }
+): Promise<UsageThreshold | null> {
+  const db = getPostgresDB();
+
+  return executeInTransaction(
+    db,
+    `updating usage threshold '${id}'`,
+    async (txn) => {
+      try {
+        const [threshold] = await txn
+          .update(usageThresholdsTable)
+          .set({ ...changes, updatedAt: DateTime.utc().toISO() })
+          .where(eq(usageThresholdsTable.id, id))
+          .returning(usageThresholdColumns);
+        if (threshold) {
+          await txn
+            .delete(usageThresholdCrossingsTable)
+            .where(eq(usageThresholdCrossingsTable.thresholdId, id));
+        }
+        return threshold ?? null;
+      } catch (e) {
+        throw StorageError.queryFailed(
+          `Failed to update usage threshold '${id}'`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
+    }
+  );
+}
+
+export async function deleteUsageThreshold(id: string): Promise<boolean> {
+  const db = getPostgresDB();
+
+  try {
+    const deleted = await db
+      .delete(usageThresholdsTable)
+      .where(eq(usageThresholdsTable.id, id))
+      .returning({ id: usageThresholdsTable.id });
+    return deleted.length > 0;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to delete usage threshold '${id}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Returns the thresholds on a user in one mode, their own and those for
+ * every user, that the user has not crossed in the period starting at
+ * `periodStart`.
+ */
+export async function findPendingUsageThresholds(
+  userId: string,
+  mode: "test" | "production",
+  periodStart: string
+): Promise<PendingUsageThreshold[]> {
+  const db = getPostgresDB();
+
+  try {
+    return await db
+      .select({
+        ...usageThresholdColumns,
+        limitAmount: spendingLimitsTable.amount,
+      })
+      .from(usageThresholdsTable)
+      .leftJoin(
+        usageThresholdCrossingsTable,
+        and(
+          eq(usageThresholdCrossingsTable.thresholdId, usageThresholdsTable.id),
+          eq(usageThresholdCrossingsTable.userId, userId),
+          sql`${usageThresholdCrossingsTable.periodStart} = ${periodStart}::timestamptz`
+        )
+      )
+      .leftJoin(
+        spendingLimitsTable,
+        and(
+          eq(spendingLimitsTable.userId, userId),
+          eq(spendingLimitsTable.mode, mode)
+        )
+      )
+      .where(
+        and(
+          or(
+            eq(usageThresholdsTable.userId, userId),
+            isNull(usageThresholdsTable.userId)
+          ),
+          eq(usageThresholdsTable.mode, mode),
+          isNull(usageThresholdCrossingsTable.id)
+        )
+      )
+      .orderBy(asc(usageThresholdsTable.createdAt));
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up usage thresholds for user '${userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Records that a user crossed a threshold in the period starting at
+ * `periodStart`. Only the first of several concurrent callers records it.
+ *
+ * @returns Whether this call recorded the crossing
+ */
+export async function recordUsageThresholdCrossing(crossing: {
+  thresholdId: string;
+  userId: string;
+  periodStart: string;
+  periodTotal: number;
+}): Promise<boolean> {
+  const db = getPostgresDB();
+
+  try {
+    const inserted = await db
+      .insert(usageThresholdCrossingsTable)
+      .values(crossing)
+      .onConflictDoNothing()
+      .returning({ id: usageThresholdCrossingsTable.id });
+    return inserted.length > 0;
+  } catch (e) {
+    throw StorageError.insertFailed(
+      `Failed to record crossing of usage threshold '${crossing.thresholdId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Returns a user's running total for the period starting at `periodStart`,
+ * or null if the period has none yet.
+ */
+export async function findUsagePeriodTotal(
+  userId: string,
+  mode: "test" | "production",
+  periodStart: string
+): Promise<number | null> {
+  const db = getPostgresDB();
+
+  try {
+    const [row] = await db
+      .select({ total: usagePeriodTotalsTable.total })
+      .from(usagePeriodTotalsTable)
+      .where(
+        and(
+          eq(usagePeriodTotalsTable.userId, userId),
+          eq(usagePeriodTotalsTable.mode, mode),
+          sql`${usagePeriodTotalsTable.periodStart} = ${periodStart}::timestamptz`
+        )
+      )
+      .limit(1);
+    return row ? Number(row.total) : null;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up the period total of user '${userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Starts a user's running total for a period at `total`. Only the first of
+ * several concurrent callers starts it.
+ */
+export async function startUsagePeriodTotal(
+  userId: string,
+  mode: "test" | "production",
+  periodStart: string,
+  total: number
+): Promise<void> {
+  const db = getPostgresDB();
+
+  try {
+    await db
+      .insert(usagePeriodTotalsTable)
+      .values({ userId, mode, periodStart, total })
+      .onConflictDoNothing();
+  } catch (e) {
+    throw StorageError.insertFailed(
+      `Failed to start the period total of user '${userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Adds a debit to a user's running total for the period starting at
+ * `periodStart`. With `settlementId`, the debit is added together with
+ * marking that settlement's step, so a retried settlement adds it once.
+ *
+ * @returns The new total, or null if the period has no total or the
+ *   settlement already added the debit
+ */
+export async function addUsagePeriodTotal(
+  userId: string,
+  mode: "test" | "production",
+  periodStart: string,
+  debit: number,
+  settlementId?: string
+): Promise<number | null> {
+  const db = getPostgresDB();
+
+  const current = and(
+    eq(usagePeriodTotalsTable.userId, userId),
+    eq(usagePeriodTotalsTable.mode, mode),
+    sql`${usagePeriodTotalsTable.periodStart} = ${periodStart}::timestamptz`
+  );
+
+  return executeInTransaction(
+    db,
+    `adding to the period total of user '${userId}'`,
+    async (txn) => {
+      try {
+        const [period] = await txn
+          .select({ id: usagePeriodTotalsTable.id })
+          .from(usagePeriodTotalsTable)
+          .where(current)
+          .for("update");
+
+        if (!period) {
+          return null;
+        }
+        if (
+          settlementId &&
+          !(await completeSettlementStep(settlementId, "period_total", txn))
+        ) {
+          return null;
+        }
+
+        const [row] = await txn
+          .update(usagePeriodTotalsTable)
+          .set({ total: sql`${usagePeriodTotalsTable.total} + ${debit}` })
+          .where(eq(usagePeriodTotalsTable.id, period.id))
+          .returning({ total: usagePeriodTotalsTable.total });
+        return Number(row!.total);
+      } catch (e) {
+        throw StorageError.queryFailed(
+          `Failed to add to the period total of user '${userId}'`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
+    }
+  );
+}
+
+/**
+ * Clears the crossings and running totals of a user's periods that began
+ * before `periodStart`, once the period they belong to has been billed.
+ */
+export async function clearUsageThresholdCrossings(
+  userId: string,
+  periodStart: string,
+  txn?: PgTransaction<any, any, any>
+): Promise<void> {
+  const db = txn ?? getPostgresDB();
+
+  try {
+    await db
+      .delete(usageThresholdCrossingsTable)
+      .where(
+        and(
+          eq(usageThresholdCrossingsTable.userId, userId),
+          lt(usageThresholdCrossingsTable.periodStart, periodStart)
+        )
+      );
+    await db
+      .delete(usagePeriodTotalsTable)
+      .where(
+        and(
+          eq(usagePeriodTotalsTable.userId, userId),
+          lt(usagePeriodTotalsTable.periodStart, periodStart)
+        )
+      );
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to clear usage threshold crossings of user '${userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
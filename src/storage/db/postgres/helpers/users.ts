@@ -1,8 +1,9 @@
 import { getPostgresDB } from "../db";
 import { usersTable } from "../schema";
-import { eq } from "drizzle-orm";
+import { and, asc, eq } from "drizzle-orm";
 import { StorageError } from "../../../../errors/storage";
 import type { PgTransaction } from "drizzle-orm/pg-core";
+import type { UserId } from "../../../../config/identifiers";
 
 export async function updateUserBilledTimestamp(
   userId: string,
@@ -24,6 +25,41 @@ export async function updateUserBilledTimestamp(
   }
 }
 
+/**
+ * Moves last_billed_timestamp back to `to`, but only while it still stands
+ * at `from`: once a later period has been billed, rolling back would bill
+ * that period twice.
+ *
+ * @returns Whether the timestamp was moved
+ */
+export async function rollBackUserBilledTimestamp(
+  userId: string,
+  from: string,
+  to: string,
+  txn?: PgTransaction<any, any, any>
+): Promise<boolean> {
+  const db = txn ?? getPostgresDB();
+
+  try {
+    const updated = await db
+      .update(usersTable)
+      .set({ last_billed_timestamp: to })
+      .where(
+        and(
+          eq(usersTable.id, userId),
+          eq(usersTable.last_billed_timestamp, from)
+        )
+      )
+      .returning({ id: usersTable.id });
+    return updated.length > 0;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to roll back user billed timestamp",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
 export async function userExists(userId: string): Promise<boolean> {
   const db = getPostgresDB();
   const result = await db
@@ -55,3 +91,20 @@ export async function ensureUserExists(
     throw e;
   }
 }
+
+export async function listUserIds(): Promise<UserId[]> {
+  const db = getPostgresDB();
+
+  try {
+    const users = await db
+      .select({ id: usersTable.id })
+      .from(usersTable)
+      .orderBy(asc(usersTable.id));
+    return users.map((user) => user.id);
+  } catch (e) {
+    throw StorageError.queryFailed(
+      "Failed to list users",
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
@@ -0,0 +1,215 @@
+import { getPostgresDB } from "../db";
+import { creditLedgerTable, usersTable } from "../schema";
+import { eq, and, desc, sql } from "drizzle-orm";
+import { StorageError } from "../../../../errors/storage";
+import { DateTime } from "luxon";
+import type { PgTransaction } from "drizzle-orm/pg-core";
+import { executeInTransaction } from "../../../adapter/postgres/handlers/addEventUtils";
+import { ensureUserExists } from "./users";
+import { prepaidSinceCache } from "../../../../utils/walletCache";
+
+export type LedgerEntryKind = "top_up" | "usage" | "adjustment" | "plan_fee";
+
+export interface LedgerEntryInput {
+  userId: string;
+  mode: "test" | "production";
+  kind: LedgerEntryKind;
+  // Signed cents
+  amount: number;
+  reference: string | null;
+}
+
+export interface LedgerEntry {
+  id: string;
+  kind: LedgerEntryKind;
+  amount: number;
+  reference: string | null;
+  createdAt: string;
+}
+
+/**
+ * @returns When the user switched to prepaid billing, or null if the user
+ *   is post-paid or does not exist yet
+ */
+export async function findPrepaidSince(userId: string): Promise<string | null> {
+  const db = getPostgresDB();
+
+  try {
+    const [user] = await db
+      .select({ prepaidSince: usersTable.prepaidSince })
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .limit(1);
+    return user?.prepaidSince ?? null;
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to look up billing mode of user '${userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Switches a user between prepaid and post-paid billing, creating the user
+ * if needed. Switching back to post-paid moves last_billed_timestamp to now,
+ * so callers first make sure the usage up to then has been paid for, by
+ * checkout or from credit (see setBillingMode).
+ *
+ * @returns The user's prepaidSince after the switch
+ */
+export async function setPrepaidBilling(
+  userId: string,
+  prepaid: boolean
+): Promise<string | null> {
+  const db = getPostgresDB();
+
+  const prepaidSince = await executeInTransaction(
+    db,
+    `switching billing mode of user '${userId}'`,
+    async (txn) => {
+      try {
+        await ensureUserExists(userId, txn);
+        const [user] = await txn
+          .select({ prepaidSince: usersTable.prepaidSince })
+          .from(usersTable)
+          .where(eq(usersTable.id, userId))
+          .for("update");
+
+        if (prepaid === (user?.prepaidSince != null)) {
+          return user?.prepaidSince ?? null;
+        }
+
+        const now = DateTime.utc().toISO();
+        if (prepaid) {
+          await txn
+            .update(usersTable)
+            .set({ prepaidSince: now })
+            .where(eq(usersTable.id, userId));
+          return now;
+        }
+
+        await txn
+          .update(usersTable)
+          .set({
+            prepaidSince: null,
+            last_billed_timestamp: sql`GREATEST(${usersTable.last_billed_timestamp}, ${now})`,
+          })
+          .where(eq(usersTable.id, userId));
+        return null;
+      } catch (e) {
+        throw StorageError.queryFailed(
+          `Failed to switch billing mode of user '${userId}'`,
+          e instanceof Error ? e : new Error(String(e))
+        );
+      }
+    }
+  );
+
+  prepaidSinceCache.delete(userId);
+  return prepaidSince;
+}
+
+/**
+ * Records a balance movement. Entries with a reference are recorded at
+ * most once per kind, so retried webhooks and events are not counted twice.
+ *
+ * @returns Whether the entry was recorded
+ */
+export async function addLedgerEntry(
+  entry: LedgerEntryInput,
+  txn?: PgTransaction<any, any, any>
+): Promise<boolean> {
+  if (!Number.isFinite(entry.amount)) {
+    throw StorageError.invalidData(
+      `Invalid ledger amount: must be a finite number, got ${String(entry.amount)}`
+    );
+  }
+
+  const db = txn ?? getPostgresDB();
+
+  try {
+    const inserted = await db
+      .insert(creditLedgerTable)
+      .values(entry)
+      .onConflictDoNothing({
+        target: [creditLedgerTable.kind, creditLedgerTable.reference],
+        where: sql`${creditLedgerTable.reference} IS NOT NULL`,
+      })
+      .returning({ id: creditLedgerTable.id });
+    return inserted.length > 0;
+  } catch (e) {
+    throw StorageError.insertFailed(
+      `Failed to record ${entry.kind} ledger entry for user '${entry.userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Returns a user's remaining credit in cents. Usage beyond the credit
+ * bought leaves a negative balance.
+ */
+export async function getCreditBalance(
+  userId: string,
+  mode: "test" | "production"
+): Promise<number> {
+  const db = getPostgresDB();
+
+  try {
+    const [result] = await db
+      .select({
+        balance: sql<string>`COALESCE(SUM(${creditLedgerTable.amount}), 0)`,
+      })
+      .from(creditLedgerTable)
+      .where(
+        and(
+          eq(creditLedgerTable.userId, userId),
+          eq(creditLedgerTable.mode, mode)
+        )
+      );
+    return Number(result?.balance ?? 0);
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to compute credit balance of user '${userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
+
+/**
+ * Lists a user's balance movements, newest first.
+ */
+export async function listLedgerEntries(
+  userId: string,
+  mode: "test" | "production",
+  limit: number,
+  offset: number
+): Promise<LedgerEntry[]> {
+  const db = getPostgresDB();
+
+  try {
+    return await db
+      .select({
+        id: creditLedgerTable.id,
+        kind: creditLedgerTable.kind,
+        amount: creditLedgerTable.amount,
+        reference: creditLedgerTable.reference,
+        createdAt: creditLedgerTable.createdAt,
+      })
+      .from(creditLedgerTable)
+      .where(
+        and(
+          eq(creditLedgerTable.userId, userId),
+          eq(creditLedgerTable.mode, mode)
+        )
+      )
+      .orderBy(desc(creditLedgerTable.createdAt))
+      .limit(limit)
+      .offset(offset);
+  } catch (e) {
+    throw StorageError.queryFailed(
+      `Failed to list ledger entries of user '${userId}'`,
+      e instanceof Error ? e : new Error(String(e))
+    );
+  }
+}
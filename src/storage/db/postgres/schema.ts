@@ -9,30 +9,83 @@ import {
   boolean,
   jsonb,
   uniqueIndex,
+  numeric,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { USER_ID_CONFIG } from "../../../config/identifiers";
 import { DateTime } from "luxon";
 import { type Metrics } from "../../../zod/metrics";
+import type {
+  AITokenComponent,
+  StoredSqlRecord,
+} from "../../../interface/event/Event";
+import { PAYMENT_PROVIDERS } from "../../../interface/payment/PaymentProvider";
 
-export const usersTable = pgTable("users", {
-  id: USER_ID_CONFIG.dbType("id").primaryKey(),
-  last_billed_timestamp: timestamp("last_billed_timestamp", {
-    withTimezone: true,
-    mode: "string",
+export const usersTable = pgTable(
+  "users",
+  {
+    id: USER_ID_CONFIG.dbType("id").primaryKey(),
+    last_billed_timestamp: timestamp("last_billed_timestamp", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .default(DateTime.utc(1).toString())
+      .notNull(),
+    payment_provider_user_id: text("payment_provider_user_id"),
+    mode: text("mode", { enum: ["test", "production"] })
+      .notNull()
+      .default("production"),
+    // Negotiated prices; tag()/expr() fall back to the global tables
+    priceBookId: uuid("price_book_id").references(() => priceBooksTable.id),
+    // Set while the user pays from prepaid credit; usage reported from this
+    // instant on is drawn from credit_ledger instead of billed at checkout
+    prepaidSince: timestamp("prepaid_since", {
+      withTimezone: true,
+      mode: "string",
+    }),
+    // Customer profile; users known only from their events have none
+    email: text("email"),
+    name: text("name"),
+    // The customer's id in the API key owner's own systems
+    externalReference: text("external_reference"),
+    metadata: jsonb("metadata").$type<Record<string, string>>(),
+    createdAt: timestamp("created_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    deletedAt: timestamp("deleted_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+  },
+  (table) => ({
+    uniqueActiveExternalReference: uniqueIndex(
+      "unique_active_customer_external_reference"
+    )
+      .on(table.externalReference)
+      .where(sql`${table.deletedAt} IS NULL`),
   })
-    .default(DateTime.utc(1).toString())
-    .notNull(),
-  payment_provider_user_id: text("payment_provider_user_id"),
-  mode: text("mode", { enum: ["test", "production"] })
-    .notNull()
-    .default("production"),
-});
+);
 
 export const usersRelation = relations(usersTable, ({ many }) => ({
   sessions: many(sessionsTable),
   basicUsageEvents: many(basicUsageEventsTable),
   paymentEvents: many(paymentEventsTable),
   aiTokenUsageEvents: many(aiTokenUsageEventsTable),
+  creditLedger: many(creditLedgerTable),
+  spendingLimits: many(spendingLimitsTable),
+  usageThresholds: many(usageThresholdsTable),
+  planAssignments: many(planAssignmentsTable),
+  coupons: many(userCouponsTable),
+  invoices: many(invoicesTable),
 }));
 
 export const sessionsTable = pgTable(
@@ -63,6 +116,14 @@ export const sessionsTable = pgTable(
     mode: text("mode", { enum: ["test", "production"] })
       .notNull()
       .default("production"),
+    // "usage" settles unbilled usage; "top_up" buys prepaid credit
+    kind: text("kind", { enum: ["usage", "top_up"] })
+      .notNull()
+      .default("usage"),
+    // The user coupon that discounted a usage checkout, and the cents it
+    // took off
+    userCouponId: uuid("user_coupon_id").references(() => userCouponsTable.id),
+    discount: bigint("discount", { mode: "number" }).notNull().default(0),
   },
   (table) => ({
     uniqueSessionId: uniqueIndex("unique_session_id").on(table.sessionId),
@@ -78,7 +139,12 @@ export const sessionRelations = relations(sessionsTable, ({ one, many }) => ({
     fields: [sessionsTable.apiKeyId],
     references: [apiKeysTable.id],
   }),
+  userCoupon: one(userCouponsTable, {
+    fields: [sessionsTable.userCouponId],
+    references: [userCouponsTable.id],
+  }),
   paymentEvents: many(paymentEventsTable),
+  invoices: many(invoicesTable),
 }));
 
 export const apiKeysTable = pgTable(
@@ -118,6 +184,7 @@ export const apiKeysRelation = relations(apiKeysTable, ({ many }) => ({
   basicUsageEvents: many(basicUsageEventsTable),
   paymentEvents: many(paymentEventsTable),
   aiTokenUsageEvents: many(aiTokenUsageEventsTable),
+  spendingLimits: many(spendingLimitsTable),
 }));
 
 export const basicUsageEventsTable = pgTable("basic_usage_events", {
@@ -142,8 +209,18 @@ export const basicUsageEventsTable = pgTable("basic_usage_events", {
     .notNull(),
   mode: text("mode", { enum: ["test", "production"] }).notNull(),
   type: text("type", { enum: ["RAW", "MIDDLEWARE_CALL"] }).notNull(),
-  debitAmount: bigint("debit_amount", { mode: "number" }).notNull(),
+  // Cents with sub-cent precision (DEBIT_SCALE fractional digits)
+  debitAmount: numeric("debit_amount", {
+    precision: 30,
+    scale: 9,
+    mode: "number",
+  }).notNull(),
+  // Tag the debit was priced from, if any
+  tag: text("tag"),
   metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+  // Set on events reported within an already billed period, which are
+  // billed with the period they were ingested in instead
+  latePolicy: text("late_policy", { enum: ["next_period", "adjustment"] }),
 });
 
 export const basicUsageEventsRelation = relations(
@@ -160,30 +237,57 @@ export const basicUsageEventsRelation = relations(
   })
 );
 
-export const paymentEventsTable = pgTable("payment_events", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  reportedTimestamp: timestamp("reported_timestamp", {
-    withTimezone: true,
-    mode: "string",
-  }).notNull(),
-  ingestedTimestamp: timestamp("ingested_timestamp", {
-    withTimezone: true,
-    mode: "string",
+export const paymentEventsTable = pgTable(
+  "payment_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    reportedTimestamp: timestamp("reported_timestamp", {
+      withTimezone: true,
+      mode: "string",
+    }).notNull(),
+    ingestedTimestamp: timestamp("ingested_timestamp", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    userId: USER_ID_CONFIG.dbType("user_id")
+      .references(() => usersTable.id)
+      .notNull(),
+    apiKeyId: uuid("api_key_id")
+      .references(() => apiKeysTable.id)
+      .notNull(),
+    mode: text("mode", { enum: ["test", "production"] }).notNull(),
+    // "refund" and "dispute" rows reverse an earlier payment
+    kind: text("kind", { enum: ["payment", "refund", "dispute"] })
+      .notNull()
+      .default("payment"),
+    // Signed cents: payments are positive, reversals negative
+    creditAmount: bigint("credit_amount", { mode: "number" }).notNull(),
+    proxyId: uuid("proxy_id")
+      .references(() => sessionsTable.proxy_link_id)
+      .notNull(),
+    // Provider payment id for payments, refund or dispute id for reversals
+    providerReference: text("provider_reference"),
+    reversedPaymentId: uuid("reversed_payment_id").references(
+      (): AnyPgColumn => paymentEventsTable.id
+    ),
+    // Refunds requested through the API are pending until the provider's
+    // webhook confirms them, and hold their amount against further refunds
+    refundStatus: text("refund_status", { enum: ["pending", "succeeded"] }),
+    // Disputes take money back only once lost; until then they hold none
+    disputeStatus: text("dispute_status", { enum: ["open", "won", "lost"] }),
+    disputeClosedAt: timestamp("dispute_closed_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+  },
+  (table) => ({
+    uniqueKindReference: uniqueIndex("unique_payment_event_reference")
+      .on(table.kind, table.providerReference)
+      .where(sql`${table.providerReference} IS NOT NULL`),
   })
-    .defaultNow()
-    .notNull(),
-  userId: USER_ID_CONFIG.dbType("user_id")
-    .references(() => usersTable.id)
-    .notNull(),
-  apiKeyId: uuid("api_key_id")
-    .references(() => apiKeysTable.id)
-    .notNull(),
-  mode: text("mode", { enum: ["test", "production"] }).notNull(),
-  creditAmount: bigint("credit_amount", { mode: "number" }).notNull(),
-  proxyId: uuid("proxy_id")
-    .references(() => sessionsTable.proxy_link_id)
-    .notNull(),
-});
+);
 
 export const paymentEventsRelation = relations(
   paymentEventsTable,
@@ -203,82 +307,1065 @@ export const paymentEventsRelation = relations(
   })
 );
 
-export const aiTokenUsageEventsTable = pgTable("ai_token_usage_events", {
+// What a usage checkout charged, itemized. Written when the checkout is
+// created and linked to its payment once paid.
+export const invoicesTable = pgTable(
+  "invoices",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: USER_ID_CONFIG.dbType("user_id")
+      .references(() => usersTable.id)
+      .notNull(),
+    apiKeyId: uuid("api_key_id")
+      .references(() => apiKeysTable.id)
+      .notNull(),
+    mode: text("mode", { enum: ["test", "production"] }).notNull(),
+    proxyId: uuid("proxy_id")
+      .references(() => sessionsTable.proxy_link_id)
+      .notNull(),
+    paymentEventId: uuid("payment_event_id").references(
+      () => paymentEventsTable.id
+    ),
+    status: text("status", { enum: ["open", "paid", "void"] })
+      .notNull()
+      .default("open"),
+    // Usage reported after periodStart and before periodEnd is invoiced
+    periodStart: timestamp("period_start", {
+      withTimezone: true,
+      mode: "string",
+    }).notNull(),
+    periodEnd: timestamp("period_end", {
+      withTimezone: true,
+      mode: "string",
+    }).notNull(),
+    // Sum of the line items in cents with sub-cent precision
+    subtotal: numeric("subtotal", {
+      precision: 30,
+      scale: 9,
+      mode: "number",
+    }).notNull(),
+    // Whole cents charged at checkout
+    total: bigint("total", { mode: "number" }).notNull(),
+    // Whole cents a coupon took off before the total was charged
+    discount: bigint("discount", { mode: "number" }).notNull().default(0),
+    currency: text("currency").notNull(),
+    createdAt: timestamp("created_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    paidAt: timestamp("paid_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+  },
+  (table) => ({
+    uniqueProxyId: uniqueIndex("unique_invoice_proxy_id").on(table.proxyId),
+  })
+);
+
+export const invoicesRelation = relations(invoicesTable, ({ one, many }) => ({
+  user: one(usersTable, {
+    fields: [invoicesTable.userId],
+    references: [usersTable.id],
+  }),
+  session: one(sessionsTable, {
+    fields: [invoicesTable.proxyId],
+    references: [sessionsTable.proxy_link_id],
+  }),
+  paymentEvent: one(paymentEventsTable, {
+    fields: [invoicesTable.paymentEventId],
+    references: [paymentEventsTable.id],
+  }),
+  lineItems: many(invoiceLineItemsTable),
+  feeItems: many(invoiceFeeItemsTable),
+}));
+
+// One row per event kind, basic usage type, model, token component and tag
+// combination on an invoice
+export const invoiceLineItemsTable = pgTable("invoice_line_items", {
   id: uuid("id").primaryKey().defaultRandom(),
-  eventId: uuid("event_id").notNull(),
-  idempotencyKey: text("idempotency_key").notNull().unique(),
-  reportedTimestamp: timestamp("reported_timestamp", {
-    withTimezone: true,
-    mode: "string",
+  invoiceId: uuid("invoice_id")
+    .references(() => invoicesTable.id, { onDelete: "cascade" })
+    .notNull(),
+  eventKind: text("event_kind", {
+    enum: ["BASIC_USAGE", "AI_TOKEN_USAGE"],
   }).notNull(),
-  ingestedTimestamp: timestamp("ingested_timestamp", {
-    withTimezone: true,
-    mode: "string",
+  basicUsageType: text("basic_usage_type", {
+    enum: ["RAW", "MIDDLEWARE_CALL"],
+  }),
+  model: text("model"),
+  component: text("component", {
+    enum: ["input", "inputCache", "output", "outputCache"],
+  }),
+  tag: text("tag"),
+  // Events for basic usage, tokens for AI token usage
+  quantity: bigint("quantity", { mode: "number" }).notNull(),
+  amount: numeric("amount", {
+    precision: 30,
+    scale: 9,
+    mode: "number",
+  }).notNull(),
+  // Late events of an earlier period, under the 'adjustment' policy
+  adjustment: boolean("adjustment").default(false).notNull(),
+});
+
+export const invoiceLineItemsRelation = relations(
+  invoiceLineItemsTable,
+  ({ one }) => ({
+    invoice: one(invoicesTable, {
+      fields: [invoiceLineItemsTable.invoiceId],
+      references: [invoicesTable.id],
+    }),
   })
-    .defaultNow()
-    .notNull(),
-  userId: USER_ID_CONFIG.dbType("user_id")
-    .references(() => usersTable.id)
+);
+
+// One row per plan assignment charged on an invoice
+export const invoiceFeeItemsTable = pgTable("invoice_fee_items", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  invoiceId: uuid("invoice_id")
+    .references(() => invoicesTable.id, { onDelete: "cascade" })
     .notNull(),
-  apiKeyId: uuid("api_key_id")
-    .references(() => apiKeysTable.id)
+  planId: uuid("plan_id")
+    .references(() => plansTable.id)
     .notNull(),
-  mode: text("mode", { enum: ["test", "production"] }).notNull(),
-  model: text("model").notNull(),
-  provider: text("provider").notNull(),
-  metrics: jsonb("metrics").$type<Metrics>().notNull(),
-  metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+  planName: text("plan_name").notNull(),
+  // Fractional when an interval was prorated
+  intervals: numeric("intervals", {
+    precision: 30,
+    scale: 9,
+    mode: "number",
+  }).notNull(),
+  amount: numeric("amount", {
+    precision: 30,
+    scale: 9,
+    mode: "number",
+  }).notNull(),
 });
 
-export const aiTokenUsageEventsRelation = relations(
-  aiTokenUsageEventsTable,
+export const invoiceFeeItemsRelation = relations(
+  invoiceFeeItemsTable,
+  ({ one }) => ({
+    invoice: one(invoicesTable, {
+      fields: [invoiceFeeItemsTable.invoiceId],
+      references: [invoicesTable.id],
+    }),
+    plan: one(plansTable, {
+      fields: [invoiceFeeItemsTable.planId],
+      references: [plansTable.id],
+    }),
+  })
+);
+
+export const creditLedgerTable = pgTable(
+  "credit_ledger",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: USER_ID_CONFIG.dbType("user_id")
+      .references(() => usersTable.id)
+      .notNull(),
+    mode: text("mode", { enum: ["test", "production"] }).notNull(),
+    kind: text("kind", {
+      enum: ["top_up", "usage", "adjustment", "plan_fee"],
+    }).notNull(),
+    // Signed cents: top-ups are positive, usage and plan fee draw-downs
+    // negative
+    amount: numeric("amount", {
+      precision: 30,
+      scale: 9,
+      mode: "number",
+    }).notNull(),
+    // Checkout session proxy id for top-ups, idempotency key for usage,
+    // refund or dispute id for reversal adjustments, plan assignment and
+    // interval start for plan fees
+    reference: text("reference"),
+    createdAt: timestamp("created_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    uniqueKindReference: uniqueIndex("unique_credit_ledger_reference")
+      .on(table.kind, table.reference)
+      .where(sql`${table.reference} IS NOT NULL`),
+  })
+);
+
+export const creditLedgerRelation = relations(creditLedgerTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [creditLedgerTable.userId],
+    references: [usersTable.id],
+  }),
+}));
+
+// Caps what a user, or everything ingested through an API key, may spend
+// per billing period. Exactly one of userId and apiKeyId is set.
+export const spendingLimitsTable = pgTable(
+  "spending_limits",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: USER_ID_CONFIG.dbType("user_id").references(() => usersTable.id),
+    apiKeyId: uuid("api_key_id").references(() => apiKeysTable.id),
+    mode: text("mode", { enum: ["test", "production"] }).notNull(),
+    // Cents
+    amount: bigint("amount", { mode: "number" }).notNull(),
+    // Hard limits reject events once reached; soft limits only notify
+    enforcement: text("enforcement", { enum: ["hard", "soft"] })
+      .notNull()
+      .default("hard"),
+    // Running total for the period starting at periodStart, so ingestion
+    // never re-sums the period. A null periodStart makes the next event
+    // seed the total.
+    periodStart: timestamp("period_start", {
+      withTimezone: true,
+      mode: "string",
+    }),
+    spent: numeric("spent", {
+      precision: 30,
+      scale: 9,
+      mode: "number",
+    })
+      .notNull()
+      .default(0),
+    // When the limit was reached in the current period
+    reachedAt: timestamp("reached_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+    createdAt: timestamp("created_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    uniqueUserMode: uniqueIndex("unique_spending_limit_user")
+      .on(table.userId, table.mode)
+      .where(sql`${table.userId} IS NOT NULL`),
+    uniqueApiKey: uniqueIndex("unique_spending_limit_api_key")
+      .on(table.apiKeyId)
+      .where(sql`${table.apiKeyId} IS NOT NULL`),
+  })
+);
+
+export const spendingLimitsRelation = relations(
+  spendingLimitsTable,
   ({ one }) => ({
     user: one(usersTable, {
-      fields: [aiTokenUsageEventsTable.userId],
+      fields: [spendingLimitsTable.userId],
       references: [usersTable.id],
     }),
     apiKey: one(apiKeysTable, {
-      fields: [aiTokenUsageEventsTable.apiKeyId],
+      fields: [spendingLimitsTable.apiKeyId],
       references: [apiKeysTable.id],
     }),
   })
 );
 
-export const tagsTable = pgTable("tags", {
+// Usage levels that notify the ingesting API key's webhook endpoint when a
+// user's period total crosses them. A null userId applies the threshold to
+// every user in the mode. A threshold is either an amount spent or a
+// percentage of the user's spending limit.
+export const usageThresholdsTable = pgTable("usage_thresholds", {
   id: uuid("id").primaryKey().defaultRandom(),
-  key: text("key").notNull(),
-  amount: integer("amount").notNull(),
-  deletedAt: timestamp("deleted_at", {
+  userId: USER_ID_CONFIG.dbType("user_id").references(() => usersTable.id),
+  mode: text("mode", { enum: ["test", "production"] }).notNull(),
+  kind: text("kind", { enum: ["amount", "limit_percent"] }).notNull(),
+  // Cents for amount thresholds, a percentage for limit_percent ones
+  value: bigint("value", { mode: "number" }).notNull(),
+  createdAt: timestamp("created_at", {
     withTimezone: true,
     mode: "string",
-  }),
-});
-
-export const metadataTable = pgTable("metadata", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  last_run_at: timestamp("last_run_at", {
+  })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp("updated_at", {
     withTimezone: true,
     mode: "string",
-  }),
-  dodo_live_api_key: text("dodo_live_api_key").notNull(),
-  dodo_test_api_key: text("dodo_test_api_key").notNull(),
-  dodo_live_product_id: text("dodo_live_product_id").notNull(),
-  dodo_test_product_id: text("dodo_test_product_id").notNull(),
-  dodo_live_webhook_secret: text("dodo_live_webhook_secret").notNull(),
-  dodo_test_webhook_secret: text("dodo_test_webhook_secret").notNull(),
-  currency: text("currency").notNull().default("usd"),
-  redirect_url: text("redirect_url").notNull(),
+  })
+    .defaultNow()
+    .notNull(),
 });
 
-export const expressionsTable = pgTable("expressions", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  key: text("key").notNull(),
-  expr: text("expr").notNull(),
-  deletedAt: timestamp("deleted_at", {
-    withTimezone: true,
-    mode: "string",
-  }),
-});
+export const usageThresholdsRelation = relations(
+  usageThresholdsTable,
+  ({ one, many }) => ({
+    user: one(usersTable, {
+      fields: [usageThresholdsTable.userId],
+      references: [usersTable.id],
+    }),
+    crossings: many(usageThresholdCrossingsTable),
+  })
+);
+
+// One row per threshold a user crossed in a billing period, so each fires
+// once per period. Closing the period clears the user's rows.
+export const usageThresholdCrossingsTable = pgTable(
+  "usage_threshold_crossings",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    thresholdId: uuid("threshold_id")
+      .references(() => usageThresholdsTable.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: USER_ID_CONFIG.dbType("user_id")
+      .references(() => usersTable.id)
+      .notNull(),
+    periodStart: timestamp("period_start", {
+      withTimezone: true,
+      mode: "string",
+    }).notNull(),
+    // The user's period total when the threshold was crossed
+    periodTotal: numeric("period_total", {
+      precision: 30,
+      scale: 9,
+      mode: "number",
+    }).notNull(),
+    crossedAt: timestamp("crossed_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    uniqueThresholdPeriod: uniqueIndex("unique_usage_threshold_crossing").on(
+      table.thresholdId,
+      table.userId,
+      table.periodStart
+    ),
+  })
+);
+
+export const usageThresholdCrossingsRelation = relations(
+  usageThresholdCrossingsTable,
+  ({ one }) => ({
+    threshold: one(usageThresholdsTable, {
+      fields: [usageThresholdCrossingsTable.thresholdId],
+      references: [usageThresholdsTable.id],
+    }),
+    user: one(usersTable, {
+      fields: [usageThresholdCrossingsTable.userId],
+      references: [usersTable.id],
+    }),
+  })
+);
+
+// A user's running debit total per billing period, which usage thresholds
+// are compared against so ingestion never re-sums the period. Closing the
+// period clears the user's earlier rows.
+export const usagePeriodTotalsTable = pgTable(
+  "usage_period_totals",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: USER_ID_CONFIG.dbType("user_id")
+      .references(() => usersTable.id)
+      .notNull(),
+    mode: text("mode", { enum: ["test", "production"] }).notNull(),
+    periodStart: timestamp("period_start", {
+      withTimezone: true,
+      mode: "string",
+    }).notNull(),
+    total: numeric("total", {
+      precision: 30,
+      scale: 9,
+      mode: "number",
+    })
+      .notNull()
+      .default(0),
+  },
+  (table) => ({
+    uniqueUserPeriod: uniqueIndex("unique_usage_period_total").on(
+      table.userId,
+      table.mode,
+      table.periodStart
+    ),
+  })
+);
+
+export const aiTokenUsageEventsTable = pgTable("ai_token_usage_events", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  eventId: uuid("event_id").notNull(),
+  idempotencyKey: text("idempotency_key").notNull().unique(),
+  reportedTimestamp: timestamp("reported_timestamp", {
+    withTimezone: true,
+    mode: "string",
+  }).notNull(),
+  ingestedTimestamp: timestamp("ingested_timestamp", {
+    withTimezone: true,
+    mode: "string",
+  })
+    .defaultNow()
+    .notNull(),
+  userId: USER_ID_CONFIG.dbType("user_id")
+    .references(() => usersTable.id)
+    .notNull(),
+  apiKeyId: uuid("api_key_id")
+    .references(() => apiKeysTable.id)
+    .notNull(),
+  mode: text("mode", { enum: ["test", "production"] }).notNull(),
+  model: text("model").notNull(),
+  provider: text("provider").notNull(),
+  metrics: jsonb("metrics").$type<Metrics>().notNull(),
+  // Tag each token component was priced from, if any
+  tags: jsonb("tags").$type<Partial<Record<AITokenComponent, string>>>(),
+  metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+  // Set on events reported within an already billed period, which are
+  // billed with the period they were ingested in instead
+  latePolicy: text("late_policy", { enum: ["next_period", "adjustment"] }),
+});
+
+export const aiTokenUsageEventsRelation = relations(
+  aiTokenUsageEventsTable,
+  ({ one }) => ({
+    user: one(usersTable, {
+      fields: [aiTokenUsageEventsTable.userId],
+      references: [usersTable.id],
+    }),
+    apiKey: one(apiKeysTable, {
+      fields: [aiTokenUsageEventsTable.apiKeyId],
+      references: [apiKeysTable.id],
+    }),
+  })
+);
+
+// Events reported within an already billed period, kept for the late
+// event report whichever policy handled them
+export const lateEventsTable = pgTable(
+  "late_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    eventId: uuid("event_id").notNull(),
+    idempotencyKey: text("idempotency_key").notNull(),
+    userId: USER_ID_CONFIG.dbType("user_id")
+      .references(() => usersTable.id)
+      .notNull(),
+    apiKeyId: uuid("api_key_id")
+      .references(() => apiKeysTable.id)
+      .notNull(),
+    mode: text("mode", { enum: ["test", "production"] }).notNull(),
+    eventKind: text("event_kind", {
+      enum: ["BASIC_USAGE", "AI_TOKEN_USAGE"],
+    }).notNull(),
+    policy: text("policy", {
+      enum: ["reject", "next_period", "adjustment"],
+    }).notNull(),
+    reportedTimestamp: timestamp("reported_timestamp", {
+      withTimezone: true,
+      mode: "string",
+    }).notNull(),
+    ingestedTimestamp: timestamp("ingested_timestamp", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    // The user's last_billed_timestamp when the event arrived
+    periodStart: timestamp("period_start", {
+      withTimezone: true,
+      mode: "string",
+    }).notNull(),
+    // Cents the event debits, or would have debited if rejected
+    debitAmount: numeric("debit_amount", {
+      precision: 30,
+      scale: 9,
+      mode: "number",
+    }).notNull(),
+  },
+  (table) => ({
+    // Idempotency keys are only unique within each event table and user
+    uniqueIdempotencyKey: uniqueIndex("unique_late_event_idempotency_key").on(
+      table.eventKind,
+      table.userId,
+      table.idempotencyKey
+    ),
+  })
+);
+
+export const lateEventsRelation = relations(lateEventsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [lateEventsTable.userId],
+    references: [usersTable.id],
+  }),
+  apiKey: one(apiKeysTable, {
+    fields: [lateEventsTable.apiKeyId],
+    references: [apiKeysTable.id],
+  }),
+}));
+
+// The bookkeeping that follows each stored event, written alongside it and
+// kept once done, so a restart resumes it and a retried event with the
+// same key is not settled twice
+export const eventSettlementsTable = pgTable(
+  "event_settlements",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    eventKind: text("event_kind", {
+      enum: ["BASIC_USAGE", "AI_TOKEN_USAGE"],
+    }).notNull(),
+    idempotencyKey: text("idempotency_key").notNull(),
+    userId: USER_ID_CONFIG.dbType("user_id")
+      .references(() => usersTable.id)
+      .notNull(),
+    apiKeyId: uuid("api_key_id")
+      .references(() => apiKeysTable.id)
+      .notNull(),
+    mode: text("mode", { enum: ["test", "production"] }).notNull(),
+    record: jsonb("record").$type<StoredSqlRecord>().notNull(),
+    // The user's last_billed_timestamp when a late event arrived
+    latePeriodStart: timestamp("late_period_start", {
+      withTimezone: true,
+      mode: "string",
+    }),
+    // Spending limits checked for the event, with the period each was in
+    limits: jsonb("limits")
+      .$type<{ id: string; periodStart: string }[]>()
+      .notNull(),
+    completedSteps: text("completed_steps")
+      .array()
+      .notNull()
+      .default(sql`'{}'::text[]`),
+    attempts: integer("attempts").notNull().default(1),
+    // When the next attempt is due; null once retries are exhausted
+    nextAttemptAt: timestamp("next_attempt_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+    completedAt: timestamp("completed_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+    createdAt: timestamp("created_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    uniqueEventKey: uniqueIndex("unique_event_settlement_key").on(
+      table.eventKind,
+      table.userId,
+      table.idempotencyKey
+    ),
+  })
+);
+
+export const tagsTable = pgTable(
+  "tags",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    key: text("key").notNull(),
+    // Cents; may be fractional for per-token prices
+    amount: numeric("amount", {
+      precision: 30,
+      scale: 9,
+      mode: "number",
+    }).notNull(),
+    version: integer("version").notNull().default(1),
+    effectiveFrom: timestamp("effective_from", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    effectiveTo: timestamp("effective_to", {
+      withTimezone: true,
+      mode: "string",
+    }),
+    deletedAt: timestamp("deleted_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+  },
+  (table) => ({
+    uniqueKeyVersion: uniqueIndex("unique_tag_key_version").on(
+      table.key,
+      table.version
+    ),
+  })
+);
+
+export const metadataTable = pgTable("metadata", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  last_run_at: timestamp("last_run_at", {
+    withTimezone: true,
+    mode: "string",
+  }),
+  payment_provider: text("payment_provider", { enum: PAYMENT_PROVIDERS })
+    .notNull()
+    .default("dodo"),
+  // Credentials of the Dodo provider
+  dodo_live_api_key: text("dodo_live_api_key").notNull(),
+  dodo_test_api_key: text("dodo_test_api_key").notNull(),
+  dodo_live_product_id: text("dodo_live_product_id").notNull(),
+  dodo_test_product_id: text("dodo_test_product_id").notNull(),
+  dodo_live_webhook_secret: text("dodo_live_webhook_secret").notNull(),
+  dodo_test_webhook_secret: text("dodo_test_webhook_secret").notNull(),
+  currency: text("currency").notNull().default("usd"),
+  redirect_url: text("redirect_url").notNull(),
+  // Invoice document template
+  invoice_logo_url: text("invoice_logo_url"),
+  invoice_business_address: text("invoice_business_address"),
+  invoice_footer: text("invoice_footer"),
+});
+
+export const expressionsTable = pgTable(
+  "expressions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    key: text("key").notNull(),
+    expr: text("expr").notNull(),
+    version: integer("version").notNull().default(1),
+    effectiveFrom: timestamp("effective_from", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    effectiveTo: timestamp("effective_to", {
+      withTimezone: true,
+      mode: "string",
+    }),
+    deletedAt: timestamp("deleted_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+  },
+  (table) => ({
+    uniqueKeyVersion: uniqueIndex("unique_expression_key_version").on(
+      table.key,
+      table.version
+    ),
+  })
+);
+
+export const rateCardsTable = pgTable(
+  "rate_cards",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    provider: text("provider").notNull(),
+    // Exact model name, or a prefix pattern ending in "*" (e.g. "gpt-4o*")
+    model: text("model").notNull(),
+    // Cents per token
+    inputRate: numeric("input_rate", { mode: "number" }).notNull().default(0),
+    inputCacheRate: numeric("input_cache_rate", { mode: "number" })
+      .notNull()
+      .default(0),
+    outputRate: numeric("output_rate", { mode: "number" }).notNull().default(0),
+    outputCacheRate: numeric("output_cache_rate", { mode: "number" })
+      .notNull()
+      .default(0),
+    createdAt: timestamp("created_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    deletedAt: timestamp("deleted_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+  },
+  (table) => ({
+    uniqueActiveProviderModel: uniqueIndex("unique_active_rate_card")
+      .on(table.provider, table.model)
+      .where(sql`${table.deletedAt} IS NULL`),
+  })
+);
+
+export const priceBooksTable = pgTable(
+  "price_books",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    key: text("key").notNull(),
+    description: text("description"),
+    createdAt: timestamp("created_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    deletedAt: timestamp("deleted_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+  },
+  (table) => ({
+    uniqueActiveKey: uniqueIndex("unique_active_price_book_key")
+      .on(table.key)
+      .where(sql`${table.deletedAt} IS NULL`),
+  })
+);
+
+export const priceBookTagsTable = pgTable(
+  "price_book_tags",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    priceBookId: uuid("price_book_id")
+      .references(() => priceBooksTable.id)
+      .notNull(),
+    key: text("key").notNull(),
+    // Cents; may be fractional for per-token prices
+    amount: numeric("amount", {
+      precision: 30,
+      scale: 9,
+      mode: "number",
+    }).notNull(),
+    createdAt: timestamp("created_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    deletedAt: timestamp("deleted_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+  },
+  (table) => ({
+    uniqueActiveKey: uniqueIndex("unique_active_price_book_tag")
+      .on(table.priceBookId, table.key)
+      .where(sql`${table.deletedAt} IS NULL`),
+  })
+);
+
+export const priceBookExpressionsTable = pgTable(
+  "price_book_expressions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    priceBookId: uuid("price_book_id")
+      .references(() => priceBooksTable.id)
+      .notNull(),
+    key: text("key").notNull(),
+    expr: text("expr").notNull(),
+    createdAt: timestamp("created_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    deletedAt: timestamp("deleted_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+  },
+  (table) => ({
+    uniqueActiveKey: uniqueIndex("unique_active_price_book_expression")
+      .on(table.priceBookId, table.key)
+      .where(sql`${table.deletedAt} IS NULL`),
+  })
+);
+
+// Included units per billing period that are priced at zero: basic usage
+// events, or AI tokens, either of one event kind or priced from one tag.
+// Allowances in a price book replace the global allowance on the same
+// target for users assigned to it.
+export const allowancesTable = pgTable(
+  "allowances",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    priceBookId: uuid("price_book_id").references(() => priceBooksTable.id),
+    // Exactly one of eventKind and tag is set
+    eventKind: text("event_kind", {
+      enum: ["BASIC_USAGE", "AI_TOKEN_USAGE"],
+    }),
+    tag: text("tag"),
+    quantity: bigint("quantity", { mode: "number" }).notNull(),
+    createdAt: timestamp("created_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    uniqueTarget: uniqueIndex("unique_allowance_target").on(
+      sql`COALESCE(${table.priceBookId}::text, '')`,
+      sql`COALESCE(${table.eventKind}, '')`,
+      sql`COALESCE(${table.tag}, '')`
+    ),
+  })
+);
+
+// Units of each allowance a user has consumed, per billing period
+export const allowanceUsageTable = pgTable(
+  "allowance_usage",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    allowanceId: uuid("allowance_id")
+      .references(() => allowancesTable.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: USER_ID_CONFIG.dbType("user_id")
+      .references(() => usersTable.id)
+      .notNull(),
+    mode: text("mode", { enum: ["test", "production"] }).notNull(),
+    periodStart: timestamp("period_start", {
+      withTimezone: true,
+      mode: "string",
+    }).notNull(),
+    consumed: bigint("consumed", { mode: "number" }).notNull().default(0),
+  },
+  (table) => ({
+    uniquePeriod: uniqueIndex("unique_allowance_usage_period").on(
+      table.allowanceId,
+      table.userId,
+      table.mode,
+      table.periodStart
+    ),
+  })
+);
+
+export const allowanceUsageRelation = relations(
+  allowanceUsageTable,
+  ({ one }) => ({
+    allowance: one(allowancesTable, {
+      fields: [allowanceUsageTable.allowanceId],
+      references: [allowancesTable.id],
+    }),
+    user: one(usersTable, {
+      fields: [allowanceUsageTable.userId],
+      references: [usersTable.id],
+    }),
+  })
+);
+
+// The allowance units each stored event consumed, so a retried event
+// reuses its earlier consumption rather than consuming again
+export const allowanceConsumptionsTable = pgTable(
+  "allowance_consumptions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    eventKind: text("event_kind", {
+      enum: ["BASIC_USAGE", "AI_TOKEN_USAGE"],
+    }).notNull(),
+    idempotencyKey: text("idempotency_key").notNull(),
+    userId: USER_ID_CONFIG.dbType("user_id")
+      .references(() => usersTable.id)
+      .notNull(),
+    mode: text("mode", { enum: ["test", "production"] }).notNull(),
+    // The period the event is billed in, whose allowances it drew on
+    periodStart: timestamp("period_start", {
+      withTimezone: true,
+      mode: "string",
+    }).notNull(),
+    consumed: jsonb("consumed")
+      .$type<{ allowanceId: string; units: number }[]>()
+      .notNull()
+      .default([]),
+    // Units covered per allowance line of the event, in line order
+    covered: jsonb("covered").$type<number[]>().notNull().default([]),
+    createdAt: timestamp("created_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    // Idempotency keys are only unique within each event table and user
+    uniqueIdempotencyKey: uniqueIndex(
+      "unique_allowance_consumption_idempotency_key"
+    ).on(table.eventKind, table.userId, table.idempotencyKey),
+  })
+);
+
+// Subscription plans: a fixed fee charged for every interval a user is on
+// the plan, on top of their metered usage
+export const plansTable = pgTable(
+  "plans",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    name: text("name").notNull(),
+    // Cents per interval
+    amount: bigint("amount", { mode: "number" }).notNull(),
+    interval: text("interval", {
+      enum: ["day", "week", "month", "year"],
+    }).notNull(),
+    intervalCount: integer("interval_count").notNull().default(1),
+    createdAt: timestamp("created_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    deletedAt: timestamp("deleted_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+  },
+  (table) => ({
+    uniqueActiveName: uniqueIndex("unique_active_plan_name")
+      .on(table.name)
+      .where(sql`${table.deletedAt} IS NULL`),
+  })
+);
+
+export const plansRelation = relations(plansTable, ({ many }) => ({
+  assignments: many(planAssignmentsTable),
+}));
+
+// The plans a user has been on. Intervals follow the calendar, and an
+// assignment started or ended mid-interval is charged pro rata for it.
+export const planAssignmentsTable = pgTable(
+  "plan_assignments",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: USER_ID_CONFIG.dbType("user_id")
+      .references(() => usersTable.id)
+      .notNull(),
+    planId: uuid("plan_id")
+      .references(() => plansTable.id)
+      .notNull(),
+    mode: text("mode", { enum: ["test", "production"] }).notNull(),
+    startedAt: timestamp("started_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    endedAt: timestamp("ended_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+  },
+  (table) => ({
+    uniqueActiveAssignment: uniqueIndex("unique_active_plan_assignment")
+      .on(table.userId, table.mode)
+      .where(sql`${table.endedAt} IS NULL`),
+  })
+);
+
+export const planAssignmentsRelation = relations(
+  planAssignmentsTable,
+  ({ one }) => ({
+    user: one(usersTable, {
+      fields: [planAssignmentsTable.userId],
+      references: [usersTable.id],
+    }),
+    plan: one(plansTable, {
+      fields: [planAssignmentsTable.planId],
+      references: [plansTable.id],
+    }),
+  })
+);
+
+// Discounts for usage checkouts. percent and amount coupons take value
+// percent or value cents off one checkout; free_periods coupons make the
+// next value checkouts free.
+export const couponsTable = pgTable(
+  "coupons",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    code: text("code").notNull(),
+    kind: text("kind", {
+      enum: ["percent", "amount", "free_periods"],
+    }).notNull(),
+    value: bigint("value", { mode: "number" }).notNull(),
+    // How many users may redeem the coupon; null for no limit
+    maxRedemptions: integer("max_redemptions"),
+    redemptions: integer("redemptions").notNull().default(0),
+    // The coupon cannot be attached or redeemed from this instant on
+    expiresAt: timestamp("expires_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+    createdAt: timestamp("created_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    deletedAt: timestamp("deleted_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+  },
+  (table) => ({
+    uniqueActiveCode: uniqueIndex("unique_active_coupon_code")
+      .on(table.code)
+      .where(sql`${table.deletedAt} IS NULL`),
+  })
+);
+
+export const couponsRelation = relations(couponsTable, ({ many }) => ({
+  userCoupons: many(userCouponsTable),
+}));
+
+// Coupons attached to users. The first checkout a coupon discounts redeems
+// it; it keeps discounting checkouts until none remain or it is detached.
+export const userCouponsTable = pgTable(
+  "user_coupons",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: USER_ID_CONFIG.dbType("user_id")
+      .references(() => usersTable.id)
+      .notNull(),
+    couponId: uuid("coupon_id")
+      .references(() => couponsTable.id)
+      .notNull(),
+    mode: text("mode", { enum: ["test", "production"] }).notNull(),
+    checkoutsRemaining: integer("checkouts_remaining").notNull(),
+    attachedAt: timestamp("attached_at", {
+      withTimezone: true,
+      mode: "string",
+    })
+      .defaultNow()
+      .notNull(),
+    redeemedAt: timestamp("redeemed_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+    // Set when the coupon is detached or replaced by another
+    endedAt: timestamp("ended_at", {
+      withTimezone: true,
+      mode: "string",
+    }),
+  },
+  (table) => ({
+    uniqueActiveCoupon: uniqueIndex("unique_active_user_coupon")
+      .on(table.userId, table.mode)
+      .where(sql`${table.endedAt} IS NULL`),
+  })
+);
+
+export const userCouponsRelation = relations(userCouponsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [userCouponsTable.userId],
+    references: [usersTable.id],
+  }),
+  coupon: one(couponsTable, {
+    fields: [userCouponsTable.couponId],
+    references: [couponsTable.id],
+  }),
+}));
 
 export const webhookEndpointsTable = pgTable(
   "webhook_endpoints",
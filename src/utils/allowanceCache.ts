@@ -0,0 +1,8 @@
+import { Cache } from "./cacheStore";
+import type { Allowance } from "../storage/db/postgres/helpers/allowances";
+
+// Every allowance definition, under a single key; usage is never cached
+export const allowanceCache = Cache.getStore<"all", Allowance[]>("allowances", {
+  max: 1,
+  ttlMs: 10 * 60 * 1000,
+});
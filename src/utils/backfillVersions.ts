@@ -0,0 +1,57 @@
+import postgres from "postgres";
+
+// Tables whose rows got a version per key with effective-dated versions
+const VERSIONED_TABLES = ["tags", "expressions"] as const;
+
+/**
+ * Numbers the rows of every key that would share a version, so the
+ * (key, version) unique indexes can be created. Rows written before
+ * versioning all default to version 1; soft-deleted rows come first and
+ * the live row gets the highest version. Keys whose versions are already
+ * distinct are left alone, so running this again changes nothing.
+ */
+async function main(): Promise<void> {
+  const DATABASE_URL = process.env.DATABASE_URL;
+
+  if (!DATABASE_URL) {
+    console.error("DATABASE_URL environment variable is not set");
+    process.exit(1);
+  }
+
+  const sql = postgres(DATABASE_URL, { max: 1, onnotice: () => {} });
+
+  try {
+    await sql.begin(async (txn) => {
+      for (const table of VERSIONED_TABLES) {
+        await txn.unsafe(
+          `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1`
+        );
+        const renumbered = await txn.unsafe(`
+          UPDATE ${table} AS target
+          SET version = numbered.version
+          FROM (
+            SELECT id, row_number() OVER (
+              PARTITION BY key
+              ORDER BY version, deleted_at NULLS LAST, id
+            ) AS version
+            FROM ${table}
+            WHERE key IN (
+              SELECT key FROM ${table}
+              GROUP BY key, version
+              HAVING count(*) > 1
+            )
+          ) AS numbered
+          WHERE target.id = numbered.id
+        `);
+        console.log(`Numbered ${renumbered.count} ${table} row(s)`);
+      }
+    });
+  } finally {
+    await sql.end();
+  }
+}
+
+main().catch((err) => {
+  console.error("Failed to back-fill versions:", err);
+  process.exit(1);
+});
@@ -0,0 +1,47 @@
+/**
+ * Debit amounts are stored in cents as fixed-point decimals with
+ * DEBIT_SCALE fractional digits, so per-token prices far below one cent
+ * still accrue. Amounts are only rounded to whole cents when a billing
+ * period is totalled (see roundToMinorUnits).
+ */
+export const DEBIT_SCALE = 9;
+
+export const ROUNDING_MODES = [
+  "floor",
+  "ceil",
+  "half_up",
+  "half_even",
+] as const;
+
+export type RoundingMode = (typeof ROUNDING_MODES)[number];
+
+/**
+ * Rounds a cent amount to DEBIT_SCALE fractional digits, dropping the
+ * floating-point noise left over from evaluation.
+ */
+export function toDebitAmount(cents: number): number {
+  return Number(cents.toFixed(DEBIT_SCALE));
+}
+
+/**
+ * Rounds a (possibly fractional) cent amount to whole cents.
+ */
+export function roundToMinorUnits(cents: number, mode: RoundingMode): number {
+  const value = toDebitAmount(cents);
+  const whole = Math.floor(value);
+  const fraction = toDebitAmount(value - whole);
+
+  switch (mode) {
+    case "floor":
+      return whole;
+    case "ceil":
+      return fraction > 0 ? whole + 1 : whole;
+    case "half_up":
+      return fraction >= 0.5 ? whole + 1 : whole;
+    case "half_even":
+      if (fraction === 0.5) {
+        return whole % 2 === 0 ? whole : whole + 1;
+      }
+      return fraction > 0.5 ? whole + 1 : whole;
+  }
+}
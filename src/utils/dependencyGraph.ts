@@ -0,0 +1,262 @@
+import { compileExpr, collectReferences } from "./exprAst";
+import { listLiveExpressionVersions } from "../storage/db/postgres/helpers/expressions";
+import { listPriceBookOverrides } from "../storage/db/postgres/helpers/priceBooks";
+
+/**
+ * Dependency index over stored expressions.
+ *
+ * Every live expression version (in force now or scheduled) and every
+ * price book expression override is compiled once and its direct tag()
+ * and expr() references recorded. Names resolve the same way evaluation
+ * does: inside a price book, its overrides shadow the global keys. An
+ * expression that no longer compiles is set aside as invalid, since its
+ * references cannot be known, and the rest are indexed without it.
+ */
+
+export interface ExpressionSource {
+  key: string;
+  expr: string;
+  // null for price book overrides, which are not versioned
+  version: number | null;
+  priceBook: string | null;
+}
+
+export interface IndexedExpression extends ExpressionSource {
+  tags: string[];
+  exprs: string[];
+}
+
+interface BookOverrides {
+  tags: Set<string>;
+  exprs: Map<string, IndexedExpression>;
+}
+
+export interface DependencyIndex {
+  // Live global versions by expression key
+  global: Map<string, IndexedExpression[]>;
+  // Overrides by price book key
+  books: Map<string, BookOverrides>;
+  // Stored expressions that fail to compile, so no dependency check sees
+  invalid: InvalidExpression[];
+}
+
+export interface DependencyTarget {
+  kind: "tag" | "expr";
+  key: string;
+}
+
+export interface AffectedExpression {
+  key: string;
+  version: number | null;
+  priceBook: string | null;
+}
+
+export interface InvalidExpression extends AffectedExpression {
+  error: string;
+}
+
+export interface DependencySet {
+  tags: string[];
+  expressions: string[];
+}
+
+export function buildDependencyIndex(
+  expressions: ExpressionSource[],
+  bookTags: { priceBook: string; key: string }[] = []
+): DependencyIndex {
+  const index: DependencyIndex = {
+    global: new Map(),
+    books: new Map(),
+    invalid: [],
+  };
+
+  const bookFor = (priceBook: string): BookOverrides => {
+    let book = index.books.get(priceBook);
+    if (!book) {
+      book = { tags: new Set(), exprs: new Map() };
+      index.books.set(priceBook, book);
+    }
+    return book;
+  };
+
+  for (const source of expressions) {
+    let refs: ReturnType<typeof collectReferences>;
+    try {
+      refs = collectReferences(compileExpr(source.expr));
+    } catch (error) {
+      index.invalid.push({
+        key: source.key,
+        version: source.version,
+        priceBook: source.priceBook,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+    const indexed: IndexedExpression = {
+      ...source,
+      tags: [...refs.tags],
+      exprs: [...refs.exprs],
+    };
+
+    if (source.priceBook) {
+      bookFor(source.priceBook).exprs.set(source.key, indexed);
+    } else {
+      const versions = index.global.get(source.key) ?? [];
+      versions.push(indexed);
+      index.global.set(source.key, versions);
+    }
+  }
+
+  for (const { priceBook, key } of bookTags) {
+    bookFor(priceBook).tags.add(key);
+  }
+
+  return index;
+}
+
+/**
+ * Returns the expressions that expr(name) resolves to inside a price book,
+ * or globally when book is undefined.
+ */
+function resolve(
+  index: DependencyIndex,
+  name: string,
+  book: BookOverrides | undefined
+): IndexedExpression[] {
+  const override = book?.exprs.get(name);
+  return override ? [override] : (index.global.get(name) ?? []);
+}
+
+/**
+ * Returns every live expression that would stop evaluating if the target
+ * tag or expression were removed, directly or through other expressions.
+ * Price books that override the target are unaffected by it.
+ */
+export function findDependents(
+  index: DependencyIndex,
+  target: DependencyTarget
+): AffectedExpression[] {
+  const affected = new Map<IndexedExpression, AffectedExpression>();
+  const contexts: (BookOverrides | undefined)[] = [
+    undefined,
+    ...index.books.values(),
+  ];
+
+  for (const book of contexts) {
+    const shadowed =
+      target.kind === "tag"
+        ? book?.tags.has(target.key)
+        : book?.exprs.has(target.key);
+    if (shadowed) {
+      continue;
+    }
+
+    const memo = new Map<string, boolean>();
+    const usesTarget = (node: IndexedExpression) =>
+      target.kind === "tag"
+        ? node.tags.includes(target.key)
+        : node.exprs.includes(target.key);
+
+    const reaches = (node: IndexedExpression, visiting: Set<string>): boolean =>
+      usesTarget(node) ||
+      node.exprs.some((name) => {
+        if (memo.has(name)) {
+          return memo.get(name) as boolean;
+        }
+        if (visiting.has(name)) {
+          return false;
+        }
+        visiting.add(name);
+        const result = resolve(index, name, book).some((ref) =>
+          reaches(ref, visiting)
+        );
+        visiting.delete(name);
+        memo.set(name, result);
+        return result;
+      });
+
+    const candidates = [
+      ...[...index.global.values()]
+        .flat()
+        .filter((node) => !book?.exprs.has(node.key)),
+      ...(book ? book.exprs.values() : []),
+    ];
+
+    for (const node of candidates) {
+      if (target.kind === "expr" && node.key === target.key) {
+        continue;
+      }
+      if (!affected.has(node) && reaches(node, new Set([node.key]))) {
+        affected.set(node, {
+          key: node.key,
+          version: node.version,
+          priceBook: node.priceBook,
+        });
+      }
+    }
+  }
+
+  return [...affected.values()];
+}
+
+/**
+ * Returns the tags and expressions an expression references, directly and
+ * through other expressions, across all of its live versions.
+ *
+ * @param priceBook - Resolve references as seen by users of this price book
+ * @returns null if the expression has no live version in that context
+ */
+export function findDependencies(
+  index: DependencyIndex,
+  key: string,
+  priceBook: string | null = null
+): { direct: DependencySet; all: DependencySet } | null {
+  const book = priceBook ? index.books.get(priceBook) : undefined;
+  const roots = resolve(index, key, book);
+  if (roots.length === 0) {
+    return null;
+  }
+
+  const direct = {
+    tags: new Set(roots.flatMap((node) => node.tags)),
+    expressions: new Set(roots.flatMap((node) => node.exprs)),
+  };
+  const all = { tags: new Set<string>(), expressions: new Set<string>() };
+
+  const visit = (node: IndexedExpression) => {
+    node.tags.forEach((tag) => all.tags.add(tag));
+    for (const name of node.exprs) {
+      if (name === key || all.expressions.has(name)) {
+        continue;
+      }
+      all.expressions.add(name);
+      resolve(index, name, book).forEach(visit);
+    }
+  };
+  roots.forEach(visit);
+
+  const sorted = (set: typeof all): DependencySet => ({
+    tags: [...set.tags].sort(),
+    expressions: [...set.expressions].sort(),
+  });
+
+  return { direct: sorted(direct), all: sorted(all) };
+}
+
+/**
+ * Builds the dependency index from the expressions currently stored.
+ */
+export async function fetchDependencyIndex(): Promise<DependencyIndex> {
+  const [versions, overrides] = await Promise.all([
+    listLiveExpressionVersions(),
+    listPriceBookOverrides(),
+  ]);
+
+  return buildDependencyIndex(
+    [
+      ...versions.map((row) => ({ ...row, priceBook: null })),
+      ...overrides.expressions.map((row) => ({ ...row, version: null })),
+    ],
+    overrides.tags
+  );
+}
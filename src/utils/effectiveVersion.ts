@@ -0,0 +1,155 @@
+import { DateTime } from "luxon";
+
+/**
+ * Effective-dated versions for tags and expressions.
+ *
+ * Every key owns a timeline of versioned rows. A row is in force over
+ * [effectiveFrom, effectiveTo); an open-ended row has effectiveTo = null.
+ * Rows never overlap, and rows that never came into force (replaced or
+ * cancelled before their start) are soft-deleted via deletedAt.
+ */
+
+export interface EffectiveRange {
+  effectiveFrom: DateTime;
+  effectiveTo: DateTime | null;
+}
+
+export interface VersionRow extends EffectiveRange {
+  id: string;
+  version: number;
+}
+
+/**
+ * Changes needed to insert a new version starting at a given instant.
+ */
+export interface SchedulePlan {
+  version: number;
+  effectiveFrom: DateTime;
+  effectiveTo: DateTime | null;
+  // Row in force at effectiveFrom, cut short so the new version takes over
+  close: { id: string; effectiveTo: DateTime } | null;
+  // Rows starting at exactly effectiveFrom, replaced before taking effect
+  supersede: string[];
+}
+
+/**
+ * Changes needed to retire a key at a given instant.
+ */
+export interface RetirePlan {
+  close: { id: string; effectiveTo: DateTime } | null;
+  cancel: string[];
+}
+
+/**
+ * Converts the effective range columns of a Postgres row (timestamps in
+ * "string" mode) into DateTimes.
+ */
+export function toEffectiveRange(row: {
+  effectiveFrom: string;
+  effectiveTo: string | null;
+}): EffectiveRange {
+  return {
+    effectiveFrom: DateTime.fromSQL(row.effectiveFrom, { zone: "utc" }),
+    effectiveTo: row.effectiveTo
+      ? DateTime.fromSQL(row.effectiveTo, { zone: "utc" })
+      : null,
+  };
+}
+
+/**
+ * Returns the version in force at `at`, if any.
+ */
+export function findEffectiveVersion<T extends EffectiveRange>(
+  versions: T[],
+  at: DateTime
+): T | undefined {
+  return versions.find(
+    (version) =>
+      version.effectiveFrom <= at &&
+      (version.effectiveTo === null || version.effectiveTo > at)
+  );
+}
+
+/**
+ * Plans inserting a version effective from `at` into a key's timeline.
+ *
+ * @param active - Non-deleted rows of the key
+ * @param latestVersion - Highest version ever used by the key, deleted or not
+ */
+export function planScheduledVersion(
+  active: VersionRow[],
+  latestVersion: number,
+  at: DateTime
+): SchedulePlan {
+  const supersede = active
+    .filter((row) => row.effectiveFrom.toMillis() === at.toMillis())
+    .map((row) => row.id);
+
+  const remaining = active.filter((row) => !supersede.includes(row.id));
+  const current = findEffectiveVersion(remaining, at);
+  const next = remaining
+    .map((row) => row.effectiveFrom)
+    .filter((from) => from > at)
+    .sort((a, b) => a.toMillis() - b.toMillis())[0];
+
+  return {
+    version: latestVersion + 1,
+    effectiveFrom: at,
+    effectiveTo: next ?? null,
+    close: current ? { id: current.id, effectiveTo: at } : null,
+    supersede,
+  };
+}
+
+/**
+ * Plans retiring a key at `at`: the version in force ends there and any
+ * version scheduled to start later is cancelled.
+ */
+export function planRetirement(active: VersionRow[], at: DateTime): RetirePlan {
+  const current = findEffectiveVersion(active, at);
+  return {
+    close: current ? { id: current.id, effectiveTo: at } : null,
+    cancel: active.filter((row) => row.effectiveFrom > at).map((row) => row.id),
+  };
+}
+
+/**
+ * Changes needed to move a key's timeline to a new key at a given instant.
+ */
+export interface RenamePlan<T extends VersionRow> {
+  // Versions carried over to the new key, in effectiveFrom order
+  copy: {
+    source: T;
+    version: number;
+    effectiveFrom: DateTime;
+    effectiveTo: DateTime | null;
+  }[];
+  retire: RetirePlan;
+}
+
+/**
+ * Plans renaming a key at `at`. The version in force and any scheduled
+ * versions are copied to the new key (the one in force starting at `at`),
+ * and the old key is retired at `at`, so history before `at` keeps the old
+ * name.
+ *
+ * @param active - Non-deleted rows of the old key
+ * @param latestTargetVersion - Highest version ever used by the new key
+ */
+export function planRename<T extends VersionRow>(
+  active: T[],
+  latestTargetVersion: number,
+  at: DateTime
+): RenamePlan<T> {
+  const copy = active
+    .filter((row) => row.effectiveTo === null || row.effectiveTo > at)
+    .sort((a, b) => a.effectiveFrom.toMillis() - b.effectiveFrom.toMillis())
+    .map((row, index) => ({
+      source: row,
+      version: latestTargetVersion + index + 1,
+      effectiveFrom: row.effectiveFrom > at ? row.effectiveFrom : at,
+      effectiveTo: row.effectiveTo,
+    }));
+
+  return { copy, retire: planRetirement(active, at) };
+}
@@ -1,3 +1,4 @@
+import { DateTime } from "luxon";
 import { EventError } from "../errors/event";
 import type {
   Event,
@@ -12,6 +13,20 @@ import type {
   StreamEventSchemaType,
 } from "../zod/event";
 import type { AuthContext } from "../context/auth";
+import {
+  applyAllowances,
+  releaseAllowances,
+} from "../services/allowanceService";
+import { enforceSpendingLimits } from "../services/spendingLimitService";
+import { applyLateEventPolicy } from "../services/lateEventService";
+import {
+  settleEvent,
+  settlementRetryDelay,
+} from "../services/settlementService";
+import {
+  createEventSettlement,
+  dropEventSettlement,
+} from "../storage/db/postgres/helpers/settlements";
 
 export function createEventInstance(
   eventSkeleton: RegisterEventSchemaType | StreamEventSchemaType
@@ -43,6 +58,36 @@ export async function storeEvent(
   event: Event,
   auth: AuthContext
 ): Promise<void> {
+  const serialized = event.serialize();
+  const late = await applyLateEventPolicy(serialized.SQL, auth);
+  const limits = await enforceSpendingLimits(serialized.SQL.userId, auth);
+  const { record, consumption } = await applyAllowances(late.record, auth);
+  // Written before the event, so a restart after storing it still settles
+  const settlement = auth.mode
+    ? await createEventSettlement({
+        record,
+        apiKeyId: auth.apiKeyId,
+        mode: auth.mode,
+        latePeriodStart: late.periodStart,
+        limits: limits.map(({ id, periodStart }) => ({ id, periodStart })),
+        nextAttemptAt: DateTime.utc().plus({
+          milliseconds: settlementRetryDelay(1)!,
+        }),
+      })
+    : null;
   const adapter = await StorageAdapterFactory.getEventStorageAdapter();
-  await adapter.add(event.serialize(), auth);
+  try {
+    await adapter.add({ SQL: record }, auth);
+  } catch (error) {
+    if (consumption) {
+      await releaseAllowances(consumption);
+    }
+    if (settlement) {
+      await dropEventSettlement(settlement.id);
+    }
+    throw error;
+  }
+  if (settlement) {
+    await settleEvent(settlement);
+  }
 }
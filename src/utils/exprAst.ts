@@ -0,0 +1,482 @@
+import { EventError } from "../errors/event";
+
+/**
+ * Tokenizer and parser for the pricing DSL.
+ *
+ * Compiles an expression string such as
+ * `add(mul(tag(PREMIUM_CALL),3),tag(EXTRA_FEE),250)` into a typed AST.
+ * References (tag(), expr(), token placeholders) become dedicated nodes so
+ * they can be resolved without touching the source string again. Infix
+ * `+ - * /` are accepted with the usual precedence and compile to the
+ * add/sub/mul/div functions, so `tag(A) + 5` is `add(tag(A),5)`.
+ *
+ * Every node and syntax error carries the 1-based column it starts at.
+ */
+
+export type TokenPlaceholder =
+  "inputTokens" | "outputTokens" | "inputCacheTokens" | "outputCacheTokens";
+
+export type ComparisonOperator = "<" | "<=" | ">" | ">=" | "==" | "!=";
+
+type ArithmeticOperator = "+" | "-" | "*" | "/";
+
+export type ExprNode =
+  | { kind: "number"; value: number; column: number }
+  | { kind: "tag"; name: string; column: number }
+  | { kind: "exprRef"; name: string; column: number }
+  | { kind: "token"; name: TokenPlaceholder; column: number }
+  | {
+      kind: "compare";
+      op: ComparisonOperator;
+      left: ExprNode;
+      right: ExprNode;
+      column: number;
+    }
+  | { kind: "call"; name: string; args: ExprNode[]; column: number };
+
+type Token =
+  | { type: "number"; value: number; column: number }
+  | { type: "ident"; value: string; column: number }
+  | { type: "op"; value: ComparisonOperator; column: number }
+  | { type: "arith"; value: ArithmeticOperator; column: number }
+  | { type: "lparen" | "rparen" | "comma" | "eof"; column: number };
+
+export const TOKEN_PLACEHOLDERS: ReadonlySet<string> =
+  new Set<TokenPlaceholder>([
+    "inputTokens",
+    "outputTokens",
+    "inputCacheTokens",
+    "outputCacheTokens",
+  ]);
+
+// Allowed argument counts for built-in functions; max undefined = variadic
+const FUNCTION_ARITY: Record<string, { min: number; max?: number }> = {
+  add: { min: 1 },
+  sub: { min: 2, max: 2 },
+  mul: { min: 1 },
+  div: { min: 2, max: 2 },
+  min: { min: 1 },
+  max: { min: 1 },
+  clamp: { min: 3, max: 3 },
+  ceil: { min: 1, max: 1 },
+  round: { min: 1, max: 1 },
+  if: { min: 3, max: 3 },
+  tiered: { min: 2 },
+  volume: { min: 2 },
+};
+
+const ARITY_WORDS = ["zero", "one", "two", "three"];
+
+const NAME_PATTERN = /^[A-Z_][A-Z0-9_]*$/;
+
+// The function each infix operator compiles to
+const ARITHMETIC_FUNCTIONS: Record<ArithmeticOperator, string> = {
+  "+": "add",
+  "-": "sub",
+  "*": "mul",
+  "/": "div",
+};
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = [
+  "<=",
+  ">=",
+  "==",
+  "!=",
+  "<",
+  ">",
+];
+
+function syntaxError(column: number, message: string): EventError {
+  return EventError.validationFailed(
+    `Invalid expression syntax at column ${column}: ${message}`
+  );
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos] as string;
+    const column = pos + 1;
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^(?:\d+(?:\.\d*)?|\.\d+)/.exec(source.slice(pos));
+      if (!match) {
+        throw syntaxError(column, `unexpected character '${char}'`);
+      }
+      tokens.push({ type: "number", value: Number(match[0]), column });
+      pos += match[0].length;
+      continue;
+    }
+
+    if (/[a-zA-Z_]/.test(char)) {
+      const match = /^[a-zA-Z_][a-zA-Z0-9_]*/.exec(source.slice(pos));
+      const value = match?.[0] as string;
+      tokens.push({ type: "ident", value, column });
+      pos += value.length;
+      continue;
+    }
+
+    const op = COMPARISON_OPERATORS.find((candidate) =>
+      source.startsWith(candidate, pos)
+    );
+    if (op) {
+      tokens.push({ type: "op", value: op, column });
+      pos += op.length;
+      continue;
+    }
+
+    switch (char) {
+      case "(":
+        tokens.push({ type: "lparen", column });
+        break;
+      case ")":
+        tokens.push({ type: "rparen", column });
+        break;
+      case ",":
+        tokens.push({ type: "comma", column });
+        break;
+      case "+":
+      case "-":
+      case "*":
+      case "/":
+        tokens.push({ type: "arith", value: char, column });
+        break;
+      default:
+        throw syntaxError(column, `unexpected character '${char}'`);
+    }
+    pos++;
+  }
+
+  tokens.push({ type: "eof", column: source.length + 1 });
+  return tokens;
+}
+
+function describeToken(token: Token): string {
+  switch (token.type) {
+    case "number":
+    case "ident":
+    case "op":
+    case "arith":
+      return `'${token.value}'`;
+    case "lparen":
+      return "'('";
+    case "rparen":
+      return "')'";
+    case "comma":
+      return "','";
+    case "eof":
+      return "end of expression";
+  }
+}
+
+class ExprParser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExprNode {
+    const node = this.parseExpression();
+    const next = this.peek();
+    if (next.type !== "eof") {
+      if (next.type === "rparen") {
+        throw syntaxError(next.column, "unmatched closing parenthesis");
+      }
+      throw syntaxError(next.column, `unexpected ${describeToken(next)}`);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index] as Token;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== "eof") {
+      this.index++;
+    }
+    return token;
+  }
+
+  private expect<T extends Token["type"]>(
+    type: T,
+    what: string
+  ): Extract<Token, { type: T }> {
+    const token = this.next();
+    if (token.type !== type) {
+      if (type === "rparen" && token.type === "eof") {
+        throw syntaxError(token.column, "unmatched opening parenthesis");
+      }
+      throw syntaxError(
+        token.column,
+        `expected ${what} but found ${describeToken(token)}`
+      );
+    }
+    return token as Extract<Token, { type: T }>;
+  }
+
+  private parseExpression(): ExprNode {
+    const left = this.parseSum();
+    const next = this.peek();
+    if (next.type !== "op") {
+      return left;
+    }
+
+    this.next();
+    const right = this.parseSum();
+    const after = this.peek();
+    if (after.type === "op") {
+      throw syntaxError(after.column, "comparisons cannot be chained");
+    }
+    return {
+      kind: "compare",
+      op: next.value,
+      left,
+      right,
+      column: left.column,
+    };
+  }
+
+  private parseSum(): ExprNode {
+    return this.parseInfix(["+", "-"], () => this.parseProduct());
+  }
+
+  private parseProduct(): ExprNode {
+    return this.parseInfix(["*", "/"], () => this.parseOperand());
+  }
+
+  // Left-associative, so `a - b - c` is `sub(sub(a,b),c)`
+  private parseInfix(
+    operators: ArithmeticOperator[],
+    parseSide: () => ExprNode
+  ): ExprNode {
+    let left = parseSide();
+    for (;;) {
+      const next = this.peek();
+      if (next.type !== "arith" || !operators.includes(next.value)) {
+        return left;
+      }
+      this.next();
+      const right = parseSide();
+      left = {
+        kind: "call",
+        name: ARITHMETIC_FUNCTIONS[next.value],
+        args: [left, right],
+        column: left.column,
+      };
+    }
+  }
+
+  private parseOperand(): ExprNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case "number":
+        return { kind: "number", value: token.value, column: token.column };
+      case "arith": {
+        if (token.value !== "-") {
+          throw syntaxError(token.column, `unexpected ${describeToken(token)}`);
+        }
+        const operand = this.parseOperand();
+        if (operand.kind === "number") {
+          return { ...operand, value: -operand.value, column: token.column };
+        }
+        return {
+          kind: "call",
+          name: "sub",
+          args: [{ kind: "number", value: 0, column: token.column }, operand],
+          column: token.column,
+        };
+      }
+      case "lparen": {
+        const inner = this.parseExpression();
+        this.expect("rparen", "')'");
+        return inner;
+      }
+      case "ident":
+        return this.parseCall(token);
+      default:
+        throw syntaxError(token.column, `unexpected ${describeToken(token)}`);
+    }
+  }
+
+  private parseCall(ident: { value: string; column: number }): ExprNode {
+    const name = ident.value;
+    const column = ident.column;
+
+    if (name !== "tag" && name !== "expr" && !TOKEN_PLACEHOLDERS.has(name)) {
+      if (!Object.hasOwn(FUNCTION_ARITY, name)) {
+        throw EventError.validationFailed(
+          `Unknown function in expression: ${name} (column ${column})`
+        );
+      }
+    }
+
+    const open = this.peek();
+    if (open.type !== "lparen") {
+      throw syntaxError(open.column, `expected '(' after '${name}'`);
+    }
+    this.next();
+
+    if (name === "tag" || name === "expr") {
+      return this.parseReference(name, column);
+    }
+
+    if (TOKEN_PLACEHOLDERS.has(name)) {
+      this.expect("rparen", `')' (${name}() takes no arguments)`);
+      return { kind: "token", name: name as TokenPlaceholder, column };
+    }
+
+    const args: ExprNode[] = [];
+    if (this.peek().type !== "rparen") {
+      args.push(this.parseExpression());
+      while (this.peek().type === "comma") {
+        this.next();
+        args.push(this.parseExpression());
+      }
+    }
+    this.expect("rparen", "',' or ')'");
+
+    return { kind: "call", name, args, column };
+  }
+
+  private parseReference(kind: "tag" | "expr", column: number): ExprNode {
+    const nameToken = this.peek();
+    const label = kind === "tag" ? "tag" : "expression";
+    const rule =
+      kind === "tag"
+        ? "Tag names must be UPPER_SNAKE_CASE"
+        : "Names must be UPPER_SNAKE_CASE";
+
+    if (nameToken.type !== "ident" || !NAME_PATTERN.test(nameToken.value)) {
+      const found = nameToken.type === "ident" ? nameToken.value : "";
+      throw EventError.validationFailed(
+        `Invalid ${label} name format: ${found}. ${rule} (column ${nameToken.column})`
+      );
+    }
+    this.next();
+    this.expect("rparen", `')' after ${kind} name`);
+
+    return kind === "tag"
+      ? { kind: "tag", name: nameToken.value, column }
+      : { kind: "exprRef", name: nameToken.value, column };
+  }
+}
+
+/**
+ * Checks argument counts and argument kinds that can be decided without
+ * resolving any references.
+ */
+function checkNode(node: ExprNode, conditionAllowed = false): void {
+  switch (node.kind) {
+    case "compare":
+      if (!conditionAllowed) {
+        throw syntaxError(
+          node.column,
+          "comparisons are only allowed as the condition of if()"
+        );
+      }
+      checkNode(node.left);
+      checkNode(node.right);
+      return;
+    case "call":
+      break;
+    default:
+      return;
+  }
+
+  const arity = FUNCTION_ARITY[node.name] as { min: number; max?: number };
+  const count = node.args.length;
+  if (arity.max !== undefined && arity.min === arity.max) {
+    if (count !== arity.min) {
+      throw EventError.validationFailed(
+        `${node.name}() requires exactly ${ARITY_WORDS[arity.min]} argument${arity.min === 1 ? "" : "s"} (column ${node.column})`
+      );
+    }
+  } else if (count < arity.min) {
+    throw EventError.validationFailed(
+      `${node.name}() requires at least ${ARITY_WORDS[arity.min]} argument${arity.min === 1 ? "" : "s"} (column ${node.column})`
+    );
+  }
+
+  if (node.name === "if" && node.args[0]?.kind !== "compare") {
+    throw EventError.validationFailed(
+      `if() condition must be a comparison (<, <=, >, >=, ==, !=) (column ${node.column})`
+    );
+  }
+
+  if (
+    (node.name === "tiered" || node.name === "volume") &&
+    node.args[0]?.kind !== "token"
+  ) {
+    throw EventError.validationFailed(
+      `${node.name}() must take a token placeholder as its first argument, e.g. ${node.name}(inputTokens(), ...) (column ${node.column})`
+    );
+  }
+
+  node.args.forEach((arg, i) => checkNode(arg, node.name === "if" && i === 0));
+}
+
+/**
+ * Compiles an expression string into a validated AST.
+ *
+ * @throws EventError with the offending column for any syntax error,
+ *   unknown function, malformed reference name or wrong argument count
+ */
+export function compileExpr(source: string): ExprNode {
+  if (!source || source.trim() === "") {
+    throw EventError.validationFailed("Expression cannot be empty");
+  }
+
+  const ast = new ExprParser(tokenize(source)).parse();
+  checkNode(ast);
+  return ast;
+}
+
+/**
+ * Collects the names referenced by tag() and expr() nodes in an AST.
+ */
+export function collectReferences(ast: ExprNode): {
+  tags: Set<string>;
+  exprs: Set<string>;
+  hasTiers: boolean;
+} {
+  const refs = {
+    tags: new Set<string>(),
+    exprs: new Set<string>(),
+    hasTiers: false,
+  };
+
+  const visit = (node: ExprNode): void => {
+    switch (node.kind) {
+      case "tag":
+        refs.tags.add(node.name);
+        return;
+      case "exprRef":
+        refs.exprs.add(node.name);
+        return;
+      case "compare":
+        visit(node.left);
+        visit(node.right);
+        return;
+      case "call":
+        if (node.name === "tiered" || node.name === "volume") {
+          refs.hasTiers = true;
+        }
+        node.args.forEach(visit);
+        return;
+      default:
+        return;
+    }
+  };
+
+  visit(ast);
+  return refs;
+}
@@ -0,0 +1,33 @@
+import { Cache } from "./cacheStore";
+import type { ExprNode } from "./exprAst";
+import type { ExpressionVersion } from "../storage/db/postgres/helpers/expressions";
+
+// Every version of a stored expression by key, invalidated on write
+export const expressionCache = Cache.getStore<string, ExpressionVersion[]>(
+  "expressions",
+  {
+    max: 500,
+    ttlMs: 10 * 60 * 1000,
+  }
+);
+
+// Compiled ASTs keyed by source identity; a given version never changes
+export const compiledExpressionCache = Cache.getStore<string, ExprNode>(
+  "compiled-expressions",
+  {
+    max: 2000,
+    ttlMs: 60 * 60 * 1000,
+  }
+);
+
+export function storedExpressionCacheKey(key: string, version: number): string {
+  return `expr:${key}@${version}`;
+}
+
+export function inlineExpressionCacheKey(source: string): string {
+  return `inline:${source}`;
+}
+
+export function priceBookExpressionCacheKey(overrideId: string): string {
+  return `book-expr:${overrideId}`;
+}
@@ -0,0 +1,58 @@
+import type { UserId } from "../config/identifiers";
+import {
+  findPriceBook,
+  findUserPriceBookId,
+  type PriceBookExpression,
+} from "../storage/db/postgres/helpers/priceBooks";
+import { priceBookCache, userPriceBookCache } from "./priceBookCache";
+
+/**
+ * A price book's overrides, keyed for lookup during evaluation.
+ */
+export interface PriceBook {
+  id: string;
+  key: string;
+  tags: Map<string, number>;
+  exprs: Map<string, PriceBookExpression>;
+}
+
+/**
+ * Loads a price book's overrides by id.
+ *
+ * @returns The price book, or null if it does not exist
+ */
+export async function fetchPriceBook(id: string): Promise<PriceBook | null> {
+  const cached = priceBookCache.get(id);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const detail = await findPriceBook(id);
+  const book = detail
+    ? {
+        id: detail.id,
+        key: detail.key,
+        tags: new Map(detail.tags.map((tag) => [tag.key, tag.amount])),
+        exprs: new Map(detail.expressions.map((expr) => [expr.key, expr])),
+      }
+    : null;
+  priceBookCache.set(id, book);
+  return book;
+}
+
+/**
+ * Loads the price book assigned to a user.
+ *
+ * @returns The price book, or null if the user is on default pricing
+ */
+export async function fetchUserPriceBook(
+  userId: UserId
+): Promise<PriceBook | null> {
+  let priceBookId = userPriceBookCache.get(userId);
+  if (priceBookId === undefined) {
+    priceBookId = await findUserPriceBookId(userId);
+    userPriceBookCache.set(userId, priceBookId);
+  }
+
+  return priceBookId ? fetchPriceBook(priceBookId) : null;
+}
@@ -0,0 +1,50 @@
+import { findRateCardsByProvider } from "../storage/db/postgres/helpers/rateCards";
+import type { RateCard } from "../storage/db/postgres/helpers/rateCards";
+import { rateCardCache } from "./rateCardCache";
+
+/**
+ * Picks the rate card for a model. An exact model name wins; otherwise
+ * the longest matching prefix pattern (e.g. "gpt-4o*") is used.
+ */
+export function matchRateCard(
+  cards: RateCard[],
+  model: string
+): RateCard | undefined {
+  const exact = cards.find((card) => card.model === model);
+  if (exact) {
+    return exact;
+  }
+
+  let best: RateCard | undefined;
+  for (const card of cards) {
+    if (!card.model.endsWith("*")) {
+      continue;
+    }
+    const prefix = card.model.slice(0, -1);
+    if (
+      model.startsWith(prefix) &&
+      (!best || prefix.length > best.model.length - 1)
+    ) {
+      best = card;
+    }
+  }
+  return best;
+}
+
+/**
+ * Looks up the rate card that prices a (provider, model) pair.
+ *
+ * @returns The matching rate card, or undefined if none applies
+ */
+export async function fetchRateCard(
+  provider: string,
+  model: string
+): Promise<RateCard | undefined> {
+  let cards = rateCardCache.get(provider);
+  if (cards === undefined) {
+    cards = await findRateCardsByProvider(provider);
+    rateCardCache.set(provider, cards);
+  }
+
+  return matchRateCard(cards, model);
+}
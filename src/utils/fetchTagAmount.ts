@@ -1,29 +1,44 @@
-import { eq, and, isNull } from "drizzle-orm";
+import { DateTime } from "luxon";
 import { EventError } from "../errors/event";
-import { getPostgresDB } from "../storage/db/postgres/db";
-import { tagsTable } from "../storage/db/postgres/schema";
+import { findTagVersions } from "../storage/db/postgres/helpers/tags";
+import { findEffectiveVersion } from "./effectiveVersion";
 import { tagCache } from "./tagCache";
+import { fetchUserPriceBook } from "./fetchPriceBook";
+import type { UserId } from "../config/identifiers";
 
+/**
+ * Returns the amount of the tag version in force at `at`, or the user's
+ * price book override of it.
+ *
+ * @param at - Instant to price at, normally the event's reportedTimestamp
+ * @param userId - Optional user whose price book is checked first
+ * @throws EventError if no version of the tag is in force at `at`
+ */
 export async function fetchTagAmount(
   tag: string,
-  notFoundMessage: string
+  notFoundMessage: string,
+  at: DateTime = DateTime.utc(),
+  userId?: UserId
 ): Promise<number> {
-  const cachedAmount = tagCache.get(tag);
-  if (cachedAmount !== undefined) {
-    return cachedAmount;
+  if (userId) {
+    const override = (await fetchUserPriceBook(userId))?.tags.get(tag);
+    if (override !== undefined) {
+      return override;
+    }
   }
 
-  const db = getPostgresDB();
-  const [tagRow] = await db
-    .select()
-    .from(tagsTable)
-    .where(and(eq(tagsTable.key, tag), isNull(tagsTable.deletedAt)))
-    .limit(1);
+  let versions = tagCache.get(tag);
+  if (versions === undefined) {
+    versions = await findTagVersions(tag);
+    if (versions.length > 0) {
+      tagCache.set(tag, versions);
+    }
+  }
 
-  if (!tagRow) {
+  const inForce = findEffectiveVersion(versions, at);
+  if (!inForce) {
     throw EventError.validationFailed(notFoundMessage);
   }
 
-  tagCache.set(tag, tagRow.amount);
-  return tagRow.amount;
+  return inForce.amount;
 }
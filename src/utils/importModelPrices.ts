@@ -0,0 +1,80 @@
+import { readFileSync } from "node:fs";
+import { getPostgresDB } from "../storage/db/postgres/db";
+import {
+  listRateCards,
+  applyRateCardImport,
+} from "../storage/db/postgres/helpers/rateCards";
+import { listTagKeys } from "../storage/db/postgres/helpers/tags";
+import {
+  planRateCardImport,
+  pendingRateCardWrites,
+  pendingTagWrites,
+  type ModelPriceDocument,
+} from "./modelPriceImport";
+
+// Usage: bun run import_prices <file.json> [--provider=openai ...] [--tags] [--apply]
+// --tags also imports each per-token price as a tag, e.g. GPT_4O_INPUT
+const args = process.argv.slice(2);
+const file = args.find((arg) => !arg.startsWith("--"));
+const apply = args.includes("--apply");
+const tags = args.includes("--tags");
+const providers = args
+  .filter((arg) => arg.startsWith("--provider="))
+  .map((arg) => arg.slice("--provider=".length));
+
+if (!file) {
+  throw new Error(
+    "Usage: bun run import_prices <file.json> [--provider=NAME ...] [--tags] [--apply]"
+  );
+}
+
+const DATABASE_URL = process.env.DATABASE_URL;
+
+if (!DATABASE_URL) {
+  throw new Error(
+    "DATABASE_URL environment variable is not set. (check .env.example file)"
+  );
+}
+
+getPostgresDB(DATABASE_URL);
+
+const document = JSON.parse(readFileSync(file, "utf-8")) as ModelPriceDocument;
+const plan = planRateCardImport(
+  document,
+  await listRateCards(),
+  providers.length > 0 ? providers : undefined,
+  tags ? await listTagKeys() : undefined
+);
+
+for (const change of plan.changes) {
+  if (change.action !== "unchanged") {
+    console.log(
+      `${change.action.padEnd(6)} ${change.provider}/${change.model}`,
+      change.before ?? "",
+      "->",
+      change.after
+    );
+  }
+}
+for (const tag of plan.tags) {
+  if (tag.action === "create") {
+    console.log(`tag    ${tag.key}`, tag.amount);
+  }
+}
+console.log(plan.summary);
+if (tags) {
+  console.log(plan.tagSummary);
+}
+
+if (apply) {
+  const tagWrites = pendingTagWrites(plan);
+  const written = await applyRateCardImport(
+    pendingRateCardWrites(plan),
+    tagWrites
+  );
+  console.log(`Applied ${written} rate card(s) and ${tagWrites.length} tag(s)`);
+} else {
+  console.log("Preview only; re-run with --apply to write these changes");
+}
+
+process.exit(0);
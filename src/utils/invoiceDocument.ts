@@ -0,0 +1,227 @@
+import { DateTime } from "luxon";
+import type {
+  InvoiceFeeItem,
+  InvoiceLineItem,
+  InvoiceWithLineItems,
+} from "../storage/db/postgres/helpers/invoices";
+
+export interface InvoiceTemplate {
+  logoUrl: string | null;
+  businessAddress: string | null;
+  footer: string | null;
+}
+
+export interface InvoiceRow {
+  description: string;
+  quantity: string;
+  // Cents, before rounding
+  amount: number;
+}
+
+export interface InvoiceDocument {
+  invoice: InvoiceWithLineItems;
+  paymentStatus: "pending" | "failed" | "succeeded";
+  template: InvoiceTemplate;
+}
+
+const PAYMENT_STATUS_LABELS: Record<InvoiceDocument["paymentStatus"], string> =
+  {
+    pending: "Awaiting payment",
+    failed: "Payment failed",
+    succeeded: "Paid",
+  };
+
+const COMPONENT_LABELS: Record<
+  NonNullable<InvoiceLineItem["component"]>,
+  string
+> = {
+  input: "input tokens",
+  inputCache: "cached input tokens",
+  output: "output tokens",
+  outputCache: "cached output tokens",
+};
+
+const BASIC_USAGE_TYPE_LABELS: Record<
+  NonNullable<InvoiceLineItem["basicUsageType"]>,
+  string
+> = {
+  RAW: "Usage events",
+  MIDDLEWARE_CALL: "Middleware calls",
+};
+
+export function paymentStatusLabel(
+  status: InvoiceDocument["paymentStatus"]
+): string {
+  return PAYMENT_STATUS_LABELS[status];
+}
+
+/**
+ * Describes a line item the way it reads on an invoice, e.g.
+ * "gpt-4o output tokens (GPT4O_OUTPUT)".
+ */
+export function describeInvoiceLine(line: InvoiceLineItem): string {
+  const what =
+    line.eventKind === "AI_TOKEN_USAGE"
+      ? `${line.model ?? "Unknown model"} ${line.component ? COMPONENT_LABELS[line.component] : "tokens"}`
+      : line.basicUsageType
+        ? BASIC_USAGE_TYPE_LABELS[line.basicUsageType]
+        : "Usage events";
+  const described = line.tag ? `${what} (${line.tag})` : what;
+  return line.adjustment ? `Late usage adjustment: ${described}` : described;
+}
+
+/**
+ * Describes a plan fee the way it reads on an invoice, e.g. "Pro plan".
+ */
+export function describeInvoiceFee(fee: InvoiceFeeItem): string {
+  return `${fee.planName} plan`;
+}
+
+/**
+ * Returns the rows an invoice lists: its usage line items, then its plan
+ * fees. Prorated fees show fractional intervals.
+ */
+export function invoiceRows(invoice: InvoiceWithLineItems): InvoiceRow[] {
+  return [
+    ...invoice.lineItems.map((line) => ({
+      description: describeInvoiceLine(line),
+      quantity: line.quantity.toLocaleString("en-US"),
+      amount: line.amount,
+    })),
+    ...invoice.feeItems.map((fee) => ({
+      description: describeInvoiceFee(fee),
+      quantity: fee.intervals.toLocaleString("en-US", {
+        maximumFractionDigits: 2,
+      }),
+      amount: fee.amount,
+    })),
+  ];
+}
+
+/**
+ * Formats cents in the invoice currency. Line amounts keep sub-cent
+ * precision in storage and are shown rounded to the cent.
+ */
+export function formatMinorUnits(cents: number, currency: string): string {
+  const code = currency.toUpperCase();
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: code,
+    }).format(cents / 100);
+  } catch {
+    return `${(cents / 100).toFixed(2)} ${code}`;
+  }
+}
+
+export function formatInvoiceDate(timestamp: string): string {
+  const parsed = DateTime.fromISO(timestamp, { zone: "utc" });
+  const dt = parsed.isValid
+    ? parsed
+    : DateTime.fromSQL(timestamp, { zone: "utc" });
+  return dt.isValid ? dt.toFormat("d LLL yyyy") : timestamp;
+}
+
+/**
+ * The whole-cent total charged can differ from the sum of sub-cent line
+ * amounts less any discount; the difference is shown as its own rounding
+ * line.
+ */
+export function roundingAdjustment(invoice: InvoiceWithLineItems): number {
+  return invoice.total + invoice.discount - invoice.subtotal;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function multiline(value: string): string {
+  return escapeHtml(value).replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Renders an invoice as a standalone, printable HTML page.
+ */
+export function renderInvoiceHtml(doc: InvoiceDocument): string {
+  const { invoice, template } = doc;
+  const money = (cents: number) => formatMinorUnits(cents, invoice.currency);
+  const adjustment = roundingAdjustment(invoice);
+
+  const rows = invoiceRows(invoice)
+    .map(
+      (row) => `
+        <tr>
+          <td>${escapeHtml(row.description)}</td>
+          <td class="num">${row.quantity}</td>
+          <td class="num">${money(row.amount)}</td>
+        </tr>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Invoice ${escapeHtml(invoice.id)}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #111; margin: 40px; }
+    header { display: flex; justify-content: space-between; align-items: flex-start; }
+    header img { max-height: 64px; max-width: 240px; }
+    .address { white-space: normal; color: #444; }
+    h1 { font-size: 24px; margin: 32px 0 8px; }
+    dl { display: grid; grid-template-columns: max-content auto; gap: 4px 16px; }
+    dt { color: #666; }
+    dd { margin: 0; }
+    table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+    th, td { padding: 8px; border-bottom: 1px solid #ddd; text-align: left; }
+    .num { text-align: right; }
+    tfoot td { border-bottom: none; }
+    tfoot .total td { font-weight: bold; border-top: 2px solid #111; }
+    footer { margin-top: 48px; color: #666; font-size: 12px; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <header>
+    <div>${template.logoUrl ? `<img src="${escapeHtml(template.logoUrl)}" alt="Logo">` : ""}</div>
+    <div class="address">${template.businessAddress ? multiline(template.businessAddress) : ""}</div>
+  </header>
+  <h1>Invoice</h1>
+  <dl>
+    <dt>Invoice</dt><dd>${escapeHtml(invoice.id)}</dd>
+    <dt>Customer</dt><dd>${escapeHtml(invoice.userId)}</dd>
+    <dt>Issued</dt><dd>${formatInvoiceDate(invoice.createdAt)}</dd>
+    <dt>Period</dt><dd>${formatInvoiceDate(invoice.periodStart)} – ${formatInvoiceDate(invoice.periodEnd)}</dd>
+    <dt>Status</dt><dd>${paymentStatusLabel(doc.paymentStatus)}</dd>
+  </dl>
+  <table>
+    <thead>
+      <tr><th>Description</th><th class="num">Quantity</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+    <tfoot>
+      <tr><td colspan="2">Subtotal</td><td class="num">${money(invoice.subtotal)}</td></tr>${
+        adjustment !== 0
+          ? `
+      <tr><td colspan="2">Rounding</td><td class="num">${money(adjustment)}</td></tr>`
+          : ""
+      }${
+        invoice.discount !== 0
+          ? `
+      <tr><td colspan="2">Discount</td><td class="num">${money(-invoice.discount)}</td></tr>`
+          : ""
+      }
+      <tr class="total"><td colspan="2">Total (${escapeHtml(invoice.currency.toUpperCase())})</td><td class="num">${money(invoice.total)}</td></tr>
+    </tfoot>
+  </table>
+  ${template.footer ? `<footer>${multiline(template.footer)}</footer>` : ""}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,239 @@
+import {
+  invoiceRows,
+  formatInvoiceDate,
+  formatMinorUnits,
+  paymentStatusLabel,
+  roundingAdjustment,
+  type InvoiceDocument,
+} from "./invoiceDocument";
+
+interface TextRun {
+  x: number;
+  y: number;
+  text: string;
+  bold?: boolean;
+  size?: number;
+  // Right-align on x instead of starting there
+  alignRight?: boolean;
+}
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const LINE_HEIGHT = 16;
+const FONT_SIZE = 10;
+const QUANTITY_RIGHT = 430;
+const AMOUNT_RIGHT = PAGE_WIDTH - MARGIN;
+// Rows stop here, leaving room for the footer
+const CONTENT_BOTTOM = 110;
+
+/**
+ * Encodes text for a WinAnsi string literal. Characters outside the
+ * encoding are replaced, since the standard fonts carry no others.
+ */
+function pdfString(text: string): string {
+  const encoded = Array.from(text)
+    .map((char) => {
+      if (char === "€") return "\x80";
+      if (char === "–" || char === "—") return "-";
+      const code = char.charCodeAt(0);
+      return (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)
+        ? char
+        : "?";
+    })
+    .join("");
+  return encoded.replace(/[\\()]/g, (c) => `\\${c}`);
+}
+
+// Helvetica glyphs average about half the font size; close enough to
+// right-align numbers
+function approxWidth(text: string, size: number): number {
+  return text.length * size * 0.556;
+}
+
+function contentStream(runs: TextRun[]): string {
+  return runs
+    .map((run) => {
+      const size = run.size ?? FONT_SIZE;
+      const x = run.alignRight ? run.x - approxWidth(run.text, size) : run.x;
+      return `BT /${run.bold ? "F2" : "F1"} ${size} Tf ${x.toFixed(2)} ${run.y} Td (${pdfString(run.text)}) Tj ET`;
+    })
+    .join("\n");
+}
+
+/**
+ * Serializes pages of text into a PDF using the built-in Helvetica fonts,
+ * so no font files or PDF libraries are needed.
+ */
+function writePdf(pages: TextRun[][]): Buffer {
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  pages.forEach((runs, i) => {
+    const pageId = 5 + i * 2;
+    const stream = contentStream(runs);
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] =
+      `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let body = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(body, "latin1");
+    body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(body, "latin1");
+  body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    body += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  body += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, "latin1");
+}
+
+/**
+ * Renders an invoice as a PDF. The logo is left out; it only appears in
+ * the HTML document.
+ */
+export function renderInvoicePdf(doc: InvoiceDocument): Buffer {
+  const { invoice, template } = doc;
+  const money = (cents: number) => formatMinorUnits(cents, invoice.currency);
+
+  const pages: TextRun[][] = [];
+  let runs: TextRun[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  (template.businessAddress ?? "").split(/\r?\n/).forEach((line, i) => {
+    if (line.trim()) {
+      runs.push({
+        x: AMOUNT_RIGHT,
+        y: y - i * 12,
+        text: line,
+        alignRight: true,
+      });
+    }
+  });
+
+  y -= 80;
+  runs.push({ x: MARGIN, y, text: "Invoice", bold: true, size: 20 });
+  y -= 28;
+
+  const details: [string, string][] = [
+    ["Invoice", invoice.id],
+    ["Customer", invoice.userId],
+    ["Issued", formatInvoiceDate(invoice.createdAt)],
+    [
+      "Period",
+      `${formatInvoiceDate(invoice.periodStart)} - ${formatInvoiceDate(invoice.periodEnd)}`,
+    ],
+    ["Status", paymentStatusLabel(doc.paymentStatus)],
+  ];
+  for (const [label, value] of details) {
+    runs.push({ x: MARGIN, y, text: label, bold: true });
+    runs.push({ x: MARGIN + 90, y, text: value });
+    y -= LINE_HEIGHT;
+  }
+
+  const tableHeader = () => {
+    runs.push({ x: MARGIN, y, text: "Description", bold: true });
+    runs.push({
+      x: QUANTITY_RIGHT,
+      y,
+      text: "Quantity",
+      bold: true,
+      alignRight: true,
+    });
+    runs.push({
+      x: AMOUNT_RIGHT,
+      y,
+      text: "Amount",
+      bold: true,
+      alignRight: true,
+    });
+    y -= LINE_HEIGHT + 4;
+  };
+  const nextPage = () => {
+    pages.push(runs);
+    runs = [];
+    y = PAGE_HEIGHT - MARGIN;
+    tableHeader();
+  };
+
+  y -= LINE_HEIGHT;
+  tableHeader();
+  for (const row of invoiceRows(invoice)) {
+    if (y < CONTENT_BOTTOM) {
+      nextPage();
+    }
+    runs.push({ x: MARGIN, y, text: row.description });
+    runs.push({
+      x: QUANTITY_RIGHT,
+      y,
+      text: row.quantity,
+      alignRight: true,
+    });
+    runs.push({
+      x: AMOUNT_RIGHT,
+      y,
+      text: money(row.amount),
+      alignRight: true,
+    });
+    y -= LINE_HEIGHT;
+  }
+
+  const adjustment = roundingAdjustment(invoice);
+  const totals: [string, number, boolean][] = [
+    ["Subtotal", invoice.subtotal, false],
+    ...(adjustment !== 0
+      ? [["Rounding", adjustment, false] as [string, number, boolean]]
+      : []),
+    ...(invoice.discount !== 0
+      ? [["Discount", -invoice.discount, false] as [string, number, boolean]]
+      : []),
+    [`Total (${invoice.currency.toUpperCase()})`, invoice.total, true],
+  ];
+  if (y - totals.length * LINE_HEIGHT < CONTENT_BOTTOM) {
+    nextPage();
+  }
+  y -= 8;
+  for (const [label, cents, bold] of totals) {
+    runs.push({ x: MARGIN, y, text: label, bold });
+    runs.push({
+      x: AMOUNT_RIGHT,
+      y,
+      text: money(cents),
+      bold,
+      alignRight: true,
+    });
+    y -= LINE_HEIGHT;
+  }
+  pages.push(runs);
+
+  if (template.footer) {
+    const footerLines = template.footer.split(/\r?\n/);
+    for (const page of pages) {
+      footerLines.forEach((line, i) => {
+        page.push({
+          x: MARGIN,
+          y: MARGIN + (footerLines.length - 1 - i) * 11,
+          text: line,
+          size: 8,
+        });
+      });
+    }
+  }
+
+  return writePdf(pages);
+}
@@ -0,0 +1,266 @@
+import type {
+  RateCard,
+  RateCardRates,
+  UpsertRateCardInput,
+} from "../storage/db/postgres/helpers/rateCards";
+
+/**
+ * One entry of a LiteLLM-style `model_prices_and_context_window.json`
+ * document. Prices are in dollars per token; only the fields the importer
+ * reads are listed.
+ */
+export interface ModelPriceEntry {
+  litellm_provider?: string;
+  mode?: string;
+  input_cost_per_token?: number;
+  output_cost_per_token?: number;
+  cache_read_input_token_cost?: number;
+}
+
+export type ModelPriceDocument = Record<string, unknown>;
+
+export type RateCardChangeAction = "create" | "update" | "unchanged";
+
+export interface RateCardChange {
+  action: RateCardChangeAction;
+  provider: string;
+  model: string;
+  before: RateCardRates | null;
+  after: RateCardRates;
+}
+
+export interface SkippedModelPrice {
+  model: string;
+  reason: string;
+}
+
+// Tags that already exist keep their amount; the import only adds new ones
+export type TagChangeAction = "create" | "exists";
+
+export interface TagChange {
+  action: TagChangeAction;
+  key: string;
+  // Cents per token
+  amount: number;
+  provider: string;
+  model: string;
+}
+
+export interface RateCardImportPlan {
+  changes: RateCardChange[];
+  // Empty unless the import was planned with tags
+  tags: TagChange[];
+  skipped: SkippedModelPrice[];
+  summary: Record<RateCardChangeAction, number> & { skipped: number };
+  tagSummary: Record<TagChangeAction, number>;
+}
+
+// The LiteLLM file ships a documentation entry alongside the real models
+const SPEC_KEYS = new Set(["sample_spec"]);
+
+// Enough decimals for sub-cent per-token rates without float noise
+const CENTS_DECIMALS = 12;
+
+/**
+ * Converts a per-token dollar price into the cents-per-token unit rate
+ * cards are stored in.
+ */
+export function dollarsToCents(dollars: number): number {
+  return Number((dollars * 100).toFixed(CENTS_DECIMALS));
+}
+
+function optionalPrice(value: unknown): number | undefined | null {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Returns the tag key a model's per-token price is imported under, e.g.
+ * `GPT_4O_MINI_INPUT` for the input price of gpt-4o-mini.
+ */
+export function modelTagKey(
+  model: string,
+  price: "INPUT" | "INPUT_CACHE" | "OUTPUT"
+): string {
+  const name = model
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return `${/^[0-9]/.test(name) ? "_" : ""}${name}_${price}`;
+}
+
+function ratesEqual(a: RateCardRates, b: RateCardRates): boolean {
+  return (
+    a.inputRate === b.inputRate &&
+    a.inputCacheRate === b.inputCacheRate &&
+    a.outputRate === b.outputRate &&
+    a.outputCacheRate === b.outputCacheRate
+  );
+}
+
+/**
+ * Diffs a model price document against the current rate cards.
+ *
+ * Models without per-token pricing (image, audio, ...) are skipped, as are
+ * providers outside `providers` when given. The document has no output
+ * cache price, so an existing card keeps its outputCacheRate. Rate cards
+ * missing from the document are left alone.
+ *
+ * When `existingTags` is given, each per-token price is also planned as a
+ * tag named by {@link modelTagKey}. Keys in `existingTags` are left as
+ * they are, and a key two models would share goes to the first of them.
+ */
+export function planRateCardImport(
+  document: ModelPriceDocument,
+  current: RateCard[],
+  providers?: string[],
+  existingTags?: string[]
+): RateCardImportPlan {
+  const existing = new Map(
+    current.map((card) => [`${card.provider}\u0000${card.model}`, card])
+  );
+  const providerFilter = providers ? new Set(providers) : null;
+
+  const changes: RateCardChange[] = [];
+  const tags: TagChange[] = [];
+  const skipped: SkippedModelPrice[] = [];
+  const tagged = new Set(existingTags);
+  const plannedTags = new Set<string>();
+
+  for (const [model, raw] of Object.entries(document)) {
+    if (SPEC_KEYS.has(model)) {
+      continue;
+    }
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      skipped.push({ model, reason: "Entry is not an object" });
+      continue;
+    }
+
+    const entry = raw as ModelPriceEntry;
+    const provider = entry.litellm_provider;
+    if (typeof provider !== "string" || provider.length === 0) {
+      skipped.push({ model, reason: "Missing litellm_provider" });
+      continue;
+    }
+    if (providerFilter && !providerFilter.has(provider)) {
+      continue;
+    }
+    if (model.includes("*")) {
+      skipped.push({ model, reason: "Model names may not contain '*'" });
+      continue;
+    }
+
+    const input = optionalPrice(entry.input_cost_per_token);
+    const output = optionalPrice(entry.output_cost_per_token);
+    const cacheRead = optionalPrice(entry.cache_read_input_token_cost);
+    if (input === null || output === null || cacheRead === null) {
+      skipped.push({ model, reason: "Prices must be non-negative numbers" });
+      continue;
+    }
+    if (input === undefined && output === undefined) {
+      skipped.push({ model, reason: "No per-token pricing" });
+      continue;
+    }
+
+    const card = existing.get(`${provider}\u0000${model}`);
+    const before: RateCardRates | null = card
+      ? {
+          inputRate: card.inputRate,
+          inputCacheRate: card.inputCacheRate,
+          outputRate: card.outputRate,
+          outputCacheRate: card.outputCacheRate,
+        }
+      : null;
+    const after: RateCardRates = {
+      inputRate: dollarsToCents(input ?? 0),
+      inputCacheRate: dollarsToCents(cacheRead ?? 0),
+      outputRate: dollarsToCents(output ?? 0),
+      outputCacheRate: before?.outputCacheRate ?? 0,
+    };
+
+    let action: RateCardChangeAction = "create";
+    if (before) {
+      action = ratesEqual(before, after) ? "unchanged" : "update";
+    }
+    changes.push({ action, provider, model, before, after });
+
+    if (!existingTags) {
+      continue;
+    }
+    const prices = [
+      ["INPUT", input],
+      ["INPUT_CACHE", cacheRead],
+      ["OUTPUT", output],
+    ] as const;
+    for (const [price, dollars] of prices) {
+      if (dollars === undefined) {
+        continue;
+      }
+      const key = modelTagKey(model, price);
+      if (plannedTags.has(key)) {
+        skipped.push({
+          model,
+          reason: `Tag '${key}' is taken by another model`,
+        });
+        continue;
+      }
+      plannedTags.add(key);
+      tags.push({
+        action: tagged.has(key) ? "exists" : "create",
+        key,
+        amount: dollarsToCents(dollars),
+        provider,
+        model,
+      });
+    }
+  }
+
+  const count = (action: RateCardChangeAction) =>
+    changes.filter((change) => change.action === action).length;
+  const countTags = (action: TagChangeAction) =>
+    tags.filter((tag) => tag.action === action).length;
+
+  return {
+    changes,
+    tags,
+    skipped,
+    summary: {
+      create: count("create"),
+      update: count("update"),
+      unchanged: count("unchanged"),
+      skipped: skipped.length,
+    },
+    tagSummary: { create: countTags("create"), exists: countTags("exists") },
+  };
+}
+
+/**
+ * The rate cards an import plan writes, leaving out unchanged ones.
+ */
+export function pendingRateCardWrites(
+  plan: RateCardImportPlan
+): UpsertRateCardInput[] {
+  return plan.changes
+    .filter((change) => change.action !== "unchanged")
+    .map((change) => ({
+      provider: change.provider,
+      model: change.model,
+      ...change.after,
+    }));
+}
+
+/**
+ * The tags an import plan creates, leaving out keys that already exist.
+ */
+export function pendingTagWrites(
+  plan: RateCardImportPlan
+): { key: string; amount: number }[] {
+  return plan.tags
+    .filter((tag) => tag.action === "create")
+    .map((tag) => ({ key: tag.key, amount: tag.amount }));
+}
@@ -1,7 +1,26 @@
-import { Parser } from "expr-eval";
+import { DateTime } from "luxon";
 import { EventError } from "../errors/event";
 import { fetchTagAmount } from "./fetchTagAmount";
-import { findExpressionByKey } from "../storage/db/postgres/helpers/expressions";
+import { findExpressionVersions } from "../storage/db/postgres/helpers/expressions";
+import { StorageAdapterFactory } from "../factory";
+import type { UserId } from "../config/identifiers";
+import type { PeriodTokenUsage } from "../interface/storage/Storage";
+import { toDebitAmount } from "./debitAmount";
+import { fetchUserPriceBook, type PriceBook } from "./fetchPriceBook";
+import {
+  compileExpr,
+  collectReferences,
+  type ExprNode,
+  type TokenPlaceholder,
+} from "./exprAst";
+import {
+  compiledExpressionCache,
+  expressionCache,
+  inlineExpressionCacheKey,
+  priceBookExpressionCacheKey,
+  storedExpressionCacheKey,
+} from "./expressionCache";
+import { findEffectiveVersion } from "./effectiveVersion";
 
 /**
  * Expression Parser for Pricing DSL
@@ -14,35 +33,43 @@ import { findExpressionByKey } from "../storage/db/postgres/helpers/expressions"
  * - sub(a, b): a - b
  * - mul(...args): Product of all arguments
  * - div(a, b): a / b (floors result)
+ * - min(...args) / max(...args): Smallest / largest argument
+ * - clamp(value, lo, hi): value bounded to [lo, hi]
+ * - ceil(a) / round(a): Rounds up / to the nearest integer
+ * - if(cond, a, b): a when cond holds, b otherwise. cond is a comparison
+ *   using <, <=, >, >=, == or !=
  * - tag(NAME): Resolves to the tag's value from database
  * - expr(NAME): Resolves to a stored expression, recursively evaluated
+ * - tiered(TOKENS, upTo1, rate1, ..., rateN): Graduated pricing; each token
+ *   is charged at the rate of the tier it falls into
+ * - volume(TOKENS, upTo1, rate1, ..., rateN): Volume pricing; all tokens are
+ *   charged at the rate of the tier reached by the period total
  *
  * Token placeholders (inputTokens(), outputTokens()) may appear in
  * persisted expressions; they are resolved from the AI token usage context.
  *
- * Numbers are treated as cents (integers).
+ * Tier thresholds are cumulative over the user's current billing period
+ * (usage since users.last_billed_timestamp), so the first argument of
+ * tiered()/volume() must be a token placeholder. Usage already recorded
+ * for that token kind is looked up through the storage adapter and the
+ * event's tokens are placed on top of it.
+ *
+ * Expressions are compiled to an AST (see exprAst.ts) and evaluated by
+ * walking it. Compiled ASTs are cached by source string for inline
+ * expressions and by key and version for stored ones.
+ *
+ * Tags and stored expressions are effective-dated: each reference resolves
+ * to the version in force at the instant being priced, which for events
+ * is their reportedTimestamp rather than the ingestion time.
+ *
+ * When the user being priced has a price book, its tag and expression
+ * overrides win over the global definitions, whatever the instant.
+ *
+ * Numbers are treated as cents. Results keep sub-cent precision up to
+ * DEBIT_SCALE digits; rounding to whole cents happens when a billing
+ * period is totalled.
  */
 
-// Regex to match tag(NAME) patterns - tag names must be UPPER_SNAKE_CASE
-const TAG_PATTERN = /tag\(([A-Z_][A-Z0-9_]*)\)/g;
-
-// Regex to match expr(NAME) patterns - same format as tags
-const EXPR_PATTERN = /expr\(([A-Z_][A-Z0-9_]*)\)/g;
-
-// Allowed function names in expressions
-const ALLOWED_FUNCTIONS = new Set([
-  "add",
-  "sub",
-  "mul",
-  "div",
-  "tag",
-  "expr",
-  "inputTokens",
-  "outputTokens",
-  "inputCacheTokens",
-  "outputCacheTokens",
-]);
-
 /**
  * Token context passed from AI token usage event handlers.
  */
@@ -54,236 +81,520 @@ export interface EvalTokenContext {
 }
 
 /**
- * Creates a configured expr-eval parser with custom functions.
+ * Identifies the user being priced: their price book overrides tag() and
+ * expr() references, and their billing period is what tier thresholds are
+ * measured against. Without it, global prices apply and tiered()/volume()
+ * treat the period as empty.
  */
-function createParser(): Parser {
-  const parser = new Parser();
+export interface EvalUserContext {
+  userId: UserId;
+  mode: "production" | "test";
+}
 
-  // Variadic add: sum of all arguments
-  parser.functions.add = (...args: number[]): number => {
-    if (args.length === 0) {
-      throw new Error("add() requires at least one argument");
-    }
-    return args.reduce((sum, val) => sum + val, 0);
-  };
+interface Tier {
+  upTo: number;
+  rate: number;
+}
 
-  // Binary subtraction
-  parser.functions.sub = (a: number, b: number): number => {
-    if (typeof a !== "number" || typeof b !== "number") {
-      throw new Error("sub() requires exactly two numeric arguments");
-    }
-    return a - b;
-  };
+interface CompiledStoredExpression {
+  // null for price book overrides, which are not versioned
+  version: number | null;
+  expr: string;
+  ast: ExprNode;
+  priceBook: string | null;
+}
 
-  // Variadic multiply: product of all arguments
-  parser.functions.mul = (...args: number[]): number => {
-    if (args.length === 0) {
-      throw new Error("mul() requires at least one argument");
-    }
-    return args.reduce((product, val) => product * val, 1);
-  };
+/**
+ * Steps taken to resolve an expression, returned by evaluateExprWithTrace.
+ */
+export interface ExprTrace {
+  exprs: {
+    name: string;
+    version: number | null;
+    priceBook: string | null;
+    expr: string;
+    expanded: string;
+  }[];
+  tags: { name: string; amount: number; priceBook: string | null }[];
+  resolved: string;
+}
 
-  // Binary division with floor
-  parser.functions.div = (a: number, b: number): number => {
-    if (typeof a !== "number" || typeof b !== "number") {
-      throw new Error("div() requires exactly two numeric arguments");
-    }
-    if (b === 0) {
-      throw new Error("Division by zero");
-    }
-    return Math.floor(a / b);
-  };
+interface ResolvedTag {
+  amount: number;
+  priceBook: string | null;
+}
 
-  return parser;
+/**
+ * Everything an AST needs at evaluation time, resolved up front so the
+ * tree walk itself is synchronous.
+ */
+interface EvalEnv {
+  tags: Map<string, ResolvedTag>;
+  exprs: Map<string, CompiledStoredExpression>;
+  tokenContext?: EvalTokenContext;
+  periodUsage: PeriodTokenUsage | null;
 }
 
-function extractTagNames(exprString: string): string[] {
-  const tags = new Set<string>();
-  let match: RegExpExecArray | null;
+/**
+ * Splits tier arguments (upTo1, rate1, ..., upToN-1, rateN-1, rateN) into
+ * tiers. The final rate has no upper bound.
+ */
+function parseTiers(fnName: string, args: number[]): Tier[] {
+  if (args.length === 0 || args.length % 2 === 0) {
+    throw new Error(
+      `${fnName}() requires tiers as upTo/rate pairs followed by a final rate`
+    );
+  }
 
-  // Reset regex state
-  TAG_PATTERN.lastIndex = 0;
+  const tiers: Tier[] = [];
+  let previousUpTo = 0;
+  for (let i = 0; i < args.length - 1; i += 2) {
+    const upTo = args[i] as number;
+    const rate = args[i + 1] as number;
+    if (upTo <= previousUpTo) {
+      throw new Error(
+        `${fnName}() tier thresholds must be positive and strictly increasing`
+      );
+    }
+    tiers.push({ upTo, rate });
+    previousUpTo = upTo;
+  }
+  tiers.push({ upTo: Infinity, rate: args[args.length - 1] as number });
 
-  while ((match = TAG_PATTERN.exec(exprString)) !== null) {
-    if (match[1]) {
-      tags.add(match[1]);
+  for (const tier of tiers) {
+    if (tier.rate < 0) {
+      throw new Error(`${fnName}() tier rates must be non-negative numbers`);
     }
   }
 
-  return Array.from(tags);
+  return tiers;
 }
 
-export function validateExprSyntax(exprString: string): void {
-  if (!exprString || exprString.trim() === "") {
-    throw EventError.validationFailed("Expression cannot be empty");
+function validateTierQuantities(
+  fnName: string,
+  quantity: number,
+  periodUsage: number
+): void {
+  if (quantity < 0 || periodUsage < 0) {
+    throw new Error(`${fnName}() requires a non-negative token quantity`);
   }
+}
 
-  // Check parentheses balance
-  let depth = 0;
-  for (const char of exprString) {
-    if (char === "(") depth++;
-    if (char === ")") depth--;
-    if (depth < 0) {
-      throw EventError.validationFailed(
-        "Invalid expression syntax: unmatched closing parenthesis"
-      );
+// Graduated tiers: tokens above the period usage are split across tiers
+function tiered(quantity: number, periodUsage: number, tierArgs: number[]) {
+  validateTierQuantities("tiered", quantity, periodUsage);
+  const tiers = parseTiers("tiered", tierArgs);
+
+  let total = 0;
+  let lowerBound = 0;
+  const start = periodUsage;
+  const end = periodUsage + quantity;
+  for (const tier of tiers) {
+    const overlap = Math.min(end, tier.upTo) - Math.max(start, lowerBound);
+    if (overlap > 0) {
+      total += overlap * tier.rate;
     }
+    lowerBound = tier.upTo;
   }
-  if (depth !== 0) {
+  return total;
+}
+
+// Volume tiers: all tokens use the rate of the tier the period total reaches
+function volume(quantity: number, periodUsage: number, tierArgs: number[]) {
+  validateTierQuantities("volume", quantity, periodUsage);
+  const tiers = parseTiers("volume", tierArgs);
+
+  const periodTotal = periodUsage + quantity;
+  const tier = tiers.find((t) => periodTotal <= t.upTo) ?? tiers.at(-1);
+  return quantity * (tier?.rate ?? 0);
+}
+
+// Numeric built-ins; argument counts are already checked at compile time
+const FUNCTIONS: Record<string, (args: number[]) => number> = {
+  add: (args) => args.reduce((sum, val) => sum + val, 0),
+  sub: ([a, b]) => (a as number) - (b as number),
+  mul: (args) => args.reduce((product, val) => product * val, 1),
+  div: ([a, b]) => {
+    if (b === 0) {
+      throw new Error("Division by zero");
+    }
+    return Math.floor((a as number) / (b as number));
+  },
+  min: (args) => Math.min(...args),
+  max: (args) => Math.max(...args),
+  clamp: ([value, lo, hi]) => {
+    if ((lo as number) > (hi as number)) {
+      throw new Error("clamp() lower bound must not exceed upper bound");
+    }
+    return Math.min(Math.max(value as number, lo as number), hi as number);
+  },
+  ceil: ([a]) => Math.ceil(a as number),
+  round: ([a]) => Math.round(a as number),
+};
+
+function compare(
+  node: Extract<ExprNode, { kind: "compare" }>,
+  env: EvalEnv
+): boolean {
+  const left = evaluateNode(node.left, env);
+  const right = evaluateNode(node.right, env);
+  switch (node.op) {
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+    case "==":
+      return left === right;
+    case "!=":
+      return left !== right;
+  }
+}
+
+function tokenValue(name: TokenPlaceholder, env: EvalEnv): number {
+  if (!env.tokenContext) {
     throw EventError.validationFailed(
-      "Invalid expression syntax: unmatched opening parenthesis"
+      `${name}() can only be used when pricing AI token usage`
     );
   }
+  return env.tokenContext[name] ?? 0;
+}
 
-  // Extract and validate function names
-  const functionPattern = /([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/g;
-  let match: RegExpExecArray | null;
-
-  while ((match = functionPattern.exec(exprString)) !== null) {
-    const funcName = match[1]?.toLowerCase();
-    if (!funcName || !ALLOWED_FUNCTIONS.has(funcName)) {
+function evaluateNode(node: ExprNode, env: EvalEnv): number {
+  switch (node.kind) {
+    case "number":
+      return node.value;
+    case "tag":
+      return (env.tags.get(node.name) as ResolvedTag).amount;
+    case "exprRef":
+      return evaluateNode(
+        (env.exprs.get(node.name) as CompiledStoredExpression).ast,
+        env
+      );
+    case "token":
+      return tokenValue(node.name, env);
+    case "compare":
+      // Unreachable: compileExpr only allows comparisons inside if()
       throw EventError.validationFailed(
-        `Unknown function in expression: ${match[1]}`
+        `Comparison outside of if() at column ${node.column}`
       );
-    }
+    case "call":
+      break;
   }
 
-  // Validate tag name format (must be UPPER_SNAKE_CASE)
-  const tagNamePattern = /tag\(([^)]*)\)/gi;
-  while ((match = tagNamePattern.exec(exprString)) !== null) {
-    const tagName = match[1];
-    if (!tagName || !/^[A-Z_][A-Z0-9_]*$/.test(tagName)) {
-      throw EventError.validationFailed(
-        `Invalid tag name format: ${tagName}. Tag names must be UPPER_SNAKE_CASE`
-      );
-    }
+  if (node.name === "if") {
+    const cond = compare(
+      node.args[0] as Extract<ExprNode, { kind: "compare" }>,
+      env
+    );
+    return evaluateNode(node.args[cond ? 1 : 2] as ExprNode, env);
   }
 
-  // Validate expr name format (same UPPER_SNAKE_CASE as tags)
-  const exprNamePattern = /expr\(([^)]*)\)/gi;
-  while ((match = exprNamePattern.exec(exprString)) !== null) {
-    const exprName = match[1];
-    if (!exprName || !/^[A-Z_][A-Z0-9_]*$/.test(exprName)) {
-      throw EventError.validationFailed(
-        `Invalid expression name format: ${exprName}. Names must be UPPER_SNAKE_CASE`
-      );
-    }
+  if (node.name === "tiered" || node.name === "volume") {
+    const [metered, ...tierNodes] = node.args as [
+      Extract<ExprNode, { kind: "token" }>,
+      ...ExprNode[],
+    ];
+    const quantity = tokenValue(metered.name, env);
+    const periodUsage = env.periodUsage?.[metered.name] ?? 0;
+    const tierArgs = tierNodes.map((arg) => evaluateNode(arg, env));
+    return node.name === "tiered"
+      ? tiered(quantity, periodUsage, tierArgs)
+      : volume(quantity, periodUsage, tierArgs);
   }
+
+  const fn = FUNCTIONS[node.name] as (args: number[]) => number;
+  return fn(node.args.map((arg) => evaluateNode(arg, env)));
 }
 
 /**
- * Resolves all expr(NAME) references in an expression by fetching
- * their stored expression strings from the database and expanding them.
- *
- * Handles recursion: if a stored expression itself contains expr() refs,
- * those are resolved recursively. Cycle detection prevents infinite loops.
- *
- * @param exprString - The expression string with expr(NAME) references
- * @returns The expression string with all expr() refs expanded
- * @throws EventError if an expression is not found or a cycle is detected
+ * Compiles an inline expression, reusing a cached AST for repeated sources.
  */
-export async function resolveExprRefsInExpression(
-  exprString: string,
-  resolving: Set<string> = new Set()
-): Promise<string> {
-  const refs = extractExprRefs(exprString);
-
-  if (refs.length === 0) {
-    return exprString;
+function compileInline(exprString: string): ExprNode {
+  const cacheKey = inlineExpressionCacheKey(exprString);
+  const cached = compiledExpressionCache.get(cacheKey);
+  if (cached) {
+    return cached;
   }
 
-  let resolved = exprString;
+  const ast = compileExpr(exprString);
+  compiledExpressionCache.set(cacheKey, ast);
+  return ast;
+}
 
-  for (const refName of refs) {
-    if (resolving.has(refName)) {
-      throw EventError.validationFailed(
-        `Circular expression reference detected: ${refName}`
-      );
+/**
+ * Loads the compiled AST of the stored expression version in force at
+ * `at`. Versions are looked up through expressionCache and the AST is
+ * cached per version, so steady-state evaluation needs no database
+ * round-trip.
+ */
+async function loadStoredExpression(
+  name: string,
+  at: DateTime
+): Promise<CompiledStoredExpression> {
+  let versions = expressionCache.get(name);
+  if (versions === undefined) {
+    versions = await findExpressionVersions(name);
+    if (versions.length > 0) {
+      expressionCache.set(name, versions);
     }
+  }
 
-    const storedExpr = await findExpressionByKey(refName);
-    if (!storedExpr) {
-      throw EventError.validationFailed(`Expression not found: ${refName}`);
-    }
+  const stored = findEffectiveVersion(versions, at);
+  if (!stored) {
+    throw EventError.validationFailed(`Expression not found: ${name}`);
+  }
 
-    resolving.add(refName);
+  const cacheKey = storedExpressionCacheKey(name, stored.version);
+  let ast = compiledExpressionCache.get(cacheKey);
+  if (!ast) {
+    ast = compileExpr(stored.expr);
+    compiledExpressionCache.set(cacheKey, ast);
+  }
 
-    const expanded = await resolveExprRefsInExpression(storedExpr, resolving);
+  return { version: stored.version, expr: stored.expr, ast, priceBook: null };
+}
 
-    const refPattern = new RegExp(`expr\\(${refName}\\)`, "g");
-    resolved = resolved.replace(refPattern, `(${expanded})`);
+/**
+ * Loads the compiled AST of a price book's expression override. Each
+ * override is a separate row, so its AST is cached by row id.
+ */
+function loadPriceBookExpression(
+  name: string,
+  priceBook: PriceBook
+): CompiledStoredExpression | undefined {
+  const override = priceBook.exprs.get(name);
+  if (!override) {
+    return undefined;
+  }
 
-    resolving.delete(refName);
+  const cacheKey = priceBookExpressionCacheKey(override.id);
+  let ast = compiledExpressionCache.get(cacheKey);
+  if (!ast) {
+    ast = compileExpr(override.expr);
+    compiledExpressionCache.set(cacheKey, ast);
   }
 
-  return resolved;
+  return { version: null, expr: override.expr, ast, priceBook: priceBook.key };
 }
 
-function extractExprRefs(exprString: string): string[] {
-  const refs = new Set<string>();
-  let match: RegExpExecArray | null;
-
-  EXPR_PATTERN.lastIndex = 0;
+/**
+ * Resolves every tag() and expr() node reachable from an AST, recursing
+ * into stored expressions. Cycle detection prevents infinite loops.
+ * Tags and expressions resolve to the price book's overrides when it has
+ * one, and otherwise to the global versions in force at `at`.
+ *
+ * @returns Tag values and stored-expression ASTs by name, and whether any
+ *   tier function was encountered
+ * @throws EventError if a tag or expression is not found or a cycle is detected
+ */
+async function resolveReferences(
+  ast: ExprNode,
+  at: DateTime,
+  priceBook: PriceBook | null
+): Promise<{
+  tags: Map<string, ResolvedTag>;
+  exprs: Map<string, CompiledStoredExpression>;
+  hasTiers: boolean;
+}> {
+  const tags = new Map<string, ResolvedTag>();
+  const exprs = new Map<string, CompiledStoredExpression>();
+  let hasTiers = false;
+
+  const visit = async (node: ExprNode, resolving: Set<string>) => {
+    const refs = collectReferences(node);
+    hasTiers = hasTiers || refs.hasTiers;
+
+    for (const tagName of refs.tags) {
+      if (tags.has(tagName)) {
+        continue;
+      }
+      const override = priceBook?.tags.get(tagName);
+      tags.set(
+        tagName,
+        override !== undefined
+          ? { amount: override, priceBook: (priceBook as PriceBook).key }
+          : {
+              amount: await fetchTagAmount(
+                tagName,
+                `Tag not found: ${tagName}`,
+                at
+              ),
+              priceBook: null,
+            }
+      );
+    }
 
-  while ((match = EXPR_PATTERN.exec(exprString)) !== null) {
-    if (match[1]) {
-      refs.add(match[1]);
+    for (const refName of refs.exprs) {
+      if (resolving.has(refName)) {
+        throw EventError.validationFailed(
+          `Circular expression reference detected: ${refName}`
+        );
+      }
+      if (exprs.has(refName)) {
+        continue;
+      }
+
+      const stored =
+        (priceBook && loadPriceBookExpression(refName, priceBook)) ||
+        (await loadStoredExpression(refName, at));
+      resolving.add(refName);
+      await visit(stored.ast, resolving);
+      resolving.delete(refName);
+      exprs.set(refName, stored);
     }
-  }
+  };
 
-  return Array.from(refs);
+  await visit(ast, new Set());
+  return { tags, exprs, hasTiers };
 }
 
 /**
- * Resolves all tag references in an expression by fetching their values
- * from the database and replacing them in the expression string.
- *
- * @param exprString - The expression string with tag(NAME) references
- * @returns The expression string with tags replaced by their numeric values
- * @throws EventError if any tag is not found
+ * Walks a resolved AST and returns the result in cents, rounded to
+ * DEBIT_SCALE fractional digits.
+ * Errors raised by built-in functions are wrapped in EventError.
  */
-async function resolveTagsInExpression(exprString: string): Promise<string> {
-  const tagNames = extractTagNames(exprString);
+function evaluateToCents(ast: ExprNode, env: EvalEnv): number {
+  try {
+    const result = evaluateNode(ast, env);
 
-  if (tagNames.length === 0) {
-    return exprString;
-  }
+    if (!Number.isFinite(result)) {
+      throw EventError.validationFailed(
+        `Expression evaluation produced invalid result: ${result}`
+      );
+    }
 
-  // Fetch all tag values (fetchTagAmount handles caching)
-  const tagValues = new Map<string, number>();
+    return toDebitAmount(result);
+  } catch (error) {
+    // Re-throw EventError as-is
+    if (error instanceof EventError) {
+      throw error;
+    }
 
-  for (const tagName of tagNames) {
-    const value = await fetchTagAmount(tagName, `Tag not found: ${tagName}`);
-    tagValues.set(tagName, value);
+    // Wrap other errors
+    const message =
+      error instanceof Error ? error.message : "Unknown evaluation error";
+
+    // Check for specific error types
+    if (message.includes("Division by zero")) {
+      throw EventError.validationFailed("Division by zero in expression");
+    }
+
+    throw EventError.validationFailed(
+      `Failed to evaluate expression: ${message}`
+    );
   }
+}
 
-  // Replace all tag(NAME) with their values
-  let resolvedExpr = exprString;
-  for (const [tagName, value] of tagValues) {
-    // Use a regex with global flag to replace all occurrences
-    const tagPattern = new RegExp(`tag\\(${tagName}\\)`, "g");
-    resolvedExpr = resolvedExpr.replace(tagPattern, value.toString());
+/**
+ * Prints an AST back to DSL form with every reference substituted:
+ * expr() refs are inlined, tags and token placeholders become numbers.
+ */
+function formatResolved(node: ExprNode, env: EvalEnv): string {
+  switch (node.kind) {
+    case "number":
+      return String(node.value);
+    case "tag":
+      return String((env.tags.get(node.name) as ResolvedTag).amount);
+    case "exprRef":
+      return formatResolved(
+        (env.exprs.get(node.name) as CompiledStoredExpression).ast,
+        env
+      );
+    case "token":
+      return env.tokenContext
+        ? String(tokenValue(node.name, env))
+        : `${node.name}()`;
+    case "compare":
+      return `${formatResolved(node.left, env)} ${node.op} ${formatResolved(node.right, env)}`;
+    case "call": {
+      const args = node.args.map((arg) => formatResolved(arg, env));
+      if (node.name === "tiered" || node.name === "volume") {
+        // Show the period usage the tiers are measured from
+        const metered = node.args[0] as Extract<ExprNode, { kind: "token" }>;
+        args.splice(1, 0, String(env.periodUsage?.[metered.name] ?? 0));
+      }
+      return `${node.name}(${args.join(",")})`;
+    }
   }
+}
 
-  return resolvedExpr;
+/**
+ * Validates expression syntax, function names, argument counts and
+ * reference name formats without touching the database.
+ *
+ * @throws EventError describing the first problem and its column
+ */
+export function validateExprSyntax(exprString: string): void {
+  compileInline(exprString);
 }
 
 /**
- * Replaces inputTokens() and outputTokens() and outputCacheTokens() placeholders with concrete
- * values from the AI token usage event context.
+ * Checks that every tag() and expr() reference in an expression is in
+ * force at `at` and that stored expressions do not reference each other
+ * in a cycle.
  *
- * This handles persisted expressions that contain token placeholders,
- * since the SDK cannot resolve them for expressions it doesn't know about.
+ * @param at - When the expression would take effect (defaults to now)
+ * @param priceBook - Price book whose overrides the expression would see
+ * @throws EventError if a reference is missing or circular
  */
-function resolveTokenPlaceholders(
+export async function validateExprRefs(
   exprString: string,
-  context: EvalTokenContext
-): string {
-  return exprString
-    .replace(/inputTokens\(\)/g, String(context.inputTokens ?? 0))
-    .replace(/outputTokens\(\)/g, String(context.outputTokens ?? 0))
-    .replace(/inputCacheTokens\(\)/g, String(context.inputCacheTokens ?? 0))
-    .replace(/outputCacheTokens\(\)/g, String(context.outputCacheTokens ?? 0));
+  at: DateTime = DateTime.utc(),
+  priceBook: PriceBook | null = null
+): Promise<void> {
+  await resolveReferences(compileInline(exprString), at, priceBook);
+}
+
+/**
+ * Dry-runs a pricing expression and reports how it was resolved.
+ *
+ * Follows the same pipeline as parseAndEvaluateExpr, and additionally
+ * returns each expanded expr() ref, each substituted tag() value and the
+ * fully resolved arithmetic that was evaluated. No billing period is
+ * attached, so tier functions start from zero usage.
+ *
+ * @param exprString - The expression string to evaluate
+ * @param tokenContext - Optional AI token usage context for resolving placeholders
+ * @param at - Instant whose tag and expression versions are used (defaults to now)
+ * @param userId - Optional user whose price book overrides are applied
+ * @returns The result in cents and the resolution trace
+ * @throws EventError for syntax errors, unknown tags, or evaluation errors
+ */
+export async function evaluateExprWithTrace(
+  exprString: string,
+  tokenContext?: EvalTokenContext,
+  at: DateTime = DateTime.utc(),
+  userId?: UserId
+): Promise<{ amount: number; trace: ExprTrace }> {
+  const ast = compileInline(exprString);
+  const priceBook = userId ? await fetchUserPriceBook(userId) : null;
+  const { tags, exprs } = await resolveReferences(ast, at, priceBook);
+  const env: EvalEnv = { tags, exprs, tokenContext, periodUsage: null };
+
+  const amount = evaluateToCents(ast, env);
+
+  return {
+    amount,
+    trace: {
+      exprs: Array.from(exprs, ([name, stored]) => ({
+        name,
+        version: stored.version,
+        priceBook: stored.priceBook,
+        expr: stored.expr,
+        expanded: formatResolved(stored.ast, env),
+      })),
+      tags: Array.from(tags, ([name, tag]) => ({
+        name,
+        amount: tag.amount,
+        priceBook: tag.priceBook,
+      })),
+      resolved: formatResolved(ast, env),
+    },
+  };
 }
 
 /**
@@ -291,16 +602,20 @@ function resolveTokenPlaceholders(
  *
  * This is the main entry point for expression evaluation.
  * It handles the full pipeline:
- * 1. Validates expression syntax
- * 2. Resolves all expr(NAME) references from the database (recursive, with cycle detection)
- * 3. Resolves all tag references from the database
- * 4. Resolves token placeholders (if tokenContext provided)
- * 5. Evaluates the expression using expr-eval
- * 6. Returns the floored integer result (cents)
+ * 1. Compiles the expression to an AST (cached by source)
+ * 2. Resolves expr(NAME) nodes to the user's price book overrides or the
+ *    stored ASTs in force at `at` (cached, recursive, with cycle detection)
+ * 3. Resolves tag values from the price book or the versions in force at `at`
+ * 4. Fetches billing-period usage if a tier function is present
+ * 5. Evaluates the AST with the token context (if provided)
+ * 6. Returns the result in cents with sub-cent precision
  *
  * @param exprString - The expression string to evaluate
  * @param tokenContext - Optional AI token usage context for resolving placeholders
- * @returns The evaluated result as an integer (cents)
+ * @param userContext - Optional user whose price book and period usage apply
+ * @param at - Instant whose tag and expression versions are used, normally
+ *   the event's reportedTimestamp (defaults to now)
+ * @returns The evaluated result in cents
  * @throws EventError for syntax errors, unknown tags, or evaluation errors
  *
  * @example
@@ -320,58 +635,41 @@ function resolveTokenPlaceholders(
  * })
  * // Fetches PER_TOKEN_INPUT from DB → "mul(tag(RATE),inputTokens())"
  * // Resolves tag(RATE) and inputTokens()=150 → evaluates
+ *
+ * @example
+ * // Graduated tiers, user already used 900 input tokens this period
+ * await parseAndEvaluateExpr(
+ *   "tiered(inputTokens(), 1000, 3, 2)",
+ *   { inputTokens: 150 },
+ *   { userId, mode: "production" }
+ * )
+ * // Returns: 400 (100*3 + 50*2)
  */
 export async function parseAndEvaluateExpr(
   exprString: string,
-  tokenContext?: EvalTokenContext
+  tokenContext?: EvalTokenContext,
+  userContext?: EvalUserContext,
+  at: DateTime = DateTime.utc()
 ): Promise<number> {
-  // Step 1: Validate syntax
-  validateExprSyntax(exprString);
-
-  // Step 2: Resolve all expr(NAME) references (recursive, from DB)
-  const expandedExpr = await resolveExprRefsInExpression(exprString);
-
-  // Step 3: Resolve all tags to their values
-  const tagResolvedExpr = await resolveTagsInExpression(expandedExpr);
-
-  // Step 4: Resolve token placeholders if context provided
-  const finalExpr = tokenContext
-    ? resolveTokenPlaceholders(tagResolvedExpr, tokenContext)
-    : tagResolvedExpr;
-
-  // Step 5: Parse and evaluate
-  const parser = createParser();
-
-  try {
-    const expression = parser.parse(finalExpr);
-    const result = expression.evaluate();
-
-    // Step 6: Validate and return result
-    if (typeof result !== "number" || !Number.isFinite(result)) {
-      throw EventError.validationFailed(
-        `Expression evaluation produced invalid result: ${result}`
-      );
-    }
-
-    // Floor to ensure integer cents
-    return Math.floor(result);
-  } catch (error) {
-    // Re-throw EventError as-is
-    if (error instanceof EventError) {
-      throw error;
-    }
-
-    // Wrap other errors
-    const message =
-      error instanceof Error ? error.message : "Unknown evaluation error";
-
-    // Check for specific error types
-    if (message.includes("Division by zero")) {
-      throw EventError.validationFailed("Division by zero in expression");
-    }
-
-    throw EventError.validationFailed(
-      `Failed to evaluate expression: ${message}`
+  // Step 1: Compile
+  const ast = compileInline(exprString);
+
+  // Steps 2-3: Resolve stored expressions and tags
+  const priceBook = userContext
+    ? await fetchUserPriceBook(userContext.userId)
+    : null;
+  const { tags, exprs, hasTiers } = await resolveReferences(ast, at, priceBook);
+
+  // Step 4: Period usage for tier functions
+  let periodUsage: PeriodTokenUsage | null = null;
+  if (hasTiers && userContext) {
+    const adapter = await StorageAdapterFactory.getEventStorageAdapter();
+    periodUsage = await adapter.periodTokenUsage(
+      userContext.userId,
+      userContext.mode
     );
   }
+
+  // Steps 5-6: Evaluate to cents
+  return evaluateToCents(ast, { tags, exprs, tokenContext, periodUsage });
 }
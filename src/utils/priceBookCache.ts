@@ -0,0 +1,20 @@
+import { Cache } from "./cacheStore";
+import type { PriceBook } from "./fetchPriceBook";
+
+// Overrides of each price book by id; null for books that do not exist
+export const priceBookCache = Cache.getStore<string, PriceBook | null>(
+  "price-books",
+  {
+    max: 200,
+    ttlMs: 10 * 60 * 1000,
+  }
+);
+
+// Price book assigned to each user; null for users on default pricing
+export const userPriceBookCache = Cache.getStore<string, string | null>(
+  "user-price-books",
+  {
+    max: 10000,
+    ttlMs: 10 * 60 * 1000,
+  }
+);
@@ -0,0 +1,8 @@
+import { Cache } from "./cacheStore";
+import type { RateCard } from "../storage/db/postgres/helpers/rateCards";
+
+// Rate cards of each provider, matched against models in memory
+export const rateCardCache = Cache.getStore<string, RateCard[]>("rate-cards", {
+  max: 100,
+  ttlMs: 10 * 60 * 1000,
+});
@@ -1,6 +1,8 @@
 import { Cache } from "./cacheStore";
+import type { TagVersion } from "../storage/db/postgres/helpers/tags";
 
-export const tagCache = Cache.getStore<string, number>("tags", {
+// Every version of a tag by key, so effective-dated lookups need no query
+export const tagCache = Cache.getStore<string, TagVersion[]>("tags", {
   max: 500,
   ttlMs: 10 * 60 * 1000,
 });
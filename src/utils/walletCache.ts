@@ -0,0 +1,10 @@
+import { Cache } from "./cacheStore";
+
+// When each user switched to prepaid billing; null for post-paid users
+export const prepaidSinceCache = Cache.getStore<string, string | null>(
+  "user-wallets",
+  {
+    max: 10000,
+    ttlMs: 10 * 60 * 1000,
+  }
+);
@@ -2,7 +2,9 @@ import { z } from "zod";
 import { DateTime } from "luxon";
 import { USER_ID_CONFIG } from "../config/identifiers";
 import { fetchTagAmount } from "../utils/fetchTagAmount";
-import { parseAndEvaluateExpr } from "../utils/parseExpr";
+import { fetchRateCard } from "../utils/fetchRateCard";
+import { toDebitAmount } from "../utils/debitAmount";
+import { parseAndEvaluateExpr, type EvalUserContext } from "../utils/parseExpr";
 import { EventType, BasicUsageType } from "../gen/event/v1/event";
 import type {
   BasicUsageEventData,
@@ -26,162 +28,295 @@ const BaseEvent = z.object({
     .transform((ts) => DateTime.fromSeconds(ts, { zone: "utc" })),
   eventId: z.uuid(),
   idempotencyKey: z.string().min(1),
+  mode: z.enum(["production", "test"]),
 });
 
-const BasicUsageDataSchema: z.ZodType<BasicUsageEventData> = z
-  .object({
-    basicUsageType: z.union([
-      z
-        .literal(BasicUsageType.BASIC_USAGE_TYPE_UNSPECIFIED)
-        .transform(() => "RAW" as const),
-      z.literal(BasicUsageType.RAW).transform(() => "RAW" as const),
-      z
-        .literal(BasicUsageType.MIDDLEWARE_CALL)
-        .transform(() => "MIDDLEWARE_CALL" as const),
-    ]),
-    amount: z.number().optional(),
-    tag: z.string().optional(),
-    expr: z.string().optional(),
-    metadata: z.string().optional(),
-  })
-  .transform(async (v): Promise<BasicUsageEventData> => {
-    let debitAmount: number;
-    if (v.tag) {
-      debitAmount = await fetchTagAmount(v.tag, `Tag not found: ${v.tag}`);
-    } else if (v.expr) {
-      debitAmount = await parseAndEvaluateExpr(v.expr);
-    } else {
-      debitAmount = v.amount ?? 0;
-    }
-    return {
-      basicUsageType: v.basicUsageType,
-      debitAmount,
-      metadata: v.metadata ? parseMetadata(v.metadata) : undefined,
-    };
-  });
-
-const AITokenUsageDataSchema: z.ZodType<AITokenUsageEventData> = z
-  .object({
-    model: z.string().min(1),
-    provider: z.string().optional().default("unknown"),
-    inputTokens: z.number().int().min(0),
-    inputCacheTokens: z.number().int().min(0),
-    outputTokens: z.number().int().min(0),
-    inputAmount: z.number().optional(),
-    inputTag: z.string().optional(),
-    inputExpr: z.string().optional(),
-    inputCacheAmount: z.number().optional(),
-    inputCacheTag: z.string().optional(),
-    inputCacheExpr: z.string().optional(),
-    outputCacheTokens: z.number().int().min(0),
-    outputCacheAmount: z.number().optional(),
-    outputCacheTag: z.string().optional(),
-    outputCacheExpr: z.string().optional(),
-    outputAmount: z.number().optional(),
-    outputTag: z.string().optional(),
-    outputExpr: z.string().optional(),
-    metadata: z.string().optional(),
-  })
-  .transform(async (v): Promise<AITokenUsageEventData> => {
-    const tokenContext = {
-      inputTokens: v.inputTokens,
-      inputCacheTokens: v.inputCacheTokens,
-      outputTokens: v.outputTokens,
-      outputCacheTokens: v.outputCacheTokens,
-    };
-
-    let inputDebitAmount: number;
-    if (v.inputTag) {
-      inputDebitAmount = await fetchTagAmount(
-        v.inputTag,
-        `Input tag not found: ${v.inputTag}`
-      );
-    } else if (v.inputExpr) {
-      inputDebitAmount = await parseAndEvaluateExpr(v.inputExpr, tokenContext);
-    } else {
-      inputDebitAmount = v.inputAmount ?? 0;
-    }
+const BasicUsageDataSchema = z.object({
+  basicUsageType: z.union([
+    z
+      .literal(BasicUsageType.BASIC_USAGE_TYPE_UNSPECIFIED)
+      .transform(() => "RAW" as const),
+    z.literal(BasicUsageType.RAW).transform(() => "RAW" as const),
+    z
+      .literal(BasicUsageType.MIDDLEWARE_CALL)
+      .transform(() => "MIDDLEWARE_CALL" as const),
+  ]),
+  amount: z.number().optional(),
+  tag: z.string().optional(),
+  expr: z.string().optional(),
+  metadata: z.string().optional(),
+});
 
-    let inputCacheDebitAmount: number;
-    if (v.inputCacheTag) {
-      inputCacheDebitAmount = await fetchTagAmount(
-        v.inputCacheTag,
-        `Input cache tag not found: ${v.inputCacheTag}`
-      );
-    } else if (v.inputCacheExpr) {
-      inputCacheDebitAmount = await parseAndEvaluateExpr(
-        v.inputCacheExpr,
-        tokenContext
-      );
-    } else {
-      inputCacheDebitAmount = v.inputCacheAmount ?? 0;
-    }
+async function priceBasicUsage(
+  v: z.output<typeof BasicUsageDataSchema>,
+  userContext: EvalUserContext,
+  reportedAt: DateTime
+): Promise<BasicUsageEventData> {
+  let debitAmount: number;
+  if (v.tag) {
+    debitAmount = await fetchTagAmount(
+      v.tag,
+      `Tag not found: ${v.tag}`,
+      reportedAt,
+      userContext.userId
+    );
+  } else if (v.expr) {
+    debitAmount = await parseAndEvaluateExpr(
+      v.expr,
+      undefined,
+      userContext,
+      reportedAt
+    );
+  } else {
+    debitAmount = v.amount ?? 0;
+  }
+  return {
+    basicUsageType: v.basicUsageType,
+    debitAmount,
+    metadata: v.metadata ? parseMetadata(v.metadata) : undefined,
+    tag: v.tag,
+  };
+}
 
-    let outputCacheDebitAmount: number;
-    if (v.outputCacheTag) {
-      outputCacheDebitAmount = await fetchTagAmount(
-        v.outputCacheTag,
-        `Output cache tag not found: ${v.outputCacheTag}`
-      );
-    } else if (v.outputCacheExpr) {
-      outputCacheDebitAmount = await parseAndEvaluateExpr(
-        v.outputCacheExpr,
-        tokenContext
-      );
-    } else {
-      outputCacheDebitAmount = v.outputCacheAmount ?? 0;
-    }
+const AITokenUsageDataSchema = z.object({
+  model: z.string().min(1),
+  provider: z.string().optional().default("unknown"),
+  inputTokens: z.number().int().min(0),
+  inputCacheTokens: z.number().int().min(0),
+  outputTokens: z.number().int().min(0),
+  inputAmount: z.number().optional(),
+  inputTag: z.string().optional(),
+  inputExpr: z.string().optional(),
+  inputCacheAmount: z.number().optional(),
+  inputCacheTag: z.string().optional(),
+  inputCacheExpr: z.string().optional(),
+  outputCacheTokens: z.number().int().min(0),
+  outputCacheAmount: z.number().optional(),
+  outputCacheTag: z.string().optional(),
+  outputCacheExpr: z.string().optional(),
+  outputAmount: z.number().optional(),
+  outputTag: z.string().optional(),
+  outputExpr: z.string().optional(),
+  metadata: z.string().optional(),
+});
 
-    let outputDebitAmount: number;
-    if (v.outputTag) {
-      outputDebitAmount = await fetchTagAmount(
-        v.outputTag,
-        `Output tag not found: ${v.outputTag}`
-      );
-    } else if (v.outputExpr) {
-      outputDebitAmount = await parseAndEvaluateExpr(
-        v.outputExpr,
-        tokenContext
-      );
-    } else {
-      outputDebitAmount = v.outputAmount ?? 0;
+const AI_TOKEN_PRICING_FIELDS = [
+  "inputAmount",
+  "inputTag",
+  "inputExpr",
+  "inputCacheAmount",
+  "inputCacheTag",
+  "inputCacheExpr",
+  "outputCacheAmount",
+  "outputCacheTag",
+  "outputCacheExpr",
+  "outputAmount",
+  "outputTag",
+  "outputExpr",
+] as const;
+
+type AITokenDebitAmounts = Pick<
+  AITokenUsageEventData,
+  | "inputDebitAmount"
+  | "inputCacheDebitAmount"
+  | "outputCacheDebitAmount"
+  | "outputDebitAmount"
+>;
+
+function toAITokenUsageEventData(
+  v: z.output<typeof AITokenUsageDataSchema>,
+  amounts: AITokenDebitAmounts
+): AITokenUsageEventData {
+  return {
+    model: v.model,
+    provider: v.provider,
+    inputTokens: v.inputTokens,
+    inputCacheTokens: v.inputCacheTokens,
+    outputTokens: v.outputTokens,
+    outputCacheTokens: v.outputCacheTokens,
+    ...amounts,
+    metadata: v.metadata ? parseMetadata(v.metadata) : undefined,
+  };
+}
+
+/**
+ * Prices an event that carries no pricing fields from the server-side
+ * rate card for its (provider, model).
+ *
+ * @returns The debit amounts, or null if no rate card matches
+ */
+async function priceFromRateCard(
+  v: z.output<typeof AITokenUsageDataSchema>
+): Promise<AITokenDebitAmounts | null> {
+  const rateCard = await fetchRateCard(v.provider, v.model);
+  if (!rateCard) {
+    return null;
+  }
+
+  return {
+    inputDebitAmount: toDebitAmount(v.inputTokens * rateCard.inputRate),
+    inputCacheDebitAmount: toDebitAmount(
+      v.inputCacheTokens * rateCard.inputCacheRate
+    ),
+    outputCacheDebitAmount: toDebitAmount(
+      v.outputCacheTokens * rateCard.outputCacheRate
+    ),
+    outputDebitAmount: toDebitAmount(v.outputTokens * rateCard.outputRate),
+  };
+}
+
+async function priceAITokenUsage(
+  v: z.output<typeof AITokenUsageDataSchema>,
+  userContext: EvalUserContext,
+  reportedAt: DateTime
+): Promise<AITokenUsageEventData> {
+  if (AI_TOKEN_PRICING_FIELDS.every((field) => v[field] === undefined)) {
+    const rateCardAmounts = await priceFromRateCard(v);
+    if (rateCardAmounts) {
+      return toAITokenUsageEventData(v, rateCardAmounts);
     }
+  }
+
+  const tokenContext = {
+    inputTokens: v.inputTokens,
+    inputCacheTokens: v.inputCacheTokens,
+    outputTokens: v.outputTokens,
+    outputCacheTokens: v.outputCacheTokens,
+  };
+
+  let inputDebitAmount: number;
+  if (v.inputTag) {
+    inputDebitAmount = await fetchTagAmount(
+      v.inputTag,
+      `Input tag not found: ${v.inputTag}`,
+      reportedAt,
+      userContext.userId
+    );
+  } else if (v.inputExpr) {
+    inputDebitAmount = await parseAndEvaluateExpr(
+      v.inputExpr,
+      tokenContext,
+      userContext,
+      reportedAt
+    );
+  } else {
+    inputDebitAmount = v.inputAmount ?? 0;
+  }
+
+  let inputCacheDebitAmount: number;
+  if (v.inputCacheTag) {
+    inputCacheDebitAmount = await fetchTagAmount(
+      v.inputCacheTag,
+      `Input cache tag not found: ${v.inputCacheTag}`,
+      reportedAt,
+      userContext.userId
+    );
+  } else if (v.inputCacheExpr) {
+    inputCacheDebitAmount = await parseAndEvaluateExpr(
+      v.inputCacheExpr,
+      tokenContext,
+      userContext,
+      reportedAt
+    );
+  } else {
+    inputCacheDebitAmount = v.inputCacheAmount ?? 0;
+  }
 
-    return {
-      model: v.model,
-      provider: v.provider,
-      inputTokens: v.inputTokens,
-      inputCacheTokens: v.inputCacheTokens,
-      outputTokens: v.outputTokens,
-      outputCacheTokens: v.outputCacheTokens,
+  let outputCacheDebitAmount: number;
+  if (v.outputCacheTag) {
+    outputCacheDebitAmount = await fetchTagAmount(
+      v.outputCacheTag,
+      `Output cache tag not found: ${v.outputCacheTag}`,
+      reportedAt,
+      userContext.userId
+    );
+  } else if (v.outputCacheExpr) {
+    outputCacheDebitAmount = await parseAndEvaluateExpr(
+      v.outputCacheExpr,
+      tokenContext,
+      userContext,
+      reportedAt
+    );
+  } else {
+    outputCacheDebitAmount = v.outputCacheAmount ?? 0;
+  }
+
+  let outputDebitAmount: number;
+  if (v.outputTag) {
+    outputDebitAmount = await fetchTagAmount(
+      v.outputTag,
+      `Output tag not found: ${v.outputTag}`,
+      reportedAt,
+      userContext.userId
+    );
+  } else if (v.outputExpr) {
+    outputDebitAmount = await parseAndEvaluateExpr(
+      v.outputExpr,
+      tokenContext,
+      userContext,
+      reportedAt
+    );
+  } else {
+    outputDebitAmount = v.outputAmount ?? 0;
+  }
+
+  return {
+    ...toAITokenUsageEventData(v, {
       inputDebitAmount,
       inputCacheDebitAmount,
       outputCacheDebitAmount,
       outputDebitAmount,
-      metadata: v.metadata ? parseMetadata(v.metadata) : undefined,
-    };
-  });
+    }),
+    tags: {
+      input: v.inputTag,
+      inputCache: v.inputCacheTag,
+      output: v.outputTag,
+      outputCache: v.outputCacheTag,
+    },
+  };
+}
 
 const RegisterEventBasicUsage = BaseEvent.extend({
   type: z
     .literal(EventType.BASIC_USAGE)
     .transform(() => "BASIC_USAGE" as const),
   basicUsage: BasicUsageDataSchema,
-});
+}).transform(async ({ mode, ...event }) => ({
+  ...event,
+  basicUsage: await priceBasicUsage(
+    event.basicUsage,
+    { userId: event.userId, mode },
+    event.reportedTimestamp
+  ),
+}));
 
 const StreamEventBasicUsage = BaseEvent.extend({
   type: z
     .literal(EventType.BASIC_USAGE)
     .transform(() => "BASIC_USAGE" as const),
   basicUsage: BasicUsageDataSchema,
-});
+}).transform(async ({ mode, ...event }) => ({
+  ...event,
+  basicUsage: await priceBasicUsage(
+    event.basicUsage,
+    { userId: event.userId, mode },
+    event.reportedTimestamp
+  ),
+}));
 
 const StreamEventAITokenUsage = BaseEvent.extend({
   type: z
     .literal(EventType.AI_TOKEN_USAGE)
     .transform(() => "AI_TOKEN_USAGE" as const),
   aiTokenUsage: AITokenUsageDataSchema,
-});
+}).transform(async ({ mode, ...event }) => ({
+  ...event,
+  aiTokenUsage: await priceAITokenUsage(
+    event.aiTokenUsage,
+    { userId: event.userId, mode },
+    event.reportedTimestamp
+  ),
+}));
 
 export const registerEventSchema = RegisterEventBasicUsage;
 export type RegisterEventSchemaType = z.output<typeof registerEventSchema>;
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { PAYMENT_PROVIDERS } from "../interface/payment/PaymentProvider";
 
 export interface FilterGroupOutput<C> {
   logical: "AND" | "OR";
@@ -33,6 +34,7 @@ export function createFilterGroupSchema<C extends z.ZodTypeAny>(
 }
 
 export const onboardingSchema = z.object({
+  provider: z.enum(PAYMENT_PROVIDERS).default("dodo"),
   dodoLiveApiKey: z.string().min(1, "Dodo live API key is required"),
   dodoTestApiKey: z.string().min(1, "Dodo test API key is required"),
   dodoLiveProductId: z.string().min(1, "Dodo live product ID is required"),
@@ -40,3 +42,14 @@ export const onboardingSchema = z.object({
   currency: z.string().min(1, "Currency is required"),
   redirectUrl: z.url("Redirect URL must be a valid URL"),
 });
+
+// Omitted fields are kept; null clears a field
+export const invoiceTemplateSchema = z
+  .object({
+    logoUrl: z.url("Logo URL must be a valid URL").nullable().optional(),
+    businessAddress: z.string().max(1000).nullable().optional(),
+    footer: z.string().max(2000).nullable().optional(),
+  })
+  .refine((v) => Object.values(v).some((field) => field !== undefined), {
+    message: "At least one template field is required",
+  });
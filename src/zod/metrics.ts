@@ -8,10 +8,10 @@ export const metricsSchema = z.object({
     output_cache: z.number().int(),
   }),
   debit_amount: z.object({
-    input: z.number().int(),
-    input_cache: z.number().int(),
-    output: z.number().int(),
-    output_cache: z.number().int(),
+    input: z.number(),
+    input_cache: z.number(),
+    output: z.number(),
+    output_cache: z.number(),
   }),
 });
 
@@ -8,3 +8,23 @@ export const createCheckoutLinkSchema = z.object({
 export type CreateCheckoutLinkSchemaType = z.infer<
   typeof createCheckoutLinkSchema
 >;
+
+export const createTopUpLinkSchema = z.object({
+  userId: USER_ID_CONFIG.validator,
+  // Cents of credit to buy
+  amount: z.number().int().positive("Top-up amount must be positive"),
+});
+
+export type CreateTopUpLinkSchemaType = z.infer<typeof createTopUpLinkSchema>;
+
+export const getBalanceSchema = z.object({
+  userId: USER_ID_CONFIG.validator,
+});
+
+export type GetBalanceSchemaType = z.infer<typeof getBalanceSchema>;
+
+export const previewChargeSchema = z.object({
+  userId: USER_ID_CONFIG.validator,
+});
+
+export type PreviewChargeSchemaType = z.infer<typeof previewChargeSchema>;